@@ -80,6 +80,101 @@ contract SettlementRouter is ISettlementRouter, ReentrancyGuard {
         address hook,
         bytes calldata hookData
     ) external nonReentrant {
+        _settle(
+            token,
+            from,
+            value,
+            validAfter,
+            validBefore,
+            nonce,
+            signature,
+            salt,
+            payTo,
+            facilitatorFee,
+            hook,
+            hookData,
+            msg.sender  // Facilitator is the transaction sender
+        );
+    }
+    
+    /**
+     * @inheritdoc ISettlementRouter
+     * @dev Each item runs through settleBatchItem in an external self-call so a failing item
+     *      reverts only its own state changes. The reentrancy lock is held for the whole batch.
+     */
+    function settleAndExecuteBatch(
+        SettlementParams[] calldata items
+    ) external nonReentrant returns (bool[] memory results) {
+        results = new bool[](items.length);
+        uint256 succeeded;
+        
+        for (uint256 i = 0; i < items.length; i++) {
+            try this.settleBatchItem(items[i], msg.sender) {
+                results[i] = true;
+                succeeded++;
+            } catch (bytes memory reason) {
+                emit SettlementFailed(
+                    calculateContextKey(items[i].from, items[i].token, items[i].nonce),
+                    i,
+                    reason
+                );
+            }
+        }
+        
+        emit BatchSettled(msg.sender, items.length, succeeded);
+    }
+    
+    /**
+     * @notice Settle one batch item (only callable by the router itself)
+     * @dev Not part of ISettlementRouter. Exists so settleAndExecuteBatch can isolate
+     *      items with try/catch; the facilitator is passed explicitly because
+     *      msg.sender is the router here.
+     * @param item Settlement parameters
+     * @param facilitator Batch sender credited with the facilitator fee
+     */
+    function settleBatchItem(SettlementParams calldata item, address facilitator) external {
+        if (msg.sender != address(this)) {
+            revert Unauthorized();
+        }
+        _settle(
+            item.token,
+            item.from,
+            item.value,
+            item.validAfter,
+            item.validBefore,
+            item.nonce,
+            item.signature,
+            item.salt,
+            item.payTo,
+            item.facilitatorFee,
+            item.hook,
+            item.hookData,
+            facilitator
+        );
+    }
+    
+    // ===== Internal Functions =====
+    
+    /**
+     * @notice Settle a payment and execute its Hook
+     * @dev See settleAndExecute for the execution flow
+     * @param facilitator Address credited with the facilitator fee and passed to the Hook
+     */
+    function _settle(
+        address token,
+        address from,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        bytes calldata signature,
+        bytes32 salt,
+        address payTo,
+        uint256 facilitatorFee,
+        address hook,
+        bytes calldata hookData,
+        address facilitator
+    ) internal {
         // 1. Calculate commitment hash from all parameters
         bytes32 commitment = calculateCommitment(
             token,
@@ -147,13 +242,12 @@ contract SettlementRouter is ISettlementRouter, ReentrancyGuard {
         
         // 9. Accumulate facilitator fee
         if (facilitatorFee > 0) {
-            pendingFees[msg.sender][token] += facilitatorFee;
-            emit FeeAccumulated(msg.sender, token, facilitatorFee);
+            pendingFees[facilitator][token] += facilitatorFee;
+            emit FeeAccumulated(facilitator, token, facilitatorFee);
         }
         
         // 10. Call Hook (if any) with net amount after fee deduction
         uint256 hookAmount = value - facilitatorFee;
-        address facilitator = msg.sender;  // Facilitator is the transaction sender
         if (hook != address(0)) {
             // Approve Hook to use funds (net amount after fee)
             IERC20(token).forceApprove(hook, hookAmount);
@@ -7,6 +7,27 @@ pragma solidity ^0.8.20;
  * @dev Provides ability to complete payment verification and business execution in a single contract call
  */
 interface ISettlementRouter {
+    // ===== Types =====
+    
+    /**
+     * @notice Parameters of a single settlement (same fields as settleAndExecute)
+     * @dev Used by settleAndExecuteBatch
+     */
+    struct SettlementParams {
+        address token;
+        address from;
+        uint256 value;
+        uint256 validAfter;
+        uint256 validBefore;
+        bytes32 nonce;
+        bytes signature;
+        bytes32 salt;
+        address payTo;
+        uint256 facilitatorFee;
+        address hook;
+        bytes hookData;
+    }
+    
     // ===== Events =====
     
     /**
@@ -79,6 +100,30 @@ interface ISettlementRouter {
         bool approved
     );
     
+    /**
+     * @notice Batch item failed event (the item was rolled back, other items are unaffected)
+     * @param contextKey Settlement context ID of the failed item
+     * @param index Position of the item in the batch
+     * @param reason Revert data of the failed settlement
+     */
+    event SettlementFailed(
+        bytes32 indexed contextKey,
+        uint256 index,
+        bytes reason
+    );
+    
+    /**
+     * @notice Batch settlement completed event
+     * @param facilitator Facilitator address (batch sender)
+     * @param total Number of items in the batch
+     * @param succeeded Number of items settled
+     */
+    event BatchSettled(
+        address indexed facilitator,
+        uint256 total,
+        uint256 succeeded
+    );
+    
     // ===== Core Methods =====
     
     /**
@@ -119,6 +164,19 @@ interface ISettlementRouter {
         bytes calldata hookData
     ) external;
     
+    /**
+     * @notice Settle multiple payments in one transaction
+     * @dev Each item is settled exactly like settleAndExecute, with the batch sender as facilitator.
+     *      Items are isolated: a failing item is rolled back and reported through SettlementFailed,
+     *      the remaining items still settle.
+     * 
+     * @param items Settlements to execute, in order
+     * @return results Whether each item settled
+     */
+    function settleAndExecuteBatch(
+        SettlementParams[] calldata items
+    ) external returns (bool[] memory results);
+    
     // ===== Query Methods =====
     
     /**
@@ -0,0 +1,156 @@
+// SPDX-License-Identifier: Apache-2.0
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {SettlementRouter} from "../src/SettlementRouter.sol";
+import {ISettlementRouter} from "../src/interfaces/ISettlementRouter.sol";
+import {MockUSDC} from "./mocks/MockUSDC.sol";
+import {MockFailingHook, MockSimpleHook} from "./mocks/MockHooks.sol";
+
+/**
+ * @title BatchSettlementTest
+ * @notice Test SettlementRouter.settleAndExecuteBatch
+ */
+contract BatchSettlementTest is Test {
+    SettlementRouter public router;
+    MockUSDC public token;
+    MockSimpleHook public simpleHook;
+    MockFailingHook public failingHook;
+
+    address public payer;
+    address public merchant;
+    address public facilitator;
+
+    uint256 constant AMOUNT = 1000000; // 1 USDC (6 decimals)
+    uint256 constant FEE = 10000; // 0.01 USDC
+    uint256 constant VALID_AFTER = 0;
+    uint256 constant VALID_BEFORE = type(uint256).max;
+
+    event SettlementFailed(
+        bytes32 indexed contextKey,
+        uint256 index,
+        bytes reason
+    );
+
+    event BatchSettled(
+        address indexed facilitator,
+        uint256 total,
+        uint256 succeeded
+    );
+
+    function setUp() public {
+        router = new SettlementRouter();
+        token = new MockUSDC();
+        simpleHook = new MockSimpleHook(address(router));
+        failingHook = new MockFailingHook(address(router));
+
+        payer = makeAddr("payer");
+        merchant = makeAddr("merchant");
+        facilitator = makeAddr("facilitator");
+
+        token.mint(payer, 10 * AMOUNT);
+    }
+
+    /**
+     * @notice Build a batch item with a valid commitment nonce
+     */
+    function _item(bytes32 salt, address hook) internal view returns (ISettlementRouter.SettlementParams memory item) {
+        bytes memory hookData = abi.encode(merchant);
+        item = ISettlementRouter.SettlementParams({
+            token: address(token),
+            from: payer,
+            value: AMOUNT,
+            validAfter: VALID_AFTER,
+            validBefore: VALID_BEFORE,
+            nonce: router.calculateCommitment(
+                address(token),
+                payer,
+                AMOUNT,
+                VALID_AFTER,
+                VALID_BEFORE,
+                salt,
+                merchant,
+                FEE,
+                hook,
+                hookData
+            ),
+            signature: "mock_signature",
+            salt: salt,
+            payTo: merchant,
+            facilitatorFee: FEE,
+            hook: hook,
+            hookData: hookData
+        });
+    }
+
+    function testBatchSettlesAllItems() public {
+        ISettlementRouter.SettlementParams[] memory items = new ISettlementRouter.SettlementParams[](3);
+        for (uint256 i = 0; i < items.length; i++) {
+            items[i] = _item(bytes32(i + 1), address(simpleHook));
+        }
+
+        vm.expectEmit(true, false, false, true);
+        emit BatchSettled(facilitator, 3, 3);
+
+        vm.prank(facilitator);
+        bool[] memory results = router.settleAndExecuteBatch(items);
+
+        for (uint256 i = 0; i < items.length; i++) {
+            assertTrue(results[i]);
+            assertTrue(router.isSettled(router.calculateContextKey(payer, address(token), items[i].nonce)));
+        }
+
+        // Fees accrue to the batch sender, the rest reaches the merchant
+        assertEq(router.getPendingFees(facilitator, address(token)), 3 * FEE);
+        assertEq(token.balanceOf(merchant), 3 * (AMOUNT - FEE));
+        assertEq(token.balanceOf(address(router)), 3 * FEE);
+        assertEq(simpleHook.lastFacilitator(), facilitator);
+    }
+
+    function testBatchIsolatesFailingItem() public {
+        ISettlementRouter.SettlementParams[] memory items = new ISettlementRouter.SettlementParams[](3);
+        items[0] = _item(bytes32(uint256(1)), address(simpleHook));
+        items[1] = _item(bytes32(uint256(2)), address(failingHook));
+        items[2] = _item(bytes32(uint256(3)), address(simpleHook));
+
+        bytes32 failedKey = router.calculateContextKey(payer, address(token), items[1].nonce);
+
+        vm.expectEmit(true, false, false, false);
+        emit SettlementFailed(failedKey, 1, "");
+        vm.expectEmit(true, false, false, true);
+        emit BatchSettled(facilitator, 3, 2);
+
+        vm.prank(facilitator);
+        bool[] memory results = router.settleAndExecuteBatch(items);
+
+        assertTrue(results[0]);
+        assertFalse(results[1]);
+        assertTrue(results[2]);
+
+        // The failed item is fully rolled back: not settled, nonce unused, no fee
+        assertFalse(router.isSettled(failedKey));
+        assertFalse(token.authorizationState(payer, items[1].nonce));
+        assertEq(router.getPendingFees(facilitator, address(token)), 2 * FEE);
+        assertEq(token.balanceOf(payer), 8 * AMOUNT);
+    }
+
+    function testBatchRejectsDuplicateItem() public {
+        ISettlementRouter.SettlementParams[] memory items = new ISettlementRouter.SettlementParams[](2);
+        items[0] = _item(bytes32(uint256(1)), address(simpleHook));
+        items[1] = items[0];
+
+        vm.prank(facilitator);
+        bool[] memory results = router.settleAndExecuteBatch(items);
+
+        assertTrue(results[0]);
+        assertFalse(results[1]);
+        assertEq(token.balanceOf(payer), 9 * AMOUNT);
+    }
+
+    function testBatchItemOnlyCallableByRouter() public {
+        ISettlementRouter.SettlementParams memory item = _item(bytes32(uint256(1)), address(simpleHook));
+
+        vm.expectRevert(SettlementRouter.Unauthorized.selector);
+        router.settleBatchItem(item, facilitator);
+    }
+}
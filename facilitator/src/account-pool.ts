@@ -11,17 +11,24 @@
  * - Cached signer instances for performance
  * - Zero nonce conflicts within each account
  * - Custom RPC URL support for each network
+ * - Stuck transaction detection and fee-bumped replacement (see nonce-manager.ts)
+ * - Duplicate payer rejection through a lock manager (shared across replicas with the Redis lock store)
+ * - Accounts can be taken out of selection (e.g. by the treasury when they run out of gas)
+ * - Accounts can be added and removed at runtime (a removed account drains its queue first)
  */
 
 import pLimit from "p-limit";
 import type { Signer } from "x402/types";
 import { evm } from "x402/types";
 import { createWalletClient, http, publicActions } from "viem";
+import { sendTransaction, waitForTransactionReceipt } from "viem/actions";
 import { privateKeyToAccount } from "viem/accounts";
 import type { Hex } from "viem";
+import { NonceManager, type StuckTransactionConfig } from "./nonce-manager.js";
 import { getLogger, recordMetric } from "./telemetry.js";
 import { QueueOverloadError, DuplicatePayerError } from "./errors.js";
 import { DEFAULTS } from "./defaults.js";
+import { LockManager, MemoryLockStore, payerLockKey, type HeldLock } from "./locks/index.js";
 
 const logger = getLogger();
 
@@ -41,6 +48,14 @@ export interface AccountPoolConfig {
 
   /** Custom RPC URL for this network (overrides viem chain default) */
   rpcUrl?: string;
+
+  /** Stuck transaction detection and replacement */
+  stuckTransaction?: StuckTransactionConfig;
+  /** Current network gas price in wei, used as the floor for replacement fees */
+  getGasPrice?: () => Promise<bigint>;
+
+  /** Lock manager for duplicate payer detection (default: in-memory, this instance only) */
+  locks?: LockManager;
 }
 
 /**
@@ -50,6 +65,9 @@ export interface AccountInfo {
   address: string;
   queueDepth: number;
   totalProcessed: number;
+  inFlightTransactions: number;
+  /** Whether the account is eligible for selection */
+  enabled: boolean;
 }
 
 /**
@@ -60,6 +78,12 @@ interface Account {
   signer: Signer;
   queue: ReturnType<typeof pLimit>;
   processed: number;
+  nonceManager?: NonceManager;
+  enabled: boolean;
+  /** Set while the account is being removed (its queue drains, it gets no new requests) */
+  removing: boolean;
+  /** Incremented on every removal, so a drain only completes the removal that started it */
+  removalGeneration: number;
 }
 
 /**
@@ -72,6 +96,9 @@ export class AccountPool {
   private network: string;
   private config: AccountPoolConfig;
   private pendingPayers: Set<string> = new Set();
+  private locks: LockManager;
+  private chain?: ReturnType<typeof evm.getChainFromNetwork>;
+  private rpcUrl?: string;
 
   /**
    * Create an account pool
@@ -88,6 +115,8 @@ export class AccountPool {
     this.network = network;
     this.strategy = strategy;
     this.config = config;
+    this.locks =
+      config.locks ?? new LockManager(new MemoryLockStore(), { ttlMs: DEFAULTS.locks.TTL_MS });
   }
 
   /**
@@ -129,6 +158,8 @@ export class AccountPool {
 
     // Determine RPC URL: config > chain default
     const rpcUrl = finalConfig.rpcUrl || chain.rpcUrls?.default?.http?.[0];
+    pool.chain = chain;
+    pool.rpcUrl = rpcUrl;
 
     logger.info(
       {
@@ -141,49 +172,7 @@ export class AccountPool {
 
     // Create accounts with serial queues
     for (let i = 0; i < privateKeys.length; i++) {
-      try {
-        // Create signer using viem directly with custom RPC URL support
-        const signer = createWalletClient({
-          chain,
-          transport: http(rpcUrl), // Use custom RPC URL if provided
-          account: privateKeyToAccount(privateKeys[i] as Hex),
-        }).extend(publicActions) as unknown as Signer;
-
-        // Get address from signer
-        let address = "";
-        if ("account" in signer && signer.account) {
-          address = (signer.account as { address: string }).address;
-        } else if ("address" in signer) {
-          address = (signer as { address: string }).address;
-        }
-
-        const account: Account = {
-          address,
-          signer,
-          queue: pLimit(1), // Serial queue (concurrency = 1)
-          processed: 0,
-        };
-
-        pool.accounts.push(account);
-
-        logger.info(
-          {
-            index: i,
-            address: account.address,
-            network,
-          },
-          "Account initialized",
-        );
-      } catch (error) {
-        logger.error(
-          {
-            index: i,
-            error,
-          },
-          "Failed to initialize account",
-        );
-        throw error;
-      }
+      pool.accounts.push(pool.createAccount(privateKeys[i], i));
     }
 
     logger.info(
@@ -213,24 +202,29 @@ export class AccountPool {
     const normalizedPayer = payerAddress?.toLowerCase();
 
     // Check for duplicate payer before selecting account
-    if (normalizedPayer && this.pendingPayers.has(normalizedPayer)) {
-      logger.warn(
-        {
-          payerAddress: normalizedPayer,
-          pendingPayersCount: this.pendingPayers.size,
-        },
-        "Duplicate payer detected, rejecting request",
-      );
+    // The payer lock is shared with other replicas when a shared lock store is configured
+    let payerLock: HeldLock | undefined;
+    if (normalizedPayer) {
+      payerLock = await this.locks.tryAcquire(payerLockKey(this.network, normalizedPayer));
+      if (!payerLock) {
+        logger.warn(
+          {
+            payerAddress: normalizedPayer,
+            pendingPayersCount: this.pendingPayers.size,
+          },
+          "Duplicate payer detected, rejecting request",
+        );
 
-      // Record duplicate payer metric
-      recordMetric("facilitator.account.duplicate_payer", 1, {
-        network: this.network,
-        payerAddress: normalizedPayer,
-      });
+        // Record duplicate payer metric
+        recordMetric("facilitator.account.duplicate_payer", 1, {
+          network: this.network,
+          payerAddress: normalizedPayer,
+        });
 
-      throw new DuplicatePayerError(normalizedPayer, {
-        pendingPayersCount: this.pendingPayers.size,
-      });
+        throw new DuplicatePayerError(normalizedPayer, {
+          pendingPayersCount: this.pendingPayers.size,
+        });
+      }
     }
 
     const account = this.selectAccount();
@@ -254,6 +248,7 @@ export class AccountPool {
         queueDepth: queueDepth.toString(),
       });
 
+      await payerLock?.release();
       throw new QueueOverloadError(
         `Account queue is full (depth: ${queueDepth}/${this.config.maxQueueDepth}). ` +
           `Please retry later.`,
@@ -359,6 +354,7 @@ export class AccountPool {
       // This cleanup is critical - must always execute to prevent payer address leaks
       if (normalizedPayer) {
         this.pendingPayers.delete(normalizedPayer);
+        await payerLock?.release();
         logger.debug(
           {
             payerAddress: normalizedPayer,
@@ -370,6 +366,81 @@ export class AccountPool {
     }
   }
 
+  /**
+   * Add an account to the pool (e.g. after a configuration reload)
+   *
+   * @param privateKey - Private key of the account
+   * @returns True if the account was added, false if it is already in the pool
+   */
+  addAccount(privateKey: string): boolean {
+    const account = this.createAccount(privateKey, this.accounts.length);
+    const existing = this.accounts.find(
+      (acc) => acc.address.toLowerCase() === account.address.toLowerCase(),
+    );
+    if (existing) {
+      if (!existing.removing) {
+        return false;
+      }
+      // Added back while its removal was still draining
+      existing.removing = false;
+      logger.info(
+        { address: existing.address, network: this.network },
+        "Account removal cancelled",
+      );
+      return true;
+    }
+
+    this.accounts.push(account);
+    return true;
+  }
+
+  /**
+   * Remove an account from the pool (e.g. after a configuration reload)
+   *
+   * The account stops receiving new requests at once, but everything already queued on it
+   * still runs; it leaves the pool once its queue has drained.
+   *
+   * @param address - Account address (case-insensitive)
+   * @returns True once the account has been removed, false if it is not in the pool or the
+   *   removal was cancelled
+   * @throws Error if it is the last account of the pool
+   */
+  async removeAccount(address: string): Promise<boolean> {
+    const account = this.accounts.find(
+      (acc) => acc.address.toLowerCase() === address.toLowerCase(),
+    );
+    if (!account || account.removing) {
+      return false;
+    }
+    if (this.accounts.filter((acc) => !acc.removing).length === 1) {
+      throw new Error(`Cannot remove the last account of the ${this.network} pool`);
+    }
+
+    account.removing = true;
+    const generation = ++account.removalGeneration;
+    logger.info(
+      {
+        address: account.address,
+        network: this.network,
+        queueDepth: account.queue.activeCount + account.queue.pendingCount,
+      },
+      "Removing account, draining its queue",
+    );
+
+    // The queue is serial: this runs once everything queued before it has finished
+    await account.queue(async () => undefined);
+    // Cancelled by addAccount, or cancelled and removed again (that removal's drain finishes it)
+    const index = this.accounts.indexOf(account);
+    if (!account.removing || account.removalGeneration !== generation || index === -1) {
+      return false;
+    }
+
+    this.accounts.splice(index, 1);
+    this.roundRobinIndex = this.roundRobinIndex % this.accounts.length;
+    logger.info({ address: account.address, network: this.network }, "Account removed");
+    return true;
+  }
+
   /**
    * Get information about all accounts
    */
@@ -378,9 +449,38 @@ export class AccountPool {
       address: acc.address,
       queueDepth: acc.queue.activeCount + acc.queue.pendingCount,
       totalProcessed: acc.processed,
+      inFlightTransactions: acc.nonceManager?.getInFlight().length ?? 0,
+      enabled: acc.enabled && !acc.removing,
     }));
   }
 
+  /**
+   * Include or exclude an account from selection
+   *
+   * Requests already queued on a disabled account still run; it just receives no new ones.
+   *
+   * @param address - Account address (case-insensitive)
+   * @param enabled - Whether the account may be selected
+   * @returns True if the account exists in this pool
+   */
+  setAccountEnabled(address: string, enabled: boolean): boolean {
+    const account = this.accounts.find(
+      (acc) => acc.address.toLowerCase() === address.toLowerCase(),
+    );
+    if (!account) {
+      return false;
+    }
+
+    if (account.enabled !== enabled) {
+      account.enabled = enabled;
+      logger.info(
+        { address: account.address, network: this.network, enabled },
+        enabled ? "Account returned to selection" : "Account removed from selection",
+      );
+    }
+    return true;
+  }
+
   /**
    * Get the number of pending payers (addresses with transactions in queue)
    */
@@ -414,16 +514,115 @@ export class AccountPool {
 
   /**
    * Select an account based on the configured strategy
+   *
+   * Disabled accounts are skipped; if every account is disabled, all of them are
+   * considered again rather than rejecting every request.
    */
   private selectAccount(): Account {
     if (this.strategy === "round_robin") {
-      const account = this.accounts[this.roundRobinIndex];
-      this.roundRobinIndex = (this.roundRobinIndex + 1) % this.accounts.length;
-      return account;
+      for (let i = 0; i < this.accounts.length; i++) {
+        const account = this.accounts[this.roundRobinIndex];
+        this.roundRobinIndex = (this.roundRobinIndex + 1) % this.accounts.length;
+        if (account.enabled && !account.removing) {
+          return account;
+        }
+      }
+      logger.warn({ network: this.network }, "All accounts are disabled, selecting anyway");
+      for (let i = 0; i < this.accounts.length; i++) {
+        const account = this.accounts[this.roundRobinIndex];
+        this.roundRobinIndex = (this.roundRobinIndex + 1) % this.accounts.length;
+        if (!account.removing) {
+          return account;
+        }
+      }
+      // Unreachable: the last account of a pool cannot be removed
+      return this.accounts[0];
     } else {
       // Random selection
-      const index = Math.floor(Math.random() * this.accounts.length);
-      return this.accounts[index];
+      const selectable = this.accounts.filter((acc) => !acc.removing);
+      const enabled = selectable.filter((acc) => acc.enabled);
+      const candidates = enabled.length > 0 ? enabled : selectable;
+      const index = Math.floor(Math.random() * candidates.length);
+      return candidates[index];
+    }
+  }
+
+  /**
+   * Create an account with its signer and serial queue
+   *
+   * @param privateKey - Private key of the account
+   * @param index - Account index (for logging)
+   * @returns Account ready to be added to the pool
+   */
+  private createAccount(privateKey: string, index: number): Account {
+    try {
+      // Create signer using viem directly with custom RPC URL support
+      const client = createWalletClient({
+        chain: this.chain,
+        transport: http(this.rpcUrl), // Use custom RPC URL if provided
+        account: privateKeyToAccount(privateKey as Hex),
+      }).extend(publicActions);
+
+      // Route sendTransaction / waitForTransactionReceipt (and thus writeContract)
+      // through the nonce manager so stuck transactions get replaced
+      let nonceManager: NonceManager | undefined;
+      if (this.config.stuckTransaction?.enabled) {
+        nonceManager = new NonceManager(
+          client.account.address,
+          this.network,
+          {
+            send: (request) => sendTransaction(client, request as never),
+            waitForReceipt: (args) => waitForTransactionReceipt(client, args),
+            getTransactionCount: (args) => client.getTransactionCount(args),
+            getTransaction: (args) => client.getTransaction(args),
+            getTransactionReceipt: (args) => client.getTransactionReceipt(args),
+          },
+          this.config.stuckTransaction,
+          this.config.getGasPrice,
+        );
+      }
+      const signer = (nonceManager
+        ? client.extend(() => nonceManager.actions())
+        : client) as unknown as Signer;
+
+      // Get address from signer
+      let address = "";
+      if ("account" in signer && signer.account) {
+        address = (signer.account as { address: string }).address;
+      } else if ("address" in signer) {
+        address = (signer as { address: string }).address;
+      }
+
+      const account: Account = {
+        address,
+        signer,
+        queue: pLimit(1), // Serial queue (concurrency = 1)
+        processed: 0,
+        nonceManager,
+        enabled: true,
+        removing: false,
+        removalGeneration: 0,
+      };
+
+      logger.info(
+        {
+          index,
+          address: account.address,
+          network: this.network,
+        },
+        "Account initialized",
+      );
+
+      return account;
+    } catch (error) {
+      logger.error(
+        {
+          index,
+          error,
+        },
+        "Failed to initialize account",
+      );
+      throw error;
     }
   }
 }
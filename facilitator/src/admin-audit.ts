@@ -0,0 +1,126 @@
+/**
+ * Admin Audit Log Module
+ *
+ * Records every request that reaches the admin API surface:
+ * - Who made the request (API key id, role, auth method, client IP)
+ * - What was requested (action, route, parameters)
+ * - How it ended (success, failure, denied)
+ *
+ * Entries are written to the structured log (for long-term retention in the
+ * log pipeline) and kept in a bounded in-memory buffer served by GET /admin/audit.
+ */
+
+import { randomUUID } from "crypto";
+import { getLogger, recordMetric } from "./telemetry.js";
+import type { AdminRole } from "./config.js";
+
+const logger = getLogger();
+
+/**
+ * Outcome of an audited admin request
+ */
+export type AdminAuditOutcome = "success" | "failure" | "denied";
+
+/**
+ * Single audit log entry
+ */
+export interface AdminAuditEntry {
+  /** Unique entry identifier */
+  id: string;
+  /** ISO timestamp of the entry */
+  timestamp: string;
+  /** API key id of the caller ("anonymous" if authentication failed) */
+  actor: string;
+  /** Role of the caller (absent if authentication failed) */
+  role?: AdminRole;
+  /** Authentication method used */
+  authMethod?: "bearer" | "signature";
+  /** Action performed (e.g. "fees.claim") */
+  action: string;
+  /** HTTP method and path */
+  route: string;
+  /** Client IP address */
+  ip?: string;
+  /** Outcome of the request */
+  outcome: AdminAuditOutcome;
+  /** Additional action-specific details */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Bounded in-memory audit log for admin operations
+ */
+export class AdminAuditLog {
+  private entries: AdminAuditEntry[] = [];
+
+  /**
+   * Create an audit log
+   *
+   * @param maxEntries - Maximum number of entries retained in memory
+   */
+  constructor(private readonly maxEntries: number) {}
+
+  /**
+   * Record an audit entry
+   *
+   * @param entry - Entry without id and timestamp (generated here)
+   * @returns The stored entry
+   */
+  record(entry: Omit<AdminAuditEntry, "id" | "timestamp">): AdminAuditEntry {
+    const stored: AdminAuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    this.entries.push(stored);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+
+    const logContext = { audit: stored };
+    if (stored.outcome === "denied") {
+      logger.warn(logContext, "Admin request denied");
+    } else {
+      logger.info(logContext, "Admin request audited");
+    }
+
+    recordMetric("facilitator.admin.requests", 1, {
+      action: stored.action,
+      outcome: stored.outcome,
+    });
+
+    return stored;
+  }
+
+  /**
+   * List audit entries, newest first
+   *
+   * @param limit - Maximum number of entries to return
+   * @param actor - Optional filter by API key id
+   * @returns Matching audit entries
+   */
+  list(limit = 100, actor?: string): AdminAuditEntry[] {
+    const filtered = actor ? this.entries.filter((e) => e.actor === actor) : this.entries;
+    return filtered.slice(-limit).reverse();
+  }
+
+  /**
+   * Get number of entries currently retained
+   *
+   * @returns Entry count
+   */
+  size(): number {
+    return this.entries.length;
+  }
+}
+
+/**
+ * Create an admin audit log
+ *
+ * @param maxEntries - Maximum number of entries retained in memory
+ * @returns AdminAuditLog instance
+ */
+export function createAdminAuditLog(maxEntries: number): AdminAuditLog {
+  return new AdminAuditLog(maxEntries);
+}
@@ -2,11 +2,12 @@
  * Application Factory
  *
  * Creates and configures the Express application with all middleware and routes.
+ * Routes sit behind a route switch so a configuration reload can replace them atomically.
  */
 
-import express, { Express } from "express";
+import express, { Express, Router, type RequestHandler } from "express";
 import cors from "cors";
-import { registerRoutes, RoutesDependencies } from "./routes/index.js";
+import { registerRoutes, RoutesDependencies, type RateLimiters } from "./routes/index.js";
 import { shutdownMiddleware, GracefulShutdown } from "./shutdown.js";
 import type { RateLimitConfig } from "./config.js";
 import { createVerifyRateLimiter, createSettleRateLimiter } from "./middleware/rate-limit.js";
@@ -20,6 +21,87 @@ export interface AppDependencies {
   routesDeps: RoutesDependencies;
   requestBodyLimit: string;
   rateLimitConfig: RateLimitConfig;
+  /** Route switch to serve routes from (created from routesDeps if omitted) */
+  routeSwitch?: RouteSwitch;
+}
+
+/**
+ * Holds the registered routes and replaces them atomically
+ *
+ * Requests already being handled finish with the routes (and dependencies) they started with;
+ * new requests see the new routes.
+ */
+export class RouteSwitch {
+  private router: Router;
+  private rateLimitConfig: RateLimitConfig;
+  private rateLimiters: RateLimiters;
+
+  /**
+   * Create a route switch
+   *
+   * @param routesDeps - Dependencies for all routes
+   * @param rateLimitConfig - Rate limiting configuration
+   */
+  constructor(routesDeps: RoutesDependencies, rateLimitConfig: RateLimitConfig) {
+    this.rateLimitConfig = rateLimitConfig;
+    this.rateLimiters = createRateLimiters(rateLimitConfig);
+    this.router = buildRouter(routesDeps, this.rateLimiters);
+  }
+
+  /**
+   * Replace all routes
+   *
+   * Rate limiters (and their counters) are kept unless the rate limiting configuration changed.
+   *
+   * @param routesDeps - New dependencies for all routes
+   * @param rateLimitConfig - New rate limiting configuration
+   */
+  update(routesDeps: RoutesDependencies, rateLimitConfig: RateLimitConfig): void {
+    const rateLimiters =
+      JSON.stringify(rateLimitConfig) === JSON.stringify(this.rateLimitConfig)
+        ? this.rateLimiters
+        : createRateLimiters(rateLimitConfig);
+
+    // Build everything first, then swap in one assignment
+    this.router = buildRouter(routesDeps, rateLimiters);
+    this.rateLimiters = rateLimiters;
+    this.rateLimitConfig = rateLimitConfig;
+  }
+
+  /**
+   * Middleware dispatching to the current routes
+   *
+   * @returns Express middleware
+   */
+  handler(): RequestHandler {
+    return (req, res, next) => this.router(req, res, next);
+  }
+}
+
+/**
+ * Create rate limiters for specific routes
+ *
+ * @param config - Rate limiting configuration
+ * @returns Rate limiters
+ */
+function createRateLimiters(config: RateLimitConfig): RateLimiters {
+  return {
+    verifyRateLimiter: createVerifyRateLimiter(config),
+    settleRateLimiter: createSettleRateLimiter(config),
+  };
+}
+
+/**
+ * Build a router with all routes registered
+ *
+ * @param routesDeps - Dependencies for all routes
+ * @param rateLimiters - Rate limiting middleware for specific routes
+ * @returns Router with all routes
+ */
+function buildRouter(routesDeps: RoutesDependencies, rateLimiters: RateLimiters): Router {
+  const router = Router();
+  registerRoutes(router, routesDeps, rateLimiters);
+  return router;
 }
 
 /**
@@ -47,7 +129,15 @@ export function createApp(deps: AppDependencies): Express {
   );
 
   // Configure express to parse JSON bodies with size limit
-  app.use(express.json({ limit: deps.requestBodyLimit }));
+  // The raw body is kept for signed admin request verification
+  app.use(
+    express.json({
+      limit: deps.requestBodyLimit,
+      verify: (req, _res, buf) => {
+        (req as typeof req & { rawBody?: Buffer }).rawBody = buf;
+      },
+    }),
+  );
 
   // Add shutdown middleware to reject new requests during shutdown
   app.use(shutdownMiddleware);
@@ -55,12 +145,9 @@ export function createApp(deps: AppDependencies): Express {
   // Add the transaction logger middleware to capture settlement responses
   app.use(createTransactionRecordMiddleware());
 
-  // Create rate limiters
-  const verifyRateLimiter = createVerifyRateLimiter(deps.rateLimitConfig);
-  const settleRateLimiter = createSettleRateLimiter(deps.rateLimitConfig);
-
   // Register all routes (rate limiters will be applied per-route)
-  registerRoutes(app, deps.routesDeps, { verifyRateLimiter, settleRateLimiter });
+  const routeSwitch = deps.routeSwitch ?? new RouteSwitch(deps.routesDeps, deps.rateLimitConfig);
+  app.use(routeSwitch.handler());
 
   return app;
 }
@@ -6,7 +6,7 @@
  */
 
 import { Address } from "viem";
-import { CacheInterface } from "./cache/interface.js";
+import type { CacheInterface, CacheStats } from "./cache/interface.js";
 import { getLogger } from "./telemetry.js";
 
 // Minimal ERC20 ABI with balanceOf function
@@ -92,7 +92,7 @@ export class BalanceChecker {
     const cacheKey = `${network}:${userAddress}:${tokenAddress}`;
 
     // Try cache first
-    const cachedResult = this.cache.get<BalanceCheckResult>(cacheKey);
+    const cachedResult = await this.cache.get<BalanceCheckResult>(cacheKey);
     if (cachedResult) {
       logger.debug(
         {
@@ -146,7 +146,7 @@ export class BalanceChecker {
       };
 
       // Cache the result
-      this.cache.set(cacheKey, result, this.cacheTTL);
+      await this.cache.set(cacheKey, result, this.cacheTTL);
 
       logger.debug(
         {
@@ -182,16 +182,16 @@ export class BalanceChecker {
    *
    * @returns Cache statistics including hits, misses, and keys
    */
-  getCacheStats() {
+  async getCacheStats(): Promise<CacheStats> {
     return this.cache.getStats();
   }
 
   /**
    * Clear all cached balance data
    */
-  clearCache(): void {
+  async clearCache(): Promise<void> {
     // Balance checker uses a dedicated cache instance, so this only clears balance data
-    this.cache.flush();
+    await this.cache.flush();
     logger.info("Balance cache cleared");
   }
 }
@@ -0,0 +1,518 @@
+/**
+ * Batch Settlement Module
+ *
+ * Accumulates SettlementRouter payments per network and router for a short window
+ * and settles them in one SettlementRouter.settleAndExecuteBatch transaction.
+ *
+ * Each payment is validated on its own before it joins a batch (same checks as
+ * settleWithRouter, including gas pre-validation and the payer balance check), and
+ * the batch transaction's gas limit is the sum of the items' limits. On chain, every item is isolated: a failing item is rolled
+ * back and reported through a SettlementFailed event while the rest of the batch
+ * settles. Each caller receives the SettleResponse of its own payment, carrying
+ * the batch transaction hash.
+ */
+
+import { evm } from "x402/types";
+import type { PaymentPayload, PaymentRequirements, Signer, X402Config } from "x402/types";
+import {
+  createPublicClient,
+  http,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+} from "viem";
+import { SETTLEMENT_ROUTER_ABI, SettlementExtraError } from "@x402x/core";
+import {
+  hasSufficientPayerBalance,
+  prepareRouterSettlement,
+  resolveRouterGasLimit,
+  type PreparedRouterSettlement,
+} from "./settlement.js";
+import type { SettleResponseWithMetrics } from "./settlement-types.js";
+import type { PoolManager } from "./pool-manager.js";
+import type { GasCostConfig } from "./gas-cost.js";
+import type { DynamicGasPriceConfig } from "./dynamic-gas-price.js";
+import type { BalanceChecker } from "./balance-check.js";
+import type { GasEstimationConfig } from "./gas-estimation/index.js";
+import type { TokenPriceConfig } from "./token-price.js";
+import { calculateContextKey, type SettlementProgressCallback } from "./ledger/index.js";
+import { getLogger, recordHistogram, recordMetric } from "./telemetry.js";
+
+const logger = getLogger();
+
+/** Gas for settleAndExecuteBatch itself (calldata, loop and events) on top of its items */
+const BATCH_GAS_OVERHEAD = 50_000n;
+
+/**
+ * Batch settlement configuration
+ */
+export interface BatchSettlementConfig {
+  /** Settle router payments in batches instead of one transaction each */
+  enabled: boolean;
+  /** How long payments accumulate before a batch is submitted */
+  windowMs: number;
+  /** Batch is submitted early once it holds this many payments */
+  maxSize: number;
+}
+
+/**
+ * Pre-validation and gas limit inputs applied to each payment before it joins a batch
+ */
+export interface BatchSettlementChecks {
+  gasCost?: GasCostConfig; // Gas cost config for the per-item gas limit
+  dynamicGasPrice?: DynamicGasPriceConfig; // Gas price strategy and RPC URLs
+  balanceChecker?: BalanceChecker; // Defensive payer balance check
+  gasEstimation?: GasEstimationConfig; // Gas estimation config for pre-validation
+  tokenPrice?: TokenPriceConfig; // Asset pricing, same as /calculate-fee
+}
+
+/**
+ * Payment waiting in a batch
+ */
+interface PendingSettlement {
+  settlement: PreparedRouterSettlement;
+  /** Gas limit of this payment on its own (undefined when no gas cost config is set) */
+  gasLimit?: bigint;
+  /** Router context key, used to match the item's event in the receipt */
+  contextKey: Hex;
+  /** Network as given in the payment payload (echoed in the response) */
+  network: string;
+  progress?: SettlementProgressCallback;
+  resolve: (response: SettleResponseWithMetrics) => void;
+}
+
+/**
+ * Batch being accumulated for one network and router
+ */
+interface PendingBatch {
+  network: string;
+  router: Address;
+  items: PendingSettlement[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Outcome of a batch item read from the receipt logs
+ */
+type ItemOutcome = { settled: true } | { settled: false; reason: Hex };
+
+/**
+ * Settles router payments in batches
+ */
+export class BatchSettler {
+  private readonly batches = new Map<string, PendingBatch>();
+  private readonly submissions = new Set<Promise<void>>();
+  private readonly readClients = new Map<string, PublicClient>();
+
+  /**
+   * Create a batch settler
+   *
+   * @param config - Batch settlement configuration
+   * @param poolManager - Account pools used to submit batches
+   * @param allowedRouters - Whitelist of allowed SettlementRouter addresses per network
+   * @param rpcUrls - Optional RPC URLs by network for payment verification
+   * @param x402Config - Optional x402 configuration for payment verification
+   * @param checks - Optional per-item pre-validation and gas limit inputs
+   */
+  constructor(
+    private readonly config: BatchSettlementConfig,
+    private readonly poolManager: PoolManager,
+    private allowedRouters: Record<string, string[]>,
+    private readonly rpcUrls?: Record<string, string>,
+    private x402Config?: X402Config,
+    private checks: BatchSettlementChecks = {},
+  ) {}
+
+  /**
+   * Validate a payment and settle it with the next batch for its network
+   *
+   * @param paymentPayload - The payment payload with authorization and signature
+   * @param paymentRequirements - The payment requirements with settlement extra parameters
+   * @param progress - Optional callback notified when the batch is submitted
+   * @returns SettleResponse of this payment once the batch is mined
+   */
+  async settle(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    progress?: SettlementProgressCallback,
+  ): Promise<SettleResponseWithMetrics> {
+    let settlement: PreparedRouterSettlement;
+    let gasLimit: bigint | undefined;
+    try {
+      const preparation = await prepareRouterSettlement(
+        paymentPayload,
+        paymentRequirements,
+        this.allowedRouters,
+        this.rpcUrls,
+        this.x402Config,
+        this.checks.tokenPrice,
+      );
+      if (!preparation.ok) {
+        return preparation.response;
+      }
+      settlement = preparation.settlement;
+
+      // Same pre-validation and balance check as a single settlement, before joining a batch
+      const client = this.getReadClient(settlement.network);
+      const gas = await resolveRouterGasLimit(
+        settlement,
+        client,
+        this.checks.gasCost,
+        this.checks.dynamicGasPrice,
+        this.checks.gasCost?.nativeTokenPrice,
+        this.checks.gasEstimation,
+      );
+      if (!gas.ok) {
+        return {
+          success: false,
+          errorReason: gas.errorReason,
+          transaction: "",
+          network: paymentPayload.network,
+          payer: settlement.authorization.from,
+        };
+      }
+      if (gas.simulated) {
+        await progress?.("simulated");
+      }
+      if (!(await hasSufficientPayerBalance(settlement, client, this.checks.balanceChecker))) {
+        return {
+          success: false,
+          errorReason: "INSUFFICIENT_FUNDS",
+          transaction: "",
+          network: paymentPayload.network,
+          payer: settlement.authorization.from,
+        };
+      }
+      gasLimit = gas.gasLimit;
+    } catch (error) {
+      logger.error(
+        { error, network: paymentRequirements.network },
+        "Batch settlement item rejected during validation",
+      );
+      const authorization = (paymentPayload.payload as { authorization?: { from?: string } })
+        ?.authorization;
+      return {
+        success: false,
+        errorReason:
+          error instanceof SettlementExtraError
+            ? "invalid_payment_requirements"
+            : "unexpected_settle_error",
+        transaction: "",
+        network: paymentPayload.network,
+        payer: authorization?.from || "",
+      };
+    }
+
+    return new Promise((resolve) => {
+      this.enqueue({
+        settlement,
+        gasLimit,
+        contextKey: calculateContextKey(
+          settlement.authorization.from,
+          settlement.asset,
+          settlement.authorization.nonce,
+        ),
+        network: paymentPayload.network,
+        progress,
+        resolve,
+      });
+    });
+  }
+
+  /**
+   * Replace the SettlementRouter whitelist (configuration reload)
+   *
+   * Payments already waiting in a batch were validated against the previous whitelist.
+   *
+   * @param allowedRouters - Whitelist of allowed SettlementRouter addresses per network
+   */
+  updateAllowedRouters(allowedRouters: Record<string, string[]>): void {
+    this.allowedRouters = allowedRouters;
+  }
+
+  /**
+   * Replace the x402 configuration used to verify payments (configuration reload)
+   *
+   * Payments already waiting in a batch were verified with the previous configuration.
+   *
+   * @param x402Config - x402 configuration for payment verification
+   */
+  updateX402Config(x402Config: X402Config | undefined): void {
+    this.x402Config = x402Config;
+  }
+
+  /**
+   * Replace the pre-validation and gas limit inputs (configuration reload)
+   *
+   * @param checks - Per-item pre-validation and gas limit inputs
+   */
+  updateChecks(checks: BatchSettlementChecks): void {
+    this.checks = checks;
+  }
+
+  /**
+   * Submit all pending batches and wait for every submitted batch to finish
+   */
+  async stop(): Promise<void> {
+    for (const key of [...this.batches.keys()]) {
+      this.flush(key);
+    }
+    await Promise.all(this.submissions);
+  }
+
+  /**
+   * Client for pre-validating payments before a pool account is assigned
+   *
+   * @param network - Network name
+   * @returns Public client for the network (created once)
+   */
+  private getReadClient(network: string): PublicClient {
+    let client = this.readClients.get(network);
+    if (!client) {
+      const chain = evm.getChainFromNetwork(network);
+      client = createPublicClient({
+        chain,
+        transport: http(this.rpcUrls?.[network] || chain.rpcUrls?.default?.http?.[0]),
+      }) as PublicClient;
+      this.readClients.set(network, client);
+    }
+    return client;
+  }
+
+  /**
+   * Gas limit of a batch transaction
+   *
+   * @param items - Batch items
+   * @returns Sum of the item limits plus the batch overhead, or undefined to let the node estimate
+   */
+  private batchGasLimit(items: PendingSettlement[]): bigint | undefined {
+    if (items.every((item) => item.gasLimit === undefined)) {
+      return undefined;
+    }
+    // Items without their own limit get the configured maximum
+    const fallback = BigInt(this.checks.gasCost?.maxGasLimit ?? 0);
+    return items.reduce((total, item) => total + (item.gasLimit ?? fallback), BATCH_GAS_OVERHEAD);
+  }
+
+  /**
+   * Add a validated payment to the batch for its network and router
+   *
+   * @param item - Payment to add
+   */
+  private enqueue(item: PendingSettlement): void {
+    const { network, extra } = item.settlement;
+    const key = `${network}:${extra.settlementRouter.toLowerCase()}`;
+
+    let batch = this.batches.get(key);
+    if (!batch) {
+      batch = {
+        network,
+        router: extra.settlementRouter as Address,
+        items: [],
+        timer: setTimeout(() => this.flush(key), this.config.windowMs),
+      };
+      this.batches.set(key, batch);
+    }
+
+    batch.items.push(item);
+    if (batch.items.length >= this.config.maxSize) {
+      this.flush(key);
+    }
+  }
+
+  /**
+   * Close a batch and submit it in the background
+   *
+   * @param key - Batch key (network and router)
+   */
+  private flush(key: string): void {
+    const batch = this.batches.get(key);
+    if (!batch) {
+      return;
+    }
+    this.batches.delete(key);
+    clearTimeout(batch.timer);
+
+    const submission = this.submit(batch).finally(() => this.submissions.delete(submission));
+    this.submissions.add(submission);
+  }
+
+  /**
+   * Submit a batch and resolve every caller with its own outcome
+   *
+   * @param batch - Batch to submit
+   */
+  private async submit(batch: PendingBatch): Promise<void> {
+    let responses: SettleResponseWithMetrics[];
+    try {
+      responses = await this.execute(batch);
+    } catch (error) {
+      logger.error(
+        { error, network: batch.network, router: batch.router, size: batch.items.length },
+        "Batch settlement failed",
+      );
+      responses = batch.items.map((item) => ({
+        success: false,
+        errorReason: "unexpected_settle_error",
+        transaction: "",
+        network: item.network,
+        payer: item.settlement.authorization.from,
+      }));
+    }
+
+    batch.items.forEach((item, index) => item.resolve(responses[index]));
+  }
+
+  /**
+   * Send the batch transaction from a pool account and read per-item outcomes
+   *
+   * @param batch - Batch to submit
+   * @returns Responses in batch order
+   */
+  private async execute(batch: PendingBatch): Promise<SettleResponseWithMetrics[]> {
+    const accountPool = this.poolManager.getPool(batch.network);
+    if (!accountPool) {
+      throw new Error(`No account pool available for network: ${batch.network}`);
+    }
+
+    return accountPool.execute(async (signer: Signer) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const client = signer as any;
+      if (!client.writeContract || !client.waitForTransactionReceipt) {
+        throw new Error(
+          "Signer must be an EVM wallet client with writeContract and waitForTransactionReceipt methods",
+        );
+      }
+
+      const gas = this.batchGasLimit(batch.items);
+      let tx: Hex = await client.writeContract({
+        address: batch.router,
+        abi: SETTLEMENT_ROUTER_ABI,
+        functionName: "settleAndExecuteBatch",
+        args: [batch.items.map((item) => toSettlementParams(item.settlement))],
+        // Bound the batch like single settlements bound each hook
+        ...(gas ? { gas } : {}),
+      });
+
+      // A failing progress callback must not fail payments that are already submitted
+      await Promise.allSettled(
+        batch.items.map((item) => item.progress?.("submitted", { transaction: tx })),
+      );
+
+      const receipt: TransactionReceipt = await client.waitForTransactionReceipt({ hash: tx });
+      if (receipt.transactionHash && receipt.transactionHash !== tx) {
+        logger.info(
+          { original: tx, replacement: receipt.transactionHash, network: batch.network },
+          "Batch settlement mined via replacement transaction",
+        );
+        tx = receipt.transactionHash;
+      }
+
+      const outcomes =
+        receipt.status === "success"
+          ? readOutcomes(receipt, batch.router)
+          : new Map<string, ItemOutcome>();
+      const succeeded = [...outcomes.values()].filter((outcome) => outcome.settled).length;
+
+      recordHistogram("facilitator.settle.batch.size", batch.items.length, {
+        network: batch.network,
+      });
+      recordMetric("facilitator.settle.batch.total", 1, {
+        network: batch.network,
+        success: String(receipt.status === "success"),
+      });
+      logger.info(
+        {
+          transaction: tx,
+          network: batch.network,
+          router: batch.router,
+          size: batch.items.length,
+          succeeded,
+          gasUsed: receipt.gasUsed?.toString(),
+        },
+        "Batch settlement transaction confirmed",
+      );
+
+      return batch.items.map((item) => {
+        const outcome = outcomes.get(item.contextKey.toLowerCase());
+        if (outcome?.settled) {
+          return {
+            success: true,
+            transaction: tx,
+            network: item.network,
+            payer: item.settlement.authorization.from,
+          };
+        }
+
+        logger.warn(
+          {
+            transaction: tx,
+            network: batch.network,
+            payer: item.settlement.authorization.from,
+            contextKey: item.contextKey,
+            reason: outcome?.settled === false ? outcome.reason : undefined,
+          },
+          "Batch settlement item failed",
+        );
+        return {
+          success: false,
+          errorReason: "invalid_transaction_state",
+          transaction: tx,
+          network: item.network,
+          payer: item.settlement.authorization.from,
+        };
+      });
+    });
+  }
+}
+
+/**
+ * Build the settleAndExecuteBatch item for a prepared settlement
+ *
+ * @param settlement - Validated settlement
+ * @returns SettlementParams struct
+ */
+function toSettlementParams(settlement: PreparedRouterSettlement) {
+  const { asset, authorization, signature, extra } = settlement;
+  return {
+    token: asset as Address,
+    from: authorization.from as Address,
+    value: BigInt(authorization.value),
+    validAfter: BigInt(authorization.validAfter),
+    validBefore: BigInt(authorization.validBefore),
+    nonce: authorization.nonce as Hex,
+    signature,
+    salt: extra.salt as Hex,
+    payTo: extra.payTo as Address,
+    facilitatorFee: BigInt(extra.facilitatorFee),
+    hook: extra.hook as Address,
+    hookData: extra.hookData as Hex,
+  };
+}
+
+/**
+ * Read per-item outcomes from the router's Settled and SettlementFailed events
+ *
+ * @param receipt - Batch transaction receipt
+ * @param router - Router the batch was sent to
+ * @returns Outcomes by lowercased context key
+ */
+function readOutcomes(receipt: TransactionReceipt, router: Address): Map<string, ItemOutcome> {
+  const outcomes = new Map<string, ItemOutcome>();
+  const logs = parseEventLogs({
+    abi: SETTLEMENT_ROUTER_ABI,
+    eventName: ["Settled", "SettlementFailed"],
+    logs: receipt.logs.filter((log) => log.address.toLowerCase() === router.toLowerCase()),
+  });
+
+  for (const log of logs) {
+    const key = log.args.contextKey.toLowerCase();
+    outcomes.set(
+      key,
+      log.eventName === "Settled" ? { settled: true } : { settled: false, reason: log.args.reason },
+    );
+  }
+  return outcomes;
+}
@@ -4,7 +4,32 @@
  * Unified exports for all caching functionality.
  */
 
-export type { CacheInterface, CacheStats, CacheConfig } from "./interface.js";
+import type { CacheInterface, CacheConfig } from "./interface.js";
+import { createMemoryCache } from "./memory-cache.js";
+import { createRedisCache } from "./redis-cache.js";
+
+export type { CacheInterface, CacheStats, CacheConfig, MaybePromise } from "./interface.js";
 export { MemoryCache, createMemoryCache } from "./memory-cache.js";
+export { RedisCache, createRedisCache, INCREMENT_SCRIPT } from "./redis-cache.js";
+export type { RedisCacheConfig } from "./redis-cache.js";
+export { RespClient, RespError } from "./resp-client.js";
+export type { RespClientOptions, RespValue } from "./resp-client.js";
 export { TokenCache, createTokenCache } from "./token-cache.js";
 export type { TokenCacheConfig } from "./token-cache.js";
+
+/**
+ * Create a cache for the configured backend
+ *
+ * @param config - Cache configuration (backend defaults to memory)
+ * @returns Cache implementation
+ * @throws Error if the redis backend is selected without a URL
+ */
+export function createCache(config: CacheConfig = {}): CacheInterface {
+  if (config.backend === "redis") {
+    if (!config.redisUrl) {
+      throw new Error("redisUrl is required for the redis cache backend");
+    }
+    return createRedisCache({ ...config, redisUrl: config.redisUrl });
+  }
+  return createMemoryCache(config);
+}
@@ -3,8 +3,16 @@
  *
  * Unified caching interface to support multiple implementations (memory, Redis, etc.)
  * This allows for future extensibility while maintaining a consistent API.
+ *
+ * Methods may complete synchronously (memory) or asynchronously (Redis), so callers
+ * should always `await` the result.
  */
 
+/**
+ * Value that is either available immediately or resolved later
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
 export interface CacheInterface {
   /**
    * Get a value from the cache
@@ -12,7 +20,7 @@ export interface CacheInterface {
    * @param key - Cache key
    * @returns The cached value, or undefined if not found or expired
    */
-  get<T>(key: string): T | undefined;
+  get<T>(key: string): MaybePromise<T | undefined>;
 
   /**
    * Set a value in the cache
@@ -21,7 +29,20 @@ export interface CacheInterface {
    * @param value - Value to cache
    * @param ttl - Time to live in seconds (optional, uses default if not provided)
    */
-  set<T>(key: string, value: T, ttl?: number): void;
+  set<T>(key: string, value: T, ttl?: number): MaybePromise<void>;
+
+  /**
+   * Atomically add to a numeric counter, creating it with the TTL when missing
+   *
+   * Unlike the other methods this throws when the counter cannot be updated, so that
+   * limits built on counters can fail closed.
+   *
+   * @param key - Cache key
+   * @param amount - Amount to add (negative to subtract)
+   * @param ttl - Time to live in seconds for a new counter (optional, uses default if not provided)
+   * @returns The counter value after the update
+   */
+  increment(key: string, amount: number, ttl?: number): MaybePromise<number>;
 
   /**
    * Delete a value from the cache
@@ -29,7 +50,7 @@ export interface CacheInterface {
    * @param key - Cache key
    * @returns True if the key was deleted, false if it didn't exist
    */
-  del(key: string): boolean;
+  del(key: string): MaybePromise<boolean>;
 
   /**
    * Check if a key exists in the cache
@@ -37,19 +58,31 @@ export interface CacheInterface {
    * @param key - Cache key
    * @returns True if the key exists and hasn't expired
    */
-  has(key: string): boolean;
+  has(key: string): MaybePromise<boolean>;
 
   /**
    * Clear all entries from the cache
    */
-  flush(): void;
+  flush(): MaybePromise<void>;
 
   /**
    * Get cache statistics
    *
    * @returns Cache statistics (hits, misses, keys, etc.)
    */
-  getStats(): CacheStats;
+  getStats(): MaybePromise<CacheStats>;
+
+  /**
+   * Check that the backing store is reachable (optional; in-process caches always are)
+   *
+   * @returns True if the backing store answered
+   */
+  ping?(): Promise<boolean>;
+
+  /**
+   * Release connections held by the cache (optional)
+   */
+  close?(): Promise<void>;
 }
 
 export interface CacheStats {
@@ -68,6 +101,12 @@ export interface CacheConfig {
   stdTTL?: number;
   /** Check period for expired keys in seconds */
   checkperiod?: number;
-  /** Maximum number of keys */
+  /** Maximum number of keys (memory backend only; Redis applies its own eviction policy) */
   maxKeys?: number;
+  /** Cache backend (default: memory) */
+  backend?: "memory" | "redis";
+  /** Redis / RESP server URL (required for the redis backend) */
+  redisUrl?: string;
+  /** Prefix for all keys written by this cache (redis backend) */
+  keyPrefix?: string;
 }
@@ -95,6 +95,32 @@ export class MemoryCache implements CacheInterface {
     }
   }
 
+  /**
+   * Atomically add to a numeric counter, keeping the expiry of an existing counter.
+   *
+   * @param key - The cache key.
+   * @param amount - Amount to add (negative to subtract).
+   * @param ttl - Optional time-to-live in seconds for a new counter.
+   * @returns The counter value after the update.
+   * @throws Error if the cache is full (maxKeys reached)
+   */
+  increment(key: string, amount: number, ttl?: number): number {
+    const current = this.cache.get<number>(key);
+    const value = (current ?? 0) + amount;
+
+    if (current === undefined) {
+      this.cache.set(key, value, ttl || 0);
+    } else {
+      // getTtl is the expiry timestamp in milliseconds (0 = never expires)
+      const expiresAt = this.cache.getTtl(key) ?? 0;
+      const remaining = expiresAt > 0 ? Math.max((expiresAt - Date.now()) / 1000, 0.001) : 0;
+      this.cache.set(key, value, remaining);
+    }
+
+    logger.debug({ key, value }, "Cache counter updated");
+    return value;
+  }
+
   /**
    * Delete a value from the cache by key.
    *
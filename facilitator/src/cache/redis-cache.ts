@@ -0,0 +1,291 @@
+/**
+ * Redis Cache Implementation
+ *
+ * Shared cache backed by Redis or any RESP-compatible server, so that all facilitator
+ * replicas see the same entries. Values are stored as JSON under a configurable key
+ * prefix with native key expiry.
+ *
+ * The cache degrades to misses when the server is unreachable: reads return undefined
+ * and writes are dropped with a warning, so settlement keeps working without the cache.
+ */
+
+import type { CacheInterface, CacheStats, CacheConfig } from "./interface.js";
+import { RespClient } from "./resp-client.js";
+import { getLogger, recordMetric } from "../telemetry.js";
+
+const logger = getLogger();
+
+/** Add to a counter and set its expiry if it has none (returns the new value) */
+export const INCREMENT_SCRIPT =
+  'local value = redis.call("INCRBYFLOAT", KEYS[1], ARGV[1]) if redis.call("TTL", KEYS[1]) < 0 and tonumber(ARGV[2]) > 0 then redis.call("EXPIRE", KEYS[1], ARGV[2]) end return value';
+
+/**
+ * Redis cache configuration
+ */
+export interface RedisCacheConfig extends CacheConfig {
+  /** Redis / RESP server URL, e.g. redis://:password@localhost:6379/0 */
+  redisUrl: string;
+  /** Per-command timeout in milliseconds (default: 2000) */
+  commandTimeoutMs?: number;
+}
+
+/**
+ * Redis cache implementation
+ */
+export class RedisCache implements CacheInterface {
+  private client: RespClient;
+  private keyPrefix: string;
+  private stdTTL: number;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Constructor for RedisCache
+   *
+   * @param config - Redis cache configuration
+   */
+  constructor(config: RedisCacheConfig) {
+    this.client = new RespClient({
+      url: config.redisUrl,
+      commandTimeoutMs: config.commandTimeoutMs,
+    });
+    this.keyPrefix = config.keyPrefix ?? "x402x:cache:";
+    this.stdTTL = config.stdTTL ?? 3600;
+
+    logger.info(
+      {
+        host: new URL(config.redisUrl).host,
+        keyPrefix: this.keyPrefix,
+        stdTTL: this.stdTTL,
+      },
+      "Redis cache initialized",
+    );
+  }
+
+  /**
+   * Get a value from the cache by key.
+   *
+   * @param key - The key to retrieve from the cache.
+   * @returns The cached value, or undefined on a miss or server error
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const raw = await this.client.command("GET", this.prefixed(key));
+      if (typeof raw === "string") {
+        this.hits++;
+        logger.debug({ key }, "Cache hit");
+        return JSON.parse(raw) as T;
+      }
+    } catch (error) {
+      this.onError("get", key, error);
+    }
+
+    this.misses++;
+    logger.debug({ key }, "Cache miss");
+    return undefined;
+  }
+
+  /**
+   * Set a value in the cache with optional TTL.
+   *
+   * @param key - The cache key.
+   * @param value - The value to store (must be JSON serializable).
+   * @param ttl - Optional time-to-live in seconds.
+   */
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    const seconds = ttl || this.stdTTL;
+    try {
+      const payload = JSON.stringify(value);
+      if (seconds > 0) {
+        await this.client.command("SET", this.prefixed(key), payload, "EX", seconds);
+      } else {
+        await this.client.command("SET", this.prefixed(key), payload);
+      }
+      logger.debug({ key, ttl: seconds }, "Cache set");
+    } catch (error) {
+      this.onError("set", key, error);
+    }
+  }
+
+  /**
+   * Atomically add to a numeric counter, setting the TTL when the counter is created.
+   *
+   * Errors are propagated (not degraded to a miss) so counter-based limits can fail closed.
+   *
+   * @param key - The cache key.
+   * @param amount - Amount to add (negative to subtract).
+   * @param ttl - Optional time-to-live in seconds for a new counter.
+   * @returns The counter value after the update.
+   */
+  async increment(key: string, amount: number, ttl?: number): Promise<number> {
+    const seconds = ttl || this.stdTTL;
+    try {
+      const reply = await this.client.command(
+        "EVAL",
+        INCREMENT_SCRIPT,
+        1,
+        this.prefixed(key),
+        amount,
+        seconds,
+      );
+      return Number(reply);
+    } catch (error) {
+      this.onError("increment", key, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a value from the cache by key.
+   *
+   * @param key - The cache key.
+   * @returns True if the key was deleted
+   */
+  async del(key: string): Promise<boolean> {
+    try {
+      const deleted = (await this.client.command("DEL", this.prefixed(key))) === 1;
+      if (deleted) {
+        logger.debug({ key }, "Cache key deleted");
+      }
+      return deleted;
+    } catch (error) {
+      this.onError("del", key, error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a key exists in the cache.
+   *
+   * @param key - The cache key to check.
+   * @returns True if the key exists, false otherwise (including on server error).
+   */
+  async has(key: string): Promise<boolean> {
+    try {
+      return (await this.client.command("EXISTS", this.prefixed(key))) === 1;
+    } catch (error) {
+      this.onError("has", key, error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete all entries under this cache's key prefix and reset hit/miss counters.
+   *
+   * Other data in the same Redis database is left untouched.
+   */
+  async flush(): Promise<void> {
+    try {
+      await this.scan(async (keys) => {
+        await this.client.command("DEL", ...keys);
+      });
+      this.hits = 0;
+      this.misses = 0;
+      logger.info({ keyPrefix: this.keyPrefix }, "Cache flushed");
+    } catch (error) {
+      this.onError("flush", this.keyPrefix, error);
+    }
+  }
+
+  /**
+   * Get cache statistics including hits, misses, and key count.
+   *
+   * Hits and misses are counted per replica; the key count is shared.
+   *
+   * @returns {CacheStats} Statistics about the cache usage.
+   */
+  async getStats(): Promise<CacheStats> {
+    let keys = 0;
+    try {
+      await this.scan(async (batch) => {
+        keys += batch.length;
+      });
+    } catch (error) {
+      this.onError("stats", this.keyPrefix, error);
+    }
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      keys,
+    };
+  }
+
+  /**
+   * Check that the server is reachable
+   *
+   * @returns True if the server answered PING
+   */
+  async ping(): Promise<boolean> {
+    try {
+      return (await this.client.command("PING")) === "PONG";
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Close the server connection
+   */
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+
+  /**
+   * Iterate over keys under the prefix in batches
+   *
+   * @param onBatch - Called with each non-empty batch of full (prefixed) keys
+   */
+  private async scan(onBatch: (keys: string[]) => Promise<void>): Promise<void> {
+    let cursor = "0";
+    do {
+      const reply = (await this.client.command(
+        "SCAN",
+        cursor,
+        "MATCH",
+        `${this.keyPrefix}*`,
+        "COUNT",
+        100,
+      )) as [string, string[]];
+      cursor = reply[0];
+      if (reply[1].length > 0) {
+        await onBatch(reply[1]);
+      }
+    } while (cursor !== "0");
+  }
+
+  /**
+   * Build the stored key
+   *
+   * @param key - Cache key
+   * @returns Key with this cache's prefix
+   */
+  private prefixed(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+
+  /**
+   * Log and count a failed cache operation
+   *
+   * @param operation - Cache operation
+   * @param key - Cache key
+   * @param error - Error raised
+   */
+  private onError(operation: string, key: string, error: unknown): void {
+    recordMetric("facilitator.cache.errors", 1, { backend: "redis", operation });
+    logger.warn(
+      { operation, key, error: error instanceof Error ? error.message : String(error) },
+      "Redis cache operation failed",
+    );
+  }
+}
+
+/**
+ * Create a Redis cache instance
+ *
+ * @param config - Redis cache configuration
+ * @returns RedisCache instance
+ */
+export function createRedisCache(config: RedisCacheConfig): RedisCache {
+  return new RedisCache(config);
+}
@@ -0,0 +1,328 @@
+/**
+ * RESP Client
+ *
+ * Minimal client for Redis and RESP-compatible servers (Redis, Valkey, KeyDB, Dragonfly).
+ * Supports redis:// and rediss:// URLs with optional username/password and database index,
+ * pipelined commands over a single connection, and lazy reconnection after a failure.
+ */
+
+import { connect as connectTcp, type Socket } from "net";
+import { connect as connectTls } from "tls";
+import { getLogger } from "../telemetry.js";
+
+const logger = getLogger();
+
+/**
+ * Decoded RESP reply (error elements of array replies are kept as RespError)
+ */
+export type RespValue = string | number | null | Array<RespValue | RespError>;
+
+/**
+ * Error reply returned by the server (e.g. "WRONGTYPE ...")
+ */
+export class RespError extends Error {
+  /**
+   * Create a RESP error
+   *
+   * @param message - Error message from the server
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = "RespError";
+  }
+}
+
+/**
+ * RESP client options
+ */
+export interface RespClientOptions {
+  /** Server URL, e.g. redis://:password@localhost:6379/0 */
+  url: string;
+  /** Connection timeout in milliseconds (default: 5000) */
+  connectTimeoutMs?: number;
+  /** Per-command timeout in milliseconds (default: 2000) */
+  commandTimeoutMs?: number;
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ *
+ * @param args - Command name and arguments
+ * @returns Encoded command
+ */
+function encodeCommand(args: Array<string | number>): string {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const value = String(arg);
+    out += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return out;
+}
+
+/**
+ * Parse one reply from the buffer
+ *
+ * @param buffer - Received data
+ * @param offset - Position to start parsing at
+ * @returns Parsed reply and the position after it, or undefined if the reply is incomplete
+ */
+function parseReply(
+  buffer: Buffer,
+  offset: number,
+): { value: RespValue | RespError; offset: number } | undefined {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, offset: next };
+    case "-":
+      return { value: new RespError(line), offset: next };
+    case ":":
+      return { value: Number(line), offset: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString("utf8", next, next + length), offset: next + length + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: Array<RespValue | RespError> = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        // An error element belongs to the array; the reply ends after the last element
+        const item = parseReply(buffer, position);
+        if (!item) return undefined;
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type: ${type}`);
+  }
+}
+
+/**
+ * Client for a single RESP connection
+ */
+export class RespClient {
+  private socket?: Socket;
+  /** Socket whose replies feed the pending queue (set before AUTH / SELECT) */
+  private current?: Socket;
+  private connecting?: Promise<Socket>;
+  private pending: PendingCommand[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+  private closed = false;
+  private readonly url: URL;
+  private readonly connectTimeoutMs: number;
+  private readonly commandTimeoutMs: number;
+
+  /**
+   * Create a client (the connection is opened on the first command)
+   *
+   * @param options - Client options
+   */
+  constructor(options: RespClientOptions) {
+    this.url = new URL(options.url);
+    if (this.url.protocol !== "redis:" && this.url.protocol !== "rediss:") {
+      throw new Error(`Unsupported cache URL protocol: ${this.url.protocol}`);
+    }
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 5000;
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 2000;
+  }
+
+  /**
+   * Send a command and wait for its reply
+   *
+   * @param args - Command name and arguments (e.g. "SET", key, value)
+   * @returns Decoded reply
+   * @throws RespError if the server returns an error reply
+   */
+  async command(...args: Array<string | number>): Promise<RespValue> {
+    if (this.closed) {
+      throw new Error("RESP client is closed");
+    }
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  /**
+   * Close the connection
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const socket = this.socket;
+    if (!socket) return;
+
+    try {
+      await this.send(socket, ["QUIT"]);
+    } catch {
+      // Connection already gone
+    }
+    socket.destroy();
+  }
+
+  /**
+   * Get the open connection, connecting (and authenticating) if needed
+   *
+   * @returns Connected socket
+   */
+  private connect(): Promise<Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Open a new connection and run AUTH / SELECT
+   *
+   * @returns Connected socket
+   */
+  private async open(): Promise<Socket> {
+    const host = this.url.hostname || "localhost";
+    const port = Number(this.url.port || 6379);
+    const tls = this.url.protocol === "rediss:";
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const candidate = tls
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port });
+      const timer = setTimeout(() => {
+        candidate.destroy();
+        reject(new Error(`Timed out connecting to ${host}:${port}`));
+      }, this.connectTimeoutMs);
+
+      candidate.once(tls ? "secureConnect" : "connect", () => {
+        clearTimeout(timer);
+        resolve(candidate);
+      });
+      candidate.once("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    socket.setNoDelay(true);
+    this.current = socket;
+    this.buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => this.onData(socket, chunk));
+    socket.on("error", (error) => this.onClose(socket, error));
+    socket.on("close", () => this.onClose(socket, new Error("Connection closed")));
+
+    try {
+      const password = decodeURIComponent(this.url.password);
+      const username = decodeURIComponent(this.url.username);
+      if (password) {
+        await this.send(socket, username ? ["AUTH", username, password] : ["AUTH", password]);
+      }
+      const db = this.url.pathname.replace(/^\//, "");
+      if (db) {
+        await this.send(socket, ["SELECT", db]);
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    logger.debug({ host, port, tls }, "Connected to RESP server");
+    this.socket = socket;
+    return socket;
+  }
+
+  /**
+   * Write a command to a socket and queue its reply handler
+   *
+   * @param socket - Connected socket
+   * @param args - Command name and arguments
+   * @returns Decoded reply
+   */
+  private send(socket: Socket, args: Array<string | number>): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order, so a lost reply poisons the connection
+        socket.destroy(new Error(`RESP command ${args[0]} timed out`));
+      }, this.commandTimeoutMs);
+
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  /**
+   * Parse received data and settle pending commands in order
+   *
+   * @param socket - Socket the data arrived on
+   * @param chunk - Received data
+   */
+  private onData(socket: Socket, chunk: Buffer): void {
+    if (socket !== this.current) return;
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let reply;
+      try {
+        reply = parseReply(this.buffer, offset);
+      } catch (error) {
+        socket.destroy(error as Error);
+        return;
+      }
+      if (!reply) break;
+      offset = reply.offset;
+
+      const command = this.pending.shift();
+      if (!command) continue;
+      clearTimeout(command.timer);
+      if (reply.value instanceof RespError) {
+        command.reject(reply.value);
+      } else {
+        command.resolve(reply.value);
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  /**
+   * Fail pending commands after the connection is lost; the next command reconnects
+   *
+   * @param socket - Socket that closed
+   * @param error - Cause
+   */
+  private onClose(socket: Socket, error: Error): void {
+    // Late events from a replaced socket must not fail commands on the new one
+    if (socket !== this.current) return;
+    this.current = undefined;
+    if (this.socket === socket) {
+      this.socket = undefined;
+      if (!this.closed) {
+        logger.warn({ error: error.message }, "RESP connection lost");
+      }
+    }
+
+    const pending = this.pending;
+    this.pending = [];
+    this.buffer = Buffer.alloc(0);
+    for (const command of pending) {
+      clearTimeout(command.timer);
+      command.reject(error);
+    }
+  }
+}
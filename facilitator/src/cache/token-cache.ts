@@ -5,7 +5,7 @@
  * Wraps RPC calls with automatic caching and TTL management.
  */
 
-import type { CacheInterface } from "./interface.js";
+import type { CacheInterface, CacheStats } from "./interface.js";
 import { getLogger } from "../telemetry.js";
 
 const logger = getLogger();
@@ -59,7 +59,7 @@ export class TokenCache {
    */
   async getVersion(network: string, asset: string, getter: () => Promise<string>): Promise<string> {
     const key = this.makeVersionKey(network, asset);
-    const cached = this.cache.get<string>(key);
+    const cached = await this.cache.get<string>(key);
 
     if (cached !== undefined) {
       logger.debug({ network, asset, cached }, "Token version cache hit");
@@ -69,7 +69,7 @@ export class TokenCache {
     logger.debug({ network, asset }, "Token version cache miss, fetching...");
     const version = await getter();
 
-    this.cache.set(key, version, this.config.versionTTL);
+    await this.cache.set(key, version, this.config.versionTTL);
     logger.debug({ network, asset, version }, "Token version cached");
 
     return version;
@@ -85,7 +85,7 @@ export class TokenCache {
    */
   async getMetadata<T>(network: string, asset: string, getter: () => Promise<T>): Promise<T> {
     const key = this.makeMetadataKey(network, asset);
-    const cached = this.cache.get<T>(key);
+    const cached = await this.cache.get<T>(key);
 
     if (cached !== undefined) {
       logger.debug({ network, asset }, "Token metadata cache hit");
@@ -95,7 +95,7 @@ export class TokenCache {
     logger.debug({ network, asset }, "Token metadata cache miss, fetching...");
     const metadata = await getter();
 
-    this.cache.set(key, metadata, this.config.metadataTTL);
+    await this.cache.set(key, metadata, this.config.metadataTTL);
     logger.debug({ network, asset }, "Token metadata cached");
 
     return metadata;
@@ -107,9 +107,9 @@ export class TokenCache {
    * @param network - Network name
    * @param asset - Token contract address
    */
-  invalidateVersion(network: string, asset: string): void {
+  async invalidateVersion(network: string, asset: string): Promise<void> {
     const key = this.makeVersionKey(network, asset);
-    this.cache.del(key);
+    await this.cache.del(key);
     logger.info({ network, asset }, "Token version cache invalidated");
   }
 
@@ -119,17 +119,17 @@ export class TokenCache {
    * @param network - Network name
    * @param asset - Token contract address
    */
-  invalidateMetadata(network: string, asset: string): void {
+  async invalidateMetadata(network: string, asset: string): Promise<void> {
     const key = this.makeMetadataKey(network, asset);
-    this.cache.del(key);
+    await this.cache.del(key);
     logger.info({ network, asset }, "Token metadata cache invalidated");
   }
 
   /**
    * Clear all token caches
    */
-  clearAll(): void {
-    this.cache.flush();
+  async clearAll(): Promise<void> {
+    await this.cache.flush();
     logger.info("All token caches cleared");
   }
 
@@ -138,10 +138,28 @@ export class TokenCache {
    *
    * @returns Cache statistics (hits, misses, keys, etc.)
    */
-  getStats() {
+  async getStats(): Promise<CacheStats> {
     return this.cache.getStats();
   }
 
+  /**
+   * Whether statistics are cheap to read (in-process caches; Redis counts keys with a SCAN)
+   *
+   * @returns True if getStats() does not touch a remote backend
+   */
+  hasCheapStats(): boolean {
+    return !this.cache.ping;
+  }
+
+  /**
+   * Check that the cache backend is reachable
+   *
+   * @returns True if the backend answered (always true for in-process caches)
+   */
+  async ping(): Promise<boolean> {
+    return this.cache.ping ? this.cache.ping() : true;
+  }
+
   /**
    * Generate cache key for token version
    *
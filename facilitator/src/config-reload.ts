@@ -0,0 +1,211 @@
+/**
+ * Configuration Reload Module
+ *
+ * Reloads the facilitator configuration at runtime, without a restart:
+ * - Watches the config file (CONFIG_FILE) and reloads shortly after it changes
+ * - Reloads on SIGHUP
+ * - An invalid configuration is rejected as a whole and the current one stays active
+ *
+ * Only the settings in RELOADABLE_CONFIG_SECTIONS are applied to the running process.
+ * Changes to any other section are reported as requiring a restart.
+ */
+
+import { watch, type FSWatcher } from "fs";
+import { basename, dirname } from "path";
+import { loadConfigWithRollback, type AppConfig } from "./config.js";
+import { getLogger, recordMetric, emitAlert } from "./telemetry.js";
+
+const logger = getLogger();
+
+/**
+ * Configuration reload configuration
+ */
+export interface ConfigReloadConfig {
+  /** Config file with environment variable overrides (reloading is off without one) */
+  filePath?: string;
+  /** Quiet period after a file change before reloading */
+  debounceMs: number;
+}
+
+/**
+ * Configuration sections applied on reload
+ */
+export const RELOADABLE_CONFIG_SECTIONS = [
+  "rateLimit",
+  "allowedSettlementRouters",
+  "x402Config",
+  "evmPrivateKeys",
+  "gasCost",
+  "feeClaim",
+  "feeQuote",
+  "gasEstimation",
+  "admin",
+] as const satisfies readonly (keyof AppConfig)[];
+
+/**
+ * Applies a reloaded configuration; throwing rejects the reload
+ */
+export type ConfigApplier = (next: AppConfig, previous: AppConfig) => Promise<void>;
+
+/**
+ * Get the configuration sections that changed but are only applied on restart
+ *
+ * @param previous - Active configuration
+ * @param next - Reloaded configuration
+ * @returns Names of the changed sections
+ */
+export function getRestartRequiredChanges(previous: AppConfig, next: AppConfig): string[] {
+  return (Object.keys(next) as (keyof AppConfig)[]).filter(
+    (section) =>
+      !(RELOADABLE_CONFIG_SECTIONS as readonly string[]).includes(section) &&
+      JSON.stringify(previous[section]) !== JSON.stringify(next[section]),
+  );
+}
+
+/**
+ * Reloads the configuration on config file changes and SIGHUP
+ */
+export class ConfigReloader {
+  private watcher?: FSWatcher;
+  private debounceTimer?: NodeJS.Timeout;
+  private reloading?: Promise<boolean>;
+  private reloadAgain = false;
+
+  /**
+   * Create a configuration reloader
+   *
+   * @param config - Configuration reload configuration
+   * @param current - Active configuration
+   * @param apply - Applies a reloaded configuration to the running services
+   */
+  constructor(
+    private readonly config: ConfigReloadConfig,
+    private current: AppConfig,
+    private readonly apply: ConfigApplier,
+  ) {}
+
+  /**
+   * Start watching the config file and listening for SIGHUP
+   */
+  start(): void {
+    process.on("SIGHUP", this.onSignal);
+
+    if (this.config.filePath) {
+      // Watch the directory: editors and config management often replace the file by renaming
+      const fileName = basename(this.config.filePath);
+      this.watcher = watch(dirname(this.config.filePath), (_event, changed) => {
+        if (changed === fileName) {
+          this.scheduleReload();
+        }
+      });
+      this.watcher.on("error", (error) => {
+        logger.error({ error, filePath: this.config.filePath }, "Config file watcher failed");
+      });
+    }
+
+    logger.info(
+      { filePath: this.config.filePath, debounceMs: this.config.debounceMs },
+      "Configuration reload enabled (config file changes and SIGHUP)",
+    );
+  }
+
+  /**
+   * Stop watching and wait for a running reload to finish
+   */
+  async stop(): Promise<void> {
+    process.off("SIGHUP", this.onSignal);
+    this.watcher?.close();
+    this.watcher = undefined;
+    clearTimeout(this.debounceTimer);
+    this.reloadAgain = false;
+    await this.reloading;
+  }
+
+  /**
+   * Load the configuration again and apply it
+   *
+   * Reloads never overlap: a reload requested while one runs happens right after it.
+   *
+   * @returns True if the new configuration was applied
+   */
+  reload(): Promise<boolean> {
+    if (this.reloading) {
+      this.reloadAgain = true;
+      return this.reloading;
+    }
+
+    this.reloading = this.runReload().finally(() => {
+      this.reloading = undefined;
+      if (this.reloadAgain) {
+        this.reloadAgain = false;
+        void this.reload();
+      }
+    });
+    return this.reloading;
+  }
+
+  /**
+   * Load, validate and apply the configuration
+   *
+   * @returns True if the new configuration was applied
+   */
+  private async runReload(): Promise<boolean> {
+    const previous = this.current;
+
+    try {
+      const { config: next, rollback } = await loadConfigWithRollback();
+
+      // A generated fee quote secret differs on every load; keep the one issued quotes carry
+      if (next.feeQuote.secretGenerated && previous.feeQuote.secretGenerated) {
+        next.feeQuote.secret = previous.feeQuote.secret;
+      }
+
+      try {
+        await this.apply(next, previous);
+      } catch (error) {
+        // Don't leave the rejected file values in the environment for later reads
+        rollback();
+        throw error;
+      }
+      this.current = next;
+
+      const restartRequired = getRestartRequiredChanges(previous, next);
+      if (restartRequired.length > 0) {
+        logger.warn(
+          { sections: restartRequired },
+          "Configuration changes that only take effect after a restart",
+        );
+      }
+
+      recordMetric("facilitator.config.reload.total", 1, { success: "true" });
+      logger.info({ filePath: this.config.filePath }, "Configuration reloaded");
+      return true;
+    } catch (error) {
+      recordMetric("facilitator.config.reload.total", 1, { success: "false" });
+      emitAlert(
+        "config_reload_failed",
+        "Configuration reload failed, keeping current configuration",
+        {
+          filePath: this.config.filePath ?? "",
+          error: error instanceof Error ? error.message : String(error),
+        },
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Reload once the config file has stopped changing
+   */
+  private scheduleReload(): void {
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      void this.reload();
+    }, this.config.debounceMs);
+  }
+
+  private onSignal = (): void => {
+    logger.info("SIGHUP received, reloading configuration");
+    void this.reload();
+  };
+}
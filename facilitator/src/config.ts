@@ -7,18 +7,39 @@
  * - Account selection strategy
  * - SettlementRouter whitelist
  * - X402 configuration
+ * - Optional config file (CONFIG_FILE) overriding environment variables, re-read on every load
  */
 
+import { randomBytes } from "crypto";
+import { readFileSync } from "fs";
 import { config as loadEnv } from "dotenv";
+import { isAddress, parseEther } from "viem";
 import type { X402Config } from "x402/types";
 import { evm } from "x402/types";
 import { getSupportedNetworks, getNetworkConfig, isNetworkSupported } from "@x402x/core";
 import type { GasCostConfig } from "./gas-cost.js";
 import type { DynamicGasPriceConfig } from "./dynamic-gas-price.js";
 import type { TokenPriceConfig } from "./token-price.js";
+import type {
+  ChainlinkFeedConfig,
+  PriceAggregation,
+  PriceSourceName,
+  TwapPoolConfig,
+} from "./price-oracles/index.js";
 import { networkChainResolver } from "./network-chain-resolver.js";
 import { DEFAULTS } from "./defaults.js";
 import { GasEstimationConfig } from "./gas-estimation/index.js";
+import type { LedgerConfig } from "./ledger/index.js";
+import type { AsyncSettlementConfig } from "./settlement-jobs.js";
+import type { StuckTransactionConfig } from "./nonce-manager.js";
+import type { LockConfig } from "./locks/index.js";
+import type { HookValidatorConfig } from "./hook-validators/index.js";
+import type { ReadinessConfig } from "./network-health.js";
+import type { TreasuryConfig } from "./treasury.js";
+import type { FeeQuoteConfig } from "./fee-quote.js";
+import type { SpendPolicyConfig } from "./spend-policy.js";
+import type { BatchSettlementConfig } from "./batch-settlement.js";
+import type { ConfigReloadConfig } from "./config-reload.js";
 
 // Load environment variables
 loadEnv();
@@ -31,6 +52,9 @@ export interface CacheConfig {
   ttlTokenVersion: number;
   ttlTokenMetadata: number;
   maxKeys: number;
+  backend: "memory" | "redis";
+  redisUrl?: string;
+  redisKeyPrefix: string;
 }
 
 /**
@@ -40,6 +64,7 @@ export interface AccountPoolConfig {
   strategy: "round_robin" | "random";
   maxQueueDepth?: number;
   queueDepthWarning?: number;
+  stuckTransaction: StuckTransactionConfig;
 }
 
 /**
@@ -76,6 +101,35 @@ export interface FeeClaimConfig {
   minClaimAmount: Record<string, bigint>;
 }
 
+/**
+ * Admin API role, ordered from least to most privileged
+ */
+export type AdminRole = "viewer" | "operator" | "admin";
+
+/**
+ * Admin API key entry
+ */
+export interface AdminApiKey {
+  /** Key identifier recorded in the audit log (never the secret itself) */
+  id: string;
+  /** Role granted to requests authenticated with this key */
+  role: AdminRole;
+  /** Shared secret used as bearer token or HMAC signing key */
+  secret: string;
+}
+
+/**
+ * Admin API configuration
+ */
+export interface AdminConfig {
+  /** Configured API keys; admin endpoints are locked when empty */
+  apiKeys: AdminApiKey[];
+  /** Maximum clock skew accepted for signed requests (seconds) */
+  signatureMaxSkewSeconds: number;
+  /** Number of audit entries kept in memory */
+  auditLogSize: number;
+}
+
 /**
  * Application configuration
  */
@@ -93,6 +147,17 @@ export interface AppConfig {
   tokenPrice: TokenPriceConfig;
   feeClaim: FeeClaimConfig;
   gasEstimation: GasEstimationConfig;
+  admin: AdminConfig;
+  ledger: LedgerConfig;
+  asyncSettlement: AsyncSettlementConfig;
+  locks: LockConfig;
+  hookValidators: HookValidatorConfig;
+  readiness: ReadinessConfig;
+  treasury: TreasuryConfig;
+  feeQuote: FeeQuoteConfig;
+  spendPolicy: SpendPolicyConfig;
+  batchSettlement: BatchSettlementConfig;
+  configReload: ConfigReloadConfig;
 }
 
 /**
@@ -101,6 +166,16 @@ export interface AppConfig {
  * @returns Cache configuration object
  */
 function parseCacheConfig(): CacheConfig {
+  const backend = process.env.CACHE_BACKEND || DEFAULTS.cache.BACKEND;
+  if (backend !== "memory" && backend !== "redis") {
+    throw new Error(`Invalid CACHE_BACKEND: ${backend}. Must be "memory" or "redis"`);
+  }
+
+  const redisUrl = process.env.CACHE_REDIS_URL;
+  if (backend === "redis" && !redisUrl) {
+    throw new Error("CACHE_REDIS_URL is required when CACHE_BACKEND=redis");
+  }
+
   return {
     enabled: process.env.CACHE_ENABLED !== "false",
     ttlTokenVersion: parseInt(
@@ -110,6 +185,9 @@ function parseCacheConfig(): CacheConfig {
       process.env.CACHE_TTL_TOKEN_METADATA || String(DEFAULTS.cache.TTL_TOKEN_METADATA),
     ),
     maxKeys: parseInt(process.env.CACHE_MAX_KEYS || String(DEFAULTS.cache.MAX_KEYS)),
+    backend,
+    redisUrl,
+    redisKeyPrefix: process.env.CACHE_REDIS_KEY_PREFIX || DEFAULTS.cache.REDIS_KEY_PREFIX,
   };
 }
 
@@ -144,10 +222,39 @@ function parseAccountPoolConfig(): AccountPoolConfig {
   // Calculate queueDepthWarning as 80% of maxQueueDepth (rounded up)
   const queueDepthWarning = Math.ceil(maxQueueDepth * 0.8);
 
+  // Replacements must raise fees by at least 10% or nodes reject them as underpriced
+  const feeBumpPercent = parseInt(
+    process.env.STUCK_TX_FEE_BUMP_PERCENT || String(DEFAULTS.accountPool.STUCK_TX_FEE_BUMP_PERCENT),
+  );
+  if (isNaN(feeBumpPercent) || feeBumpPercent < 10) {
+    throw new Error(
+      `Invalid STUCK_TX_FEE_BUMP_PERCENT: ${process.env.STUCK_TX_FEE_BUMP_PERCENT}. Must be at least 10.`,
+    );
+  }
+
   return {
     strategy,
     maxQueueDepth,
     queueDepthWarning,
+    stuckTransaction: {
+      enabled: process.env.STUCK_TX_ENABLED
+        ? process.env.STUCK_TX_ENABLED !== "false"
+        : DEFAULTS.accountPool.STUCK_TX_ENABLED,
+      timeoutMs:
+        parseInt(
+          process.env.STUCK_TX_TIMEOUT_SECONDS ||
+            String(DEFAULTS.accountPool.STUCK_TX_TIMEOUT_SECONDS),
+        ) * 1000,
+      feeBumpPercent,
+      maxReplacements: parseInt(
+        process.env.STUCK_TX_MAX_REPLACEMENTS ||
+          String(DEFAULTS.accountPool.STUCK_TX_MAX_REPLACEMENTS),
+      ),
+      pollIntervalMs: parseInt(
+        process.env.STUCK_TX_POLL_INTERVAL_MS ||
+          String(DEFAULTS.accountPool.STUCK_TX_POLL_INTERVAL_MS),
+      ),
+    },
   };
 }
 
@@ -347,6 +454,29 @@ function parseAllowedHooks(): Record<string, string[]> {
   return hooks;
 }
 
+/**
+ * Parse allowed hook code hashes from environment variables
+ *
+ * ALLOWED_HOOK_CODE_HASHES is a comma-separated list of keccak256 hashes of hook
+ * runtime bytecode, applied to all networks.
+ *
+ * @returns Lowercased code hashes
+ */
+function parseAllowedHookCodeHashes(): string[] {
+  const codeHashes = (process.env.ALLOWED_HOOK_CODE_HASHES || "")
+    .split(",")
+    .map((codeHash) => codeHash.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const codeHash of codeHashes) {
+    if (!/^0x[0-9a-f]{64}$/.test(codeHash)) {
+      throw new Error(`Invalid hook code hash in ALLOWED_HOOK_CODE_HASHES: ${codeHash}`);
+    }
+  }
+
+  return codeHashes;
+}
+
 /**
  * Parse gas cost configuration from environment variables
  *
@@ -385,25 +515,7 @@ function parseGasCostConfig(): GasCostConfig {
     }
   }
 
-  // Parse native token prices
-  const nativeTokenPrice: Record<string, number> = {};
-  for (const network of supportedNetworks) {
-    const envVarName = `${network.toUpperCase().replace(/-/g, "_")}_ETH_PRICE`;
-    const price = process.env[envVarName];
-    if (price) {
-      nativeTokenPrice[network] = parseFloat(price);
-    } else {
-      // Default prices (conservative estimates)
-      // Check for most specific matches first
-      if (network.includes("x-layer")) {
-        nativeTokenPrice[network] = DEFAULTS.nativeTokenPrice.OKB;
-      } else if (network.includes("base")) {
-        nativeTokenPrice[network] = DEFAULTS.nativeTokenPrice.ETH;
-      } else {
-        nativeTokenPrice[network] = DEFAULTS.nativeTokenPrice.GENERIC;
-      }
-    }
-  }
+  const nativeTokenPrice = parseNativeTokenPrices();
 
   return {
     // Gas Limit Configuration
@@ -436,6 +548,10 @@ function parseGasCostConfig(): GasCostConfig {
     // Hook Security
     hookWhitelistEnabled: process.env.HOOK_WHITELIST_ENABLED === "true",
     allowedHooks: parseAllowedHooks(),
+    allowedHookCodeHashes: parseAllowedHookCodeHashes(),
+    hookCodeHashCacheTTL: parseInt(
+      process.env.HOOK_CODE_HASH_CACHE_TTL || String(DEFAULTS.gasCost.HOOK_CODE_HASH_CACHE_TTL),
+    ),
 
     // Fallback Prices
     networkGasPrice,
@@ -495,15 +611,14 @@ function parseFeeClaimConfig(): FeeClaimConfig {
   // Build minimum claim amounts map
   const minClaimAmount: Record<string, bigint> = {};
 
-  // Get all supported networks to determine USDC addresses
+  // Get all supported networks to determine settlement asset addresses
   const supportedNetworks = getSupportedNetworks();
   for (const network of supportedNetworks) {
     try {
-      const networkConfig = getNetworkConfig(network);
-      const usdcAddress = networkConfig.defaultAsset.address.toLowerCase();
-
-      // Use the same minimum amount for all USDC tokens (currently only USDC is supported)
-      minClaimAmount[usdcAddress] = BigInt(minClaimAmountUsdc);
+      // Use the same minimum amount (atomic units) for every asset in the registry
+      for (const asset of getNetworkConfig(network).assets) {
+        minClaimAmount[asset.address.toLowerCase()] = BigInt(minClaimAmountUsdc);
+      }
     } catch {
       // Skip networks without default asset configuration
       continue;
@@ -515,6 +630,128 @@ function parseFeeClaimConfig(): FeeClaimConfig {
   };
 }
 
+/**
+ * Parse static native token prices from environment variables
+ *
+ * @returns Native token USD price by network
+ */
+function parseNativeTokenPrices(): Record<string, number> {
+  const nativeTokenPrice: Record<string, number> = {};
+  for (const network of getSupportedNetworks()) {
+    const envVarName = `${network.toUpperCase().replace(/-/g, "_")}_ETH_PRICE`;
+    const price = process.env[envVarName];
+    if (price) {
+      nativeTokenPrice[network] = parseFloat(price);
+    } else {
+      // Default prices (conservative estimates)
+      // Check for most specific matches first
+      if (network.includes("x-layer")) {
+        nativeTokenPrice[network] = DEFAULTS.nativeTokenPrice.OKB;
+      } else if (network.includes("bsc")) {
+        nativeTokenPrice[network] = DEFAULTS.nativeTokenPrice.BNB;
+      } else if (network.includes("base")) {
+        nativeTokenPrice[network] = DEFAULTS.nativeTokenPrice.ETH;
+      } else {
+        nativeTokenPrice[network] = DEFAULTS.nativeTokenPrice.GENERIC;
+      }
+    }
+  }
+  return nativeTokenPrice;
+}
+
+/**
+ * Parse price source configuration from environment variables
+ *
+ * PRICE_SOURCES lists the sources in priority order. On-chain sources are configured
+ * per network; feeds and pools may live on another network (e.g. a testnet reading
+ * mainnet prices) via <NETWORK>_CHAINLINK_FEED_NETWORK / <NETWORK>_TWAP_NETWORK.
+ *
+ * @returns Price source part of the token price configuration
+ */
+function parsePriceSources(): Pick<
+  TokenPriceConfig,
+  | "sources"
+  | "aggregation"
+  | "maxPriceAgeSeconds"
+  | "maxDeviationPercent"
+  | "sourceTimeoutMs"
+  | "chainlinkFeeds"
+  | "twapPools"
+  | "staticPrices"
+> {
+  const validSources: PriceSourceName[] = ["coingecko", "chainlink", "twap", "static"];
+  const sources = (process.env.PRICE_SOURCES || DEFAULTS.tokenPrice.SOURCES)
+    .split(",")
+    .map((source) => source.trim().toLowerCase())
+    .filter(Boolean) as PriceSourceName[];
+  for (const source of sources) {
+    if (!validSources.includes(source)) {
+      throw new Error(`Invalid PRICE_SOURCES entry: ${source}. Must be one of ${validSources}`);
+    }
+  }
+
+  const aggregation = (process.env.PRICE_AGGREGATION ||
+    DEFAULTS.tokenPrice.AGGREGATION) as PriceAggregation;
+  if (aggregation !== "priority" && aggregation !== "median") {
+    throw new Error(`Invalid PRICE_AGGREGATION: ${aggregation}. Must be priority or median`);
+  }
+
+  const parseAddress = (name: string, value: string): string => {
+    if (!isAddress(value)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+    return value;
+  };
+
+  const chainlinkFeeds: Record<string, ChainlinkFeedConfig> = {};
+  const twapPools: Record<string, TwapPoolConfig> = {};
+  for (const network of getSupportedNetworks()) {
+    const prefix = network.toUpperCase().replace(/-/g, "_");
+
+    const feed = process.env[`${prefix}_CHAINLINK_FEED`];
+    if (feed) {
+      chainlinkFeeds[network] = {
+        address: parseAddress(`${prefix}_CHAINLINK_FEED`, feed),
+        network: process.env[`${prefix}_CHAINLINK_FEED_NETWORK`] || network,
+      };
+    }
+
+    const pool = process.env[`${prefix}_TWAP_POOL`];
+    if (pool) {
+      const quoteToken = process.env[`${prefix}_TWAP_QUOTE_TOKEN`];
+      if (!quoteToken) {
+        throw new Error(`${prefix}_TWAP_QUOTE_TOKEN is required when ${prefix}_TWAP_POOL is set`);
+      }
+      twapPools[network] = {
+        pool: parseAddress(`${prefix}_TWAP_POOL`, pool),
+        quoteToken: parseAddress(`${prefix}_TWAP_QUOTE_TOKEN`, quoteToken),
+        network: process.env[`${prefix}_TWAP_NETWORK`] || network,
+        windowSeconds: parseInt(
+          process.env[`${prefix}_TWAP_WINDOW_SECONDS`] ||
+            String(DEFAULTS.tokenPrice.TWAP_WINDOW_SECONDS),
+        ),
+      };
+    }
+  }
+
+  return {
+    sources,
+    aggregation,
+    maxPriceAgeSeconds: parseInt(
+      process.env.PRICE_MAX_AGE_SECONDS || String(DEFAULTS.tokenPrice.MAX_PRICE_AGE_SECONDS),
+    ),
+    maxDeviationPercent: parseFloat(
+      process.env.PRICE_MAX_DEVIATION_PERCENT || String(DEFAULTS.tokenPrice.MAX_DEVIATION_PERCENT),
+    ),
+    sourceTimeoutMs: parseInt(
+      process.env.PRICE_SOURCE_TIMEOUT_MS || String(DEFAULTS.tokenPrice.SOURCE_TIMEOUT_MS),
+    ),
+    chainlinkFeeds,
+    twapPools,
+    staticPrices: parseNativeTokenPrices(),
+  };
+}
+
 /**
  * Parse token price configuration from environment variables
  *
@@ -542,6 +779,7 @@ function parseTokenPriceConfig(): TokenPriceConfig {
     updateInterval: parseInt(process.env.TOKEN_PRICE_UPDATE_INTERVAL || "600"), // 10 minutes
     apiKey: process.env.COINGECKO_API_KEY,
     coinIds,
+    ...parsePriceSources(),
   };
 }
 
@@ -553,19 +791,599 @@ function parseTokenPriceConfig(): TokenPriceConfig {
 function parseGasEstimationConfig(): GasEstimationConfig {
   return {
     enabled: process.env.PREVALIDATION_ENABLED !== "false", // Default: true
-    strategy: (process.env.GAS_ESTIMATION_STRATEGY as 'code' | 'simulation' | 'smart') || "smart", // Default: smart
+    strategy: (process.env.GAS_ESTIMATION_STRATEGY as "code" | "simulation" | "smart") || "smart", // Default: smart
     codeValidationEnabled: process.env.CODE_VALIDATION_ENABLED !== "false", // Default: true
     safetyMultiplier: parseFloat(process.env.GAS_ESTIMATION_SAFETY_MULTIPLIER || "1.2"), // Default: 1.2x
     timeoutMs: parseInt(process.env.GAS_ESTIMATION_TIMEOUT_MS || "5000"), // Default: 5 seconds
   };
 }
 
+/**
+ * Parse admin API configuration from environment variables
+ *
+ * ADMIN_API_KEYS is a comma-separated list of `id:role:secret` entries,
+ * e.g. `ops-bot:operator:<secret>,grafana:viewer:<secret>`.
+ *
+ * @returns Admin API configuration object
+ */
+function parseAdminConfig(): AdminConfig {
+  const apiKeys: AdminApiKey[] = [];
+  const seenIds = new Set<string>();
+
+  const entries = (process.env.ADMIN_API_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const [id, role, ...secretParts] = entry.split(":");
+    const secret = secretParts.join(":");
+
+    if (!id || !role || !secret) {
+      throw new Error(
+        `Invalid ADMIN_API_KEYS entry for '${id || "(empty)"}'. Expected format: id:role:secret`,
+      );
+    }
+    if (role !== "viewer" && role !== "operator" && role !== "admin") {
+      throw new Error(`Invalid ADMIN_API_KEYS role for '${id}': ${role}`);
+    }
+    if (secret.length < 16) {
+      throw new Error(`ADMIN_API_KEYS secret for '${id}' must be at least 16 characters`);
+    }
+    if (seenIds.has(id)) {
+      throw new Error(`Duplicate ADMIN_API_KEYS id: ${id}`);
+    }
+
+    seenIds.add(id);
+    apiKeys.push({ id, role, secret });
+  }
+
+  return {
+    apiKeys,
+    signatureMaxSkewSeconds: parseInt(
+      process.env.ADMIN_SIGNATURE_MAX_SKEW_SECONDS ||
+        String(DEFAULTS.admin.SIGNATURE_MAX_SKEW_SECONDS),
+    ),
+    auditLogSize: parseInt(
+      process.env.ADMIN_AUDIT_LOG_SIZE || String(DEFAULTS.admin.AUDIT_LOG_SIZE),
+    ),
+  };
+}
+
+/**
+ * Parse settlement ledger configuration from environment variables
+ *
+ * @returns Settlement ledger configuration object
+ */
+function parseLedgerConfig(): LedgerConfig {
+  const store = process.env.LEDGER_STORE || DEFAULTS.ledger.STORE;
+  if (store !== "file" && store !== "memory") {
+    throw new Error(`Invalid LEDGER_STORE: ${store}`);
+  }
+
+  return {
+    enabled: process.env.LEDGER_ENABLED
+      ? process.env.LEDGER_ENABLED !== "false"
+      : DEFAULTS.ledger.ENABLED,
+    store,
+    filePath: process.env.LEDGER_FILE_PATH || DEFAULTS.ledger.FILE_PATH,
+  };
+}
+
+/**
+ * Parse async settlement configuration from environment variables
+ *
+ * @returns Async settlement configuration object
+ */
+function parseAsyncSettlementConfig(): AsyncSettlementConfig {
+  const webhookMaxAttempts = parseInt(
+    process.env.SETTLEMENT_WEBHOOK_MAX_ATTEMPTS ||
+      String(DEFAULTS.asyncSettlement.WEBHOOK_MAX_ATTEMPTS),
+  );
+  if (isNaN(webhookMaxAttempts) || webhookMaxAttempts < 1) {
+    throw new Error(
+      `Invalid SETTLEMENT_WEBHOOK_MAX_ATTEMPTS: ${process.env.SETTLEMENT_WEBHOOK_MAX_ATTEMPTS}`,
+    );
+  }
+
+  return {
+    enabled: process.env.ASYNC_SETTLEMENT_ENABLED
+      ? process.env.ASYNC_SETTLEMENT_ENABLED !== "false"
+      : DEFAULTS.asyncSettlement.ENABLED,
+    maxJobs: parseInt(
+      process.env.ASYNC_SETTLEMENT_MAX_JOBS || String(DEFAULTS.asyncSettlement.MAX_JOBS),
+    ),
+    jobTtlSeconds: parseInt(
+      process.env.ASYNC_SETTLEMENT_JOB_TTL_SECONDS ||
+        String(DEFAULTS.asyncSettlement.JOB_TTL_SECONDS),
+    ),
+    webhookSecret: process.env.SETTLEMENT_WEBHOOK_SECRET || undefined,
+    webhookTimeoutMs: parseInt(
+      process.env.SETTLEMENT_WEBHOOK_TIMEOUT_MS ||
+        String(DEFAULTS.asyncSettlement.WEBHOOK_TIMEOUT_MS),
+    ),
+    webhookMaxAttempts,
+    allowInsecureWebhooks: process.env.SETTLEMENT_WEBHOOK_ALLOW_HTTP === "true",
+  };
+}
+
+/**
+ * Parse settlement lock configuration from environment variables
+ *
+ * @returns Lock configuration object
+ */
+function parseLockConfig(): LockConfig {
+  const backend = process.env.LOCK_BACKEND || DEFAULTS.locks.BACKEND;
+  if (backend !== "memory" && backend !== "redis") {
+    throw new Error(`Invalid LOCK_BACKEND: ${backend}. Must be "memory" or "redis"`);
+  }
+
+  // Locks can share the cache server
+  const redisUrl = process.env.LOCK_REDIS_URL || process.env.CACHE_REDIS_URL;
+  if (backend === "redis" && !redisUrl) {
+    throw new Error("LOCK_REDIS_URL (or CACHE_REDIS_URL) is required when LOCK_BACKEND=redis");
+  }
+
+  const ttlMs = parseInt(process.env.LOCK_TTL_MS || String(DEFAULTS.locks.TTL_MS));
+  if (isNaN(ttlMs) || ttlMs < 1000) {
+    throw new Error(`Invalid LOCK_TTL_MS: ${process.env.LOCK_TTL_MS}. Must be at least 1000`);
+  }
+
+  const maxHoldMs = parseInt(process.env.LOCK_MAX_HOLD_MS || String(DEFAULTS.locks.MAX_HOLD_MS));
+  if (isNaN(maxHoldMs) || maxHoldMs < ttlMs) {
+    throw new Error(
+      `Invalid LOCK_MAX_HOLD_MS: ${process.env.LOCK_MAX_HOLD_MS}. Must be at least LOCK_TTL_MS`,
+    );
+  }
+
+  return {
+    backend,
+    redisUrl,
+    keyPrefix: process.env.LOCK_REDIS_KEY_PREFIX || DEFAULTS.locks.REDIS_KEY_PREFIX,
+    ttlMs,
+    maxHoldMs,
+  };
+}
+
+/**
+ * Parse hook validator registrations from environment variables
+ *
+ * HOOK_VALIDATORS is a comma-separated list of `<target>=<type>` entries where the
+ * target is either `<network>:<hookAddress>` or a 32-byte bytecode hash, e.g.
+ * `base-sepolia:0xabc...=nft_mint,0x1234...=reward`.
+ *
+ * @returns Hook validator configuration object
+ */
+function parseHookValidatorConfig(): HookValidatorConfig {
+  const registrations: HookValidatorConfig["registrations"] = [];
+
+  for (const entry of (process.env.HOOK_VALIDATORS || "").split(",")) {
+    if (!entry.trim()) continue;
+
+    const [target, hookType] = entry.split("=").map((part) => part.trim());
+    if (!target || !hookType) {
+      throw new Error(`Invalid HOOK_VALIDATORS entry: ${entry}. Expected <target>=<type>`);
+    }
+
+    if (target.includes(":")) {
+      const [network, address] = target.split(":");
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        throw new Error(`Invalid hook address in HOOK_VALIDATORS: ${target}`);
+      }
+      registrations.push({ hookType, network, address });
+    } else if (/^0x[0-9a-fA-F]{64}$/.test(target)) {
+      registrations.push({ hookType, codeHash: target });
+    } else {
+      throw new Error(`Invalid HOOK_VALIDATORS target: ${target}`);
+    }
+  }
+
+  return {
+    registrations,
+    plugins: (process.env.HOOK_VALIDATOR_PLUGINS || "")
+      .split(",")
+      .map((plugin) => plugin.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Parse a native token amount (e.g. "0.01") into a wei string
+ *
+ * @param name - Environment variable name (for error messages)
+ * @param value - Amount in native token units
+ * @returns Amount in wei
+ */
+function parseNativeAmount(name: string, value: string): string {
+  try {
+    return parseEther(value.trim()).toString();
+  } catch {
+    throw new Error(`Invalid ${name}: ${value}. Must be a native token amount (e.g. 0.01)`);
+  }
+}
+
+/**
+ * Parse a native token amount for every supported network
+ *
+ * The global variable applies to all networks and can be overridden per network
+ * with `<NETWORK>_<suffix>`, e.g. BASE_SEPOLIA_MIN_GAS_BALANCE=0.005.
+ *
+ * @param globalVar - Environment variable applying to all networks
+ * @param networkSuffix - Suffix of the per-network environment variable
+ * @param defaultValue - Amount used when neither variable is set (network omitted if undefined)
+ * @returns Amounts in wei by network
+ */
+function parseNativeAmountByNetwork(
+  globalVar: string,
+  networkSuffix: string,
+  defaultValue?: string,
+): Record<string, string> {
+  const globalValue = process.env[globalVar] || defaultValue;
+  const amounts: Record<string, string> = {};
+  for (const network of getSupportedNetworks()) {
+    const envVarName = `${network.toUpperCase().replace(/-/g, "_")}_${networkSuffix}`;
+    if (process.env[envVarName]) {
+      amounts[network] = parseNativeAmount(envVarName, process.env[envVarName]!);
+    } else if (globalValue) {
+      amounts[network] = parseNativeAmount(globalVar, globalValue);
+    }
+  }
+  return amounts;
+}
+
+/**
+ * Parse readiness probe configuration from environment variables
+ *
+ * The gas balance floor is set in native token units via MINIMUM_GAS_BALANCE and
+ * can be overridden per network, e.g. BASE_SEPOLIA_MIN_GAS_BALANCE=0.005.
+ *
+ * @returns Readiness configuration object
+ */
+function parseReadinessConfig(): ReadinessConfig {
+  const minGasBalance = parseNativeAmountByNetwork(
+    "MINIMUM_GAS_BALANCE",
+    "MIN_GAS_BALANCE",
+    DEFAULTS.readiness.MIN_GAS_BALANCE,
+  );
+
+  return {
+    enabled: process.env.READINESS_CHECKS_ENABLED !== "false",
+    probeIntervalMs: parseInt(
+      process.env.READINESS_PROBE_INTERVAL_MS || String(DEFAULTS.readiness.PROBE_INTERVAL_MS),
+    ),
+    probeTimeoutMs: parseInt(
+      process.env.READINESS_PROBE_TIMEOUT_MS || String(DEFAULTS.readiness.PROBE_TIMEOUT_MS),
+    ),
+    maxBlockAgeSeconds: parseInt(
+      process.env.READINESS_MAX_BLOCK_AGE_SECONDS ||
+        String(DEFAULTS.readiness.MAX_BLOCK_AGE_SECONDS),
+    ),
+    minGasBalance,
+  };
+}
+
+/**
+ * Parse treasury (gas top-up) configuration from environment variables
+ *
+ * Accounts are topped up when below MINIMUM_GAS_BALANCE (the readiness floor), up to
+ * TREASURY_TARGET_BALANCE (default: twice the minimum). Accounts below
+ * GAS_ALERT_THRESHOLD are alerted on and removed from selection. All three can be
+ * overridden per network.
+ *
+ * @returns Treasury configuration object
+ */
+function parseTreasuryConfig(): TreasuryConfig {
+  const fundingPrivateKey = process.env.TREASURY_FUNDING_PRIVATE_KEY?.trim() || undefined;
+  if (fundingPrivateKey && !/^0x[0-9a-fA-F]{64}$/.test(fundingPrivateKey)) {
+    throw new Error("Invalid TREASURY_FUNDING_PRIVATE_KEY. Must be a 0x-prefixed 32-byte hex key");
+  }
+
+  const minBalance = parseNativeAmountByNetwork(
+    "MINIMUM_GAS_BALANCE",
+    "MIN_GAS_BALANCE",
+    DEFAULTS.readiness.MIN_GAS_BALANCE,
+  );
+  const targetBalance = parseNativeAmountByNetwork(
+    "TREASURY_TARGET_BALANCE",
+    "TREASURY_TARGET_BALANCE",
+  );
+  for (const [network, min] of Object.entries(minBalance)) {
+    targetBalance[network] ??= (BigInt(min) * 2n).toString();
+    if (BigInt(targetBalance[network]) < BigInt(min)) {
+      throw new Error(
+        `Invalid treasury target balance for ${network}: must not be below the minimum gas balance`,
+      );
+    }
+  }
+
+  return {
+    enabled: process.env.TREASURY_ENABLED === "true",
+    checkIntervalMs: parseInt(
+      process.env.TREASURY_CHECK_INTERVAL_MS || String(DEFAULTS.treasury.CHECK_INTERVAL_MS),
+    ),
+    fundingPrivateKey,
+    minBalance,
+    targetBalance,
+    alertThreshold: parseNativeAmountByNetwork(
+      "GAS_ALERT_THRESHOLD",
+      "GAS_ALERT_THRESHOLD",
+      DEFAULTS.treasury.GAS_ALERT_THRESHOLD,
+    ),
+    maxTopUpAmount: process.env.TREASURY_MAX_TOP_UP
+      ? parseNativeAmount("TREASURY_MAX_TOP_UP", process.env.TREASURY_MAX_TOP_UP)
+      : undefined,
+    topUpCooldownMs: parseInt(
+      process.env.TREASURY_TOP_UP_COOLDOWN_MS || String(DEFAULTS.treasury.TOP_UP_COOLDOWN_MS),
+    ),
+  };
+}
+
+/**
+ * Parse signed fee quote configuration from environment variables
+ *
+ * Without FEE_QUOTE_SECRET a random secret is generated, so quotes are only
+ * honoured by the process that issued them.
+ *
+ * @returns Fee quote configuration object
+ */
+function parseFeeQuoteConfig(): FeeQuoteConfig {
+  const secret = process.env.FEE_QUOTE_SECRET?.trim() || undefined;
+  if (secret && secret.length < 16) {
+    throw new Error("FEE_QUOTE_SECRET must be at least 16 characters");
+  }
+
+  const validitySeconds = parseInt(
+    process.env.FEE_QUOTE_VALIDITY_SECONDS || String(DEFAULTS.feeQuote.VALIDITY_SECONDS),
+  );
+  if (!Number.isInteger(validitySeconds) || validitySeconds <= 0) {
+    throw new Error(
+      `Invalid FEE_QUOTE_VALIDITY_SECONDS: ${process.env.FEE_QUOTE_VALIDITY_SECONDS}. Must be a positive integer`,
+    );
+  }
+
+  return {
+    enabled: process.env.FEE_QUOTE_ENABLED
+      ? process.env.FEE_QUOTE_ENABLED !== "false"
+      : DEFAULTS.feeQuote.ENABLED,
+    secret: secret ?? randomBytes(32).toString("hex"),
+    secretGenerated: !secret,
+    validitySeconds,
+  };
+}
+
+/**
+ * Parse an optional positive number from an environment variable
+ *
+ * @param name - Environment variable name
+ * @returns Parsed value, or undefined if unset
+ */
+function parseOptionalPositive(name: string): number | undefined {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Invalid ${name}: ${value}. Must be a positive number`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse spend policy configuration from environment variables
+ *
+ * Every limit is optional; payments are only evaluated against the limits that are set.
+ *
+ * @returns Spend policy configuration object
+ */
+function parseSpendPolicyConfig(): SpendPolicyConfig {
+  const denylist = (process.env.SPEND_DENYLIST || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  for (const address of denylist) {
+    if (!isAddress(address, { strict: false })) {
+      throw new Error(`Invalid SPEND_DENYLIST address: ${address}`);
+    }
+  }
+
+  const payerMaxPayments = parseOptionalPositive("SPEND_LIMIT_PAYER_MAX_PAYMENTS");
+  if (payerMaxPayments !== undefined && !Number.isInteger(payerMaxPayments)) {
+    throw new Error(
+      `Invalid SPEND_LIMIT_PAYER_MAX_PAYMENTS: ${payerMaxPayments}. Must be a positive integer`,
+    );
+  }
+
+  return {
+    denylist: denylist.map((address) => address.toLowerCase()),
+    maxPaymentUsd: parseOptionalPositive("SPEND_LIMIT_MAX_PAYMENT_USD"),
+    payerVolumeUsd: parseOptionalPositive("SPEND_LIMIT_PAYER_VOLUME_USD"),
+    payToVolumeUsd: parseOptionalPositive("SPEND_LIMIT_PAYTO_VOLUME_USD"),
+    volumeWindowSeconds:
+      parseOptionalPositive("SPEND_LIMIT_VOLUME_WINDOW_SECONDS") ??
+      DEFAULTS.spendPolicy.VOLUME_WINDOW_SECONDS,
+    payerMaxPayments,
+    velocityWindowSeconds:
+      parseOptionalPositive("SPEND_LIMIT_VELOCITY_WINDOW_SECONDS") ??
+      DEFAULTS.spendPolicy.VELOCITY_WINDOW_SECONDS,
+  };
+}
+
+/**
+ * Parse batch settlement configuration from environment variables
+ *
+ * @returns Batch settlement configuration object
+ */
+function parseBatchSettlementConfig(): BatchSettlementConfig {
+  const maxSize =
+    parseOptionalPositive("BATCH_SETTLEMENT_MAX_SIZE") ?? DEFAULTS.batchSettlement.MAX_SIZE;
+  if (!Number.isInteger(maxSize)) {
+    throw new Error(`Invalid BATCH_SETTLEMENT_MAX_SIZE: ${maxSize}. Must be a positive integer`);
+  }
+
+  return {
+    enabled: process.env.BATCH_SETTLEMENT_ENABLED
+      ? process.env.BATCH_SETTLEMENT_ENABLED === "true"
+      : DEFAULTS.batchSettlement.ENABLED,
+    windowMs:
+      parseOptionalPositive("BATCH_SETTLEMENT_WINDOW_MS") ?? DEFAULTS.batchSettlement.WINDOW_MS,
+    maxSize,
+  };
+}
+
+/**
+ * Parse configuration reload settings from environment variables
+ *
+ * @returns Configuration reload configuration object
+ */
+function parseConfigReloadConfig(): ConfigReloadConfig {
+  return {
+    filePath: process.env.CONFIG_FILE?.trim() || undefined,
+    debounceMs:
+      parseOptionalPositive("CONFIG_RELOAD_DEBOUNCE_MS") ?? DEFAULTS.configReload.DEBOUNCE_MS,
+  };
+}
+
+/**
+ * Environment values the config file overlay replaced (undefined: the variable was unset)
+ */
+const envBeforeConfigFile = new Map<string, string | undefined>();
+
+/**
+ * Read and validate a config file
+ *
+ * The file is a JSON object of environment variable overrides, e.g.
+ * `{ "RATE_LIMIT_SETTLE_MAX": 50, "BASE_SEPOLIA_SETTLEMENT_ROUTER_ADDRESS": "0x..." }`.
+ * Every problem found is reported in the thrown error, not just the first.
+ *
+ * @param filePath - Path of the config file
+ * @returns Environment variable overrides
+ */
+export function readConfigFile(filePath: string): Record<string, string> {
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid CONFIG_FILE ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (typeof content !== "object" || content === null || Array.isArray(content)) {
+    throw new Error(`Invalid CONFIG_FILE ${filePath}: expected a JSON object`);
+  }
+
+  const overrides: Record<string, string> = {};
+  const issues: string[] = [];
+  for (const [key, value] of Object.entries(content)) {
+    if (!/^[A-Z][A-Z0-9_]*$/.test(key)) {
+      issues.push(`${key}: not an environment variable name`);
+    } else if (key === "CONFIG_FILE" || key === "CONFIG_RELOAD_DEBOUNCE_MS") {
+      issues.push(`${key}: can only be set in the environment`);
+    } else if (!["string", "number", "boolean"].includes(typeof value)) {
+      issues.push(`${key}: expected a string, number or boolean`);
+    } else {
+      overrides[key] = String(value);
+    }
+  }
+  if (issues.length > 0) {
+    throw new Error(`Invalid CONFIG_FILE ${filePath}:\n  - ${issues.join("\n  - ")}`);
+  }
+
+  return overrides;
+}
+
+/**
+ * Overlay the config file on the environment, replacing the previous overlay
+ *
+ * Variables the previous version of the file set but this one doesn't go back to their
+ * environment values.
+ *
+ * @param filePath - Path of the config file
+ * @returns Function restoring the environment (and overlay) as it was before this call
+ */
+function applyConfigFile(filePath: string): () => void {
+  const overrides = readConfigFile(filePath);
+  const previousEnv = { ...process.env };
+  const previousOverlay = new Map(envBeforeConfigFile);
+
+  for (const [key, value] of envBeforeConfigFile) {
+    setEnv(key, value);
+  }
+  envBeforeConfigFile.clear();
+  for (const [key, value] of Object.entries(overrides)) {
+    envBeforeConfigFile.set(key, process.env[key]);
+    process.env[key] = value;
+  }
+
+  return () => {
+    for (const key of Object.keys(process.env)) {
+      if (!(key in previousEnv)) {
+        delete process.env[key];
+      }
+    }
+    Object.assign(process.env, previousEnv);
+    envBeforeConfigFile.clear();
+    previousOverlay.forEach((value, key) => envBeforeConfigFile.set(key, value));
+  };
+}
+
+/**
+ * Set or unset an environment variable
+ *
+ * @param key - Variable name
+ * @param value - Value, or undefined to unset
+ */
+function setEnv(key: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[key];
+  } else {
+    process.env[key] = value;
+  }
+}
+
 /**
  * Load and parse all application configuration
  *
+ * When CONFIG_FILE is set, the file is read again and overlaid on the environment first, so
+ * calling this again picks up file changes. If the configuration is invalid, the environment
+ * is left as it was and the error is thrown.
+ *
  * @returns Complete application configuration object
  */
 export async function loadConfig(): Promise<AppConfig> {
+  return (await loadConfigWithRollback()).config;
+}
+
+/**
+ * Load and parse all application configuration, keeping a way to undo the config file overlay
+ *
+ * Used by reloads: a configuration that parses but is then rejected while applying must not
+ * leave its values in the environment.
+ *
+ * @returns Configuration and a function restoring the environment as it was before loading
+ */
+export async function loadConfigWithRollback(): Promise<{
+  config: AppConfig;
+  rollback: () => void;
+}> {
+  const configReload = parseConfigReloadConfig();
+  const restoreEnv = configReload.filePath ? applyConfigFile(configReload.filePath) : undefined;
+
+  try {
+    return { config: await parseConfig(configReload), rollback: () => restoreEnv?.() };
+  } catch (error) {
+    restoreEnv?.();
+    throw error;
+  }
+}
+
+/**
+ * Parse all application configuration from environment variables
+ *
+ * @param configReload - Configuration reload settings
+ * @returns Complete application configuration object
+ */
+async function parseConfig(configReload: ConfigReloadConfig): Promise<AppConfig> {
   return {
     cache: parseCacheConfig(),
     accountPool: parseAccountPoolConfig(),
@@ -580,5 +1398,16 @@ export async function loadConfig(): Promise<AppConfig> {
     tokenPrice: parseTokenPriceConfig(),
     feeClaim: parseFeeClaimConfig(),
     gasEstimation: parseGasEstimationConfig(),
+    admin: parseAdminConfig(),
+    ledger: parseLedgerConfig(),
+    asyncSettlement: parseAsyncSettlementConfig(),
+    locks: parseLockConfig(),
+    hookValidators: parseHookValidatorConfig(),
+    readiness: parseReadinessConfig(),
+    treasury: parseTreasuryConfig(),
+    feeQuote: parseFeeQuoteConfig(),
+    spendPolicy: parseSpendPolicyConfig(),
+    batchSettlement: parseBatchSettlementConfig(),
+    configReload,
   };
 }
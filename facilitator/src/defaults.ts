@@ -37,6 +37,9 @@ export const GAS_COST_DEFAULTS = {
 
   /** Minimum facilitator fee in USD */
   MIN_FACILITATOR_FEE_USD: 0.01,
+
+  /** Hook code hash cache TTL (seconds) */
+  HOOK_CODE_HASH_CACHE_TTL: 3600,
 } as const;
 
 /**
@@ -52,8 +55,14 @@ export const CACHE_DEFAULTS = {
   /** Token metadata cache TTL (seconds) */
   TTL_TOKEN_METADATA: 3600,
 
-  /** Maximum number of cache keys */
+  /** Maximum number of cache keys (memory backend) */
   MAX_KEYS: 1000,
+
+  /** Cache backend: "memory" (per replica) or "redis" (shared across replicas) */
+  BACKEND: "memory",
+
+  /** Key prefix for entries written to Redis */
+  REDIS_KEY_PREFIX: "x402x:",
 } as const;
 
 /**
@@ -96,6 +105,21 @@ export const ACCOUNT_POOL_DEFAULTS = {
 
   /** Maximum queue depth per account (prevent request accumulation) */
   MAX_QUEUE_DEPTH: 10,
+
+  /** Replace transactions that are not mined in time */
+  STUCK_TX_ENABLED: true,
+
+  /** Seconds without being mined before a transaction is replaced */
+  STUCK_TX_TIMEOUT_SECONDS: 60,
+
+  /** Fee increase per replacement (nodes require at least 10%) */
+  STUCK_TX_FEE_BUMP_PERCENT: 20,
+
+  /** Replacements before giving up on a transaction */
+  STUCK_TX_MAX_REPLACEMENTS: 3,
+
+  /** Receipt polling interval while waiting for a managed transaction */
+  STUCK_TX_POLL_INTERVAL_MS: 2000,
 } as const;
 
 /**
@@ -143,6 +167,24 @@ export const TOKEN_PRICE_DEFAULTS = {
 
   /** Background update interval (seconds) */
   UPDATE_INTERVAL: 600,
+
+  /** Price sources in priority order (coingecko, chainlink, twap, static) */
+  SOURCES: "coingecko",
+
+  /** Aggregation of quotes from several sources (priority or median) */
+  AGGREGATION: "priority",
+
+  /** Quotes older than this are ignored (seconds) */
+  MAX_PRICE_AGE_SECONDS: 3600,
+
+  /** Alert when a source deviates from the median by more than this (%) */
+  MAX_DEVIATION_PERCENT: 5,
+
+  /** Timeout for a single price source */
+  SOURCE_TIMEOUT_MS: 5000,
+
+  /** Default DEX TWAP window (seconds) */
+  TWAP_WINDOW_SECONDS: 1800, // 30 minutes
 } as const;
 
 /**
@@ -155,6 +197,9 @@ export const NATIVE_TOKEN_PRICE_DEFAULTS = {
   /** OKB price for X-Layer networks */
   OKB: 50,
 
+  /** BNB price for BSC networks */
+  BNB: 600,
+
   /** Generic fallback */
   GENERIC: 100,
 } as const;
@@ -174,12 +219,155 @@ export const GAS_PRICE_DEFAULTS = {
  * Fee claim default configuration
  */
 export const FEE_CLAIM_DEFAULTS = {
-  /** Minimum claim amount for USDC (6 decimals): 1 USDC = 1,000,000. 
+  /** Minimum claim amount for USDC (6 decimals): 1 USDC = 1,000,000.
    *  If using a token with different decimals, adjust this value accordingly (e.g., 1e18 for 18-decimal tokens).
    */
   MIN_CLAIM_AMOUNT_USDC: "1000000", // 1 USDC (6 decimals)
 } as const;
 
+/**
+ * Admin API default configuration
+ */
+export const ADMIN_DEFAULTS = {
+  /** Maximum clock skew accepted for signed admin requests (seconds) */
+  SIGNATURE_MAX_SKEW_SECONDS: 300,
+
+  /** Number of audit entries kept in memory for GET /admin/audit */
+  AUDIT_LOG_SIZE: 1000,
+} as const;
+
+/**
+ * Settlement ledger default configuration
+ */
+export const LEDGER_DEFAULTS = {
+  /** Ledger enabled by default so repeated settle requests are idempotent */
+  ENABLED: true,
+
+  /** Backing store: "file" (durable) or "memory" */
+  STORE: "file",
+
+  /** JSON lines file used by the file store (relative to the working directory) */
+  FILE_PATH: "data/settlement-ledger.jsonl",
+} as const;
+
+/**
+ * Async settlement default configuration
+ */
+export const ASYNC_SETTLEMENT_DEFAULTS = {
+  /** Clients may request async settlement unless disabled */
+  ENABLED: true,
+
+  /** Maximum number of jobs kept in memory */
+  MAX_JOBS: 10000,
+
+  /** Seconds a finished job stays queryable via GET /settle/:id */
+  JOB_TTL_SECONDS: 3600, // 1 hour
+
+  /** Timeout per webhook attempt */
+  WEBHOOK_TIMEOUT_MS: 5000,
+
+  /** Webhook delivery attempts (exponential backoff between attempts) */
+  WEBHOOK_MAX_ATTEMPTS: 5,
+} as const;
+
+/**
+ * Settlement lock default configuration
+ */
+export const LOCK_DEFAULTS = {
+  /** Lock backend: "memory" (single instance) or "redis" (shared across replicas) */
+  BACKEND: "memory",
+
+  /** Key prefix for locks written to Redis */
+  REDIS_KEY_PREFIX: "x402x:lock:",
+
+  /** Lock lifetime; held locks are renewed, so this is how long a crashed replica blocks a payer */
+  TTL_MS: 30000, // 30 seconds
+
+  /** Renewal stops once a lock has been held this long, so a stuck settlement can't hold it forever */
+  MAX_HOLD_MS: 600000, // 10 minutes
+} as const;
+
+/**
+ * Readiness probe default configuration
+ */
+export const READINESS_DEFAULTS = {
+  /** Probe RPC endpoints and account balances for GET /ready */
+  ENABLED: true,
+
+  /** Interval between network probes */
+  PROBE_INTERVAL_MS: 30000, // 30 seconds
+
+  /** Timeout for a single network probe */
+  PROBE_TIMEOUT_MS: 5000,
+
+  /** Latest block older than this marks the network's RPC as stale */
+  MAX_BLOCK_AGE_SECONDS: 120,
+
+  /** Minimum native balance per facilitator account (in native token units) */
+  MIN_GAS_BALANCE: "0.001",
+} as const;
+
+/**
+ * Treasury (gas top-up) default configuration
+ */
+export const TREASURY_DEFAULTS = {
+  /** Watch pool account balances and top them up (opt-in) */
+  ENABLED: false,
+
+  /** Interval between balance checks */
+  CHECK_INTERVAL_MS: 60000, // 1 minute
+
+  /** Below this native balance an account is alerted on and removed from selection */
+  GAS_ALERT_THRESHOLD: "0.0005",
+
+  /** Minimum time between two top-ups of the same account */
+  TOP_UP_COOLDOWN_MS: 300000, // 5 minutes
+} as const;
+
+/**
+ * Signed fee quote default configuration
+ */
+export const FEE_QUOTE_DEFAULTS = {
+  /** Return a signed quote from /calculate-fee and honour it at verify/settle time */
+  ENABLED: true,
+
+  /** How long a quoted fee is honoured */
+  VALIDITY_SECONDS: 60,
+} as const;
+
+/**
+ * Spend policy default configuration (limits themselves are unset by default)
+ */
+export const SPEND_POLICY_DEFAULTS = {
+  /** Window for per-payer and per-recipient USD volume limits */
+  VOLUME_WINDOW_SECONDS: 86400, // 1 day
+
+  /** Window for the per-payer payment count limit */
+  VELOCITY_WINDOW_SECONDS: 3600, // 1 hour
+} as const;
+
+/**
+ * Batch settlement default configuration
+ */
+export const BATCH_SETTLEMENT_DEFAULTS = {
+  /** Settle router payments one transaction each unless enabled */
+  ENABLED: false,
+
+  /** How long payments accumulate before a batch is submitted */
+  WINDOW_MS: 2000,
+
+  /** Batch is submitted early once it holds this many payments */
+  MAX_SIZE: 20,
+} as const;
+
+/**
+ * Configuration reload defaults
+ */
+export const CONFIG_RELOAD_DEFAULTS = {
+  /** Quiet period after a config file change before it is reloaded (editors write in bursts) */
+  DEBOUNCE_MS: 500,
+} as const;
+
 /**
  * Complete default configuration type
  */
@@ -195,6 +383,16 @@ export interface DefaultConfig {
   nativeTokenPrice: typeof NATIVE_TOKEN_PRICE_DEFAULTS;
   gasPrice: typeof GAS_PRICE_DEFAULTS;
   feeClaim: typeof FEE_CLAIM_DEFAULTS;
+  admin: typeof ADMIN_DEFAULTS;
+  ledger: typeof LEDGER_DEFAULTS;
+  asyncSettlement: typeof ASYNC_SETTLEMENT_DEFAULTS;
+  locks: typeof LOCK_DEFAULTS;
+  readiness: typeof READINESS_DEFAULTS;
+  treasury: typeof TREASURY_DEFAULTS;
+  feeQuote: typeof FEE_QUOTE_DEFAULTS;
+  spendPolicy: typeof SPEND_POLICY_DEFAULTS;
+  batchSettlement: typeof BATCH_SETTLEMENT_DEFAULTS;
+  configReload: typeof CONFIG_RELOAD_DEFAULTS;
 }
 
 /**
@@ -212,4 +410,14 @@ export const DEFAULTS: DefaultConfig = {
   nativeTokenPrice: NATIVE_TOKEN_PRICE_DEFAULTS,
   gasPrice: GAS_PRICE_DEFAULTS,
   feeClaim: FEE_CLAIM_DEFAULTS,
+  admin: ADMIN_DEFAULTS,
+  ledger: LEDGER_DEFAULTS,
+  asyncSettlement: ASYNC_SETTLEMENT_DEFAULTS,
+  locks: LOCK_DEFAULTS,
+  readiness: READINESS_DEFAULTS,
+  treasury: TREASURY_DEFAULTS,
+  feeQuote: FEE_QUOTE_DEFAULTS,
+  spendPolicy: SPEND_POLICY_DEFAULTS,
+  batchSettlement: BATCH_SETTLEMENT_DEFAULTS,
+  configReload: CONFIG_RELOAD_DEFAULTS,
 } as const;
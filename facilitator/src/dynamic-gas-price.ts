@@ -8,6 +8,7 @@
 import { createPublicClient, http, type PublicClient } from "viem";
 import { getLogger } from "./telemetry.js";
 import type { GasCostConfig } from "./gas-cost.js";
+import { createMemoryCache, type CacheInterface } from "./cache/index.js";
 
 const logger = getLogger();
 
@@ -20,9 +21,14 @@ interface GasPriceCacheEntry {
 }
 
 /**
- * Gas price cache (in-memory)
+ * Gas price cache, keyed by network (in-memory unless replaced by setGasPriceCache)
  */
-const gasPriceCache = new Map<string, GasPriceCacheEntry>();
+let gasPriceCache: CacheInterface = createMemoryCache({ stdTTL: 60, maxKeys: 100 });
+
+/**
+ * Networks written to the gas price cache by this process (for stats and clearing)
+ */
+const cachedNetworks = new Set<string>();
 
 /**
  * Gas price strategy
@@ -39,6 +45,16 @@ export interface DynamicGasPriceConfig {
   rpcUrls: Record<string, string>; // network -> RPC URL
 }
 
+/**
+ * Use a shared cache backend for gas prices so replicas reuse each other's lookups
+ *
+ * @param cache - Cache implementation to store gas prices in
+ */
+export function setGasPriceCache(cache: CacheInterface): void {
+  gasPriceCache = cache;
+  cachedNetworks.clear();
+}
+
 /**
  * Get gas price based on strategy
  *
@@ -96,7 +112,7 @@ async function getDynamicGasPrice(
   dynamicConfig?: DynamicGasPriceConfig,
 ): Promise<string> {
   // Check cache first
-  const cached = gasPriceCache.get(network);
+  const cached = await gasPriceCache.get<GasPriceCacheEntry>(network);
   if (cached && dynamicConfig) {
     const age = (Date.now() - cached.timestamp) / 1000;
     if (age < dynamicConfig.cacheTTL) {
@@ -120,10 +136,12 @@ async function getDynamicGasPrice(
     const gasPriceStr = gasPrice.toString();
 
     // Update cache
-    gasPriceCache.set(network, {
-      gasPrice: gasPriceStr,
-      timestamp: Date.now(),
-    });
+    await gasPriceCache.set<GasPriceCacheEntry>(
+      network,
+      { gasPrice: gasPriceStr, timestamp: Date.now() },
+      dynamicConfig?.cacheTTL,
+    );
+    cachedNetworks.add(network);
 
     logger.debug({ network, gasPrice: gasPriceStr }, "Fetched gas price from chain");
 
@@ -212,23 +230,27 @@ export function startGasPriceUpdater(
  *
  * @param network - Optional network name (clears all if not specified)
  */
-export function clearGasPriceCache(network?: string): void {
+export async function clearGasPriceCache(network?: string): Promise<void> {
   if (network) {
-    gasPriceCache.delete(network);
+    await gasPriceCache.del(network);
+    cachedNetworks.delete(network);
     logger.debug({ network }, "Cleared gas price cache for network");
   } else {
-    gasPriceCache.clear();
+    await gasPriceCache.flush();
+    cachedNetworks.clear();
     logger.debug("Cleared all gas price cache");
   }
 }
 
 /**
- * Get gas price cache statistics
+ * Get gas price cache statistics for networks cached by this process
  */
-export function getGasPriceCacheStats() {
+export async function getGasPriceCacheStats() {
   const stats: Record<string, { gasPrice: string; age: number }> = {};
 
-  for (const [network, entry] of gasPriceCache.entries()) {
+  for (const network of cachedNetworks) {
+    const entry = await gasPriceCache.get<GasPriceCacheEntry>(network);
+    if (!entry) continue;
     stats[network] = {
       gasPrice: entry.gasPrice,
       age: Math.floor((Date.now() - entry.timestamp) / 1000),
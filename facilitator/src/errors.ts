@@ -570,6 +570,20 @@ export class DuplicatePayerError extends FacilitatorError {
   }
 }
 
+/**
+ * Lock unavailable error - thrown when the lock store cannot be reached
+ */
+export class LockUnavailableError extends FacilitatorError {
+  /**
+   * @param message
+   * @param details
+   * @param cause
+   */
+  constructor(message: string, details?: Record<string, unknown>, cause?: Error) {
+    super(message, "LOCK_UNAVAILABLE", true, ErrorSeverity.ERROR, details, cause);
+  }
+}
+
 /**
  * Helper function to classify unknown errors
  *
@@ -7,7 +7,7 @@
 import type { PoolManager } from "./pool-manager.js";
 import { isEvmSignerWallet } from "x402/types";
 import { getLogger } from "./telemetry.js";
-import { getNetworkConfig } from "@x402x/core";
+import { getNetworkAssets, type ClaimFeesRequest } from "@x402x/core";
 import { SETTLEMENT_ROUTER_ABI } from "@x402x/core";
 import type { Address, Hex } from "viem";
 
@@ -39,15 +39,7 @@ export interface PendingFee {
   amountUSD?: string;
 }
 
-/**
- * Fee claim request
- */
-export interface ClaimFeesRequest {
-  /** Networks to claim from (optional, claims from all if not provided) */
-  networks?: string[];
-  /** Tokens to claim (optional, claims all eligible tokens if not provided) */
-  tokens?: string[];
-}
+export type { ClaimFeesRequest };
 
 /**
  * Result of a single claim operation
@@ -120,9 +112,8 @@ export async function getPendingFees(
       const accountInfos = pool.getAccountsInfo();
       const facilitatorAddresses = accountInfos.map((info) => info.address);
 
-      // Get network configuration to determine supported tokens
-      const networkConfig = getNetworkConfig(network);
-      const supportedTokens = [networkConfig.defaultAsset.address]; // Currently only USDC is supported
+      // Claim fees in every asset accepted for settlement on this network
+      const supportedTokens = getNetworkAssets(network).map((asset) => asset.address);
 
       // Query pending fees for each facilitator address and supported token
       for (const facilitatorAddress of facilitatorAddresses) {
@@ -148,7 +139,7 @@ export async function getPendingFees(
             });
 
             // Apply minimum threshold
-            const minAmount = config.minClaimAmount[tokenAddress] || 0n;
+            const minAmount = config.minClaimAmount[tokenAddress.toLowerCase()] || 0n;
             if (amount >= minAmount && amount > 0n) {
               pendingFees.push({
                 network,
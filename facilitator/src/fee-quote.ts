@@ -0,0 +1,167 @@
+/**
+ * Signed Fee Quotes
+ *
+ * /calculate-fee returns a quote id binding the quoted fee to network, hook,
+ * hookData and asset. Clients pass it back as `extra.feeQuoteId`; fee validation
+ * honours the quoted fee until the quote expires, so a gas or price move between
+ * quoting and settling does not reject a payment the facilitator already priced.
+ *
+ * Quotes are stateless: `base64url(payload).base64url(HMAC-SHA256(payload))`.
+ * Replicas must share FEE_QUOTE_SECRET to honour each other's quotes.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { isHex, keccak256, type Hex } from "viem";
+
+/**
+ * Fee quote configuration
+ */
+export interface FeeQuoteConfig {
+  /** Issue quotes from /calculate-fee and honour them in fee validation */
+  enabled: boolean;
+  /** HMAC secret used to sign quotes */
+  secret: string;
+  /** Whether the secret was generated at startup (quotes do not survive restarts or cross replicas) */
+  secretGenerated: boolean;
+  /** How long a quote is honoured */
+  validitySeconds: number;
+}
+
+/**
+ * Settlement parameters a quote is bound to
+ */
+export interface FeeQuoteTerms {
+  network: string;
+  hook: string;
+  hookData: string;
+  asset: string;
+  /** Quoted facilitator fee (smallest asset unit) */
+  fee: string;
+}
+
+/**
+ * Signed quote payload
+ */
+export interface FeeQuote {
+  network: string;
+  /** Lowercased hook address */
+  hook: string;
+  /** keccak256 of the hookData ("0x" when empty) */
+  hookDataHash: string;
+  /** Lowercased asset address */
+  asset: string;
+  fee: string;
+  /** Unix timestamp (seconds) */
+  issuedAt: number;
+  /** Unix timestamp (seconds) */
+  expiresAt: number;
+}
+
+/**
+ * Result of checking a quote against a payment
+ */
+export type FeeQuoteCheck = { valid: true; quote: FeeQuote } | { valid: false; reason: string };
+
+/**
+ * Sign a fee quote
+ *
+ * @param config - Fee quote configuration
+ * @param terms - Settlement parameters and quoted fee
+ * @param now - Current time in milliseconds (overridable for tests)
+ * @returns Quote id and the decoded quote
+ */
+export function signFeeQuote(
+  config: FeeQuoteConfig,
+  terms: FeeQuoteTerms,
+  now = Date.now(),
+): { id: string; quote: FeeQuote } {
+  const issuedAt = Math.floor(now / 1000);
+  const quote: FeeQuote = {
+    network: terms.network,
+    hook: terms.hook.toLowerCase(),
+    hookDataHash: hashHookData(terms.hookData),
+    asset: terms.asset.toLowerCase(),
+    fee: terms.fee,
+    issuedAt,
+    expiresAt: issuedAt + config.validitySeconds,
+  };
+
+  const payload = Buffer.from(JSON.stringify(quote)).toString("base64url");
+  return { id: `${payload}.${sign(config.secret, payload)}`, quote };
+}
+
+/**
+ * Check that a quote id was issued by this facilitator, has not expired and
+ * covers the payment's settlement parameters
+ *
+ * @param config - Fee quote configuration
+ * @param id - Quote id from `extra.feeQuoteId`
+ * @param terms - Settlement parameters and fee of the payment
+ * @param now - Current time in milliseconds (overridable for tests)
+ * @returns The quote if it can be honoured, otherwise the reason it cannot
+ */
+export function checkFeeQuote(
+  config: FeeQuoteConfig,
+  id: string,
+  terms: FeeQuoteTerms,
+  now = Date.now(),
+): FeeQuoteCheck {
+  const [payload, signature, ...rest] = id.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const expected = Buffer.from(sign(config.secret, payload));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, reason: "bad_signature" };
+  }
+
+  let quote: FeeQuote;
+  try {
+    quote = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  if (Math.floor(now / 1000) > quote.expiresAt) {
+    return { valid: false, reason: "expired" };
+  }
+
+  if (
+    (terms.hookData && !isHex(terms.hookData)) ||
+    quote.network !== terms.network ||
+    quote.hook !== terms.hook.toLowerCase() ||
+    quote.hookDataHash !== hashHookData(terms.hookData) ||
+    quote.asset !== terms.asset.toLowerCase()
+  ) {
+    return { valid: false, reason: "terms_mismatch" };
+  }
+
+  if (BigInt(terms.fee) < BigInt(quote.fee)) {
+    return { valid: false, reason: "fee_below_quote" };
+  }
+
+  return { valid: true, quote };
+}
+
+/**
+ * HMAC a quote payload
+ *
+ * @param secret - Signing secret
+ * @param payload - base64url-encoded quote
+ * @returns base64url-encoded HMAC-SHA256
+ */
+function sign(secret: string, payload: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Hash hookData so quotes stay short regardless of its size
+ *
+ * @param hookData - Hex-encoded hook data (empty string treated as "0x")
+ * @returns keccak256 hash
+ */
+function hashHookData(hookData: string): string {
+  return keccak256((hookData || "0x") as Hex);
+}
@@ -6,9 +6,10 @@
  */
 
 import { getLogger } from "./telemetry.js";
-import { getNetworkConfig } from "@x402x/core";
+import { getNetworkConfig, type AssetConfig } from "@x402x/core";
 import { getGasPrice, type DynamicGasPriceConfig } from "./dynamic-gas-price.js";
-import { getTokenPrice, type TokenPriceConfig } from "./token-price.js";
+import { getAssetPrice, getTokenPrice, type TokenPriceConfig } from "./token-price.js";
+import { getCachedHookCodeHash, getHookCodeHash } from "./hook-code-hash.js";
 
 const logger = getLogger();
 
@@ -35,6 +36,8 @@ export interface GasCostConfig {
   // Hook Security
   hookWhitelistEnabled: boolean; // Enable hook whitelist validation (default: false)
   allowedHooks: Record<string, string[]>; // Whitelist of allowed hook addresses per network
+  allowedHookCodeHashes: string[]; // Whitelist of allowed hook runtime bytecode hashes (all networks)
+  hookCodeHashCacheTTL: number; // Hook code hash cache TTL in seconds (default: 3600)
 
   // Fallback Prices (used when dynamic pricing is unavailable)
   networkGasPrice: Record<string, string>; // Static gas prices per network (Wei)
@@ -55,29 +58,106 @@ export interface FeeCalculationResult {
   safetyMultiplier: number;
   finalCostUSD: string;
   hookAllowed: boolean;
+  hookAllowedReason?: HookAllowedReason;
   hookType?: string;
 }
 
 /**
- * Check if a hook is in the whitelist
+ * Why a hook passed the whitelist
+ * - whitelist_disabled: hook whitelist is not enabled
+ * - address: hook address is whitelisted for the network
+ * - code_hash: hook runtime bytecode hash is whitelisted
+ */
+export type HookAllowedReason = "whitelist_disabled" | "address" | "code_hash";
+
+/**
+ * Hook whitelist check result
+ */
+export interface HookAllowance {
+  allowed: boolean;
+  reason?: HookAllowedReason;
+}
+
+/**
+ * Match a hook against the whitelist
  *
  * @param network - Network name
  * @param hook - Hook address
  * @param config - Gas cost configuration
- * @returns True if hook is allowed
+ * @param codeHash - Hook runtime bytecode hash, if known
+ * @returns Whitelist check result
  */
-export function isHookAllowed(network: string, hook: string, config: GasCostConfig): boolean {
+function matchHookWhitelist(
+  network: string,
+  hook: string,
+  config: GasCostConfig,
+  codeHash?: string,
+): HookAllowance {
   // If whitelist is disabled, all hooks are allowed
   if (!config.hookWhitelistEnabled) {
-    return true;
+    return { allowed: true, reason: "whitelist_disabled" };
   }
 
-  // Get allowed hooks for the network
-  const allowedHooks = config.allowedHooks[network] || [];
-
   // Check if hook is in whitelist (case-insensitive)
+  const allowedHooks = config.allowedHooks[network] || [];
   const hookLower = hook.toLowerCase();
-  return allowedHooks.some((allowed) => allowed.toLowerCase() === hookLower);
+  if (allowedHooks.some((allowed) => allowed.toLowerCase() === hookLower)) {
+    return { allowed: true, reason: "address" };
+  }
+
+  if (codeHash && (config.allowedHookCodeHashes ?? []).includes(codeHash.toLowerCase())) {
+    return { allowed: true, reason: "code_hash" };
+  }
+
+  return { allowed: false };
+}
+
+/**
+ * Check if a hook is in the whitelist, fetching its code hash when needed
+ *
+ * Hooks whose address is not whitelisted are matched by the keccak256 hash of their
+ * runtime bytecode, so redeployments of an approved hook need no config changes.
+ * If the bytecode cannot be fetched, the hook is treated as not allowed.
+ *
+ * @param network - Network name
+ * @param hook - Hook address
+ * @param config - Gas cost configuration
+ * @param rpcUrls - Optional custom RPC URLs by network
+ * @returns Whitelist check result
+ */
+export async function checkHookAllowed(
+  network: string,
+  hook: string,
+  config: GasCostConfig,
+  rpcUrls?: Record<string, string>,
+): Promise<HookAllowance> {
+  const result = matchHookWhitelist(network, hook, config);
+  if (result.allowed || !config.allowedHookCodeHashes?.length) {
+    return result;
+  }
+
+  try {
+    const codeHash = await getHookCodeHash(network, hook, rpcUrls, config.hookCodeHashCacheTTL);
+    return matchHookWhitelist(network, hook, config, codeHash);
+  } catch (error) {
+    logger.warn({ error, network, hook }, "Failed to fetch hook code hash");
+    return result;
+  }
+}
+
+/**
+ * Check if a hook is in the whitelist (without RPC calls)
+ *
+ * Code hash matches are only known after `checkHookAllowed` fetched the hook's bytecode.
+ *
+ * @param network - Network name
+ * @param hook - Hook address
+ * @param config - Gas cost configuration
+ * @returns True if hook is allowed
+ */
+export function isHookAllowed(network: string, hook: string, config: GasCostConfig): boolean {
+  const codeHash = getCachedHookCodeHash(network, hook, config.hookCodeHashCacheTTL);
+  return matchHookWhitelist(network, hook, config, codeHash).allowed;
 }
 
 /**
@@ -209,10 +289,15 @@ export async function convertNativeToUsd(
  *
  * @param usdAmount - USD amount as string
  * @param decimals - Token decimals
+ * @param tokenPriceUsd - Token price in USD (default: 1 for USD stablecoins)
  * @returns Token amount in smallest unit as string
  */
-export function convertUsdToToken(usdAmount: string, decimals: number): string {
-  const amount = parseFloat(usdAmount) * Math.pow(10, decimals);
+export function convertUsdToToken(
+  usdAmount: string,
+  decimals: number,
+  tokenPriceUsd: number = 1,
+): string {
+  const amount = (parseFloat(usdAmount) / tokenPriceUsd) * Math.pow(10, decimals);
   return Math.ceil(amount).toString();
 }
 
@@ -231,7 +316,9 @@ export function convertUsdToToken(usdAmount: string, decimals: number): string {
  * @param facilitatorFee - Facilitator fee in token's smallest unit (e.g., USDC with 6 decimals)
  * @param gasPrice - Current gas price in Wei
  * @param nativeTokenPrice - Native token price in USD (e.g., ETH price)
+ * @param tokenDecimals - Settlement token decimals
  * @param config - Gas cost configuration
+ * @param tokenPriceUsd - Settlement token price in USD (default: 1 for USD stablecoins)
  * @returns Effective gas limit to use for the transaction
  *
  * @example
@@ -257,10 +344,11 @@ export function calculateEffectiveGasLimit(
   nativeTokenPrice: number,
   tokenDecimals: number,
   config: GasCostConfig,
+  tokenPriceUsd: number = 1,
 ): number {
-  // Convert facilitator fee to USD using dynamic decimals
+  // Convert facilitator fee to USD using dynamic decimals and the token's USD price
   const decimalDivisor = Math.pow(10, tokenDecimals);
-  const feeUSD = parseFloat(facilitatorFee) / decimalDivisor;
+  const feeUSD = (parseFloat(facilitatorFee) / decimalDivisor) * tokenPriceUsd;
 
   // Calculate available amount for gas (after reserving profit margin)
   const availableForGasUSD = feeUSD * (1 - config.dynamicGasLimitMargin);
@@ -302,6 +390,7 @@ export function calculateEffectiveGasLimit(
  * @param config - Gas cost configuration
  * @param dynamicConfig - Optional dynamic gas price configuration
  * @param tokenPriceConfig - Optional token price configuration
+ * @param asset - Optional settlement asset the fee is paid in (default: USD-pegged default asset)
  * @returns Fee calculation result
  * @throws Error if hook is not allowed or calculation fails
  */
@@ -312,9 +401,15 @@ export async function calculateMinFacilitatorFee(
   config: GasCostConfig,
   dynamicConfig?: DynamicGasPriceConfig,
   tokenPriceConfig?: TokenPriceConfig,
+  asset?: AssetConfig,
 ): Promise<FeeCalculationResult> {
   // Check if hook is allowed
-  const hookAllowed = isHookAllowed(network, hook, config);
+  const { allowed: hookAllowed, reason: hookAllowedReason } = await checkHookAllowed(
+    network,
+    hook,
+    config,
+    dynamicConfig?.rpcUrls,
+  );
   if (!hookAllowed) {
     throw new Error(
       `Hook ${hook} is not in whitelist for network ${network}. ` +
@@ -358,8 +453,9 @@ export async function calculateMinFacilitatorFee(
     );
   }
 
-  // Convert to token smallest unit
-  const minFacilitatorFee = convertUsdToToken(finalCostUSD, tokenDecimals);
+  // Convert to token smallest unit (non-USD assets are converted at their current USD price)
+  const tokenPriceUsd = asset ? await getAssetPrice(asset, tokenPriceConfig) : 1;
+  const minFacilitatorFee = convertUsdToToken(finalCostUSD, tokenDecimals, tokenPriceUsd);
 
   logger.debug(
     {
@@ -371,6 +467,8 @@ export async function calculateMinFacilitatorFee(
       gasCostNative,
       gasCostUSD,
       finalCostUSD,
+      asset: asset?.symbol,
+      tokenPriceUsd,
       minFacilitatorFee,
     },
     "Calculated minimum facilitator fee",
@@ -392,6 +490,7 @@ export async function calculateMinFacilitatorFee(
     safetyMultiplier: config.safetyMultiplier,
     finalCostUSD,
     hookAllowed,
+    hookAllowedReason,
     hookType,
   };
 }
@@ -44,6 +44,7 @@ export interface GasMetrics {
  * @param network - Network name
  * @param nativeTokenPriceUSD - Native token price in USD (optional, defaults to 0)
  * @param tokenDecimals - Token decimals (e.g., 6 for USDC, defaults to 6)
+ * @param tokenPriceUSD - Settlement token price in USD (defaults to 1 for USD stablecoins)
  * @returns Gas metrics for monitoring
  *
  * Note: This function is currently only used for EVM chains where native tokens
@@ -57,6 +58,7 @@ export function calculateGasMetrics(
   network: string,
   nativeTokenPriceUSD = "0",
   tokenDecimals = 6, // Default to USDC decimals
+  tokenPriceUSD = 1,
 ): GasMetrics {
   // Extract gas information from receipt
   const gasUsed = receipt.gasUsed.toString();
@@ -84,7 +86,10 @@ export function calculateGasMetrics(
   const actualGasCostUSD = (parseFloat(actualGasCostNative) * nativePrice).toFixed(6);
 
   // Calculate facilitator fee in USD using provided token decimals
-  const facilitatorFeeUSD = (parseFloat(facilitatorFee) / Math.pow(10, tokenDecimals)).toFixed(6);
+  const facilitatorFeeUSD = (
+    (parseFloat(facilitatorFee) / Math.pow(10, tokenDecimals)) *
+    tokenPriceUSD
+  ).toFixed(6);
 
   // Calculate profit/loss
   const profitUSD = (parseFloat(facilitatorFeeUSD) - parseFloat(actualGasCostUSD)).toFixed(6);
@@ -0,0 +1,125 @@
+/**
+ * Hook Code Hash Module
+ *
+ * Fetches the runtime bytecode of hook contracts and caches its keccak256 hash, so
+ * hooks can be identified by the code they run rather than the address they live at.
+ * Every deployment of the same audited hook shares one code hash.
+ */
+
+import { createPublicClient, http, keccak256, type Address, type PublicClient } from "viem";
+import { evm } from "x402/types";
+import { getLogger } from "./telemetry.js";
+import { DEFAULTS } from "./defaults.js";
+
+const logger = getLogger();
+
+/**
+ * Code hash cache entry
+ */
+interface CodeHashCacheEntry {
+  codeHash: string;
+  timestamp: number;
+}
+
+/**
+ * Code hash cache (in-memory), keyed by network:address
+ */
+const codeHashCache = new Map<string, CodeHashCacheEntry>();
+
+/**
+ * Public clients per network
+ */
+const clients = new Map<string, PublicClient>();
+
+/**
+ * Build the cache key for a hook
+ *
+ * @param network - Network name
+ * @param hook - Hook address
+ * @returns Cache key
+ */
+function cacheKey(network: string, hook: string): string {
+  return `${network}:${hook.toLowerCase()}`;
+}
+
+/**
+ * Get (or create) the public client for a network
+ *
+ * @param network - Network name
+ * @param rpcUrls - Optional custom RPC URLs by network
+ * @returns Public client
+ */
+function getClient(network: string, rpcUrls?: Record<string, string>): PublicClient {
+  let client = clients.get(network);
+  if (!client) {
+    const chain = evm.getChainFromNetwork(network);
+    client = createPublicClient({
+      chain,
+      transport: http(rpcUrls?.[network] || chain.rpcUrls?.default?.http?.[0]),
+    }) as PublicClient;
+    clients.set(network, client);
+  }
+  return client;
+}
+
+/**
+ * Get a cached hook code hash without RPC calls
+ *
+ * @param network - Network name
+ * @param hook - Hook address
+ * @param cacheTTL - Cache TTL in seconds
+ * @returns Code hash, or undefined if not cached (or expired)
+ */
+export function getCachedHookCodeHash(
+  network: string,
+  hook: string,
+  cacheTTL: number = DEFAULTS.gasCost.HOOK_CODE_HASH_CACHE_TTL,
+): string | undefined {
+  const cached = codeHashCache.get(cacheKey(network, hook));
+  if (cached && (Date.now() - cached.timestamp) / 1000 < cacheTTL) {
+    return cached.codeHash;
+  }
+  return undefined;
+}
+
+/**
+ * Get the keccak256 hash of a hook's runtime bytecode (with caching)
+ *
+ * @param network - Network name
+ * @param hook - Hook address
+ * @param rpcUrls - Optional custom RPC URLs by network
+ * @param cacheTTL - Cache TTL in seconds
+ * @returns Code hash, or undefined if the address has no code
+ * @throws Error if the bytecode cannot be fetched
+ */
+export async function getHookCodeHash(
+  network: string,
+  hook: string,
+  rpcUrls?: Record<string, string>,
+  cacheTTL: number = DEFAULTS.gasCost.HOOK_CODE_HASH_CACHE_TTL,
+): Promise<string | undefined> {
+  const cached = getCachedHookCodeHash(network, hook, cacheTTL);
+  if (cached) {
+    return cached;
+  }
+
+  const code = await getClient(network, rpcUrls).getCode({ address: hook as Address });
+  if (!code || code === "0x") {
+    // Not deployed (yet): do not cache so a later deployment is picked up
+    return undefined;
+  }
+
+  const codeHash = keccak256(code);
+  codeHashCache.set(cacheKey(network, hook), { codeHash, timestamp: Date.now() });
+  logger.debug({ network, hook, codeHash }, "Fetched hook code hash");
+
+  return codeHash;
+}
+
+/**
+ * Clear the hook code hash cache
+ */
+export function clearHookCodeHashCache(): void {
+  codeHashCache.clear();
+  clients.clear();
+}
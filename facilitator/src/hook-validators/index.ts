@@ -1,24 +1,57 @@
 /**
  * Hook Validators
  *
- * Provides validation for built-in hooks and identification of hook types.
+ * Provides validation for built-in and registered hooks and identification of hook types.
  * Routes validation requests to appropriate validators based on hook type.
+ *
+ * Out of the box the facilitator validates TransferHook and the NFTMintHook / RewardHook
+ * examples at the addresses from the network config. Operators can register validators
+ * for further hooks (by address or code hash) from config or a plugin module.
  */
 
 import { getNetworkConfig } from "@x402x/core";
 import { TransferHookValidator } from "./transfer-hook.js";
+import { NFTMintHookValidator } from "./nft-mint-hook.js";
+import { RewardHookValidator } from "./reward-hook.js";
+import { HookValidatorRegistry, type HookCodeHashReader } from "./registry.js";
 import type { HookValidator, HookTypeInfo, HookValidationResult } from "./types.js";
 import { BuiltInHookType } from "./types.js";
 
+export { HookValidatorRegistry, type HookCodeHashReader } from "./registry.js";
+export { loadHookValidatorPlugins, applyHookValidatorConfig } from "./plugins.js";
+export { TransferHookValidator } from "./transfer-hook.js";
+export { NFTMintHookValidator } from "./nft-mint-hook.js";
+export { RewardHookValidator } from "./reward-hook.js";
+export { BuiltInHookType } from "./types.js";
+export type {
+  HookValidator,
+  HookTypeInfo,
+  HookValidationResult,
+  HookValidatorRegistration,
+  HookValidatorConfig,
+} from "./types.js";
+
 /**
  * Global instances of built-in validators
  */
 const validators = {
   [BuiltInHookType.TRANSFER]: new TransferHookValidator(),
+  [BuiltInHookType.NFT_MINT]: new NFTMintHookValidator(),
+  [BuiltInHookType.REWARD]: new RewardHookValidator(),
 };
 
 /**
- * Check if a hook address corresponds to a built-in hook
+ * Global registry for operator-registered hook validators
+ *
+ * Built-in validator types are pre-registered so configuration can refer to them by name.
+ */
+export const hookValidatorRegistry = new HookValidatorRegistry();
+for (const [hookType, validator] of Object.entries(validators)) {
+  hookValidatorRegistry.registerType(hookType, validator);
+}
+
+/**
+ * Identify a hook address (built-in, example or registered by address)
  *
  * @param network - Network name
  * @param hookAddress - Hook contract address
@@ -38,25 +71,65 @@ export function getHookTypeInfo(network: string, hookAddress: string): HookTypeI
       };
     }
 
-    // TODO: Add more built-in hooks here as they are implemented
-    // if (networkConfig.hooks?.nftMint?.toLowerCase() === hookLower) {
-    //   return {
-    //     isBuiltIn: true,
-    //     hookType: BuiltInHookType.NFT_MINT,
-    //     validator: validators[BuiltInHookType.NFT_MINT],
-    //   };
-    // }
-
-    // Not a built-in hook
-    return {
-      isBuiltIn: false,
-    };
+    // Example hooks deployed alongside the router (contracts/examples)
+    if (networkConfig.demoHooks?.nftMint?.toLowerCase() === hookLower) {
+      return {
+        isBuiltIn: false,
+        hookType: BuiltInHookType.NFT_MINT,
+        validator: validators[BuiltInHookType.NFT_MINT],
+      };
+    }
+    if (networkConfig.demoHooks?.reward?.toLowerCase() === hookLower) {
+      return {
+        isBuiltIn: false,
+        hookType: BuiltInHookType.REWARD,
+        validator: validators[BuiltInHookType.REWARD],
+      };
+    }
+
+    return getRegisteredHookTypeInfo(network, hookAddress);
   } catch (error) {
-    // If network config fails, assume it's not built-in
-    return {
-      isBuiltIn: false,
-    };
+    // If network config fails, fall back to registered validators
+    return getRegisteredHookTypeInfo(network, hookAddress);
+  }
+}
+
+/**
+ * Look up a hook in the validator registry
+ *
+ * @param network - Network name
+ * @param hookAddress - Hook contract address
+ * @returns Hook type information (not built-in)
+ */
+function getRegisteredHookTypeInfo(network: string, hookAddress: string): HookTypeInfo {
+  const registration = hookValidatorRegistry.lookup(network, hookAddress);
+  return registration
+    ? { isBuiltIn: false, hookType: registration.hookType, validator: registration.validator }
+    : { isBuiltIn: false };
+}
+
+/**
+ * Identify a hook, matching registered code hashes against its deployed bytecode
+ *
+ * @param network - Network name
+ * @param hookAddress - Hook contract address
+ * @param readCodeHash - Code hash reader for the network
+ * @returns Hook type information
+ */
+export async function resolveHookTypeInfo(
+  network: string,
+  hookAddress: string,
+  readCodeHash: HookCodeHashReader,
+): Promise<HookTypeInfo> {
+  const info = getHookTypeInfo(network, hookAddress);
+  if (info.validator) {
+    return info;
   }
+
+  const registration = await hookValidatorRegistry.resolve(network, hookAddress, readCodeHash);
+  return registration
+    ? { isBuiltIn: false, hookType: registration.hookType, validator: registration.validator }
+    : info;
 }
 
 /**
@@ -73,8 +146,8 @@ export function isBuiltInHook(network: string, hookAddress: string): boolean {
 /**
  * Validate hook data using appropriate validator
  *
- * For built-in hooks, uses code validation.
- * For custom hooks, returns success (validation deferred to gas estimation).
+ * For built-in and registered hooks, uses code validation.
+ * For other custom hooks, returns success (validation deferred to gas estimation).
  *
  * @param network - Network name
  * @param hookAddress - Hook contract address
@@ -90,19 +163,18 @@ export function validateHookData(
 ): HookValidationResult {
   const hookInfo = getHookTypeInfo(network, hookAddress);
 
-  // For built-in hooks, use code validation
-  if (hookInfo.isBuiltIn && hookInfo.validator) {
+  // For built-in and registered hooks, use code validation
+  if (hookInfo.validator) {
     return hookInfo.validator.validate(network, hookAddress, hookData, hookAmount);
   }
 
   // For custom hooks, defer validation to gas estimation
   // This allows custom hooks to work while still being validated via estimateGas
-    return {
-      isValid: true,
-    };
+  return {
+    isValid: true,
+  };
 }
 
-
 /**
  * Get validator for a built-in hook (for advanced usage)
  *
@@ -0,0 +1,22 @@
+/**
+ * NFTMintHook Validator
+ *
+ * Validates NFTMintHook parameters (contracts/examples/nft-mint) without on-chain calls.
+ * NFTMintHook transfers the payment to payTo and mints an NFT to the payer.
+ */
+
+import { SingleAddressHookValidator } from "./single-address-hook.js";
+
+/**
+ * NFTMintHook Validator implementation
+ *
+ * hookData: abi.encode(MintConfig { address nftContract })
+ */
+export class NFTMintHookValidator extends SingleAddressHookValidator {
+  /**
+   * Create the validator
+   */
+  constructor() {
+    super("NFTMintHook", "nftContract");
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Hook Validator Plugins
+ *
+ * Loads operator-provided validator plugins and applies registrations from config.
+ *
+ * A plugin is an ES module exporting `registerHookValidators(registry)` (or a default
+ * function with the same signature), which may register validators by address or
+ * code hash, or register named types that HOOK_VALIDATORS entries can refer to.
+ */
+
+import { isAbsolute, resolve } from "path";
+import { pathToFileURL } from "url";
+import { getLogger } from "../telemetry.js";
+import type { HookValidatorRegistry } from "./registry.js";
+import type { HookValidatorConfig } from "./types.js";
+
+const logger = getLogger();
+
+/**
+ * Plugin entry point
+ */
+type RegisterHookValidators = (registry: HookValidatorRegistry) => void | Promise<void>;
+
+/**
+ * Load validator plugin modules and let them register with the registry
+ *
+ * @param plugins - Module specifiers (file paths relative to the working directory, or package names)
+ * @param registry - Registry to register validators with
+ * @throws Error if a module cannot be loaded or exports no register function
+ */
+export async function loadHookValidatorPlugins(
+  plugins: string[],
+  registry: HookValidatorRegistry,
+): Promise<void> {
+  for (const plugin of plugins) {
+    const isPath = plugin.startsWith(".") || isAbsolute(plugin);
+    const specifier = isPath ? pathToFileURL(resolve(plugin)).href : plugin;
+    const module = (await import(specifier)) as {
+      registerHookValidators?: RegisterHookValidators;
+      default?: RegisterHookValidators;
+    };
+
+    const register = module.registerHookValidators ?? module.default;
+    if (typeof register !== "function") {
+      throw new Error(
+        `Hook validator plugin ${plugin} must export a registerHookValidators(registry) function`,
+      );
+    }
+
+    await register(registry);
+    logger.info({ plugin }, "Hook validator plugin loaded");
+  }
+}
+
+/**
+ * Register the hooks listed in configuration with their validator types
+ *
+ * @param config - Hook validator configuration
+ * @param registry - Registry to register validators with
+ * @throws Error if a registration refers to an unknown hook type
+ */
+export function applyHookValidatorConfig(
+  config: HookValidatorConfig,
+  registry: HookValidatorRegistry,
+): void {
+  for (const entry of config.registrations) {
+    const validator = registry.getType(entry.hookType);
+    if (!validator) {
+      throw new Error(`Unknown hook validator type in HOOK_VALIDATORS: ${entry.hookType}`);
+    }
+
+    registry.register({
+      hookType: entry.hookType,
+      validator,
+      addresses: entry.network && entry.address ? { [entry.network]: [entry.address] } : undefined,
+      codeHashes: entry.codeHash ? [entry.codeHash] : undefined,
+    });
+  }
+
+  if (config.registrations.length > 0) {
+    logger.info({ count: config.registrations.length }, "Hook validators registered from config");
+  }
+}
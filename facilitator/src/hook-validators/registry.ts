@@ -0,0 +1,119 @@
+/**
+ * Hook Validator Registry
+ *
+ * Maps hooks to validators so that malformed hookData is rejected before any gas
+ * estimation. Hooks are identified either by address (per network) or by the
+ * keccak256 hash of their deployed bytecode, which lets one registration cover every
+ * deployment of the same hook contract.
+ */
+
+import type { HookValidator, HookValidatorRegistration } from "./types.js";
+
+/**
+ * Reads the keccak256 hash of a hook's runtime bytecode (undefined if the address has no code)
+ */
+export type HookCodeHashReader = (address: string) => Promise<string | undefined>;
+
+/**
+ * Registry of hook validators
+ */
+export class HookValidatorRegistry {
+  private byAddress = new Map<string, HookValidatorRegistration>();
+  private byCodeHash = new Map<string, HookValidatorRegistration>();
+  private resolvedCode = new Map<string, HookValidatorRegistration | null>();
+  private types = new Map<string, HookValidator>();
+
+  /**
+   * Register a validator for hook addresses and/or code hashes
+   *
+   * @param registration - Validator registration
+   */
+  register(registration: HookValidatorRegistration): void {
+    for (const [network, addresses] of Object.entries(registration.addresses ?? {})) {
+      for (const address of addresses) {
+        this.byAddress.set(this.addressKey(network, address), registration);
+      }
+    }
+    for (const codeHash of registration.codeHashes ?? []) {
+      this.byCodeHash.set(codeHash.toLowerCase(), registration);
+    }
+    // Previously unmatched hooks may match the new code hashes
+    this.resolvedCode.clear();
+    this.types.set(registration.hookType, registration.validator);
+  }
+
+  /**
+   * Register a named validator type that configuration can refer to
+   *
+   * @param hookType - Hook type identifier
+   * @param validator - Validator for hooks of this type
+   */
+  registerType(hookType: string, validator: HookValidator): void {
+    this.types.set(hookType, validator);
+  }
+
+  /**
+   * Get the validator registered for a hook type
+   *
+   * @param hookType - Hook type identifier
+   * @returns Validator, or undefined if the type is unknown
+   */
+  getType(hookType: string): HookValidator | undefined {
+    return this.types.get(hookType);
+  }
+
+  /**
+   * Find the registration for a hook without RPC calls
+   *
+   * Code hash matches are only known after the hook was resolved once.
+   *
+   * @param network - Network name
+   * @param hookAddress - Hook contract address
+   * @returns Matching registration, or undefined
+   */
+  lookup(network: string, hookAddress: string): HookValidatorRegistration | undefined {
+    const key = this.addressKey(network, hookAddress);
+    return this.byAddress.get(key) ?? this.resolvedCode.get(key) ?? undefined;
+  }
+
+  /**
+   * Find the registration for a hook, reading its code hash if code hashes are registered
+   *
+   * @param network - Network name
+   * @param hookAddress - Hook contract address
+   * @param readCodeHash - Code hash reader for the network
+   * @returns Matching registration, or undefined
+   */
+  async resolve(
+    network: string,
+    hookAddress: string,
+    readCodeHash: HookCodeHashReader,
+  ): Promise<HookValidatorRegistration | undefined> {
+    const key = this.addressKey(network, hookAddress);
+    const known = this.byAddress.get(key) ?? this.resolvedCode.get(key);
+    if (known !== undefined || this.byCodeHash.size === 0) {
+      return known ?? undefined;
+    }
+
+    const codeHash = await readCodeHash(hookAddress);
+    if (!codeHash) {
+      // Not deployed (yet): do not cache so a later deployment is picked up
+      return undefined;
+    }
+
+    const registration = this.byCodeHash.get(codeHash.toLowerCase()) ?? null;
+    this.resolvedCode.set(key, registration);
+    return registration ?? undefined;
+  }
+
+  /**
+   * Build the address map key
+   *
+   * @param network - Network name
+   * @param address - Hook address
+   * @returns Map key
+   */
+  private addressKey(network: string, address: string): string {
+    return `${network}:${address.toLowerCase()}`;
+  }
+}
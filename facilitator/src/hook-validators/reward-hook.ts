@@ -0,0 +1,22 @@
+/**
+ * RewardHook Validator
+ *
+ * Validates RewardHook parameters (contracts/examples/reward-points) without on-chain calls.
+ * RewardHook transfers the payment to payTo and distributes reward points to the payer.
+ */
+
+import { SingleAddressHookValidator } from "./single-address-hook.js";
+
+/**
+ * RewardHook Validator implementation
+ *
+ * hookData: abi.encode(RewardConfig { address rewardToken })
+ */
+export class RewardHookValidator extends SingleAddressHookValidator {
+  /**
+   * Create the validator
+   */
+  constructor() {
+    super("RewardHook", "rewardToken");
+  }
+}
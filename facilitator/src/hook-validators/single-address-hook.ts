@@ -0,0 +1,64 @@
+/**
+ * Single-Address Hook Validator
+ *
+ * Shared validation for hooks whose hookData is an ABI-encoded struct holding a
+ * single contract address, e.g. NFTMintHook (MintConfig) and RewardHook (RewardConfig).
+ */
+
+import { decodeAbiParameters, zeroAddress } from "viem";
+import type { HookValidator, HookValidationResult } from "./types.js";
+
+/**
+ * Base validator for hooks configured with a single non-zero address
+ */
+export abstract class SingleAddressHookValidator implements HookValidator {
+  /**
+   * Create the validator
+   *
+   * @param hookName - Hook contract name used in error messages
+   * @param fieldName - Name of the address field in the hook's config struct
+   */
+  protected constructor(
+    private readonly hookName: string,
+    private readonly fieldName: string,
+  ) {}
+
+  /**
+   * Validate hook parameters
+   *
+   * @param network - Network name
+   * @param hookAddress - Hook contract address
+   * @param hookData - ABI-encoded config struct: (address)
+   * @returns Validation result
+   */
+  validate(network: string, hookAddress: string, hookData: string): HookValidationResult {
+    // The hook abi.decodes its config, so empty data always reverts on-chain
+    if (!hookData || hookData === "0x") {
+      return {
+        isValid: false,
+        errorReason: `${this.hookName} requires hookData with ${this.fieldName}`,
+      };
+    }
+
+    let address: string;
+    try {
+      [address] = decodeAbiParameters([{ type: "address" }], hookData as `0x${string}`);
+    } catch (error) {
+      return {
+        isValid: false,
+        errorReason: `Failed to decode ${this.hookName} data: ${error instanceof Error ? error.message : "Unknown error"}`,
+      };
+    }
+
+    if (address.toLowerCase() === zeroAddress) {
+      return {
+        isValid: false,
+        errorReason: `Zero address not allowed as ${this.fieldName}`,
+      };
+    }
+
+    return {
+      isValid: true,
+    };
+  }
+}
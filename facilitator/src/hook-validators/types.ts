@@ -52,16 +52,47 @@ export interface HookValidator {
  */
 export enum BuiltInHookType {
   TRANSFER = "transfer",
+  NFT_MINT = "nft_mint",
+  REWARD = "reward",
 }
 
 /**
  * Hook type identification result
  */
 export interface HookTypeInfo {
-  /** Whether this is a built-in hook */
+  /** Whether this is a built-in hook with code-based gas calculation (TransferHook) */
   isBuiltIn: boolean;
-  /** Hook type identifier (for built-in hooks) */
-  hookType?: BuiltInHookType;
-  /** Validator instance (for built-in hooks) */
+  /** Hook type identifier (built-in or registered hooks) */
+  hookType?: string;
+  /** Validator instance (built-in or registered hooks) */
   validator?: HookValidator;
 }
+
+/**
+ * Registration of a validator for hooks identified by address or runtime code hash
+ */
+export interface HookValidatorRegistration {
+  /** Hook type identifier (e.g. "nft_mint") */
+  hookType: string;
+  /** Validator for the hook's hookData */
+  validator: HookValidator;
+  /** Hook addresses per network (network name -> addresses) */
+  addresses?: Record<string, string[]>;
+  /** keccak256 of the hook's deployed bytecode, matching on any network */
+  codeHashes?: string[];
+}
+
+/**
+ * Hook validator configuration
+ */
+export interface HookValidatorConfig {
+  /** Registrations of built-in validator types for additional hooks */
+  registrations: Array<{
+    hookType: string;
+    network?: string;
+    address?: string;
+    codeHash?: string;
+  }>;
+  /** Plugin module paths exporting registerHookValidators(registry) */
+  plugins: string[];
+}
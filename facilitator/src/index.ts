@@ -7,13 +7,28 @@
 
 import { loadConfig } from "./config.js";
 import { createPoolManager } from "./pool-manager.js";
-import { initTelemetry, getLogger } from "./telemetry.js";
+import { initTelemetry, getLogger, getPrometheusReader } from "./telemetry.js";
 import { initShutdown } from "./shutdown.js";
-import { createMemoryCache, createTokenCache, type TokenCache } from "./cache/index.js";
-import { createApp } from "./app.js";
-import { startGasPriceUpdater } from "./dynamic-gas-price.js";
+import { createCache, createTokenCache, type TokenCache } from "./cache/index.js";
+import { createApp, RouteSwitch } from "./app.js";
+import type { RoutesDependencies } from "./routes/index.js";
+import { ConfigReloader } from "./config-reload.js";
+import { setGasPriceCache, startGasPriceUpdater } from "./dynamic-gas-price.js";
 import { startTokenPriceUpdater } from "./token-price.js";
 import { createBalanceChecker, type BalanceChecker } from "./balance-check.js";
+import { createAdminAuditLog } from "./admin-audit.js";
+import { createSettlementLedger, type SettlementLedger } from "./ledger/index.js";
+import { createSettlementJobManager, type SettlementJobManager } from "./settlement-jobs.js";
+import { createLockManager } from "./locks/index.js";
+import { NetworkHealthMonitor } from "./network-health.js";
+import { Treasury } from "./treasury.js";
+import { SpendPolicy, isSpendPolicyConfigured } from "./spend-policy.js";
+import { BatchSettler } from "./batch-settlement.js";
+import {
+  applyHookValidatorConfig,
+  hookValidatorRegistry,
+  loadHookValidatorPlugins,
+} from "./hook-validators/index.js";
 
 // Initialize telemetry first
 initTelemetry();
@@ -37,22 +52,42 @@ async function main() {
 
   // Initialize cache
   if (config.cache.enabled) {
-    const memoryCache = createMemoryCache({
+    const tokenStore = createCache({
+      backend: config.cache.backend,
+      redisUrl: config.cache.redisUrl,
+      keyPrefix: `${config.cache.redisKeyPrefix}token:`,
       stdTTL: config.cache.ttlTokenVersion,
       maxKeys: config.cache.maxKeys,
     });
 
-    tokenCache = createTokenCache(memoryCache, {
+    tokenCache = createTokenCache(tokenStore, {
       versionTTL: config.cache.ttlTokenVersion,
       metadataTTL: config.cache.ttlTokenMetadata,
     });
 
     // Create dedicated cache instance for balance checks to avoid cache conflicts
-    const balanceCache = createMemoryCache({
+    const balanceCache = createCache({
+      backend: config.cache.backend,
+      redisUrl: config.cache.redisUrl,
+      keyPrefix: `${config.cache.redisKeyPrefix}balance:`,
       stdTTL: 30, // 30 seconds TTL for balance checks
       maxKeys: config.cache.maxKeys,
     });
 
+    // Gas prices are shared across replicas on the redis backend
+    const gasPriceStore = createCache({
+      backend: config.cache.backend,
+      redisUrl: config.cache.redisUrl,
+      keyPrefix: `${config.cache.redisKeyPrefix}gas:`,
+      stdTTL: config.dynamicGasPrice.cacheTTL,
+      maxKeys: config.cache.maxKeys,
+    });
+    setGasPriceCache(gasPriceStore);
+
+    shutdownManager.addCleanupHandler(async () => {
+      await Promise.all([tokenStore.close?.(), balanceCache.close?.(), gasPriceStore.close?.()]);
+    });
+
     balanceChecker = createBalanceChecker(balanceCache, {
       cacheTTL: 30, // 30 seconds TTL for balance checks
       maxCacheKeys: config.cache.maxKeys,
@@ -61,6 +96,7 @@ async function main() {
     logger.info(
       {
         enabled: true,
+        backend: config.cache.backend,
         versionTTL: config.cache.ttlTokenVersion,
         metadataTTL: config.cache.ttlTokenMetadata,
         balanceCacheTTL: 30,
@@ -160,32 +196,239 @@ async function main() {
       logger.info("Using static token prices (no background updater)");
     }
 
+    // Initialize settlement ledger for idempotent replay
+    let settlementLedger: SettlementLedger | undefined;
+    if (config.ledger.enabled) {
+      settlementLedger = createSettlementLedger(config.ledger);
+      logger.info(
+        { store: config.ledger.store, filePath: config.ledger.filePath },
+        "Settlement ledger initialized",
+      );
+
+      // Register cleanup on shutdown
+      shutdownManager.addCleanupHandler(async () => {
+        await settlementLedger?.close();
+      });
+    } else {
+      logger.info("Settlement ledger disabled (repeated settle requests are not deduplicated)");
+    }
+
+    // Initialize async settlement jobs
+    let settlementJobs: SettlementJobManager | undefined;
+    if (config.asyncSettlement.enabled) {
+      settlementJobs = createSettlementJobManager(config.asyncSettlement);
+
+      // Let accepted settlements and webhook deliveries finish on shutdown
+      shutdownManager.addCleanupHandler(async () => {
+        await settlementJobs?.drain();
+      });
+    }
+
+    // Initialize spend limits (counters live in the cache layer, shared with the redis backend)
+    let spendPolicy: SpendPolicy | undefined;
+    if (isSpendPolicyConfigured(config.spendPolicy)) {
+      const spendCounters = createCache({
+        backend: config.cache.backend,
+        redisUrl: config.cache.redisUrl,
+        keyPrefix: `${config.cache.redisKeyPrefix}spend:`,
+        stdTTL: config.spendPolicy.volumeWindowSeconds,
+        maxKeys: config.cache.maxKeys,
+      });
+      spendPolicy = new SpendPolicy(config.spendPolicy, spendCounters, config.tokenPrice);
+
+      shutdownManager.addCleanupHandler(async () => {
+        await spendCounters.close?.();
+      });
+
+      logger.info(
+        {
+          denylisted: config.spendPolicy.denylist.length,
+          maxPaymentUsd: config.spendPolicy.maxPaymentUsd,
+          payerVolumeUsd: config.spendPolicy.payerVolumeUsd,
+          payToVolumeUsd: config.spendPolicy.payToVolumeUsd,
+          volumeWindowSeconds: config.spendPolicy.volumeWindowSeconds,
+          payerMaxPayments: config.spendPolicy.payerMaxPayments,
+          velocityWindowSeconds: config.spendPolicy.velocityWindowSeconds,
+        },
+        "Spend policy initialized",
+      );
+    }
+
+    // Used admin request nonces (shared with the redis backend, so replays fail on every replica)
+    const adminNonces = createCache({
+      backend: config.cache.backend,
+      redisUrl: config.cache.redisUrl,
+      keyPrefix: `${config.cache.redisKeyPrefix}admin-nonce:`,
+      stdTTL: 2 * config.admin.signatureMaxSkewSeconds,
+      maxKeys: config.cache.maxKeys,
+    });
+    shutdownManager.addCleanupHandler(async () => {
+      await adminNonces.close?.();
+    });
+
+    // Register hook validators from plugins and config (plugins may define types used by config)
+    await loadHookValidatorPlugins(config.hookValidators.plugins, hookValidatorRegistry);
+    applyHookValidatorConfig(config.hookValidators, hookValidatorRegistry);
+
+    // Initialize settlement locks (duplicate payer and in-flight settlement protection)
+    const locks = createLockManager(config.locks);
+    logger.info(
+      { backend: config.locks.backend, ttlMs: config.locks.ttlMs },
+      "Settlement locks initialized",
+    );
+
+    // Release locks still held once in-flight settlements have drained
+    shutdownManager.addCleanupHandler(async () => {
+      await locks.close();
+    });
+
     // Initialize account pools with custom RPC URLs
     const poolManager = await createPoolManager(
       config.evmPrivateKeys,
       config.network,
       config.accountPool,
       config.dynamicGasPrice.rpcUrls, // Pass RPC URLs from dynamicGasPrice config
+      { gasCost: config.gasCost, dynamicGasPrice: config.dynamicGasPrice }, // Replacement fee floor
+      locks,
     );
 
+    // Probe network RPCs and account gas balances for GET /ready
+    let networkHealth: NetworkHealthMonitor | undefined;
+    if (config.readiness.enabled) {
+      networkHealth = new NetworkHealthMonitor(
+        poolManager.getEvmAccountPools(),
+        config.readiness,
+        config.dynamicGasPrice.rpcUrls,
+      );
+      networkHealth.start();
+
+      shutdownManager.addCleanupHandler(async () => {
+        networkHealth?.stop();
+      });
+    }
+
+    // Keep pool account gas balances topped up
+    if (config.treasury.enabled) {
+      const treasury = new Treasury(
+        poolManager.getEvmAccountPools(),
+        config.treasury,
+        config.dynamicGasPrice.rpcUrls,
+        locks,
+      );
+      treasury.start();
+
+      shutdownManager.addCleanupHandler(async () => {
+        treasury.stop();
+      });
+    }
+
+    // Settle router payments in batches
+    let batchSettler: BatchSettler | undefined;
+    if (config.batchSettlement.enabled) {
+      batchSettler = new BatchSettler(
+        config.batchSettlement,
+        poolManager,
+        config.allowedSettlementRouters,
+        config.dynamicGasPrice.rpcUrls,
+        config.x402Config,
+        {
+          gasCost: config.gasCost,
+          dynamicGasPrice: config.dynamicGasPrice,
+          balanceChecker,
+          gasEstimation: config.gasEstimation,
+          tokenPrice: config.tokenPrice,
+        },
+      );
+
+      // Submit anything still waiting for its window
+      shutdownManager.addCleanupHandler(async () => {
+        await batchSettler?.stop();
+      });
+
+      logger.info(
+        {
+          windowMs: config.batchSettlement.windowMs,
+          maxSize: config.batchSettlement.maxSize,
+        },
+        "Batch settlement enabled",
+      );
+    }
+
+    // Route dependencies (replaced as a whole when the configuration is reloaded)
+    let routesDeps: RoutesDependencies = {
+      shutdownManager,
+      poolManager,
+      evmAccountPools: poolManager.getEvmAccountPools(),
+      evmAccountCount: poolManager.getEvmAccountCount(),
+      tokenCache,
+      balanceChecker,
+      allowedSettlementRouters: config.allowedSettlementRouters,
+      x402Config: config.x402Config,
+      gasCost: config.gasCost,
+      dynamicGasPrice: config.dynamicGasPrice,
+      tokenPrice: config.tokenPrice,
+      feeQuote: config.feeQuote,
+      feeClaim: config.feeClaim,
+      gasEstimation: config.gasEstimation,
+      admin: config.admin,
+      adminAuditLog: createAdminAuditLog(config.admin.auditLogSize),
+      adminNonces,
+      settlementLedger,
+      settlementJobs,
+      locks,
+      prometheusReader: getPrometheusReader(),
+      networkHealth,
+      spendPolicy,
+      batchSettler,
+    };
+    const routeSwitch = new RouteSwitch(routesDeps, config.rateLimit);
+
+    // Reload configuration on config file changes and SIGHUP
+    if (config.configReload.filePath) {
+      const configReloader = new ConfigReloader(
+        config.configReload,
+        config,
+        async (next, previous) => {
+          // Account changes first: an invalid key set rejects the whole reload
+          if (next.evmPrivateKeys.join(",") !== previous.evmPrivateKeys.join(",")) {
+            await poolManager.updatePrivateKeys(next.evmPrivateKeys);
+          }
+          batchSettler?.updateAllowedRouters(next.allowedSettlementRouters);
+          batchSettler?.updateX402Config(next.x402Config);
+          batchSettler?.updateChecks({
+            gasCost: next.gasCost,
+            dynamicGasPrice: config.dynamicGasPrice,
+            balanceChecker,
+            gasEstimation: next.gasEstimation,
+            tokenPrice: config.tokenPrice,
+          });
+
+          routesDeps = {
+            ...routesDeps,
+            evmAccountCount: poolManager.getEvmAccountCount(),
+            allowedSettlementRouters: next.allowedSettlementRouters,
+            x402Config: next.x402Config,
+            gasCost: next.gasCost,
+            feeQuote: next.feeQuote,
+            feeClaim: next.feeClaim,
+            gasEstimation: next.gasEstimation,
+            admin: next.admin,
+          };
+          routeSwitch.update(routesDeps, next.rateLimit);
+        },
+      );
+      configReloader.start();
+
+      shutdownManager.addCleanupHandler(async () => {
+        await configReloader.stop();
+      });
+    }
+
     // Create Express app with all routes
     const app = createApp({
       shutdownManager,
-      routesDeps: {
-        shutdownManager,
-        poolManager,
-        evmAccountPools: poolManager.getEvmAccountPools(),
-        evmAccountCount: poolManager.getEvmAccountCount(),
-        tokenCache,
-        balanceChecker,
-        allowedSettlementRouters: config.allowedSettlementRouters,
-        x402Config: config.x402Config,
-        gasCost: config.gasCost,
-        dynamicGasPrice: config.dynamicGasPrice,
-        tokenPrice: config.tokenPrice,
-        feeClaim: config.feeClaim,
-        gasEstimation: config.gasEstimation,
-      },
+      routesDeps,
+      routeSwitch,
       requestBodyLimit: config.server.requestBodyLimit,
       rateLimitConfig: config.rateLimit,
     });
@@ -205,6 +448,9 @@ async function main() {
             settlement_router: true,
             security_whitelist: true,
             graceful_shutdown: true,
+            settlement_ledger: config.ledger.enabled,
+            async_settlement: config.asyncSettlement.enabled,
+            settlement_locks: config.locks.backend,
           },
           whitelist: config.allowedSettlementRouters,
         },
@@ -218,10 +464,16 @@ async function main() {
       logger.info(`  - Rate limiting: ${config.rateLimit.enabled ? "✓" : "✗"}`);
       logger.info(`  - Request body limit: ${config.server.requestBodyLimit}`);
       logger.info(`  - Gas price strategy: ${config.dynamicGasPrice.strategy}`);
+      logger.info(
+        `  - Settlement ledger: ${config.ledger.enabled ? `✓ (${config.ledger.store})` : "✗"}`,
+      );
       logger.info("  - Standard x402 settlement: ✓");
       logger.info("  - SettlementRouter support: ✓");
       logger.info("  - Security whitelist: ✓");
       logger.info("  - Graceful shutdown: ✓");
+      logger.info(
+        `  - Config reload: ${config.configReload.filePath ? `✓ (${config.configReload.filePath})` : "✗"}`,
+      );
       logger.info("");
       logger.info("SettlementRouter Whitelist:");
       Object.entries(config.allowedSettlementRouters).forEach(([network, routers]) => {
@@ -238,6 +490,21 @@ async function main() {
       logger.info("  GET  /supported  - List supported payment kinds");
       logger.info("  POST /verify     - Verify payment payload");
       logger.info("  POST /settle     - Settle payment (auto-detects mode)");
+      if (config.asyncSettlement.enabled) {
+        logger.info("  GET  /settle/:id - Async settlement job status");
+      }
+      logger.info("  GET  /pending-fees - Pending facilitator fees (admin: viewer)");
+      logger.info("  POST /claim-fees - Claim facilitator fees (admin: operator)");
+      logger.info("  GET  /admin/audit - Admin audit log (admin: admin)");
+      logger.info("  GET  /admin/settlements - Settlement ledger (admin: viewer)");
+      if (config.admin.apiKeys.length === 0) {
+        logger.warn("No ADMIN_API_KEYS configured - admin endpoints are disabled");
+      }
+      if (config.feeQuote.enabled && config.feeQuote.secretGenerated) {
+        logger.warn(
+          "No FEE_QUOTE_SECRET configured - fee quotes are only honoured by this instance until restart",
+        );
+      }
     });
 
     // Register server for graceful shutdown
@@ -0,0 +1,84 @@
+/**
+ * File Ledger Store
+ *
+ * Durable settlement ledger backed by an append-only JSON lines file.
+ * Every state transition appends the full record; on startup the file is replayed
+ * (last line per key wins) and compacted, so history survives restarts without
+ * requiring an external database.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { SettlementRecord } from "./interface.js";
+import { MemoryLedgerStore } from "./memory-store.js";
+import { getLogger } from "../telemetry.js";
+
+const logger = getLogger();
+
+/**
+ * Append-only JSON lines ledger store
+ */
+export class FileLedgerStore extends MemoryLedgerStore {
+  /**
+   * Create a file ledger store, loading existing records from disk
+   *
+   * @param filePath - Path of the JSON lines file (created if missing)
+   */
+  constructor(private readonly filePath: string) {
+    super();
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Insert or replace a record and append it to the file
+   *
+   * @param record - Record to store
+   */
+  async put(record: SettlementRecord): Promise<void> {
+    appendFileSync(this.filePath, JSON.stringify(record) + "\n");
+    await super.put(record);
+  }
+
+  /**
+   * Replay the file into memory and compact it when it contains superseded lines
+   */
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      writeFileSync(this.filePath, "");
+      return;
+    }
+
+    const lines = readFileSync(this.filePath, "utf8").split("\n").filter(Boolean);
+    let corrupted = 0;
+
+    for (const line of lines) {
+      try {
+        const record = JSON.parse(line) as SettlementRecord;
+        this.records.set(record.key, record);
+      } catch {
+        // A torn final write after a crash only loses that single transition
+        corrupted++;
+      }
+    }
+
+    if (lines.length > this.records.size) {
+      const tmpPath = `${this.filePath}.tmp`;
+      const content = Array.from(this.records.values())
+        .map((record) => JSON.stringify(record))
+        .join("\n");
+      writeFileSync(tmpPath, content ? content + "\n" : "");
+      renameSync(tmpPath, this.filePath);
+    }
+
+    logger.info(
+      {
+        filePath: this.filePath,
+        records: this.records.size,
+        linesRead: lines.length,
+        corrupted,
+      },
+      "Settlement ledger loaded from file",
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Settlement Ledger Module Exports
+ *
+ * Unified exports for settlement ledger functionality.
+ */
+
+import type { LedgerConfig, LedgerStore } from "./interface.js";
+import { MemoryLedgerStore } from "./memory-store.js";
+import { FileLedgerStore } from "./file-store.js";
+import { SettlementLedger } from "./settlement-ledger.js";
+
+export type {
+  LedgerConfig,
+  LedgerStore,
+  SettlementQuery,
+  SettlementRecord,
+  SettlementStatus,
+  SettlementTransition,
+} from "./interface.js";
+export { MemoryLedgerStore, applySettlementQuery } from "./memory-store.js";
+export { FileLedgerStore } from "./file-store.js";
+export { SettlementLedger, calculateContextKey } from "./settlement-ledger.js";
+export type {
+  LedgerBeginResult,
+  SettlementProgressCallback,
+  ReceiptLookup,
+} from "./settlement-ledger.js";
+
+/**
+ * Create a settlement ledger from configuration
+ *
+ * @param config - Ledger configuration
+ * @returns Settlement ledger backed by the configured store
+ */
+export function createSettlementLedger(config: LedgerConfig): SettlementLedger {
+  const store: LedgerStore =
+    config.store === "file" ? new FileLedgerStore(config.filePath) : new MemoryLedgerStore();
+  return new SettlementLedger(store);
+}
@@ -0,0 +1,127 @@
+/**
+ * Settlement Ledger Interface
+ *
+ * Storage interface for the settlement ledger so that different backends
+ * (memory, append-only file, shared database) can be plugged in.
+ */
+
+import type { SettleResponse } from "x402/types";
+
+/**
+ * Settlement lifecycle states
+ *
+ * - received: request accepted, nothing sent on-chain yet
+ * - simulated: pre-validation (gas estimation / simulation) passed
+ * - submitted: transaction broadcast, waiting for receipt
+ * - mined: transaction mined successfully (terminal)
+ * - reverted: transaction mined but reverted (terminal)
+ * - rejected: rejected before submission (validation failure, no gas spent)
+ * - error: unexpected failure before a transaction hash was obtained
+ */
+export type SettlementStatus =
+  | "received"
+  | "simulated"
+  | "submitted"
+  | "mined"
+  | "reverted"
+  | "rejected"
+  | "error";
+
+/**
+ * A single state transition of a settlement
+ */
+export interface SettlementTransition {
+  status: SettlementStatus;
+  /** ISO timestamp of the transition */
+  at: string;
+  /** Transaction hash (submitted/mined/reverted) */
+  transaction?: string;
+  /** Error reason or additional detail */
+  detail?: string;
+}
+
+/**
+ * Ledger record for one settlement, keyed by network and contextKey
+ */
+export interface SettlementRecord {
+  /** Ledger key: `${network}:${contextKey}` */
+  key: string;
+  network: string;
+  /** keccak256(from, token, nonce) - the SettlementRouter idempotency key */
+  contextKey: string;
+  /** EIP-3009 nonce (equals the commitment in SettlementRouter mode) */
+  nonce: string;
+  mode: "standard" | "settlementRouter";
+  payer: string;
+  asset: string;
+  amount: string;
+  payTo: string;
+  router?: string;
+  hook?: string;
+  facilitatorFee?: string;
+  status: SettlementStatus;
+  transaction?: string;
+  /** Final response returned to the caller (terminal states only) */
+  response?: SettleResponse;
+  history: SettlementTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Query options for listing ledger records
+ */
+export interface SettlementQuery {
+  network?: string;
+  payer?: string;
+  status?: SettlementStatus;
+  /** Only records last updated before this ISO timestamp (for pagination) */
+  before?: string;
+  /** Maximum number of records (newest first) */
+  limit?: number;
+}
+
+/**
+ * Pluggable settlement ledger store
+ */
+export interface LedgerStore {
+  /**
+   * Get a record by ledger key
+   *
+   * @param key - Ledger key
+   * @returns The record, or undefined if unknown
+   */
+  get(key: string): Promise<SettlementRecord | undefined>;
+
+  /**
+   * Insert or replace a record
+   *
+   * @param record - Record to store
+   */
+  put(record: SettlementRecord): Promise<void>;
+
+  /**
+   * List records matching a query, newest first
+   *
+   * @param query - Query options
+   * @returns Matching records
+   */
+  list(query: SettlementQuery): Promise<SettlementRecord[]>;
+
+  /**
+   * Release resources held by the store
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Ledger configuration
+ */
+export interface LedgerConfig {
+  /** Enable the settlement ledger and idempotent replay */
+  enabled: boolean;
+  /** Storage backend */
+  store: "memory" | "file";
+  /** File path for the file store (JSON lines, append-only) */
+  filePath: string;
+}
@@ -0,0 +1,77 @@
+/**
+ * Memory Ledger Store
+ *
+ * Keeps settlement records in memory. History is lost on restart, so this store
+ * is intended for tests and single-shot deployments; use the file store in production.
+ */
+
+import type { LedgerStore, SettlementQuery, SettlementRecord } from "./interface.js";
+
+/**
+ * Filter and order records according to a query
+ *
+ * @param records - Candidate records
+ * @param query - Query options
+ * @returns Matching records, newest first
+ */
+export function applySettlementQuery(
+  records: Iterable<SettlementRecord>,
+  query: SettlementQuery,
+): SettlementRecord[] {
+  const payer = query.payer?.toLowerCase();
+  const matches: SettlementRecord[] = [];
+
+  for (const record of records) {
+    if (query.network && record.network !== query.network) continue;
+    if (payer && record.payer.toLowerCase() !== payer) continue;
+    if (query.status && record.status !== query.status) continue;
+    if (query.before && record.updatedAt >= query.before) continue;
+    matches.push(record);
+  }
+
+  matches.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : a.updatedAt > b.updatedAt ? -1 : 0));
+  return matches.slice(0, query.limit ?? 100);
+}
+
+/**
+ * In-memory ledger store
+ */
+export class MemoryLedgerStore implements LedgerStore {
+  protected records = new Map<string, SettlementRecord>();
+
+  /**
+   * Get a record by ledger key
+   *
+   * @param key - Ledger key
+   * @returns The record, or undefined if unknown
+   */
+  async get(key: string): Promise<SettlementRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  /**
+   * Insert or replace a record
+   *
+   * @param record - Record to store
+   */
+  async put(record: SettlementRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  /**
+   * List records matching a query, newest first
+   *
+   * @param query - Query options
+   * @returns Matching records
+   */
+  async list(query: SettlementQuery): Promise<SettlementRecord[]> {
+    return applySettlementQuery(this.records.values(), query);
+  }
+
+  /**
+   * Release resources (no-op for memory store)
+   */
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
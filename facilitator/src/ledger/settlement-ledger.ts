@@ -0,0 +1,355 @@
+/**
+ * Settlement Ledger
+ *
+ * Records every settlement attempt and its state transitions, keyed by network and
+ * the SettlementRouter contextKey (keccak256(from, token, nonce)). Used for:
+ * - Idempotent replay: a repeated POST /settle with the same authorization returns
+ *   the stored outcome instead of submitting another transaction
+ * - Operational history that survives restarts (with a durable store)
+ *
+ * Replay rules:
+ * - mined / reverted: terminal, the stored response is returned
+ * - received / simulated / submitted: in progress, the request is rejected
+ * - rejected / error: nothing reached the chain, the settlement may be retried
+ */
+
+import { encodePacked, keccak256 } from "viem";
+import type { Address, Hex } from "viem";
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from "x402/types";
+import { isSettlementMode } from "@x402x/core";
+import { getLogger, recordMetric } from "../telemetry.js";
+import type {
+  LedgerStore,
+  SettlementQuery,
+  SettlementRecord,
+  SettlementStatus,
+} from "./interface.js";
+
+const logger = getLogger();
+
+const TERMINAL_STATUSES: SettlementStatus[] = ["mined", "reverted"];
+const RETRYABLE_STATUSES: SettlementStatus[] = ["rejected", "error"];
+
+/**
+ * Result of starting a settlement in the ledger
+ */
+export type LedgerBeginResult =
+  /** No previous attempt (or a retryable one): proceed with settlement */
+  | { outcome: "new"; key: string }
+  /** Settlement already finished: return the stored response */
+  | { outcome: "replay"; record: SettlementRecord }
+  /** Settlement currently running in this process */
+  | { outcome: "in_progress"; key: string }
+  /** Non-terminal record left behind by a previous process (e.g. crash after submission) */
+  | { outcome: "orphaned"; record: SettlementRecord };
+
+/**
+ * Progress callback invoked by settlement implementations
+ */
+export type SettlementProgressCallback = (
+  status: "simulated" | "submitted",
+  info?: { transaction?: string },
+) => Promise<void>;
+
+/**
+ * Minimal receipt lookup used to reconcile orphaned submissions
+ */
+export type ReceiptLookup = (hash: Hex) => Promise<{ status: "success" | "reverted" } | null>;
+
+/**
+ * Calculate the SettlementRouter contextKey for an authorization
+ *
+ * Mirrors SettlementRouter.calculateContextKey: keccak256(abi.encodePacked(from, token, nonce)).
+ *
+ * @param from - Payer address
+ * @param token - Token address
+ * @param nonce - EIP-3009 nonce
+ * @returns contextKey as hex string
+ */
+export function calculateContextKey(from: string, token: string, nonce: string): Hex {
+  return keccak256(
+    encodePacked(
+      ["address", "address", "bytes32"],
+      [from as Address, token as Address, nonce as Hex],
+    ),
+  );
+}
+
+/**
+ * Settlement ledger service
+ */
+export class SettlementLedger {
+  private inFlight = new Set<string>();
+
+  /**
+   * Create a settlement ledger
+   *
+   * @param store - Backing store
+   */
+  constructor(private readonly store: LedgerStore) {}
+
+  /**
+   * Build the ledger key for a network and contextKey
+   *
+   * @param network - Network name
+   * @param contextKey - SettlementRouter contextKey
+   * @returns Ledger key
+   */
+  static key(network: string, contextKey: string): string {
+    return `${network}:${contextKey.toLowerCase()}`;
+  }
+
+  /**
+   * Start tracking a settlement, or detect that it was already processed
+   *
+   * @param paymentPayload - Payment payload from the request
+   * @param paymentRequirements - Payment requirements from the request
+   * @returns Begin result, or undefined if the payload carries no EIP-3009 authorization
+   */
+  async begin(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<LedgerBeginResult | undefined> {
+    const payload = paymentPayload.payload as
+      | { authorization?: { from: string; value: string; nonce: string } }
+      | undefined;
+    const authorization = payload?.authorization;
+    if (!authorization?.from || !authorization.nonce) {
+      return undefined;
+    }
+
+    const network = paymentRequirements.network;
+    const contextKey = calculateContextKey(
+      authorization.from,
+      paymentRequirements.asset,
+      authorization.nonce,
+    );
+    const key = SettlementLedger.key(network, contextKey);
+
+    // Checked synchronously so concurrent identical requests cannot both proceed
+    if (this.inFlight.has(key)) {
+      return { outcome: "in_progress", key };
+    }
+    this.inFlight.add(key);
+
+    try {
+      const existing = await this.store.get(key);
+      if (existing && TERMINAL_STATUSES.includes(existing.status)) {
+        this.inFlight.delete(key);
+        recordMetric("facilitator.ledger.replay", 1, { network, status: existing.status });
+        return { outcome: "replay", record: existing };
+      }
+      if (existing && !RETRYABLE_STATUSES.includes(existing.status) && existing.transaction) {
+        this.inFlight.delete(key);
+        return { outcome: "orphaned", record: existing };
+      }
+
+      const now = new Date().toISOString();
+      const extra = isSettlementMode(paymentRequirements)
+        ? (paymentRequirements.extra as Record<string, string>)
+        : undefined;
+      const record: SettlementRecord = {
+        key,
+        network,
+        contextKey,
+        nonce: authorization.nonce,
+        mode: extra ? "settlementRouter" : "standard",
+        payer: authorization.from,
+        asset: paymentRequirements.asset,
+        amount: authorization.value,
+        payTo: extra?.payTo ?? paymentRequirements.payTo,
+        router: extra?.settlementRouter,
+        hook: extra?.hook,
+        facilitatorFee: extra?.facilitatorFee,
+        status: "received",
+        history: [...(existing?.history ?? []), { status: "received", at: now }],
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      await this.store.put(record);
+
+      return { outcome: "new", key };
+    } catch (error) {
+      this.inFlight.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Record an intermediate state transition
+   *
+   * @param key - Ledger key
+   * @param status - New status
+   * @param info - Optional transaction hash and detail
+   * @param info.transaction - Transaction hash
+   * @param info.detail - Additional detail
+   */
+  async transition(
+    key: string,
+    status: SettlementStatus,
+    info: { transaction?: string; detail?: string } = {},
+  ): Promise<void> {
+    try {
+      const record = await this.store.get(key);
+      if (!record) {
+        logger.warn({ key, status }, "Ledger transition for unknown settlement");
+        return;
+      }
+
+      const now = new Date().toISOString();
+      await this.store.put({
+        ...record,
+        status,
+        transaction: info.transaction ?? record.transaction,
+        history: [...record.history, { status, at: now, ...info }],
+        updatedAt: now,
+      });
+    } catch (error) {
+      // Ledger failures must never break settlement itself
+      logger.error({ error, key, status }, "Failed to record settlement ledger transition");
+    }
+  }
+
+  /**
+   * Create a progress callback bound to a ledger key
+   *
+   * @param key - Ledger key
+   * @returns Callback for settlement implementations
+   */
+  progress(key: string): SettlementProgressCallback {
+    return async (status, info) => this.transition(key, status, info);
+  }
+
+  /**
+   * Record the final response of a settlement
+   *
+   * @param key - Ledger key
+   * @param response - Response returned to the caller
+   */
+  async complete(key: string, response: SettleResponse): Promise<void> {
+    try {
+      const record = await this.store.get(key);
+      if (record) {
+        // A failure without a transaction hash after submission (e.g. receipt timeout)
+        // must stay "submitted" so it is reconciled rather than re-sent
+        const status: SettlementStatus = response.success
+          ? "mined"
+          : response.transaction
+            ? "reverted"
+            : record.status === "submitted"
+              ? "submitted"
+              : "rejected";
+
+        const now = new Date().toISOString();
+        await this.store.put({
+          ...record,
+          status,
+          transaction: response.transaction || record.transaction,
+          response,
+          history: [
+            ...record.history,
+            {
+              status,
+              at: now,
+              ...(response.transaction && { transaction: response.transaction }),
+              ...(response.errorReason && { detail: response.errorReason }),
+            },
+          ],
+          updatedAt: now,
+        });
+        recordMetric("facilitator.ledger.completed", 1, { network: record.network, status });
+      }
+    } catch (error) {
+      logger.error({ error, key }, "Failed to record settlement outcome in ledger");
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Record an exception raised while settling
+   *
+   * A settlement that already has a transaction hash stays "submitted" so a later
+   * replay reconciles it against the chain instead of submitting it again.
+   *
+   * @param key - Ledger key
+   * @param error - Error raised
+   */
+  async fail(key: string, error: unknown): Promise<void> {
+    try {
+      const record = await this.store.get(key);
+      if (record && record.status !== "submitted") {
+        await this.transition(key, "error", {
+          detail: error instanceof Error ? error.message : String(error),
+        });
+      }
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Reconcile an orphaned submitted settlement against the chain
+   *
+   * @param record - Orphaned record with a transaction hash
+   * @param getReceipt - Receipt lookup for the record's network
+   * @returns Updated record, or undefined if the transaction is still pending
+   */
+  async reconcile(
+    record: SettlementRecord,
+    getReceipt: ReceiptLookup,
+  ): Promise<SettlementRecord | undefined> {
+    if (!record.transaction) {
+      return undefined;
+    }
+
+    const receipt = await getReceipt(record.transaction as Hex);
+    if (!receipt) {
+      return undefined;
+    }
+
+    const success = receipt.status === "success";
+    await this.complete(record.key, {
+      success,
+      transaction: record.transaction,
+      network: record.network as SettleResponse["network"],
+      payer: record.payer,
+      ...(success ? {} : { errorReason: "invalid_transaction_state" as const }),
+    });
+
+    logger.info(
+      { key: record.key, transaction: record.transaction, status: receipt.status },
+      "Reconciled orphaned settlement from ledger",
+    );
+
+    return this.store.get(record.key);
+  }
+
+  /**
+   * Get a record by network and contextKey
+   *
+   * @param network - Network name
+   * @param contextKey - SettlementRouter contextKey
+   * @returns The record, or undefined if unknown
+   */
+  async get(network: string, contextKey: string): Promise<SettlementRecord | undefined> {
+    return this.store.get(SettlementLedger.key(network, contextKey));
+  }
+
+  /**
+   * List records, newest first
+   *
+   * @param query - Query options
+   * @returns Matching records
+   */
+  async list(query: SettlementQuery): Promise<SettlementRecord[]> {
+    return this.store.list(query);
+  }
+
+  /**
+   * Close the underlying store
+   */
+  async close(): Promise<void> {
+    await this.store.close();
+  }
+}
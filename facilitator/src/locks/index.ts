@@ -0,0 +1,36 @@
+/**
+ * Distributed Lock Module Exports
+ *
+ * Unified exports for settlement locking functionality.
+ */
+
+import type { LockConfig, LockStore } from "./interface.js";
+import { MemoryLockStore } from "./memory-store.js";
+import { RedisLockStore } from "./redis-store.js";
+import { LockManager } from "./lock-manager.js";
+
+export type { LockConfig, LockStore } from "./interface.js";
+export { MemoryLockStore } from "./memory-store.js";
+export { RedisLockStore } from "./redis-store.js";
+export type { RedisLockStoreOptions } from "./redis-store.js";
+export { LockManager, payerLockKey, settlementLockKey, treasuryLockKey } from "./lock-manager.js";
+export type { HeldLock, LockManagerOptions } from "./lock-manager.js";
+
+/**
+ * Create a lock manager from configuration
+ *
+ * @param config - Lock configuration
+ * @returns Lock manager backed by the configured store
+ */
+export function createLockManager(config: LockConfig): LockManager {
+  let store: LockStore;
+  if (config.backend === "redis") {
+    if (!config.redisUrl) {
+      throw new Error("redisUrl is required for the redis lock backend");
+    }
+    store = new RedisLockStore({ redisUrl: config.redisUrl, keyPrefix: config.keyPrefix });
+  } else {
+    store = new MemoryLockStore();
+  }
+  return new LockManager(store, { ttlMs: config.ttlMs, maxHoldMs: config.maxHoldMs });
+}
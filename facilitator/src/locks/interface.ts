@@ -0,0 +1,64 @@
+/**
+ * Distributed Lock Interface
+ *
+ * Storage interface for settlement locks so that duplicate-payer and in-flight
+ * settlement protection can span several facilitator replicas.
+ */
+
+/**
+ * Pluggable lock store
+ *
+ * Every lock carries an owner token and a TTL. Only the owner can extend or release
+ * a lock, and a lock whose owner crashed expires on its own once the TTL elapses.
+ */
+export interface LockStore {
+  /**
+   * Acquire a lock if nobody holds it
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @param ttlMs - Lock lifetime in milliseconds
+   * @returns True if the lock was acquired
+   */
+  acquire(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Extend a lock held by this owner
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @param ttlMs - New lifetime in milliseconds (from now)
+   * @returns False if the lock expired or is held by another owner
+   */
+  extend(key: string, token: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Release a lock held by this owner
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @returns False if the lock expired or is held by another owner
+   */
+  release(key: string, token: string): Promise<boolean>;
+
+  /**
+   * Release resources held by the store
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Lock configuration
+ */
+export interface LockConfig {
+  /** Storage backend: "memory" (single replica) or "redis" (shared across replicas) */
+  backend: "memory" | "redis";
+  /** Redis / RESP server URL (redis backend) */
+  redisUrl?: string;
+  /** Key prefix for locks written to Redis */
+  keyPrefix: string;
+  /** Lock lifetime; held locks are renewed, so this bounds how long a crashed replica blocks a payer */
+  ttlMs: number;
+  /** Longest a lock is renewed for; it then expires after one more TTL */
+  maxHoldMs: number;
+}
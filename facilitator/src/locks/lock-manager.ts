@@ -0,0 +1,221 @@
+/**
+ * Lock Manager
+ *
+ * Acquires settlement locks from a lock store and keeps them alive while the
+ * settlement runs:
+ * - Each acquired lock gets a random owner token and the configured TTL
+ * - Held locks are renewed in the background (every third of the TTL), so long
+ *   settlements keep their lock while a crashed replica's locks expire after one TTL
+ * - Renewal stops once a lock has been held for the maximum hold time, so a stuck
+ *   settlement can't hold it forever
+ * - Locks still held at shutdown are released
+ */
+
+import { randomUUID } from "crypto";
+import type { LockStore } from "./interface.js";
+import { LockUnavailableError } from "../errors.js";
+import { getLogger, recordMetric } from "../telemetry.js";
+import { DEFAULTS } from "../defaults.js";
+
+const logger = getLogger();
+
+/**
+ * A lock held by this replica
+ */
+export interface HeldLock {
+  /** Lock key */
+  readonly key: string;
+  /** Release the lock (errors are logged, the TTL cleans up) */
+  release(): Promise<void>;
+}
+
+/**
+ * Lock manager options
+ */
+export interface LockManagerOptions {
+  /** Lock lifetime in milliseconds */
+  ttlMs: number;
+  /** Renewal interval in milliseconds (default: ttlMs / 3) */
+  renewIntervalMs?: number;
+  /** Longest a lock is renewed for in milliseconds (default: DEFAULTS.locks.MAX_HOLD_MS) */
+  maxHoldMs?: number;
+}
+
+interface LocalLock {
+  token: string;
+  timer: NodeJS.Timeout;
+  acquiredAt: number;
+}
+
+/**
+ * Lock manager
+ */
+export class LockManager {
+  private held = new Map<string, LocalLock>();
+  private readonly ttlMs: number;
+  private readonly renewIntervalMs: number;
+  private readonly maxHoldMs: number;
+
+  /**
+   * Create a lock manager
+   *
+   * @param store - Backing lock store
+   * @param options - Lock options
+   */
+  constructor(
+    private readonly store: LockStore,
+    options: LockManagerOptions,
+  ) {
+    this.ttlMs = options.ttlMs;
+    this.renewIntervalMs = options.renewIntervalMs ?? Math.max(1, Math.floor(options.ttlMs / 3));
+    this.maxHoldMs = options.maxHoldMs ?? DEFAULTS.locks.MAX_HOLD_MS;
+  }
+
+  /**
+   * Acquire a lock without waiting
+   *
+   * @param key - Lock key (e.g. "payer:base-sepolia:0xabc...")
+   * @returns The held lock, or undefined if another request (on any replica) holds it
+   * @throws LockUnavailableError if the lock store cannot be reached
+   */
+  async tryAcquire(key: string): Promise<HeldLock | undefined> {
+    // Checked synchronously so concurrent requests on this replica skip the store round trip
+    if (this.held.has(key)) {
+      return undefined;
+    }
+
+    const token = randomUUID();
+    let acquired: boolean;
+    try {
+      acquired = await this.store.acquire(key, token, this.ttlMs);
+    } catch (error) {
+      recordMetric("facilitator.lock.errors", 1, { operation: "acquire" });
+      throw new LockUnavailableError(
+        "Lock store unavailable",
+        { key },
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    if (!acquired || this.held.has(key)) {
+      if (acquired) {
+        // Lost a local race while waiting for the store
+        await this.store.release(key, token).catch(() => undefined);
+      }
+      return undefined;
+    }
+
+    const timer = setInterval(() => void this.renew(key, token), this.renewIntervalMs);
+    timer.unref();
+    this.held.set(key, { token, timer, acquiredAt: Date.now() });
+
+    return {
+      key,
+      release: () => this.release(key, token),
+    };
+  }
+
+  /**
+   * Get the number of locks held by this replica
+   *
+   * @returns Held lock count
+   */
+  getHeldCount(): number {
+    return this.held.size;
+  }
+
+  /**
+   * Release all locks held by this replica and close the store
+   */
+  async close(): Promise<void> {
+    const held = Array.from(this.held.entries());
+    await Promise.all(held.map(([key, lock]) => this.release(key, lock.token)));
+    await this.store.close();
+  }
+
+  /**
+   * Release a held lock
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   */
+  private async release(key: string, token: string): Promise<void> {
+    const lock = this.held.get(key);
+    if (lock?.token !== token) {
+      return;
+    }
+    clearInterval(lock.timer);
+    this.held.delete(key);
+
+    try {
+      await this.store.release(key, token);
+    } catch (error) {
+      recordMetric("facilitator.lock.errors", 1, { operation: "release" });
+      logger.warn({ key, error }, "Failed to release lock, it will expire after its TTL");
+    }
+  }
+
+  /**
+   * Extend a held lock, or give it up once it has been held for the maximum hold time
+   *
+   * A lock given up is left to expire in the store after its TTL.
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   */
+  private async renew(key: string, token: string): Promise<void> {
+    const lock = this.held.get(key);
+    if (lock?.token === token && Date.now() - lock.acquiredAt >= this.maxHoldMs) {
+      clearInterval(lock.timer);
+      this.held.delete(key);
+      recordMetric("facilitator.lock.abandoned", 1);
+      logger.warn(
+        { key, heldMs: Date.now() - lock.acquiredAt },
+        "Lock held for too long, no longer renewing it",
+      );
+      return;
+    }
+
+    try {
+      const extended = await this.store.extend(key, token, this.ttlMs);
+      if (!extended && this.held.get(key)?.token === token) {
+        recordMetric("facilitator.lock.lost", 1);
+        logger.warn({ key }, "Lock expired while still in use");
+      }
+    } catch (error) {
+      recordMetric("facilitator.lock.errors", 1, { operation: "extend" });
+      logger.warn({ key, error }, "Failed to extend lock");
+    }
+  }
+}
+
+/**
+ * Build the lock key for a payer with a settlement in flight
+ *
+ * @param network - Network name
+ * @param payer - Payer address
+ * @returns Lock key
+ */
+export function payerLockKey(network: string, payer: string): string {
+  return `payer:${network}:${payer.toLowerCase()}`;
+}
+
+/**
+ * Build the lock key for a settlement commitment (ledger key of the authorization)
+ *
+ * @param ledgerKey - Settlement ledger key (`${network}:${contextKey}`)
+ * @returns Lock key
+ */
+export function settlementLockKey(ledgerKey: string): string {
+  return `settlement:${ledgerKey}`;
+}
+
+/**
+ * Build the lock key for the treasury balance check of a network
+ *
+ * @param network - Network name
+ * @returns Lock key
+ */
+export function treasuryLockKey(network: string): string {
+  return `treasury:${network}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Memory Lock Store
+ *
+ * Keeps locks in process memory. Only protects a single facilitator instance;
+ * use the Redis store when running several replicas behind a load balancer.
+ */
+
+import type { LockStore } from "./interface.js";
+
+interface MemoryLock {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory lock store
+ */
+export class MemoryLockStore implements LockStore {
+  private locks = new Map<string, MemoryLock>();
+
+  /**
+   * Acquire a lock if nobody holds it
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @param ttlMs - Lock lifetime in milliseconds
+   * @returns True if the lock was acquired
+   */
+  async acquire(key: string, token: string, ttlMs: number): Promise<boolean> {
+    if (this.live(key)) {
+      return false;
+    }
+    this.locks.set(key, { token, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  /**
+   * Extend a lock held by this owner
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @param ttlMs - New lifetime in milliseconds (from now)
+   * @returns False if the lock expired or is held by another owner
+   */
+  async extend(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const lock = this.live(key);
+    if (lock?.token !== token) {
+      return false;
+    }
+    lock.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  /**
+   * Release a lock held by this owner
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @returns False if the lock expired or is held by another owner
+   */
+  async release(key: string, token: string): Promise<boolean> {
+    if (this.live(key)?.token !== token) {
+      return false;
+    }
+    this.locks.delete(key);
+    return true;
+  }
+
+  /**
+   * Release resources held by the store
+   */
+  async close(): Promise<void> {
+    this.locks.clear();
+  }
+
+  /**
+   * Get an unexpired lock, dropping it if it has expired
+   *
+   * @param key - Lock key
+   * @returns The lock, or undefined if free
+   */
+  private live(key: string): MemoryLock | undefined {
+    const lock = this.locks.get(key);
+    if (lock && lock.expiresAt <= Date.now()) {
+      this.locks.delete(key);
+      return undefined;
+    }
+    return lock;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Redis Lock Store
+ *
+ * Shares locks between facilitator replicas through Redis or any RESP-compatible
+ * server. Locks are plain keys holding the owner token, created with SET NX PX so
+ * that they expire on their own; extend and release compare the token in a script
+ * so a replica never touches a lock that has since passed to another owner.
+ */
+
+import type { LockStore } from "./interface.js";
+import { RespClient } from "../cache/resp-client.js";
+
+/** Extend the lock if the token still matches (returns 1 on success) */
+export const EXTEND_SCRIPT =
+  'if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("PEXPIRE", KEYS[1], ARGV[2]) else return 0 end';
+
+/** Delete the lock if the token still matches (returns 1 on success) */
+export const RELEASE_SCRIPT =
+  'if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("DEL", KEYS[1]) else return 0 end';
+
+/**
+ * Redis lock store options
+ */
+export interface RedisLockStoreOptions {
+  /** Redis / RESP server URL, e.g. redis://:password@localhost:6379/0 */
+  redisUrl: string;
+  /** Key prefix for lock keys (default: "x402x:lock:") */
+  keyPrefix?: string;
+  /** Per-command timeout in milliseconds (default: 2000) */
+  commandTimeoutMs?: number;
+}
+
+/**
+ * Redis-backed lock store
+ *
+ * Server errors are propagated so callers can fail closed instead of settling unprotected.
+ */
+export class RedisLockStore implements LockStore {
+  private client: RespClient;
+  private keyPrefix: string;
+
+  /**
+   * Create a Redis lock store
+   *
+   * @param options - Store options
+   */
+  constructor(options: RedisLockStoreOptions) {
+    this.client = new RespClient({
+      url: options.redisUrl,
+      commandTimeoutMs: options.commandTimeoutMs,
+    });
+    this.keyPrefix = options.keyPrefix ?? "x402x:lock:";
+  }
+
+  /**
+   * Acquire a lock if nobody holds it
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @param ttlMs - Lock lifetime in milliseconds
+   * @returns True if the lock was acquired
+   */
+  async acquire(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const reply = await this.client.command("SET", this.prefixed(key), token, "NX", "PX", ttlMs);
+    return reply === "OK";
+  }
+
+  /**
+   * Extend a lock held by this owner
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @param ttlMs - New lifetime in milliseconds (from now)
+   * @returns False if the lock expired or is held by another owner
+   */
+  async extend(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const reply = await this.client.command(
+      "EVAL",
+      EXTEND_SCRIPT,
+      1,
+      this.prefixed(key),
+      token,
+      ttlMs,
+    );
+    return reply === 1;
+  }
+
+  /**
+   * Release a lock held by this owner
+   *
+   * @param key - Lock key
+   * @param token - Owner token
+   * @returns False if the lock expired or is held by another owner
+   */
+  async release(key: string, token: string): Promise<boolean> {
+    const reply = await this.client.command("EVAL", RELEASE_SCRIPT, 1, this.prefixed(key), token);
+    return reply === 1;
+  }
+
+  /**
+   * Close the server connection
+   */
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+
+  /**
+   * Build the stored key
+   *
+   * @param key - Lock key
+   * @returns Key with this store's prefix
+   */
+  private prefixed(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Admin Authentication Middleware
+ *
+ * Protects operational endpoints (fee claiming, pending-fee inspection, audit log)
+ * with API-key authentication and role scoping.
+ *
+ * Two authentication methods are supported:
+ * - Bearer token: `Authorization: Bearer <secret>`
+ * - Signed request: `X-Admin-Key-Id`, `X-Admin-Timestamp`, `X-Admin-Nonce` and
+ *   `X-Admin-Signature` headers, where the signature is hex HMAC-SHA256 over
+ *   `${timestamp}\n${nonce}\n${METHOD}\n${path}\n${body}` using the key's secret.
+ *   Signed requests never send the secret over the wire, and each nonce is accepted once
+ *   per key, so a captured request can't be replayed while its timestamp is valid.
+ *
+ * Roles are hierarchical: viewer < operator < admin.
+ * Every admin request (including denied ones) is written to the audit log.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { AdminApiKey, AdminConfig, AdminRole } from "../config.js";
+import type { AdminAuditLog } from "../admin-audit.js";
+import { createMemoryCache, type CacheInterface } from "../cache/index.js";
+
+const ROLE_RANK: Record<AdminRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3,
+};
+
+/**
+ * Authenticated admin caller, stored in `res.locals.admin`
+ */
+export interface AdminPrincipal {
+  id: string;
+  role: AdminRole;
+  authMethod: "bearer" | "signature";
+}
+
+/**
+ * Accepted nonce format: 16 to 128 URL-safe characters (e.g. a UUID or random hex)
+ */
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+/**
+ * Request with the raw body captured by express.json (used for signature checks)
+ */
+type RequestWithRawBody = Request & { rawBody?: Buffer };
+
+/**
+ * Admin authentication helpers
+ */
+export interface AdminAuth {
+  /**
+   * Create a middleware that requires the given minimum role
+   *
+   * @param role - Minimum role required
+   * @param action - Action name recorded in the audit log
+   */
+  requireRole(role: AdminRole, action: string): RequestHandler;
+}
+
+/**
+ * Constant-time string comparison via SHA-256 digests (handles different lengths)
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns True if both strings are equal
+ */
+function safeEqual(a: string, b: string): boolean {
+  const digestA = createHash("sha256").update(a).digest();
+  const digestB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Compute the signature expected for a signed admin request
+ *
+ * @param secret - API key secret
+ * @param timestamp - Unix timestamp (seconds) sent in X-Admin-Timestamp
+ * @param nonce - Unique request nonce sent in X-Admin-Nonce
+ * @param method - HTTP method
+ * @param path - Request path including query string
+ * @param body - Raw request body (empty string if none)
+ * @returns Hex-encoded HMAC-SHA256 signature
+ */
+export function signAdminRequest(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  method: string,
+  path: string,
+  body: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}\n${nonce}\n${method.toUpperCase()}\n${path}\n${body}`)
+    .digest("hex");
+}
+
+/**
+ * Authenticate a request against the configured API keys
+ *
+ * A signed request's nonce is recorded as used once its signature checks out.
+ *
+ * @param req - Express request
+ * @param config - Admin configuration
+ * @param usedNonces - Nonces of accepted signed requests
+ * @returns Principal on success, or an error message and status on failure
+ */
+async function authenticate(
+  req: RequestWithRawBody,
+  config: AdminConfig,
+  usedNonces: CacheInterface,
+): Promise<{ principal: AdminPrincipal } | { error: string; status: number }> {
+  const keyId = req.header("x-admin-key-id");
+  const signature = req.header("x-admin-signature");
+
+  if (keyId || signature) {
+    const timestamp = req.header("x-admin-timestamp");
+    const nonce = req.header("x-admin-nonce");
+    if (!keyId || !signature || !timestamp || !nonce) {
+      return {
+        error:
+          "Signed requests require X-Admin-Key-Id, X-Admin-Timestamp, X-Admin-Nonce and X-Admin-Signature",
+        status: 401,
+      };
+    }
+    if (!NONCE_PATTERN.test(nonce)) {
+      return { error: "X-Admin-Nonce must be 16 to 128 URL-safe characters", status: 401 };
+    }
+
+    const key = config.apiKeys.find((k) => k.id === keyId);
+    if (!key) {
+      return { error: "Unknown admin key", status: 401 };
+    }
+
+    const ts = Number(timestamp);
+    const skew = Math.abs(Math.floor(Date.now() / 1000) - ts);
+    if (!Number.isFinite(ts) || skew > config.signatureMaxSkewSeconds) {
+      return { error: "Request timestamp outside allowed window", status: 401 };
+    }
+
+    const body = req.rawBody ? req.rawBody.toString("utf8") : "";
+    const expected = signAdminRequest(
+      key.secret,
+      timestamp,
+      nonce,
+      req.method,
+      req.originalUrl,
+      body,
+    );
+    if (!safeEqual(expected, signature.toLowerCase())) {
+      return { error: "Invalid request signature", status: 401 };
+    }
+
+    // Remembered for as long as any timestamp accepted now stays within the window
+    let uses: number;
+    try {
+      uses = await usedNonces.increment(
+        `${key.id}:${nonce}`,
+        1,
+        2 * config.signatureMaxSkewSeconds,
+      );
+    } catch {
+      return { error: "Unable to check the request nonce", status: 503 };
+    }
+    if (uses > 1) {
+      return { error: "Request nonce already used", status: 401 };
+    }
+
+    return { principal: { id: key.id, role: key.role, authMethod: "signature" } };
+  }
+
+  const authorization = req.header("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    const token = authorization.slice("Bearer ".length).trim();
+    // Compare against every key so timing does not reveal the matching index
+    let matched: AdminApiKey | undefined;
+    for (const key of config.apiKeys) {
+      if (safeEqual(key.secret, token) && !matched) {
+        matched = key;
+      }
+    }
+    if (!matched) {
+      return { error: "Invalid admin API key", status: 401 };
+    }
+    return { principal: { id: matched.id, role: matched.role, authMethod: "bearer" } };
+  }
+
+  return { error: "Missing admin credentials", status: 401 };
+}
+
+/**
+ * Create admin authentication helpers
+ *
+ * @param config - Admin configuration
+ * @param auditLog - Audit log receiving denied requests
+ * @param usedNonces - Nonces of accepted signed requests (default: in-memory, this replica only)
+ * @returns Admin authentication helpers
+ */
+export function createAdminAuth(
+  config: AdminConfig,
+  auditLog: AdminAuditLog,
+  usedNonces: CacheInterface = createMemoryCache(),
+): AdminAuth {
+  return {
+    requireRole(role: AdminRole, action: string): RequestHandler {
+      return async (req: Request, res: Response, next: NextFunction) => {
+        const route = `${req.method} ${req.path}`;
+
+        if (config.apiKeys.length === 0) {
+          auditLog.record({
+            actor: "anonymous",
+            action,
+            route,
+            ip: req.ip,
+            outcome: "denied",
+            details: { reason: "admin API not configured" },
+          });
+          res.status(403).json({
+            error: "Admin API disabled",
+            message: "No admin API keys are configured on this facilitator",
+          });
+          return;
+        }
+
+        const result = await authenticate(req, config, usedNonces);
+        if ("error" in result) {
+          auditLog.record({
+            actor: req.header("x-admin-key-id") || "anonymous",
+            action,
+            route,
+            ip: req.ip,
+            outcome: "denied",
+            details: { reason: result.error },
+          });
+          res.status(result.status).json({
+            error: result.status === 503 ? "Service Unavailable" : "Unauthorized",
+            message: result.error,
+          });
+          return;
+        }
+
+        const { principal } = result;
+        if (ROLE_RANK[principal.role] < ROLE_RANK[role]) {
+          auditLog.record({
+            actor: principal.id,
+            role: principal.role,
+            authMethod: principal.authMethod,
+            action,
+            route,
+            ip: req.ip,
+            outcome: "denied",
+            details: { reason: "insufficient role", requiredRole: role },
+          });
+          res.status(403).json({
+            error: "Forbidden",
+            message: `Role '${principal.role}' cannot perform '${action}' (requires '${role}')`,
+          });
+          return;
+        }
+
+        res.locals.admin = principal;
+        next();
+      };
+    },
+  };
+}
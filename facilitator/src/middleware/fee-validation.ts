@@ -2,16 +2,17 @@
  * Fee Validation Middleware
  *
  * Validates that facilitator fee meets minimum requirements based on gas cost calculations.
+ * A valid, unexpired fee quote issued by /calculate-fee is honoured without recalculating.
  */
 
 import type { Request, Response, NextFunction } from "express";
 import type { PaymentRequirements } from "x402/types";
-import { getLogger } from "../telemetry.js";
+import { getLogger, recordMetric } from "../telemetry.js";
 import { calculateMinFacilitatorFee, type GasCostConfig } from "../gas-cost.js";
 import { isSettlementMode, validateTokenAddress } from "../settlement.js";
-import { getNetworkConfig } from "@x402x/core";
 import type { DynamicGasPriceConfig } from "../dynamic-gas-price.js";
 import type { TokenPriceConfig } from "../token-price.js";
+import { checkFeeQuote, type FeeQuoteConfig } from "../fee-quote.js";
 
 const logger = getLogger();
 
@@ -21,12 +22,14 @@ const logger = getLogger();
  * @param config - Gas cost configuration
  * @param dynamicConfig - Dynamic gas price configuration
  * @param tokenPriceConfig - Token price configuration
+ * @param feeQuoteConfig - Signed fee quote configuration (quotes ignored if omitted)
  * @returns Express middleware function
  */
 export function createFeeValidationMiddleware(
   config: GasCostConfig,
   dynamicConfig: DynamicGasPriceConfig,
   tokenPriceConfig: TokenPriceConfig,
+  feeQuoteConfig?: FeeQuoteConfig,
 ) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -45,12 +48,13 @@ export function createFeeValidationMiddleware(
         return next();
       }
 
-      // Validate token address (only USDC is currently supported)
+      // Validate token address against the network's asset registry
       const network = paymentRequirements.network;
       const asset = paymentRequirements.asset;
 
+      let assetConfig;
       try {
-        validateTokenAddress(network, asset);
+        assetConfig = validateTokenAddress(network, asset);
       } catch (error) {
         logger.warn(
           {
@@ -95,9 +99,42 @@ export function createFeeValidationMiddleware(
         });
       }
 
-      // Get token decimals dynamically from network config
-      const networkConfig = getNetworkConfig(network);
-      const tokenDecimals = networkConfig.defaultAsset.decimals;
+      // Honour an unexpired quote for these exact settlement parameters
+      const feeQuoteId = paymentRequirements.extra?.feeQuoteId;
+      if (feeQuoteConfig?.enabled && typeof feeQuoteId === "string") {
+        const hookData = paymentRequirements.extra?.hookData;
+        const quoteCheck = checkFeeQuote(feeQuoteConfig, feeQuoteId, {
+          network,
+          hook,
+          hookData: typeof hookData === "string" ? hookData : "0x",
+          asset: assetConfig.address,
+          fee: facilitatorFee,
+        });
+
+        if (quoteCheck.valid) {
+          recordMetric("facilitator.fee.quote_honored", 1, { network });
+          logger.debug(
+            {
+              network,
+              hook,
+              providedFee: facilitatorFee,
+              quotedFee: quoteCheck.quote.fee,
+              expiresAt: quoteCheck.quote.expiresAt,
+            },
+            "Facilitator fee validated against fee quote",
+          );
+          return next();
+        }
+
+        recordMetric("facilitator.fee.quote_rejected", 1, { network, reason: quoteCheck.reason });
+        logger.debug(
+          { network, hook, reason: quoteCheck.reason },
+          "Fee quote not honoured, recalculating minimum fee",
+        );
+      }
+
+      // Fee is paid in the settlement asset
+      const tokenDecimals = assetConfig.decimals;
 
       // Calculate minimum required fee
       let feeCalculation;
@@ -109,6 +146,7 @@ export function createFeeValidationMiddleware(
           config,
           dynamicConfig,
           tokenPriceConfig,
+          assetConfig,
         );
       } catch (error) {
         logger.error({ error, network, hook }, "Failed to calculate minimum facilitator fee");
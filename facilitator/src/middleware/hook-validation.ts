@@ -1,81 +1,148 @@
 /**
- * Hook Whitelist Validation Middleware
+ * Hook Validation Middleware
  *
- * Validates that hooks are in the whitelist to prevent malicious Hook gas attacks.
+ * Validates that hooks are in the whitelist to prevent malicious Hook gas attacks,
+ * and rejects malformed hookData for built-in and registered hooks before any gas
+ * estimation takes place.
  */
 
 import type { Request, Response, NextFunction } from "express";
 import type { PaymentRequirements } from "x402/types";
 import { getLogger } from "../telemetry.js";
-import { isHookAllowed, type GasCostConfig } from "../gas-cost.js";
+import { checkHookAllowed, type GasCostConfig } from "../gas-cost.js";
+import { getHookCodeHash } from "../hook-code-hash.js";
 import { isSettlementMode } from "../settlement.js";
+import { resolveHookTypeInfo } from "../hook-validators/index.js";
 
 const logger = getLogger();
 
+/**
+ * Get the amount available to the hook (authorization value minus facilitator fee)
+ *
+ * @param body - Request body
+ * @param paymentRequirements - Payment requirements from the request body
+ * @returns Hook amount, or undefined if the body does not carry valid amounts
+ */
+function getHookAmount(
+  body: Request["body"],
+  paymentRequirements: PaymentRequirements,
+): bigint | undefined {
+  try {
+    const value =
+      body?.paymentPayload?.payload?.authorization?.value ?? paymentRequirements.maxAmountRequired;
+    return BigInt(value) - BigInt(paymentRequirements.extra?.facilitatorFee ?? 0);
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Create hook validation middleware
  *
  * @param config - Gas cost configuration (includes hook whitelist)
+ * @param rpcUrls - Optional RPC URLs per network, used to read hook bytecode for code hash matching
  * @returns Express middleware function
  */
-export function createHookValidationMiddleware(config: GasCostConfig) {
-  return (req: Request, res: Response, next: NextFunction) => {
+export function createHookValidationMiddleware(
+  config: GasCostConfig,
+  rpcUrls: Record<string, string> = {},
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      // Skip if hook whitelist is disabled
-      if (!config.hookWhitelistEnabled) {
-        return next();
-      }
-
       // Get payment requirements from request body
       const paymentRequirements: PaymentRequirements | undefined = req.body?.paymentRequirements;
 
-      if (!paymentRequirements) {
-        return res.status(400).json({
-          error: "Invalid request",
-          message: "Missing paymentRequirements in request body",
-        });
-      }
+      if (config.hookWhitelistEnabled) {
+        if (!paymentRequirements) {
+          return res.status(400).json({
+            error: "Invalid request",
+            message: "Missing paymentRequirements in request body",
+          });
+        }
 
-      // Skip if not settlement mode
-      if (!isSettlementMode(paymentRequirements)) {
-        return next();
-      }
+        // Skip if not settlement mode
+        if (!isSettlementMode(paymentRequirements)) {
+          return next();
+        }
 
-      // Extract hook address
-      const hook = paymentRequirements.extra?.hook;
-      if (!hook || typeof hook !== "string") {
-        return res.status(400).json({
-          error: "Invalid request",
-          message: "Missing or invalid hook address in settlement extra parameters",
-        });
+        // Extract hook address
+        const hook = paymentRequirements.extra?.hook;
+        if (!hook || typeof hook !== "string") {
+          return res.status(400).json({
+            error: "Invalid request",
+            message: "Missing or invalid hook address in settlement extra parameters",
+          });
+        }
+
+        // Check if hook is allowed
+        const network = paymentRequirements.network;
+        const { allowed, reason } = await checkHookAllowed(network, hook, config, rpcUrls);
+
+        if (!allowed) {
+          logger.warn(
+            {
+              network,
+              hook,
+              allowedHooks: config.allowedHooks[network] || [],
+            },
+            "Hook not in whitelist",
+          );
+
+          return res.status(403).json({
+            error: "Forbidden",
+            message: `Hook ${hook} is not in whitelist for network ${network}. This hook is not supported for security reasons.`,
+            allowedHooks: config.allowedHooks[network] || [],
+          });
+        }
+
+        logger.debug({ network, hook, reason }, "Hook allowed by whitelist");
       }
 
-      // Check if hook is allowed
-      const network = paymentRequirements.network;
-      const allowed = isHookAllowed(network, hook, config);
+      // Validate hookData for hooks with a known validator
+      if (paymentRequirements && isSettlementMode(paymentRequirements)) {
+        const { network, extra } = paymentRequirements;
+        const hook = extra?.hook;
+        const hookAmount = getHookAmount(req.body, paymentRequirements);
 
-      if (!allowed) {
-        logger.warn(
-          {
+        if (typeof hook === "string" && hookAmount !== undefined) {
+          // Unreadable bytecode leaves validation to gas estimation
+          const hookInfo = await resolveHookTypeInfo(network, hook, (address) =>
+            getHookCodeHash(network, address, rpcUrls, config.hookCodeHashCacheTTL).catch(
+              () => undefined,
+            ),
+          );
+          const validation = hookInfo.validator?.validate(
             network,
             hook,
-            allowedHooks: config.allowedHooks[network] || [],
-          },
-          "Hook not in whitelist",
-        );
-
-        return res.status(403).json({
-          error: "Forbidden",
-          message: `Hook ${hook} is not in whitelist for network ${network}. This hook is not supported for security reasons.`,
-          allowedHooks: config.allowedHooks[network] || [],
-        });
+            typeof extra?.hookData === "string" ? extra.hookData : "0x",
+            hookAmount,
+          );
+
+          if (validation && !validation.isValid) {
+            logger.warn(
+              {
+                network,
+                hook,
+                hookType: hookInfo.hookType,
+                errorReason: validation.errorReason,
+              },
+              "Invalid hook data",
+            );
+
+            return res.status(400).json({
+              error: "Invalid hook data",
+              message: validation.errorReason,
+              hookType: hookInfo.hookType,
+            });
+          }
+        }
       }
 
       // Hook is valid, proceed
       logger.debug(
         {
-          network,
-          hook,
+          network: paymentRequirements?.network,
+          hook: paymentRequirements?.extra?.hook,
         },
         "Hook validated successfully",
       );
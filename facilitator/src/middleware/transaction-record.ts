@@ -20,9 +20,27 @@ export function createTransactionRecordMiddleware() {
     res.json = function (body) {
       try {
         const paymentRequirements: PaymentRequirements | undefined = req.body?.paymentRequirements;
+
+        // Async settlements respond with a job; record the final response once it is known
+        const completion: Promise<SettleResponse | undefined> | undefined =
+          res.locals.settlementCompletion;
+        if (completion) {
+          completion
+            .then((settleResponse) => {
+              if (paymentRequirements && settleResponse?.transaction) {
+                return recodeTransaction(paymentRequirements, settleResponse);
+              }
+            })
+            .catch((error) => {
+              logger.error({ error }, "Failed to record async settlement transaction");
+            });
+          return originalJson.call(this, body);
+        }
+
         const settleResponse: SettleResponse = body;
 
-        if (paymentRequirements && settleResponse?.transaction) {
+        // Replayed settlements were already recorded when they first completed
+        if (paymentRequirements && settleResponse?.transaction && !res.locals.settlementReplay) {
           const { transaction } = settleResponse;
           logger.info(
             {
@@ -0,0 +1,296 @@
+/**
+ * Network Health Module
+ *
+ * Periodically probes every network the facilitator settles on:
+ * - RPC reachability and latest block age (a stalled node serves stale state)
+ * - Chain ID reported by the RPC versus the one resolved by NetworkChainResolver
+ * - Native gas balance of every pool account versus a configurable floor
+ *
+ * Results feed GET /ready and are recorded as gauges so alerts fire before
+ * settlements start failing.
+ */
+
+import { createPublicClient, formatEther, http, type Address, type PublicClient } from "viem";
+import { evm } from "x402/types";
+import { networkChainResolver } from "./network-chain-resolver.js";
+import { getLogger, recordGauge } from "./telemetry.js";
+
+const logger = getLogger();
+
+/**
+ * Readiness probe configuration
+ */
+export interface ReadinessConfig {
+  /** Probe networks for GET /ready */
+  enabled: boolean;
+  /** Interval between probes in milliseconds */
+  probeIntervalMs: number;
+  /** RPC request timeout in milliseconds */
+  probeTimeoutMs: number;
+  /** Maximum age of the latest block in seconds */
+  maxBlockAgeSeconds: number;
+  /** Minimum native balance per account, in wei, by network */
+  minGasBalance: Record<string, string>;
+}
+
+/**
+ * Native balance of a facilitator account
+ */
+export interface AccountGasStatus {
+  address: string;
+  /** Balance in wei */
+  balance: string;
+  belowFloor: boolean;
+}
+
+/**
+ * Probe result for one network
+ */
+export interface NetworkHealth {
+  network: string;
+  status: "ok" | "warning" | "error";
+  message?: string;
+  rpcReachable: boolean;
+  chainId?: number;
+  expectedChainId?: number;
+  blockNumber?: string;
+  blockAgeSeconds?: number;
+  /** Balance floor in wei */
+  minGasBalance: string;
+  accounts: AccountGasStatus[];
+  checkedAt: string;
+}
+
+/**
+ * RPC methods used by the probes
+ */
+export type NetworkProbeClient = Pick<PublicClient, "getChainId" | "getBlock" | "getBalance">;
+
+/**
+ * Anything that lists the accounts of a network (an AccountPool)
+ */
+export interface AccountSource {
+  getAccountsInfo(): Array<{ address: string }>;
+}
+
+/**
+ * Network health monitor
+ */
+export class NetworkHealthMonitor {
+  private snapshot = new Map<string, NetworkHealth>();
+  private clients = new Map<string, NetworkProbeClient>();
+  private timer: NodeJS.Timeout | undefined;
+  private inFlight: Promise<void> | undefined;
+
+  /**
+   * Create a network health monitor
+   *
+   * @param pools - Account pools by network
+   * @param config - Readiness configuration
+   * @param rpcUrls - Custom RPC URLs by network (chain default otherwise)
+   * @param createClient - Client factory (overridable for tests)
+   */
+  constructor(
+    private readonly pools: Map<string, AccountSource>,
+    private readonly config: ReadinessConfig,
+    private readonly rpcUrls: Record<string, string> = {},
+    private readonly createClient: (network: string) => NetworkProbeClient = (network) =>
+      createProbeClient(network, rpcUrls[network], config.probeTimeoutMs),
+  ) {}
+
+  /**
+   * Probe now and then on every interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    void this.probeAll();
+    this.timer = setInterval(() => void this.probeAll(), this.config.probeIntervalMs);
+    this.timer.unref();
+    logger.info(
+      { networks: Array.from(this.pools.keys()), intervalMs: this.config.probeIntervalMs },
+      "Started network health monitor",
+    );
+  }
+
+  /**
+   * Stop probing
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Probe all networks (concurrent calls share one probe run)
+   *
+   * @returns Resolves when every network has been probed
+   */
+  async probeAll(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = Promise.all(
+        Array.from(this.pools.entries()).map(async ([network, pool]) => {
+          this.snapshot.set(network, await this.probeNetwork(network, pool));
+        }),
+      )
+        .then(() => undefined)
+        .finally(() => {
+          this.inFlight = undefined;
+        });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Get the latest probe results, probing first if no results exist yet
+   *
+   * @returns Health of every network
+   */
+  async getStatus(): Promise<NetworkHealth[]> {
+    if (this.snapshot.size < this.pools.size) {
+      await this.probeAll();
+    }
+    return Array.from(this.snapshot.values());
+  }
+
+  /**
+   * Probe one network and record the results as metrics
+   *
+   * @param network - Network name
+   * @param pool - Accounts of the network
+   * @returns Network health
+   */
+  private async probeNetwork(network: string, pool: AccountSource): Promise<NetworkHealth> {
+    const addresses = pool.getAccountsInfo().map((account) => account.address);
+    const minGasBalance = BigInt(this.config.minGasBalance[network] ?? "0");
+    const health: NetworkHealth = {
+      network,
+      status: "ok",
+      rpcReachable: false,
+      minGasBalance: minGasBalance.toString(),
+      accounts: [],
+      checkedAt: new Date().toISOString(),
+    };
+
+    try {
+      const client = this.getClient(network);
+      const [chainId, block, balances, chainInfo] = await Promise.all([
+        client.getChainId(),
+        client.getBlock(),
+        Promise.all(addresses.map((address) => client.getBalance({ address: address as Address }))),
+        networkChainResolver.resolveNetworkChain(network),
+      ]);
+
+      health.rpcReachable = true;
+      health.chainId = chainId;
+      health.expectedChainId = chainInfo?.chain.id;
+      health.blockNumber = block.number?.toString();
+      health.blockAgeSeconds = Math.max(0, Math.floor(Date.now() / 1000) - Number(block.timestamp));
+      health.accounts = addresses.map((address, index) => ({
+        address,
+        balance: balances[index].toString(),
+        belowFloor: balances[index] < minGasBalance,
+      }));
+
+      const lowAccounts = health.accounts.filter((account) => account.belowFloor).length;
+      if (health.expectedChainId !== undefined && chainId !== health.expectedChainId) {
+        health.status = "error";
+        health.message = `RPC chain ID ${chainId} does not match expected ${health.expectedChainId}`;
+      } else if (health.blockAgeSeconds > this.config.maxBlockAgeSeconds) {
+        health.status = "error";
+        health.message = `Latest block is ${health.blockAgeSeconds}s old`;
+      } else if (lowAccounts > 0 && lowAccounts === health.accounts.length) {
+        health.status = "error";
+        health.message = "All accounts are below the gas balance floor";
+      } else if (lowAccounts > 0) {
+        health.status = "warning";
+        health.message = `${lowAccounts} account(s) below the gas balance floor`;
+      }
+    } catch (error) {
+      health.status = "error";
+      health.message = `RPC unreachable: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (health.status !== "ok") {
+      logger.warn(
+        { network, status: health.status, message: health.message },
+        "Network health check degraded",
+      );
+    }
+    this.recordMetrics(health);
+
+    return health;
+  }
+
+  /**
+   * Record probe results as gauges
+   *
+   * @param health - Network health
+   */
+  private recordMetrics(health: NetworkHealth): void {
+    const { network } = health;
+
+    recordGauge("facilitator.network.ready", health.status === "error" ? 0 : 1, { network });
+    recordGauge("facilitator.network.rpc_up", health.rpcReachable ? 1 : 0, { network });
+    if (health.blockAgeSeconds !== undefined) {
+      recordGauge("facilitator.network.block_age_seconds", health.blockAgeSeconds, { network });
+    }
+    if (health.chainId !== undefined && health.expectedChainId !== undefined) {
+      recordGauge(
+        "facilitator.network.chain_id_mismatch",
+        health.chainId === health.expectedChainId ? 0 : 1,
+        { network },
+      );
+    }
+    for (const account of health.accounts) {
+      const attributes = { network, account: account.address };
+      recordGauge(
+        "facilitator.account.native_balance",
+        Number(formatEther(BigInt(account.balance))),
+        attributes,
+      );
+      recordGauge("facilitator.account.below_gas_floor", account.belowFloor ? 1 : 0, attributes);
+    }
+  }
+
+  /**
+   * Get (or create) the probe client for a network
+   *
+   * @param network - Network name
+   * @returns Probe client
+   */
+  private getClient(network: string): NetworkProbeClient {
+    let client = this.clients.get(network);
+    if (!client) {
+      client = this.createClient(network);
+      this.clients.set(network, client);
+    }
+    return client;
+  }
+}
+
+/**
+ * Create a public client for probing a network
+ *
+ * @param network - Network name
+ * @param rpcUrl - Custom RPC URL (chain default otherwise)
+ * @param timeoutMs - Request timeout in milliseconds
+ * @returns Probe client
+ */
+function createProbeClient(
+  network: string,
+  rpcUrl: string | undefined,
+  timeoutMs: number,
+): NetworkProbeClient {
+  const chain = evm.getChainFromNetwork(network);
+  return createPublicClient({
+    chain,
+    transport: http(rpcUrl || chain.rpcUrls?.default?.http?.[0], {
+      timeout: timeoutMs,
+      retryCount: 0,
+    }),
+  });
+}
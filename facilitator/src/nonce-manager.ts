@@ -0,0 +1,470 @@
+/**
+ * Nonce Manager Module
+ *
+ * Tracks in-flight transactions for a single facilitator account and unsticks them.
+ *
+ * Every account processes transactions through a serial queue (see account-pool.ts),
+ * so a transaction that sits in the mempool stalls every later settlement on that
+ * account. The nonce manager:
+ * - Assigns nonces and records each submitted transaction
+ * - Detects transactions not mined within a configurable window
+ * - Resubmits them with the same nonce and a bumped fee (never below the current
+ *   network price from dynamic-gas-price.ts)
+ * - Detects dropped transactions (no longer known to the node) and rebroadcasts them
+ *
+ * It is installed transparently by overriding the signer's `sendTransaction` and
+ * `waitForTransactionReceipt` actions, so `writeContract` callers need no changes.
+ */
+
+import type { Address, Hex, TransactionReceipt } from "viem";
+import { getLogger, recordMetric } from "./telemetry.js";
+import { NonceError, TransactionTimeoutError } from "./errors.js";
+
+const logger = getLogger();
+
+/**
+ * Stuck transaction handling configuration
+ */
+export interface StuckTransactionConfig {
+  /** Enable stuck transaction detection and replacement */
+  enabled: boolean;
+  /** Time without being mined after which a transaction is considered stuck (ms) */
+  timeoutMs: number;
+  /** Fee increase per replacement in percent (nodes require at least 10) */
+  feeBumpPercent: number;
+  /** Maximum number of replacements before giving up */
+  maxReplacements: number;
+  /** Receipt polling interval (ms) */
+  pollIntervalMs: number;
+}
+
+/**
+ * Fee fields of a transaction
+ */
+interface TransactionFees {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+}
+
+/**
+ * Transaction request as passed to sendTransaction
+ */
+type TransactionRequest = Record<string, unknown> & TransactionFees & { nonce?: number };
+
+/**
+ * Chain access required by the nonce manager
+ */
+export interface NonceManagerClient {
+  /** Send a transaction without nonce management (the original viem action) */
+  send(request: TransactionRequest): Promise<Hex>;
+  /** Wait for a receipt without nonce management (the original viem action) */
+  waitForReceipt(args: { hash: Hex } & Record<string, unknown>): Promise<TransactionReceipt>;
+  getTransactionCount(args: { address: Address; blockTag: "latest" | "pending" }): Promise<number>;
+  getTransaction(args: { hash: Hex }): Promise<TransactionFees>;
+  getTransactionReceipt(args: { hash: Hex }): Promise<TransactionReceipt>;
+}
+
+/**
+ * In-flight transaction tracked by the nonce manager
+ */
+interface InFlightTransaction {
+  nonce: number;
+  request: TransactionRequest;
+  /** Original hash first, then every replacement */
+  hashes: Hex[];
+  fees?: TransactionFees;
+  submittedAt: number;
+  lastSentAt: number;
+  replacements: number;
+}
+
+/**
+ * Public view of an in-flight transaction
+ */
+export interface InFlightTransactionInfo {
+  nonce: number;
+  hash: Hex;
+  replacements: number;
+  pendingForMs: number;
+}
+
+/**
+ * Sleep for specified milliseconds
+ *
+ * @param ms - Milliseconds to sleep
+ * @returns Promise resolving after the delay
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check whether an error means the nonce was already used
+ *
+ * @param error - Error raised by the node
+ * @returns True for "nonce too low" style errors
+ */
+function isNonceUsedError(error: unknown): boolean {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return message.includes("nonce too low") || message.includes("nonce has already been used");
+}
+
+/**
+ * Per-account nonce manager with stuck transaction replacement
+ */
+export class NonceManager {
+  private inFlight = new Map<Hex, InFlightTransaction>();
+  /** Nonces assigned to sends that have not returned yet */
+  private reserved = new Set<number>();
+
+  /**
+   * Create a nonce manager
+   *
+   * @param address - Account address
+   * @param network - Network name (for logs and metrics)
+   * @param client - Chain access for the account
+   * @param config - Stuck transaction configuration
+   * @param getGasPrice - Current network gas price in wei (dynamic-gas-price.ts)
+   */
+  constructor(
+    private readonly address: Address,
+    private readonly network: string,
+    private readonly client: NonceManagerClient,
+    private readonly config: StuckTransactionConfig,
+    private readonly getGasPrice?: () => Promise<bigint>,
+  ) {}
+
+  /**
+   * Actions overriding the signer's defaults (for viem `client.extend`)
+   *
+   * @returns sendTransaction and waitForTransactionReceipt overrides
+   */
+  actions() {
+    return {
+      sendTransaction: (request: TransactionRequest) => this.sendTransaction(request),
+      waitForTransactionReceipt: (args: { hash: Hex } & Record<string, unknown>) =>
+        this.waitForTransactionReceipt(args),
+    };
+  }
+
+  /**
+   * Send a transaction with a managed nonce and start tracking it
+   *
+   * @param request - Transaction request
+   * @returns Transaction hash
+   */
+  async sendTransaction(request: TransactionRequest): Promise<Hex> {
+    // Caller-managed nonces are passed through untouched
+    if (request.nonce !== undefined) {
+      return this.client.send(request);
+    }
+
+    const nonce = await this.reserveNonce();
+    let hash: Hex;
+    try {
+      hash = await this.client.send({ ...request, nonce });
+    } finally {
+      // A failed send leaves the nonce unused, so the next transaction takes it (no gap)
+      this.reserved.delete(nonce);
+    }
+    const now = Date.now();
+
+    this.inFlight.set(hash, {
+      nonce,
+      request: { ...request, nonce },
+      hashes: [hash],
+      submittedAt: now,
+      lastSentAt: now,
+      replacements: 0,
+    });
+
+    logger.debug(
+      { address: this.address, network: this.network, nonce, hash },
+      "Transaction submitted",
+    );
+
+    return hash;
+  }
+
+  /**
+   * Wait for a receipt, replacing the transaction while it is stuck
+   *
+   * @param args - viem waitForTransactionReceipt arguments
+   * @returns Receipt of whichever transaction for the nonce was mined
+   */
+  async waitForTransactionReceipt(
+    args: { hash: Hex } & Record<string, unknown>,
+  ): Promise<TransactionReceipt> {
+    const tx = this.inFlight.get(args.hash);
+    if (!tx) {
+      return this.client.waitForReceipt(args);
+    }
+
+    try {
+      return await this.waitManaged(tx);
+    } finally {
+      for (const hash of tx.hashes) {
+        this.inFlight.delete(hash);
+      }
+    }
+  }
+
+  /**
+   * List transactions currently in flight
+   *
+   * @returns In-flight transactions, oldest first
+   */
+  getInFlight(): InFlightTransactionInfo[] {
+    const seen = new Set<InFlightTransaction>();
+    const now = Date.now();
+    const result: InFlightTransactionInfo[] = [];
+
+    for (const tx of this.inFlight.values()) {
+      if (seen.has(tx)) continue;
+      seen.add(tx);
+      result.push({
+        nonce: tx.nonce,
+        hash: tx.hashes[tx.hashes.length - 1],
+        replacements: tx.replacements,
+        pendingForMs: now - tx.submittedAt,
+      });
+    }
+
+    return result.sort((a, b) => a.nonce - b.nonce);
+  }
+
+  /**
+   * Determine and reserve the nonce for a new transaction
+   *
+   * The caller must release the reservation once its send returns.
+   *
+   * @returns Next nonce for the account
+   */
+  private async reserveNonce(): Promise<number> {
+    const pending = await this.client.getTransactionCount({
+      address: this.address,
+      blockTag: "pending",
+    });
+
+    // Some nodes report the pending count with a delay right after a submission
+    let next = pending;
+    for (const tx of this.inFlight.values()) {
+      next = Math.max(next, tx.nonce + 1);
+    }
+    for (const nonce of this.reserved) {
+      next = Math.max(next, nonce + 1);
+    }
+    this.reserved.add(next);
+    return next;
+  }
+
+  /**
+   * Poll for a receipt of any transaction sharing the nonce
+   *
+   * @param tx - In-flight transaction
+   * @returns Receipt of the mined transaction
+   */
+  private async waitManaged(tx: InFlightTransaction): Promise<TransactionReceipt> {
+    for (;;) {
+      const receipt = await this.findReceipt(tx);
+      if (receipt) {
+        if (receipt.transactionHash !== tx.hashes[0]) {
+          logger.info(
+            {
+              address: this.address,
+              network: this.network,
+              nonce: tx.nonce,
+              original: tx.hashes[0],
+              mined: receipt.transactionHash,
+              replacements: tx.replacements,
+            },
+            "Replacement transaction mined",
+          );
+        }
+        return receipt;
+      }
+
+      if (Date.now() - tx.lastSentAt >= this.config.timeoutMs) {
+        await this.handleStuck(tx);
+      }
+
+      await sleep(this.config.pollIntervalMs);
+    }
+  }
+
+  /**
+   * Look up receipts for all hashes of a transaction, newest first
+   *
+   * @param tx - In-flight transaction
+   * @returns Receipt if any of the hashes was mined
+   */
+  private async findReceipt(tx: InFlightTransaction): Promise<TransactionReceipt | undefined> {
+    for (const hash of [...tx.hashes].reverse()) {
+      try {
+        return await this.client.getTransactionReceipt({ hash });
+      } catch {
+        // Not mined yet (or RPC hiccup) - keep polling
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Handle a transaction that exceeded the stuck window
+   *
+   * @param tx - In-flight transaction
+   */
+  private async handleStuck(tx: InFlightTransaction): Promise<void> {
+    const latest = tx.hashes[tx.hashes.length - 1];
+
+    // Nonce consumed without any of our receipts: a transaction we don't know was mined
+    const minedCount = await this.client.getTransactionCount({
+      address: this.address,
+      blockTag: "latest",
+    });
+    if (minedCount > tx.nonce && !(await this.findReceipt(tx))) {
+      recordMetric("facilitator.account.tx_dropped", 1, {
+        account: this.address,
+        network: this.network,
+        reason: "nonce_consumed",
+      });
+      throw new NonceError("Transaction nonce was consumed by another transaction", {
+        address: this.address,
+        nonce: tx.nonce,
+        hashes: tx.hashes,
+      });
+    }
+
+    const dropped = await this.refreshFees(tx);
+    if (dropped) {
+      logger.warn(
+        { address: this.address, network: this.network, nonce: tx.nonce, hash: latest },
+        "Transaction dropped from mempool",
+      );
+      recordMetric("facilitator.account.tx_dropped", 1, {
+        account: this.address,
+        network: this.network,
+        reason: "mempool",
+      });
+    }
+
+    if (tx.replacements >= this.config.maxReplacements) {
+      throw new TransactionTimeoutError(
+        `Transaction not mined after ${tx.replacements} replacements`,
+        latest,
+        { address: this.address, nonce: tx.nonce, network: this.network },
+      );
+    }
+
+    await this.replace(tx, dropped ? "dropped" : "stuck");
+  }
+
+  /**
+   * Refresh the fees of the latest submission from the node
+   *
+   * @param tx - In-flight transaction
+   * @returns True if none of the submissions is known to the node anymore
+   */
+  private async refreshFees(tx: InFlightTransaction): Promise<boolean> {
+    for (const hash of [...tx.hashes].reverse()) {
+      try {
+        const sent = await this.client.getTransaction({ hash });
+        tx.fees = {
+          maxFeePerGas: sent.maxFeePerGas ?? undefined,
+          maxPriorityFeePerGas: sent.maxPriorityFeePerGas ?? undefined,
+          gasPrice: sent.gasPrice ?? undefined,
+        };
+        return false;
+      } catch {
+        // Unknown to the node - try the previous submission
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Resubmit a transaction with the same nonce and a bumped fee
+   *
+   * @param tx - In-flight transaction
+   * @param reason - Why the transaction is replaced
+   */
+  private async replace(tx: InFlightTransaction, reason: "stuck" | "dropped"): Promise<void> {
+    const fees = await this.bumpedFees(tx.fees);
+    // Drop the original fee fields so legacy and EIP-1559 fees are never mixed
+    const request = { ...tx.request };
+    delete request.maxFeePerGas;
+    delete request.maxPriorityFeePerGas;
+    delete request.gasPrice;
+    tx.lastSentAt = Date.now();
+    tx.replacements++;
+
+    try {
+      const hash = await this.client.send({ ...request, ...fees, nonce: tx.nonce });
+      tx.hashes.push(hash);
+      tx.fees = fees;
+      this.inFlight.set(hash, tx);
+
+      logger.warn(
+        {
+          address: this.address,
+          network: this.network,
+          nonce: tx.nonce,
+          reason,
+          replacement: tx.replacements,
+          hash,
+          fees: Object.fromEntries(
+            Object.entries(fees).map(([key, value]) => [key, value?.toString()]),
+          ),
+        },
+        "Replaced stuck transaction with bumped fee",
+      );
+      recordMetric("facilitator.account.tx_replaced", 1, {
+        account: this.address,
+        network: this.network,
+        reason,
+      });
+    } catch (error) {
+      // "nonce too low" means one of our submissions was just mined; the next poll finds it
+      if (!isNonceUsedError(error)) {
+        logger.error(
+          { address: this.address, network: this.network, nonce: tx.nonce, error },
+          "Failed to submit replacement transaction",
+        );
+      }
+    }
+  }
+
+  /**
+   * Calculate replacement fees
+   *
+   * Bumps the previous fees by feeBumpPercent and never goes below the current
+   * network gas price.
+   *
+   * @param previous - Fees of the latest submission (if known)
+   * @returns Fee fields for the replacement
+   */
+  private async bumpedFees(previous?: TransactionFees): Promise<TransactionFees> {
+    const bump = (value: bigint) => (value * BigInt(100 + this.config.feeBumpPercent)) / 100n;
+    const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+    let networkPrice = 0n;
+    try {
+      networkPrice = (await this.getGasPrice?.()) ?? 0n;
+    } catch (error) {
+      logger.warn({ network: this.network, error }, "Failed to get gas price for replacement");
+    }
+
+    if (previous?.maxFeePerGas !== undefined) {
+      const maxPriorityFeePerGas = bump(previous.maxPriorityFeePerGas ?? 0n);
+      return {
+        maxPriorityFeePerGas,
+        maxFeePerGas: max(bump(previous.maxFeePerGas), networkPrice + maxPriorityFeePerGas),
+      };
+    }
+
+    const gasPrice = max(bump(previous?.gasPrice ?? 0n), networkPrice);
+    // Nothing to base the bump on: let the node estimate fees for the rebroadcast
+    return gasPrice > 0n ? { gasPrice } : {};
+  }
+}
@@ -5,9 +5,14 @@
  * Provides a unified interface for working with multiple account pools.
  */
 
+import { privateKeyToAccount } from "viem/accounts";
+import type { Hex } from "viem";
 import { AccountPool } from "./account-pool.js";
 import type { AccountPoolConfig, NetworkConfig } from "./config.js";
 import { getLogger } from "./telemetry.js";
+import type { GasCostConfig } from "./gas-cost.js";
+import { getGasPrice, type DynamicGasPriceConfig } from "./dynamic-gas-price.js";
+import type { LockManager } from "./locks/index.js";
 
 const logger = getLogger();
 
@@ -24,12 +29,18 @@ export class PoolManager {
    * @param networkConfig - Network configuration
    * @param accountPoolConfig - Account pool configuration
    * @param rpcUrls - Optional RPC URLs per network (network name -> RPC URL)
+   * @param gasPriceSource - Optional gas price configs used to price stuck transaction replacements
+   * @param gasPriceSource.gasCost - Gas cost configuration
+   * @param gasPriceSource.dynamicGasPrice - Dynamic gas price configuration
+   * @param locks - Optional lock manager for duplicate payer detection (shared across replicas)
    */
   constructor(
     private evmPrivateKeys: string[],
     private networkConfig: NetworkConfig,
     private accountPoolConfig: AccountPoolConfig,
     private rpcUrls: Record<string, string> = {},
+    private gasPriceSource?: { gasCost: GasCostConfig; dynamicGasPrice: DynamicGasPriceConfig },
+    private locks?: LockManager,
   ) {}
 
   /**
@@ -43,9 +54,22 @@ export class PoolManager {
           // Get RPC URL for this network (from dynamicGasPrice config)
           const rpcUrl = this.rpcUrls[network];
 
+          const gasPriceSource = this.gasPriceSource;
           const pool = await AccountPool.create(this.evmPrivateKeys, network, {
             strategy: this.accountPoolConfig.strategy,
             rpcUrl, // Pass custom RPC URL if available
+            stuckTransaction: this.accountPoolConfig.stuckTransaction,
+            getGasPrice: gasPriceSource
+              ? async () =>
+                  BigInt(
+                    await getGasPrice(
+                      network,
+                      gasPriceSource.gasCost,
+                      gasPriceSource.dynamicGasPrice,
+                    ),
+                  )
+              : undefined,
+            locks: this.locks,
           });
           this.evmAccountPools.set(network, pool);
           logger.info(
@@ -73,6 +97,47 @@ export class PoolManager {
     );
   }
 
+  /**
+   * Apply a new set of EVM private keys (configuration reload)
+   *
+   * New keys join every pool right away. Accounts whose key was removed stop receiving
+   * requests and leave their pools once the settlements queued on them have finished.
+   *
+   * @param evmPrivateKeys - New array of EVM private keys
+   */
+  async updatePrivateKeys(evmPrivateKeys: string[]): Promise<void> {
+    if (evmPrivateKeys.length === 0) {
+      throw new Error("At least one EVM private key is required");
+    }
+
+    const previousKeys = this.evmPrivateKeys;
+    const added = evmPrivateKeys.filter((key) => !previousKeys.includes(key));
+    const removed = previousKeys.filter((key) => !evmPrivateKeys.includes(key));
+    this.evmPrivateKeys = evmPrivateKeys;
+
+    if (this.evmAccountPools.size === 0) {
+      await this.initialize();
+      return;
+    }
+
+    for (const [network, pool] of this.evmAccountPools) {
+      for (const key of added) {
+        pool.addAccount(key);
+      }
+      for (const key of removed) {
+        const address = privateKeyToAccount(key as Hex).address;
+        pool.removeAccount(address).catch((error) => {
+          logger.error({ network, address, error }, "Failed to remove account from pool");
+        });
+      }
+    }
+
+    logger.info(
+      { added: added.length, removed: removed.length, evmAccounts: evmPrivateKeys.length },
+      "EVM accounts updated",
+    );
+  }
+
   /**
    * Get account pool for a given network
    *
@@ -112,6 +177,10 @@ export class PoolManager {
  * @param networkConfig - Network configuration
  * @param accountPoolConfig - Account pool configuration
  * @param rpcUrls - Optional RPC URLs per network (network name -> RPC URL)
+ * @param gasPriceSource - Optional gas price configs used to price stuck transaction replacements
+ * @param gasPriceSource.gasCost - Gas cost configuration
+ * @param gasPriceSource.dynamicGasPrice - Dynamic gas price configuration
+ * @param locks - Optional lock manager for duplicate payer detection (shared across replicas)
  * @returns Initialized PoolManager
  */
 export async function createPoolManager(
@@ -119,8 +188,17 @@ export async function createPoolManager(
   networkConfig: NetworkConfig,
   accountPoolConfig: AccountPoolConfig,
   rpcUrls: Record<string, string> = {},
+  gasPriceSource?: { gasCost: GasCostConfig; dynamicGasPrice: DynamicGasPriceConfig },
+  locks?: LockManager,
 ): Promise<PoolManager> {
-  const manager = new PoolManager(evmPrivateKeys, networkConfig, accountPoolConfig, rpcUrls);
+  const manager = new PoolManager(
+    evmPrivateKeys,
+    networkConfig,
+    accountPoolConfig,
+    rpcUrls,
+    gasPriceSource,
+    locks,
+  );
   await manager.initialize();
   return manager;
 }
@@ -0,0 +1,116 @@
+/**
+ * Chainlink Price Source
+ *
+ * Reads the latest answer of a Chainlink aggregator (e.g. ETH / USD). The round's
+ * `updatedAt` is reported as the quote time, so a stalled feed is caught by the
+ * oracle's staleness limit.
+ */
+
+import type { Address } from "viem";
+import type {
+  ChainlinkFeedConfig,
+  OracleClientFactory,
+  OracleReadClient,
+  PriceQuote,
+  PriceSource,
+} from "./interface.js";
+
+/**
+ * Subset of the AggregatorV3Interface ABI
+ */
+export const CHAINLINK_AGGREGATOR_ABI = [
+  {
+    type: "function",
+    name: "decimals",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "latestRoundData",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+] as const;
+
+/**
+ * Chainlink aggregator price source
+ */
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = "chainlink";
+  private decimals = new Map<string, number>();
+
+  /**
+   * Create a Chainlink price source
+   *
+   * @param feeds - network -> aggregator feed
+   * @param getClient - Read client factory
+   */
+  constructor(
+    private readonly feeds: Record<string, ChainlinkFeedConfig>,
+    private readonly getClient: OracleClientFactory,
+  ) {}
+
+  /**
+   * Get the native token price of a network
+   *
+   * @param network - Network name
+   * @returns Price quote, or null if no feed is configured for the network
+   */
+  async getPrice(network: string): Promise<PriceQuote | null> {
+    const feed = this.feeds[network];
+    if (!feed) {
+      return null;
+    }
+
+    const client = await this.getClient(feed.network);
+    const address = feed.address as Address;
+    const [decimals, [, answer, , updatedAt]] = await Promise.all([
+      this.getDecimals(client, feed),
+      client.readContract({
+        address,
+        abi: CHAINLINK_AGGREGATOR_ABI,
+        functionName: "latestRoundData",
+      }),
+    ]);
+
+    if (answer <= 0n) {
+      throw new Error(`Chainlink feed ${feed.address} returned non-positive answer ${answer}`);
+    }
+
+    return {
+      price: Number(answer) / 10 ** decimals,
+      updatedAt: Number(updatedAt) * 1000,
+      source: this.name,
+    };
+  }
+
+  /**
+   * Get (and cache) the answer decimals of a feed
+   *
+   * @param client - Read client
+   * @param feed - Feed configuration
+   * @returns Answer decimals
+   */
+  private async getDecimals(client: OracleReadClient, feed: ChainlinkFeedConfig): Promise<number> {
+    const key = `${feed.network}:${feed.address.toLowerCase()}`;
+    let decimals = this.decimals.get(key);
+    if (decimals === undefined) {
+      decimals = await client.readContract({
+        address: feed.address as Address,
+        abi: CHAINLINK_AGGREGATOR_ABI,
+        functionName: "decimals",
+      });
+      this.decimals.set(key, decimals);
+    }
+    return decimals;
+  }
+}
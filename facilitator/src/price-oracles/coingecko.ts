@@ -0,0 +1,95 @@
+/**
+ * CoinGecko Price Source
+ *
+ * Reads USD prices from the CoinGecko simple price API (Pro API when a key is set).
+ */
+
+import type { PriceQuote, PriceSource } from "./interface.js";
+
+/**
+ * Default CoinGecko coin ID mapping
+ */
+export const DEFAULT_COIN_IDS: Record<string, string> = {
+  "base-sepolia": "ethereum",
+  base: "ethereum",
+  "x-layer-testnet": "okb",
+  "x-layer": "okb",
+  "bsc-testnet": "binancecoin",
+  bsc: "binancecoin",
+  "skale-base-sepolia": "skale",
+};
+
+/**
+ * CoinGecko price source
+ */
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = "coingecko";
+
+  /**
+   * Create a CoinGecko price source
+   *
+   * @param coinIds - network -> coin ID overrides (merged over DEFAULT_COIN_IDS)
+   * @param apiKey - Optional Pro API key
+   */
+  constructor(
+    private readonly coinIds: Record<string, string> = {},
+    private readonly apiKey?: string,
+  ) {}
+
+  /**
+   * Get the native token price of a network
+   *
+   * @param network - Network name
+   * @returns Price quote, or null if no coin ID is known for the network
+   */
+  async getPrice(network: string): Promise<PriceQuote | null> {
+    const coinId = this.coinIds[network] || DEFAULT_COIN_IDS[network];
+    if (!coinId) {
+      return null;
+    }
+    return fetchCoinGeckoQuote(coinId, this.apiKey);
+  }
+}
+
+/**
+ * Fetch a price from the CoinGecko API
+ *
+ * @param coinId - CoinGecko coin ID (e.g., "ethereum", "okb")
+ * @param apiKey - Optional Pro API key
+ * @returns Price quote
+ */
+export async function fetchCoinGeckoQuote(coinId: string, apiKey?: string): Promise<PriceQuote> {
+  const baseUrl = apiKey
+    ? "https://pro-api.coingecko.com/api/v3"
+    : "https://api.coingecko.com/api/v3";
+
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+  };
+
+  if (apiKey) {
+    headers["x-cg-pro-api-key"] = apiKey;
+  }
+
+  const url = `${baseUrl}/simple/price?ids=${coinId}&vs_currencies=usd&include_last_updated_at=true`;
+
+  const response = await fetch(url, { headers });
+
+  if (!response.ok) {
+    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as Record<string, { usd: number; last_updated_at?: number }>;
+
+  const price = data[coinId]?.usd;
+  if (!price) {
+    throw new Error(`Price not found for coin ${coinId}`);
+  }
+
+  const lastUpdatedAt = data[coinId].last_updated_at;
+  return {
+    price,
+    updatedAt: lastUpdatedAt ? lastUpdatedAt * 1000 : Date.now(),
+    source: "coingecko",
+  };
+}
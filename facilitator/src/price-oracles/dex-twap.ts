@@ -0,0 +1,156 @@
+/**
+ * DEX TWAP Price Source
+ *
+ * Derives the native token price from the time-weighted average tick of a Uniswap V3
+ * (or compatible) pool pairing the wrapped native token with a USD stablecoin. The
+ * stablecoin is assumed to be worth exactly 1 USD.
+ */
+
+import type { Address } from "viem";
+import type {
+  OracleClientFactory,
+  OracleReadClient,
+  PriceQuote,
+  PriceSource,
+  TwapPoolConfig,
+} from "./interface.js";
+
+/**
+ * Subset of the Uniswap V3 pool ABI
+ */
+export const UNISWAP_V3_POOL_ABI = [
+  {
+    type: "function",
+    name: "token0",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "token1",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "observe",
+    stateMutability: "view",
+    inputs: [{ name: "secondsAgos", type: "uint32[]" }],
+    outputs: [
+      { name: "tickCumulatives", type: "int56[]" },
+      { name: "secondsPerLiquidityCumulativeX128s", type: "uint160[]" },
+    ],
+  },
+] as const;
+
+const ERC20_DECIMALS_ABI = [
+  {
+    type: "function",
+    name: "decimals",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+] as const;
+
+/**
+ * Static pool layout, read once per pool
+ */
+interface PoolLayout {
+  /** Whether token0 is the USD stablecoin */
+  quoteIsToken0: boolean;
+  decimals0: number;
+  decimals1: number;
+}
+
+/**
+ * Uniswap V3 TWAP price source
+ */
+export class DexTwapPriceSource implements PriceSource {
+  readonly name = "twap";
+  private layouts = new Map<string, PoolLayout>();
+
+  /**
+   * Create a DEX TWAP price source
+   *
+   * @param pools - network -> pool configuration
+   * @param getClient - Read client factory
+   */
+  constructor(
+    private readonly pools: Record<string, TwapPoolConfig>,
+    private readonly getClient: OracleClientFactory,
+  ) {}
+
+  /**
+   * Get the native token price of a network
+   *
+   * @param network - Network name
+   * @returns Price quote, or null if no pool is configured for the network
+   */
+  async getPrice(network: string): Promise<PriceQuote | null> {
+    const pool = this.pools[network];
+    if (!pool) {
+      return null;
+    }
+
+    const client = await this.getClient(pool.network);
+    const [layout, [tickCumulatives]] = await Promise.all([
+      this.getLayout(client, pool),
+      client.readContract({
+        address: pool.pool as Address,
+        abi: UNISWAP_V3_POOL_ABI,
+        functionName: "observe",
+        args: [[pool.windowSeconds, 0]],
+      }),
+    ]);
+
+    const averageTick = Number(tickCumulatives[1] - tickCumulatives[0]) / pool.windowSeconds;
+    // Price of token0 denominated in token1, adjusted for token decimals
+    const price0In1 = Math.pow(1.0001, averageTick) * 10 ** (layout.decimals0 - layout.decimals1);
+    const price = layout.quoteIsToken0 ? 1 / price0In1 : price0In1;
+
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new Error(`TWAP pool ${pool.pool} returned invalid price ${price}`);
+    }
+
+    return { price, updatedAt: Date.now(), source: this.name };
+  }
+
+  /**
+   * Get (and cache) which side of the pool is the stablecoin and the token decimals
+   *
+   * @param client - Read client
+   * @param pool - Pool configuration
+   * @returns Pool layout
+   */
+  private async getLayout(client: OracleReadClient, pool: TwapPoolConfig): Promise<PoolLayout> {
+    const key = `${pool.network}:${pool.pool.toLowerCase()}`;
+    const cached = this.layouts.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const address = pool.pool as Address;
+    const [token0, token1] = await Promise.all([
+      client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "token0" }),
+      client.readContract({ address, abi: UNISWAP_V3_POOL_ABI, functionName: "token1" }),
+    ]);
+
+    const quoteToken = pool.quoteToken.toLowerCase();
+    if (token0.toLowerCase() !== quoteToken && token1.toLowerCase() !== quoteToken) {
+      throw new Error(`TWAP pool ${pool.pool} does not contain quote token ${pool.quoteToken}`);
+    }
+
+    const [decimals0, decimals1] = await Promise.all(
+      [token0, token1].map((token) =>
+        client.readContract({ address: token, abi: ERC20_DECIMALS_ABI, functionName: "decimals" }),
+      ),
+    );
+
+    const layout = { quoteIsToken0: token0.toLowerCase() === quoteToken, decimals0, decimals1 };
+    this.layouts.set(key, layout);
+    return layout;
+  }
+}
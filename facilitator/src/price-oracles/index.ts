@@ -0,0 +1,95 @@
+/**
+ * Price Oracle Module Exports
+ *
+ * Unified exports for native token price sources and their aggregation.
+ */
+
+import { createPublicClient, http } from "viem";
+import { networkChainResolver } from "../network-chain-resolver.js";
+import type {
+  OracleClientFactory,
+  OracleReadClient,
+  PriceOracleConfig,
+  PriceSource,
+} from "./interface.js";
+import { CoinGeckoPriceSource } from "./coingecko.js";
+import { ChainlinkPriceSource } from "./chainlink.js";
+import { DexTwapPriceSource } from "./dex-twap.js";
+import { StaticPriceSource } from "./static.js";
+import { PriceOracle } from "./price-oracle.js";
+
+export type {
+  ChainlinkFeedConfig,
+  OracleClientFactory,
+  OracleReadClient,
+  PriceAggregation,
+  PriceOracleConfig,
+  PriceQuote,
+  PriceSource,
+  PriceSourceName,
+  TwapPoolConfig,
+} from "./interface.js";
+export { CoinGeckoPriceSource, DEFAULT_COIN_IDS, fetchCoinGeckoQuote } from "./coingecko.js";
+export { ChainlinkPriceSource } from "./chainlink.js";
+export { DexTwapPriceSource } from "./dex-twap.js";
+export { StaticPriceSource } from "./static.js";
+export { PriceOracle } from "./price-oracle.js";
+export type { AggregatedPrice, PriceOracleOptions } from "./price-oracle.js";
+
+/**
+ * Read clients for on-chain sources (shared across oracles)
+ */
+const oracleClients = new Map<string, OracleReadClient>();
+
+/**
+ * Get (or create) a read client for a network, using the resolved RPC URL
+ *
+ * @param network - Network name
+ * @returns Read client
+ */
+const getOracleClient: OracleClientFactory = async (network) => {
+  let client = oracleClients.get(network);
+  if (!client) {
+    const chainInfo = await networkChainResolver.resolveNetworkChain(network);
+    if (!chainInfo) {
+      throw new Error(`Cannot resolve chain for price oracle network ${network}`);
+    }
+    client = createPublicClient({ chain: chainInfo.chain, transport: http(chainInfo.rpcUrl) });
+    oracleClients.set(network, client);
+  }
+  return client;
+};
+
+/**
+ * Create a price oracle from configuration
+ *
+ * @param config - Price oracle configuration
+ * @param getClient - Read client factory for on-chain sources (overridable for tests)
+ * @returns Price oracle querying the configured sources in order
+ */
+export function createPriceOracle(
+  config: PriceOracleConfig,
+  getClient: OracleClientFactory = getOracleClient,
+): PriceOracle {
+  const sources: PriceSource[] = config.sources.map((name) => {
+    switch (name) {
+      case "coingecko":
+        return new CoinGeckoPriceSource(config.coinIds, config.apiKey);
+      case "chainlink":
+        return new ChainlinkPriceSource(config.chainlinkFeeds, getClient);
+      case "twap":
+        return new DexTwapPriceSource(config.twapPools, getClient);
+      case "static":
+        return new StaticPriceSource(config.staticPrices);
+      default:
+        throw new Error(`Unknown price source: ${name}`);
+    }
+  });
+
+  return new PriceOracle(sources, {
+    aggregation: config.aggregation,
+    maxPriceAgeSeconds: config.maxPriceAgeSeconds,
+    maxDeviationPercent: config.maxDeviationPercent,
+    sourceTimeoutMs: config.sourceTimeoutMs,
+  });
+}
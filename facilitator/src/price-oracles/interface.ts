@@ -0,0 +1,106 @@
+/**
+ * Price Oracle Interface
+ *
+ * Price sources for native token USD prices used in facilitator fee quoting.
+ * Several sources can be combined so one outage or bad feed neither breaks
+ * `/calculate-fee` nor silently mis-prices it.
+ */
+
+import type { PublicClient } from "viem";
+
+/**
+ * Built-in price source names
+ */
+export type PriceSourceName = "coingecko" | "chainlink" | "twap" | "static";
+
+/**
+ * How quotes from several sources are combined
+ * - priority: first fresh quote in source order
+ * - median: median of all fresh quotes
+ */
+export type PriceAggregation = "priority" | "median";
+
+/**
+ * Price reported by a single source
+ */
+export interface PriceQuote {
+  /** Price in USD */
+  price: number;
+  /** When the source last updated the price (ms since epoch) */
+  updatedAt: number;
+  /** Source that produced the quote ("median" for aggregated quotes) */
+  source: string;
+}
+
+/**
+ * Pluggable price source
+ */
+export interface PriceSource {
+  /** Source name used in logs and metrics */
+  readonly name: string;
+
+  /**
+   * Get the native token USD price of a network
+   *
+   * @param network - Network name
+   * @returns Price quote, or null if the source does not cover the network
+   */
+  getPrice(network: string): Promise<PriceQuote | null>;
+}
+
+/**
+ * Chainlink aggregator feed for a network's native token
+ */
+export interface ChainlinkFeedConfig {
+  /** Aggregator (proxy) address, e.g. the ETH / USD feed */
+  address: string;
+  /** Network the feed is deployed on (testnets usually read a mainnet feed) */
+  network: string;
+}
+
+/**
+ * Uniswap V3 pool used for a time-weighted average price
+ */
+export interface TwapPoolConfig {
+  /** Pool address (wrapped native token / USD stablecoin) */
+  pool: string;
+  /** USD stablecoin side of the pool */
+  quoteToken: string;
+  /** Network the pool is deployed on */
+  network: string;
+  /** TWAP window in seconds */
+  windowSeconds: number;
+}
+
+/**
+ * Price oracle configuration
+ */
+export interface PriceOracleConfig {
+  /** Sources in priority order */
+  sources: PriceSourceName[];
+  aggregation: PriceAggregation;
+  /** Quotes older than this are ignored */
+  maxPriceAgeSeconds: number;
+  /** Alert when a source deviates from the median by more than this */
+  maxDeviationPercent: number;
+  /** Timeout for a single source */
+  sourceTimeoutMs: number;
+  /** network -> CoinGecko coin ID overrides */
+  coinIds: Record<string, string>;
+  /** Optional CoinGecko Pro API key */
+  apiKey?: string;
+  chainlinkFeeds: Record<string, ChainlinkFeedConfig>;
+  twapPools: Record<string, TwapPoolConfig>;
+  /** network -> static USD price */
+  staticPrices: Record<string, number>;
+}
+
+/**
+ * Contract reads used by on-chain sources
+ */
+export type OracleReadClient = Pick<PublicClient, "readContract">;
+
+/**
+ * Factory for on-chain read clients
+ */
+export type OracleClientFactory = (network: string) => Promise<OracleReadClient>;
@@ -0,0 +1,162 @@
+/**
+ * Price Oracle
+ *
+ * Queries every configured source concurrently and combines the fresh quotes:
+ * - Sources that fail, time out or do not cover the network are skipped
+ * - Quotes older than the staleness limit are ignored
+ * - Sources deviating from the median by more than the limit raise an alert
+ */
+
+import { emitAlert, getLogger, recordGauge } from "../telemetry.js";
+import type { PriceAggregation, PriceQuote, PriceSource } from "./interface.js";
+
+const logger = getLogger();
+
+/**
+ * Aggregated price with the quotes it was derived from
+ */
+export interface AggregatedPrice extends PriceQuote {
+  /** Fresh quotes from every responding source, in source order */
+  quotes: PriceQuote[];
+  /** Largest deviation of a quote from the median, in percent */
+  deviationPercent: number;
+}
+
+/**
+ * Price oracle options
+ */
+export interface PriceOracleOptions {
+  aggregation: PriceAggregation;
+  /** Quotes older than this are ignored */
+  maxPriceAgeSeconds: number;
+  /** Alert when a quote deviates from the median by more than this */
+  maxDeviationPercent: number;
+  /** Timeout for a single source */
+  sourceTimeoutMs: number;
+}
+
+/**
+ * Price oracle combining several price sources
+ */
+export class PriceOracle {
+  /**
+   * Create a price oracle
+   *
+   * @param sources - Price sources in priority order
+   * @param options - Aggregation options
+   */
+  constructor(
+    private readonly sources: PriceSource[],
+    private readonly options: PriceOracleOptions,
+  ) {}
+
+  /**
+   * Get the native token USD price of a network
+   *
+   * @param network - Network name
+   * @returns Aggregated price
+   * @throws Error if no source produced a fresh quote
+   */
+  async getPrice(network: string): Promise<AggregatedPrice> {
+    const results = await Promise.allSettled(
+      this.sources.map((source) => this.querySource(source, network)),
+    );
+
+    const now = Date.now();
+    const quotes: PriceQuote[] = [];
+    results.forEach((result, index) => {
+      const source = this.sources[index].name;
+      if (result.status === "rejected") {
+        logger.warn({ network, source, error: result.reason }, "Price source failed");
+        return;
+      }
+
+      const quote = result.value;
+      if (!quote) {
+        return;
+      }
+      if (!Number.isFinite(quote.price) || quote.price <= 0) {
+        logger.warn({ network, source, price: quote.price }, "Price source returned invalid price");
+        return;
+      }
+
+      const ageSeconds = Math.floor((now - quote.updatedAt) / 1000);
+      if (ageSeconds > this.options.maxPriceAgeSeconds) {
+        logger.warn(
+          { network, source, ageSeconds, maxPriceAgeSeconds: this.options.maxPriceAgeSeconds },
+          "Price source returned stale price",
+        );
+        return;
+      }
+
+      quotes.push(quote);
+    });
+
+    if (quotes.length === 0) {
+      throw new Error(`No fresh price available for ${network}`);
+    }
+
+    const median = medianOf(quotes.map((quote) => quote.price));
+    const deviationPercent = Math.max(
+      ...quotes.map((quote) => (Math.abs(quote.price - median) / median) * 100),
+    );
+    if (quotes.length > 1) {
+      recordGauge("facilitator.price.deviation_percent", deviationPercent, { network });
+      if (deviationPercent > this.options.maxDeviationPercent) {
+        emitAlert("price_deviation", "Price sources disagree beyond the allowed deviation", {
+          network,
+          deviationPercent: Number(deviationPercent.toFixed(2)),
+          quotes: quotes.map((quote) => `${quote.source}=${quote.price}`).join(","),
+        });
+      }
+    }
+
+    const selected: PriceQuote =
+      this.options.aggregation === "median" && quotes.length > 1
+        ? {
+            price: median,
+            updatedAt: Math.min(...quotes.map((quote) => quote.updatedAt)),
+            source: "median",
+          }
+        : quotes[0];
+
+    recordGauge("facilitator.price.usd", selected.price, { network, source: selected.source });
+
+    return { ...selected, quotes, deviationPercent };
+  }
+
+  /**
+   * Query one source with a timeout
+   *
+   * @param source - Price source
+   * @param network - Network name
+   * @returns Price quote, or null if the source does not cover the network
+   */
+  private async querySource(source: PriceSource, network: string): Promise<PriceQuote | null> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${this.options.sourceTimeoutMs}ms`)),
+        this.options.sourceTimeoutMs,
+      );
+    });
+
+    try {
+      return await Promise.race([source.getPrice(network), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Median of a non-empty list of numbers
+ *
+ * @param values - Values
+ * @returns Median
+ */
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
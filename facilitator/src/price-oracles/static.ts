@@ -0,0 +1,36 @@
+/**
+ * Static Price Source
+ *
+ * Serves configured prices (the `<NETWORK>_ETH_PRICE` values). Always fresh, so
+ * in median mode it acts as one more vote rather than a last resort.
+ */
+
+import type { PriceQuote, PriceSource } from "./interface.js";
+
+/**
+ * Static price source
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly name = "static";
+
+  /**
+   * Create a static price source
+   *
+   * @param prices - network -> USD price
+   */
+  constructor(private readonly prices: Record<string, number>) {}
+
+  /**
+   * Get the configured price of a network
+   *
+   * @param network - Network name
+   * @returns Price quote, or null if no price is configured
+   */
+  async getPrice(network: string): Promise<PriceQuote | null> {
+    const price = this.prices[network];
+    if (!price) {
+      return null;
+    }
+    return { price, updatedAt: Date.now(), source: this.name };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Prometheus Metrics Module
+ *
+ * Pull-based metric reader that renders everything recorded through `recordMetric`
+ * and `recordHistogram` in the Prometheus text exposition format (version 0.0.4).
+ *
+ * Metric names are the OpenTelemetry names with dots replaced by underscores
+ * (e.g. "facilitator.settle.duration_ms" -> "facilitator_settle_duration_ms"),
+ * matching the queries in docs/grafana-dashboard.json.
+ */
+
+import type { Attributes } from "@opentelemetry/api";
+import {
+  DataPointType,
+  MetricReader,
+  type DataPoint,
+  type Histogram,
+  type MetricData,
+  type ResourceMetrics,
+} from "@opentelemetry/sdk-metrics";
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Metric reader collected on demand by the /metrics route
+ */
+export class PrometheusMetricReader extends MetricReader {
+  /**
+   * Collect current metric values and render them for Prometheus
+   *
+   * @returns Metrics in Prometheus text format
+   */
+  async getMetrics(): Promise<string> {
+    const { resourceMetrics } = await this.collect();
+    return serializePrometheusMetrics(resourceMetrics);
+  }
+
+  /**
+   * Nothing to flush: metrics are only collected when scraped
+   */
+  protected async onForceFlush(): Promise<void> {}
+
+  /**
+   * Nothing to release on shutdown
+   */
+  protected async onShutdown(): Promise<void> {}
+}
+
+/**
+ * Render collected metrics in Prometheus text format
+ *
+ * @param resourceMetrics - Collected metrics
+ * @returns Metrics in Prometheus text format
+ */
+export function serializePrometheusMetrics(resourceMetrics: ResourceMetrics): string {
+  const lines: string[] = [];
+
+  for (const scopeMetrics of resourceMetrics.scopeMetrics) {
+    for (const metric of scopeMetrics.metrics) {
+      lines.push(...serializeMetric(metric));
+    }
+  }
+
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+/**
+ * Render one metric with its HELP and TYPE lines
+ *
+ * @param metric - Metric data
+ * @returns Exposition lines
+ */
+function serializeMetric(metric: MetricData): string[] {
+  const name = sanitizeName(metric.descriptor.name);
+  const lines: string[] = [];
+
+  if (metric.descriptor.description) {
+    lines.push(`# HELP ${name} ${escapeHelp(metric.descriptor.description)}`);
+  }
+
+  switch (metric.dataPointType) {
+    case DataPointType.SUM:
+      lines.push(`# TYPE ${name} ${metric.isMonotonic ? "counter" : "gauge"}`);
+      for (const point of metric.dataPoints) {
+        lines.push(sample(name, point.attributes, point.value));
+      }
+      break;
+
+    case DataPointType.GAUGE:
+      lines.push(`# TYPE ${name} gauge`);
+      for (const point of metric.dataPoints) {
+        lines.push(sample(name, point.attributes, point.value));
+      }
+      break;
+
+    case DataPointType.HISTOGRAM:
+      lines.push(`# TYPE ${name} histogram`);
+      for (const point of metric.dataPoints) {
+        lines.push(...serializeHistogram(name, point));
+      }
+      break;
+
+    default:
+      // Exponential histograms are not produced by the default aggregation
+      return [];
+  }
+
+  return lines;
+}
+
+/**
+ * Render a histogram data point as cumulative buckets, sum and count
+ *
+ * @param name - Sanitized metric name
+ * @param point - Histogram data point
+ * @returns Exposition lines
+ */
+function serializeHistogram(name: string, point: DataPoint<Histogram>): string[] {
+  const { boundaries, counts } = point.value.buckets;
+  const lines: string[] = [];
+
+  let cumulative = 0;
+  boundaries.forEach((boundary, index) => {
+    cumulative += counts[index] ?? 0;
+    lines.push(sample(`${name}_bucket`, point.attributes, cumulative, String(boundary)));
+  });
+  lines.push(sample(`${name}_bucket`, point.attributes, point.value.count, "+Inf"));
+  lines.push(sample(`${name}_sum`, point.attributes, point.value.sum ?? 0));
+  lines.push(sample(`${name}_count`, point.attributes, point.value.count));
+
+  return lines;
+}
+
+/**
+ * Render a single sample line
+ *
+ * @param name - Sample name
+ * @param attributes - Data point attributes (rendered as labels)
+ * @param value - Sample value
+ * @param le - Histogram bucket upper bound
+ * @returns Exposition line
+ */
+function sample(name: string, attributes: Attributes, value: number, le?: string): string {
+  const labels = Object.entries(attributes)
+    .filter(([, labelValue]) => labelValue !== undefined)
+    .map(([key, labelValue]) => `${sanitizeName(key)}="${escapeLabelValue(String(labelValue))}"`);
+  if (le !== undefined) {
+    labels.push(`le="${le}"`);
+  }
+
+  const labelText = labels.length > 0 ? `{${labels.join(",")}}` : "";
+  return `${name}${labelText} ${formatValue(value)}`;
+}
+
+/**
+ * Convert a metric or attribute name to a valid Prometheus name
+ *
+ * @param name - OpenTelemetry name
+ * @returns Prometheus name
+ */
+function sanitizeName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, "_");
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Escape a label value
+ *
+ * @param value - Raw value
+ * @returns Escaped value
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+/**
+ * Escape HELP text
+ *
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHelp(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+/**
+ * Format a sample value
+ *
+ * @param value - Numeric value
+ * @returns Prometheus number literal
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
@@ -34,6 +34,9 @@ export interface RetryConfig {
 
   /** Custom retry predicate (return true to retry) */
   shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /** Stop retrying (and cut the current backoff short) once aborted */
+  signal?: AbortSignal;
 }
 
 /**
@@ -93,9 +96,19 @@ function calculateDelay(attempt: number, config: RetryConfig): number {
  * Sleep for specified milliseconds
  *
  * @param ms
+ * @param signal - Optional signal that ends the sleep early
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    /** Resolve once, from the timer or the signal */
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
 }
 
 /**
@@ -177,6 +190,7 @@ export async function withRetry<T>(
       const isLastAttempt = attempt >= finalConfig.maxAttempts;
       const willRetry =
         !isLastAttempt &&
+        !finalConfig.signal?.aborted &&
         (finalConfig.shouldRetry ? finalConfig.shouldRetry(error, attempt) : shouldRetry(error));
 
       if (error instanceof FacilitatorError) {
@@ -227,7 +241,11 @@ export async function withRetry<T>(
         "Retrying operation after delay",
       );
 
-      await sleep(delay);
+      await sleep(delay, finalConfig.signal);
+      if (finalConfig.signal?.aborted) {
+        logger.warn({ operation: operationName, attempt }, "Retries cancelled");
+        break;
+      }
     }
   }
 
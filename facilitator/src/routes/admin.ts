@@ -0,0 +1,410 @@
+/**
+ * Admin Routes
+ *
+ * Operational endpoints that require admin authentication (see middleware/admin-auth.ts):
+ * - GET /pending-fees: Query pending facilitator fees (viewer)
+ * - POST /claim-fees: Claim accumulated facilitator fees (operator)
+ * - GET /admin/audit: Inspect the admin audit log (admin)
+ * - GET /admin/settlements: Query the settlement ledger (viewer)
+ * - GET /admin/settlements/:network/:contextKey: Get a single ledger record (viewer)
+ */
+
+import { Router, Request, Response } from "express";
+import { getNetworkConfig, type ClaimFeesResponse, type PendingFeesResponse } from "@x402x/core";
+import { getLogger, traced, recordMetric } from "../telemetry.js";
+import type { PoolManager } from "../pool-manager.js";
+import type { AdminConfig } from "../config.js";
+import type { AdminAuditLog } from "../admin-audit.js";
+import type { CacheInterface } from "../cache/index.js";
+import { createAdminAuth, type AdminPrincipal } from "../middleware/admin-auth.js";
+import type { SettlementLedger, SettlementStatus } from "../ledger/index.js";
+import {
+  getPendingFees,
+  claimFees,
+  type ClaimFeesRequest,
+  type FeeClaimConfig,
+} from "../fee-claim.js";
+
+const logger = getLogger();
+
+/**
+ * Dependencies required by admin routes
+ */
+export interface AdminRouteDependencies {
+  poolManager: PoolManager;
+  allowedSettlementRouters: Record<string, string[]>;
+  feeClaim: FeeClaimConfig;
+  admin: AdminConfig;
+  adminAuditLog: AdminAuditLog;
+  adminNonces?: CacheInterface; // Used signed-request nonces (shared across replicas with a shared store)
+  settlementLedger?: SettlementLedger;
+}
+
+const SETTLEMENT_STATUSES: SettlementStatus[] = [
+  "received",
+  "simulated",
+  "submitted",
+  "mined",
+  "reverted",
+  "rejected",
+  "error",
+];
+
+/**
+ * Create admin routes
+ *
+ * @param deps - Dependencies for admin routes
+ * @returns Express Router with admin endpoints
+ */
+export function createAdminRoutes(deps: AdminRouteDependencies): Router {
+  const router = Router();
+  const auth = createAdminAuth(deps.admin, deps.adminAuditLog, deps.adminNonces);
+
+  /**
+   * GET /pending-fees?network={network}
+   *
+   * Query pending fees across all supported networks and tokens.
+   * Returns fees that are eligible for claiming (above minimum threshold).
+   */
+  router.get(
+    "/pending-fees",
+    auth.requireRole("viewer", "fees.pending"),
+    async (req: Request, res: Response) => {
+      const principal: AdminPrincipal = res.locals.admin;
+
+      try {
+        const { network } = req.query;
+        const networks = network ? [network as string] : undefined;
+
+        // Validate network if specified
+        if (network && typeof network === "string") {
+          try {
+            getNetworkConfig(network);
+          } catch {
+            return res.status(400).json({
+              error: "Invalid network",
+              message: `Network '${network}' is not supported`,
+              network,
+            });
+          }
+        }
+
+        // Query pending fees
+        const pendingFees = await traced(
+          "fee.pending.query",
+          async () =>
+            getPendingFees(
+              deps.poolManager,
+              deps.allowedSettlementRouters,
+              deps.feeClaim,
+              networks,
+            ),
+          { networksCount: networks?.length || "all" },
+        );
+
+        // Record metric
+        recordMetric("facilitator.pending_fees.query", 1, {
+          networksCount: networks?.length || "all",
+          pendingFeesCount: pendingFees.length,
+        });
+
+        // Get facilitator address (from first network's pool if available)
+        let facilitatorAddress = "";
+        if (deps.poolManager.getEvmAccountPools().size > 0) {
+          const firstPool = deps.poolManager.getEvmAccountPools().values().next().value;
+          if (firstPool) {
+            facilitatorAddress = await firstPool.execute(async (signer) => {
+              // eslint-disable-next-line @typescript-eslint/no-explicit-any
+              const walletClient = signer as any;
+              return walletClient.account?.address || walletClient.address;
+            });
+          }
+        }
+
+        // Calculate total pending amount
+        const totalPending = pendingFees.reduce((sum, fee) => sum + fee.amount, 0n);
+
+        const response: PendingFeesResponse = {
+          facilitator: facilitatorAddress,
+          networksQueried: networks || "all",
+          pendingFees: pendingFees.map((fee) => ({
+            ...fee,
+            amount: fee.amount.toString(),
+            amountUSD: fee.amountUSD,
+          })),
+          totalPending: totalPending.toString(),
+          timestamp: new Date().toISOString(),
+        };
+
+        deps.adminAuditLog.record({
+          actor: principal.id,
+          role: principal.role,
+          authMethod: principal.authMethod,
+          action: "fees.pending",
+          route: `${req.method} ${req.path}`,
+          ip: req.ip,
+          outcome: "success",
+          details: { networks: networks || "all", pendingFeesCount: pendingFees.length },
+        });
+
+        logger.debug(
+          {
+            facilitator: facilitatorAddress,
+            networksQueried: networks || "all",
+            pendingFeesCount: pendingFees.length,
+            totalPending: totalPending.toString(),
+          },
+          "Pending fees queried successfully",
+        );
+
+        res.json(response);
+      } catch (error) {
+        logger.error({ error }, "Error in pending-fees endpoint");
+        deps.adminAuditLog.record({
+          actor: principal.id,
+          role: principal.role,
+          authMethod: principal.authMethod,
+          action: "fees.pending",
+          route: `${req.method} ${req.path}`,
+          ip: req.ip,
+          outcome: "failure",
+          details: { error: error instanceof Error ? error.message : String(error) },
+        });
+        res.status(500).json({
+          error: "Internal error",
+          message: "Failed to query pending fees",
+        });
+      }
+    },
+  );
+
+  /**
+   * POST /claim-fees
+   *
+   * Claim accumulated facilitator fees from SettlementRouter contracts.
+   * Claims fees across all eligible networks and tokens by default.
+   */
+  router.post(
+    "/claim-fees",
+    auth.requireRole("operator", "fees.claim"),
+    async (req: Request, res: Response) => {
+      const principal: AdminPrincipal = res.locals.admin;
+
+      try {
+        const { networks, tokens }: ClaimFeesRequest = req.body || {};
+
+        // Validate networks if specified
+        if (networks) {
+          for (const network of networks) {
+            try {
+              getNetworkConfig(network);
+            } catch {
+              return res.status(400).json({
+                error: "Invalid network",
+                message: `Network '${network}' is not supported`,
+                network,
+              });
+            }
+          }
+        }
+
+        // Validate tokens if specified (basic format validation)
+        if (tokens) {
+          for (const token of tokens) {
+            if (!token.startsWith("0x") || token.length !== 42) {
+              return res.status(400).json({
+                error: "Invalid token address",
+                message: `Token address '${token}' is not a valid Ethereum address`,
+                token,
+              });
+            }
+          }
+        }
+
+        // Execute fee claiming
+        const result = await traced(
+          "fee.claim.execute",
+          async () =>
+            claimFees(deps.poolManager, deps.allowedSettlementRouters, deps.feeClaim, {
+              networks,
+              tokens,
+            }),
+          { networksCount: networks?.length || "all", tokensCount: tokens?.length || "all" },
+        );
+
+        // Record metric
+        recordMetric("facilitator.fees.claimed", 1, {
+          success: String(result.success),
+          claimsCount: result.claims.length,
+          totalClaimed: result.totalClaimed.toString(),
+        });
+
+        const claims = result.claims.map((claim) => ({
+          network: claim.network,
+          token: claim.token,
+          amount: claim.amount.toString(),
+          transaction: claim.transaction,
+          status: claim.status,
+          ...(claim.error && { error: claim.error }),
+        }));
+
+        // Audit: who claimed what
+        deps.adminAuditLog.record({
+          actor: principal.id,
+          role: principal.role,
+          authMethod: principal.authMethod,
+          action: "fees.claim",
+          route: `${req.method} ${req.path}`,
+          ip: req.ip,
+          outcome: result.success ? "success" : "failure",
+          details: {
+            networks: networks || "all",
+            tokens: tokens || "all",
+            totalClaimed: result.totalClaimed.toString(),
+            claims,
+          },
+        });
+
+        const response: ClaimFeesResponse = {
+          success: result.success,
+          claims,
+          totalClaimed: result.totalClaimed.toString(),
+          timestamp: new Date().toISOString(),
+        };
+
+        logger.info(
+          {
+            success: result.success,
+            claimsCount: result.claims.length,
+            totalClaimed: result.totalClaimed.toString(),
+            networks: networks || "all",
+            tokens: tokens || "all",
+            actor: principal.id,
+          },
+          "Fee claiming operation completed",
+        );
+
+        res.json(response);
+      } catch (error) {
+        logger.error({ error }, "Error in claim-fees endpoint");
+        deps.adminAuditLog.record({
+          actor: principal.id,
+          role: principal.role,
+          authMethod: principal.authMethod,
+          action: "fees.claim",
+          route: `${req.method} ${req.path}`,
+          ip: req.ip,
+          outcome: "failure",
+          details: { error: error instanceof Error ? error.message : String(error) },
+        });
+        res.status(500).json({
+          error: "Internal error",
+          message: "Failed to claim fees",
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /admin/audit?limit={limit}&actor={keyId}
+   *
+   * Return recent admin audit entries, newest first.
+   */
+  router.get("/admin/audit", auth.requireRole("admin", "audit.read"), (req, res) => {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "100")) || 100, 1), 1000);
+    const actor = typeof req.query.actor === "string" ? req.query.actor : undefined;
+
+    res.json({
+      entries: deps.adminAuditLog.list(limit, actor),
+      total: deps.adminAuditLog.size(),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  /**
+   * GET /admin/settlements?network={network}&payer={address}&status={status}&before={iso}&limit={limit}
+   *
+   * Query settlement ledger records, newest first. Use `before` with the last
+   * record's updatedAt to page through older records.
+   */
+  router.get(
+    "/admin/settlements",
+    auth.requireRole("viewer", "settlements.list"),
+    async (req: Request, res: Response) => {
+      if (!deps.settlementLedger) {
+        return res.status(404).json({
+          error: "Ledger disabled",
+          message: "The settlement ledger is not enabled on this facilitator",
+        });
+      }
+
+      const { network, payer, status, before } = req.query;
+      if (status !== undefined && !SETTLEMENT_STATUSES.includes(status as SettlementStatus)) {
+        return res.status(400).json({
+          error: "Invalid status",
+          message: `Status must be one of: ${SETTLEMENT_STATUSES.join(", ")}`,
+        });
+      }
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "100")) || 100, 1), 1000);
+
+      try {
+        const records = await deps.settlementLedger.list({
+          network: typeof network === "string" ? network : undefined,
+          payer: typeof payer === "string" ? payer : undefined,
+          status: status as SettlementStatus | undefined,
+          before: typeof before === "string" ? before : undefined,
+          limit,
+        });
+
+        res.json({
+          settlements: records,
+          count: records.length,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        logger.error({ error }, "Error in admin settlements endpoint");
+        res.status(500).json({
+          error: "Internal error",
+          message: "Failed to query settlement ledger",
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /admin/settlements/:network/:contextKey
+   *
+   * Return a single settlement ledger record with its full transition history.
+   */
+  router.get(
+    "/admin/settlements/:network/:contextKey",
+    auth.requireRole("viewer", "settlements.get"),
+    async (req: Request, res: Response) => {
+      if (!deps.settlementLedger) {
+        return res.status(404).json({
+          error: "Ledger disabled",
+          message: "The settlement ledger is not enabled on this facilitator",
+        });
+      }
+
+      try {
+        const record = await deps.settlementLedger.get(req.params.network, req.params.contextKey);
+        if (!record) {
+          return res.status(404).json({
+            error: "Not found",
+            message: "No settlement recorded for this network and contextKey",
+          });
+        }
+        res.json(record);
+      } catch (error) {
+        logger.error({ error }, "Error in admin settlement lookup endpoint");
+        res.status(500).json({
+          error: "Internal error",
+          message: "Failed to query settlement ledger",
+        });
+      }
+    },
+  );
+
+  return router;
+}
@@ -2,17 +2,17 @@
  * Fee Query Routes
  *
  * Provides endpoints for querying minimum facilitator fee requirements.
+ * Fee claiming and pending-fee inspection live behind the admin API (routes/admin.ts).
  */
 
 import { Router, Request, Response } from "express";
 import { getLogger, traced, recordMetric } from "../telemetry.js";
 import { calculateMinFacilitatorFee, type GasCostConfig } from "../gas-cost.js";
-import { getNetworkConfig } from "@x402x/core";
+import { findNetworkAsset, getNetworkConfig } from "@x402x/core";
+import { isHex } from "viem";
 import type { DynamicGasPriceConfig } from "../dynamic-gas-price.js";
 import type { TokenPriceConfig } from "../token-price.js";
-import type { PoolManager } from "../pool-manager.js";
-import type { FeeClaimConfig } from "../fee-claim.js";
-import { getPendingFees, claimFees, type ClaimFeesRequest } from "../fee-claim.js";
+import { signFeeQuote, type FeeQuoteConfig } from "../fee-quote.js";
 
 const logger = getLogger();
 
@@ -23,9 +23,7 @@ export interface FeeRouteDependencies {
   gasCost: GasCostConfig;
   dynamicGasPrice: DynamicGasPriceConfig;
   tokenPrice: TokenPriceConfig;
-  poolManager: PoolManager;
-  allowedSettlementRouters: Record<string, string[]>;
-  feeClaim: FeeClaimConfig;
+  feeQuote?: FeeQuoteConfig;
 }
 
 /**
@@ -38,14 +36,17 @@ export function createFeeRoutes(deps: FeeRouteDependencies): Router {
   const router = Router();
 
   /**
-   * GET /calculate-fee?network={network}&hook={hook}&hookData={hookData}
+   * GET /calculate-fee?network={network}&hook={hook}&hookData={hookData}&asset={asset}
    *
    * Calculate recommended facilitator fee for a specific network, hook, and optional hookData.
+   * The fee is denominated in `asset` (address or symbol), defaulting to the network's default asset.
    * The returned fee has sufficient safety margin to ensure settlement will succeed.
+   * When fee quotes are enabled, the response carries a signed `feeQuoteId`; passing it
+   * back as `extra.feeQuoteId` makes verify/settle honour this fee until `expiresAt`.
    */
   router.get("/calculate-fee", async (req: Request, res: Response) => {
     try {
-      const { network, hook, hookData } = req.query;
+      const { network, hook, hookData, asset } = req.query;
 
       // Validate required parameters
       if (!network || typeof network !== "string") {
@@ -63,7 +64,7 @@ export function createFeeRoutes(deps: FeeRouteDependencies): Router {
       }
 
       // hookData is optional, validate if provided
-      if (hookData !== undefined && typeof hookData !== "string") {
+      if (hookData !== undefined && (typeof hookData !== "string" || !isHex(hookData))) {
         return res.status(400).json({
           error: "Invalid request",
           message: "Invalid 'hookData' query parameter (must be hex string)",
@@ -81,9 +82,25 @@ export function createFeeRoutes(deps: FeeRouteDependencies): Router {
         });
       }
 
-      // Get token decimals dynamically from network config
+      if (asset !== undefined && typeof asset !== "string") {
+        return res.status(400).json({
+          error: "Invalid request",
+          message: "Invalid 'asset' query parameter (must be token address or symbol)",
+        });
+      }
+
+      // Resolve the settlement asset from the network's asset registry
       const networkConfig = getNetworkConfig(network);
-      const tokenDecimals = networkConfig.defaultAsset.decimals;
+      const assetConfig = asset ? findNetworkAsset(network, asset) : networkConfig.defaultAsset;
+      if (!assetConfig) {
+        return res.status(400).json({
+          error: "Unsupported asset",
+          message: `Asset '${asset}' is not supported on ${network}`,
+          network,
+          supportedAssets: networkConfig.assets.map((candidate) => candidate.symbol),
+        });
+      }
+      const tokenDecimals = assetConfig.decimals;
 
       // Calculate minimum facilitator fee
       let feeCalculation;
@@ -98,6 +115,7 @@ export function createFeeRoutes(deps: FeeRouteDependencies): Router {
               deps.gasCost,
               deps.dynamicGasPrice,
               deps.tokenPrice,
+              assetConfig,
             ),
           { network, hook },
         );
@@ -136,10 +154,26 @@ export function createFeeRoutes(deps: FeeRouteDependencies): Router {
         hookAllowed: String(feeCalculation.hookAllowed),
       });
 
-
       // Calculate fee validity period (60 seconds recommended)
-      const validitySeconds = 60;
-      const calculatedAt = new Date().toISOString();
+      const validitySeconds = deps.feeQuote?.validitySeconds ?? 60;
+      const now = Date.now();
+      const calculatedAt = new Date(now).toISOString();
+
+      // Sign a quote the fee validation middleware will honour until it expires
+      const signedQuote =
+        deps.feeQuote?.enabled && feeCalculation.hookAllowed
+          ? signFeeQuote(
+              deps.feeQuote,
+              {
+                network,
+                hook,
+                hookData: hookData || "0x",
+                asset: assetConfig.address,
+                fee: feeCalculation.minFacilitatorFee,
+              },
+              now,
+            )
+          : undefined;
 
       // Return successful response - only essential information
       const response = {
@@ -147,15 +181,21 @@ export function createFeeRoutes(deps: FeeRouteDependencies): Router {
         hook,
         hookData: hookData || undefined,
         hookAllowed: feeCalculation.hookAllowed,
+        hookAllowedReason: feeCalculation.hookAllowedReason,
         // Main result - recommended facilitator fee
         facilitatorFee: feeCalculation.minFacilitatorFee,
         facilitatorFeeUSD: feeCalculation.minFacilitatorFeeUSD,
         // Metadata
         calculatedAt,
         validitySeconds,
+        ...(signedQuote && {
+          feeQuoteId: signedQuote.id,
+          expiresAt: new Date(signedQuote.quote.expiresAt * 1000).toISOString(),
+        }),
         token: {
-          address: networkConfig.defaultAsset.address,
-          name: networkConfig.defaultAsset.eip712.name,
+          address: assetConfig.address,
+          symbol: assetConfig.symbol,
+          name: assetConfig.eip712.name,
           decimals: tokenDecimals,
         },
         // Note: breakdown and prices removed to avoid exposing internal cost structure
@@ -191,182 +231,5 @@ export function createFeeRoutes(deps: FeeRouteDependencies): Router {
     }
   });
 
-  /**
-   * GET /pending-fees?network={network}
-   *
-   * Query pending fees across all supported networks and tokens.
-   * Returns fees that are eligible for claiming (above minimum threshold).
-   */
-  router.get("/pending-fees", async (req: Request, res: Response) => {
-    try {
-      const { network } = req.query;
-      const networks = network ? [network as string] : undefined;
-
-      // Validate network if specified
-      if (network && typeof network === "string") {
-        try {
-          getNetworkConfig(network);
-        } catch {
-          return res.status(400).json({
-            error: "Invalid network",
-            message: `Network '${network}' is not supported`,
-            network,
-          });
-        }
-      }
-
-      // Query pending fees
-      const pendingFees = await traced(
-        "fee.pending.query",
-        async () =>
-          getPendingFees(deps.poolManager, deps.allowedSettlementRouters, deps.feeClaim, networks),
-        { networksCount: networks?.length || "all" },
-      );
-
-      // Record metric
-      recordMetric("facilitator.pending_fees.query", 1, {
-        networksCount: networks?.length || "all",
-        pendingFeesCount: pendingFees.length,
-      });
-
-      // Get facilitator address (from first network's pool if available)
-      let facilitatorAddress = "";
-      if (deps.poolManager.getEvmAccountPools().size > 0) {
-        const firstPool = deps.poolManager.getEvmAccountPools().values().next().value;
-        if (firstPool) {
-          facilitatorAddress = await firstPool.execute(async (signer) => {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const walletClient = signer as any;
-            return walletClient.account?.address || walletClient.address;
-          });
-        }
-      }
-
-      // Calculate total pending amount
-      const totalPending = pendingFees.reduce((sum, fee) => sum + fee.amount, 0n);
-
-      const response = {
-        facilitator: facilitatorAddress,
-        networksQueried: networks || "all",
-        pendingFees: pendingFees.map((fee) => ({
-          ...fee,
-          amount: fee.amount.toString(),
-          amountUSD: fee.amountUSD,
-        })),
-        totalPending: totalPending.toString(),
-        timestamp: new Date().toISOString(),
-      };
-
-      logger.debug(
-        {
-          facilitator: facilitatorAddress,
-          networksQueried: networks || "all",
-          pendingFeesCount: pendingFees.length,
-          totalPending: totalPending.toString(),
-        },
-        "Pending fees queried successfully",
-      );
-
-      res.json(response);
-    } catch (error) {
-      logger.error({ error }, "Error in pending-fees endpoint");
-      res.status(500).json({
-        error: "Internal error",
-        message: "Failed to query pending fees",
-      });
-    }
-  });
-
-  /**
-   * POST /claim-fees
-   *
-   * Claim accumulated facilitator fees from SettlementRouter contracts.
-   * Claims fees across all eligible networks and tokens by default.
-   */
-  router.post("/claim-fees", async (req: Request, res: Response) => {
-    try {
-      const { networks, tokens }: ClaimFeesRequest = req.body || {};
-
-      // Validate networks if specified
-      if (networks) {
-        for (const network of networks) {
-          try {
-            getNetworkConfig(network);
-          } catch {
-            return res.status(400).json({
-              error: "Invalid network",
-              message: `Network '${network}' is not supported`,
-              network,
-            });
-          }
-        }
-      }
-
-      // Validate tokens if specified (basic format validation)
-      if (tokens) {
-        for (const token of tokens) {
-          if (!token.startsWith("0x") || token.length !== 42) {
-            return res.status(400).json({
-              error: "Invalid token address",
-              message: `Token address '${token}' is not a valid Ethereum address`,
-              token,
-            });
-          }
-        }
-      }
-
-      // Execute fee claiming
-      const result = await traced(
-        "fee.claim.execute",
-        async () =>
-          claimFees(deps.poolManager, deps.allowedSettlementRouters, deps.feeClaim, {
-            networks,
-            tokens,
-          }),
-        { networksCount: networks?.length || "all", tokensCount: tokens?.length || "all" },
-      );
-
-      // Record metric
-      recordMetric("facilitator.fees.claimed", 1, {
-        success: String(result.success),
-        claimsCount: result.claims.length,
-        totalClaimed: result.totalClaimed.toString(),
-      });
-
-      const response = {
-        success: result.success,
-        claims: result.claims.map((claim) => ({
-          network: claim.network,
-          token: claim.token,
-          amount: claim.amount.toString(),
-          transaction: claim.transaction,
-          status: claim.status,
-          ...(claim.error && { error: claim.error }),
-        })),
-        totalClaimed: result.totalClaimed.toString(),
-        timestamp: new Date().toISOString(),
-      };
-
-      logger.info(
-        {
-          success: result.success,
-          claimsCount: result.claims.length,
-          totalClaimed: result.totalClaimed.toString(),
-          networks: networks || "all",
-          tokens: tokens || "all",
-        },
-        "Fee claiming operation completed",
-      );
-
-      res.json(response);
-    } catch (error) {
-      logger.error({ error }, "Error in claim-fees endpoint");
-      res.status(500).json({
-        error: "Internal error",
-        message: "Failed to claim fees",
-      });
-    }
-  });
-
   return router;
 }
@@ -3,13 +3,16 @@
  *
  * Provides health check endpoints for monitoring and orchestration:
  * - GET /health: Liveness probe (simple health check)
- * - GET /ready: Readiness probe (detailed health checks with dependencies)
+ * - GET /ready: Readiness probe (detailed health checks with dependencies, including
+ *   per-network RPC and gas balance probes)
  */
 
 import { Router, Request, Response } from "express";
+import type { HealthResponse, ReadinessResponse } from "@x402x/core";
 import type { AccountPool } from "../account-pool.js";
 import type { TokenCache } from "../cache/index.js";
 import type { GracefulShutdown } from "../shutdown.js";
+import type { NetworkHealth, NetworkHealthMonitor } from "../network-health.js";
 
 /**
  * Dependencies required by health routes
@@ -20,6 +23,7 @@ export interface HealthRouteDependencies {
   evmAccountCount: number;
   tokenCache?: TokenCache;
   allowedSettlementRouters: Record<string, string[]>;
+  networkHealth?: Pick<NetworkHealthMonitor, "getStatus">;
 }
 
 /**
@@ -35,11 +39,12 @@ export function createHealthRoutes(deps: HealthRouteDependencies): Router {
    * GET /health - Health check (liveness probe)
    */
   router.get("/health", (req: Request, res: Response) => {
-    res.json({
+    const response: HealthResponse = {
       status: "ok",
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
-    });
+    };
+    res.json(response);
   });
 
   /**
@@ -55,7 +60,12 @@ export function createHealthRoutes(deps: HealthRouteDependencies): Router {
             network: string;
             totalQueueDepth: number;
             pendingPayersCount: number;
-            accounts: Array<{ address: string; queueDepth: number; totalProcessed: number }>;
+            accounts: Array<{
+              address: string;
+              queueDepth: number;
+              totalProcessed: number;
+              enabled: boolean;
+            }>;
           }>;
           status: string;
         }
@@ -66,7 +76,9 @@ export function createHealthRoutes(deps: HealthRouteDependencies): Router {
           keys?: number;
           hitRate?: string;
           status: string;
+          message?: string;
         }
+      | { evm: NetworkHealth[]; status: string; message?: string }
     > = {};
     let allHealthy = true;
 
@@ -85,7 +97,12 @@ export function createHealthRoutes(deps: HealthRouteDependencies): Router {
       network: string;
       totalQueueDepth: number;
       pendingPayersCount: number;
-      accounts: Array<{ address: string; queueDepth: number; totalProcessed: number }>;
+      accounts: Array<{
+        address: string;
+        queueDepth: number;
+        totalProcessed: number;
+        enabled: boolean;
+      }>;
     }> = [];
     for (const [network, pool] of deps.evmAccountPools.entries()) {
       const accounts = pool.getAccountsInfo();
@@ -97,6 +114,7 @@ export function createHealthRoutes(deps: HealthRouteDependencies): Router {
           address: acc.address,
           queueDepth: acc.queueDepth,
           totalProcessed: acc.totalProcessed,
+          enabled: acc.enabled,
         })),
       });
     }
@@ -106,20 +124,46 @@ export function createHealthRoutes(deps: HealthRouteDependencies): Router {
       status: "ok",
     };
 
-    // Check cache
-    if (deps.tokenCache) {
-      const cacheStats = deps.tokenCache.getStats();
-      checks.cache = {
-        enabled: true,
-        hits: cacheStats.hits,
-        misses: cacheStats.misses,
-        keys: cacheStats.keys,
-        hitRate:
-          cacheStats.hits + cacheStats.misses > 0
-            ? ((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100).toFixed(2) + "%"
-            : "0%",
-        status: "ok",
+    // Check network RPCs and account gas balances
+    if (deps.networkHealth) {
+      const networks = await deps.networkHealth.getStatus();
+      const failing = networks.filter((network) => network.status === "error");
+      const degraded = networks.filter((network) => network.status === "warning");
+      checks.networks = {
+        evm: networks,
+        status: failing.length > 0 ? "error" : degraded.length > 0 ? "warning" : "ok",
+        message:
+          failing.length > 0
+            ? `Unhealthy network(s): ${failing.map((network) => network.network).join(", ")}`
+            : undefined,
       };
+
+      if (failing.length > 0) {
+        allHealthy = false;
+      }
+    }
+
+    // Check cache (a PING, not a key scan; the cache fails open so an outage only degrades)
+    if (deps.tokenCache) {
+      const reachable = await deps.tokenCache.ping();
+      checks.cache = reachable
+        ? { enabled: true, status: "ok" }
+        : { enabled: true, status: "warning", message: "Cache backend unreachable" };
+
+      // Stats only where reading them is cheap (in-process caches)
+      if (reachable && deps.tokenCache.hasCheapStats()) {
+        const cacheStats = await deps.tokenCache.getStats();
+        checks.cache = {
+          ...checks.cache,
+          hits: cacheStats.hits,
+          misses: cacheStats.misses,
+          keys: cacheStats.keys,
+          hitRate:
+            cacheStats.hits + cacheStats.misses > 0
+              ? ((cacheStats.hits / (cacheStats.hits + cacheStats.misses)) * 100).toFixed(2) + "%"
+              : "0%",
+        };
+      }
     } else {
       checks.cache = {
         enabled: false,
@@ -153,11 +197,12 @@ export function createHealthRoutes(deps: HealthRouteDependencies): Router {
 
     const status = allHealthy ? 200 : 503;
 
-    res.status(status).json({
+    const response: ReadinessResponse = {
       status: allHealthy ? "ready" : "not_ready",
       timestamp: new Date().toISOString(),
       checks,
-    });
+    };
+    res.status(status).json(response);
   });
 
   return router;
@@ -5,14 +5,17 @@
  * Combines all route modules and registers them with the Express app.
  */
 
-import { Express } from "express";
+import type { IRouter } from "express";
 import type { RateLimitRequestHandler } from "express-rate-limit";
 import { createHealthRoutes, HealthRouteDependencies } from "./health.js";
+import { createMetricsRoutes, type MetricsRouteDependencies } from "./metrics.js";
 import { createVerifyRoutes, VerifyRouteDependencies } from "./verify.js";
 import { createSettleRoutes, SettleRouteDependencies } from "./settle.js";
 import { createSupportedRoutes, SupportedRouteDependencies } from "./supported.js";
 import { createFeeRoutes, FeeRouteDependencies } from "./fee.js";
 import { createStatsRoutes, type StatsRouteDependencies } from "./stats.js";
+import { createAdminRoutes, type AdminRouteDependencies } from "./admin.js";
+import { createSimulateRoutes, type SimulateRouteDependencies } from "./simulate.js";
 import { createHookValidationMiddleware } from "../middleware/hook-validation.js";
 import { createFeeValidationMiddleware } from "../middleware/fee-validation.js";
 import type { GasCostConfig } from "../gas-cost.js";
@@ -24,11 +27,14 @@ import type { TokenPriceConfig } from "../token-price.js";
  */
 export interface RoutesDependencies
   extends HealthRouteDependencies,
+    MetricsRouteDependencies,
     VerifyRouteDependencies,
     SettleRouteDependencies,
     SupportedRouteDependencies,
     FeeRouteDependencies,
-    StatsRouteDependencies {
+    StatsRouteDependencies,
+    AdminRouteDependencies,
+    SimulateRouteDependencies {
   gasCost: GasCostConfig;
   dynamicGasPrice: DynamicGasPriceConfig;
   tokenPrice: TokenPriceConfig;
@@ -43,29 +49,34 @@ export interface RateLimiters {
 }
 
 /**
- * Register all routes with the Express app
+ * Register all routes with the Express app (or a router)
  *
- * @param app - Express application instance
+ * @param app - Express application or router instance
  * @param deps - Dependencies for all routes
  * @param rateLimiters - Rate limiting middleware for specific routes
  */
 export function registerRoutes(
-  app: Express,
+  app: IRouter,
   deps: RoutesDependencies,
   rateLimiters: RateLimiters,
 ): void {
   // Create validation middleware
-  const hookValidation = createHookValidationMiddleware(deps.gasCost);
+  const hookValidation = createHookValidationMiddleware(deps.gasCost, deps.dynamicGasPrice.rpcUrls);
   const feeValidation = createFeeValidationMiddleware(
     deps.gasCost,
     deps.dynamicGasPrice,
     deps.tokenPrice,
+    deps.feeQuote,
   );
 
   // Health check routes (no rate limiting)
   const healthRoutes = createHealthRoutes(deps);
   app.use(healthRoutes);
 
+  // Prometheus metrics routes (no rate limiting)
+  const metricsRoutes = createMetricsRoutes(deps);
+  app.use(metricsRoutes);
+
   // Verify routes (with rate limiting and validation)
   const verifyRoutes = createVerifyRoutes(
     deps,
@@ -84,10 +95,18 @@ export function registerRoutes(
   );
   app.use(settleRoutes);
 
+  // Settlement simulation routes (with verify rate limiting, simulations hit the RPC)
+  const simulateRoutes = createSimulateRoutes(deps, rateLimiters.verifyRateLimiter);
+  app.use(simulateRoutes);
+
   // Fee query routes (no rate limiting)
   const feeRoutes = createFeeRoutes(deps);
   app.use(feeRoutes);
 
+  // Admin routes (fee claiming, pending fees, audit log - admin authentication required)
+  const adminRoutes = createAdminRoutes(deps);
+  app.use(adminRoutes);
+
   // Supported payment kinds routes (no rate limiting)
   const supportedRoutes = createSupportedRoutes(deps);
   app.use(supportedRoutes);
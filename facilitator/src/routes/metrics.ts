@@ -0,0 +1,57 @@
+/**
+ * Metrics Routes
+ *
+ * Provides the Prometheus scrape endpoint:
+ * - GET /metrics: Metrics recorded via recordMetric/recordHistogram in Prometheus text format
+ *
+ * Enabled with PROMETHEUS_METRICS_ENABLED=true; works with or without the OTLP exporter.
+ */
+
+import { Router, Request, Response } from "express";
+import { getLogger } from "../telemetry.js";
+import { PROMETHEUS_CONTENT_TYPE, type PrometheusMetricReader } from "../prometheus.js";
+
+const logger = getLogger();
+
+/**
+ * Dependencies required by metrics routes
+ */
+export interface MetricsRouteDependencies {
+  prometheusReader?: PrometheusMetricReader | null;
+}
+
+/**
+ * Create metrics routes
+ *
+ * @param deps - Dependencies for metrics routes
+ * @returns Express Router with metrics endpoints
+ */
+export function createMetricsRoutes(deps: MetricsRouteDependencies): Router {
+  const router = Router();
+
+  /**
+   * GET /metrics - Prometheus scrape endpoint
+   */
+  router.get("/metrics", async (req: Request, res: Response) => {
+    if (!deps.prometheusReader) {
+      return res.status(404).json({
+        error: "Not found",
+        message: "Prometheus metrics are disabled (set PROMETHEUS_METRICS_ENABLED=true)",
+      });
+    }
+
+    try {
+      const body = await deps.prometheusReader.getMetrics();
+      res.setHeader("Content-Type", PROMETHEUS_CONTENT_TYPE);
+      res.send(body);
+    } catch (error) {
+      logger.error({ error }, "Failed to collect metrics");
+      res.status(500).json({
+        error: "Internal error",
+        message: "Failed to collect metrics",
+      });
+    }
+  });
+
+  return router;
+}
@@ -4,6 +4,7 @@
  * Provides settlement endpoints for x402 payments:
  * - GET /settle: Endpoint information
  * - POST /settle: Settle payment (auto-detects standard or SettlementRouter mode)
+ * - GET /settle/:id: Status of an asynchronous settlement job
  */
 
 import { Router, Request, Response } from "express";
@@ -14,11 +15,14 @@ import {
   type PaymentRequirements,
   type PaymentPayload,
   PaymentPayloadSchema,
+  type SettleResponse,
   SupportedEVMNetworks,
   type Signer,
   type X402Config,
+  evm,
 } from "x402/types";
-import { isSettlementMode, settleWithRouter } from "../settlement.js";
+import { createPublicClient, http, type Hex } from "viem";
+import { isAuthorizationSigned, isSettlementMode, settleWithRouter } from "../settlement.js";
 import { getLogger, traced, recordMetric, recordHistogram } from "../telemetry.js";
 import type { PoolManager } from "../pool-manager.js";
 import { isStandardX402Allowed } from "../config.js";
@@ -27,7 +31,18 @@ import type { BalanceChecker } from "../balance-check.js";
 import type { GasCostConfig } from "../gas-cost.js";
 import type { DynamicGasPriceConfig } from "../dynamic-gas-price.js";
 import type { GasEstimationConfig } from "../gas-estimation/index.js";
-import { DuplicatePayerError, QueueOverloadError } from "../errors.js";
+import type { TokenPriceConfig } from "../token-price.js";
+import { DuplicatePayerError, LockUnavailableError, QueueOverloadError } from "../errors.js";
+import {
+  SettlementLedger,
+  calculateContextKey,
+  type ReceiptLookup,
+  type SettlementProgressCallback,
+} from "../ledger/index.js";
+import type { SettlementJobManager } from "../settlement-jobs.js";
+import { settlementLockKey, type HeldLock, type LockManager } from "../locks/index.js";
+import { getSpendSubject, type SpendPolicy, type SpendReservation } from "../spend-policy.js";
+import type { BatchSettler } from "../batch-settlement.js";
 
 const logger = getLogger();
 
@@ -37,6 +52,8 @@ const logger = getLogger();
 type SettleRequest = {
   paymentPayload: PaymentPayload;
   paymentRequirements: PaymentRequirements;
+  async?: boolean; // Respond with a job as soon as the transaction is submitted
+  webhookUrl?: string; // Callback for the final job status (implies async)
 };
 
 /**
@@ -50,6 +67,105 @@ export interface SettleRouteDependencies {
   dynamicGasPrice?: DynamicGasPriceConfig; // Dynamic gas price config for gas limit calculation
   balanceChecker?: BalanceChecker;
   gasEstimation?: GasEstimationConfig; // Gas estimation config for pre-validation
+  settlementLedger?: SettlementLedger; // Settlement ledger for idempotent replay
+  settlementJobs?: SettlementJobManager; // Async settlement jobs (undefined = async mode disabled)
+  locks?: LockManager; // In-flight settlement locks (shared across replicas with a shared store)
+  spendPolicy?: SpendPolicy; // Spend limits and denylist
+  batchSettler?: BatchSettler; // Batches router settlements (undefined = one transaction each)
+  tokenPrice?: TokenPriceConfig; // Asset pricing for the router gas limit, same as /calculate-fee
+}
+
+/**
+ * Wrap a signer so that the transaction submitted by the x402 SDK's settle() is reported
+ * before its receipt arrives (the SDK offers no callback of its own)
+ *
+ * @param signer - Pool account signer
+ * @param progress - Settlement progress callback
+ * @returns Signer whose writeContract reports the transaction hash as submitted
+ */
+function reportSubmission(signer: Signer, progress: SettlementProgressCallback): Signer {
+  return new Proxy(signer, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (property !== "writeContract" || typeof value !== "function") {
+        return value;
+      }
+      return async (...args: unknown[]) => {
+        const transaction = await value.apply(target, args);
+        await progress("submitted", { transaction });
+        return transaction;
+      };
+    },
+  });
+}
+
+/**
+ * Create a receipt lookup for reconciling orphaned settlements
+ *
+ * @param network - Network name
+ * @param rpcUrls - Optional custom RPC URLs by network
+ * @returns Receipt lookup returning null while the transaction is unknown or pending
+ */
+function createReceiptLookup(network: string, rpcUrls?: Record<string, string>): ReceiptLookup {
+  const chain = evm.getChainFromNetwork(network);
+  const client = createPublicClient({
+    chain,
+    transport: http(rpcUrls?.[network] || chain.rpcUrls?.default?.http?.[0]),
+  });
+
+  return async (hash: Hex) => {
+    try {
+      const receipt = await client.getTransactionReceipt({ hash });
+      return { status: receipt.status };
+    } catch {
+      return null;
+    }
+  };
+}
+
+/**
+ * Settle a router payment through the batch settler, recording settle metrics
+ *
+ * @param batchSettler - Batch settler
+ * @param paymentPayload - Payment payload
+ * @param paymentRequirements - Payment requirements (settlement router mode)
+ * @param progress - Callback notified when the batch is submitted
+ * @param startTime - Request start time for the duration metric
+ * @returns SettleResponse of this payment
+ */
+async function settleInBatch(
+  batchSettler: BatchSettler,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  progress: SettlementProgressCallback,
+  startTime: number,
+): Promise<SettleResponse> {
+  const response = await traced(
+    "settle.settlementRouterBatch",
+    async () => batchSettler.settle(paymentPayload, paymentRequirements, progress),
+    {
+      network: paymentRequirements.network,
+      router: paymentRequirements.extra?.settlementRouter || "",
+    },
+  );
+
+  recordMetric("facilitator.settle.total", 1, {
+    network: paymentRequirements.network,
+    mode: "settlementRouterBatch",
+    success: String(response.success),
+  });
+  recordHistogram("facilitator.settle.duration_ms", Date.now() - startTime, {
+    network: paymentRequirements.network,
+    mode: "settlementRouterBatch",
+  });
+
+  return {
+    success: response.success,
+    transaction: response.transaction,
+    network: response.network,
+    payer: response.payer,
+    errorReason: response.errorReason,
+  } as SettleResponse;
 }
 
 /**
@@ -80,10 +196,29 @@ export function createSettleRoutes(
       body: {
         paymentPayload: "PaymentPayload",
         paymentRequirements: "PaymentRequirements (with optional extra.settlementRouter)",
+        async: "boolean (optional, return a job once the transaction is submitted)",
+        webhookUrl: "string (optional, callback with the final job status)",
       },
+      asyncSupported: !!deps.settlementJobs,
+      batchSettlement: !!deps.batchSettler,
     });
   });
 
+  /**
+   * GET /settle/:id - Returns the status of an asynchronous settlement job
+   */
+  router.get("/settle/:id", (req: Request, res: Response) => {
+    const job = deps.settlementJobs?.get(req.params.id);
+    if (!job) {
+      res.status(404).json({
+        error: "Job not found",
+        message: "Unknown or expired settlement job id.",
+      });
+      return;
+    }
+    res.json(job);
+  });
+
   /**
    * POST /settle - Settle x402 payment using account pool (with rate limiting)
    *
@@ -92,20 +227,50 @@ export function createSettleRoutes(
    * 2. Settlement Router mode: Token transfer + Hook execution via SettlementRouter
    *
    * The mode is automatically detected based on the presence of extra.settlementRouter
+   *
+   * With `async: true` (or a `webhookUrl`) the response is a settlement job, returned
+   * with 202 as soon as the transaction is submitted. The settlement keeps its place
+   * in the account queue until the receipt arrives; poll GET /settle/:id or wait
+   * for the webhook to get the final SettleResponse.
    */
   const middlewares: Array<RequestHandler | RateLimitRequestHandler> = [rateLimiter];
   if (hookValidation) middlewares.push(hookValidation);
   if (feeValidation) middlewares.push(feeValidation);
 
   router.post("/settle", ...(middlewares as any), async (req: Request, res: Response) => {
+    let ledgerKey: string | undefined;
+    let settlementLock: HeldLock | undefined;
+    let spendReservation: SpendReservation | undefined;
+    let transactionSubmitted = false;
+
     try {
       const body: SettleRequest = req.body;
       const paymentRequirements = PaymentRequirementsSchema.parse(body.paymentRequirements);
       const paymentPayload = PaymentPayloadSchema.parse(body.paymentPayload);
 
+      // Async mode is opt-in per request
+      const asyncRequested = body.async === true || typeof body.webhookUrl === "string";
+      if (asyncRequested) {
+        if (!deps.settlementJobs) {
+          res.status(400).json({
+            error: "Async settlement disabled",
+            message: "Asynchronous settlement is not enabled on this facilitator.",
+          });
+          return;
+        }
+        const webhookError = body.webhookUrl
+          ? await deps.settlementJobs.validateWebhookUrl(body.webhookUrl)
+          : undefined;
+        if (webhookError) {
+          res.status(400).json({ error: "Invalid webhook URL", message: webhookError });
+          return;
+        }
+      }
+
       // Extract payer address from payment payload for duplicate detection
       // For EVM exact scheme: paymentPayload.payload.authorization.from
       let payerAddress: string | undefined;
+      let nonce: string | undefined;
       if (
         paymentPayload.payload &&
         typeof paymentPayload.payload === "object" &&
@@ -114,9 +279,110 @@ export function createSettleRoutes(
         typeof paymentPayload.payload.authorization === "object" &&
         "from" in paymentPayload.payload.authorization
       ) {
-        payerAddress = (paymentPayload.payload.authorization as { from: string }).from;
+        const authorization = paymentPayload.payload.authorization as {
+          from: string;
+          nonce?: string;
+        };
+        payerAddress = authorization.from;
+        nonce = authorization.nonce;
+      }
+
+      // Only a payload signed by the payer may lock its authorization or open a ledger entry
+      if (
+        (deps.locks || deps.settlementLedger) &&
+        payerAddress &&
+        nonce &&
+        !(await isAuthorizationSigned(
+          paymentPayload,
+          paymentRequirements,
+          deps.dynamicGasPrice?.rpcUrls,
+        ))
+      ) {
+        res.json({
+          success: false,
+          errorReason: "invalid_exact_evm_payload_signature",
+          transaction: "",
+          network: paymentRequirements.network,
+          payer: payerAddress,
+        });
+        return;
+      }
+
+      // Lock the commitment so no other replica settles the same authorization concurrently
+      if (deps.locks && payerAddress && nonce) {
+        const contextKey = calculateContextKey(payerAddress, paymentRequirements.asset, nonce);
+        settlementLock = await deps.locks.tryAcquire(
+          settlementLockKey(SettlementLedger.key(paymentRequirements.network, contextKey)),
+        );
+        if (!settlementLock) {
+          res.status(409).json({
+            error: "Settlement in progress",
+            message: "This payment authorization is already being settled.",
+          });
+          return;
+        }
       }
 
+      // Idempotent replay: return the stored outcome for an authorization that was already settled
+      const ledgerEntry = await deps.settlementLedger?.begin(paymentPayload, paymentRequirements);
+      if (ledgerEntry?.outcome === "replay") {
+        logger.info(
+          { key: ledgerEntry.record.key, status: ledgerEntry.record.status },
+          "Replaying settlement result from ledger",
+        );
+        res.locals.settlementReplay = true;
+        res.setHeader("X-Settlement-Replay", "true");
+        res.json(ledgerEntry.record.response);
+        return;
+      }
+      if (ledgerEntry?.outcome === "in_progress") {
+        res.status(409).json({
+          error: "Settlement in progress",
+          message: "This payment authorization is already being settled.",
+        });
+        return;
+      }
+      if (ledgerEntry?.outcome === "orphaned") {
+        const reconciled = await deps.settlementLedger!.reconcile(
+          ledgerEntry.record,
+          createReceiptLookup(paymentRequirements.network, deps.dynamicGasPrice?.rpcUrls),
+        );
+        if (reconciled?.response) {
+          res.locals.settlementReplay = true;
+          res.setHeader("X-Settlement-Replay", "true");
+          res.json(reconciled.response);
+          return;
+        }
+        res.status(409).json({
+          error: "Settlement pending",
+          message: "This payment authorization was submitted and is awaiting confirmation.",
+          transaction: ledgerEntry.record.transaction,
+        });
+        return;
+      }
+      // Enforce spend limits and the denylist (replays above are not counted twice);
+      // the payment is reserved against the limits until its settlement fails
+      const spendSubject = getSpendSubject(paymentPayload, paymentRequirements);
+      if (deps.spendPolicy && spendSubject) {
+        const decision = await deps.spendPolicy.reserve(spendSubject);
+        if (!decision.allowed) {
+          if (ledgerEntry?.key) {
+            await deps.settlementLedger?.fail(ledgerEntry.key, new Error(decision.reason));
+          }
+          res.json({
+            success: false,
+            errorReason: decision.reason,
+            transaction: "",
+            network: paymentRequirements.network,
+            payer: spendSubject.payer,
+          });
+          return;
+        }
+        spendReservation = decision.reservation;
+      }
+
+      ledgerKey = ledgerEntry?.key;
+
       // Get the appropriate account pool
       let accountPool = deps.poolManager.getPool(paymentRequirements.network);
 
@@ -126,200 +392,308 @@ export function createSettleRoutes(
 
       const startTime = Date.now();
 
-      // Execute settlement in the account pool's queue
+      // Track async settlements as jobs; the job is accepted once the transaction is submitted
+      const job = asyncRequested
+        ? deps.settlementJobs!.create({
+            network: paymentRequirements.network,
+            payer: payerAddress,
+            webhookUrl: body.webhookUrl,
+          })
+        : undefined;
+      let accepted = false;
+      let signalSubmitted: () => void = () => undefined;
+      const submitted = new Promise<void>((resolve) => (signalSubmitted = resolve));
+
+      const ledgerProgress = ledgerKey ? deps.settlementLedger?.progress(ledgerKey) : undefined;
+      const progress: SettlementProgressCallback = async (status, info) => {
+        await ledgerProgress?.(status, info);
+        if (status === "submitted") transactionSubmitted = true;
+        if (status === "submitted" && job) {
+          deps.settlementJobs!.submitted(job.id, info?.transaction);
+          accepted = true;
+          signalSubmitted();
+        }
+      };
+
+      // Batch mode: router payments join the next batch for their network
+      const batchSettler =
+        isSettlementMode(paymentRequirements) &&
+        SupportedEVMNetworks.includes(paymentRequirements.network)
+          ? deps.batchSettler
+          : undefined;
+
+      // Otherwise execute settlement in the account pool's queue
       // This ensures serial execution per account (no nonce conflicts)
       // Pass payer address for duplicate detection
-      const result = await accountPool.execute(async (signer: Signer) => {
-        // Check if this is a Settlement Router payment
-        if (isSettlementMode(paymentRequirements)) {
-          logger.info(
-            {
-              router: paymentRequirements.extra?.settlementRouter,
-              hook: paymentRequirements.extra?.hook,
-              facilitatorFee: paymentRequirements.extra?.facilitatorFee,
-              salt: paymentRequirements.extra?.salt,
-            },
-            "Settlement Router mode detected",
-          );
-
-          // Ensure this is an EVM network (Settlement Router is EVM-only)
-          if (!SupportedEVMNetworks.includes(paymentRequirements.network)) {
-            throw new Error("Settlement Router mode is only supported on EVM networks");
-          }
-
-          try {
-            // Settle using SettlementRouter with whitelist validation
-            const response = await traced(
-              "settle.settlementRouter",
-              async () =>
-                settleWithRouter(
-                  signer,
-                  paymentPayload,
-                  paymentRequirements,
-                  deps.allowedSettlementRouters,
-                  deps.gasCost, // Pass gas cost config for dynamic gas limit
-                  deps.dynamicGasPrice, // Pass dynamic gas price config
-                  deps.gasCost?.nativeTokenPrice, // Pass native token prices for gas metrics
-                  deps.balanceChecker, // Pass balance checker for defensive checks
-                  deps.x402Config, // Pass x402 config for verification
-                  deps.gasEstimation, // Pass gas estimation config for pre-validation
-                ),
-              {
-                network: paymentRequirements.network,
-                router: paymentRequirements.extra?.settlementRouter || "",
-              },
-            );
-
-            const duration = Date.now() - startTime;
-
-            // Record metrics
-            recordMetric("facilitator.settle.total", 1, {
-              network: paymentRequirements.network,
-              mode: "settlementRouter",
-              success: String(response.success),
-            });
-            recordHistogram("facilitator.settle.duration_ms", duration, {
-              network: paymentRequirements.network,
-              mode: "settlementRouter",
-            });
-
-            // Record gas metrics if available
-            if (response.success && response.gasMetrics) {
-              const metrics = response.gasMetrics;
-
-              recordHistogram("facilitator.settlement.gas_used", parseInt(metrics.gasUsed), {
-                network: paymentRequirements.network,
-                hook: metrics.hook,
-              });
-
-              recordHistogram(
-                "facilitator.settlement.gas_cost_usd",
-                parseFloat(metrics.actualGasCostUSD),
+      const execution = batchSettler
+        ? settleInBatch(batchSettler, paymentPayload, paymentRequirements, progress, startTime)
+        : (accountPool.execute(async (signer: Signer) => {
+            // Check if this is a Settlement Router payment
+            if (isSettlementMode(paymentRequirements)) {
+              logger.info(
                 {
-                  network: paymentRequirements.network,
-                  hook: metrics.hook,
+                  router: paymentRequirements.extra?.settlementRouter,
+                  hook: paymentRequirements.extra?.hook,
+                  facilitatorFee: paymentRequirements.extra?.facilitatorFee,
+                  salt: paymentRequirements.extra?.salt,
                 },
+                "Settlement Router mode detected",
               );
 
-              recordHistogram(
-                "facilitator.settlement.facilitator_fee_usd",
-                parseFloat(metrics.facilitatorFeeUSD),
+              // Ensure this is an EVM network (Settlement Router is EVM-only)
+              if (!SupportedEVMNetworks.includes(paymentRequirements.network)) {
+                throw new Error("Settlement Router mode is only supported on EVM networks");
+              }
+
+              try {
+                // Settle using SettlementRouter with whitelist validation
+                const response = await traced(
+                  "settle.settlementRouter",
+                  async () =>
+                    settleWithRouter(
+                      signer,
+                      paymentPayload,
+                      paymentRequirements,
+                      deps.allowedSettlementRouters,
+                      deps.gasCost, // Pass gas cost config for dynamic gas limit
+                      deps.dynamicGasPrice, // Pass dynamic gas price config
+                      deps.gasCost?.nativeTokenPrice, // Pass native token prices for gas metrics
+                      deps.balanceChecker, // Pass balance checker for defensive checks
+                      deps.x402Config, // Pass x402 config for verification
+                      deps.gasEstimation, // Pass gas estimation config for pre-validation
+                      progress, // Report simulation/submission to the ledger and async job
+                      deps.tokenPrice, // Price the asset like /calculate-fee did
+                    ),
+                  {
+                    network: paymentRequirements.network,
+                    router: paymentRequirements.extra?.settlementRouter || "",
+                  },
+                );
+
+                const duration = Date.now() - startTime;
+
+                // Record metrics
+                recordMetric("facilitator.settle.total", 1, {
+                  network: paymentRequirements.network,
+                  mode: "settlementRouter",
+                  success: String(response.success),
+                });
+                recordHistogram("facilitator.settle.duration_ms", duration, {
+                  network: paymentRequirements.network,
+                  mode: "settlementRouter",
+                });
+
+                // Record gas metrics if available
+                if (response.success && response.gasMetrics) {
+                  const metrics = response.gasMetrics;
+
+                  recordHistogram("facilitator.settlement.gas_used", parseInt(metrics.gasUsed), {
+                    network: paymentRequirements.network,
+                    hook: metrics.hook,
+                  });
+
+                  recordHistogram(
+                    "facilitator.settlement.gas_cost_usd",
+                    parseFloat(metrics.actualGasCostUSD),
+                    {
+                      network: paymentRequirements.network,
+                      hook: metrics.hook,
+                    },
+                  );
+
+                  recordHistogram(
+                    "facilitator.settlement.facilitator_fee_usd",
+                    parseFloat(metrics.facilitatorFeeUSD),
+                    {
+                      network: paymentRequirements.network,
+                      hook: metrics.hook,
+                    },
+                  );
+
+                  recordHistogram(
+                    "facilitator.settlement.profit_usd",
+                    parseFloat(metrics.profitUSD),
+                    {
+                      network: paymentRequirements.network,
+                      hook: metrics.hook,
+                    },
+                  );
+
+                  recordMetric("facilitator.settlement.profitable", metrics.profitable ? 1 : 0, {
+                    network: paymentRequirements.network,
+                    hook: metrics.hook,
+                  });
+                }
+
+                logger.info(
+                  {
+                    transaction: response.transaction,
+                    success: response.success,
+                    payer: response.payer,
+                    duration_ms: duration,
+                  },
+                  "SettlementRouter settlement successful",
+                );
+
+                // Return standard SettleResponse without gas metrics (internal use only)
+                return {
+                  success: response.success,
+                  transaction: response.transaction,
+                  network: response.network,
+                  payer: response.payer,
+                  errorReason: response.errorReason,
+                };
+              } catch (error) {
+                const duration = Date.now() - startTime;
+
+                logger.error({ error, duration_ms: duration }, "Settlement failed");
+                recordMetric("facilitator.settle.errors", 1, {
+                  network: paymentRequirements.network,
+                  mode: "settlementRouter",
+                  error_type: error instanceof Error ? error.name : "unknown",
+                });
+                throw error;
+              }
+            } else {
+              logger.info(
                 {
                   network: paymentRequirements.network,
-                  hook: metrics.hook,
+                  asset: paymentRequirements.asset,
+                  maxAmountRequired: paymentRequirements.maxAmountRequired,
                 },
+                "Standard settlement mode",
               );
 
-              recordHistogram("facilitator.settlement.profit_usd", parseFloat(metrics.profitUSD), {
-                network: paymentRequirements.network,
-                hook: metrics.hook,
-              });
-
-              recordMetric("facilitator.settlement.profitable", metrics.profitable ? 1 : 0, {
-                network: paymentRequirements.network,
-                hook: metrics.hook,
-              });
+              // Check if standard x402 is allowed on this network
+              if (!isStandardX402Allowed(paymentRequirements.network)) {
+                throw new Error(
+                  "Standard x402 settlement is not supported on mainnet. " +
+                    "Please use SettlementRouter (x402x) mode with facilitatorFee for security.",
+                );
+              }
+
+              try {
+                // Settle using standard x402 flow
+                const response = await traced(
+                  "settle.standard",
+                  async () =>
+                    settle(
+                      reportSubmission(signer, progress),
+                      paymentPayload,
+                      paymentRequirements,
+                      deps.x402Config,
+                    ),
+                  {
+                    network: paymentRequirements.network,
+                  },
+                );
+
+                const duration = Date.now() - startTime;
+
+                // Record metrics
+                recordMetric("facilitator.settle.total", 1, {
+                  network: paymentRequirements.network,
+                  mode: "standard",
+                  success: String(response.success),
+                });
+                recordHistogram("facilitator.settle.duration_ms", duration, {
+                  network: paymentRequirements.network,
+                  mode: "standard",
+                });
+
+                logger.info(
+                  {
+                    transaction: response.transaction,
+                    success: response.success,
+                    payer: response.payer,
+                    duration_ms: duration,
+                  },
+                  "Standard settlement successful",
+                );
+
+                return response;
+              } catch (error) {
+                const duration = Date.now() - startTime;
+
+                logger.error({ error, duration_ms: duration }, "Standard settlement failed");
+                recordMetric("facilitator.settle.errors", 1, {
+                  network: paymentRequirements.network,
+                  mode: "standard",
+                  error_type: error instanceof Error ? error.name : "unknown",
+                });
+                throw error;
+              }
+            }
+          }, payerAddress) as Promise<SettleResponse>);
+
+      if (job) {
+        const jobs = deps.settlementJobs!;
+        const key = ledgerKey;
+        ledgerKey = undefined; // Outcome is recorded by the background chain below
+        const lock = settlementLock;
+        settlementLock = undefined; // Held until the background chain finishes
+        const reservation = spendReservation;
+        spendReservation = undefined; // Released by the background chain on failure
+
+        const settled = execution.then(
+          async (result) => {
+            if (key) await deps.settlementLedger?.complete(key, result);
+            if (!result.success) await deps.spendPolicy?.release(reservation);
+            jobs.complete(job.id, result);
+            return result;
+          },
+          async (error) => {
+            if (key) await deps.settlementLedger?.fail(key, error);
+            // A submitted transaction may still move funds, so keep its reservation
+            if (!accepted) await deps.spendPolicy?.release(reservation);
+            if (!accepted) {
+              // Failed before submission: report the error on this request instead
+              jobs.discard(job.id);
+              throw error;
             }
+            logger.error({ error, jobId: job.id }, "Async settlement failed after submission");
+            jobs.fail(job.id, error);
+            return undefined;
+          },
+        );
+        void settled.then(
+          () => lock?.release(),
+          () => lock?.release(),
+        );
+
+        jobs.track(settled);
+        await Promise.race([submitted, settled]);
+
+        const current = jobs.get(job.id)!;
+        res.locals.settlementCompletion = settled;
+        if (current.status === "pending") {
+          res.status(202).setHeader("Location", `/settle/${job.id}`);
+        }
+        res.json(current);
+        return;
+      }
 
-            logger.info(
-              {
-                transaction: response.transaction,
-                success: response.success,
-                payer: response.payer,
-                duration_ms: duration,
-              },
-              "SettlementRouter settlement successful",
-            );
-
-            // Return standard SettleResponse without gas metrics (internal use only)
-            return {
-              success: response.success,
-              transaction: response.transaction,
-              network: response.network,
-              payer: response.payer,
-              errorReason: response.errorReason,
-            };
-          } catch (error) {
-            const duration = Date.now() - startTime;
-
-            logger.error({ error, duration_ms: duration }, "Settlement failed");
-            recordMetric("facilitator.settle.errors", 1, {
-              network: paymentRequirements.network,
-              mode: "settlementRouter",
-              error_type: error instanceof Error ? error.name : "unknown",
-            });
-            throw error;
-          }
-        } else {
-          logger.info(
-            {
-              network: paymentRequirements.network,
-              asset: paymentRequirements.asset,
-              maxAmountRequired: paymentRequirements.maxAmountRequired,
-            },
-            "Standard settlement mode",
-          );
-
-          // Check if standard x402 is allowed on this network
-          if (!isStandardX402Allowed(paymentRequirements.network)) {
-            throw new Error(
-              "Standard x402 settlement is not supported on mainnet. " +
-                "Please use SettlementRouter (x402x) mode with facilitatorFee for security.",
-            );
-          }
+      const result = await execution;
 
-          try {
-            // Settle using standard x402 flow
-            const response = await traced(
-              "settle.standard",
-              async () => settle(signer, paymentPayload, paymentRequirements, deps.x402Config),
-              {
-                network: paymentRequirements.network,
-              },
-            );
-
-            const duration = Date.now() - startTime;
-
-            // Record metrics
-            recordMetric("facilitator.settle.total", 1, {
-              network: paymentRequirements.network,
-              mode: "standard",
-              success: String(response.success),
-            });
-            recordHistogram("facilitator.settle.duration_ms", duration, {
-              network: paymentRequirements.network,
-              mode: "standard",
-            });
-
-            logger.info(
-              {
-                transaction: response.transaction,
-                success: response.success,
-                payer: response.payer,
-                duration_ms: duration,
-              },
-              "Standard settlement successful",
-            );
-
-            return response;
-          } catch (error) {
-            const duration = Date.now() - startTime;
-
-            logger.error({ error, duration_ms: duration }, "Standard settlement failed");
-            recordMetric("facilitator.settle.errors", 1, {
-              network: paymentRequirements.network,
-              mode: "standard",
-              error_type: error instanceof Error ? error.name : "unknown",
-            });
-            throw error;
-          }
-        }
-      }, payerAddress);
+      if (ledgerKey) {
+        await deps.settlementLedger?.complete(ledgerKey, result);
+      }
+      if (!result.success) {
+        await deps.spendPolicy?.release(spendReservation);
+      }
+      spendReservation = undefined;
 
       res.json(result);
     } catch (error) {
       logger.error({ error }, "Settle error");
 
+      if (ledgerKey) {
+        await deps.settlementLedger?.fail(ledgerKey, error);
+      }
+      if (!transactionSubmitted) {
+        await deps.spendPolicy?.release(spendReservation);
+      }
+
       // Check for duplicate payer errors first
       if (error instanceof DuplicatePayerError) {
         res.status(429).json({
@@ -330,6 +704,16 @@ export function createSettleRoutes(
         return;
       }
 
+      // Lock store unreachable: fail closed rather than settle without duplicate protection
+      if (error instanceof LockUnavailableError) {
+        res.status(503).json({
+          error: "Service temporarily unavailable",
+          message: "Settlement coordination is unavailable. Please retry later.",
+          retryAfter: 10,
+        });
+        return;
+      }
+
       // Check for queue overload errors
       if (error instanceof QueueOverloadError) {
         res.status(503).json({
@@ -377,6 +761,8 @@ export function createSettleRoutes(
           message: "An unexpected error occurred. Please try again later.",
         });
       }
+    } finally {
+      await settlementLock?.release();
     }
   });
 
@@ -0,0 +1,154 @@
+/**
+ * Simulate Routes
+ *
+ * Provides a settlement dry-run endpoint for hook developers:
+ * - GET /simulate: Endpoint information
+ * - POST /simulate: Simulate settleAndExecute and return the decoded execution trace
+ */
+
+import { Router, Request, Response } from "express";
+import type { RateLimitRequestHandler } from "express-rate-limit";
+import {
+  PaymentRequirementsSchema,
+  PaymentPayloadSchema,
+  SupportedEVMNetworks,
+  evm,
+} from "x402/types";
+import { createPublicClient, http, type Address, type PublicClient } from "viem";
+import { SettlementExtraError, type SimulateResponse } from "@x402x/core";
+import { isSettlementMode, validateSettlementRouter } from "../settlement.js";
+import { simulateSettlement } from "../settlement-simulation.js";
+import { getLogger, recordMetric, recordHistogram } from "../telemetry.js";
+import type { PoolManager } from "../pool-manager.js";
+import type { DynamicGasPriceConfig } from "../dynamic-gas-price.js";
+
+const logger = getLogger();
+
+/**
+ * Dependencies required by simulate routes
+ */
+export interface SimulateRouteDependencies {
+  poolManager: PoolManager;
+  allowedSettlementRouters: Record<string, string[]>;
+  dynamicGasPrice?: DynamicGasPriceConfig; // Custom RPC URLs per network
+}
+
+/**
+ * Create simulate routes
+ *
+ * @param deps - Dependencies for simulate routes
+ * @param rateLimiter - Rate limiting middleware
+ * @returns Express Router with simulate endpoints
+ */
+export function createSimulateRoutes(
+  deps: SimulateRouteDependencies,
+  rateLimiter: RateLimitRequestHandler,
+): Router {
+  const router = Router();
+
+  /**
+   * GET /simulate - Returns info about the simulate endpoint
+   */
+  router.get("/simulate", (req: Request, res: Response) => {
+    res.json({
+      endpoint: "/simulate",
+      description:
+        "POST to dry-run a SettlementRouter settlement and get decoded events, balance changes and revert reason",
+      body: {
+        paymentPayload: "PaymentPayload",
+        paymentRequirements: "PaymentRequirements (with extra.settlementRouter)",
+      },
+    });
+  });
+
+  /**
+   * POST /simulate - Simulate settleAndExecute for a payment (no transaction is sent)
+   *
+   * The settlement is simulated with a facilitator account of the network as sender,
+   * so the hook sees the same facilitator address as in a real settlement.
+   */
+  router.post("/simulate", rateLimiter, async (req: Request, res: Response) => {
+    try {
+      const paymentRequirements = PaymentRequirementsSchema.parse(req.body?.paymentRequirements);
+      const paymentPayload = PaymentPayloadSchema.parse(req.body?.paymentPayload);
+      const network = paymentRequirements.network;
+
+      if (!isSettlementMode(paymentRequirements) || !SupportedEVMNetworks.includes(network)) {
+        res.status(400).json({
+          error: "Unsupported payment",
+          message: "Only SettlementRouter payments on EVM networks can be simulated.",
+        });
+        return;
+      }
+
+      validateSettlementRouter(
+        network,
+        paymentRequirements.extra?.settlementRouter as string,
+        deps.allowedSettlementRouters,
+      );
+
+      const facilitator = deps.poolManager.getPool(network)?.getAccountsInfo()[0]?.address;
+      if (!facilitator) {
+        res.status(503).json({
+          error: "Service unavailable",
+          message: `No facilitator account available for network: ${network}`,
+        });
+        return;
+      }
+
+      const chain = evm.getChainFromNetwork(network);
+      const client = createPublicClient({
+        chain,
+        transport: http(
+          deps.dynamicGasPrice?.rpcUrls[network] || chain.rpcUrls?.default?.http?.[0],
+        ),
+      }) as PublicClient;
+
+      const startTime = Date.now();
+      const simulation = await simulateSettlement(
+        client,
+        paymentPayload,
+        paymentRequirements,
+        facilitator as Address,
+      );
+
+      recordMetric("facilitator.simulate.total", 1, {
+        network,
+        success: String(simulation.success),
+        method: simulation.method,
+      });
+      recordHistogram("facilitator.simulate.duration_ms", Date.now() - startTime, { network });
+
+      const response: SimulateResponse = {
+        network,
+        settlementRouter: paymentRequirements.extra?.settlementRouter as string,
+        facilitator,
+        ...simulation,
+      };
+      res.json(response);
+    } catch (error) {
+      if (error instanceof Error && error.name === "ZodError") {
+        res.status(400).json({
+          error: "Invalid request payload",
+          message: "Request validation failed. Please check your input format.",
+        });
+        return;
+      }
+      if (error instanceof SettlementExtraError) {
+        res.status(400).json({
+          error: "Invalid settlement parameters",
+          message: error.message,
+        });
+        return;
+      }
+
+      logger.error({ error }, "Simulation error");
+      res.status(500).json({
+        error: "Simulation failed",
+        message: "Unable to simulate settlement. Please try again later.",
+      });
+    }
+  });
+
+  return router;
+}
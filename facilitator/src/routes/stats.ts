@@ -12,7 +12,12 @@
 
 import { Router, Request, Response } from "express";
 import { createPublicClient, http, decodeEventLog } from "viem";
-import { getNetworkConfig, getSupportedNetworks } from "@x402x/core";
+import {
+  getNetworkConfig,
+  getSupportedNetworks,
+  type StatsResponse,
+  type StatsScannedRange,
+} from "@x402x/core";
 import type { DynamicGasPriceConfig } from "../dynamic-gas-price.js";
 import { getLogger } from "../telemetry.js";
 
@@ -95,13 +100,7 @@ export function createStatsRoutes(deps: StatsRouteDependencies): Router {
       let totalValue = 0n;
       const uniquePayers = new Set<string>();
 
-      const scanned: Array<{
-        network: string;
-        router: string;
-        fromBlock: bigint;
-        toBlock: bigint;
-        count: number;
-      }> = [];
+      const scanned: StatsScannedRange[] = [];
 
       for (const network of networks) {
         // Determine RPC URL
@@ -193,8 +192,8 @@ export function createStatsRoutes(deps: StatsRouteDependencies): Router {
         scanned.push({
           network,
           router: routerAddress,
-          fromBlock: from,
-          toBlock: to,
+          fromBlock: from.toString(),
+          toBlock: to.toString(),
           count: matched,
         });
       }
@@ -215,7 +214,7 @@ export function createStatsRoutes(deps: StatsRouteDependencies): Router {
         .sort((a, b) => Number(BigInt(b.total) - BigInt(a.total)))
         .slice(0, 200);
 
-      res.json({
+      const response: StatsResponse = {
         networks,
         scanned,
         transactionsCount: totalTx,
@@ -223,7 +222,8 @@ export function createStatsRoutes(deps: StatsRouteDependencies): Router {
         totalValueAtomic: totalValue.toString(), // raw token units (USDC on supported networks)
         payers,
         topHooks,
-      });
+      };
+      res.json(response);
     } catch (error) {
       logger.error({ error }, "Stats error");
       res.status(500).json({ error: "stats_failed", message: "Unable to compute stats" });
@@ -8,7 +8,7 @@
 import { Router, Request, Response } from "express";
 import type { SupportedPaymentKind } from "x402/types";
 import type { PoolManager } from "../pool-manager.js";
-import { getSupportedNetworks } from "@x402x/core";
+import { getSupportedNetworks, type SupportedResponse } from "@x402x/core";
 
 /**
  * Dependencies required by supported routes
@@ -45,9 +45,10 @@ export function createSupportedRoutes(deps: SupportedRouteDependencies): Router
       }
     }
 
-    res.json({
+    const response: SupportedResponse = {
       kinds,
-    });
+    };
+    res.json(response);
   });
 
   return router;
@@ -17,6 +17,7 @@ import {
   SupportedEVMNetworks,
   type ConnectedClient,
   type X402Config,
+  type VerifyResponse,
   evm,
 } from "x402/types";
 import { createPublicClient, http, publicActions } from "viem";
@@ -24,6 +25,7 @@ import { getLogger, recordMetric, recordHistogram } from "../telemetry.js";
 import type { PoolManager } from "../pool-manager.js";
 import type { RequestHandler } from "express";
 import type { BalanceChecker } from "../balance-check.js";
+import { getSpendSubject, type SpendPolicy, type SpendPolicyReason } from "../spend-policy.js";
 
 const logger = getLogger();
 
@@ -35,6 +37,13 @@ type VerifyRequest = {
   paymentRequirements: PaymentRequirements;
 };
 
+/**
+ * Verify response, whose invalid reasons include the facilitator's spend policy reasons
+ */
+type FacilitatorVerifyResponse = Omit<VerifyResponse, "invalidReason"> & {
+  invalidReason?: VerifyResponse["invalidReason"] | SpendPolicyReason;
+};
+
 /**
  * Dependencies required by verify routes
  */
@@ -44,6 +53,7 @@ export interface VerifyRouteDependencies {
   balanceChecker?: BalanceChecker;
   /** RPC URLs per network (network name -> RPC URL) */
   rpcUrls?: Record<string, string>;
+  spendPolicy?: SpendPolicy; // Spend limits and denylist
 }
 
 /**
@@ -114,7 +124,12 @@ export function createVerifyRoutes(
         "Verifying payment...",
       );
 
-      const valid = await verify(client, paymentPayload, paymentRequirements, deps.x402Config);
+      const valid: FacilitatorVerifyResponse = await verify(
+        client,
+        paymentPayload,
+        paymentRequirements,
+        deps.x402Config,
+      );
 
       // If basic verification passed and balance checker is available, check user balance
       if (valid.isValid && deps.balanceChecker) {
@@ -168,6 +183,16 @@ export function createVerifyRoutes(
         }
       }
 
+      // Enforce spend limits and the denylist on otherwise valid payments
+      const spendSubject = getSpendSubject(paymentPayload, paymentRequirements);
+      if (valid.isValid && deps.spendPolicy && spendSubject) {
+        const decision = await deps.spendPolicy.evaluate(spendSubject);
+        if (!decision.allowed) {
+          valid.isValid = false;
+          valid.invalidReason = decision.reason;
+        }
+      }
+
       const duration = Date.now() - startTime;
 
       // Record metrics
@@ -0,0 +1,452 @@
+/**
+ * Settlement Jobs Module
+ *
+ * Tracks asynchronous settlements requested with `async: true` (or a `webhookUrl`)
+ * on POST /settle. The HTTP response is sent as soon as the transaction is
+ * submitted; the job then follows the settlement to completion:
+ * - pending: transaction submitted, waiting for the receipt
+ * - confirmed: settlement succeeded
+ * - failed: settlement reverted or raised an error
+ *
+ * Clients poll GET /settle/:id or receive a signed webhook callback when the job
+ * reaches a final state. Jobs are kept in memory and pruned after a TTL.
+ *
+ * Webhook hosts must resolve to public addresses (checked when the job is created
+ * and again before delivery), so a client cannot make the facilitator call into
+ * its own network.
+ */
+
+import { createHmac, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import type { SettleResponse } from "x402/types";
+import type {
+  SettlementJob as SharedSettlementJob,
+  SettlementJobStatus,
+  SettlementJobWebhook,
+} from "@x402x/core";
+import { getLogger, recordMetric } from "./telemetry.js";
+import { withRetry } from "./retry.js";
+
+const logger = getLogger();
+
+export type { SettlementJobStatus, SettlementJobWebhook };
+
+/**
+ * Asynchronous settlement job
+ */
+export interface SettlementJob extends Omit<SharedSettlementJob, "response"> {
+  /** Final settlement response (confirmed / failed) */
+  response?: SettleResponse;
+}
+
+/**
+ * Async settlement configuration
+ */
+export interface AsyncSettlementConfig {
+  /** Whether clients may request async settlement */
+  enabled: boolean;
+  /** Maximum number of jobs kept in memory */
+  maxJobs: number;
+  /** Seconds a finished job stays queryable */
+  jobTtlSeconds: number;
+  /** Secret used to sign webhook payloads (X-Webhook-Signature) */
+  webhookSecret?: string;
+  /** Timeout per webhook attempt in milliseconds */
+  webhookTimeoutMs: number;
+  /** Maximum webhook delivery attempts */
+  webhookMaxAttempts: number;
+  /** Allow plain http:// and private-network webhook URLs (development only) */
+  allowInsecureWebhooks: boolean;
+}
+
+/**
+ * Resolve a host name to its IP addresses
+ */
+export type HostResolver = (host: string) => Promise<string[]>;
+
+/**
+ * Addresses a webhook must not reach: loopback, private, link-local, CGNAT,
+ * benchmarking, multicast and reserved ranges
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is publicly routable
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns True unless the address is in a loopback, private, link-local or reserved range
+ */
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1, or ::ffff:a00:1 as normalized by URL) is checked as IPv4
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  const ip = dotted
+    ? dotted[1]
+    : hex
+      ? [hex[1], hex[2]]
+          .map((group) => parseInt(group, 16))
+          .flatMap((value) => [value >> 8, value & 0xff])
+          .join(".")
+      : address;
+  const family = isIP(ip);
+  if (family === 0) return false;
+  return !NON_PUBLIC_ADDRESSES.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolve a host with the system resolver
+ *
+ * @param host - Host name
+ * @returns All addresses of the host
+ */
+async function resolveHost(host: string): Promise<string[]> {
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.map((entry) => entry.address);
+}
+
+/**
+ * Sign a webhook payload
+ *
+ * @param secret - Webhook secret
+ * @param timestamp - Unix timestamp in seconds (sent as X-Webhook-Timestamp)
+ * @param body - Raw JSON body
+ * @returns Hex-encoded HMAC-SHA256 of `${timestamp}.${body}`
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * In-memory manager for asynchronous settlement jobs
+ */
+export class SettlementJobManager {
+  private jobs = new Map<string, SettlementJob>();
+  private background = new Set<Promise<unknown>>();
+  private stopping = new AbortController();
+
+  /**
+   * Create a job manager
+   *
+   * @param config - Async settlement configuration
+   * @param resolve - Host resolver for webhook URLs (overridable for tests)
+   */
+  constructor(
+    private readonly config: AsyncSettlementConfig,
+    private readonly resolve: HostResolver = resolveHost,
+  ) {}
+
+  /**
+   * Validate a client supplied webhook URL
+   *
+   * @param url - Webhook URL
+   * @returns Error message, or undefined if the URL is acceptable
+   */
+  async validateWebhookUrl(url: string): Promise<string | undefined> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return "webhookUrl must be an absolute URL";
+    }
+    const insecure = this.config.allowInsecureWebhooks;
+    if (parsed.protocol !== "https:" && !(parsed.protocol === "http:" && insecure)) {
+      return "webhookUrl must use https";
+    }
+    if (insecure) return undefined;
+
+    // URL keeps IPv6 literals in brackets
+    const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+    let addresses: string[];
+    try {
+      addresses = isIP(host) ? [host] : await this.resolve(host);
+    } catch {
+      return "webhookUrl host could not be resolved";
+    }
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+      return "webhookUrl must resolve to a public address";
+    }
+    return undefined;
+  }
+
+  /**
+   * Create a pending job
+   *
+   * @param params - Job parameters
+   * @param params.network - Settlement network
+   * @param params.payer - Payer address
+   * @param params.webhookUrl - Optional callback URL
+   * @returns The created job
+   */
+  create(params: { network: string; payer?: string; webhookUrl?: string }): SettlementJob {
+    this.prune();
+
+    const now = new Date().toISOString();
+    const job: SettlementJob = {
+      id: randomUUID(),
+      status: "pending",
+      network: params.network,
+      payer: params.payer,
+      ...(params.webhookUrl && {
+        webhook: { url: params.webhookUrl, delivered: false, attempts: 0 },
+      }),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+
+    recordMetric("facilitator.settle.jobs.created", 1, { network: job.network });
+    return job;
+  }
+
+  /**
+   * Get a job by id
+   *
+   * @param id - Job identifier
+   * @returns The job, or undefined if unknown or expired
+   */
+  get(id: string): SettlementJob | undefined {
+    this.prune();
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Record the submitted transaction hash
+   *
+   * @param id - Job identifier
+   * @param transaction - Transaction hash
+   */
+  submitted(id: string, transaction?: string): void {
+    const job = this.jobs.get(id);
+    if (job && transaction) {
+      job.transaction = transaction;
+      job.updatedAt = new Date().toISOString();
+    }
+  }
+
+  /**
+   * Finish a job with the final settlement response
+   *
+   * @param id - Job identifier
+   * @param response - Settlement response
+   */
+  complete(id: string, response: SettleResponse): void {
+    this.finish(id, response.success ? "confirmed" : "failed", {
+      response,
+      transaction: response.transaction || undefined,
+    });
+  }
+
+  /**
+   * Finish a job after the settlement raised an error
+   *
+   * @param id - Job identifier
+   * @param error - Error raised
+   */
+  fail(id: string, error: unknown): void {
+    this.finish(id, "failed", { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  /**
+   * Forget a job whose id was never returned to the client
+   *
+   * @param id - Job identifier
+   */
+  discard(id: string): void {
+    this.jobs.delete(id);
+  }
+
+  /**
+   * Number of jobs currently retained
+   *
+   * @returns Job count
+   */
+  size(): number {
+    return this.jobs.size;
+  }
+
+  /**
+   * Track a background task (settlement or webhook) so shutdown can wait for it
+   *
+   * @param task - Background task
+   */
+  track(task: Promise<unknown>): void {
+    const tracked = task.finally(() => this.background.delete(tracked));
+    // Errors are handled by the task owner; only completion matters here
+    tracked.catch(() => undefined);
+    this.background.add(tracked);
+  }
+
+  /**
+   * Wait for accepted settlements and webhook deliveries (used during graceful shutdown)
+   *
+   * Webhook retries are cancelled: each pending delivery gets at most its current attempt.
+   */
+  async drain(): Promise<void> {
+    this.stopping.abort();
+    while (this.background.size > 0) {
+      await Promise.allSettled(Array.from(this.background));
+    }
+  }
+
+  /**
+   * Move a job to a final state and trigger its webhook
+   *
+   * @param id - Job identifier
+   * @param status - Final status
+   * @param update - Fields to merge into the job
+   */
+  private finish(
+    id: string,
+    status: Exclude<SettlementJobStatus, "pending">,
+    update: Partial<SettlementJob>,
+  ): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+
+    Object.assign(job, update, { status, updatedAt: new Date().toISOString() });
+    recordMetric("facilitator.settle.jobs.finished", 1, { network: job.network, status });
+    logger.info(
+      { jobId: id, status, transaction: job.transaction },
+      "Async settlement job finished",
+    );
+
+    if (job.webhook) {
+      this.track(this.deliver(job));
+    }
+  }
+
+  /**
+   * Deliver the webhook for a finished job, retrying with backoff
+   *
+   * @param job - Finished job with a webhook
+   */
+  private async deliver(job: SettlementJob): Promise<void> {
+    const webhook = job.webhook!;
+    const body = JSON.stringify({
+      id: job.id,
+      status: job.status,
+      network: job.network,
+      payer: job.payer,
+      transaction: job.transaction,
+      response: job.response,
+      error: job.error,
+    });
+
+    try {
+      await withRetry(
+        async () => {
+          // Re-check the host before each attempt: its DNS may have changed since validation
+          const invalid = await this.validateWebhookUrl(webhook.url);
+          if (invalid) {
+            throw new Error(invalid);
+          }
+          webhook.attempts++;
+          const timestamp = Math.floor(Date.now() / 1000).toString();
+          const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            "X-Webhook-Id": job.id,
+            "X-Webhook-Timestamp": timestamp,
+          };
+          if (this.config.webhookSecret) {
+            headers["X-Webhook-Signature"] = signWebhookPayload(
+              this.config.webhookSecret,
+              timestamp,
+              body,
+            );
+          }
+
+          const response = await fetch(webhook.url, {
+            method: "POST",
+            headers,
+            body,
+            // Redirects could lead to an address that was never validated
+            redirect: "manual",
+            signal: AbortSignal.timeout(this.config.webhookTimeoutMs),
+          });
+          if (!response.ok) {
+            throw new Error(`Webhook responded with HTTP ${response.status}`);
+          }
+        },
+        {
+          maxAttempts: this.config.webhookMaxAttempts,
+          initialDelayMs: 1000,
+          maxDelayMs: 30000,
+          shouldRetry: () => true,
+          signal: this.stopping.signal,
+        },
+        "settlement webhook",
+      );
+
+      webhook.delivered = true;
+      webhook.lastError = undefined;
+      recordMetric("facilitator.settle.webhooks", 1, { outcome: "delivered" });
+    } catch (error) {
+      webhook.lastError = error instanceof Error ? error.message : String(error);
+      recordMetric("facilitator.settle.webhooks", 1, { outcome: "failed" });
+      logger.warn(
+        { jobId: job.id, url: webhook.url, attempts: webhook.attempts, error: webhook.lastError },
+        "Settlement webhook delivery failed",
+      );
+    }
+  }
+
+  /**
+   * Drop expired finished jobs and enforce the size bound (oldest finished jobs first)
+   *
+   * Pending jobs are never dropped: their clients are still waiting for the outcome.
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.config.jobTtlSeconds * 1000;
+    for (const [id, job] of this.jobs) {
+      if (job.status !== "pending" && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+
+    // Map iteration follows insertion order, so the first entries are the oldest
+    for (const [id, job] of this.jobs) {
+      if (this.jobs.size < this.config.maxJobs) break;
+      if (job.status !== "pending") {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Create a settlement job manager
+ *
+ * @param config - Async settlement configuration
+ * @param resolve - Optional host resolver for webhook URLs
+ * @returns SettlementJobManager instance
+ */
+export function createSettlementJobManager(
+  config: AsyncSettlementConfig,
+  resolve?: HostResolver,
+): SettlementJobManager {
+  return new SettlementJobManager(config, resolve);
+}
@@ -0,0 +1,259 @@
+/**
+ * Settlement Simulation Module
+ *
+ * Dry-runs SettlementRouter.settleAndExecute for a payment without sending a
+ * transaction, so hook developers can debug hooks without spending funds.
+ *
+ * Uses eth_simulateV1 to run, in one simulated block, token balance reads for
+ * payer, payTo and hook, the settlement call and the balance reads again. This
+ * yields the router events and the balance deltas. RPCs without eth_simulateV1
+ * fall back to a plain eth_call, which only reports success or the revert reason.
+ */
+
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
+import {
+  BaseError,
+  decodeErrorResult,
+  encodeFunctionData,
+  erc20Abi,
+  hexToBigInt,
+  parseErc6492Signature,
+  parseEventLogs,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from "viem";
+import {
+  SETTLEMENT_ROUTER_ABI,
+  parseSettlementExtra,
+  type SettlementSimulation,
+  type SimulatedBalanceChange,
+  type SimulatedEvent,
+  type SimulatedRevert,
+} from "@x402x/core";
+import { getLogger } from "./telemetry.js";
+
+const logger = getLogger();
+
+export type { SimulatedEvent, SimulatedBalanceChange, SimulatedRevert, SettlementSimulation };
+
+/**
+ * Simulate settling a SettlementRouter payment
+ *
+ * @param client - Public client for the payment's network
+ * @param paymentPayload - The payment payload with authorization and signature
+ * @param paymentRequirements - The payment requirements with settlement extra parameters
+ * @param facilitator - Account simulated as the transaction sender (receives the fee)
+ * @returns Decoded simulation result
+ * @throws SettlementExtraError if the settlement extra parameters are invalid
+ */
+export async function simulateSettlement(
+  client: PublicClient,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  facilitator: Address,
+): Promise<SettlementSimulation> {
+  const extra = parseSettlementExtra(paymentRequirements.extra);
+  const { authorization, signature } = paymentPayload.payload as {
+    authorization: {
+      from: string;
+      value: string;
+      validAfter: string;
+      validBefore: string;
+      nonce: string;
+    };
+    signature: string;
+  };
+  const token = paymentRequirements.asset as Address;
+  const router = extra.settlementRouter as Address;
+
+  const settleData = encodeFunctionData({
+    abi: SETTLEMENT_ROUTER_ABI,
+    functionName: "settleAndExecute",
+    args: [
+      token,
+      authorization.from as Address,
+      BigInt(authorization.value),
+      BigInt(authorization.validAfter),
+      BigInt(authorization.validBefore),
+      authorization.nonce as Hex,
+      parseErc6492Signature(signature as Hex).signature,
+      extra.salt as Hex,
+      extra.payTo as Address,
+      BigInt(extra.facilitatorFee),
+      extra.hook as Address,
+      extra.hookData as Hex,
+    ],
+  });
+
+  const participants: Array<{ role: SimulatedBalanceChange["role"]; address: Address }> = [
+    { role: "payer", address: authorization.from as Address },
+    { role: "payTo", address: extra.payTo as Address },
+  ];
+  if (extra.hook.toLowerCase() !== zeroAddress) {
+    participants.push({ role: "hook", address: extra.hook as Address });
+  }
+  const balanceCalls = participants.map((participant) => ({
+    to: token,
+    data: encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [participant.address],
+    }),
+  }));
+
+  let calls;
+  try {
+    const [block] = await client.simulateBlocks({
+      blocks: [
+        {
+          calls: [
+            ...balanceCalls,
+            { account: facilitator, to: router, data: settleData },
+            ...balanceCalls,
+          ],
+        },
+      ],
+    });
+    calls = block.calls;
+  } catch (error) {
+    logger.debug(
+      { error, network: paymentRequirements.network },
+      "eth_simulateV1 unavailable, falling back to eth_call",
+    );
+    return simulateWithCall(client, router, settleData, facilitator);
+  }
+
+  const settleCall = calls[participants.length];
+  if (settleCall.status !== "success") {
+    return {
+      success: false,
+      method: "eth_simulateV1",
+      gasUsed: settleCall.gasUsed?.toString(),
+      events: [],
+      balanceChanges: [],
+      revert: decodeRevert(settleCall.data),
+    };
+  }
+
+  const balanceChanges = participants.map((participant, index) => {
+    const before = hexToBigInt(calls[index].data);
+    const after = hexToBigInt(calls[participants.length + 1 + index].data);
+    return {
+      role: participant.role,
+      address: participant.address,
+      before: before.toString(),
+      after: after.toString(),
+      delta: (after - before).toString(),
+    };
+  });
+
+  return {
+    success: true,
+    method: "eth_simulateV1",
+    gasUsed: settleCall.gasUsed.toString(),
+    events: decodeEvents(settleCall.logs ?? [], router),
+    balanceChanges,
+  };
+}
+
+/**
+ * Simulate with a plain eth_call (success or revert reason only)
+ *
+ * @param client - Public client
+ * @param router - SettlementRouter address
+ * @param data - Encoded settleAndExecute call
+ * @param facilitator - Simulated transaction sender
+ * @returns Simulation result without events or balance changes
+ */
+async function simulateWithCall(
+  client: PublicClient,
+  router: Address,
+  data: Hex,
+  facilitator: Address,
+): Promise<SettlementSimulation> {
+  try {
+    await client.call({ account: facilitator, to: router, data });
+    return { success: true, method: "eth_call", events: [], balanceChanges: [] };
+  } catch (error) {
+    const revertData =
+      error instanceof BaseError
+        ? (error.walk((cause) => typeof (cause as { data?: unknown }).data === "string") as {
+            data?: Hex;
+          } | null)
+        : null;
+    if (!revertData?.data) {
+      throw error;
+    }
+    return {
+      success: false,
+      method: "eth_call",
+      events: [],
+      balanceChanges: [],
+      revert: decodeRevert(revertData.data),
+    };
+  }
+}
+
+/**
+ * Decode router events emitted by the settlement call
+ *
+ * @param logs - Logs of the settlement call
+ * @param router - SettlementRouter address
+ * @returns Decoded Settled, HookExecuted and FeeAccumulated events
+ */
+function decodeEvents(logs: Log[], router: Address): SimulatedEvent[] {
+  return parseEventLogs({
+    abi: SETTLEMENT_ROUTER_ABI,
+    eventName: ["Settled", "HookExecuted", "FeeAccumulated"],
+    logs: logs.filter((log) => log.address.toLowerCase() === router.toLowerCase()),
+  }).map((log) => ({
+    name: log.eventName,
+    address: log.address,
+    args: stringifyArgs(log.args),
+  }));
+}
+
+/**
+ * Decode revert data with the router's errors (and Error(string) / Panic)
+ *
+ * @param data - Revert data
+ * @returns Decoded revert, including the hook's own revert for HookExecutionFailed
+ */
+export function decodeRevert(data: Hex): SimulatedRevert {
+  try {
+    const decoded = decodeErrorResult({ abi: SETTLEMENT_ROUTER_ABI, data });
+    const args = decoded.abiItem.inputs.reduce<Record<string, unknown>>((acc, input, index) => {
+      acc[input.name || String(index)] = (decoded.args as readonly unknown[])[index];
+      return acc;
+    }, {});
+
+    return {
+      error: decoded.errorName,
+      args: stringifyArgs(args),
+      ...(decoded.errorName === "HookExecutionFailed"
+        ? { hookRevert: decodeRevert(args.reason as Hex) }
+        : {}),
+      data,
+    };
+  } catch {
+    return { error: "unknown", data };
+  }
+}
+
+/**
+ * Convert bigint arguments to decimal strings for JSON responses
+ *
+ * @param args - Decoded arguments
+ * @returns JSON-safe arguments
+ */
+function stringifyArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      typeof value === "bigint" ? value.toString() : value,
+    ]),
+  );
+}
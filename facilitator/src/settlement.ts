@@ -11,6 +11,7 @@ import { verify } from "x402/facilitator";
 import { evm } from "x402/types";
 import type { PaymentPayload, PaymentRequirements, Signer, X402Config } from "x402/types";
 import { isEvmSignerWallet } from "x402/types";
+import { getVersion } from "x402/shared/evm";
 import { createPublicClient, http, publicActions } from "viem";
 import {
   SettlementExtraError,
@@ -19,6 +20,7 @@ import {
   parseSettlementExtra as parseSettlementExtraCore,
   getNetworkConfig,
   calculateCommitment,
+  type AssetConfig,
 } from "@x402x/core";
 import type { Address, Hex } from "viem";
 import { parseErc6492Signature } from "viem/utils";
@@ -27,8 +29,11 @@ import { calculateGasMetrics } from "./gas-metrics.js";
 import type { SettleResponseWithMetrics } from "./settlement-types.js";
 import { calculateEffectiveGasLimit, type GasCostConfig } from "./gas-cost.js";
 import { getGasPrice, type DynamicGasPriceConfig } from "./dynamic-gas-price.js";
+import { getAssetPrice, type TokenPriceConfig } from "./token-price.js";
 import type { BalanceChecker } from "./balance-check.js";
 import { createGasEstimator, type GasEstimationConfig } from "./gas-estimation/index.js";
+import type { SettlementProgressCallback } from "./ledger/index.js";
+import { DEFAULTS } from "./defaults.js";
 
 const logger = getLogger();
 
@@ -100,39 +105,46 @@ export function validateSettlementRouter(
 }
 
 /**
- * Validate token address (only USDC is currently supported)
+ * Validate token address against the network's asset registry
  *
  * @param network - The network name (e.g., "base-sepolia", "x-layer-testnet")
  * @param tokenAddress - The token address to validate
+ * @returns Asset configuration of the token
  * @throws SettlementExtraError if token is not supported
  */
-export function validateTokenAddress(network: string, tokenAddress: string): void {
+export function validateTokenAddress(network: string, tokenAddress: string): AssetConfig {
   const networkConfig = getNetworkConfig(network);
-  const expectedUsdcAddress = networkConfig.defaultAsset.address.toLowerCase();
-  const actualTokenAddress = tokenAddress.toLowerCase();
+  // Match by address only: a symbol is not a valid token address
+  const assetConfig = networkConfig.assets.find(
+    (candidate) => candidate.address.toLowerCase() === tokenAddress.toLowerCase(),
+  );
 
-  if (actualTokenAddress !== expectedUsdcAddress) {
+  if (!assetConfig) {
+    const allowed = networkConfig.assets.map((candidate) => candidate.address);
     logger.error(
       {
         network,
         providedToken: tokenAddress,
-        expectedToken: networkConfig.defaultAsset.address,
+        allowedTokens: allowed,
       },
       "Unsupported token address detected in settlement",
     );
     throw new SettlementExtraError(
-      `Only USDC is currently supported for settlement on ${network}. ` +
-        `Expected: ${networkConfig.defaultAsset.address}, Got: ${tokenAddress}`,
+      `Token ${tokenAddress} is not supported for settlement on ${network}. ` +
+        `Supported: ${networkConfig.assets.map((candidate) => `${candidate.symbol} (${candidate.address})`).join(", ")}`,
     );
   }
 
   logger.debug(
     {
       network,
-      tokenAddress: networkConfig.defaultAsset.address,
+      tokenAddress: assetConfig.address,
+      symbol: assetConfig.symbol,
     },
     "Token address validated",
   );
+
+  return assetConfig;
 }
 
 /**
@@ -156,361 +168,349 @@ function parseSettlementExtra(extra: unknown): {
 }
 
 /**
- * Settle payment using SettlementRouter contract
- *
- * Directly calls SettlementRouter.settleAndExecute which:
- * 1. Verifies the EIP-3009 authorization
- * 2. Transfers tokens from payer to Router
- * 3. Deducts facilitator fee
- * 4. Executes the Hook with remaining amount
- * 5. Ensures Router doesn't hold funds
+ * EIP-3009 authorization carried by a settlement router payment
+ */
+export interface RouterAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+/**
+ * A payment that passed pre-settlement validation, ready for settleAndExecute
+ */
+export interface PreparedRouterSettlement {
+  network: string;
+  asset: string;
+  assetConfig: AssetConfig;
+  assetPrice: number;
+  extra: ReturnType<typeof parseSettlementExtra>;
+  authorization: RouterAuthorization;
+  /** Signature with any ERC-6492 wrapper removed */
+  signature: Hex;
+}
+
+/**
+ * Result of pre-settlement validation: the prepared settlement, or the response to return
+ */
+export type RouterSettlementPreparation =
+  | { ok: true; settlement: PreparedRouterSettlement }
+  | { ok: false; response: SettleResponseWithMetrics };
+
+/**
+ * Validate a settlement router payment before spending gas on it
  *
- * This function implements:
- * - Router whitelist validation (SECURITY)
- * - Dynamic gas limit calculation based on facilitator fee
- * - Gas cost tracking and profitability metrics
- * - Detailed logging for monitoring
- * - Warning on unprofitable settlements
+ * Checks the asset and router whitelists, re-verifies the payment with the x402 SDK
+ * and checks that the authorization nonce equals the settlement commitment.
+ * Shared by single settlement (settleWithRouter) and batch settlement.
  *
- * @param signer - The facilitator's wallet signer (must support EVM)
  * @param paymentPayload - The payment payload with authorization and signature
  * @param paymentRequirements - The payment requirements with settlement extra parameters
  * @param allowedRouters - Whitelist of allowed SettlementRouter addresses per network
- * @param gasCostConfig - Gas cost configuration for dynamic gas limit
- * @param dynamicGasPriceConfig - Dynamic gas price configuration
- * @param nativeTokenPrices - Optional native token prices by network (for gas metrics)
- * @param balanceChecker - Optional balance checker for defensive balance validation
+ * @param rpcUrls - Optional RPC URLs by network for verification
  * @param x402Config - Optional x402 configuration for verification
- * @returns SettleResponse with gas metrics for monitoring
- * @throws Error if the payment is for non-EVM network or settlement fails
+ * @param tokenPriceConfig - Token price configuration (the one /calculate-fee prices assets with)
+ * @returns Prepared settlement, or a failed SettleResponse for invalid payments
+ * @throws SettlementExtraError if the asset, router or settlement parameters are invalid
  */
-export async function settleWithRouter(
-  signer: Signer,
+export async function prepareRouterSettlement(
   paymentPayload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
   allowedRouters: Record<string, string[]>,
-  gasCostConfig?: GasCostConfig,
-  dynamicGasPriceConfig?: DynamicGasPriceConfig,
-  nativeTokenPrices?: Record<string, number>,
-  balanceChecker?: BalanceChecker,
+  rpcUrls?: Record<string, string>,
   x402Config?: X402Config,
-  gasEstimationConfig?: GasEstimationConfig,
-): Promise<SettleResponseWithMetrics> {
-  try {
-    // 1. Ensure signer is EVM signer
-    if (!isEvmSignerWallet(signer)) {
-      throw new Error("Settlement Router requires an EVM signer");
-    }
+  tokenPriceConfig?: TokenPriceConfig,
+): Promise<RouterSettlementPreparation> {
+  const network = paymentRequirements.network;
+  const asset = paymentRequirements.asset;
 
-    const network = paymentRequirements.network;
-    const asset = paymentRequirements.asset;
+  // 2. Validate token address (SECURITY: only registered assets are accepted)
+  const assetConfig = validateTokenAddress(network, asset);
+  const assetPrice = await getAssetPrice(assetConfig, tokenPriceConfig);
 
-    // 2. Validate token address (SECURITY: only USDC is currently supported)
-    validateTokenAddress(network, asset);
+  // 3. Parse settlement extra parameters
+  const extra = parseSettlementExtra(paymentRequirements.extra);
 
-    // 3. Parse settlement extra parameters
-    const extra = parseSettlementExtra(paymentRequirements.extra);
+  logger.debug(
+    {
+      network,
+      asset,
+      router: extra.settlementRouter,
+      facilitatorFee: extra.facilitatorFee,
+    },
+    "Starting settlement with router",
+  );
 
-    logger.debug(
-      {
-        network,
-        asset,
-        router: extra.settlementRouter,
-        facilitatorFee: extra.facilitatorFee,
-      },
-      "Starting settlement with router",
-    );
+  // 4. Validate SettlementRouter address against whitelist (SECURITY)
+  validateSettlementRouter(network, extra.settlementRouter, allowedRouters);
 
-    // 4. Validate SettlementRouter address against whitelist (SECURITY)
-    validateSettlementRouter(network, extra.settlementRouter, allowedRouters);
+  // 5. Parse authorization and signature from payload
+  const payload = paymentPayload.payload;
 
-    // 5. Parse authorization and signature from payload
-    const payload = paymentPayload.payload;
+  // Type guard: ensure this is an EVM payload with authorization and signature
+  if (!payload || typeof payload !== "object" || !("authorization" in payload)) {
+    throw new Error("Missing authorization in payment payload");
+  }
 
-    // Type guard: ensure this is an EVM payload with authorization and signature
-    if (!payload || typeof payload !== "object" || !("authorization" in payload)) {
-      throw new Error("Missing authorization in payment payload");
-    }
+  if (!("signature" in payload) || !payload.signature) {
+    throw new Error("Missing signature in payment payload");
+  }
 
-    if (!("signature" in payload) || !payload.signature) {
-      throw new Error("Missing signature in payment payload");
-    }
+  // Now we can safely access the EVM payload fields
+  type EvmPayload = { authorization: RouterAuthorization; signature: string };
+  const evmPayload = payload as EvmPayload;
+  const authorization = evmPayload.authorization;
+  const { signature } = parseErc6492Signature(evmPayload.signature as Hex);
 
-    // Now we can safely access the EVM payload fields
-    type EvmPayload = { authorization: any; signature: string };
-    const evmPayload = payload as EvmPayload;
-    const authorization = evmPayload.authorization;
-    const { signature } = parseErc6492Signature(evmPayload.signature as Hex);
+  // Log authorization details for debugging signature issues
+  logger.debug(
+    {
+      network,
+      from: authorization.from,
+      to: authorization.to,
+      value: authorization.value,
+      validAfter: authorization.validAfter,
+      validBefore: authorization.validBefore,
+      nonce: authorization.nonce,
+      asset,
+    },
+    "Settlement authorization details (before on-chain validation)",
+  );
 
-    // Log authorization details for debugging signature issues
-    logger.debug(
+  // 5.5. Validate payment using x402 SDK (SECURITY: prevent any invalid payments from wasting gas)
+  // Create client with custom RPC URL support
+  const chain = evm.getChainFromNetwork(network);
+  const rpcUrl = rpcUrls?.[network] || chain.rpcUrls?.default?.http?.[0];
+  const client = createPublicClient({
+    chain,
+    transport: http(rpcUrl),
+  }).extend(publicActions);
+  const verifyResult = await verify(client as any, paymentPayload, paymentRequirements, x402Config);
+
+  if (!verifyResult.isValid) {
+    // x402 SDK verification failed - return error to prevent gas waste on guaranteed-to-fail transactions
+    // This catches: invalid signatures, wrong recipients, insufficient balance, expired timestamps, etc.
+    const invalidReason = verifyResult.invalidReason || "";
+    const payer = verifyResult.payer || authorization.from;
+
+    logger.warn(
       {
         network,
         from: authorization.from,
-        to: authorization.to,
-        value: authorization.value,
+        payer,
+        invalidReason,
         validAfter: authorization.validAfter,
         validBefore: authorization.validBefore,
-        nonce: authorization.nonce,
-        asset,
+        currentTime: Math.floor(Date.now() / 1000),
       },
-      "Settlement authorization details (before on-chain validation)",
+      "x402 SDK verification failed - preventing wasted gas transaction",
     );
 
-    // 5.5. Validate payment using x402 SDK (SECURITY: prevent any invalid payments from wasting gas)
-    // Create client with custom RPC URL support
-    const chain = evm.getChainFromNetwork(network);
-    const rpcUrl = dynamicGasPriceConfig?.rpcUrls[network] || chain.rpcUrls?.default?.http?.[0];
-    const client = createPublicClient({
-      chain,
-      transport: http(rpcUrl),
-    }).extend(publicActions);
-    const verifyResult = await verify(
-      client as any,
-      paymentPayload,
-      paymentRequirements,
-      x402Config,
-    );
-
-    if (!verifyResult.isValid) {
-      // x402 SDK verification failed - return error to prevent gas waste on guaranteed-to-fail transactions
-      // This catches: invalid signatures, wrong recipients, insufficient balance, expired timestamps, etc.
-      const invalidReason = verifyResult.invalidReason || "";
-      const payer = verifyResult.payer || authorization.from;
-
-      logger.warn(
-        {
-          network,
-          from: authorization.from,
-          payer,
-          invalidReason,
-          validAfter: authorization.validAfter,
-          validBefore: authorization.validBefore,
-          currentTime: Math.floor(Date.now() / 1000),
-        },
-        "x402 SDK verification failed - preventing wasted gas transaction",
-      );
-
-      // Map x402 SDK error reasons to our error reasons for better user experience
-      let errorReason = "PAYMENT_VERIFICATION_FAILED";
-      if (invalidReason.includes("authorization_valid_before")) {
-        errorReason = "AUTHORIZATION_EXPIRED";
-      } else if (invalidReason.includes("authorization_valid_after")) {
-        errorReason = "AUTHORIZATION_NOT_YET_VALID";
-      } else if (invalidReason.includes("signature")) {
-        errorReason = "INVALID_SIGNATURE";
-      } else if (invalidReason.includes("recipient")) {
-        errorReason = "INVALID_RECIPIENT";
-      } else if (invalidReason.includes("insufficient_funds")) {
-        errorReason = "INSUFFICIENT_FUNDS";
-      }
+    // Map x402 SDK error reasons to our error reasons for better user experience
+    let errorReason = "PAYMENT_VERIFICATION_FAILED";
+    if (invalidReason.includes("authorization_valid_before")) {
+      errorReason = "AUTHORIZATION_EXPIRED";
+    } else if (invalidReason.includes("authorization_valid_after")) {
+      errorReason = "AUTHORIZATION_NOT_YET_VALID";
+    } else if (invalidReason.includes("signature")) {
+      errorReason = "INVALID_SIGNATURE";
+    } else if (invalidReason.includes("recipient")) {
+      errorReason = "INVALID_RECIPIENT";
+    } else if (invalidReason.includes("insufficient_funds")) {
+      errorReason = "INSUFFICIENT_FUNDS";
+    }
 
-      return {
+    return {
+      ok: false,
+      response: {
         success: false,
         errorReason,
         transaction: "",
         network: paymentPayload.network,
         payer,
-      };
-    }
-
-    // 5.6. Validate commitment hash (SECURITY: ensure nonce matches calculated commitment)
-    // This prevents parameter tampering attacks where settlement parameters are modified after signing
-    const expectedCommitment = calculateCommitment({
-      chainId: chain.id,
-      hub: extra.settlementRouter,
-      asset: asset,
-      from: authorization.from,
-      value: authorization.value,
-      validAfter: authorization.validAfter,
-      validBefore: authorization.validBefore,
-      salt: extra.salt,
-      payTo: extra.payTo,
-      facilitatorFee: extra.facilitatorFee,
-      hook: extra.hook,
-      hookData: extra.hookData,
-    });
+      },
+    };
+  }
 
-    if (authorization.nonce.toLowerCase() !== expectedCommitment.toLowerCase()) {
-      logger.error(
-        {
-          network,
-          from: authorization.from,
-          expectedCommitment,
-          actualNonce: authorization.nonce,
-          chainId: chain.id,
-          settlementRouter: extra.settlementRouter,
-          salt: extra.salt,
-          payTo: extra.payTo,
-          facilitatorFee: extra.facilitatorFee,
-          hook: extra.hook,
-        },
-        "Commitment mismatch detected - preventing wasted gas transaction",
-      );
+  // 5.6. Validate commitment hash (SECURITY: ensure nonce matches calculated commitment)
+  // This prevents parameter tampering attacks where settlement parameters are modified after signing
+  const expectedCommitment = calculateCommitment({
+    chainId: chain.id,
+    hub: extra.settlementRouter,
+    asset: asset,
+    from: authorization.from,
+    value: authorization.value,
+    validAfter: authorization.validAfter,
+    validBefore: authorization.validBefore,
+    salt: extra.salt,
+    payTo: extra.payTo,
+    facilitatorFee: extra.facilitatorFee,
+    hook: extra.hook,
+    hookData: extra.hookData,
+  });
+
+  if (authorization.nonce.toLowerCase() !== expectedCommitment.toLowerCase()) {
+    logger.error(
+      {
+        network,
+        from: authorization.from,
+        expectedCommitment,
+        actualNonce: authorization.nonce,
+        chainId: chain.id,
+        settlementRouter: extra.settlementRouter,
+        salt: extra.salt,
+        payTo: extra.payTo,
+        facilitatorFee: extra.facilitatorFee,
+        hook: extra.hook,
+      },
+      "Commitment mismatch detected - preventing wasted gas transaction",
+    );
 
-      return {
+    return {
+      ok: false,
+      response: {
         success: false,
         errorReason: "INVALID_COMMITMENT",
         transaction: "",
         network: paymentPayload.network,
         payer: authorization.from,
-      };
-    }
-
-    logger.debug(
-      {
-        network,
-        commitment: expectedCommitment,
       },
-      "Commitment validation passed",
-    );
-
-    // 6. Calculate effective gas limit if config is provided
-    let effectiveGasLimit: bigint | undefined;
-    let gasLimitMode = "static";
-
-    if (gasCostConfig && dynamicGasPriceConfig) {
-      try {
-        // Get current gas price for the network
-        const gasPrice = await getGasPrice(network, gasCostConfig, dynamicGasPriceConfig);
+    };
+  }
 
-        // Get native token price
-        const nativePrice = nativeTokenPrices?.[network] || 0;
+  logger.debug(
+    {
+      network,
+      commitment: expectedCommitment,
+    },
+    "Commitment validation passed",
+  );
 
-        // Calculate effective gas limit with triple constraints
-        const networkConfig = getNetworkConfig(network);
-        const calculatedLimit = calculateEffectiveGasLimit(
-          extra.facilitatorFee,
-          gasPrice,
-          nativePrice,
-          networkConfig.defaultAsset.decimals,
-          gasCostConfig,
-        );
+  return {
+    ok: true,
+    settlement: { network, asset, assetConfig, assetPrice, extra, authorization, signature },
+  };
+}
 
-        effectiveGasLimit = BigInt(calculatedLimit);
-        gasLimitMode = gasCostConfig.dynamicGasLimitMargin > 0 ? "dynamic" : "static";
+/**
+ * Gas limit for a router settlement, or the pre-validation failure that rejects it
+ */
+export type RouterGasLimit =
+  | { ok: true; gasLimit?: bigint; mode: string; simulated: boolean }
+  | { ok: false; errorReason: string };
 
-        logger.debug(
-          {
-            network,
-            facilitatorFee: extra.facilitatorFee,
-            gasPrice,
-            nativePrice,
-            effectiveGasLimit: calculatedLimit,
-            mode: gasLimitMode,
-            minGasLimit: gasCostConfig.minGasLimit,
-            maxGasLimit: gasCostConfig.maxGasLimit,
-            dynamicMargin: gasCostConfig.dynamicGasLimitMargin,
-          },
-          "Calculated effective gas limit for settlement",
-        );
-      } catch (error) {
-        logger.warn(
-          {
-            error,
-            network,
-          },
-          "Failed to calculate dynamic gas limit, using default",
-        );
-        // Continue with default gas limit
-      }
-    }
+/**
+ * Calculate the gas limit of a router settlement and pre-validate it
+ *
+ * The limit follows the facilitator fee (gas cost config) and is replaced by the
+ * gas estimator's result when pre-validation is enabled. Shared by single settlement
+ * (settleWithRouter) and batch settlement.
+ *
+ * @param settlement - Validated settlement
+ * @param walletClient - Client used to simulate the transaction
+ * @param gasCostConfig - Gas cost configuration for dynamic gas limit
+ * @param dynamicGasPriceConfig - Dynamic gas price configuration
+ * @param nativeTokenPrices - Optional native token prices by network
+ * @param gasEstimationConfig - Optional gas estimation config for pre-validation
+ * @returns Gas limit (undefined when unconfigured), or the pre-validation failure
+ */
+export async function resolveRouterGasLimit(
+  settlement: PreparedRouterSettlement,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  walletClient: any,
+  gasCostConfig?: GasCostConfig,
+  dynamicGasPriceConfig?: DynamicGasPriceConfig,
+  nativeTokenPrices?: Record<string, number>,
+  gasEstimationConfig?: GasEstimationConfig,
+): Promise<RouterGasLimit> {
+  const { network, asset, assetConfig, assetPrice, extra, authorization, signature } = settlement;
 
-    // Prepare wallet client for pre-validation and execution
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const walletClient = signer as any;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const publicClient = signer as any;
+  // Calculate effective gas limit if config is provided
+  let effectiveGasLimit: bigint | undefined;
+  let gasLimitMode = "static";
+  let simulated = false;
 
-    // 7. Pre-validate settlement transaction (NEW: prevent gas waste on invalid transactions)
-    if (gasEstimationConfig?.enabled) {
-      try {
-        // Create gas estimator (can be cached at app level for better performance)
-        const gasEstimator = createGasEstimator(
-          gasEstimationConfig,
-          logger.child({ module: 'gas-estimation' }),
-        );
+  if (gasCostConfig && dynamicGasPriceConfig) {
+    try {
+      // Get current gas price for the network
+      const gasPrice = await getGasPrice(network, gasCostConfig, dynamicGasPriceConfig);
+
+      // Get native token price
+      const nativePrice = nativeTokenPrices?.[network] || 0;
+
+      // Calculate effective gas limit with triple constraints
+      const calculatedLimit = calculateEffectiveGasLimit(
+        extra.facilitatorFee,
+        gasPrice,
+        nativePrice,
+        assetConfig.decimals,
+        gasCostConfig,
+        assetPrice,
+      );
 
-        const hookAmount = BigInt(authorization.value) - BigInt(extra.facilitatorFee);
+      effectiveGasLimit = BigInt(calculatedLimit);
+      gasLimitMode = gasCostConfig.dynamicGasLimitMargin > 0 ? "dynamic" : "static";
 
-        const estimation = await gasEstimator.estimateGas({
+      logger.debug(
+        {
           network,
-          hook: extra.hook,
-          hookData: extra.hookData,
-          settlementRouter: extra.settlementRouter,
-          token: asset,
-          from: authorization.from,
-          value: BigInt(authorization.value),
-          authorization: {
-            validAfter: authorization.validAfter,
-            validBefore: authorization.validBefore,
-            nonce: authorization.nonce,
-          },
-          signature,
-          salt: extra.salt,
-          payTo: extra.payTo,
-          facilitatorFee: BigInt(extra.facilitatorFee),
-          hookAmount,
-          walletClient,
-          gasCostConfig: gasCostConfig || {
-            minGasLimit: 150000,
-            maxGasLimit: 5000000,
-            dynamicGasLimitMargin: 0.2,
-            hookGasOverhead: {},
-            safetyMultiplier: 1.5,
-            validationTolerance: 0.1,
-            hookWhitelistEnabled: false,
-            minFacilitatorFeeUsd: 0.01,
-            allowedHooks: {},
-            networkGasPrice: {},
-            nativeTokenPrice: {},
-          },
-          gasEstimationConfig,
-        });
-
-        if (!estimation.isValid) {
-          logger.warn(
-            {
-              network,
-              hook: extra.hook,
-              strategy: estimation.strategyUsed,
-              errorReason: estimation.errorReason,
-              payer: authorization.from,
-            },
-            "Settlement pre-validation failed - preventing gas waste",
-          );
-
-          return {
-            success: false,
-            errorReason: estimation.errorReason || "SETTLEMENT_PREVALIDATION_FAILED",
-            transaction: "",
-            network: paymentPayload.network,
-            payer: authorization.from,
-          };
-        }
+          facilitatorFee: extra.facilitatorFee,
+          gasPrice,
+          nativePrice,
+          effectiveGasLimit: calculatedLimit,
+          mode: gasLimitMode,
+          minGasLimit: gasCostConfig.minGasLimit,
+          maxGasLimit: gasCostConfig.maxGasLimit,
+          dynamicMargin: gasCostConfig.dynamicGasLimitMargin,
+        },
+        "Calculated effective gas limit for settlement",
+      );
+    } catch (error) {
+      logger.warn(
+        {
+          error,
+          network,
+        },
+        "Failed to calculate dynamic gas limit, using default",
+      );
+      // Continue with default gas limit
+    }
+  }
 
-        // Use estimated gas limit
-        effectiveGasLimit = BigInt(estimation.gasLimit);
-        gasLimitMode = estimation.strategyUsed;
+  // Pre-validate settlement transaction (prevent gas waste on invalid transactions)
+  if (gasEstimationConfig?.enabled) {
+    try {
+      // Create gas estimator (can be cached at app level for better performance)
+      const gasEstimator = createGasEstimator(
+        gasEstimationConfig,
+        logger.child({ module: 'gas-estimation' }),
+      );
 
-        logger.debug(
-          {
-            network,
-            hook: extra.hook,
-            strategy: estimation.strategyUsed,
-            gasLimit: estimation.gasLimit,
-            mode: gasLimitMode,
-            metadata: estimation.metadata,
-          },
-          "Settlement pre-validation passed with gas limit",
-        );
-      } catch (error) {
-        logger.warn(
-          { error, network, hook: extra.hook },
-          "Error during settlement pre-validation, falling back to static gas limit",
-        );
-        // Fallback to static gas limit if pre-validation itself fails
-        const fallbackGasCostConfig = gasCostConfig || {
+      const hookAmount = BigInt(authorization.value) - BigInt(extra.facilitatorFee);
+
+      const estimation = await gasEstimator.estimateGas({
+        network,
+        hook: extra.hook,
+        hookData: extra.hookData,
+        settlementRouter: extra.settlementRouter,
+        token: asset,
+        from: authorization.from,
+        value: BigInt(authorization.value),
+        authorization: {
+          validAfter: BigInt(authorization.validAfter),
+          validBefore: BigInt(authorization.validBefore),
+          nonce: authorization.nonce,
+        },
+        signature,
+        salt: extra.salt,
+        payTo: extra.payTo,
+        facilitatorFee: BigInt(extra.facilitatorFee),
+        hookAmount,
+        walletClient,
+        gasCostConfig: gasCostConfig || {
           minGasLimit: 150000,
           maxGasLimit: 5000000,
           dynamicGasLimitMargin: 0.2,
@@ -520,75 +520,310 @@ export async function settleWithRouter(
           hookWhitelistEnabled: false,
           minFacilitatorFeeUsd: 0.01,
           allowedHooks: {},
+          allowedHookCodeHashes: [],
+          hookCodeHashCacheTTL: DEFAULTS.gasCost.HOOK_CODE_HASH_CACHE_TTL,
           networkGasPrice: {},
           nativeTokenPrice: {},
-        };
-        const networkConfig = getNetworkConfig(network);
-        effectiveGasLimit = BigInt(calculateEffectiveGasLimit(
-          extra.facilitatorFee,
-          await getGasPrice(network, fallbackGasCostConfig, dynamicGasPriceConfig),
-          nativeTokenPrices?.[network] || 0,
-          networkConfig.defaultAsset.decimals,
-          fallbackGasCostConfig,
-        ));
-        gasLimitMode = "static_fallback";
-      }
-    }
-
-    // 8. Defensive balance check (verify stage should have already caught this)
-    if (balanceChecker) {
-      try {
-        const balanceCheck = await balanceChecker.checkBalance(
-          signer as any, // Signer has readContract method needed for balance checks
-          authorization.from as `0x${string}`,
-          asset as `0x${string}`,
-          authorization.value,
-          network,
-        );
+        },
+        gasEstimationConfig,
+      });
 
-        if (!balanceCheck.hasSufficient) {
-          logger.error(
-            {
-              payer: authorization.from,
-              network,
-              balance: balanceCheck.balance,
-              required: balanceCheck.required,
-              cached: balanceCheck.cached,
-            },
-            "Insufficient balance detected during settlement (defensive check)",
-          );
-
-          return {
-            success: false,
-            errorReason: "INSUFFICIENT_FUNDS",
-            transaction: "",
-            network: paymentPayload.network,
-            payer: authorization.from,
-          };
-        } else {
-          logger.debug(
-            {
-              payer: authorization.from,
-              network,
-              balance: balanceCheck.balance,
-              required: balanceCheck.required,
-              cached: balanceCheck.cached,
-            },
-            "Balance check passed during settlement (defensive check)",
-          );
-        }
-      } catch (error) {
-        logger.error(
+      if (!estimation.isValid) {
+        logger.warn(
           {
-            error,
-            payer: authorization.from,
             network,
+            hook: extra.hook,
+            strategy: estimation.strategyUsed,
+            errorReason: estimation.errorReason,
+            payer: authorization.from,
           },
-          "Balance check failed during settlement, proceeding with transaction",
+          "Settlement pre-validation failed - preventing gas waste",
         );
-        // If balance check fails, we continue with the transaction
-        // This ensures settlement can still work even if balance check has issues
+
+        return {
+          ok: false,
+          errorReason: estimation.errorReason || "SETTLEMENT_PREVALIDATION_FAILED",
+        };
       }
+
+      // Use estimated gas limit
+      effectiveGasLimit = BigInt(estimation.gasLimit);
+      gasLimitMode = estimation.strategyUsed;
+
+      logger.debug(
+        {
+          network,
+          hook: extra.hook,
+          strategy: estimation.strategyUsed,
+          gasLimit: estimation.gasLimit,
+          mode: gasLimitMode,
+          metadata: estimation.metadata,
+        },
+        "Settlement pre-validation passed with gas limit",
+      );
+
+      simulated = true;
+    } catch (error) {
+      logger.warn(
+        { error, network, hook: extra.hook },
+        "Error during settlement pre-validation, falling back to static gas limit",
+      );
+      // Fallback to static gas limit if pre-validation itself fails
+      const fallbackGasCostConfig = gasCostConfig || {
+        minGasLimit: 150000,
+        maxGasLimit: 5000000,
+        dynamicGasLimitMargin: 0.2,
+        hookGasOverhead: {},
+        safetyMultiplier: 1.5,
+        validationTolerance: 0.1,
+        hookWhitelistEnabled: false,
+        minFacilitatorFeeUsd: 0.01,
+        allowedHooks: {},
+        allowedHookCodeHashes: [],
+        hookCodeHashCacheTTL: DEFAULTS.gasCost.HOOK_CODE_HASH_CACHE_TTL,
+        networkGasPrice: {},
+        nativeTokenPrice: {},
+      };
+      effectiveGasLimit = BigInt(calculateEffectiveGasLimit(
+        extra.facilitatorFee,
+        await getGasPrice(network, fallbackGasCostConfig, dynamicGasPriceConfig),
+        nativeTokenPrices?.[network] || 0,
+        assetConfig.decimals,
+        fallbackGasCostConfig,
+        assetPrice,
+      ));
+      gasLimitMode = "static_fallback";
+    }
+  }
+
+  return { ok: true, gasLimit: effectiveGasLimit, mode: gasLimitMode, simulated };
+}
+
+/**
+ * Defensive payer balance check before settling (the verify stage should have caught this)
+ *
+ * Balance check errors are logged and do not block the settlement.
+ *
+ * @param settlement - Validated settlement
+ * @param client - Client with readContract for the balance lookup
+ * @param balanceChecker - Optional balance checker
+ * @returns False only if the payer's balance is known to be insufficient
+ */
+export async function hasSufficientPayerBalance(
+  settlement: PreparedRouterSettlement,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  client: any,
+  balanceChecker?: BalanceChecker,
+): Promise<boolean> {
+  if (!balanceChecker) {
+    return true;
+  }
+
+  const { network, asset, authorization } = settlement;
+  try {
+    const balanceCheck = await balanceChecker.checkBalance(
+      client,
+      authorization.from as `0x${string}`,
+      asset as `0x${string}`,
+      authorization.value,
+      network,
+    );
+
+    if (!balanceCheck.hasSufficient) {
+      logger.error(
+        {
+          payer: authorization.from,
+          network,
+          balance: balanceCheck.balance,
+          required: balanceCheck.required,
+          cached: balanceCheck.cached,
+        },
+        "Insufficient balance detected during settlement (defensive check)",
+      );
+      return false;
+    }
+
+    logger.debug(
+      {
+        payer: authorization.from,
+        network,
+        balance: balanceCheck.balance,
+        required: balanceCheck.required,
+        cached: balanceCheck.cached,
+      },
+      "Balance check passed during settlement (defensive check)",
+    );
+  } catch (error) {
+    logger.error(
+      {
+        error,
+        payer: authorization.from,
+        network,
+      },
+      "Balance check failed during settlement, proceeding with transaction",
+    );
+    // If balance check fails, we continue with the transaction
+    // This ensures settlement can still work even if balance check has issues
+  }
+  return true;
+}
+
+/**
+ * Check that a payment authorization is signed by its payer
+ *
+ * Uses the same EIP-712 domain as x402 verification; smart wallet (ERC-1271/6492)
+ * signatures are checked on chain. Settle runs it before locking the authorization, so a
+ * forged payload copying someone's (payer, asset, nonce) can't hold up the real settlement.
+ *
+ * @param paymentPayload - Payment payload with an EIP-3009 authorization
+ * @param paymentRequirements - Payment requirements (asset and EIP-712 domain name/version)
+ * @param rpcUrls - Optional custom RPC URLs by network
+ * @returns False if the payload has no authorization or the signature doesn't match the payer
+ */
+export async function isAuthorizationSigned(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  rpcUrls?: Record<string, string>,
+): Promise<boolean> {
+  const payload = paymentPayload.payload as
+    | { authorization?: RouterAuthorization; signature?: string }
+    | undefined;
+  if (!payload?.authorization || !payload.signature) {
+    return false;
+  }
+
+  const { network, asset } = paymentRequirements;
+  const chain = evm.getChainFromNetwork(network);
+  const client = createPublicClient({
+    chain,
+    transport: http(rpcUrls?.[network] || chain.rpcUrls?.default?.http?.[0]),
+  }).extend(publicActions);
+  const name = paymentRequirements.extra?.name ?? evm.config[chain.id.toString()]?.usdcName;
+  const version = paymentRequirements.extra?.version ?? (await getVersion(client as any));
+
+  const { authorization } = payload;
+  return client.verifyTypedData({
+    address: authorization.from as Address,
+    types: evm.authorizationTypes,
+    primaryType: "TransferWithAuthorization",
+    domain: { name, version, chainId: chain.id, verifyingContract: asset as Address },
+    message: {
+      from: authorization.from as Address,
+      to: authorization.to as Address,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce as Hex,
+    },
+    signature: payload.signature as Hex,
+  });
+}
+
+/**
+ * Settle payment using SettlementRouter contract
+ *
+ * Directly calls SettlementRouter.settleAndExecute which:
+ * 1. Verifies the EIP-3009 authorization
+ * 2. Transfers tokens from payer to Router
+ * 3. Deducts facilitator fee
+ * 4. Executes the Hook with remaining amount
+ * 5. Ensures Router doesn't hold funds
+ *
+ * This function implements:
+ * - Router whitelist validation (SECURITY)
+ * - Dynamic gas limit calculation based on facilitator fee
+ * - Gas cost tracking and profitability metrics
+ * - Detailed logging for monitoring
+ * - Warning on unprofitable settlements
+ *
+ * @param signer - The facilitator's wallet signer (must support EVM)
+ * @param paymentPayload - The payment payload with authorization and signature
+ * @param paymentRequirements - The payment requirements with settlement extra parameters
+ * @param allowedRouters - Whitelist of allowed SettlementRouter addresses per network
+ * @param gasCostConfig - Gas cost configuration for dynamic gas limit
+ * @param dynamicGasPriceConfig - Dynamic gas price configuration
+ * @param nativeTokenPrices - Optional native token prices by network (for gas metrics)
+ * @param balanceChecker - Optional balance checker for defensive balance validation
+ * @param x402Config - Optional x402 configuration for verification
+ * @param gasEstimationConfig - Optional gas estimation config for pre-validation
+ * @param progress - Optional callback notified when the settlement is simulated and submitted
+ * @param tokenPriceConfig - Optional token price configuration for pricing the asset
+ * @returns SettleResponse with gas metrics for monitoring
+ * @throws Error if the payment is for non-EVM network or settlement fails
+ */
+export async function settleWithRouter(
+  signer: Signer,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  allowedRouters: Record<string, string[]>,
+  gasCostConfig?: GasCostConfig,
+  dynamicGasPriceConfig?: DynamicGasPriceConfig,
+  nativeTokenPrices?: Record<string, number>,
+  balanceChecker?: BalanceChecker,
+  x402Config?: X402Config,
+  gasEstimationConfig?: GasEstimationConfig,
+  progress?: SettlementProgressCallback,
+  tokenPriceConfig?: TokenPriceConfig,
+): Promise<SettleResponseWithMetrics> {
+  try {
+    // 1. Ensure signer is EVM signer
+    if (!isEvmSignerWallet(signer)) {
+      throw new Error("Settlement Router requires an EVM signer");
+    }
+
+    // 2-5. Validate asset, router, payment and commitment
+    const preparation = await prepareRouterSettlement(
+      paymentPayload,
+      paymentRequirements,
+      allowedRouters,
+      dynamicGasPriceConfig?.rpcUrls,
+      x402Config,
+      tokenPriceConfig,
+    );
+    if (!preparation.ok) {
+      return preparation.response;
+    }
+    const { network, assetConfig, assetPrice, extra, authorization, signature } =
+      preparation.settlement;
+
+    // Prepare wallet client for pre-validation and execution
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const walletClient = signer as any;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const publicClient = signer as any;
+
+    // 6-7. Calculate the effective gas limit and pre-validate the transaction
+    const gas = await resolveRouterGasLimit(
+      preparation.settlement,
+      walletClient,
+      gasCostConfig,
+      dynamicGasPriceConfig,
+      nativeTokenPrices,
+      gasEstimationConfig,
+    );
+    if (!gas.ok) {
+      return {
+        success: false,
+        errorReason: gas.errorReason,
+        transaction: "",
+        network: paymentPayload.network,
+        payer: authorization.from,
+      };
+    }
+    const { gasLimit: effectiveGasLimit, mode: gasLimitMode } = gas;
+    if (gas.simulated) {
+      await progress?.("simulated");
+    }
+
+    // 8. Defensive balance check (verify stage should have already caught this)
+    if (!(await hasSufficientPayerBalance(preparation.settlement, signer, balanceChecker))) {
+      return {
+        success: false,
+        errorReason: "INSUFFICIENT_FUNDS",
+        transaction: "",
+        network: paymentPayload.network,
+        payer: authorization.from,
+      };
     }
 
     // 8. Call SettlementRouter.settleAndExecute
@@ -598,7 +833,7 @@ export async function settleWithRouter(
       );
     }
 
-    const tx = await walletClient.writeContract({
+    let tx = await walletClient.writeContract({
       address: extra.settlementRouter as Address,
       abi: SETTLEMENT_ROUTER_ABI,
       functionName: "settleAndExecute",
@@ -620,9 +855,20 @@ export async function settleWithRouter(
       ...(effectiveGasLimit ? { gas: effectiveGasLimit } : {}),
     });
 
+    await progress?.("submitted", { transaction: tx });
+
     // 8. Wait for transaction confirmation
     const receipt = await publicClient.waitForTransactionReceipt({ hash: tx });
 
+    // The account's nonce manager may have replaced a stuck transaction with a fee-bumped one
+    if (receipt.transactionHash && receipt.transactionHash !== tx) {
+      logger.info(
+        { original: tx, replacement: receipt.transactionHash, network },
+        "Settlement mined via replacement transaction",
+      );
+      tx = receipt.transactionHash;
+    }
+
     if (receipt.status !== "success") {
       return {
         success: false,
@@ -635,14 +881,14 @@ export async function settleWithRouter(
 
     // 9. Calculate gas metrics
     const nativePrice = nativeTokenPrices?.[network] || 0;
-    const networkConfig = getNetworkConfig(network);
     const gasMetrics = calculateGasMetrics(
       receipt,
       extra.facilitatorFee,
       extra.hook,
       network,
       nativePrice.toString(),
-      networkConfig.defaultAsset.decimals,
+      assetConfig.decimals,
+      assetPrice,
     );
 
     // 10. Log settlement success with gas metrics
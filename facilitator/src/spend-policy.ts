@@ -0,0 +1,399 @@
+/**
+ * Spend Policy Module
+ *
+ * Limits what a public facilitator will move on behalf of payers, evaluated on
+ * /verify and before /settle:
+ * - Denylisted payer or recipient addresses
+ * - Maximum USD value of a single payment
+ * - Maximum USD volume per payer and per recipient (payTo) within a window
+ * - Maximum number of payments per payer within a window (velocity)
+ *
+ * Volumes and counts are kept in the cache layer (shared across replicas with the
+ * redis backend). /settle reserves a payment with atomic counter increments before
+ * submitting it, so concurrent settlements cannot all pass a limit, and releases the
+ * reservation if the settlement fails. /verify only checks the current counters.
+ */
+
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
+import { findNetworkAsset } from "@x402x/core";
+import type { CacheInterface } from "./cache/index.js";
+import { getAssetPrice, type TokenPriceConfig } from "./token-price.js";
+import { isSettlementMode } from "./settlement.js";
+import { getLogger, recordMetric } from "./telemetry.js";
+
+const logger = getLogger();
+
+/**
+ * Spend policy configuration (limits apply only when set)
+ */
+export interface SpendPolicyConfig {
+  /** Lowercased addresses that may neither pay nor be paid */
+  denylist: string[];
+  /** Maximum USD value of a single payment */
+  maxPaymentUsd?: number;
+  /** Maximum USD volume per payer within the volume window */
+  payerVolumeUsd?: number;
+  /** Maximum USD volume per recipient within the volume window */
+  payToVolumeUsd?: number;
+  /** Volume window in seconds */
+  volumeWindowSeconds: number;
+  /** Maximum number of payments per payer within the velocity window */
+  payerMaxPayments?: number;
+  /** Velocity window in seconds */
+  velocityWindowSeconds: number;
+}
+
+/**
+ * Reasons a payment is rejected by the spend policy (returned as invalidReason / errorReason)
+ */
+export type SpendPolicyReason =
+  | "payer_denylisted"
+  | "recipient_denylisted"
+  | "unsupported_asset"
+  | "payment_amount_exceeds_limit"
+  | "payer_volume_limit_exceeded"
+  | "recipient_volume_limit_exceeded"
+  | "payer_velocity_limit_exceeded"
+  | "spend_policy_unavailable";
+
+/**
+ * Counter increments held for a payment until its settlement completes or fails
+ */
+export interface SpendReservation {
+  counters: Array<{ key: string; amount: number }>;
+}
+
+/**
+ * Spend policy decision
+ */
+export type SpendPolicyDecision =
+  | { allowed: true; amountUsd?: number; reservation?: SpendReservation }
+  | { allowed: false; reason: SpendPolicyReason };
+
+/**
+ * Payment as seen by the spend policy
+ */
+export interface SpendSubject {
+  network: string;
+  asset: string;
+  /** Amount in the asset's smallest unit */
+  amount: string;
+  payer: string;
+  /** Merchant receiving the payment (extra.payTo in settlement router mode) */
+  recipient: string;
+}
+
+/**
+ * Whether any limit or denylist entry is configured
+ *
+ * @param config - Spend policy configuration
+ * @returns True if payments need to be evaluated
+ */
+export function isSpendPolicyConfigured(config: SpendPolicyConfig): boolean {
+  return (
+    config.denylist.length > 0 ||
+    config.maxPaymentUsd !== undefined ||
+    config.payerVolumeUsd !== undefined ||
+    config.payToVolumeUsd !== undefined ||
+    config.payerMaxPayments !== undefined
+  );
+}
+
+/**
+ * Extract the spend subject of a payment
+ *
+ * @param paymentPayload - Payment payload
+ * @param paymentRequirements - Payment requirements
+ * @returns Spend subject, or undefined if the payload carries no EVM authorization
+ */
+export function getSpendSubject(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+): SpendSubject | undefined {
+  const payload = paymentPayload.payload as {
+    authorization?: { from?: string; value?: string };
+  };
+  const authorization = payload?.authorization;
+  if (!authorization?.from) {
+    return undefined;
+  }
+
+  const extraPayTo = paymentRequirements.extra?.payTo;
+  const recipient =
+    isSettlementMode(paymentRequirements) && typeof extraPayTo === "string"
+      ? extraPayTo
+      : paymentRequirements.payTo;
+
+  return {
+    network: paymentRequirements.network,
+    asset: paymentRequirements.asset,
+    amount: authorization.value ?? paymentRequirements.maxAmountRequired,
+    payer: authorization.from.toLowerCase(),
+    recipient: recipient.toLowerCase(),
+  };
+}
+
+/**
+ * Spend policy backed by cache counters
+ */
+export class SpendPolicy {
+  private readonly denylist: Set<string>;
+
+  /**
+   * Create a spend policy
+   *
+   * @param config - Spend policy configuration
+   * @param counters - Cache holding volume and velocity counters
+   * @param tokenPriceConfig - Token price configuration for non-USD assets
+   */
+  constructor(
+    private readonly config: SpendPolicyConfig,
+    private readonly counters: CacheInterface,
+    private readonly tokenPriceConfig?: TokenPriceConfig,
+  ) {
+    this.denylist = new Set(config.denylist.map((address) => address.toLowerCase()));
+  }
+
+  /**
+   * Evaluate a payment against the current counters without changing them (/verify)
+   *
+   * @param subject - Payment to evaluate
+   * @param now - Current time in milliseconds (overridable for tests)
+   * @returns Decision, with the payment's USD value when it was priced
+   */
+  async evaluate(subject: SpendSubject, now = Date.now()): Promise<SpendPolicyDecision> {
+    return this.report(subject, await this.decide(subject, now, false));
+  }
+
+  /**
+   * Evaluate a payment and reserve it against the volume and velocity limits (/settle)
+   *
+   * Each counter is incremented atomically and checked against its limit afterwards, so
+   * concurrent settlements see each other's reservations. A rejected payment leaves the
+   * counters unchanged; an accepted one must be released if its settlement fails.
+   *
+   * @param subject - Payment to settle
+   * @param now - Current time in milliseconds (overridable for tests)
+   * @returns Decision, with the reservation to release when the payment was allowed
+   */
+  async reserve(subject: SpendSubject, now = Date.now()): Promise<SpendPolicyDecision> {
+    return this.report(subject, await this.decide(subject, now, true));
+  }
+
+  /**
+   * Return a reservation whose settlement failed
+   *
+   * Failures are logged rather than thrown; the counters then expire with their window.
+   *
+   * @param reservation - Reservation returned by reserve()
+   */
+  async release(reservation: SpendReservation | undefined): Promise<void> {
+    if (!reservation || reservation.counters.length === 0) {
+      return;
+    }
+    try {
+      await this.undo(reservation.counters);
+    } catch (error) {
+      logger.error({ error }, "Failed to release spend policy reservation");
+    }
+  }
+
+  /**
+   * Record and log a rejection
+   *
+   * @param subject - Evaluated payment
+   * @param decision - Decision
+   * @returns The decision
+   */
+  private report(subject: SpendSubject, decision: SpendPolicyDecision): SpendPolicyDecision {
+    if (!decision.allowed) {
+      recordMetric("facilitator.spend_policy.rejected", 1, {
+        network: subject.network,
+        reason: decision.reason,
+      });
+      logger.warn(
+        {
+          network: subject.network,
+          payer: subject.payer,
+          recipient: subject.recipient,
+          amount: subject.amount,
+          reason: decision.reason,
+        },
+        "Payment rejected by spend policy",
+      );
+    }
+    return decision;
+  }
+
+  /**
+   * Evaluate the policy rules in order
+   *
+   * @param subject - Payment to evaluate
+   * @param now - Current time in milliseconds
+   * @param reserve - Whether to increment the counters (kept only if the payment is allowed)
+   * @returns Decision
+   */
+  private async decide(
+    subject: SpendSubject,
+    now: number,
+    reserve: boolean,
+  ): Promise<SpendPolicyDecision> {
+    if (this.denylist.has(subject.payer)) {
+      return { allowed: false, reason: "payer_denylisted" };
+    }
+    if (this.denylist.has(subject.recipient)) {
+      return { allowed: false, reason: "recipient_denylisted" };
+    }
+
+    const reserved: SpendReservation["counters"] = [];
+    let amountUsd: number | undefined;
+    try {
+      if (this.needsUsdValue()) {
+        amountUsd = await this.toUsd(subject);
+        if (amountUsd === undefined) {
+          return { allowed: false, reason: "unsupported_asset" };
+        }
+        if (this.config.maxPaymentUsd !== undefined && amountUsd > this.config.maxPaymentUsd) {
+          return { allowed: false, reason: "payment_amount_exceeds_limit" };
+        }
+      }
+
+      const limits: Array<{
+        key: string;
+        amount: number;
+        limit: number;
+        ttl: number;
+        reason: SpendPolicyReason;
+      }> = [];
+      if (amountUsd !== undefined && this.config.payerVolumeUsd !== undefined) {
+        limits.push({
+          key: this.volumeKey("payer", subject.payer, now),
+          amount: amountUsd,
+          limit: this.config.payerVolumeUsd,
+          ttl: this.config.volumeWindowSeconds,
+          reason: "payer_volume_limit_exceeded",
+        });
+      }
+      if (amountUsd !== undefined && this.config.payToVolumeUsd !== undefined) {
+        limits.push({
+          key: this.volumeKey("payto", subject.recipient, now),
+          amount: amountUsd,
+          limit: this.config.payToVolumeUsd,
+          ttl: this.config.volumeWindowSeconds,
+          reason: "recipient_volume_limit_exceeded",
+        });
+      }
+      if (this.config.payerMaxPayments !== undefined) {
+        limits.push({
+          key: this.velocityKey(subject.payer, now),
+          amount: 1,
+          limit: this.config.payerMaxPayments,
+          ttl: this.config.velocityWindowSeconds,
+          reason: "payer_velocity_limit_exceeded",
+        });
+      }
+
+      for (const { key, amount, limit, ttl, reason } of limits) {
+        const total = reserve
+          ? await this.counters.increment(key, amount, ttl)
+          : (await this.read(key)) + amount;
+        if (reserve) {
+          reserved.push({ key, amount });
+        }
+        if (total > limit) {
+          await this.undo(reserved.splice(0));
+          return { allowed: false, reason };
+        }
+      }
+    } catch (error) {
+      // Fail closed: without prices or counters the limits cannot be enforced
+      logger.error({ error, network: subject.network }, "Failed to evaluate spend policy");
+      await this.undo(reserved).catch((undoError) =>
+        logger.error({ error: undoError }, "Failed to release spend policy reservation"),
+      );
+      return { allowed: false, reason: "spend_policy_unavailable" };
+    }
+
+    return reserve
+      ? { allowed: true, amountUsd, reservation: { counters: reserved } }
+      : { allowed: true, amountUsd };
+  }
+
+  /**
+   * Whether any rule depends on the payment's USD value
+   *
+   * @returns True if payments must be priced
+   */
+  private needsUsdValue(): boolean {
+    return (
+      this.config.maxPaymentUsd !== undefined ||
+      this.config.payerVolumeUsd !== undefined ||
+      this.config.payToVolumeUsd !== undefined
+    );
+  }
+
+  /**
+   * Convert a payment amount to USD
+   *
+   * @param subject - Payment
+   * @returns USD value, or undefined if the asset is not registered for the network
+   */
+  private async toUsd(subject: SpendSubject): Promise<number | undefined> {
+    let asset;
+    try {
+      asset = findNetworkAsset(subject.network, subject.asset);
+    } catch {
+      return undefined;
+    }
+    if (!asset) {
+      return undefined;
+    }
+
+    const price = await getAssetPrice(asset, this.tokenPriceConfig);
+    return (Number(BigInt(subject.amount)) / 10 ** asset.decimals) * price;
+  }
+
+  /**
+   * Volume counter key for the current window
+   *
+   * @param kind - Counter owner kind
+   * @param address - Lowercased address
+   * @param now - Current time in milliseconds
+   * @returns Cache key
+   */
+  private volumeKey(kind: "payer" | "payto", address: string, now: number): string {
+    const window = Math.floor(now / 1000 / this.config.volumeWindowSeconds);
+    return `volume:${kind}:${address}:${window}`;
+  }
+
+  /**
+   * Payment count key for the current velocity window
+   *
+   * @param payer - Lowercased payer address
+   * @param now - Current time in milliseconds
+   * @returns Cache key
+   */
+  private velocityKey(payer: string, now: number): string {
+    const window = Math.floor(now / 1000 / this.config.velocityWindowSeconds);
+    return `velocity:${payer}:${window}`;
+  }
+
+  /**
+   * Read a counter
+   *
+   * @param key - Cache key
+   * @returns Counter value (0 when unset)
+   */
+  private async read(key: string): Promise<number> {
+    return (await this.counters.get<number>(key)) ?? 0;
+  }
+
+  /**
+   * Subtract reserved amounts from their counters
+   *
+   * @param counters - Reserved counter increments
+   */
+  private async undo(counters: SpendReservation["counters"]): Promise<void> {
+    await Promise.all(counters.map(({ key, amount }) => this.counters.increment(key, -amount)));
+  }
+}
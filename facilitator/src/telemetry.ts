@@ -4,7 +4,7 @@
  * This module provides:
  * - Structured logging using Pino
  * - OpenTelemetry tracing
- * - OpenTelemetry metrics
+ * - OpenTelemetry metrics (OTLP push and/or Prometheus pull via /metrics)
  * - Configuration based on environment variables
  *
  * Based on deps/x402-rs/src/telemetry.rs implementation
@@ -22,8 +22,13 @@ import {
 import { HttpInstrumentation } from "@opentelemetry/instrumentation-http";
 import { ExpressInstrumentation } from "@opentelemetry/instrumentation-express";
 import { trace, metrics, Tracer, Meter, SpanStatusCode, context } from "@opentelemetry/api";
-import { PeriodicExportingMetricReader } from "@opentelemetry/sdk-metrics";
+import {
+  MeterProvider,
+  MetricReader,
+  PeriodicExportingMetricReader,
+} from "@opentelemetry/sdk-metrics";
 import { OTLPMetricExporter } from "@opentelemetry/exporter-metrics-otlp-http";
+import { PrometheusMetricReader } from "./prometheus.js";
 
 /**
  * Telemetry protocol type
@@ -40,6 +45,7 @@ export interface TelemetryConfig {
   otlpEndpoint?: string;
   otlpHeaders?: Record<string, string>;
   otlpProtocol?: TelemetryProtocol;
+  prometheusEnabled?: boolean;
 }
 
 /**
@@ -93,6 +99,16 @@ let logger: pino.Logger | null = null;
  */
 let otelSDK: NodeSDK | null = null;
 
+/**
+ * Global meter provider (set when OTLP or Prometheus metrics are enabled)
+ */
+let meterProvider: MeterProvider | null = null;
+
+/**
+ * Prometheus metric reader (set when PROMETHEUS_METRICS_ENABLED=true)
+ */
+let prometheusReader: PrometheusMetricReader | null = null;
+
 /**
  * Global tracer instance
  */
@@ -140,16 +156,18 @@ export function initTelemetry(config?: Partial<TelemetryConfig>): void {
     },
   });
 
+  // Create resource
+  const resource = new Resource({
+    [SEMRESATTRS_SERVICE_NAME]: finalConfig.serviceName || "x402-facilitator",
+    [SEMRESATTRS_SERVICE_VERSION]: finalConfig.serviceVersion || "0.1.0",
+    [SEMRESATTRS_DEPLOYMENT_ENVIRONMENT]:
+      finalConfig.deployment || process.env.NODE_ENV || "development",
+  });
+  const metricReaders: MetricReader[] = [];
+
   // Initialize OpenTelemetry if configured
   if (envConfig) {
     try {
-      // Create resource
-      const resource = new Resource({
-        [SEMRESATTRS_SERVICE_NAME]: finalConfig.serviceName!,
-        [SEMRESATTRS_SERVICE_VERSION]: finalConfig.serviceVersion!,
-        [SEMRESATTRS_DEPLOYMENT_ENVIRONMENT]: finalConfig.deployment!,
-      });
-
       // Create trace exporter
       const traceExporter = new OTLPTraceExporter({
         url: `${finalConfig.otlpEndpoint}/v1/traces`,
@@ -162,23 +180,23 @@ export function initTelemetry(config?: Partial<TelemetryConfig>): void {
         headers: finalConfig.otlpHeaders,
       });
 
-      const metricReader = new PeriodicExportingMetricReader({
-        exporter: metricExporter,
-        exportIntervalMillis: 30000, // 30 seconds
-        exportTimeoutMillis: 10000, // 10 seconds timeout
-      });
+      metricReaders.push(
+        new PeriodicExportingMetricReader({
+          exporter: metricExporter,
+          exportIntervalMillis: 30000, // 30 seconds
+          exportTimeoutMillis: 10000, // 10 seconds timeout
+        }),
+      );
 
-      // Initialize SDK with both trace and metrics
-      // Use 'as any' to work around type incompatibility between versions
+      // Initialize SDK with tracing (metrics are served by the shared meter provider below)
       otelSDK = new NodeSDK({
         resource,
         traceExporter,
-        metricReader: metricReader as any,
         instrumentations: [
           new HttpInstrumentation({
             ignoreIncomingRequestHook: (req) => {
-              // Ignore health check requests
-              return req.url === "/health" || req.url === "/ready";
+              // Ignore health check and metrics scrape requests
+              return req.url === "/health" || req.url === "/ready" || req.url === "/metrics";
             },
           }),
           new ExpressInstrumentation(),
@@ -215,6 +233,19 @@ export function initTelemetry(config?: Partial<TelemetryConfig>): void {
     logger.info("OpenTelemetry is not enabled");
   }
 
+  // Prometheus metrics are pulled through the /metrics route
+  if (finalConfig.prometheusEnabled ?? process.env.PROMETHEUS_METRICS_ENABLED === "true") {
+    prometheusReader = new PrometheusMetricReader();
+    metricReaders.push(prometheusReader);
+    logger.info("Prometheus metrics are enabled on /metrics");
+  }
+
+  // One meter provider feeds every configured reader
+  if (metricReaders.length > 0) {
+    meterProvider = new MeterProvider({ resource, readers: metricReaders });
+    metrics.setGlobalMeterProvider(meterProvider);
+  }
+
   // Get tracer and meter
   tracer = trace.getTracer(
     finalConfig.serviceName || "x402-facilitator",
@@ -271,11 +302,27 @@ export function getMeter(): Meter {
   return meter;
 }
 
+/**
+ * Get the Prometheus metric reader
+ *
+ * @returns Reader, or null if Prometheus metrics are disabled
+ */
+export function getPrometheusReader(): PrometheusMetricReader | null {
+  return prometheusReader;
+}
+
 /**
  * Shutdown telemetry system gracefully
  */
 export async function shutdownTelemetry(): Promise<void> {
   const currentLogger = getLogger(); // Use getLogger() to handle null case
+  if (meterProvider) {
+    try {
+      await meterProvider.shutdown();
+    } catch (error) {
+      currentLogger.error({ error }, "Error shutting down meter provider");
+    }
+  }
   if (otelSDK) {
     try {
       await otelSDK.shutdown();
@@ -390,3 +437,44 @@ export function recordHistogram(
     }
   }
 }
+
+/**
+ * Helper to record gauge metric (last observed value, e.g. balances or block age)
+ *
+ * @param name - Metric name
+ * @param value - Current value
+ * @param attributes - Metric attributes
+ */
+export function recordGauge(
+  name: string,
+  value: number,
+  attributes?: Record<string, string | number | boolean>,
+): void {
+  try {
+    getMeter().createGauge(name).record(value, attributes);
+  } catch (error) {
+    // Silently fail to avoid affecting business logic
+    if (logger) {
+      logger.debug({ error, name, value }, "Failed to record gauge");
+    }
+  }
+}
+
+/**
+ * Emit an operational alert
+ *
+ * Alerts are logged at error level with an `alert` field and counted as
+ * `facilitator.alert`, so both log-based and metric-based alerting pick them up.
+ *
+ * @param alert - Alert name (e.g. "account_gas_low")
+ * @param message - Human-readable description
+ * @param attributes - Alert attributes (network, account, ...)
+ */
+export function emitAlert(
+  alert: string,
+  message: string,
+  attributes: Record<string, string | number | boolean> = {},
+): void {
+  getLogger().error({ alert, ...attributes }, message);
+  recordMetric("facilitator.alert", 1, { alert, ...attributes });
+}
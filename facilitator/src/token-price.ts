@@ -1,10 +1,23 @@
 /**
  * Token Price Module
  *
- * Provides dynamic token price fetching from CoinGecko API with caching and fallback.
+ * Provides dynamic token price fetching with caching and fallback. Native token
+ * prices come from the configured price sources (see price-oracles/), asset
+ * prices from CoinGecko.
  */
 
+import type { AssetConfig } from "@x402x/core";
 import { getLogger } from "./telemetry.js";
+import { DEFAULTS } from "./defaults.js";
+import {
+  createPriceOracle,
+  fetchCoinGeckoQuote,
+  type ChainlinkFeedConfig,
+  type PriceAggregation,
+  type PriceOracle,
+  type PriceSourceName,
+  type TwapPoolConfig,
+} from "./price-oracles/index.js";
 
 const logger = getLogger();
 
@@ -30,17 +43,47 @@ export interface TokenPriceConfig {
   updateInterval: number; // Background update interval in seconds
   apiKey?: string; // Optional CoinGecko Pro API key
   coinIds: Record<string, string>; // network -> CoinGecko coin ID mapping
+  sources?: PriceSourceName[]; // Price sources in priority order (default: coingecko)
+  aggregation?: PriceAggregation; // How quotes from several sources are combined
+  maxPriceAgeSeconds?: number; // Quotes older than this are ignored
+  maxDeviationPercent?: number; // Alert when sources deviate from the median by more
+  sourceTimeoutMs?: number; // Timeout for a single price source
+  chainlinkFeeds?: Record<string, ChainlinkFeedConfig>; // network -> Chainlink feed
+  twapPools?: Record<string, TwapPoolConfig>; // network -> DEX TWAP pool
+  staticPrices?: Record<string, number>; // network -> price for the static source
 }
 
 /**
- * Default CoinGecko coin ID mapping
+ * Price oracles built per token price configuration
  */
-const DEFAULT_COIN_IDS: Record<string, string> = {
-  "base-sepolia": "ethereum",
-  base: "ethereum",
-  "x-layer-testnet": "okb",
-  "x-layer": "okb",
-};
+const priceOracles = new WeakMap<TokenPriceConfig, PriceOracle>();
+
+/**
+ * Get (or create) the price oracle for a configuration
+ *
+ * @param config - Token price configuration
+ * @returns Price oracle
+ */
+function getPriceOracle(config: TokenPriceConfig): PriceOracle {
+  let oracle = priceOracles.get(config);
+  if (!oracle) {
+    const defaults = DEFAULTS.tokenPrice;
+    oracle = createPriceOracle({
+      sources: config.sources ?? [defaults.SOURCES],
+      aggregation: config.aggregation ?? defaults.AGGREGATION,
+      maxPriceAgeSeconds: config.maxPriceAgeSeconds ?? defaults.MAX_PRICE_AGE_SECONDS,
+      maxDeviationPercent: config.maxDeviationPercent ?? defaults.MAX_DEVIATION_PERCENT,
+      sourceTimeoutMs: config.sourceTimeoutMs ?? defaults.SOURCE_TIMEOUT_MS,
+      coinIds: config.coinIds,
+      apiKey: config.apiKey,
+      chainlinkFeeds: config.chainlinkFeeds ?? {},
+      twapPools: config.twapPools ?? {},
+      staticPrices: config.staticPrices ?? {},
+    });
+    priceOracles.set(config, oracle);
+  }
+  return oracle;
+}
 
 /**
  * Get token price with caching and fallback
@@ -70,15 +113,9 @@ export async function getTokenPrice(
     }
   }
 
-  // Fetch from CoinGecko API
+  // Fetch from the configured price sources
   try {
-    const coinId = config.coinIds[network] || DEFAULT_COIN_IDS[network];
-    if (!coinId) {
-      logger.warn({ network }, "No CoinGecko ID for network, using static price");
-      return staticPrice;
-    }
-
-    const price = await fetchCoinGeckoPrice(coinId, config.apiKey);
+    const { price, source, quotes } = await getPriceOracle(config).getPrice(network);
 
     // Update cache
     tokenPriceCache.set(network, {
@@ -86,7 +123,7 @@ export async function getTokenPrice(
       timestamp: Date.now(),
     });
 
-    logger.debug({ network, coinId, price }, "Fetched token price from CoinGecko");
+    logger.debug({ network, price, source, sources: quotes.length }, "Fetched token price");
 
     return price;
   } catch (error) {
@@ -96,41 +133,49 @@ export async function getTokenPrice(
 }
 
 /**
- * Fetch price from CoinGecko API
+ * Get the USD price of a settlement asset
+ *
+ * USD-pegged and fixed-price assets never hit the network. CoinGecko-priced assets
+ * share the cache TTL and API key of native token pricing and fall back to the
+ * asset's static price when dynamic pricing is disabled or unavailable.
  *
- * @param coinId - CoinGecko coin ID (e.g., "ethereum", "okb")
- * @param apiKey - Optional Pro API key
- * @returns Price in USD
+ * @param asset - Asset configuration from the network's asset registry
+ * @param config - Optional token price configuration
+ * @returns Asset price in USD
  */
-async function fetchCoinGeckoPrice(coinId: string, apiKey?: string): Promise<number> {
-  const baseUrl = apiKey
-    ? "https://pro-api.coingecko.com/api/v3"
-    : "https://api.coingecko.com/api/v3";
-
-  const headers: Record<string, string> = {
-    Accept: "application/json",
-  };
-
-  if (apiKey) {
-    headers["x-cg-pro-api-key"] = apiKey;
+export async function getAssetPrice(
+  asset: AssetConfig,
+  config?: TokenPriceConfig,
+): Promise<number> {
+  const source = asset.priceSource;
+  if (source.type === "usd") {
+    return 1;
   }
-
-  const url = `${baseUrl}/simple/price?ids=${coinId}&vs_currencies=usd`;
-
-  const response = await fetch(url, { headers });
-
-  if (!response.ok) {
-    throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+  if (source.type === "fixed") {
+    return source.usdPrice;
+  }
+  if (!config?.enabled) {
+    return source.fallbackUsdPrice;
   }
 
-  const data = (await response.json()) as Record<string, { usd: number }>;
-
-  const price = data[coinId]?.usd;
-  if (!price) {
-    throw new Error(`Price not found for coin ${coinId}`);
+  const cacheKey = `asset:${source.coinId}`;
+  const cached = tokenPriceCache.get(cacheKey);
+  if (cached && (Date.now() - cached.timestamp) / 1000 < config.cacheTTL) {
+    return cached.price;
   }
 
-  return price;
+  try {
+    const { price } = await fetchCoinGeckoQuote(source.coinId, config.apiKey);
+    tokenPriceCache.set(cacheKey, { price, timestamp: Date.now() });
+    logger.debug({ asset: asset.symbol, coinId: source.coinId, price }, "Fetched asset price");
+    return price;
+  } catch (error) {
+    logger.warn(
+      { error, asset: asset.symbol, coinId: source.coinId },
+      "Failed to fetch asset price, using static fallback",
+    );
+    return source.fallbackUsdPrice;
+  }
 }
 
 /**
@@ -0,0 +1,370 @@
+/**
+ * Treasury Module
+ *
+ * Keeps the native gas balances of pool accounts healthy:
+ * - Checks every account balance on an interval
+ * - Tops accounts up from a designated funding key when they drop below the minimum balance
+ * - Removes accounts below the alert threshold from selection until they are funded again
+ * - Emits alerts (low balance, funding account exhausted, failed top-up) via telemetry
+ *
+ * Without a funding key the treasury only alerts and rotates drained accounts out. With a
+ * shared lock store, one replica at a time checks a network, so replicas never top up the
+ * same account twice.
+ */
+
+import { createWalletClient, http, publicActions, type Address, type Hex, formatEther } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { evm } from "x402/types";
+import type { AccountPool } from "./account-pool.js";
+import { treasuryLockKey, type LockManager } from "./locks/index.js";
+import { emitAlert, getLogger, recordGauge, recordMetric } from "./telemetry.js";
+
+const logger = getLogger();
+
+/**
+ * Treasury configuration
+ */
+export interface TreasuryConfig {
+  /** Watch and top up pool account balances */
+  enabled: boolean;
+  /** Interval between balance checks in milliseconds */
+  checkIntervalMs: number;
+  /** Private key of the funding account (alert-only when omitted) */
+  fundingPrivateKey?: string;
+  /** Top up accounts below this balance, in wei, by network */
+  minBalance: Record<string, string>;
+  /** Balance to top up to, in wei, by network */
+  targetBalance: Record<string, string>;
+  /** Alert on and stop selecting accounts below this balance, in wei, by network */
+  alertThreshold: Record<string, string>;
+  /** Maximum amount sent in one top-up, in wei (unlimited when omitted) */
+  maxTopUpAmount?: string;
+  /** Minimum time between two top-ups of the same account in milliseconds */
+  topUpCooldownMs: number;
+}
+
+/**
+ * Balance reads and transfers used by the treasury for one network
+ */
+export interface TreasuryClient {
+  /** Funding account address (undefined when no funding key is configured) */
+  fundingAddress?: string;
+  getBalance(address: string): Promise<bigint>;
+  /** Send native tokens from the funding account and wait for the receipt */
+  transfer(to: string, value: bigint): Promise<string>;
+}
+
+/**
+ * Account pool operations used by the treasury
+ */
+export type TreasuryPool = Pick<AccountPool, "getAccountsInfo" | "setAccountEnabled">;
+
+/**
+ * Treasury that tops up and rotates pool accounts
+ */
+export class Treasury {
+  private clients = new Map<string, TreasuryClient>();
+  private lastTopUp = new Map<string, number>();
+  private lowAccounts = new Set<string>();
+  private disabledAccounts = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+  private inFlight: Promise<void> | undefined;
+
+  /**
+   * Create a treasury
+   *
+   * @param pools - Account pools by network
+   * @param config - Treasury configuration
+   * @param rpcUrls - Custom RPC URLs by network (chain default otherwise)
+   * @param locks - Lock manager serializing checks of a network across replicas
+   * @param createClient - Client factory (overridable for tests)
+   */
+  constructor(
+    private readonly pools: Map<string, TreasuryPool>,
+    private readonly config: TreasuryConfig,
+    private readonly rpcUrls: Record<string, string> = {},
+    private readonly locks?: Pick<LockManager, "tryAcquire">,
+    private readonly createClient: (network: string) => TreasuryClient = (network) =>
+      createTreasuryClient(network, rpcUrls[network], config.fundingPrivateKey),
+  ) {}
+
+  /**
+   * Check now and then on every interval
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    void this.checkAll();
+    this.timer = setInterval(() => void this.checkAll(), this.config.checkIntervalMs);
+    this.timer.unref();
+    logger.info(
+      {
+        networks: Array.from(this.pools.keys()),
+        intervalMs: this.config.checkIntervalMs,
+        funding: !!this.config.fundingPrivateKey,
+      },
+      "Started treasury",
+    );
+  }
+
+  /**
+   * Stop checking
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Check all networks (concurrent calls share one run)
+   *
+   * @returns Resolves when every network has been checked
+   */
+  async checkAll(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = Promise.all(
+        Array.from(this.pools.entries()).map(([network, pool]) =>
+          this.checkNetworkLocked(network, pool).catch((error) => {
+            logger.error({ error, network }, "Treasury balance check failed");
+          }),
+        ),
+      )
+        .then(() => undefined)
+        .finally(() => {
+          this.inFlight = undefined;
+        });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Check one network while holding its treasury lock
+   *
+   * The check is skipped when another replica holds the lock; it is already checking.
+   *
+   * @param network - Network name
+   * @param pool - Account pool of the network
+   * @returns Resolves when the network has been checked or skipped
+   */
+  private async checkNetworkLocked(network: string, pool: TreasuryPool): Promise<void> {
+    if (!this.locks) {
+      return this.checkNetwork(network, pool);
+    }
+
+    const lock = await this.locks.tryAcquire(treasuryLockKey(network));
+    if (!lock) {
+      logger.debug({ network }, "Treasury check already running elsewhere, skipping");
+      return;
+    }
+    try {
+      await this.checkNetwork(network, pool);
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /**
+   * Check the accounts of one network
+   *
+   * Accounts are processed one at a time so top-ups from the funding key never
+   * race each other for a nonce.
+   *
+   * @param network - Network name
+   * @param pool - Account pool of the network
+   */
+  private async checkNetwork(network: string, pool: TreasuryPool): Promise<void> {
+    const client = this.getClient(network);
+    const minBalance = BigInt(this.config.minBalance[network] ?? "0");
+    const alertThreshold = BigInt(this.config.alertThreshold[network] ?? "0");
+
+    if (client.fundingAddress) {
+      try {
+        const fundingBalance = await client.getBalance(client.fundingAddress);
+        recordGauge("facilitator.treasury.funding_balance", Number(formatEther(fundingBalance)), {
+          network,
+        });
+      } catch (error) {
+        // The accounts are still checked; top-ups read the funding balance again
+        logger.warn(
+          { error, network, fundingAccount: client.fundingAddress },
+          "Failed to read funding account balance",
+        );
+      }
+    }
+
+    for (const { address } of pool.getAccountsInfo()) {
+      const key = `${network}:${address.toLowerCase()}`;
+      let balance: bigint;
+      try {
+        balance = await client.getBalance(address);
+      } catch (error) {
+        // One unreadable account must not stop the others from being checked
+        logger.warn({ error, network, account: address }, "Failed to read account balance");
+        continue;
+      }
+
+      if (balance < minBalance && client.fundingAddress) {
+        balance = await this.topUp(network, client, address, balance);
+      }
+
+      if (balance < minBalance) {
+        if (!this.lowAccounts.has(key)) {
+          this.lowAccounts.add(key);
+          emitAlert("account_gas_low", "Facilitator account gas balance is low", {
+            network,
+            account: address,
+            balance: formatEther(balance),
+          });
+        }
+      } else {
+        this.lowAccounts.delete(key);
+      }
+
+      if (balance < alertThreshold) {
+        if (!this.disabledAccounts.has(key)) {
+          this.disabledAccounts.add(key);
+          pool.setAccountEnabled(address, false);
+          emitAlert(
+            "account_gas_exhausted",
+            "Facilitator account cannot pay gas, removed from selection",
+            { network, account: address, balance: formatEther(balance) },
+          );
+        }
+      } else if (this.disabledAccounts.delete(key)) {
+        pool.setAccountEnabled(address, true);
+      }
+    }
+  }
+
+  /**
+   * Top an account up to the target balance
+   *
+   * @param network - Network name
+   * @param client - Treasury client of the network
+   * @param address - Account to fund
+   * @param balance - Current account balance in wei
+   * @returns Account balance after the top-up (unchanged if none was sent)
+   */
+  private async topUp(
+    network: string,
+    client: TreasuryClient,
+    address: string,
+    balance: bigint,
+  ): Promise<bigint> {
+    const key = `${network}:${address.toLowerCase()}`;
+    const lastTopUp = this.lastTopUp.get(key);
+    if (lastTopUp !== undefined && Date.now() - lastTopUp < this.config.topUpCooldownMs) {
+      return balance;
+    }
+
+    const targetBalance = BigInt(this.config.targetBalance[network] ?? "0");
+    let amount = targetBalance - balance;
+    if (this.config.maxTopUpAmount !== undefined) {
+      const maxTopUpAmount = BigInt(this.config.maxTopUpAmount);
+      amount = amount > maxTopUpAmount ? maxTopUpAmount : amount;
+    }
+    if (amount <= 0n) {
+      return balance;
+    }
+
+    let fundingBalance: bigint;
+    try {
+      fundingBalance = await client.getBalance(client.fundingAddress!);
+    } catch (error) {
+      logger.warn(
+        { error, network, fundingAccount: client.fundingAddress },
+        "Failed to read funding account balance, skipping top-up",
+      );
+      return balance;
+    }
+    if (fundingBalance < amount) {
+      emitAlert("treasury_funding_low", "Treasury funding account cannot cover top-up", {
+        network,
+        account: address,
+        fundingAccount: client.fundingAddress!,
+        fundingBalance: formatEther(fundingBalance),
+        required: formatEther(amount),
+      });
+      return balance;
+    }
+
+    this.lastTopUp.set(key, Date.now());
+    try {
+      const txHash = await client.transfer(address, amount);
+      logger.info(
+        { network, account: address, amount: formatEther(amount), txHash },
+        "Topped up facilitator account",
+      );
+      recordMetric("facilitator.treasury.top_up", 1, { network, success: "true" });
+      return balance + amount;
+    } catch (error) {
+      emitAlert("treasury_top_up_failed", "Failed to top up facilitator account", {
+        network,
+        account: address,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      recordMetric("facilitator.treasury.top_up", 1, { network, success: "false" });
+      return balance;
+    }
+  }
+
+  /**
+   * Get (or create) the treasury client for a network
+   *
+   * @param network - Network name
+   * @returns Treasury client
+   */
+  private getClient(network: string): TreasuryClient {
+    let client = this.clients.get(network);
+    if (!client) {
+      client = this.createClient(network);
+      this.clients.set(network, client);
+    }
+    return client;
+  }
+}
+
+/**
+ * Create a treasury client backed by viem
+ *
+ * @param network - Network name
+ * @param rpcUrl - Custom RPC URL (chain default otherwise)
+ * @param fundingPrivateKey - Private key of the funding account
+ * @returns Treasury client
+ */
+function createTreasuryClient(
+  network: string,
+  rpcUrl: string | undefined,
+  fundingPrivateKey: string | undefined,
+): TreasuryClient {
+  const chain = evm.getChainFromNetwork(network);
+  const client = createWalletClient({
+    chain,
+    transport: http(rpcUrl || chain.rpcUrls?.default?.http?.[0]),
+    account: fundingPrivateKey ? privateKeyToAccount(fundingPrivateKey as Hex) : undefined,
+  }).extend(publicActions);
+
+  return {
+    fundingAddress: client.account?.address,
+    getBalance: (address) => client.getBalance({ address: address as Address }),
+    transfer: async (to, value) => {
+      if (!client.account) {
+        throw new Error("No treasury funding key configured");
+      }
+      const hash = await client.sendTransaction({
+        account: client.account,
+        chain,
+        to: to as Address,
+        value,
+      });
+      const receipt = await client.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") {
+        throw new Error(`Top-up transaction ${hash} reverted`);
+      }
+      return hash;
+    },
+  };
+}
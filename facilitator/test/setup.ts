@@ -49,6 +49,8 @@ vi.mock("../src/telemetry.js", () => {
     traced: vi.fn((name, fn, attrs) => fn()),
     recordMetric: noop,
     recordHistogram: noop,
+    recordGauge: noop,
+    emitAlert: vi.fn(),
   };
 });
 
@@ -6,6 +6,8 @@
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { AccountPool } from "../../src/account-pool.js";
+import { DuplicatePayerError } from "../../src/errors.js";
+import { LockManager, MemoryLockStore } from "../../src/locks/index.js";
 import { createMockEvmSigner } from "../mocks/signers.js";
 
 // Mock x402/types
@@ -205,6 +207,151 @@ describe("account-pool", () => {
       });
     });
 
+    describe("disabled accounts", () => {
+      it("should skip disabled accounts", async () => {
+        const pool = await AccountPool.create(
+          [
+            "0x0000000000000000000000000000000000000000000000000000000000000001",
+            "0x0000000000000000000000000000000000000000000000000000000000000002",
+          ],
+          "base-sepolia",
+          { strategy: "round_robin" },
+        );
+        const [disabled, enabled] = pool.getAccountsInfo().map((info) => info.address);
+
+        expect(pool.setAccountEnabled(disabled.toLowerCase(), false)).toBe(true);
+
+        const addresses: string[] = [];
+        for (let i = 0; i < 3; i++) {
+          await pool.execute(async (signer) => {
+            addresses.push(signer.account.address);
+          });
+        }
+
+        expect(addresses).toEqual([enabled, enabled, enabled]);
+        expect(pool.getAccountsInfo()[0].enabled).toBe(false);
+      });
+
+      it("should fall back to all accounts when every account is disabled", async () => {
+        const pool = await AccountPool.create(
+          ["0x0000000000000000000000000000000000000000000000000000000000000001"],
+          "base-sepolia",
+        );
+        pool.setAccountEnabled(pool.getAccountsInfo()[0].address, false);
+
+        await expect(pool.execute(async () => "result")).resolves.toBe("result");
+      });
+
+      it("should report unknown accounts", async () => {
+        const pool = await AccountPool.create(
+          ["0x0000000000000000000000000000000000000000000000000000000000000001"],
+          "base-sepolia",
+        );
+
+        expect(pool.setAccountEnabled("0x1234", false)).toBe(false);
+      });
+    });
+
+    describe("adding and removing accounts", () => {
+      it("should select added accounts", async () => {
+        const pool = await AccountPool.create(
+          ["0x0000000000000000000000000000000000000000000000000000000000000001"],
+          "base-sepolia",
+        );
+
+        expect(
+          pool.addAccount("0x0000000000000000000000000000000000000000000000000000000000000002"),
+        ).toBe(true);
+        expect(
+          pool.addAccount("0x0000000000000000000000000000000000000000000000000000000000000002"),
+        ).toBe(false);
+
+        const addresses = new Set<string>();
+        for (let i = 0; i < 2; i++) {
+          await pool.execute(async (signer) => {
+            addresses.add(signer.account.address);
+          });
+        }
+
+        expect(pool.getAccountCount()).toBe(2);
+        expect(addresses.size).toBe(2);
+      });
+
+      it("should finish queued work before removing an account", async () => {
+        const pool = await AccountPool.create(
+          [
+            "0x0000000000000000000000000000000000000000000000000000000000000001",
+            "0x0000000000000000000000000000000000000000000000000000000000000002",
+          ],
+          "base-sepolia",
+        );
+        const [removed, remaining] = pool.getAccountsInfo().map((info) => info.address);
+
+        let finishQueued!: () => void;
+        const queued = pool.execute(
+          (signer) =>
+            new Promise<string>((resolve) => {
+              finishQueued = () => resolve(signer.account.address);
+            }),
+        );
+        await new Promise((resolve) => setImmediate(resolve));
+        const removal = pool.removeAccount(removed);
+
+        const next = await pool.execute(async (signer) => signer.account.address);
+        expect(next).toBe(remaining);
+        expect(pool.getAccountCount()).toBe(2);
+
+        finishQueued();
+        await expect(queued).resolves.toBe(removed);
+        await expect(removal).resolves.toBe(true);
+        expect(pool.getAccountsInfo().map((info) => info.address)).toEqual([remaining]);
+      });
+
+      it("should complete each removal only from its own drain", async () => {
+        const pool = await AccountPool.create(
+          [
+            "0x0000000000000000000000000000000000000000000000000000000000000001",
+            "0x0000000000000000000000000000000000000000000000000000000000000002",
+            "0x0000000000000000000000000000000000000000000000000000000000000003",
+          ],
+          "base-sepolia",
+        );
+        const [removed, ...remaining] = pool.getAccountsInfo().map((info) => info.address);
+
+        let finishQueued!: () => void;
+        const queued = pool.execute(
+          () =>
+            new Promise<void>((resolve) => {
+              finishQueued = resolve;
+            }),
+        );
+        await new Promise((resolve) => setImmediate(resolve));
+
+        // Remove, cancel by adding back, remove again while the first drain is still waiting
+        const firstRemoval = pool.removeAccount(removed);
+        pool.addAccount("0x0000000000000000000000000000000000000000000000000000000000000001");
+        const secondRemoval = pool.removeAccount(removed);
+
+        finishQueued();
+        await queued;
+
+        await expect(firstRemoval).resolves.toBe(false);
+        await expect(secondRemoval).resolves.toBe(true);
+        expect(pool.getAccountsInfo().map((info) => info.address)).toEqual(remaining);
+      });
+
+      it("should not remove the last account", async () => {
+        const pool = await AccountPool.create(
+          ["0x0000000000000000000000000000000000000000000000000000000000000001"],
+          "base-sepolia",
+        );
+
+        await expect(pool.removeAccount(pool.getAccountsInfo()[0].address)).rejects.toThrow(
+          "Cannot remove the last account",
+        );
+      });
+    });
+
     describe("random strategy", () => {
       it("should select accounts randomly", async () => {
         const pool = await AccountPool.create(
@@ -302,6 +449,57 @@ describe("account-pool", () => {
       });
     });
 
+    describe("duplicate payer detection", () => {
+      it("should reject a payer that already has a transaction in queue", async () => {
+        const pool = await AccountPool.create(
+          ["0x0000000000000000000000000000000000000000000000000000000000000001"],
+          "base-sepolia",
+        );
+
+        let finish: () => void = () => undefined;
+        const first = pool.execute(
+          () => new Promise<void>((resolve) => (finish = resolve)),
+          "0xPAYER",
+        );
+
+        await expect(pool.execute(async () => "second", "0xpayer")).rejects.toBeInstanceOf(
+          DuplicatePayerError,
+        );
+        expect(pool.getPendingPayersCount()).toBe(1);
+
+        finish();
+        await first;
+        expect(pool.getPendingPayersCount()).toBe(0);
+        await expect(pool.execute(async () => "third", "0xpayer")).resolves.toBe("third");
+      });
+
+      it("should reject a payer in flight on another instance sharing the lock store", async () => {
+        const store = new MemoryLockStore();
+        const keys = ["0x0000000000000000000000000000000000000000000000000000000000000001"];
+        const replicaA = await AccountPool.create(keys, "base-sepolia", {
+          locks: new LockManager(store, { ttlMs: 10_000 }),
+        });
+        const replicaB = await AccountPool.create(keys, "base-sepolia", {
+          locks: new LockManager(store, { ttlMs: 10_000 }),
+        });
+
+        let finish: () => void = () => undefined;
+        const first = replicaA.execute(
+          () => new Promise<void>((resolve) => (finish = resolve)),
+          "0xpayer",
+        );
+        await vi.waitFor(() => expect(replicaA.getPendingPayersCount()).toBe(1));
+
+        await expect(replicaB.execute(async () => "second", "0xpayer")).rejects.toBeInstanceOf(
+          DuplicatePayerError,
+        );
+
+        finish();
+        await first;
+        await expect(replicaB.execute(async () => "third", "0xpayer")).resolves.toBe("third");
+      });
+    });
+
     describe("serial execution", () => {
       it("should execute transactions serially per account", async () => {
         const pool = await AccountPool.create(
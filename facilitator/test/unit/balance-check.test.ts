@@ -195,16 +195,16 @@ describe("BalanceChecker", () => {
   });
 
   describe("cache management", () => {
-    it("should provide cache statistics", () => {
+    it("should provide cache statistics", async () => {
       const stats = { hits: 10, misses: 5, keys: 3 };
       (mockCache.getStats as MockedFunction<typeof mockCache.getStats>).mockReturnValue(stats);
 
-      const result = balanceChecker.getCacheStats();
+      const result = await balanceChecker.getCacheStats();
       expect(result).toEqual(stats);
     });
 
-    it("should clear cache when requested", () => {
-      balanceChecker.clearCache();
+    it("should clear cache when requested", async () => {
+      await balanceChecker.clearCache();
       expect(mockCache.flush).toHaveBeenCalled();
     });
   });
@@ -0,0 +1,341 @@
+/**
+ * Tests for batch-settlement.ts
+ *
+ * Tests batching windows, per-item outcomes and validation failures
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { encodeAbiParameters, encodeEventTopics, type Hex } from "viem";
+import { SETTLEMENT_ROUTER_ABI } from "@x402x/core";
+import { BatchSettler, type BatchSettlementConfig } from "../../src/batch-settlement.js";
+import {
+  hasSufficientPayerBalance,
+  prepareRouterSettlement,
+  resolveRouterGasLimit,
+} from "../../src/settlement.js";
+import { calculateContextKey } from "../../src/ledger/index.js";
+
+vi.mock("../../src/settlement.js", () => ({
+  prepareRouterSettlement: vi.fn(),
+  resolveRouterGasLimit: vi.fn(),
+  hasSufficientPayerBalance: vi.fn(),
+}));
+
+const ROUTER = "0x32431D4511e061F1133520461B07eC42afF157D6";
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAYER = "0x1234567890123456789012345678901234567890";
+const ZERO = ("0x" + "00".repeat(32)) as Hex;
+
+/**
+ * Payment with a distinct nonce
+ *
+ * @param index - Payment index
+ * @returns Payment payload and requirements
+ */
+function payment(index: number) {
+  const nonce = ("0x" + index.toString(16).padStart(64, "0")) as Hex;
+  return {
+    paymentPayload: {
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: { authorization: { from: PAYER, nonce } },
+    } as any,
+    paymentRequirements: { network: "base-sepolia", asset: TOKEN } as any,
+    nonce,
+  };
+}
+
+/**
+ * Router log reporting a settled item
+ *
+ * @param nonce - Item nonce
+ * @returns Receipt log
+ */
+function settledLog(nonce: Hex) {
+  return {
+    address: ROUTER,
+    topics: encodeEventTopics({
+      abi: SETTLEMENT_ROUTER_ABI,
+      eventName: "Settled",
+      args: { contextKey: calculateContextKey(PAYER, TOKEN, nonce), payer: PAYER, token: TOKEN },
+    }),
+    data: encodeAbiParameters(
+      [
+        { type: "uint256" },
+        { type: "address" },
+        { type: "bytes32" },
+        { type: "address" },
+        { type: "uint256" },
+      ],
+      [1000000n, PAYER, ZERO, PAYER, 10000n],
+    ),
+  };
+}
+
+/**
+ * Router log reporting a failed item
+ *
+ * @param nonce - Item nonce
+ * @param index - Item position in the batch
+ * @returns Receipt log
+ */
+function failedLog(nonce: Hex, index: number) {
+  return {
+    address: ROUTER,
+    topics: encodeEventTopics({
+      abi: SETTLEMENT_ROUTER_ABI,
+      eventName: "SettlementFailed",
+      args: { contextKey: calculateContextKey(PAYER, TOKEN, nonce) },
+    }),
+    data: encodeAbiParameters([{ type: "uint256" }, { type: "bytes" }], [BigInt(index), "0x"]),
+  };
+}
+
+describe("batch-settlement", () => {
+  let config: BatchSettlementConfig;
+  let signer: { writeContract: any; waitForTransactionReceipt: any };
+  let poolManager: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config = { enabled: true, windowMs: 10, maxSize: 10 };
+    signer = {
+      writeContract: vi.fn(async () => "0xbatchtx"),
+      waitForTransactionReceipt: vi.fn(),
+    };
+    const pool = { execute: vi.fn(async (fn: any) => fn(signer)) };
+    poolManager = { getPool: vi.fn(() => pool) };
+
+    vi.mocked(prepareRouterSettlement).mockImplementation(async (paymentPayload: any) => ({
+      ok: true,
+      settlement: {
+        network: "base-sepolia",
+        asset: TOKEN,
+        assetConfig: {} as any,
+        assetPrice: 1,
+        extra: {
+          settlementRouter: ROUTER,
+          salt: ZERO,
+          payTo: PAYER,
+          facilitatorFee: "10000",
+          hook: PAYER,
+          hookData: "0x",
+        },
+        authorization: {
+          from: PAYER,
+          to: ROUTER,
+          value: "1000000",
+          validAfter: "0",
+          validBefore: "9999999999",
+          nonce: paymentPayload.payload.authorization.nonce,
+        },
+        signature: "0x",
+      },
+    }));
+    vi.mocked(resolveRouterGasLimit).mockResolvedValue({
+      ok: true,
+      gasLimit: undefined,
+      mode: "static",
+      simulated: false,
+    });
+    vi.mocked(hasSufficientPayerBalance).mockResolvedValue(true);
+  });
+
+  it("should settle payments from one window in a single transaction", async () => {
+    const [first, second, third] = [payment(1), payment(2), payment(3)];
+    signer.waitForTransactionReceipt.mockResolvedValue({
+      status: "success",
+      transactionHash: "0xbatchtx",
+      gasUsed: 300000n,
+      logs: [settledLog(first.nonce), failedLog(second.nonce, 1), settledLog(third.nonce)],
+    });
+    const settler = new BatchSettler(config, poolManager, {});
+    const progress = vi.fn(async () => undefined);
+
+    const responses = await Promise.all(
+      [first, second, third].map((p) =>
+        settler.settle(p.paymentPayload, p.paymentRequirements, progress),
+      ),
+    );
+
+    expect(signer.writeContract).toHaveBeenCalledTimes(1);
+    expect(signer.writeContract.mock.calls[0][0]).toMatchObject({
+      address: ROUTER,
+      functionName: "settleAndExecuteBatch",
+    });
+    expect(signer.writeContract.mock.calls[0][0].args[0]).toHaveLength(3);
+    expect(progress).toHaveBeenCalledWith("submitted", { transaction: "0xbatchtx" });
+    expect(responses.map((r) => r.success)).toEqual([true, false, true]);
+    expect(responses[1]).toMatchObject({
+      errorReason: "invalid_transaction_state",
+      transaction: "0xbatchtx",
+    });
+  });
+
+  it("should submit early once the batch is full", async () => {
+    config.windowMs = 60_000;
+    config.maxSize = 2;
+    const [first, second] = [payment(1), payment(2)];
+    signer.waitForTransactionReceipt.mockResolvedValue({
+      status: "success",
+      transactionHash: "0xbatchtx",
+      logs: [settledLog(first.nonce), settledLog(second.nonce)],
+    });
+    const settler = new BatchSettler(config, poolManager, {});
+
+    const responses = await Promise.all(
+      [first, second].map((p) => settler.settle(p.paymentPayload, p.paymentRequirements)),
+    );
+
+    expect(responses.every((r) => r.success)).toBe(true);
+  });
+
+  it("should fail every item when the batch transaction reverts", async () => {
+    signer.waitForTransactionReceipt.mockResolvedValue({
+      status: "reverted",
+      transactionHash: "0xbatchtx",
+      logs: [],
+    });
+    const settler = new BatchSettler(config, poolManager, {});
+
+    const responses = await Promise.all(
+      [payment(1), payment(2)].map((p) => settler.settle(p.paymentPayload, p.paymentRequirements)),
+    );
+
+    expect(responses.every((r) => !r.success && r.transaction === "0xbatchtx")).toBe(true);
+  });
+
+  it("should return validation failures without joining a batch", async () => {
+    vi.mocked(prepareRouterSettlement).mockResolvedValueOnce({
+      ok: false,
+      response: {
+        success: false,
+        errorReason: "INVALID_COMMITMENT",
+        transaction: "",
+        network: "base-sepolia",
+        payer: PAYER,
+      } as any,
+    });
+    const settler = new BatchSettler(config, poolManager, {});
+    const { paymentPayload, paymentRequirements } = payment(1);
+
+    const response = await settler.settle(paymentPayload, paymentRequirements);
+    await settler.stop();
+
+    expect(response.errorReason).toBe("INVALID_COMMITMENT");
+    expect(signer.writeContract).not.toHaveBeenCalled();
+  });
+
+  it("should price assets with the token price config", async () => {
+    vi.mocked(prepareRouterSettlement).mockResolvedValueOnce({
+      ok: false,
+      response: { success: false, errorReason: "INVALID_COMMITMENT" } as any,
+    });
+    const tokenPrice = { enabled: true, cacheTTL: 60, updateInterval: 60 } as any;
+    const settler = new BatchSettler(config, poolManager, {}, undefined, undefined, {
+      tokenPrice,
+    });
+    const { paymentPayload, paymentRequirements } = payment(1);
+
+    await settler.settle(paymentPayload, paymentRequirements);
+    await settler.stop();
+
+    expect(prepareRouterSettlement).toHaveBeenCalledWith(
+      paymentPayload,
+      paymentRequirements,
+      {},
+      undefined,
+      undefined,
+      tokenPrice,
+    );
+  });
+
+  it("should verify payments with the reloaded x402 config", async () => {
+    vi.mocked(prepareRouterSettlement).mockResolvedValueOnce({
+      ok: false,
+      response: { success: false, errorReason: "INVALID_COMMITMENT" } as any,
+    });
+    const previous = { svmConfig: { rpcUrl: "https://old.example" } };
+    const next = { svmConfig: { rpcUrl: "https://new.example" } };
+    const settler = new BatchSettler(config, poolManager, {}, undefined, previous);
+    const { paymentPayload, paymentRequirements } = payment(1);
+
+    settler.updateX402Config(next);
+    await settler.settle(paymentPayload, paymentRequirements);
+    await settler.stop();
+
+    expect(prepareRouterSettlement).toHaveBeenCalledWith(
+      paymentPayload,
+      paymentRequirements,
+      {},
+      undefined,
+      next,
+      undefined,
+    );
+  });
+
+  it("should bound the batch transaction with the items' gas limits", async () => {
+    vi.mocked(resolveRouterGasLimit)
+      .mockResolvedValueOnce({ ok: true, gasLimit: 200_000n, mode: "dynamic", simulated: false })
+      .mockResolvedValueOnce({ ok: true, gasLimit: 300_000n, mode: "dynamic", simulated: false });
+    const [first, second] = [payment(1), payment(2)];
+    signer.waitForTransactionReceipt.mockResolvedValue({
+      status: "success",
+      transactionHash: "0xbatchtx",
+      logs: [settledLog(first.nonce), settledLog(second.nonce)],
+    });
+    const settler = new BatchSettler(config, poolManager, {});
+
+    await Promise.all(
+      [first, second].map((p) => settler.settle(p.paymentPayload, p.paymentRequirements)),
+    );
+
+    // Item limits plus the batch overhead
+    expect(signer.writeContract.mock.calls[0][0].gas).toBe(550_000n);
+  });
+
+  it("should reject items failing pre-validation or the balance check before batching", async () => {
+    vi.mocked(resolveRouterGasLimit).mockResolvedValueOnce({
+      ok: false,
+      errorReason: "HOOK_EXECUTION_FAILED",
+    });
+    vi.mocked(hasSufficientPayerBalance).mockResolvedValueOnce(false);
+    const [first, second, third] = [payment(1), payment(2), payment(3)];
+    signer.waitForTransactionReceipt.mockResolvedValue({
+      status: "success",
+      transactionHash: "0xbatchtx",
+      logs: [settledLog(third.nonce)],
+    });
+    const settler = new BatchSettler(config, poolManager, {});
+
+    const responses = await Promise.all(
+      [first, second, third].map((p) => settler.settle(p.paymentPayload, p.paymentRequirements)),
+    );
+
+    expect(responses.map((r) => r.errorReason)).toEqual([
+      "HOOK_EXECUTION_FAILED",
+      "INSUFFICIENT_FUNDS",
+      undefined,
+    ]);
+    expect(signer.writeContract).toHaveBeenCalledTimes(1);
+    expect(signer.writeContract.mock.calls[0][0].args[0]).toHaveLength(1);
+  });
+
+  it("should submit pending batches on stop", async () => {
+    config.windowMs = 60_000;
+    const { paymentPayload, paymentRequirements, nonce } = payment(1);
+    signer.waitForTransactionReceipt.mockResolvedValue({
+      status: "success",
+      transactionHash: "0xbatchtx",
+      logs: [settledLog(nonce)],
+    });
+    const settler = new BatchSettler(config, poolManager, {});
+
+    const pending = settler.settle(paymentPayload, paymentRequirements);
+    await new Promise((resolve) => setImmediate(resolve));
+    await settler.stop();
+
+    expect((await pending).success).toBe(true);
+  });
+});
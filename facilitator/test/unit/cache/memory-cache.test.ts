@@ -209,6 +209,23 @@ describe("cache/memory-cache", () => {
       expect(cache.get("key")).toBe("value2");
     });
 
+    it("should increment counters and keep their expiry", () => {
+      expect(cache.increment("counter", 2, 60)).toBe(2);
+      const expiresAt = (cache as any).cache.getTtl("counter");
+      expect(cache.increment("counter", -0.5, 3600)).toBe(1.5);
+
+      expect(cache.get("counter")).toBe(1.5);
+      expect(Math.abs((cache as any).cache.getTtl("counter") - expiresAt)).toBeLessThan(50);
+    });
+
+    it("should throw when a new counter does not fit", () => {
+      for (let i = 0; i < 10; i++) {
+        cache.set(`key${i}`, `value${i}`);
+      }
+
+      expect(() => cache.increment("counter", 1)).toThrow();
+    });
+
     it("should respect maxKeys limit", () => {
       // Cache configured with maxKeys: 10
       // node-cache throws error when max keys exceeded
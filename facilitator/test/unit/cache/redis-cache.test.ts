@@ -0,0 +1,131 @@
+/**
+ * Tests for cache/redis-cache.ts
+ *
+ * Tests the Redis cache against an in-process RESP server
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  RedisCache,
+  createCache,
+  createTokenCache,
+  MemoryCache,
+  INCREMENT_SCRIPT,
+} from "../../../src/cache/index.js";
+import { startRespServer, type RespTestServer } from "../../utils/resp-server.js";
+
+describe("cache/redis-cache", () => {
+  let server: RespTestServer;
+  let cache: RedisCache;
+
+  beforeEach(async () => {
+    server = await startRespServer({ password: "secret" });
+    cache = new RedisCache({ redisUrl: server.url, keyPrefix: "test:", stdTTL: 60 });
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    await server.close();
+  });
+
+  it("should store JSON values under the key prefix with expiry", async () => {
+    await cache.set("key1", { balance: "100", ok: true });
+
+    expect(await cache.get("key1")).toEqual({ balance: "100", ok: true });
+    expect(await cache.has("key1")).toBe(true);
+    expect(server.store.get("test:key1")?.expiresAt).toBeGreaterThan(Date.now());
+    expect(server.commands[0]).toEqual(["AUTH", "secret"]);
+  });
+
+  it("should delete keys and count hits and misses", async () => {
+    await cache.set("key1", "value1");
+
+    expect(await cache.get("missing")).toBeUndefined();
+    expect(await cache.del("key1")).toBe(true);
+    expect(await cache.del("key1")).toBe(false);
+    expect(await cache.get("key1")).toBeUndefined();
+
+    const stats = await cache.getStats();
+    expect(stats).toMatchObject({ hits: 0, misses: 2, keys: 0 });
+  });
+
+  it("should only flush keys under its own prefix", async () => {
+    const other = new RedisCache({ redisUrl: server.url, keyPrefix: "other:" });
+    await cache.set("key1", "value1");
+    await cache.set("key2", "value2");
+    await other.set("key1", "kept");
+
+    await cache.flush();
+
+    expect((await cache.getStats()).keys).toBe(0);
+    expect(await other.get("key1")).toBe("kept");
+    await other.close();
+  });
+
+  it("should share entries between instances", async () => {
+    const replica = new RedisCache({ redisUrl: server.url, keyPrefix: "test:" });
+    const tokenCache = createTokenCache(cache);
+    const replicaTokenCache = createTokenCache(replica);
+
+    await tokenCache.getVersion("base-sepolia", "0xToken", async () => "2");
+    const version = await replicaTokenCache.getVersion("base-sepolia", "0xtoken", async () => {
+      throw new Error("should be served from the shared cache");
+    });
+
+    expect(version).toBe("2");
+    await replica.close();
+  });
+
+  it("should increment counters atomically and expire them with their first TTL", async () => {
+    const scripted = await startRespServer({
+      scripts: {
+        [INCREMENT_SCRIPT]: ([key], [amount, ttl], store) => {
+          const entry = store.get(key) ?? {
+            value: "0",
+            expiresAt: Date.now() + Number(ttl) * 1000,
+          };
+          entry.value = String(Number(entry.value) + Number(amount));
+          store.set(key, entry);
+          return Number(entry.value);
+        },
+      },
+    });
+    const counters = new RedisCache({ redisUrl: scripted.url, keyPrefix: "spend:" });
+
+    expect(await counters.increment("payer", 100.5, 60)).toBe(100.5);
+    const expiresAt = scripted.store.get("spend:payer")?.expiresAt;
+    expect(await counters.increment("payer", -0.5, 3600)).toBe(100);
+    expect(await counters.get("payer")).toBe(100);
+    expect(scripted.store.get("spend:payer")?.expiresAt).toBe(expiresAt);
+
+    await counters.close();
+    await scripted.close();
+  });
+
+  it("should degrade to misses when the server is unavailable", async () => {
+    await cache.set("key1", "value1");
+    await server.close();
+
+    expect(await cache.get("key1")).toBeUndefined();
+    await expect(cache.set("key2", "value2")).resolves.toBeUndefined();
+    expect(await cache.has("key1")).toBe(false);
+    expect(await cache.ping()).toBe(false);
+    // Counters fail loudly so limits built on them can fail closed
+    await expect(cache.increment("counter", 1)).rejects.toThrow();
+  });
+
+  it("should reconnect after the connection drops", async () => {
+    await cache.set("key1", "value1");
+    server.dropConnections();
+
+    // The first command may observe the dropped connection; later ones reconnect
+    await cache.get("key1").catch(() => undefined);
+    expect(await cache.get("key1")).toBe("value1");
+  });
+
+  it("should be selected by the cache factory", () => {
+    expect(createCache({ backend: "redis", redisUrl: server.url })).toBeInstanceOf(RedisCache);
+    expect(createCache()).toBeInstanceOf(MemoryCache);
+    expect(() => createCache({ backend: "redis" })).toThrow(/redisUrl is required/);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for cache/resp-client.ts
+ *
+ * Tests reply parsing and connection handling against a raw TCP server with canned replies
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer, type AddressInfo, type Server, type Socket } from "net";
+import { RespClient, RespError } from "../../../src/cache/index.js";
+
+/**
+ * Start a server that answers each received command with the next canned reply
+ *
+ * @param replies - Raw RESP replies, in order
+ * @param delayMs - Delay before each reply
+ * @returns Server, its URL and its open sockets
+ */
+async function startCannedServer(
+  replies: string[],
+  delayMs = 0,
+): Promise<{ server: Server; url: string; sockets: Set<Socket> }> {
+  const sockets = new Set<Socket>();
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => undefined);
+    socket.on("data", (chunk) => {
+      // Every command the client sends is a RESP array ("*<n>")
+      const commands = chunk
+        .toString()
+        .split("\r\n")
+        .filter((line) => line.startsWith("*"));
+      for (let i = 0; i < commands.length; i++) {
+        const reply = replies.shift();
+        if (reply !== undefined) setTimeout(() => socket.write(reply), delayMs);
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `redis://127.0.0.1:${port}`, sockets };
+}
+
+describe("cache/resp-client", () => {
+  let client: RespClient | undefined;
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    client = undefined;
+    server = undefined;
+  });
+
+  it("should keep error elements inside array replies", async () => {
+    const started = await startCannedServer(["*3\r\n+OK\r\n-ERR boom\r\n:7\r\n", "+NEXT\r\n"]);
+    server = started.server;
+    client = new RespClient({ url: started.url, commandTimeoutMs: 500 });
+
+    const [first, second] = await Promise.all([client.command("EXEC"), client.command("PING")]);
+
+    expect(Array.isArray(first)).toBe(true);
+    const items = first as unknown[];
+    expect(items).toHaveLength(3);
+    expect(items[0]).toBe("OK");
+    expect(items[1]).toBeInstanceOf(RespError);
+    expect((items[1] as RespError).message).toBe("ERR boom");
+    expect(items[2]).toBe(7);
+    expect(second).toBe("NEXT");
+  });
+
+  it("should ignore close events from a replaced socket", async () => {
+    const started = await startCannedServer(["+ONE\r\n", "+TWO\r\n"], 50);
+    server = started.server;
+    client = new RespClient({ url: started.url, commandTimeoutMs: 500 });
+
+    expect(await client.command("PING")).toBe("ONE");
+    const oldSocket = client["socket"] as Socket;
+    started.sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => oldSocket.once("close", resolve));
+
+    const reply = client.command("PING");
+    // Let the new connection open, then replay a late close of the old socket
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    oldSocket.emit("close");
+
+    expect(await reply).toBe("TWO");
+  });
+});
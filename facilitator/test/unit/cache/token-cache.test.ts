@@ -124,7 +124,7 @@ describe("cache/token-cache", () => {
   });
 
   describe("getStats", () => {
-    it("should return stats from underlying cache", () => {
+    it("should return stats from underlying cache", async () => {
       const stats = {
         keys: 5,
         hits: 10,
@@ -135,7 +135,7 @@ describe("cache/token-cache", () => {
 
       mockCache.getStats.mockReturnValue(stats);
 
-      const result = tokenCache.getStats();
+      const result = await tokenCache.getStats();
 
       expect(result).toEqual(stats);
       expect(mockCache.getStats).toHaveBeenCalled();
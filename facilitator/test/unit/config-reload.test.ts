@@ -0,0 +1,134 @@
+/**
+ * Tests for config-reload.ts
+ *
+ * Tests applying reloaded configuration, rejected reloads and SIGHUP handling
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ConfigReloader, getRestartRequiredChanges } from "../../src/config-reload.js";
+import { loadConfigWithRollback, type AppConfig } from "../../src/config.js";
+
+vi.mock("../../src/config.js", () => ({
+  loadConfigWithRollback: vi.fn(),
+}));
+
+/**
+ * Minimal configuration for reload tests
+ *
+ * @param overrides - Sections to override
+ * @returns Configuration
+ */
+function createConfig(overrides: Partial<AppConfig> = {}): AppConfig {
+  return {
+    rateLimit: { enabled: true, verifyMax: 100, settleMax: 20, windowMs: 60000 },
+    server: { port: 3000 },
+    feeQuote: { enabled: true, secret: "generated-1", secretGenerated: true, validitySeconds: 60 },
+    ...overrides,
+  } as AppConfig;
+}
+
+/**
+ * Loaded configuration as returned by loadConfigWithRollback
+ *
+ * @param config - Configuration
+ * @param rollback - Environment rollback
+ * @returns Load result
+ */
+function loaded(
+  config: AppConfig,
+  rollback = vi.fn(),
+): { config: AppConfig; rollback: () => void } {
+  return { config, rollback };
+}
+
+describe("config-reload", () => {
+  const reloadConfig = { debounceMs: 10 };
+  let apply: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    apply = vi.fn(async () => undefined);
+  });
+
+  it("should apply a reloaded configuration", async () => {
+    const current = createConfig();
+    const next = createConfig({
+      rateLimit: { enabled: true, verifyMax: 200, settleMax: 20, windowMs: 60000 },
+    });
+    const rollback = vi.fn();
+    vi.mocked(loadConfigWithRollback).mockResolvedValueOnce(loaded(next, rollback));
+    const reloader = new ConfigReloader(reloadConfig, current, apply);
+
+    await expect(reloader.reload()).resolves.toBe(true);
+
+    expect(apply).toHaveBeenCalledWith(next, current);
+    expect(rollback).not.toHaveBeenCalled();
+  });
+
+  it("should keep the current configuration when the reload is invalid", async () => {
+    vi.mocked(loadConfigWithRollback).mockRejectedValueOnce(
+      new Error("Invalid RATE_LIMIT_VERIFY_MAX"),
+    );
+    const reloader = new ConfigReloader(reloadConfig, createConfig(), apply);
+
+    await expect(reloader.reload()).resolves.toBe(false);
+
+    expect(apply).not.toHaveBeenCalled();
+  });
+
+  it("should keep the previous configuration when applying fails", async () => {
+    const current = createConfig();
+    const rollback = vi.fn();
+    const rejected = createConfig({ server: { port: 4000 } as AppConfig["server"] });
+    vi.mocked(loadConfigWithRollback)
+      .mockResolvedValueOnce(loaded(rejected, rollback))
+      .mockResolvedValueOnce(loaded(createConfig()));
+    apply.mockRejectedValueOnce(new Error("At least one EVM private key is required"));
+    const reloader = new ConfigReloader(reloadConfig, current, apply);
+
+    await expect(reloader.reload()).resolves.toBe(false);
+    await reloader.reload();
+
+    expect(rollback).toHaveBeenCalledTimes(1);
+    expect(apply.mock.calls[1][1]).toBe(current);
+  });
+
+  it("should keep a generated fee quote secret", async () => {
+    const next = createConfig({
+      feeQuote: {
+        enabled: true,
+        secret: "generated-2",
+        secretGenerated: true,
+        validitySeconds: 60,
+      },
+    });
+    vi.mocked(loadConfigWithRollback).mockResolvedValueOnce(loaded(next));
+    const reloader = new ConfigReloader(reloadConfig, createConfig(), apply);
+
+    await reloader.reload();
+
+    expect(apply.mock.calls[0][0].feeQuote.secret).toBe("generated-1");
+  });
+
+  it("should reload on SIGHUP until stopped", async () => {
+    vi.mocked(loadConfigWithRollback).mockResolvedValue(loaded(createConfig()));
+    const reloader = new ConfigReloader(reloadConfig, createConfig(), apply);
+    reloader.start();
+
+    process.emit("SIGHUP");
+    await reloader.stop();
+    process.emit("SIGHUP");
+
+    expect(loadConfigWithRollback).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report changed sections that need a restart", () => {
+    const previous = createConfig();
+    const next = createConfig({
+      server: { port: 4000 } as AppConfig["server"],
+      rateLimit: { enabled: false, verifyMax: 100, settleMax: 20, windowMs: 60000 },
+    });
+
+    expect(getRestartRequiredChanges(previous, next)).toEqual(["server"]);
+  });
+});
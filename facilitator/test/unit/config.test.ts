@@ -5,7 +5,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { loadConfig } from "../../src/config.js";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig, loadConfigWithRollback } from "../../src/config.js";
 
 
 // Mock networkChainResolver
@@ -299,4 +302,347 @@ describe("config", () => {
       expect(config.network.evmNetworks).toContain("x-layer");
     });
   });
+
+  describe("hook validators", () => {
+    it("should parse address and code hash registrations", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.HOOK_VALIDATORS = `base-sepolia:0x1111111111111111111111111111111111111111=nft_mint, 0x${"ab".repeat(32)}=reward`;
+      process.env.HOOK_VALIDATOR_PLUGINS = "./plugins/a.js, ";
+
+      const config = await loadConfig();
+
+      expect(config.hookValidators.registrations).toEqual([
+        {
+          hookType: "nft_mint",
+          network: "base-sepolia",
+          address: "0x1111111111111111111111111111111111111111",
+        },
+        { hookType: "reward", codeHash: `0x${"ab".repeat(32)}` },
+      ]);
+      expect(config.hookValidators.plugins).toEqual(["./plugins/a.js"]);
+    });
+
+    it("should throw on invalid registrations", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.HOOK_VALIDATORS = "0x1234=nft_mint";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid HOOK_VALIDATORS target");
+    });
+  });
+
+  describe("readiness", () => {
+    it("should parse gas balance floors with per-network overrides", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.MINIMUM_GAS_BALANCE = "0.1";
+      process.env.BASE_SEPOLIA_MIN_GAS_BALANCE = "0.005";
+
+      const config = await loadConfig();
+
+      expect(config.readiness.enabled).toBe(true);
+      expect(config.readiness.minGasBalance["base-sepolia"]).toBe("5000000000000000");
+      expect(config.readiness.minGasBalance["base"]).toBe("100000000000000000");
+    });
+
+    it("should throw on invalid gas balance floors", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.MINIMUM_GAS_BALANCE = "lots";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid MINIMUM_GAS_BALANCE");
+    });
+  });
+
+  describe("treasury", () => {
+    it("should be disabled by default and derive the target from the minimum", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.MINIMUM_GAS_BALANCE = "0.1";
+
+      const config = await loadConfig();
+
+      expect(config.treasury.enabled).toBe(false);
+      expect(config.treasury.fundingPrivateKey).toBeUndefined();
+      expect(config.treasury.minBalance["base-sepolia"]).toBe("100000000000000000");
+      expect(config.treasury.targetBalance["base-sepolia"]).toBe("200000000000000000");
+    });
+
+    it("should parse funding key, thresholds and overrides", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.TREASURY_ENABLED = "true";
+      process.env.TREASURY_FUNDING_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000002";
+      process.env.TREASURY_TARGET_BALANCE = "1";
+      process.env.BASE_SEPOLIA_GAS_ALERT_THRESHOLD = "0.02";
+      process.env.TREASURY_MAX_TOP_UP = "0.5";
+
+      const config = await loadConfig();
+
+      expect(config.treasury.enabled).toBe(true);
+      expect(config.treasury.targetBalance["base-sepolia"]).toBe("1000000000000000000");
+      expect(config.treasury.alertThreshold["base-sepolia"]).toBe("20000000000000000");
+      expect(config.treasury.maxTopUpAmount).toBe("500000000000000000");
+    });
+
+    it("should throw on an invalid funding key", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.TREASURY_FUNDING_PRIVATE_KEY = "0x1234";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid TREASURY_FUNDING_PRIVATE_KEY");
+    });
+
+    it("should throw when the target is below the minimum", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.MINIMUM_GAS_BALANCE = "0.1";
+      process.env.TREASURY_TARGET_BALANCE = "0.05";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid treasury target balance");
+    });
+  });
+
+  describe("price sources", () => {
+    it("should default to CoinGecko with priority aggregation", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+
+      const config = await loadConfig();
+
+      expect(config.tokenPrice.sources).toEqual(["coingecko"]);
+      expect(config.tokenPrice.aggregation).toBe("priority");
+      expect(config.tokenPrice.staticPrices?.["x-layer"]).toBe(50);
+    });
+
+    it("should parse on-chain sources per network", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.PRICE_SOURCES = "chainlink, twap, coingecko";
+      process.env.PRICE_AGGREGATION = "median";
+      process.env.BASE_SEPOLIA_CHAINLINK_FEED = "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70";
+      process.env.BASE_SEPOLIA_CHAINLINK_FEED_NETWORK = "base";
+      process.env.BASE_TWAP_POOL = "0xd0b53D9277642d899DF5C87A3966A349A798F224";
+      process.env.BASE_TWAP_QUOTE_TOKEN = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+      const config = await loadConfig();
+
+      expect(config.tokenPrice.sources).toEqual(["chainlink", "twap", "coingecko"]);
+      expect(config.tokenPrice.aggregation).toBe("median");
+      expect(config.tokenPrice.chainlinkFeeds).toEqual({
+        "base-sepolia": { address: "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70", network: "base" },
+      });
+      expect(config.tokenPrice.twapPools?.base).toMatchObject({
+        network: "base",
+        windowSeconds: 1800,
+      });
+    });
+
+    it("should throw on unknown sources", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.PRICE_SOURCES = "coingecko,pyth";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid PRICE_SOURCES entry: pyth");
+    });
+
+    it("should require a quote token for TWAP pools", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.BASE_TWAP_POOL = "0xd0b53D9277642d899DF5C87A3966A349A798F224";
+
+      await expect(loadConfig()).rejects.toThrow("BASE_TWAP_QUOTE_TOKEN is required");
+    });
+  });
+
+  describe("fee quotes", () => {
+    it("should be enabled by default with a generated secret", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+
+      const config = await loadConfig();
+
+      expect(config.feeQuote.enabled).toBe(true);
+      expect(config.feeQuote.secretGenerated).toBe(true);
+      expect(config.feeQuote.secret).toHaveLength(64);
+      expect(config.feeQuote.validitySeconds).toBe(60);
+    });
+
+    it("should use the shared secret and validity window", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.FEE_QUOTE_SECRET = "shared-fee-quote-secret";
+      process.env.FEE_QUOTE_VALIDITY_SECONDS = "120";
+
+      const config = await loadConfig();
+
+      expect(config.feeQuote.secret).toBe("shared-fee-quote-secret");
+      expect(config.feeQuote.secretGenerated).toBe(false);
+      expect(config.feeQuote.validitySeconds).toBe(120);
+    });
+
+    it("should throw on a short secret", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.FEE_QUOTE_SECRET = "short";
+
+      await expect(loadConfig()).rejects.toThrow("FEE_QUOTE_SECRET must be at least 16 characters");
+    });
+  });
+
+  describe("spend policy", () => {
+    it("should leave all limits unset by default", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+
+      const config = await loadConfig();
+
+      expect(config.spendPolicy).toEqual({
+        denylist: [],
+        maxPaymentUsd: undefined,
+        payerVolumeUsd: undefined,
+        payToVolumeUsd: undefined,
+        volumeWindowSeconds: 86400,
+        payerMaxPayments: undefined,
+        velocityWindowSeconds: 3600,
+      });
+    });
+
+    it("should parse limits and the denylist", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.SPEND_DENYLIST = "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0";
+      process.env.SPEND_LIMIT_MAX_PAYMENT_USD = "1000";
+      process.env.SPEND_LIMIT_PAYER_VOLUME_USD = "5000";
+      process.env.SPEND_LIMIT_PAYER_MAX_PAYMENTS = "30";
+
+      const config = await loadConfig();
+
+      expect(config.spendPolicy.denylist).toEqual(["0x742d35cc6634c0532925a3b844bc9e7595f0beb0"]);
+      expect(config.spendPolicy.maxPaymentUsd).toBe(1000);
+      expect(config.spendPolicy.payerVolumeUsd).toBe(5000);
+      expect(config.spendPolicy.payerMaxPayments).toBe(30);
+    });
+
+    it("should throw on invalid values", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.SPEND_LIMIT_MAX_PAYMENT_USD = "-5";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid SPEND_LIMIT_MAX_PAYMENT_USD");
+
+      process.env.SPEND_LIMIT_MAX_PAYMENT_USD = "";
+      process.env.SPEND_DENYLIST = "0x1234";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid SPEND_DENYLIST address: 0x1234");
+    });
+  });
+
+  describe("batch settlement", () => {
+    it("should be disabled by default", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+
+      const config = await loadConfig();
+
+      expect(config.batchSettlement).toEqual({ enabled: false, windowMs: 2000, maxSize: 20 });
+    });
+
+    it("should parse the window and batch size", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.BATCH_SETTLEMENT_ENABLED = "true";
+      process.env.BATCH_SETTLEMENT_WINDOW_MS = "500";
+      process.env.BATCH_SETTLEMENT_MAX_SIZE = "50";
+
+      const config = await loadConfig();
+
+      expect(config.batchSettlement).toEqual({ enabled: true, windowMs: 500, maxSize: 50 });
+    });
+
+    it("should reject a fractional batch size", async () => {
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.BATCH_SETTLEMENT_MAX_SIZE = "2.5";
+
+      await expect(loadConfig()).rejects.toThrow("Invalid BATCH_SETTLEMENT_MAX_SIZE");
+    });
+  });
+
+  describe("config file", () => {
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = join(mkdtempSync(join(tmpdir(), "facilitator-config-")), "config.json");
+      process.env.EVM_PRIVATE_KEY =
+        "0x0000000000000000000000000000000000000000000000000000000000000001";
+      process.env.CONFIG_FILE = filePath;
+    });
+
+    it("should override environment variables with the file", async () => {
+      process.env.RATE_LIMIT_SETTLE_MAX = "20";
+      writeFileSync(
+        filePath,
+        JSON.stringify({ RATE_LIMIT_SETTLE_MAX: 7, RATE_LIMIT_ENABLED: false }),
+      );
+
+      const config = await loadConfig();
+
+      expect(config.rateLimit.settleMax).toBe(7);
+      expect(config.rateLimit.enabled).toBe(false);
+      expect(config.configReload).toEqual({ filePath, debounceMs: 500 });
+    });
+
+    it("should report every schema problem of the file", async () => {
+      writeFileSync(
+        filePath,
+        JSON.stringify({ "bad-key": "x", RATE_LIMIT_VERIFY_MAX: { max: 1 }, CONFIG_FILE: "other" }),
+      );
+
+      const error = await loadConfig().catch((e) => e);
+
+      expect(error.message).toContain("bad-key: not an environment variable name");
+      expect(error.message).toContain(
+        "RATE_LIMIT_VERIFY_MAX: expected a string, number or boolean",
+      );
+      expect(error.message).toContain("CONFIG_FILE: can only be set in the environment");
+    });
+
+    it("should pick up file changes and leave the environment alone on invalid ones", async () => {
+      process.env.RATE_LIMIT_SETTLE_MAX = "20";
+      writeFileSync(filePath, JSON.stringify({ RATE_LIMIT_SETTLE_MAX: 7 }));
+      await loadConfig();
+
+      writeFileSync(filePath, JSON.stringify({ RATE_LIMIT_VERIFY_MAX: 9 }));
+      const reloaded = await loadConfig();
+
+      expect(reloaded.rateLimit.settleMax).toBe(20);
+      expect(reloaded.rateLimit.verifyMax).toBe(9);
+
+      writeFileSync(
+        filePath,
+        JSON.stringify({ RATE_LIMIT_VERIFY_MAX: 11, BATCH_SETTLEMENT_MAX_SIZE: "2.5" }),
+      );
+      await expect(loadConfig()).rejects.toThrow("Invalid BATCH_SETTLEMENT_MAX_SIZE");
+
+      expect(process.env.RATE_LIMIT_VERIFY_MAX).toBe("9");
+      expect(process.env.BATCH_SETTLEMENT_MAX_SIZE).toBeUndefined();
+    });
+
+    it("should restore the environment when a loaded file is rolled back", async () => {
+      delete process.env.RATE_LIMIT_SETTLE_MAX;
+      writeFileSync(filePath, JSON.stringify({ RATE_LIMIT_VERIFY_MAX: 9 }));
+      await loadConfig();
+
+      writeFileSync(filePath, JSON.stringify({ RATE_LIMIT_SETTLE_MAX: 3 }));
+      const { config, rollback } = await loadConfigWithRollback();
+      expect(config.rateLimit.settleMax).toBe(3);
+      rollback();
+
+      expect(process.env.RATE_LIMIT_VERIFY_MAX).toBe("9");
+      expect(process.env.RATE_LIMIT_SETTLE_MAX).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,105 @@
+/**
+ * Tests for fee-quote.ts
+ *
+ * Tests signing and checking of facilitator fee quotes
+ */
+
+import { describe, it, expect } from "vitest";
+import { checkFeeQuote, signFeeQuote, type FeeQuoteConfig } from "../../src/fee-quote.js";
+
+const config: FeeQuoteConfig = {
+  enabled: true,
+  secret: "test-fee-quote-secret",
+  secretGenerated: false,
+  validitySeconds: 60,
+};
+
+const terms = {
+  network: "base-sepolia",
+  hook: "0x1234567890123456789012345678901234567890",
+  hookData: "0xabcd",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  fee: "1000000",
+};
+
+describe("fee-quote", () => {
+  it("should sign a quote bound to the settlement parameters", () => {
+    const now = 1_700_000_000_000;
+
+    const { id, quote } = signFeeQuote(config, terms, now);
+
+    expect(id.split(".")).toHaveLength(2);
+    expect(quote).toMatchObject({
+      network: "base-sepolia",
+      hook: terms.hook.toLowerCase(),
+      asset: terms.asset.toLowerCase(),
+      fee: "1000000",
+      issuedAt: 1_700_000_000,
+      expiresAt: 1_700_000_060,
+    });
+    expect(quote.hookDataHash).toMatch(/^0x[0-9a-f]{64}$/);
+  });
+
+  it("should accept matching terms regardless of address case", () => {
+    const { id } = signFeeQuote(config, terms);
+
+    const result = checkFeeQuote(config, id, { ...terms, hook: terms.hook.toUpperCase() });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("should accept fees above the quoted fee", () => {
+    const { id } = signFeeQuote(config, terms);
+
+    expect(checkFeeQuote(config, id, { ...terms, fee: "1500000" }).valid).toBe(true);
+    expect(checkFeeQuote(config, id, { ...terms, fee: "999999" })).toEqual({
+      valid: false,
+      reason: "fee_below_quote",
+    });
+  });
+
+  it("should reject expired quotes", () => {
+    const now = Date.now();
+    const { id } = signFeeQuote(config, terms, now);
+
+    expect(checkFeeQuote(config, id, terms, now + 60_000).valid).toBe(true);
+    expect(checkFeeQuote(config, id, terms, now + 61_000)).toEqual({
+      valid: false,
+      reason: "expired",
+    });
+  });
+
+  it("should reject quotes for other settlement parameters", () => {
+    const { id } = signFeeQuote(config, terms);
+
+    for (const mismatch of [
+      { network: "base" },
+      { hook: "0x0000000000000000000000000000000000000001" },
+      { hookData: "0xabce" },
+      { asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" },
+    ]) {
+      expect(checkFeeQuote(config, id, { ...terms, ...mismatch })).toEqual({
+        valid: false,
+        reason: "terms_mismatch",
+      });
+    }
+  });
+
+  it("should reject tampered or foreign quotes", () => {
+    const { id } = signFeeQuote(config, terms);
+    const [payload, signature] = id.split(".");
+    const tampered = Buffer.from(
+      Buffer.from(payload, "base64url").toString().replace("1000000", "1"),
+    ).toString("base64url");
+
+    expect(checkFeeQuote(config, `${tampered}.${signature}`, terms).valid).toBe(false);
+    expect(checkFeeQuote({ ...config, secret: "another-secret-value" }, id, terms)).toEqual({
+      valid: false,
+      reason: "bad_signature",
+    });
+    expect(checkFeeQuote(config, "not-a-quote", terms)).toEqual({
+      valid: false,
+      reason: "malformed",
+    });
+  });
+});
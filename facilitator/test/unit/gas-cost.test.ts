@@ -8,10 +8,22 @@
  * 3. Dynamic limit (based on facilitator fee for profitability)
  */
 
-import { describe, it, expect } from "vitest";
-import { calculateEffectiveGasLimit, type GasCostConfig } from "../../src/gas-cost.js";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  calculateEffectiveGasLimit,
+  checkHookAllowed,
+  convertUsdToToken,
+  isHookAllowed,
+  type GasCostConfig,
+} from "../../src/gas-cost.js";
+import { getCachedHookCodeHash, getHookCodeHash } from "../../src/hook-code-hash.js";
 import { DEFAULTS } from "../../src/defaults.js";
 
+vi.mock("../../src/hook-code-hash.js", () => ({
+  getCachedHookCodeHash: vi.fn(),
+  getHookCodeHash: vi.fn(),
+}));
+
 describe("calculateEffectiveGasLimit", () => {
   // Base configuration for tests - use defaults
   const baseConfig: GasCostConfig = {
@@ -330,4 +342,107 @@ describe("calculateEffectiveGasLimit", () => {
       expect(result).toBe(266666);
     });
   });
+
+  describe("Non-USD settlement assets", () => {
+    it("should value the fee at the asset's USD price", () => {
+      const facilitatorFee = "10000000"; // 10 EURC
+      const gasPrice = "10000000000"; // 10 gwei
+      const nativeTokenPrice = 3000; // ETH = $3000
+
+      // Fee = 10 EURC * $1.50 = $15.00, available = $12.00
+      // Max affordable gas = $12.00 / $3000 * 1e18 / 10e9 = 400,000 gas
+      const result = calculateEffectiveGasLimit(
+        facilitatorFee,
+        gasPrice,
+        nativeTokenPrice,
+        6,
+        baseConfig,
+        1.5,
+      );
+
+      expect(result).toBe(400000);
+    });
+  });
+});
+
+describe("convertUsdToToken", () => {
+  it("should convert USD 1:1 for USD stablecoins", () => {
+    expect(convertUsdToToken("0.01", 6)).toBe("10000");
+  });
+
+  it("should convert USD at the token price for other assets", () => {
+    // $0.02 at $1.25 per token = 0.016 tokens
+    expect(convertUsdToToken("0.02", 6, 1.25)).toBe("16000");
+  });
+});
+
+describe("checkHookAllowed", () => {
+  const WHITELISTED_HOOK = "0x4DE234059C6CcC94B8fE1eb1BD24804794083569";
+  const REDEPLOYED_HOOK = "0x1111111111111111111111111111111111111111";
+  const CODE_HASH = `0x${"ab".repeat(32)}`;
+
+  const config = {
+    hookWhitelistEnabled: true,
+    allowedHooks: { "base-sepolia": [WHITELISTED_HOOK] },
+    allowedHookCodeHashes: [CODE_HASH],
+    hookCodeHashCacheTTL: 3600,
+  } as unknown as GasCostConfig;
+
+  beforeEach(() => {
+    vi.mocked(getHookCodeHash).mockReset();
+    vi.mocked(getCachedHookCodeHash).mockReset();
+  });
+
+  it("should allow every hook when the whitelist is disabled", async () => {
+    const result = await checkHookAllowed("base-sepolia", REDEPLOYED_HOOK, {
+      ...config,
+      hookWhitelistEnabled: false,
+    });
+
+    expect(result).toEqual({ allowed: true, reason: "whitelist_disabled" });
+  });
+
+  it("should allow whitelisted addresses without fetching bytecode", async () => {
+    const result = await checkHookAllowed("base-sepolia", WHITELISTED_HOOK.toLowerCase(), config);
+
+    expect(result).toEqual({ allowed: true, reason: "address" });
+    expect(getHookCodeHash).not.toHaveBeenCalled();
+  });
+
+  it("should allow hooks whose code hash is whitelisted", async () => {
+    vi.mocked(getHookCodeHash).mockResolvedValue(CODE_HASH.toUpperCase().replace("0X", "0x"));
+
+    const result = await checkHookAllowed("base-sepolia", REDEPLOYED_HOOK, config, {
+      "base-sepolia": "http://rpc",
+    });
+
+    expect(result).toEqual({ allowed: true, reason: "code_hash" });
+    expect(getHookCodeHash).toHaveBeenCalledWith(
+      "base-sepolia",
+      REDEPLOYED_HOOK,
+      { "base-sepolia": "http://rpc" },
+      3600,
+    );
+  });
+
+  it("should reject hooks with other or unreadable bytecode", async () => {
+    vi.mocked(getHookCodeHash).mockResolvedValueOnce(`0x${"cd".repeat(32)}`);
+    vi.mocked(getHookCodeHash).mockRejectedValueOnce(new Error("RPC down"));
+
+    expect(await checkHookAllowed("base-sepolia", REDEPLOYED_HOOK, config)).toEqual({
+      allowed: false,
+    });
+    expect(await checkHookAllowed("base-sepolia", REDEPLOYED_HOOK, config)).toEqual({
+      allowed: false,
+    });
+  });
+
+  it("should use cached code hashes in isHookAllowed", () => {
+    vi.mocked(getCachedHookCodeHash).mockReturnValue(CODE_HASH);
+
+    expect(isHookAllowed("base-sepolia", REDEPLOYED_HOOK, config)).toBe(true);
+    expect(isHookAllowed("base", REDEPLOYED_HOOK, { ...config, allowedHookCodeHashes: [] })).toBe(
+      false,
+    );
+  });
 });
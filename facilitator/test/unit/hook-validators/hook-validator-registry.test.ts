@@ -0,0 +1,205 @@
+/**
+ * Hook Validator Registry Unit Tests
+ *
+ * Tests the NFTMintHook / RewardHook validators, registration by address and code hash,
+ * and HOOK_VALIDATORS config handling.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { encodeAbiParameters, keccak256, zeroAddress } from "viem";
+import {
+  HookValidatorRegistry,
+  NFTMintHookValidator,
+  RewardHookValidator,
+  BuiltInHookType,
+  applyHookValidatorConfig,
+  getHookTypeInfo,
+  hookValidatorRegistry,
+  resolveHookTypeInfo,
+  validateHookData,
+} from "../../../src/hook-validators/index.js";
+
+const NFT_MINT_HOOK = "0x261206558E6eEd104Cba4AD913b2Eec85D21108e";
+const REWARD_HOOK = "0xf05cE06e7ee4ffCb67a509003DbD73A6d95Cc960";
+const CUSTOM_HOOK = "0x1111111111111111111111111111111111111111";
+const NFT_CONTRACT = "0x74215d0c1b2a5e6f8b9c3d4e5f6a7b8c9d0e1f2a";
+const HOOK_CODE = "0x6080604052348015600f57600080fd5b50";
+
+const encodeAddress = (address: string) =>
+  encodeAbiParameters([{ type: "address" }], [address as `0x${string}`]);
+
+describe("Hook validator registry", () => {
+  describe("NFTMintHookValidator", () => {
+    const validator = new NFTMintHookValidator();
+
+    it("should accept a MintConfig with an NFT contract", () => {
+      const result = validator.validate(
+        "base-sepolia",
+        NFT_MINT_HOOK,
+        encodeAddress(NFT_CONTRACT),
+        1000000n,
+      );
+
+      expect(result).toEqual({ isValid: true });
+    });
+
+    it("should reject empty hookData", () => {
+      const result = validator.validate("base-sepolia", NFT_MINT_HOOK, "0x", 1000000n);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorReason).toBe("NFTMintHook requires hookData with nftContract");
+    });
+
+    it("should reject malformed hookData", () => {
+      const result = validator.validate("base-sepolia", NFT_MINT_HOOK, "0x1234", 1000000n);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorReason).toContain("Failed to decode NFTMintHook data");
+    });
+
+    it("should reject the zero address", () => {
+      const result = validator.validate(
+        "base-sepolia",
+        NFT_MINT_HOOK,
+        encodeAddress(zeroAddress),
+        1000000n,
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorReason).toBe("Zero address not allowed as nftContract");
+    });
+  });
+
+  describe("RewardHookValidator", () => {
+    it("should name the reward token in errors", () => {
+      const validator = new RewardHookValidator();
+
+      expect(validator.validate("base-sepolia", REWARD_HOOK, "", 1000000n).errorReason).toBe(
+        "RewardHook requires hookData with rewardToken",
+      );
+    });
+  });
+
+  describe("getHookTypeInfo", () => {
+    it("should attach validators to the example hooks without marking them built-in", () => {
+      const nftMint = getHookTypeInfo("base-sepolia", NFT_MINT_HOOK.toLowerCase());
+      const reward = getHookTypeInfo("base-sepolia", REWARD_HOOK);
+
+      expect(nftMint.isBuiltIn).toBe(false);
+      expect(nftMint.hookType).toBe(BuiltInHookType.NFT_MINT);
+      expect(nftMint.validator).toBeInstanceOf(NFTMintHookValidator);
+      expect(reward.hookType).toBe(BuiltInHookType.REWARD);
+      expect(reward.validator).toBeInstanceOf(RewardHookValidator);
+    });
+
+    it("should validate example hook data", () => {
+      expect(validateHookData("base-sepolia", NFT_MINT_HOOK, "0x", 1000000n).isValid).toBe(false);
+    });
+  });
+
+  describe("HookValidatorRegistry", () => {
+    let registry: HookValidatorRegistry;
+    const validator = new NFTMintHookValidator();
+
+    beforeEach(() => {
+      registry = new HookValidatorRegistry();
+    });
+
+    it("should look up hooks registered by address", () => {
+      registry.register({
+        hookType: "custom",
+        validator,
+        addresses: { "base-sepolia": [CUSTOM_HOOK] },
+      });
+
+      expect(registry.lookup("base-sepolia", CUSTOM_HOOK.toUpperCase())?.hookType).toBe("custom");
+      expect(registry.lookup("base", CUSTOM_HOOK)).toBeUndefined();
+      expect(registry.getType("custom")).toBe(validator);
+    });
+
+    it("should match hooks by code hash and cache the result", async () => {
+      registry.register({ hookType: "custom", validator, codeHashes: [keccak256(HOOK_CODE)] });
+      const readCodeHash = vi.fn().mockResolvedValue(keccak256(HOOK_CODE));
+
+      expect(registry.lookup("base-sepolia", CUSTOM_HOOK)).toBeUndefined();
+      expect((await registry.resolve("base-sepolia", CUSTOM_HOOK, readCodeHash))?.hookType).toBe(
+        "custom",
+      );
+      expect((await registry.resolve("base-sepolia", CUSTOM_HOOK, readCodeHash))?.hookType).toBe(
+        "custom",
+      );
+      expect(registry.lookup("base-sepolia", CUSTOM_HOOK)?.hookType).toBe("custom");
+      expect(readCodeHash).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cache misses but not undeployed hooks", async () => {
+      registry.register({ hookType: "custom", validator, codeHashes: [keccak256(HOOK_CODE)] });
+      const readCodeHash = vi
+        .fn()
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(keccak256("0x6000"))
+        .mockResolvedValue(keccak256(HOOK_CODE));
+
+      expect(await registry.resolve("base-sepolia", CUSTOM_HOOK, readCodeHash)).toBeUndefined();
+      expect(await registry.resolve("base-sepolia", CUSTOM_HOOK, readCodeHash)).toBeUndefined();
+      expect(await registry.resolve("base-sepolia", CUSTOM_HOOK, readCodeHash)).toBeUndefined();
+      expect(readCodeHash).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not read bytecode when no code hashes are registered", async () => {
+      const readCodeHash = vi.fn();
+
+      expect(await registry.resolve("base-sepolia", CUSTOM_HOOK, readCodeHash)).toBeUndefined();
+      expect(readCodeHash).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("applyHookValidatorConfig", () => {
+    it("should register config entries with built-in types", () => {
+      const registry = new HookValidatorRegistry();
+      registry.registerType(BuiltInHookType.NFT_MINT, new NFTMintHookValidator());
+
+      applyHookValidatorConfig(
+        {
+          registrations: [
+            { hookType: BuiltInHookType.NFT_MINT, network: "base-sepolia", address: CUSTOM_HOOK },
+          ],
+          plugins: [],
+        },
+        registry,
+      );
+
+      expect(registry.lookup("base-sepolia", CUSTOM_HOOK)?.validator).toBeInstanceOf(
+        NFTMintHookValidator,
+      );
+    });
+
+    it("should reject unknown hook types", () => {
+      expect(() =>
+        applyHookValidatorConfig(
+          { registrations: [{ hookType: "unknown", codeHash: keccak256(HOOK_CODE) }], plugins: [] },
+          new HookValidatorRegistry(),
+        ),
+      ).toThrow("Unknown hook validator type in HOOK_VALIDATORS: unknown");
+    });
+  });
+
+  describe("resolveHookTypeInfo", () => {
+    it("should resolve hooks registered by code hash in the global registry", async () => {
+      const hook = "0x2222222222222222222222222222222222222222";
+      hookValidatorRegistry.register({
+        hookType: BuiltInHookType.REWARD,
+        validator: hookValidatorRegistry.getType(BuiltInHookType.REWARD)!,
+        codeHashes: [keccak256("0x60016002")],
+      });
+
+      expect(getHookTypeInfo("base-sepolia", hook).validator).toBeUndefined();
+
+      const info = await resolveHookTypeInfo("base-sepolia", hook, async () =>
+        keccak256("0x60016002"),
+      );
+      expect(info.hookType).toBe(BuiltInHookType.REWARD);
+      expect(info.validator).toBeInstanceOf(RewardHookValidator);
+    });
+  });
+});
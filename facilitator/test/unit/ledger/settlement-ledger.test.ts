@@ -0,0 +1,155 @@
+/**
+ * Tests for ledger/settlement-ledger.ts and ledger stores
+ *
+ * Tests idempotent replay rules and file store persistence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, appendFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  SettlementLedger,
+  MemoryLedgerStore,
+  FileLedgerStore,
+  calculateContextKey,
+} from "../../../src/ledger/index.js";
+import {
+  createMockPaymentPayload,
+  createMockSettlementRouterPaymentRequirements,
+} from "../../utils/fixtures.js";
+
+const payload = createMockPaymentPayload();
+const requirements = createMockSettlementRouterPaymentRequirements();
+
+const success = {
+  success: true,
+  transaction: "0xabc",
+  network: "base-sepolia" as const,
+  payer: "0x1234567890123456789012345678901234567890",
+};
+
+describe("ledger/settlement-ledger", () => {
+  let ledger: SettlementLedger;
+
+  beforeEach(() => {
+    ledger = new SettlementLedger(new MemoryLedgerStore());
+  });
+
+  it("should derive the ledger key from network and contextKey", async () => {
+    const result = await ledger.begin(payload, requirements);
+    const authorization = (payload.payload as any).authorization;
+    const contextKey = calculateContextKey(
+      authorization.from,
+      requirements.asset,
+      authorization.nonce,
+    );
+
+    expect(result).toEqual({ outcome: "new", key: `base-sepolia:${contextKey.toLowerCase()}` });
+  });
+
+  it("should report concurrent duplicates as in progress", async () => {
+    const [first, second] = await Promise.all([
+      ledger.begin(payload, requirements),
+      ledger.begin(payload, requirements),
+    ]);
+
+    expect(first?.outcome).toBe("new");
+    expect(second?.outcome).toBe("in_progress");
+  });
+
+  it("should replay the stored response once mined", async () => {
+    const begun = await ledger.begin(payload, requirements);
+    if (begun?.outcome !== "new") throw new Error("expected new");
+
+    await ledger.progress(begun.key)("simulated");
+    await ledger.progress(begun.key)("submitted", { transaction: "0xabc" });
+    await ledger.complete(begun.key, success);
+
+    const replay = await ledger.begin(payload, requirements);
+    expect(replay?.outcome).toBe("replay");
+    if (replay?.outcome !== "replay") return;
+    expect(replay.record.response).toEqual(success);
+    expect(replay.record.status).toBe("mined");
+    expect(replay.record.history.map((t) => t.status)).toEqual([
+      "received",
+      "simulated",
+      "submitted",
+      "mined",
+    ]);
+  });
+
+  it("should allow retry after a rejection that never reached the chain", async () => {
+    const begun = await ledger.begin(payload, requirements);
+    if (begun?.outcome !== "new") throw new Error("expected new");
+
+    await ledger.complete(begun.key, {
+      ...success,
+      success: false,
+      transaction: "",
+      errorReason: "insufficient_funds",
+    });
+
+    const retry = await ledger.begin(payload, requirements);
+    expect(retry?.outcome).toBe("new");
+  });
+
+  it("should keep a submitted settlement out of retry when it fails", async () => {
+    const begun = await ledger.begin(payload, requirements);
+    if (begun?.outcome !== "new") throw new Error("expected new");
+
+    await ledger.progress(begun.key)("submitted", { transaction: "0xabc" });
+    await ledger.fail(begun.key, new Error("receipt timeout"));
+
+    const again = await ledger.begin(payload, requirements);
+    expect(again?.outcome).toBe("orphaned");
+    if (again?.outcome !== "orphaned") return;
+
+    const reconciled = await ledger.reconcile(again.record, async () => ({ status: "success" }));
+    expect(reconciled?.status).toBe("mined");
+    expect((await ledger.begin(payload, requirements))?.outcome).toBe("replay");
+  });
+
+  it("should filter listed records", async () => {
+    await ledger.begin(payload, requirements);
+
+    expect(await ledger.list({ status: "received" })).toHaveLength(1);
+    expect(await ledger.list({ status: "mined" })).toHaveLength(0);
+    expect(await ledger.list({ payer: "0x0000000000000000000000000000000000000001" })).toHaveLength(
+      0,
+    );
+    expect(await ledger.list({ payer: success.payer.toUpperCase() })).toHaveLength(1);
+  });
+});
+
+describe("ledger/file-store", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "ledger-test-"));
+    filePath = join(dir, "nested", "ledger.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should survive a restart and compact superseded lines", async () => {
+    const ledger = new SettlementLedger(new FileLedgerStore(filePath));
+    const begun = await ledger.begin(payload, requirements);
+    if (begun?.outcome !== "new") throw new Error("expected new");
+    await ledger.complete(begun.key, success);
+
+    expect(readFileSync(filePath, "utf8").trim().split("\n")).toHaveLength(2);
+
+    // Simulate a torn write from a crash
+    appendFileSync(filePath, '{"key": "broken');
+
+    const restarted = new SettlementLedger(new FileLedgerStore(filePath));
+    const replay = await restarted.begin(payload, requirements);
+
+    expect(replay?.outcome).toBe("replay");
+    expect(readFileSync(filePath, "utf8").trim().split("\n")).toHaveLength(1);
+  });
+});
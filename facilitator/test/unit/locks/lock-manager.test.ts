@@ -0,0 +1,195 @@
+/**
+ * Tests for locks/lock-manager.ts
+ *
+ * Tests lock acquisition, renewal and release with the memory and Redis stores
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  LockManager,
+  MemoryLockStore,
+  RedisLockStore,
+  createLockManager,
+  payerLockKey,
+  type LockStore,
+} from "../../../src/locks/index.js";
+import { EXTEND_SCRIPT, RELEASE_SCRIPT } from "../../../src/locks/redis-store.js";
+import { LockUnavailableError } from "../../../src/errors.js";
+import { startRespServer, type RespTestServer } from "../../utils/resp-server.js";
+
+const KEY = payerLockKey("base-sepolia", "0xABC");
+
+describe("locks/lock-manager", () => {
+  describe("with memory store", () => {
+    let store: MemoryLockStore;
+    let locks: LockManager;
+
+    beforeEach(() => {
+      store = new MemoryLockStore();
+      locks = new LockManager(store, { ttlMs: 1000 });
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      await locks.close();
+    });
+
+    it("should grant a lock to one holder at a time", async () => {
+      const [first, second] = await Promise.all([locks.tryAcquire(KEY), locks.tryAcquire(KEY)]);
+
+      expect(first?.key).toBe("payer:base-sepolia:0xabc");
+      expect(second).toBeUndefined();
+      expect(locks.getHeldCount()).toBe(1);
+
+      await first!.release();
+      expect(locks.getHeldCount()).toBe(0);
+      expect(await locks.tryAcquire(KEY)).toBeDefined();
+    });
+
+    it("should ignore a second release", async () => {
+      const lock = await locks.tryAcquire(KEY);
+      await lock!.release();
+      const next = await locks.tryAcquire(KEY);
+
+      await lock!.release();
+
+      expect(next).toBeDefined();
+      expect(locks.getHeldCount()).toBe(1);
+    });
+
+    it("should let a lock expire when its holder stops renewing it", async () => {
+      vi.useFakeTimers();
+      const crashed = new LockManager(store, { ttlMs: 1000, renewIntervalMs: 60_000 });
+      await crashed.tryAcquire(KEY);
+
+      vi.advanceTimersByTime(999);
+      expect(await locks.tryAcquire(KEY)).toBeUndefined();
+
+      vi.advanceTimersByTime(1);
+      expect(await locks.tryAcquire(KEY)).toBeDefined();
+    });
+
+    it("should renew held locks past their TTL", async () => {
+      vi.useFakeTimers();
+      await locks.tryAcquire(KEY);
+
+      await vi.advanceTimersByTimeAsync(5000);
+
+      const other = new LockManager(store, { ttlMs: 1000 });
+      expect(await other.tryAcquire(KEY)).toBeUndefined();
+    });
+
+    it("should stop renewing a lock held past the maximum hold time", async () => {
+      vi.useFakeTimers();
+      const stuck = new LockManager(store, { ttlMs: 1000, maxHoldMs: 3000 });
+      const lock = await stuck.tryAcquire(KEY);
+
+      await vi.advanceTimersByTimeAsync(3500);
+      expect(stuck.getHeldCount()).toBe(0);
+      expect(await locks.tryAcquire(KEY)).toBeUndefined();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      const next = await locks.tryAcquire(KEY);
+      expect(next).toBeDefined();
+
+      // The stuck settlement finishing later doesn't release the new holder's lock
+      await lock!.release();
+      expect(await stuck.tryAcquire(KEY)).toBeUndefined();
+    });
+
+    it("should release held locks on close", async () => {
+      await locks.tryAcquire(KEY);
+      await locks.close();
+
+      expect(locks.getHeldCount()).toBe(0);
+      expect(await store.acquire(KEY, "other", 1000)).toBe(true);
+    });
+
+    it("should fail closed when the store is unavailable", async () => {
+      const broken: LockStore = {
+        acquire: vi.fn().mockRejectedValue(new Error("ECONNREFUSED")),
+        extend: vi.fn(),
+        release: vi.fn(),
+        close: vi.fn(),
+      };
+      const manager = new LockManager(broken, { ttlMs: 1000 });
+
+      await expect(manager.tryAcquire(KEY)).rejects.toBeInstanceOf(LockUnavailableError);
+    });
+  });
+
+  describe("with Redis store", () => {
+    let server: RespTestServer;
+
+    beforeEach(async () => {
+      server = await startRespServer({
+        scripts: {
+          [EXTEND_SCRIPT]: ([key], [token, ttlMs], store) => {
+            const entry = store.get(key);
+            if (entry?.value !== token) return 0;
+            entry.expiresAt = Date.now() + Number(ttlMs);
+            return 1;
+          },
+          [RELEASE_SCRIPT]: ([key], [token], store) =>
+            store.get(key)?.value === token && store.delete(key) ? 1 : 0,
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    it("should share locks between replicas", async () => {
+      const replicaA = createLockManager({
+        backend: "redis",
+        redisUrl: server.url,
+        keyPrefix: "test:lock:",
+        ttlMs: 1000,
+      });
+      const replicaB = createLockManager({
+        backend: "redis",
+        redisUrl: server.url,
+        keyPrefix: "test:lock:",
+        ttlMs: 1000,
+      });
+
+      const lock = await replicaA.tryAcquire(KEY);
+      expect(lock).toBeDefined();
+      expect(server.store.get(`test:lock:${KEY}`)?.expiresAt).toBeGreaterThan(Date.now());
+      expect(await replicaB.tryAcquire(KEY)).toBeUndefined();
+
+      await lock!.release();
+      expect(server.store.has(`test:lock:${KEY}`)).toBe(false);
+      expect(await replicaB.tryAcquire(KEY)).toBeDefined();
+
+      await replicaA.close();
+      await replicaB.close();
+    });
+
+    it("should only extend and release locks it owns", async () => {
+      const store = new RedisLockStore({ redisUrl: server.url });
+
+      expect(await store.acquire(KEY, "owner", 1000)).toBe(true);
+      expect(await store.extend(KEY, "intruder", 5000)).toBe(false);
+      expect(await store.release(KEY, "intruder")).toBe(false);
+      expect(await store.extend(KEY, "owner", 5000)).toBe(true);
+      expect(await store.release(KEY, "owner")).toBe(true);
+
+      await store.close();
+    });
+
+    it("should report the store as unavailable when the server is down", async () => {
+      const locks = createLockManager({
+        backend: "redis",
+        redisUrl: server.url,
+        keyPrefix: "test:lock:",
+        ttlMs: 1000,
+      });
+      await server.close();
+
+      await expect(locks.tryAcquire(KEY)).rejects.toBeInstanceOf(LockUnavailableError);
+      await locks.close();
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Admin Authentication Middleware Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { randomUUID } from "crypto";
+import express from "express";
+import request from "supertest";
+import { createAdminAuth, signAdminRequest } from "../../../src/middleware/admin-auth.js";
+import { AdminAuditLog } from "../../../src/admin-audit.js";
+import type { AdminConfig } from "../../../src/config.js";
+import { MemoryCache } from "../../../src/cache/index.js";
+
+const OPERATOR_SECRET = "operator-secret-0123456789";
+const VIEWER_SECRET = "viewer-secret-0123456789";
+
+describe("Admin Authentication Middleware", () => {
+  let config: AdminConfig;
+  let auditLog: AdminAuditLog;
+  let usedNonces: MemoryCache;
+  let app: express.Express;
+
+  const buildApp = () => {
+    const auth = createAdminAuth(config, auditLog, usedNonces);
+    const server = express();
+    server.use(
+      express.json({
+        verify: (req, _res, buf) => {
+          (req as typeof req & { rawBody?: Buffer }).rawBody = buf;
+        },
+      }),
+    );
+    server.get("/view", auth.requireRole("viewer", "test.view"), (_req, res) => {
+      res.json({ actor: res.locals.admin.id });
+    });
+    server.post("/claim", auth.requireRole("operator", "test.claim"), (_req, res) => {
+      res.json({ actor: res.locals.admin.id, method: res.locals.admin.authMethod });
+    });
+    return server;
+  };
+
+  beforeEach(() => {
+    config = {
+      apiKeys: [
+        { id: "ops", role: "operator", secret: OPERATOR_SECRET },
+        { id: "dash", role: "viewer", secret: VIEWER_SECRET },
+      ],
+      signatureMaxSkewSeconds: 300,
+      auditLogSize: 10,
+    };
+    auditLog = new AdminAuditLog(config.auditLogSize);
+    usedNonces = new MemoryCache();
+    app = buildApp();
+  });
+
+  it("should reject all requests when no keys are configured", async () => {
+    config.apiKeys = [];
+    app = buildApp();
+
+    const response = await request(app)
+      .get("/view")
+      .set("Authorization", `Bearer ${VIEWER_SECRET}`);
+
+    expect(response.status).toBe(403);
+    expect(auditLog.list()[0].outcome).toBe("denied");
+  });
+
+  it("should reject requests without credentials", async () => {
+    const response = await request(app).get("/view");
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe("Missing admin credentials");
+  });
+
+  it("should reject an unknown bearer token", async () => {
+    const response = await request(app).get("/view").set("Authorization", "Bearer nope");
+
+    expect(response.status).toBe(401);
+    expect(auditLog.list()[0]).toMatchObject({ actor: "anonymous", outcome: "denied" });
+  });
+
+  it("should accept a valid bearer token with sufficient role", async () => {
+    const response = await request(app)
+      .get("/view")
+      .set("Authorization", `Bearer ${OPERATOR_SECRET}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.actor).toBe("ops");
+  });
+
+  it("should enforce role hierarchy", async () => {
+    const response = await request(app)
+      .post("/claim")
+      .set("Authorization", `Bearer ${VIEWER_SECRET}`)
+      .send({});
+
+    expect(response.status).toBe(403);
+    expect(auditLog.list()[0]).toMatchObject({
+      actor: "dash",
+      role: "viewer",
+      action: "test.claim",
+      outcome: "denied",
+    });
+  });
+
+  it("should accept a correctly signed request", async () => {
+    const body = JSON.stringify({ networks: ["base-sepolia"] });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = randomUUID();
+    const signature = signAdminRequest(OPERATOR_SECRET, timestamp, nonce, "POST", "/claim", body);
+
+    const response = await request(app)
+      .post("/claim")
+      .set("Content-Type", "application/json")
+      .set("X-Admin-Key-Id", "ops")
+      .set("X-Admin-Timestamp", timestamp)
+      .set("X-Admin-Nonce", nonce)
+      .set("X-Admin-Signature", signature)
+      .send(body);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ actor: "ops", method: "signature" });
+  });
+
+  it("should reject a signed request whose body was tampered with", async () => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = randomUUID();
+    const signature = signAdminRequest(OPERATOR_SECRET, timestamp, nonce, "POST", "/claim", "{}");
+
+    const response = await request(app)
+      .post("/claim")
+      .set("X-Admin-Key-Id", "ops")
+      .set("X-Admin-Timestamp", timestamp)
+      .set("X-Admin-Nonce", nonce)
+      .set("X-Admin-Signature", signature)
+      .send({ networks: ["base"] });
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe("Invalid request signature");
+  });
+
+  it("should reject a signed request with a stale timestamp", async () => {
+    const timestamp = String(Math.floor(Date.now() / 1000) - 3600);
+    const nonce = randomUUID();
+    const signature = signAdminRequest(OPERATOR_SECRET, timestamp, nonce, "GET", "/view", "");
+
+    const response = await request(app)
+      .get("/view")
+      .set("X-Admin-Key-Id", "ops")
+      .set("X-Admin-Timestamp", timestamp)
+      .set("X-Admin-Nonce", nonce)
+      .set("X-Admin-Signature", signature);
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe("Request timestamp outside allowed window");
+  });
+
+  describe("signed request nonces", () => {
+    /**
+     * Send a signed GET /view request
+     *
+     * @param nonce - X-Admin-Nonce value (omitted when undefined)
+     * @param target - App to send the request to
+     * @returns Response
+     */
+    const signedView = (nonce: string | undefined, target = app) => {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const signature = signAdminRequest(
+        OPERATOR_SECRET,
+        timestamp,
+        nonce ?? "",
+        "GET",
+        "/view",
+        "",
+      );
+      const pending = request(target)
+        .get("/view")
+        .set("X-Admin-Key-Id", "ops")
+        .set("X-Admin-Timestamp", timestamp)
+        .set("X-Admin-Signature", signature);
+      return nonce === undefined ? pending : pending.set("X-Admin-Nonce", nonce);
+    };
+
+    it("should reject a replayed request", async () => {
+      const nonce = randomUUID();
+
+      const first = await signedView(nonce);
+      const replay = await signedView(nonce);
+
+      expect(first.status).toBe(200);
+      expect(replay.status).toBe(401);
+      expect(replay.body.message).toBe("Request nonce already used");
+      expect(auditLog.list()[0]).toMatchObject({ actor: "ops", outcome: "denied" });
+    });
+
+    it("should reject a replay on another replica sharing the nonce store", async () => {
+      const nonce = randomUUID();
+      const otherReplica = buildApp();
+
+      expect((await signedView(nonce)).status).toBe(200);
+      expect((await signedView(nonce, otherReplica)).status).toBe(401);
+    });
+
+    it("should require a well-formed nonce", async () => {
+      const missing = await signedView(undefined);
+      const short = await signedView("abc");
+
+      expect(missing.status).toBe(401);
+      expect(missing.body.message).toContain("X-Admin-Nonce");
+      expect(short.status).toBe(401);
+      expect(short.body.message).toBe("X-Admin-Nonce must be 16 to 128 URL-safe characters");
+    });
+
+    it("should not use up the nonce of a request with an invalid signature", async () => {
+      const nonce = randomUUID();
+      const timestamp = String(Math.floor(Date.now() / 1000));
+
+      const forged = await request(app)
+        .get("/view")
+        .set("X-Admin-Key-Id", "ops")
+        .set("X-Admin-Timestamp", timestamp)
+        .set("X-Admin-Nonce", nonce)
+        .set("X-Admin-Signature", "00".repeat(32));
+      const genuine = await signedView(nonce);
+
+      expect(forged.status).toBe(401);
+      expect(genuine.status).toBe(200);
+    });
+
+    it("should fail closed when the nonce store is unavailable", async () => {
+      vi.spyOn(usedNonces, "increment").mockImplementation(() => {
+        throw new Error("Cache is full");
+      });
+
+      const response = await signedView(randomUUID());
+
+      expect(response.status).toBe(503);
+    });
+  });
+});
+
+describe("AdminAuditLog", () => {
+  it("should keep only the most recent entries, newest first", () => {
+    const log = new AdminAuditLog(2);
+    for (const actor of ["a", "b", "c"]) {
+      log.record({ actor, action: "fees.claim", route: "POST /claim-fees", outcome: "success" });
+    }
+
+    expect(log.size()).toBe(2);
+    expect(log.list().map((e) => e.actor)).toEqual(["c", "b"]);
+    expect(log.list(10, "b")).toHaveLength(1);
+  });
+});
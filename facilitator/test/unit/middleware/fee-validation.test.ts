@@ -13,6 +13,7 @@ import type { TokenPriceConfig } from "../../../src/token-price.js";
 import { calculateMinFacilitatorFee } from "../../../src/gas-cost.js";
 import { isSettlementMode } from "../../../src/settlement.js";
 import { DEFAULTS } from "../../../src/defaults.js";
+import { signFeeQuote, type FeeQuoteConfig } from "../../../src/fee-quote.js";
 
 // Mock dependencies
 vi.mock("../../../src/gas-cost.js", async () => {
@@ -25,7 +26,13 @@ vi.mock("../../../src/gas-cost.js", async () => {
 
 vi.mock("../../../src/settlement.js", () => ({
   isSettlementMode: vi.fn(),
-  validateTokenAddress: vi.fn(), // Mock the new function
+  validateTokenAddress: vi.fn(() => ({
+    symbol: "USDC",
+    address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    decimals: 6,
+    eip712: { name: "USDC", version: "2" },
+    priceSource: { type: "usd" },
+  })),
 }));
 
 vi.mock("@x402x/core", () => ({
@@ -526,4 +533,102 @@ describe("Fee Validation Middleware", () => {
       );
     });
   });
+
+  describe("Fee Quotes", () => {
+    const feeQuoteConfig: FeeQuoteConfig = {
+      enabled: true,
+      secret: "test-fee-quote-secret",
+      secretGenerated: false,
+      validitySeconds: 60,
+    };
+    const terms = {
+      network: "base-sepolia",
+      hook: "0x1234567890123456789012345678901234567890",
+      hookData: "0x",
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      fee: "1000000",
+    };
+
+    beforeEach(() => {
+      vi.mocked(isSettlementMode).mockReturnValue(true);
+      vi.mocked(calculateMinFacilitatorFee).mockResolvedValue({
+        minFacilitatorFee: "2000000", // Fee doubled since the quote was issued
+        minFacilitatorFeeUSD: "2.00",
+        gasLimit: 200000,
+        maxGasLimit: 500000,
+        gasPrice: "2000000000",
+        gasCostNative: "0.0012",
+        gasCostUSD: "3.60",
+        safetyMultiplier: 1.5,
+        finalCostUSD: "2.00",
+        hookAllowed: true,
+      });
+    });
+
+    it("should honour an unexpired quote without recalculating", async () => {
+      mockReq.body.paymentRequirements.extra.feeQuoteId = signFeeQuote(feeQuoteConfig, terms).id;
+
+      const middleware = createFeeValidationMiddleware(
+        config,
+        dynamicConfig,
+        tokenPriceConfig,
+        feeQuoteConfig,
+      );
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+      expect(calculateMinFacilitatorFee).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to recalculation for an expired quote", async () => {
+      mockReq.body.paymentRequirements.extra.feeQuoteId = signFeeQuote(
+        feeQuoteConfig,
+        terms,
+        Date.now() - 120_000,
+      ).id;
+
+      const middleware = createFeeValidationMiddleware(
+        config,
+        dynamicConfig,
+        tokenPriceConfig,
+        feeQuoteConfig,
+      );
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(calculateMinFacilitatorFee).toHaveBeenCalled();
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+    });
+
+    it("should not honour a quote for a different hook", async () => {
+      mockReq.body.paymentRequirements.extra.feeQuoteId = signFeeQuote(feeQuoteConfig, {
+        ...terms,
+        hook: "0x0000000000000000000000000000000000000001",
+      }).id;
+
+      const middleware = createFeeValidationMiddleware(
+        config,
+        dynamicConfig,
+        tokenPriceConfig,
+        feeQuoteConfig,
+      );
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(calculateMinFacilitatorFee).toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+    });
+
+    it("should ignore quotes when fee quotes are disabled", async () => {
+      mockReq.body.paymentRequirements.extra.feeQuoteId = signFeeQuote(feeQuoteConfig, terms).id;
+
+      const middleware = createFeeValidationMiddleware(config, dynamicConfig, tokenPriceConfig, {
+        ...feeQuoteConfig,
+        enabled: false,
+      });
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(calculateMinFacilitatorFee).toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+    });
+  });
 });
@@ -0,0 +1,95 @@
+/**
+ * Hook Validation Middleware Tests
+ *
+ * Tests the hook whitelist and hookData validation
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Request, Response, NextFunction } from "express";
+import { encodeAbiParameters } from "viem";
+import { createHookValidationMiddleware } from "../../../src/middleware/hook-validation.js";
+import type { GasCostConfig } from "../../../src/gas-cost.js";
+
+const NFT_MINT_HOOK = "0x261206558E6eEd104Cba4AD913b2Eec85D21108e";
+const CUSTOM_HOOK = "0x1111111111111111111111111111111111111111";
+
+describe("Hook Validation Middleware", () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+  let config: GasCostConfig;
+
+  const requestFor = (hook: string, hookData: string) => ({
+    body: {
+      paymentPayload: { payload: { authorization: { value: "1000000" } } },
+      paymentRequirements: {
+        network: "base-sepolia",
+        maxAmountRequired: "1000000",
+        extra: {
+          settlementRouter: "0x817e4f0ee2fbdaac426f1178e149f7dc98873ecb",
+          salt: "0x" + "00".repeat(32),
+          payTo: "0x74215d0c1b2a5e6f8b9c3d4e5f6a7b8c9d0e1f2a",
+          facilitatorFee: "10000",
+          hook,
+          hookData,
+        },
+      },
+    },
+  });
+
+  beforeEach(() => {
+    mockRes = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    mockNext = vi.fn();
+    config = {
+      hookWhitelistEnabled: false,
+      allowedHooks: {},
+    } as unknown as GasCostConfig;
+  });
+
+  it("should reject malformed NFTMintHook data before fee validation", async () => {
+    mockReq = requestFor(NFT_MINT_HOOK, "0x");
+
+    await createHookValidationMiddleware(config)(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockRes.status).toHaveBeenCalledWith(400);
+    expect(mockRes.json).toHaveBeenCalledWith({
+      error: "Invalid hook data",
+      message: "NFTMintHook requires hookData with nftContract",
+      hookType: "nft_mint",
+    });
+  });
+
+  it("should pass well-formed NFTMintHook data", async () => {
+    mockReq = requestFor(
+      NFT_MINT_HOOK,
+      encodeAbiParameters([{ type: "address" }], [CUSTOM_HOOK as `0x${string}`]),
+    );
+
+    await createHookValidationMiddleware(config)(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(mockRes.status).not.toHaveBeenCalled();
+  });
+
+  it("should pass unregistered hooks through to gas estimation", async () => {
+    mockReq = requestFor(CUSTOM_HOOK, "0xdeadbeef");
+
+    await createHookValidationMiddleware(config)(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+  });
+
+  it("should reject hooks outside the whitelist", async () => {
+    config.hookWhitelistEnabled = true;
+    config.allowedHooks = { "base-sepolia": [NFT_MINT_HOOK] };
+    mockReq = requestFor(CUSTOM_HOOK, "0x");
+
+    await createHookValidationMiddleware(config)(mockReq as Request, mockRes as Response, mockNext);
+
+    expect(mockRes.status).toHaveBeenCalledWith(403);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for network-health.ts
+ *
+ * Tests RPC reachability, chain ID, block age and gas balance probes
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseEther } from "viem";
+import {
+  NetworkHealthMonitor,
+  type NetworkProbeClient,
+  type ReadinessConfig,
+} from "../../src/network-health.js";
+
+const ACCOUNT_A = "0x1111111111111111111111111111111111111111";
+const ACCOUNT_B = "0x2222222222222222222222222222222222222222";
+const BASE_SEPOLIA_CHAIN_ID = 84532;
+
+describe("network-health", () => {
+  let client: { getChainId: any; getBlock: any; getBalance: any };
+  let config: ReadinessConfig;
+
+  const createMonitor = () =>
+    new NetworkHealthMonitor(
+      new Map([
+        [
+          "base-sepolia",
+          { getAccountsInfo: () => [{ address: ACCOUNT_A }, { address: ACCOUNT_B }] },
+        ],
+      ]),
+      config,
+      {},
+      () => client as unknown as NetworkProbeClient,
+    );
+
+  beforeEach(() => {
+    client = {
+      getChainId: vi.fn().mockResolvedValue(BASE_SEPOLIA_CHAIN_ID),
+      getBlock: vi.fn().mockResolvedValue({
+        number: 100n,
+        timestamp: BigInt(Math.floor(Date.now() / 1000) - 5),
+      }),
+      getBalance: vi.fn().mockResolvedValue(parseEther("1")),
+    };
+    config = {
+      enabled: true,
+      probeIntervalMs: 30000,
+      probeTimeoutMs: 5000,
+      maxBlockAgeSeconds: 120,
+      minGasBalance: { "base-sepolia": parseEther("0.01").toString() },
+    };
+  });
+
+  it("should report healthy networks", async () => {
+    const [health] = await createMonitor().getStatus();
+
+    expect(health).toMatchObject({
+      network: "base-sepolia",
+      status: "ok",
+      rpcReachable: true,
+      chainId: BASE_SEPOLIA_CHAIN_ID,
+      expectedChainId: BASE_SEPOLIA_CHAIN_ID,
+      blockNumber: "100",
+    });
+    expect(health.blockAgeSeconds).toBeLessThanOrEqual(120);
+    expect(health.accounts).toHaveLength(2);
+  });
+
+  it("should fail when the RPC is unreachable", async () => {
+    client.getChainId.mockRejectedValue(new Error("fetch failed"));
+
+    const [health] = await createMonitor().getStatus();
+
+    expect(health.status).toBe("error");
+    expect(health.rpcReachable).toBe(false);
+    expect(health.message).toBe("RPC unreachable: fetch failed");
+  });
+
+  it("should fail when the RPC serves another chain", async () => {
+    client.getChainId.mockResolvedValue(1);
+
+    const [health] = await createMonitor().getStatus();
+
+    expect(health.status).toBe("error");
+    expect(health.message).toBe(`RPC chain ID 1 does not match expected ${BASE_SEPOLIA_CHAIN_ID}`);
+  });
+
+  it("should fail when the latest block is stale", async () => {
+    client.getBlock.mockResolvedValue({
+      number: 100n,
+      timestamp: BigInt(Math.floor(Date.now() / 1000) - 600),
+    });
+
+    const [health] = await createMonitor().getStatus();
+
+    expect(health.status).toBe("error");
+    expect(health.message).toMatch(/^Latest block is \d+s old$/);
+  });
+
+  it("should warn when some accounts are below the gas floor", async () => {
+    client.getBalance.mockImplementation(async ({ address }: { address: string }) =>
+      address === ACCOUNT_A ? parseEther("0.001") : parseEther("1"),
+    );
+
+    const [health] = await createMonitor().getStatus();
+
+    expect(health.status).toBe("warning");
+    expect(health.accounts.find((account) => account.address === ACCOUNT_A)?.belowFloor).toBe(true);
+  });
+
+  it("should fail when every account is below the gas floor", async () => {
+    client.getBalance.mockResolvedValue(0n);
+
+    const [health] = await createMonitor().getStatus();
+
+    expect(health.status).toBe("error");
+    expect(health.message).toBe("All accounts are below the gas balance floor");
+  });
+
+  it("should reuse the latest probe results", async () => {
+    const monitor = createMonitor();
+
+    await monitor.getStatus();
+    await monitor.getStatus();
+
+    expect(client.getChainId).toHaveBeenCalledTimes(1);
+  });
+});
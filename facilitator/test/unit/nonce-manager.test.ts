@@ -0,0 +1,170 @@
+/**
+ * Tests for nonce-manager.ts
+ *
+ * Tests stuck transaction detection and fee-bumped replacement
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Hex, TransactionReceipt } from "viem";
+import {
+  NonceManager,
+  type NonceManagerClient,
+  type StuckTransactionConfig,
+} from "../../src/nonce-manager.js";
+import { NonceError, TransactionTimeoutError } from "../../src/errors.js";
+
+const ADDRESS = "0x1234567890123456789012345678901234567890";
+
+const config: StuckTransactionConfig = {
+  enabled: true,
+  timeoutMs: 20,
+  feeBumpPercent: 20,
+  maxReplacements: 2,
+  pollIntervalMs: 5,
+};
+
+/**
+ * Fake chain where transactions are mined only when the test says so
+ *
+ * @returns Fake client and helpers to drive it
+ */
+function createFakeChain() {
+  const sent: Array<Record<string, any>> = [];
+  const mined = new Set<Hex>();
+  const known = new Map<Hex, Record<string, any>>();
+  let confirmedNonce = 5;
+
+  const client: NonceManagerClient = {
+    send: vi.fn(async (request) => {
+      const hash = `0x${(sent.length + 1).toString(16).padStart(64, "0")}` as Hex;
+      sent.push(request);
+      known.set(hash, request);
+      return hash;
+    }),
+    waitForReceipt: vi.fn(async ({ hash }) => ({ transactionHash: hash }) as TransactionReceipt),
+    getTransactionCount: vi.fn(async ({ blockTag }) =>
+      blockTag === "pending" ? confirmedNonce + known.size : confirmedNonce,
+    ),
+    getTransaction: vi.fn(async ({ hash }) => {
+      const tx = known.get(hash);
+      if (!tx) throw new Error("TransactionNotFound");
+      return tx.maxFeePerGas
+        ? { maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas }
+        : { maxFeePerGas: 100n, maxPriorityFeePerGas: 10n };
+    }),
+    getTransactionReceipt: vi.fn(async ({ hash }) => {
+      if (!mined.has(hash)) throw new Error("TransactionReceiptNotFound");
+      return { transactionHash: hash, status: "success" } as TransactionReceipt;
+    }),
+  };
+
+  return {
+    client,
+    sent,
+    known,
+    mine: (hash: Hex) => mined.add(hash),
+    consumeNonce: () => confirmedNonce++,
+  };
+}
+
+describe("nonce-manager", () => {
+  let chain: ReturnType<typeof createFakeChain>;
+  let manager: NonceManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    chain = createFakeChain();
+    manager = new NonceManager(ADDRESS, "base-sepolia", chain.client, config, async () => 150n);
+  });
+
+  it("should assign the pending nonce and track the transaction", async () => {
+    const hash = await manager.sendTransaction({ to: ADDRESS, data: "0x" });
+
+    expect(chain.sent[0].nonce).toBe(5);
+    expect(manager.getInFlight()).toEqual([
+      expect.objectContaining({ nonce: 5, hash, replacements: 0 }),
+    ]);
+
+    chain.mine(hash);
+    const receipt = await manager.waitForTransactionReceipt({ hash });
+
+    expect(receipt.transactionHash).toBe(hash);
+    expect(manager.getInFlight()).toEqual([]);
+  });
+
+  it("should replace a stuck transaction with the same nonce and bumped fees", async () => {
+    const hash = await manager.sendTransaction({ to: ADDRESS, data: "0x" });
+    const waiting = manager.waitForTransactionReceipt({ hash });
+
+    await vi.waitFor(() => expect(chain.sent).toHaveLength(2), { timeout: 1000, interval: 5 });
+    const replacement = chain.sent[1];
+    expect(replacement.nonce).toBe(5);
+    expect(replacement.maxPriorityFeePerGas).toBe(12n); // 10 * 1.2
+    expect(replacement.maxFeePerGas).toBe(162n); // max(100 * 1.2, 150 + 12)
+
+    const replacementHash = manager.getInFlight()[0].hash;
+    chain.mine(replacementHash);
+
+    const receipt = await waiting;
+    expect(receipt.transactionHash).toBe(replacementHash);
+  });
+
+  it("should rebroadcast dropped transactions", async () => {
+    const hash = await manager.sendTransaction({ to: ADDRESS, data: "0x" });
+    chain.known.delete(hash);
+
+    const waiting = manager.waitForTransactionReceipt({ hash });
+    await vi.waitFor(() => expect(chain.sent).toHaveLength(2), { timeout: 1000, interval: 5 });
+    chain.mine(manager.getInFlight()[0].hash);
+    await waiting;
+
+    expect(chain.sent[1].gasPrice).toBe(150n);
+  });
+
+  it("should give up after the maximum number of replacements", async () => {
+    const hash = await manager.sendTransaction({ to: ADDRESS, data: "0x" });
+
+    await expect(manager.waitForTransactionReceipt({ hash })).rejects.toBeInstanceOf(
+      TransactionTimeoutError,
+    );
+    expect(chain.sent).toHaveLength(3);
+    expect(manager.getInFlight()).toEqual([]);
+  });
+
+  it("should fail when the nonce is consumed by an unknown transaction", async () => {
+    const hash = await manager.sendTransaction({ to: ADDRESS, data: "0x" });
+    chain.consumeNonce();
+
+    await expect(manager.waitForTransactionReceipt({ hash })).rejects.toBeInstanceOf(NonceError);
+  });
+
+  it("should reuse the nonce of a send that failed", async () => {
+    vi.mocked(chain.client.send).mockRejectedValueOnce(new Error("insufficient funds for gas"));
+
+    await expect(manager.sendTransaction({ to: ADDRESS, data: "0x" })).rejects.toThrow(
+      "insufficient funds",
+    );
+    await manager.sendTransaction({ to: ADDRESS, data: "0x" });
+
+    expect(chain.sent.map((request) => request.nonce)).toEqual([5]);
+    expect(manager.getInFlight()).toEqual([expect.objectContaining({ nonce: 5 })]);
+  });
+
+  it("should not assign the nonce of a send still in progress", async () => {
+    await Promise.all([
+      manager.sendTransaction({ to: ADDRESS, data: "0x" }),
+      manager.sendTransaction({ to: ADDRESS, data: "0x" }),
+    ]);
+
+    expect(chain.sent.map((request) => request.nonce)).toEqual([5, 6]);
+  });
+
+  it("should pass through transactions it does not manage", async () => {
+    await manager.sendTransaction({ to: ADDRESS, data: "0x", nonce: 42 });
+    await manager.waitForTransactionReceipt({ hash: "0xabc" });
+
+    expect(chain.sent[0].nonce).toBe(42);
+    expect(chain.client.waitForReceipt).toHaveBeenCalledWith({ hash: "0xabc" });
+    expect(manager.getInFlight()).toEqual([]);
+  });
+});
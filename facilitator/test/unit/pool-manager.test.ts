@@ -15,6 +15,8 @@ vi.mock("../../src/account-pool.js", () => {
     getAccountsInfo: vi.fn(() => []),
     getTotalProcessed: vi.fn(() => 0),
     execute: vi.fn(async (fn) => fn({ account: { address: "0xmock" } })),
+    addAccount: vi.fn(() => true),
+    removeAccount: vi.fn(async () => true),
   };
 
   return {
@@ -157,6 +159,59 @@ describe("pool-manager", () => {
       });
     });
 
+    describe("updating private keys", () => {
+      const KEY_1 = "0x0000000000000000000000000000000000000000000000000000000000000001";
+      const KEY_2 = "0x0000000000000000000000000000000000000000000000000000000000000002";
+
+      it("should add new keys and remove dropped ones in every pool", async () => {
+        const manager = await createPoolManager(
+          [KEY_1],
+          {
+            evmNetworks: ["base-sepolia"],
+          },
+          { strategy: "round_robin" },
+        );
+        const pool = manager.getPool("base-sepolia")!;
+
+        await manager.updatePrivateKeys([KEY_2]);
+
+        expect(pool.addAccount).toHaveBeenCalledWith(KEY_2);
+        expect(pool.removeAccount).toHaveBeenCalledWith(
+          "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf",
+        );
+        expect(manager.getEvmAccountCount()).toBe(1);
+      });
+
+      it("should create pools when the first keys are added", async () => {
+        const manager = await createPoolManager(
+          [],
+          {
+            evmNetworks: ["base-sepolia"],
+          },
+          { strategy: "round_robin" },
+        );
+
+        await manager.updatePrivateKeys([KEY_1]);
+
+        expect(manager.getPool("base-sepolia")).toBeDefined();
+      });
+
+      it("should reject removing every key", async () => {
+        const manager = await createPoolManager(
+          [KEY_1],
+          {
+            evmNetworks: ["base-sepolia"],
+          },
+          { strategy: "round_robin" },
+        );
+
+        await expect(manager.updatePrivateKeys([])).rejects.toThrow(
+          "At least one EVM private key is required",
+        );
+        expect(manager.getEvmAccountCount()).toBe(1);
+      });
+    });
+
     describe("error handling", () => {
       it("should handle pool creation failures gracefully", async () => {
         // Mock AccountPool.create to throw error
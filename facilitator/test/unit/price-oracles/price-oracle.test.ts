@@ -0,0 +1,137 @@
+/**
+ * Tests for price-oracles/price-oracle.ts
+ *
+ * Tests source aggregation, staleness limits and deviation alarms
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PriceOracle, type PriceOracleOptions } from "../../../src/price-oracles/price-oracle.js";
+import type { PriceQuote, PriceSource } from "../../../src/price-oracles/interface.js";
+import { emitAlert } from "../../../src/telemetry.js";
+
+/**
+ * Create a source returning a fixed quote
+ *
+ * @param name - Source name
+ * @param quote - Quote to return (null = network not covered, Error = failure)
+ * @returns Price source
+ */
+function source(name: string, quote: Partial<PriceQuote> | null | Error): PriceSource {
+  return {
+    name,
+    getPrice: vi.fn(async () => {
+      if (quote instanceof Error) throw quote;
+      return quote && { price: 3000, updatedAt: Date.now(), source: name, ...quote };
+    }),
+  };
+}
+
+describe("price-oracles/price-oracle", () => {
+  let options: PriceOracleOptions;
+
+  beforeEach(() => {
+    vi.mocked(emitAlert).mockClear();
+    options = {
+      aggregation: "priority",
+      maxPriceAgeSeconds: 600,
+      maxDeviationPercent: 5,
+      sourceTimeoutMs: 1000,
+    };
+  });
+
+  it("should use the first fresh source in priority mode", async () => {
+    const oracle = new PriceOracle(
+      [source("coingecko", { price: 3000 }), source("chainlink", { price: 3010 })],
+      options,
+    );
+
+    const result = await oracle.getPrice("base");
+
+    expect(result.price).toBe(3000);
+    expect(result.source).toBe("coingecko");
+    expect(result.quotes).toHaveLength(2);
+  });
+
+  it("should fall through failing, uncovered and stale sources", async () => {
+    const oracle = new PriceOracle(
+      [
+        source("coingecko", new Error("429 Too Many Requests")),
+        source("twap", null),
+        source("chainlink", { price: 2900, updatedAt: Date.now() - 3600_000 }),
+        source("static", { price: 3100 }),
+      ],
+      options,
+    );
+
+    const result = await oracle.getPrice("base");
+
+    expect(result.source).toBe("static");
+    expect(result.quotes).toHaveLength(1);
+  });
+
+  it("should take the median in median mode", async () => {
+    options.aggregation = "median";
+    const oracle = new PriceOracle(
+      [
+        source("coingecko", { price: 3000 }),
+        source("chainlink", { price: 3020 }),
+        source("twap", { price: 3010 }),
+      ],
+      options,
+    );
+
+    const result = await oracle.getPrice("base");
+
+    expect(result.price).toBe(3010);
+    expect(result.source).toBe("median");
+  });
+
+  it("should alert when sources deviate beyond the limit", async () => {
+    const oracle = new PriceOracle(
+      [source("coingecko", { price: 3000 }), source("chainlink", { price: 3600 })],
+      options,
+    );
+
+    const result = await oracle.getPrice("base");
+
+    expect(result.deviationPercent).toBeCloseTo(9.09, 1);
+    expect(emitAlert).toHaveBeenCalledWith(
+      "price_deviation",
+      expect.any(String),
+      expect.objectContaining({ network: "base", quotes: "coingecko=3000,chainlink=3600" }),
+    );
+  });
+
+  it("should not alert within the deviation limit", async () => {
+    const oracle = new PriceOracle(
+      [source("coingecko", { price: 3000 }), source("chainlink", { price: 3030 })],
+      options,
+    );
+
+    await oracle.getPrice("base");
+
+    expect(emitAlert).not.toHaveBeenCalled();
+  });
+
+  it("should time out slow sources", async () => {
+    options.sourceTimeoutMs = 20;
+    const slow: PriceSource = {
+      name: "coingecko",
+      getPrice: () => new Promise(() => {}),
+    };
+    const oracle = new PriceOracle([slow, source("static", { price: 3100 })], options);
+
+    const result = await oracle.getPrice("base");
+
+    expect(result.source).toBe("static");
+  });
+
+  it("should throw when no source has a fresh price", async () => {
+    const oracle = new PriceOracle(
+      [source("coingecko", new Error("down")), source("chainlink", null)],
+      options,
+    );
+
+    await expect(oracle.getPrice("base")).rejects.toThrow("No fresh price available for base");
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for price-oracles sources
+ *
+ * Tests the CoinGecko, Chainlink, DEX TWAP and static price sources
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ChainlinkPriceSource,
+  CoinGeckoPriceSource,
+  DexTwapPriceSource,
+  StaticPriceSource,
+  createPriceOracle,
+} from "../../../src/price-oracles/index.js";
+
+const FEED = "0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70";
+const POOL = "0xd0b53D9277642d899DF5C87A3966A349A798F224";
+const WETH = "0x4200000000000000000000000000000000000006";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+describe("price-oracles sources", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("CoinGeckoPriceSource", () => {
+    it("should fetch the coin price with its update time", async () => {
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        json: async () => ({ binancecoin: { usd: 600, last_updated_at: 1700000000 } }),
+      }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const quote = await new CoinGeckoPriceSource().getPrice("bsc");
+
+      expect(quote).toEqual({ price: 600, updatedAt: 1700000000000, source: "coingecko" });
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.stringContaining("ids=binancecoin"),
+        expect.anything(),
+      );
+    });
+
+    it("should skip networks without a coin ID", async () => {
+      await expect(new CoinGeckoPriceSource().getPrice("unknown")).resolves.toBeNull();
+    });
+  });
+
+  describe("ChainlinkPriceSource", () => {
+    it("should scale the latest answer by the feed decimals", async () => {
+      const updatedAt = BigInt(Math.floor(Date.now() / 1000));
+      const readContract = vi.fn(async ({ functionName }: { functionName: string }) =>
+        functionName === "decimals" ? 8 : [1n, 301234000000n, updatedAt, updatedAt, 1n],
+      );
+      const getClient = vi.fn(async () => ({ readContract }) as any);
+      const source = new ChainlinkPriceSource(
+        { "base-sepolia": { address: FEED, network: "base" } },
+        getClient,
+      );
+
+      const quote = await source.getPrice("base-sepolia");
+
+      expect(getClient).toHaveBeenCalledWith("base");
+      expect(quote).toEqual({
+        price: 3012.34,
+        updatedAt: Number(updatedAt) * 1000,
+        source: "chainlink",
+      });
+      expect(await source.getPrice("base")).toBeNull();
+    });
+
+    it("should reject non-positive answers", async () => {
+      const readContract = vi.fn(async ({ functionName }: { functionName: string }) =>
+        functionName === "decimals" ? 8 : [1n, 0n, 0n, 0n, 1n],
+      );
+      const source = new ChainlinkPriceSource(
+        { base: { address: FEED, network: "base" } },
+        async () => ({ readContract }) as any,
+      );
+
+      await expect(source.getPrice("base")).rejects.toThrow("non-positive answer");
+    });
+  });
+
+  describe("DexTwapPriceSource", () => {
+    /**
+     * Create a fake pool client
+     *
+     * @param averageTick - Average tick over the window
+     * @returns Read client
+     */
+    const poolClient = (averageTick: number) => ({
+      readContract: vi.fn(
+        async ({
+          address,
+          functionName,
+        }: {
+          address: string;
+          functionName: string;
+          args?: unknown[];
+        }) => {
+          switch (functionName) {
+            case "token0":
+              return WETH;
+            case "token1":
+              return USDC;
+            case "decimals":
+              return address === WETH ? 18 : 6;
+            case "observe":
+              return [[0n, BigInt(averageTick * 1800)], []];
+          }
+        },
+      ),
+    });
+
+    it("should convert the average tick to a USD price", async () => {
+      // 1.0001^-196257 * 1e12 ~= 3000 USDC per WETH
+      const source = new DexTwapPriceSource(
+        { base: { pool: POOL, quoteToken: USDC, network: "base", windowSeconds: 1800 } },
+        async () => poolClient(-196257) as any,
+      );
+
+      const quote = await source.getPrice("base");
+
+      expect(quote?.price).toBeGreaterThan(2990);
+      expect(quote?.price).toBeLessThan(3010);
+      expect(quote?.source).toBe("twap");
+    });
+
+    it("should reject pools without the quote token", async () => {
+      const source = new DexTwapPriceSource(
+        { base: { pool: POOL, quoteToken: FEED, network: "base", windowSeconds: 1800 } },
+        async () => poolClient(-196257) as any,
+      );
+
+      await expect(source.getPrice("base")).rejects.toThrow("does not contain quote token");
+    });
+  });
+
+  describe("StaticPriceSource", () => {
+    it("should return configured prices", async () => {
+      const source = new StaticPriceSource({ base: 3000 });
+
+      expect((await source.getPrice("base"))?.price).toBe(3000);
+      expect(await source.getPrice("bsc")).toBeNull();
+    });
+  });
+
+  describe("createPriceOracle", () => {
+    it("should build sources in the configured order", async () => {
+      const oracle = createPriceOracle({
+        sources: ["static"],
+        aggregation: "priority",
+        maxPriceAgeSeconds: 600,
+        maxDeviationPercent: 5,
+        sourceTimeoutMs: 1000,
+        coinIds: {},
+        chainlinkFeeds: {},
+        twapPools: {},
+        staticPrices: { base: 3000 },
+      });
+
+      await expect(oracle.getPrice("base")).resolves.toMatchObject({
+        price: 3000,
+        source: "static",
+      });
+    });
+  });
+});
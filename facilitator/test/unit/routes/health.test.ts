@@ -36,6 +36,8 @@ describe("routes/health", () => {
           ksize: 1000,
           vsize: 5000,
         })),
+        ping: vi.fn(async () => true),
+        hasCheapStats: vi.fn(() => true),
       } as any,
       allowedSettlementRouters: {
         "base-sepolia": ["0xrouter"],
@@ -103,6 +105,26 @@ describe("routes/health", () => {
       expect(response.body.checks.cache.hitRate).toBe("83.33%");
     });
 
+    it("should ping a remote cache without reading its stats", async () => {
+      vi.mocked(mockDeps.tokenCache!.hasCheapStats).mockReturnValue(false);
+
+      const response = await request(app).get("/ready");
+
+      expect(response.body.checks.cache.status).toBe("ok");
+      expect(response.body.checks.cache.hits).toBeUndefined();
+      expect(mockDeps.tokenCache!.ping).toHaveBeenCalled();
+      expect(mockDeps.tokenCache!.getStats).not.toHaveBeenCalled();
+    });
+
+    it("should report an unreachable cache as a warning", async () => {
+      vi.mocked(mockDeps.tokenCache!.ping).mockResolvedValue(false);
+
+      const response = await request(app).get("/ready");
+
+      expect(response.status).toBe(200);
+      expect(response.body.checks.cache.status).toBe("warning");
+    });
+
     it("should check cache status when disabled", async () => {
       mockDeps.tokenCache = undefined;
 
@@ -152,6 +174,55 @@ describe("routes/health", () => {
       expect(response.body.checks.activeRequests.message).toContain("5");
     });
 
+    it("should skip network checks when not configured", async () => {
+      const response = await request(app).get("/ready");
+
+      expect(response.body.checks.networks).toBeUndefined();
+    });
+
+    it("should return error when a network is unhealthy", async () => {
+      mockDeps.networkHealth = {
+        getStatus: vi.fn(async () => [
+          {
+            network: "base-sepolia",
+            status: "error" as const,
+            message: "RPC unreachable: fetch failed",
+            rpcReachable: false,
+            minGasBalance: "0",
+            accounts: [],
+            checkedAt: new Date().toISOString(),
+          },
+        ]),
+      };
+
+      const response = await request(app).get("/ready");
+
+      expect(response.status).toBe(503);
+      expect(response.body.checks.networks.status).toBe("error");
+      expect(response.body.checks.networks.message).toContain("base-sepolia");
+      expect(response.body.checks.networks.evm[0].rpcReachable).toBe(false);
+    });
+
+    it("should stay ready when accounts are low on gas", async () => {
+      mockDeps.networkHealth = {
+        getStatus: vi.fn(async () => [
+          {
+            network: "base-sepolia",
+            status: "warning" as const,
+            rpcReachable: true,
+            minGasBalance: "1000",
+            accounts: [{ address: "0xabc", balance: "10", belowFloor: true }],
+            checkedAt: new Date().toISOString(),
+          },
+        ]),
+      };
+
+      const response = await request(app).get("/ready");
+
+      expect(response.status).toBe(200);
+      expect(response.body.checks.networks.status).toBe("warning");
+    });
+
     it("should include timestamp in response", async () => {
       const response = await request(app).get("/ready");
 
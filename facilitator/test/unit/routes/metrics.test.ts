@@ -0,0 +1,86 @@
+/**
+ * Tests for routes/metrics.ts
+ *
+ * Tests the Prometheus scrape endpoint and text format rendering
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { MeterProvider } from "@opentelemetry/sdk-metrics";
+import { createMetricsRoutes } from "../../../src/routes/metrics.js";
+import { PrometheusMetricReader } from "../../../src/prometheus.js";
+
+describe("routes/metrics", () => {
+  let reader: PrometheusMetricReader;
+  let provider: MeterProvider;
+  let app: express.Application;
+
+  beforeEach(() => {
+    reader = new PrometheusMetricReader();
+    provider = new MeterProvider({ readers: [reader] });
+    app = express();
+    app.use(createMetricsRoutes({ prometheusReader: reader }));
+  });
+
+  afterEach(async () => {
+    await provider.shutdown();
+  });
+
+  it("should render counters with their attributes as labels", async () => {
+    const meter = provider.getMeter("test");
+    meter
+      .createCounter("facilitator.settle.total")
+      .add(2, { network: "base-sepolia", mode: "router" });
+    meter
+      .createCounter("facilitator.settle.total")
+      .add(1, { network: "base-sepolia", mode: "router" });
+    meter.createCounter("facilitator.account.queue_depth").add(3, { account: 'a"b' });
+
+    const response = await request(app).get("/metrics");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toContain("version=0.0.4");
+    expect(response.text).toContain("# TYPE facilitator_settle_total counter");
+    expect(response.text).toContain(
+      'facilitator_settle_total{network="base-sepolia",mode="router"} 3',
+    );
+    expect(response.text).toContain('facilitator_account_queue_depth{account="a\\"b"} 3');
+  });
+
+  it("should render histograms as cumulative buckets", async () => {
+    const histogram = provider.getMeter("test").createHistogram("facilitator.settle.duration_ms");
+    histogram.record(3, { network: "base-sepolia" });
+    histogram.record(40, { network: "base-sepolia" });
+    histogram.record(20000, { network: "base-sepolia" });
+
+    const response = await request(app).get("/metrics");
+
+    expect(response.text).toContain("# TYPE facilitator_settle_duration_ms histogram");
+    expect(response.text).toContain(
+      'facilitator_settle_duration_ms_bucket{network="base-sepolia",le="5"} 1',
+    );
+    expect(response.text).toContain(
+      'facilitator_settle_duration_ms_bucket{network="base-sepolia",le="50"} 2',
+    );
+    expect(response.text).toContain(
+      'facilitator_settle_duration_ms_bucket{network="base-sepolia",le="+Inf"} 3',
+    );
+    expect(response.text).toContain(
+      'facilitator_settle_duration_ms_sum{network="base-sepolia"} 20043',
+    );
+    expect(response.text).toContain(
+      'facilitator_settle_duration_ms_count{network="base-sepolia"} 3',
+    );
+  });
+
+  it("should return 404 when Prometheus metrics are disabled", async () => {
+    const disabled = express();
+    disabled.use(createMetricsRoutes({ prometheusReader: null }));
+
+    const response = await request(disabled).get("/metrics");
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toBe("Not found");
+  });
+});
@@ -7,7 +7,14 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import express from "express";
 import request from "supertest";
+import { settle } from "x402/facilitator";
 import { createSettleRoutes, type SettleRouteDependencies } from "../../../src/routes/settle.js";
+import { isAuthorizationSigned, settleWithRouter } from "../../../src/settlement.js";
+import { MemoryLedgerStore, SettlementLedger } from "../../../src/ledger/index.js";
+import { createSettlementJobManager } from "../../../src/settlement-jobs.js";
+import { LockManager, MemoryLockStore } from "../../../src/locks/index.js";
+import { SpendPolicy } from "../../../src/spend-policy.js";
+import { MemoryCache } from "../../../src/cache/index.js";
 import {
   createMockPaymentPayload,
   createMockPaymentRequirements,
@@ -26,6 +33,7 @@ vi.mock("x402/facilitator", () => ({
 
 // Mock settlement module
 vi.mock("../../../src/settlement.js", () => ({
+  isAuthorizationSigned: vi.fn(async () => true),
   isSettlementMode: vi.fn((pr) => !!pr.extra?.settlementRouter),
   settleWithRouter: vi.fn(async () => ({
     success: true,
@@ -35,6 +43,44 @@ vi.mock("../../../src/settlement.js", () => ({
   })),
 }));
 
+/**
+ * Schema-valid settle body (the shared fixtures predate the current x402 schema)
+ *
+ * @returns Settle request body for a settlement router payment
+ */
+function createValidSettleBody() {
+  return {
+    paymentPayload: {
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: {
+        signature: "0x" + "11".repeat(65),
+        authorization: {
+          from: "0x1234567890123456789012345678901234567890",
+          to: "0x32431D4511e061F1133520461B07eC42afF157D6",
+          value: "1000000",
+          validAfter: "0",
+          validBefore: String(Math.floor(Date.now() / 1000) + 3600),
+          nonce: "0x" + "01".repeat(32),
+        },
+      },
+    },
+    paymentRequirements: {
+      scheme: "exact",
+      network: "base-sepolia",
+      maxAmountRequired: "1000000",
+      resource: "https://example.com/api",
+      description: "test",
+      mimeType: "application/json",
+      payTo: "0x32431D4511e061F1133520461B07eC42afF157D6",
+      maxTimeoutSeconds: 60,
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      extra: createMockSettlementRouterPaymentRequirements().extra,
+    },
+  };
+}
+
 describe("routes/settle", () => {
   let app: express.Application;
   let mockDeps: SettleRouteDependencies;
@@ -208,5 +254,402 @@ describe("routes/settle", () => {
         expect(response.status).toBe(400);
       });
     });
+
+    describe("settlement ledger", () => {
+      it("should replay a settled authorization without settling again", async () => {
+        const ledgerApp = express();
+        ledgerApp.use(express.json());
+        ledgerApp.use(
+          createSettleRoutes(
+            { ...mockDeps, settlementLedger: new SettlementLedger(new MemoryLedgerStore()) },
+            (_req: any, _res: any, next: any) => next(),
+          ),
+        );
+        const body = createValidSettleBody();
+
+        const first = await request(ledgerApp).post("/settle").send(body);
+        const second = await request(ledgerApp).post("/settle").send(body);
+
+        expect(first.status).toBe(200);
+        expect(first.headers["x-settlement-replay"]).toBeUndefined();
+        expect(second.status).toBe(200);
+        expect(second.headers["x-settlement-replay"]).toBe("true");
+        expect(second.body).toEqual(first.body);
+        expect(settleWithRouter).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("settlement locks", () => {
+      it("should reject an authorization already being settled by another replica", async () => {
+        const store = new MemoryLockStore();
+        const replicas = [1, 2].map(() => {
+          const replica = express();
+          replica.use(express.json());
+          replica.use(
+            createSettleRoutes(
+              { ...mockDeps, locks: new LockManager(store, { ttlMs: 10_000 }) },
+              (_req: any, _res: any, next: any) => next(),
+            ),
+          );
+          return replica;
+        });
+
+        let confirm: () => void = () => undefined;
+        vi.mocked(settleWithRouter).mockImplementationOnce(async () => {
+          await new Promise<void>((resolve) => (confirm = resolve));
+          return {
+            success: true,
+            transaction: "0xroutertxhash",
+            payer: "0xpayer",
+            network: "base-sepolia",
+          } as any;
+        });
+
+        const body = createValidSettleBody();
+        const first = request(replicas[0])
+          .post("/settle")
+          .send(body)
+          .then((res) => res);
+        await vi.waitFor(() => expect(settleWithRouter).toHaveBeenCalledTimes(1));
+
+        const duplicate = await request(replicas[1]).post("/settle").send(body);
+        expect(duplicate.status).toBe(409);
+        expect(duplicate.body.error).toBe("Settlement in progress");
+
+        confirm();
+        expect((await first).status).toBe(200);
+
+        // Lock is released once the settlement finishes
+        const retry = await request(replicas[1]).post("/settle").send(body);
+        expect(retry.status).toBe(200);
+      });
+
+      it("should not let an unsigned payload hold the lock or ledger entry", async () => {
+        const lockApp = express();
+        lockApp.use(express.json());
+        lockApp.use(
+          createSettleRoutes(
+            {
+              ...mockDeps,
+              locks: new LockManager(new MemoryLockStore(), { ttlMs: 10_000 }),
+              settlementLedger: new SettlementLedger(new MemoryLedgerStore()),
+            },
+            (_req: any, _res: any, next: any) => next(),
+          ),
+        );
+        vi.mocked(isAuthorizationSigned).mockResolvedValueOnce(false);
+
+        const forged = await request(lockApp).post("/settle").send(createValidSettleBody());
+        const genuine = await request(lockApp).post("/settle").send(createValidSettleBody());
+
+        expect(forged.status).toBe(200);
+        expect(forged.body).toMatchObject({
+          success: false,
+          errorReason: "invalid_exact_evm_payload_signature",
+        });
+        expect(genuine.status).toBe(200);
+        expect(genuine.headers["x-settlement-replay"]).toBeUndefined();
+        expect(genuine.body.success).toBe(true);
+        expect(settleWithRouter).toHaveBeenCalledTimes(1);
+      });
+
+      it("should return 503 when the lock store is unavailable", async () => {
+        const lockApp = express();
+        lockApp.use(express.json());
+        lockApp.use(
+          createSettleRoutes(
+            {
+              ...mockDeps,
+              locks: new LockManager(
+                {
+                  acquire: vi.fn().mockRejectedValue(new Error("ECONNREFUSED")),
+                  extend: vi.fn(),
+                  release: vi.fn(),
+                  close: vi.fn(),
+                },
+                { ttlMs: 10_000 },
+              ),
+            },
+            (_req: any, _res: any, next: any) => next(),
+          ),
+        );
+
+        const response = await request(lockApp).post("/settle").send(createValidSettleBody());
+
+        expect(response.status).toBe(503);
+        expect(settleWithRouter).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("spend policy", () => {
+      /**
+       * Create an app enforcing a spend policy
+       *
+       * @param policy - Spend policy
+       * @returns Express app
+       */
+      function createPolicyApp(policy: SpendPolicy) {
+        const policyApp = express();
+        policyApp.use(express.json());
+        policyApp.use(
+          createSettleRoutes(
+            { ...mockDeps, spendPolicy: policy },
+            (_req: any, _res: any, next: any) => next(),
+          ),
+        );
+        return policyApp;
+      }
+
+      it("should reject denylisted payers without settling", async () => {
+        const policyApp = createPolicyApp(
+          new SpendPolicy(
+            {
+              denylist: ["0x1234567890123456789012345678901234567890"],
+              volumeWindowSeconds: 86400,
+              velocityWindowSeconds: 3600,
+            },
+            new MemoryCache(),
+          ),
+        );
+
+        const response = await request(policyApp).post("/settle").send(createValidSettleBody());
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({
+          success: false,
+          errorReason: "payer_denylisted",
+        });
+        expect(settleWithRouter).not.toHaveBeenCalled();
+      });
+
+      it("should count settled payments towards payer velocity", async () => {
+        const policyApp = createPolicyApp(
+          new SpendPolicy(
+            {
+              denylist: [],
+              payerMaxPayments: 1,
+              volumeWindowSeconds: 86400,
+              velocityWindowSeconds: 3600,
+            },
+            new MemoryCache(),
+          ),
+        );
+
+        const first = await request(policyApp).post("/settle").send(createValidSettleBody());
+        const second = await request(policyApp).post("/settle").send(createValidSettleBody());
+
+        expect(first.body.success).toBe(true);
+        expect(second.body).toMatchObject({
+          success: false,
+          errorReason: "payer_velocity_limit_exceeded",
+        });
+        expect(settleWithRouter).toHaveBeenCalledTimes(1);
+      });
+
+      it("should release the reservation when settlement fails", async () => {
+        const policyApp = createPolicyApp(
+          new SpendPolicy(
+            {
+              denylist: [],
+              payerMaxPayments: 1,
+              volumeWindowSeconds: 86400,
+              velocityWindowSeconds: 3600,
+            },
+            new MemoryCache(),
+          ),
+        );
+        vi.mocked(settleWithRouter).mockResolvedValueOnce({
+          success: false,
+          transaction: "0xreverted",
+          network: "base-sepolia",
+          payer: "0x1234567890123456789012345678901234567890",
+          errorReason: "invalid_transaction_state",
+        } as any);
+
+        const failed = await request(policyApp).post("/settle").send(createValidSettleBody());
+        const retried = await request(policyApp).post("/settle").send(createValidSettleBody());
+
+        expect(failed.body.success).toBe(false);
+        expect(retried.body.success).toBe(true);
+        expect(settleWithRouter).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe("batch settlement", () => {
+      let batchApp: express.Application;
+      let batchSettler: { settle: ReturnType<typeof vi.fn> };
+
+      beforeEach(() => {
+        batchSettler = {
+          settle: vi.fn(async () => ({
+            success: true,
+            transaction: "0xbatchtxhash",
+            payer: "0x1234567890123456789012345678901234567890",
+            network: "base-sepolia",
+          })),
+        };
+        batchApp = express();
+        batchApp.use(express.json());
+        batchApp.use(
+          createSettleRoutes(
+            { ...mockDeps, batchSettler: batchSettler as any },
+            (_req: any, _res: any, next: any) => next(),
+          ),
+        );
+      });
+
+      it("should settle router payments through the batch settler", async () => {
+        const response = await request(batchApp).post("/settle").send(createValidSettleBody());
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ success: true, transaction: "0xbatchtxhash" });
+        expect(batchSettler.settle).toHaveBeenCalledTimes(1);
+        expect(settleWithRouter).not.toHaveBeenCalled();
+      });
+
+      it("should settle standard payments individually", async () => {
+        const body = createValidSettleBody();
+        const standardRequirements = { ...body.paymentRequirements, extra: undefined };
+
+        await request(batchApp)
+          .post("/settle")
+          .send({ ...body, paymentRequirements: standardRequirements });
+
+        expect(settle).toHaveBeenCalledTimes(1);
+        expect(batchSettler.settle).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("async mode", () => {
+      let asyncApp: express.Application;
+
+      beforeEach(() => {
+        asyncApp = express();
+        asyncApp.use(express.json());
+        asyncApp.use(
+          createSettleRoutes(
+            {
+              ...mockDeps,
+              settlementJobs: createSettlementJobManager({
+                enabled: true,
+                maxJobs: 100,
+                jobTtlSeconds: 60,
+                webhookTimeoutMs: 1000,
+                webhookMaxAttempts: 1,
+                allowInsecureWebhooks: false,
+              }),
+            },
+            (_req: any, _res: any, next: any) => next(),
+          ),
+        );
+      });
+
+      it("should return a pending job once the transaction is submitted", async () => {
+        let confirm: () => void = () => undefined;
+        vi.mocked(settleWithRouter).mockImplementationOnce(async (...args: any[]) => {
+          const progress = args[10];
+          await progress("submitted", { transaction: "0xroutertxhash" });
+          await new Promise<void>((resolve) => (confirm = resolve));
+          return {
+            success: true,
+            transaction: "0xroutertxhash",
+            payer: "0xpayer",
+            network: "base-sepolia",
+          } as any;
+        });
+
+        const accepted = await request(asyncApp)
+          .post("/settle")
+          .send({ ...createValidSettleBody(), async: true });
+
+        expect(accepted.status).toBe(202);
+        expect(accepted.headers.location).toBe(`/settle/${accepted.body.id}`);
+        expect(accepted.body).toMatchObject({ status: "pending", transaction: "0xroutertxhash" });
+
+        confirm();
+        await new Promise((resolve) => setImmediate(resolve));
+
+        const polled = await request(asyncApp).get(`/settle/${accepted.body.id}`);
+        expect(polled.status).toBe(200);
+        expect(polled.body.status).toBe("confirmed");
+        expect(polled.body.response.success).toBe(true);
+      });
+
+      it("should report standard settlements as submitted before the receipt", async () => {
+        let confirm: () => void = () => undefined;
+        const signer = {
+          account: { address: "0xfacilitator" },
+          writeContract: vi.fn(async () => "0xstandardtxhash"),
+        };
+        vi.mocked(settle).mockImplementationOnce(async (wallet: any) => {
+          await wallet.writeContract({ functionName: "transferWithAuthorization" });
+          await new Promise<void>((resolve) => (confirm = resolve));
+          return {
+            success: true,
+            transaction: "0xstandardtxhash",
+            payer: "0xpayer",
+            network: "base-sepolia",
+          } as any;
+        });
+        const standardApp = express();
+        standardApp.use(express.json());
+        standardApp.use(
+          createSettleRoutes(
+            {
+              ...mockDeps,
+              poolManager: {
+                getPool: vi.fn(() => ({ execute: vi.fn(async (fn: any) => fn(signer)) })),
+              } as any,
+              settlementJobs: createSettlementJobManager({
+                enabled: true,
+                maxJobs: 100,
+                jobTtlSeconds: 60,
+                webhookTimeoutMs: 1000,
+                webhookMaxAttempts: 1,
+                allowInsecureWebhooks: false,
+              }),
+            },
+            (_req: any, _res: any, next: any) => next(),
+          ),
+        );
+        const body = createValidSettleBody();
+
+        const accepted = await request(standardApp)
+          .post("/settle")
+          .send({
+            ...body,
+            paymentRequirements: { ...body.paymentRequirements, extra: undefined },
+            async: true,
+          });
+        confirm();
+
+        expect(accepted.status).toBe(202);
+        expect(accepted.body).toMatchObject({ status: "pending", transaction: "0xstandardtxhash" });
+        expect(signer.writeContract).toHaveBeenCalledTimes(1);
+      });
+
+      it("should reject insecure webhook URLs", async () => {
+        const response = await request(asyncApp)
+          .post("/settle")
+          .send({ ...createValidSettleBody(), webhookUrl: "http://example.com/hook" });
+
+        expect(response.status).toBe(400);
+        expect(settleWithRouter).not.toHaveBeenCalled();
+      });
+
+      it("should reject async requests when async mode is disabled", async () => {
+        const response = await request(app)
+          .post("/settle")
+          .send({ ...createValidSettleBody(), async: true });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe("Async settlement disabled");
+      });
+
+      it("should return 404 for unknown jobs", async () => {
+        const response = await request(asyncApp).get("/settle/unknown");
+        expect(response.status).toBe(404);
+      });
+    });
   });
 });
@@ -0,0 +1,131 @@
+/**
+ * Tests for routes/simulate.ts
+ *
+ * Tests simulate endpoints
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import {
+  createSimulateRoutes,
+  type SimulateRouteDependencies,
+} from "../../../src/routes/simulate.js";
+import { simulateSettlement } from "../../../src/settlement-simulation.js";
+
+vi.mock("../../../src/settlement-simulation.js", () => ({
+  simulateSettlement: vi.fn(async () => ({
+    success: true,
+    method: "eth_simulateV1",
+    gasUsed: "120000",
+    events: [{ name: "Settled", address: "0xrouter", args: {} }],
+    balanceChanges: [],
+  })),
+}));
+
+const ROUTER = "0x32431D4511e061F1133520461B07eC42afF157D6";
+
+/**
+ * Schema-valid simulate body
+ *
+ * @param extra - Payment requirements extra
+ * @returns Request body
+ */
+function createSimulateBody(extra?: Record<string, unknown>) {
+  return {
+    paymentPayload: {
+      x402Version: 1,
+      scheme: "exact",
+      network: "base-sepolia",
+      payload: {
+        signature: "0x" + "11".repeat(65),
+        authorization: {
+          from: "0x1234567890123456789012345678901234567890",
+          to: ROUTER,
+          value: "1000000",
+          validAfter: "0",
+          validBefore: String(Math.floor(Date.now() / 1000) + 3600),
+          nonce: "0x" + "01".repeat(32),
+        },
+      },
+    },
+    paymentRequirements: {
+      scheme: "exact",
+      network: "base-sepolia",
+      maxAmountRequired: "1000000",
+      resource: "https://example.com/api",
+      description: "test",
+      mimeType: "application/json",
+      payTo: ROUTER,
+      maxTimeoutSeconds: 60,
+      asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+      extra,
+    },
+  };
+}
+
+describe("routes/simulate", () => {
+  let app: express.Application;
+  let deps: SimulateRouteDependencies;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    deps = {
+      poolManager: {
+        getPool: vi.fn(() => ({
+          getAccountsInfo: () => [{ address: "0x00000000000000000000000000000000000000fa" }],
+        })),
+      } as any,
+      allowedSettlementRouters: { "base-sepolia": [ROUTER] },
+    };
+
+    app = express();
+    app.use(express.json());
+    app.use(createSimulateRoutes(deps, ((_req: any, _res: any, next: any) => next()) as any));
+  });
+
+  it("should return endpoint information", async () => {
+    const response = await request(app).get("/simulate");
+
+    expect(response.status).toBe(200);
+    expect(response.body.endpoint).toBe("/simulate");
+  });
+
+  it("should simulate with a facilitator account as sender", async () => {
+    const response = await request(app)
+      .post("/simulate")
+      .send(createSimulateBody({ settlementRouter: ROUTER }));
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      network: "base-sepolia",
+      facilitator: "0x00000000000000000000000000000000000000fa",
+      success: true,
+      events: [{ name: "Settled" }],
+    });
+    expect(simulateSettlement).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.anything(),
+      "0x00000000000000000000000000000000000000fa",
+    );
+  });
+
+  it("should reject payments without a settlement router", async () => {
+    const response = await request(app).post("/simulate").send(createSimulateBody());
+
+    expect(response.status).toBe(400);
+    expect(simulateSettlement).not.toHaveBeenCalled();
+  });
+
+  it("should reject routers outside the whitelist", async () => {
+    const response = await request(app)
+      .post("/simulate")
+      .send(createSimulateBody({ settlementRouter: "0x1234567890123456789012345678901234567890" }));
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("Invalid settlement parameters");
+    expect(simulateSettlement).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for settlement-jobs.ts
+ *
+ * Tests async settlement job lifecycle and webhook delivery
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  createSettlementJobManager,
+  isPublicAddress,
+  signWebhookPayload,
+  type AsyncSettlementConfig,
+  type SettlementJobManager,
+} from "../../src/settlement-jobs.js";
+
+const config: AsyncSettlementConfig = {
+  enabled: true,
+  maxJobs: 3,
+  jobTtlSeconds: 60,
+  webhookSecret: "webhook-secret",
+  webhookTimeoutMs: 1000,
+  webhookMaxAttempts: 1,
+  allowInsecureWebhooks: false,
+};
+
+const response = {
+  success: true,
+  transaction: "0xabc",
+  network: "base-sepolia" as const,
+  payer: "0xpayer",
+};
+
+describe("settlement-jobs", () => {
+  let jobs: SettlementJobManager;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    jobs = createSettlementJobManager(config, async () => ["93.184.216.34"]);
+    fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("should follow a job from submission to confirmation", () => {
+    const job = jobs.create({ network: "base-sepolia", payer: "0xpayer" });
+    expect(jobs.get(job.id)?.status).toBe("pending");
+
+    jobs.submitted(job.id, "0xabc");
+    expect(jobs.get(job.id)?.transaction).toBe("0xabc");
+
+    jobs.complete(job.id, response);
+    expect(jobs.get(job.id)).toMatchObject({ status: "confirmed", response });
+  });
+
+  it("should mark reverted settlements and errors as failed", () => {
+    const reverted = jobs.create({ network: "base-sepolia" });
+    jobs.complete(reverted.id, {
+      ...response,
+      success: false,
+      errorReason: "invalid_transaction_state",
+    });
+
+    const errored = jobs.create({ network: "base-sepolia" });
+    jobs.fail(errored.id, new Error("receipt timeout"));
+
+    expect(jobs.get(reverted.id)?.status).toBe("failed");
+    expect(jobs.get(errored.id)).toMatchObject({ status: "failed", error: "receipt timeout" });
+  });
+
+  it("should only accept https webhook URLs by default", async () => {
+    expect(await jobs.validateWebhookUrl("https://example.com/hook")).toBeUndefined();
+    expect(await jobs.validateWebhookUrl("http://example.com/hook")).toBe(
+      "webhookUrl must use https",
+    );
+    expect(await jobs.validateWebhookUrl("not a url")).toBe("webhookUrl must be an absolute URL");
+
+    const insecure = createSettlementJobManager({ ...config, allowInsecureWebhooks: true });
+    expect(await insecure.validateWebhookUrl("http://localhost:4000/hook")).toBeUndefined();
+  });
+
+  it("should reject webhook hosts resolving to non-public addresses", async () => {
+    const internal = createSettlementJobManager(config, async (host) =>
+      host === "rebind.example.com" ? ["93.184.216.34", "10.0.0.5"] : ["169.254.169.254"],
+    );
+
+    for (const url of [
+      "https://metadata.example.com/hook",
+      "https://rebind.example.com/hook",
+      "https://127.0.0.1/hook",
+      "https://[::1]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+    ]) {
+      expect(await internal.validateWebhookUrl(url)).toBe(
+        "webhookUrl must resolve to a public address",
+      );
+    }
+
+    const unresolvable = createSettlementJobManager(config, async () => {
+      throw new Error("ENOTFOUND");
+    });
+    expect(await unresolvable.validateWebhookUrl("https://missing.example.com/hook")).toBe(
+      "webhookUrl host could not be resolved",
+    );
+  });
+
+  it("should classify public and non-public addresses", () => {
+    expect(isPublicAddress("93.184.216.34")).toBe(true);
+    expect(isPublicAddress("2606:2800:220:1:248:1893:25c8:1946")).toBe(true);
+    for (const address of ["10.1.2.3", "172.16.0.1", "192.168.1.1", "100.64.0.1", "0.0.0.0"]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    expect(isPublicAddress("fd00::1")).toBe(false);
+    expect(isPublicAddress("fe80::1")).toBe(false);
+    expect(isPublicAddress("::ffff:a9fe:a9fe")).toBe(false);
+  });
+
+  it("should deliver a signed webhook when the job finishes", async () => {
+    const job = jobs.create({ network: "base-sepolia", webhookUrl: "https://example.com/hook" });
+    jobs.complete(job.id, response);
+    await jobs.drain();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe("https://example.com/hook");
+    expect(JSON.parse(init.body as string)).toMatchObject({ id: job.id, status: "confirmed" });
+    expect(headers["X-Webhook-Signature"]).toBe(
+      signWebhookPayload("webhook-secret", headers["X-Webhook-Timestamp"], init.body as string),
+    );
+    expect(jobs.get(job.id)?.webhook).toMatchObject({ delivered: true, attempts: 1 });
+  });
+
+  it("should record failed webhook deliveries", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+
+    const job = jobs.create({ network: "base-sepolia", webhookUrl: "https://example.com/hook" });
+    jobs.complete(job.id, response);
+    await jobs.drain();
+
+    expect(jobs.get(job.id)?.webhook).toMatchObject({
+      delivered: false,
+      lastError: "Webhook responded with HTTP 500",
+    });
+  });
+
+  it("should expire finished jobs and bound the number of finished jobs", () => {
+    vi.useFakeTimers();
+
+    const finished = jobs.create({ network: "base-sepolia" });
+    jobs.complete(finished.id, response);
+    vi.advanceTimersByTime(61_000);
+    expect(jobs.get(finished.id)).toBeUndefined();
+
+    const ids = [1, 2, 3].map(() => jobs.create({ network: "base-sepolia" }).id);
+    ids.forEach((id) => jobs.complete(id, response));
+    const next = jobs.create({ network: "base-sepolia" }).id;
+    expect(jobs.size()).toBe(3);
+    expect(jobs.get(ids[0])).toBeUndefined();
+    expect(jobs.get(next)).toBeDefined();
+  });
+
+  it("should never prune pending jobs", () => {
+    const ids = [1, 2, 3, 4].map(() => jobs.create({ network: "base-sepolia" }).id);
+
+    expect(jobs.size()).toBe(4);
+    expect(ids.every((id) => jobs.get(id)?.status === "pending")).toBe(true);
+  });
+
+  it("should cancel webhook retries when draining", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+    const retrying = createSettlementJobManager({ ...config, webhookMaxAttempts: 5 }, async () => [
+      "93.184.216.34",
+    ]);
+
+    const job = retrying.create({
+      network: "base-sepolia",
+      webhookUrl: "https://example.com/hook",
+    });
+    retrying.complete(job.id, response);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const started = Date.now();
+    await retrying.drain();
+
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(retrying.get(job.id)?.webhook).toMatchObject({ delivered: false, attempts: 1 });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for settlement-simulation.ts
+ *
+ * Tests event decoding, balance deltas, revert decoding and the eth_call fallback
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  BaseError,
+  RawContractError,
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeEventTopics,
+  numberToHex,
+  parseAbi,
+  type Hex,
+} from "viem";
+import { SETTLEMENT_ROUTER_ABI } from "@x402x/core";
+import { decodeRevert, simulateSettlement } from "../../src/settlement-simulation.js";
+
+const ROUTER = "0x32431D4511e061F1133520461B07eC42afF157D6";
+const TOKEN = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const PAYER = "0x1234567890123456789012345678901234567890";
+const PAY_TO = "0x742d35cc6634c0532925a3b844bc9e7595f0beb0";
+const HOOK = "0x6b486aF5A08D27153d0374BE56A1cB1676c460a8";
+const FACILITATOR = "0x00000000000000000000000000000000000000fa";
+const CONTEXT_KEY = ("0x" + "ab".repeat(32)) as Hex;
+
+const paymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    signature: "0x" + "11".repeat(65),
+    authorization: {
+      from: PAYER,
+      to: ROUTER,
+      value: "1000000",
+      validAfter: "0",
+      validBefore: "9999999999",
+      nonce: "0x" + "01".repeat(32),
+    },
+  },
+} as any;
+
+const paymentRequirements = {
+  network: "base-sepolia",
+  asset: TOKEN,
+  extra: {
+    settlementRouter: ROUTER,
+    salt: "0x" + "00".repeat(31) + "01",
+    payTo: PAY_TO,
+    facilitatorFee: "10000",
+    hook: HOOK,
+    hookData: "0x",
+  },
+} as any;
+
+/**
+ * Balance read result
+ *
+ * @param balance - Token balance
+ * @returns Call result
+ */
+const balance = (balance: bigint) => ({
+  status: "success",
+  data: numberToHex(balance, { size: 32 }),
+});
+
+describe("settlement-simulation", () => {
+  it("should decode router events and balance deltas", async () => {
+    const settledLog = {
+      address: ROUTER,
+      topics: encodeEventTopics({
+        abi: SETTLEMENT_ROUTER_ABI,
+        eventName: "Settled",
+        args: { contextKey: CONTEXT_KEY, payer: PAYER, token: TOKEN },
+      }),
+      data: encodeAbiParameters(
+        [
+          { type: "uint256" },
+          { type: "address" },
+          { type: "bytes32" },
+          { type: "address" },
+          { type: "uint256" },
+        ],
+        [1000000n, HOOK, CONTEXT_KEY, PAY_TO, 10000n],
+      ),
+    };
+    const feeLog = {
+      address: ROUTER,
+      topics: encodeEventTopics({
+        abi: SETTLEMENT_ROUTER_ABI,
+        eventName: "FeeAccumulated",
+        args: { facilitator: FACILITATOR, token: TOKEN },
+      }),
+      data: encodeAbiParameters([{ type: "uint256" }], [10000n]),
+    };
+    const client = {
+      simulateBlocks: vi.fn(async () => [
+        {
+          calls: [
+            balance(5000000n),
+            balance(0n),
+            balance(0n),
+            { status: "success", data: "0x", gasUsed: 120000n, logs: [feeLog, settledLog] },
+            balance(4000000n),
+            balance(990000n),
+            balance(0n),
+          ],
+        },
+      ]),
+    };
+
+    const result = await simulateSettlement(
+      client as any,
+      paymentPayload,
+      paymentRequirements,
+      FACILITATOR,
+    );
+
+    expect(result).toMatchObject({ success: true, method: "eth_simulateV1", gasUsed: "120000" });
+    expect(result.events.map((event) => event.name)).toEqual(["FeeAccumulated", "Settled"]);
+    expect(result.events[1].args).toMatchObject({ amount: "1000000", facilitatorFee: "10000" });
+    expect(result.balanceChanges).toEqual([
+      { role: "payer", address: PAYER, before: "5000000", after: "4000000", delta: "-1000000" },
+      { role: "payTo", address: PAY_TO, before: "0", after: "990000", delta: "990000" },
+      { role: "hook", address: HOOK, before: "0", after: "0", delta: "0" },
+    ]);
+  });
+
+  it("should decode the hook revert of a failed settlement", async () => {
+    const hookRevert = encodeErrorResult({
+      abi: parseAbi(["error Error(string)"]),
+      errorName: "Error",
+      args: ["Mock hook failure"],
+    });
+    const client = {
+      simulateBlocks: vi.fn(async () => [
+        {
+          calls: [
+            balance(5000000n),
+            balance(0n),
+            balance(0n),
+            {
+              status: "failure",
+              data: encodeErrorResult({
+                abi: SETTLEMENT_ROUTER_ABI,
+                errorName: "HookExecutionFailed",
+                args: [HOOK, hookRevert],
+              }),
+              gasUsed: 80000n,
+            },
+          ],
+        },
+      ]),
+    };
+
+    const result = await simulateSettlement(
+      client as any,
+      paymentPayload,
+      paymentRequirements,
+      FACILITATOR,
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.revert).toMatchObject({
+      error: "HookExecutionFailed",
+      args: { hook: HOOK },
+      hookRevert: { error: "Error", args: { message: "Mock hook failure" } },
+    });
+  });
+
+  it("should fall back to eth_call without eth_simulateV1", async () => {
+    const data = encodeErrorResult({
+      abi: SETTLEMENT_ROUTER_ABI,
+      errorName: "AlreadySettled",
+      args: [CONTEXT_KEY],
+    });
+    const client = {
+      simulateBlocks: vi.fn(async () => {
+        throw new Error("the method eth_simulateV1 does not exist");
+      }),
+      call: vi.fn(async () => {
+        throw new BaseError("Execution reverted", { cause: new RawContractError({ data }) });
+      }),
+    };
+
+    const result = await simulateSettlement(
+      client as any,
+      paymentPayload,
+      paymentRequirements,
+      FACILITATOR,
+    );
+
+    expect(client.call).toHaveBeenCalledWith(
+      expect.objectContaining({ account: FACILITATOR, to: ROUTER }),
+    );
+    expect(result).toMatchObject({
+      success: false,
+      method: "eth_call",
+      events: [],
+      revert: { error: "AlreadySettled", args: { contextKey: CONTEXT_KEY } },
+    });
+  });
+
+  it("should report undecodable revert data as unknown", () => {
+    expect(decodeRevert("0xdeadbeef")).toEqual({ error: "unknown", data: "0xdeadbeef" });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for spend-policy.ts
+ *
+ * Tests denylists, per-payment, volume and velocity limits
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  SpendPolicy,
+  getSpendSubject,
+  isSpendPolicyConfigured,
+  type SpendPolicyConfig,
+  type SpendSubject,
+} from "../../src/spend-policy.js";
+import { MemoryCache } from "../../src/cache/index.js";
+import {
+  createMockPaymentPayload,
+  createMockSettlementRouterPaymentRequirements,
+} from "../utils/fixtures.js";
+
+const PAYER = "0x1234567890123456789012345678901234567890";
+const MERCHANT = "0x742d35cc6634c0532925a3b844bc9e7595f0beb0";
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+/**
+ * Create a payment of a USDC amount on base-sepolia
+ *
+ * @param usdc - Amount in whole USDC
+ * @param overrides - Subject overrides
+ * @returns Spend subject
+ */
+function payment(usdc: number, overrides: Partial<SpendSubject> = {}): SpendSubject {
+  return {
+    network: "base-sepolia",
+    asset: USDC,
+    amount: String(usdc * 1_000_000),
+    payer: PAYER,
+    recipient: MERCHANT,
+    ...overrides,
+  };
+}
+
+describe("spend-policy", () => {
+  let config: SpendPolicyConfig;
+  let counters: MemoryCache;
+
+  beforeEach(() => {
+    config = {
+      denylist: [],
+      volumeWindowSeconds: 86400,
+      velocityWindowSeconds: 3600,
+    };
+    counters = new MemoryCache();
+  });
+
+  it("should only be configured when a limit or denylist entry is set", () => {
+    expect(isSpendPolicyConfigured(config)).toBe(false);
+    expect(isSpendPolicyConfigured({ ...config, maxPaymentUsd: 100 })).toBe(true);
+    expect(isSpendPolicyConfigured({ ...config, denylist: [PAYER] })).toBe(true);
+  });
+
+  it("should reject denylisted payers and recipients", async () => {
+    const policy = new SpendPolicy({ ...config, denylist: [PAYER.toUpperCase()] }, counters);
+    const merchantPolicy = new SpendPolicy({ ...config, denylist: [MERCHANT] }, counters);
+
+    expect(await policy.evaluate(payment(1))).toEqual({
+      allowed: false,
+      reason: "payer_denylisted",
+    });
+    expect(await merchantPolicy.evaluate(payment(1))).toEqual({
+      allowed: false,
+      reason: "recipient_denylisted",
+    });
+  });
+
+  it("should reject payments above the per-payment limit", async () => {
+    const policy = new SpendPolicy({ ...config, maxPaymentUsd: 100 }, counters);
+
+    expect(await policy.evaluate(payment(100))).toEqual({ allowed: true, amountUsd: 100 });
+    expect(await policy.evaluate(payment(101))).toEqual({
+      allowed: false,
+      reason: "payment_amount_exceeds_limit",
+    });
+  });
+
+  it("should reject assets that cannot be priced", async () => {
+    const policy = new SpendPolicy({ ...config, maxPaymentUsd: 100 }, counters);
+
+    expect(
+      await policy.evaluate(payment(1, { asset: "0x0000000000000000000000000000000000000001" })),
+    ).toEqual({ allowed: false, reason: "unsupported_asset" });
+  });
+
+  it("should enforce payer volume across settled payments", async () => {
+    const policy = new SpendPolicy({ ...config, payerVolumeUsd: 250 }, counters);
+    const now = Date.now();
+
+    expect((await policy.reserve(payment(100), now)).allowed).toBe(true);
+    expect((await policy.reserve(payment(100), now)).allowed).toBe(true);
+
+    expect((await policy.evaluate(payment(50), now)).allowed).toBe(true);
+    expect(await policy.evaluate(payment(51), now)).toEqual({
+      allowed: false,
+      reason: "payer_volume_limit_exceeded",
+    });
+    // Other payers are unaffected
+    expect((await policy.evaluate(payment(51, { payer: MERCHANT }), now)).allowed).toBe(true);
+    // Next window starts from zero
+    expect((await policy.evaluate(payment(51), now + 86400_000)).allowed).toBe(true);
+  });
+
+  it("should enforce recipient volume across payers", async () => {
+    const policy = new SpendPolicy({ ...config, payToVolumeUsd: 150 }, counters);
+    const now = Date.now();
+
+    await policy.reserve(
+      payment(100, { payer: "0x00000000000000000000000000000000000000aa" }),
+      now,
+    );
+
+    expect(await policy.evaluate(payment(60), now)).toEqual({
+      allowed: false,
+      reason: "recipient_volume_limit_exceeded",
+    });
+  });
+
+  it("should enforce payer velocity", async () => {
+    const policy = new SpendPolicy({ ...config, payerMaxPayments: 2 }, counters);
+    const now = Date.now();
+
+    await policy.reserve(payment(1), now);
+    expect((await policy.evaluate(payment(1), now)).allowed).toBe(true);
+
+    await policy.reserve(payment(1), now);
+    expect(await policy.evaluate(payment(1), now)).toEqual({
+      allowed: false,
+      reason: "payer_velocity_limit_exceeded",
+    });
+  });
+
+  it("should not let concurrent reservations pass a limit together", async () => {
+    const policy = new SpendPolicy({ ...config, payerVolumeUsd: 250 }, counters);
+    const now = Date.now();
+
+    const decisions = await Promise.all(
+      Array.from({ length: 5 }, () => policy.reserve(payment(100), now)),
+    );
+
+    expect(decisions.filter((decision) => decision.allowed)).toHaveLength(2);
+    // Rejected reservations leave the counter at the accepted total
+    expect(counters.get(`volume:payer:${PAYER}:${Math.floor(now / 1000 / 86400)}`)).toBe(200);
+  });
+
+  it("should release reservations of failed settlements", async () => {
+    const policy = new SpendPolicy({ ...config, payerMaxPayments: 1 }, counters);
+    const now = Date.now();
+
+    const decision = await policy.reserve(payment(1), now);
+    expect(decision.allowed).toBe(true);
+    expect((await policy.reserve(payment(1), now)).allowed).toBe(false);
+
+    await policy.release(decision.allowed ? decision.reservation : undefined);
+
+    expect((await policy.reserve(payment(1), now)).allowed).toBe(true);
+  });
+
+  it("should fail closed when the counter cache is full", async () => {
+    const full = new MemoryCache({ maxKeys: 1 });
+    full.set("other", 1);
+    const policy = new SpendPolicy({ ...config, payerMaxPayments: 2 }, full);
+
+    expect(await policy.reserve(payment(1))).toEqual({
+      allowed: false,
+      reason: "spend_policy_unavailable",
+    });
+  });
+
+  it("should fail closed when counters are unavailable", async () => {
+    counters.get = () => {
+      throw new Error("connection refused");
+    };
+    const policy = new SpendPolicy({ ...config, payerMaxPayments: 2 }, counters);
+
+    expect(await policy.evaluate(payment(1))).toEqual({
+      allowed: false,
+      reason: "spend_policy_unavailable",
+    });
+  });
+
+  it("should use the merchant as recipient in settlement router mode", () => {
+    const requirements = createMockSettlementRouterPaymentRequirements();
+    const payload = createMockPaymentPayload({
+      payload: {
+        signature: "0x",
+        authorization: { from: PAYER, value: "1000000" },
+      },
+    } as any);
+
+    const subject = getSpendSubject(payload, requirements);
+
+    expect(subject).toMatchObject({
+      payer: PAYER,
+      recipient: requirements.extra!.payTo.toLowerCase(),
+      amount: "1000000",
+    });
+  });
+});
@@ -22,7 +22,17 @@ describe("Token Address Validation", () => {
       }).not.toThrow();
     });
 
-    it("should reject non-USDC token address", () => {
+    it("should accept other assets registered for the network", () => {
+      const network = "base-sepolia";
+      const eurcAddress = "0x808456652fdb597867f38412077A9182bf77359F";
+
+      expect(validateTokenAddress(network, eurcAddress)).toMatchObject({
+        symbol: "EURC",
+        decimals: 6,
+      });
+    });
+
+    it("should reject unregistered token address", () => {
       const network = "base-sepolia";
       const daiAddress = "0x6B175474E89094C44Da98b954EedeAC495271d0F"; // DAI on mainnet
 
@@ -32,7 +42,7 @@ describe("Token Address Validation", () => {
 
       expect(() => {
         validateTokenAddress(network, daiAddress);
-      }).toThrow(/Only USDC is currently supported/);
+      }).toThrow(/is not supported for settlement on base-sepolia/);
     });
 
     it("should accept valid USDC address for x-layer-testnet", () => {
@@ -62,7 +72,7 @@ describe("Token Address Validation", () => {
       }).toThrow(/Unsupported network/);
     });
 
-    it("should provide helpful error message with expected and actual addresses", () => {
+    it("should provide helpful error message with supported and actual addresses", () => {
       const network = "base-sepolia";
       const wrongAddress = "0x1234567890123456789012345678901234567890";
 
@@ -72,10 +82,9 @@ describe("Token Address Validation", () => {
       } catch (error) {
         expect(error).toBeInstanceOf(SettlementExtraError);
         const message = (error as Error).message;
-        expect(message).toContain("Only USDC is currently supported");
         expect(message).toContain("base-sepolia");
-        expect(message).toContain("Expected:");
-        expect(message).toContain("Got:");
+        expect(message).toContain("Supported:");
+        expect(message).toContain("USDC (0x036CbD53842c5426634e7929541eC2318f3dCF7e)");
         expect(message).toContain(wrongAddress);
       }
     });
@@ -0,0 +1,195 @@
+/**
+ * Tests for treasury.ts
+ *
+ * Tests balance checks, top-ups, account rotation and alerting
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { parseEther } from "viem";
+import { Treasury, type TreasuryConfig } from "../../src/treasury.js";
+import { LockManager, MemoryLockStore, treasuryLockKey } from "../../src/locks/index.js";
+import { emitAlert } from "../../src/telemetry.js";
+
+const ACCOUNT = "0x1111111111111111111111111111111111111111";
+const FUNDER = "0x9999999999999999999999999999999999999999";
+
+describe("treasury", () => {
+  let balances: Map<string, bigint>;
+  let client: { fundingAddress?: string; getBalance: any; transfer: any };
+  let pool: { getAccountsInfo: any; setAccountEnabled: any };
+  let config: TreasuryConfig;
+
+  const createTreasury = () =>
+    new Treasury(new Map([["base-sepolia", pool]]), config, {}, undefined, () => client);
+
+  beforeEach(() => {
+    vi.mocked(emitAlert).mockClear();
+    balances = new Map([
+      [ACCOUNT, parseEther("1")],
+      [FUNDER, parseEther("10")],
+    ]);
+    client = {
+      fundingAddress: FUNDER,
+      getBalance: vi.fn(async (address: string) => balances.get(address) ?? 0n),
+      transfer: vi.fn(async (to: string, value: bigint) => {
+        balances.set(to, (balances.get(to) ?? 0n) + value);
+        balances.set(FUNDER, balances.get(FUNDER)! - value);
+        return "0xhash";
+      }),
+    };
+    pool = {
+      getAccountsInfo: vi.fn(() => [{ address: ACCOUNT }]),
+      setAccountEnabled: vi.fn(() => true),
+    };
+    config = {
+      enabled: true,
+      checkIntervalMs: 60000,
+      fundingPrivateKey: "0x" + "01".repeat(32),
+      minBalance: { "base-sepolia": parseEther("0.1").toString() },
+      targetBalance: { "base-sepolia": parseEther("0.5").toString() },
+      alertThreshold: { "base-sepolia": parseEther("0.01").toString() },
+      topUpCooldownMs: 300000,
+    };
+  });
+
+  it("should leave funded accounts alone", async () => {
+    await createTreasury().checkAll();
+
+    expect(client.transfer).not.toHaveBeenCalled();
+    expect(pool.setAccountEnabled).not.toHaveBeenCalled();
+    expect(emitAlert).not.toHaveBeenCalled();
+  });
+
+  it("should top up accounts below the minimum to the target balance", async () => {
+    balances.set(ACCOUNT, parseEther("0.05"));
+
+    await createTreasury().checkAll();
+
+    expect(client.transfer).toHaveBeenCalledWith(ACCOUNT, parseEther("0.45"));
+    expect(emitAlert).not.toHaveBeenCalled();
+  });
+
+  it("should cap top-ups at the maximum amount", async () => {
+    balances.set(ACCOUNT, parseEther("0.05"));
+    config.maxTopUpAmount = parseEther("0.2").toString();
+
+    await createTreasury().checkAll();
+
+    expect(client.transfer).toHaveBeenCalledWith(ACCOUNT, parseEther("0.2"));
+  });
+
+  it("should respect the top-up cooldown", async () => {
+    balances.set(ACCOUNT, parseEther("0.05"));
+    client.transfer.mockRejectedValue(new Error("nonce too low"));
+    const treasury = createTreasury();
+
+    await treasury.checkAll();
+    await treasury.checkAll();
+
+    expect(client.transfer).toHaveBeenCalledTimes(1);
+    expect(emitAlert).toHaveBeenCalledWith(
+      "treasury_top_up_failed",
+      expect.any(String),
+      expect.objectContaining({ error: "nonce too low" }),
+    );
+  });
+
+  it("should alert when the funding account cannot cover the top-up", async () => {
+    balances.set(ACCOUNT, parseEther("0.05"));
+    balances.set(FUNDER, parseEther("0.1"));
+
+    await createTreasury().checkAll();
+
+    expect(client.transfer).not.toHaveBeenCalled();
+    expect(emitAlert).toHaveBeenCalledWith(
+      "treasury_funding_low",
+      expect.any(String),
+      expect.objectContaining({ network: "base-sepolia", account: ACCOUNT }),
+    );
+  });
+
+  it("should remove drained accounts from selection and restore them once funded", async () => {
+    client.fundingAddress = undefined;
+    balances.set(ACCOUNT, parseEther("0.001"));
+    const treasury = createTreasury();
+
+    await treasury.checkAll();
+    await treasury.checkAll();
+
+    expect(pool.setAccountEnabled).toHaveBeenCalledTimes(1);
+    expect(pool.setAccountEnabled).toHaveBeenCalledWith(ACCOUNT, false);
+    expect(vi.mocked(emitAlert).mock.calls.map(([alert]) => alert)).toEqual([
+      "account_gas_low",
+      "account_gas_exhausted",
+    ]);
+
+    balances.set(ACCOUNT, parseEther("1"));
+    await treasury.checkAll();
+
+    expect(pool.setAccountEnabled).toHaveBeenLastCalledWith(ACCOUNT, true);
+  });
+
+  it("should keep drained accounts in selection once topped up", async () => {
+    balances.set(ACCOUNT, 0n);
+
+    await createTreasury().checkAll();
+
+    expect(client.transfer).toHaveBeenCalledWith(ACCOUNT, parseEther("0.5"));
+    expect(pool.setAccountEnabled).not.toHaveBeenCalled();
+  });
+
+  it("should keep checking other accounts when a balance read fails", async () => {
+    const OTHER = "0x2222222222222222222222222222222222222222";
+    pool.getAccountsInfo.mockReturnValue([{ address: ACCOUNT }, { address: OTHER }]);
+    balances.set(OTHER, parseEther("0.05"));
+    const getBalance = client.getBalance;
+    client.getBalance = vi.fn(async (address: string) => {
+      if (address === ACCOUNT) throw new Error("RPC timeout");
+      return getBalance(address);
+    });
+
+    await createTreasury().checkAll();
+
+    expect(client.transfer).toHaveBeenCalledTimes(1);
+    expect(client.transfer).toHaveBeenCalledWith(OTHER, parseEther("0.45"));
+  });
+
+  it("should keep checking accounts when the funding balance read fails", async () => {
+    balances.set(ACCOUNT, parseEther("0.001"));
+    const getBalance = client.getBalance;
+    client.getBalance = vi.fn(async (address: string) => {
+      if (address === FUNDER) throw new Error("RPC timeout");
+      return getBalance(address);
+    });
+
+    await createTreasury().checkAll();
+
+    expect(client.transfer).not.toHaveBeenCalled();
+    expect(pool.setAccountEnabled).toHaveBeenCalledWith(ACCOUNT, false);
+    expect(vi.mocked(emitAlert).mock.calls.map(([alert]) => alert)).toEqual([
+      "account_gas_low",
+      "account_gas_exhausted",
+    ]);
+  });
+
+  it("should skip a network another replica is checking", async () => {
+    balances.set(ACCOUNT, parseEther("0.05"));
+    const store = new MemoryLockStore();
+    const otherReplica = new LockManager(store, { ttlMs: 60000 });
+    const held = await otherReplica.tryAcquire(treasuryLockKey("base-sepolia"));
+    const treasury = new Treasury(
+      new Map([["base-sepolia", pool]]),
+      config,
+      {},
+      new LockManager(store, { ttlMs: 60000 }),
+      () => client,
+    );
+
+    await treasury.checkAll();
+    expect(client.transfer).not.toHaveBeenCalled();
+
+    await held!.release();
+    await treasury.checkAll();
+    expect(client.transfer).toHaveBeenCalledWith(ACCOUNT, parseEther("0.45"));
+  });
+});
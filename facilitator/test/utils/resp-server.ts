@@ -0,0 +1,198 @@
+/**
+ * In-process RESP server used as a local stand-in for Redis in tests
+ *
+ * Implements the subset of commands used by the facilitator (strings with expiry,
+ * key scanning, AUTH/SELECT/PING/QUIT). EVAL runs handlers registered per script source.
+ */
+
+import { createServer, type AddressInfo, type Socket } from "net";
+
+export interface Entry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Stand-in for a Lua script: receives KEYS, ARGV and live-entry access, returns a number
+ */
+export type ScriptHandler = (
+  keys: string[],
+  args: string[],
+  store: {
+    get(key: string): Entry | undefined;
+    set(key: string, entry: Entry): void;
+    delete(key: string): boolean;
+  },
+) => number;
+
+export interface RespTestServer {
+  /** redis:// URL of the server */
+  url: string;
+  /** Stored entries (expired entries are removed lazily) */
+  store: Map<string, Entry>;
+  /** Commands received, in order */
+  commands: string[][];
+  /** Drop all open client connections */
+  dropConnections(): void;
+  /** Stop the server */
+  close(): Promise<void>;
+}
+
+/**
+ * Parse complete command arrays from a buffer
+ *
+ * @param buffer - Received data
+ * @returns Parsed commands and the unconsumed remainder
+ */
+function parseCommands(buffer: Buffer): { commands: string[][]; rest: Buffer } {
+  const commands: string[][] = [];
+  let offset = 0;
+
+  outer: while (offset < buffer.length) {
+    let position = offset;
+    const headerEnd = buffer.indexOf("\r\n", position);
+    if (headerEnd === -1) break;
+    const count = Number(buffer.toString("utf8", position + 1, headerEnd));
+    position = headerEnd + 2;
+
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const lengthEnd = buffer.indexOf("\r\n", position);
+      if (lengthEnd === -1) break outer;
+      const length = Number(buffer.toString("utf8", position + 1, lengthEnd));
+      const start = lengthEnd + 2;
+      if (buffer.length < start + length + 2) break outer;
+      args.push(buffer.toString("utf8", start, start + length));
+      position = start + length + 2;
+    }
+
+    commands.push(args);
+    offset = position;
+  }
+
+  return { commands, rest: buffer.subarray(offset) };
+}
+
+const bulk = (value: string | null) =>
+  value === null ? "$-1\r\n" : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+/**
+ * Start a RESP test server on a random local port
+ *
+ * @param options - Server options
+ * @param options.password - Require AUTH with this password
+ * @param options.scripts - EVAL handlers by script source
+ * @returns Running server
+ */
+export async function startRespServer(
+  options: { password?: string; scripts?: Record<string, ScriptHandler> } = {},
+): Promise<RespTestServer> {
+  const store = new Map<string, Entry>();
+  const commands: string[][] = [];
+  const sockets = new Set<Socket>();
+
+  const live = (key: string): Entry | undefined => {
+    const entry = store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const execute = (args: string[], state: { authed: boolean }): string => {
+    const [name, ...rest] = args;
+    const command = name.toUpperCase();
+
+    if (options.password && !state.authed && command !== "AUTH") {
+      return "-NOAUTH Authentication required.\r\n";
+    }
+
+    switch (command) {
+      case "AUTH":
+        if (rest[rest.length - 1] !== options.password) {
+          return "-WRONGPASS invalid username-password pair\r\n";
+        }
+        state.authed = true;
+        return "+OK\r\n";
+      case "PING":
+        return "+PONG\r\n";
+      case "SELECT":
+      case "QUIT":
+        return "+OK\r\n";
+      case "GET":
+        return bulk(live(rest[0])?.value ?? null);
+      case "SET": {
+        const [key, value, ...flags] = rest;
+        let expiresAt: number | undefined;
+        let nx = false;
+        for (let i = 0; i < flags.length; i++) {
+          const flag = flags[i].toUpperCase();
+          if (flag === "EX") expiresAt = Date.now() + Number(flags[++i]) * 1000;
+          else if (flag === "PX") expiresAt = Date.now() + Number(flags[++i]);
+          else if (flag === "NX") nx = true;
+        }
+        if (nx && live(key)) return bulk(null);
+        store.set(key, { value, expiresAt });
+        return "+OK\r\n";
+      }
+      case "DEL":
+        return `:${rest.filter((key) => live(key) && store.delete(key)).length}\r\n`;
+      case "EXISTS":
+        return `:${rest.filter((key) => live(key)).length}\r\n`;
+      case "SCAN": {
+        const matchIndex = rest.findIndex((arg) => arg.toUpperCase() === "MATCH");
+        const prefix = matchIndex >= 0 ? rest[matchIndex + 1].replace(/\*$/, "") : "";
+        const keys = Array.from(store.keys()).filter((key) => key.startsWith(prefix) && live(key));
+        return `*2\r\n${bulk("0")}*${keys.length}\r\n${keys.map(bulk).join("")}`;
+      }
+      case "EVAL": {
+        const [script, numKeys, ...params] = rest;
+        const handler = options.scripts?.[script];
+        if (!handler) return "-NOSCRIPT No matching script\r\n";
+        const count = Number(numKeys);
+        const result = handler(params.slice(0, count), params.slice(count), {
+          get: live,
+          set: (key, entry) => void store.set(key, entry),
+          delete: (key) => store.delete(key),
+        });
+        return `:${result}\r\n`;
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.on("error", () => undefined);
+
+    const state = { authed: false };
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      const parsed = parseCommands(Buffer.concat([buffer, chunk]));
+      buffer = parsed.rest;
+      for (const args of parsed.commands) {
+        commands.push(args);
+        socket.write(execute(args, state));
+        if (args[0].toUpperCase() === "QUIT") socket.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `redis://${options.password ? `:${options.password}@` : ""}127.0.0.1:${port}`,
+    store,
+    commands,
+    dropConnections: () => sockets.forEach((socket) => socket.destroy()),
+    close: () =>
+      new Promise<void>((resolve) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => resolve());
+      }),
+  };
+}
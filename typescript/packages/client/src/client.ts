@@ -6,7 +6,12 @@
  */
 
 import type { Address, Hex, TransactionReceipt } from "viem";
-import { calculateFacilitatorFee, type FeeCalculationResult, TransferHook } from "@x402x/core";
+import {
+  calculateFacilitatorFee,
+  FacilitatorPool,
+  type FeeCalculationResult,
+  TransferHook,
+} from "@x402x/core";
 import type { X402ClientConfig, ExecuteParams, ExecuteResult } from "./types.js";
 import { prepareSettlement, DEFAULT_FACILITATOR_URL } from "./core/prepare.js";
 import { signAuthorization } from "./core/sign.js";
@@ -22,8 +27,9 @@ export { DEFAULT_FACILITATOR_URL };
 /**
  * Internal configuration with required fields
  */
-interface InternalConfig extends X402ClientConfig {
+interface InternalConfig extends Omit<X402ClientConfig, "facilitators"> {
   facilitatorUrl: string;
+  facilitators?: FacilitatorPool;
   timeout: number;
   confirmationTimeout: number;
 }
@@ -60,6 +66,15 @@ interface InternalConfig extends X402ClientConfig {
  *   facilitatorUrl: 'https://custom-facilitator.example.com'
  * });
  *
+ * // Or fail over between several facilitators
+ * const client = new X402Client({
+ *   wallet,
+ *   network: 'base-sepolia',
+ *   facilitators: {
+ *     facilitators: ['https://facilitator.x402x.dev', 'https://backup.example.com']
+ *   }
+ * });
+ *
  * // Simple transfer (hook and hookData are optional)
  * const result = await client.execute({
  *   amount: '1000000',
@@ -86,10 +101,17 @@ export class X402Client {
       throw new ValidationError("network is required");
     }
 
+    const timeout = config.timeout || 30000;
     this.config = {
       ...config,
       facilitatorUrl: config.facilitatorUrl || DEFAULT_FACILITATOR_URL,
-      timeout: config.timeout || 30000,
+      facilitators:
+        config.facilitators instanceof FacilitatorPool
+          ? config.facilitators
+          : config.facilitators
+            ? new FacilitatorPool({ settleTimeoutMs: timeout, ...config.facilitators })
+            : undefined,
+      timeout,
       confirmationTimeout: config.confirmationTimeout || 60000,
     };
   }
@@ -173,13 +195,18 @@ export class X402Client {
       validBefore: params.validBefore,
       networkConfig: this.config.networkConfig,
       facilitatorUrl: this.config.facilitatorUrl,
+      facilitators: this.config.facilitators,
     });
 
     // 3. Sign authorization
     const signed = await signAuthorization(this.config.wallet, settlement);
 
     // 4. Settle with facilitator
-    const settleResult = await settle(this.config.facilitatorUrl, signed, this.config.timeout);
+    const settleResult = await settle(
+      this.config.facilitators ?? this.config.facilitatorUrl,
+      signed,
+      this.config.timeout,
+    );
 
     // 5. Optionally wait for confirmation
     let receipt: TransactionReceipt | undefined;
@@ -222,6 +249,13 @@ export class X402Client {
     validateHex(hookData, "hookData");
 
     try {
+      if (this.config.facilitators) {
+        return await this.config.facilitators.calculateFee(
+          this.config.network,
+          normalizedHook,
+          hookData,
+        );
+      }
       return await calculateFacilitatorFee(
         this.config.facilitatorUrl,
         this.config.network,
@@ -299,6 +333,13 @@ export class X402Client {
     return this.config.facilitatorUrl;
   }
 
+  /**
+   * Get the facilitator pool (if configured with several facilitators)
+   */
+  get facilitators(): FacilitatorPool | undefined {
+    return this.config.facilitators;
+  }
+
   /**
    * Get the wallet client
    */
@@ -6,7 +6,12 @@
  */
 
 import type { Address, Hex } from "viem";
-import { getNetworkConfig, calculateFacilitatorFee, type FeeCalculationResult } from "@x402x/core";
+import {
+  getNetworkConfig,
+  calculateFacilitatorFee,
+  type FacilitatorPool,
+  type FeeCalculationResult,
+} from "@x402x/core";
 import { calculateCommitment } from "@x402x/core";
 import type { PrepareParams, SettlementData } from "../types.js";
 import { NetworkError, ValidationError, FacilitatorError } from "../errors.js";
@@ -30,7 +35,7 @@ export const DEFAULT_FACILITATOR_URL = "https://facilitator.x402x.dev";
  * with safety margins.
  *
  * @internal
- * @param facilitatorUrl - Facilitator URL
+ * @param facilitator - Facilitator URL or facilitator pool
  * @param network - Network name
  * @param hook - Hook contract address
  * @param hookData - Optional encoded hook parameters (default: '0x')
@@ -39,13 +44,15 @@ export const DEFAULT_FACILITATOR_URL = "https://facilitator.x402x.dev";
  * @throws FacilitatorError if request fails
  */
 async function queryFacilitatorFee(
-  facilitatorUrl: string,
+  facilitator: string | FacilitatorPool,
   network: string,
   hook: Address,
   hookData: Hex = "0x",
 ): Promise<FeeCalculationResult> {
   try {
-    return await calculateFacilitatorFee(facilitatorUrl, network, hook, hookData);
+    return typeof facilitator === "string"
+      ? await calculateFacilitatorFee(facilitator, network, hook, hookData)
+      : await facilitator.calculateFee(network, hook, hookData);
   } catch (error) {
     if (error instanceof Error) {
       throw new FacilitatorError(
@@ -130,13 +137,14 @@ export async function prepareSettlement(params: PrepareParams): Promise<Settleme
   const salt = params.customSalt || generateSalt();
 
   // 6. Query facilitator fee (if not provided)
-  // Use the provided facilitatorUrl or fall back to default
+  // Use the provided facilitators or facilitatorUrl, or fall back to default
   let facilitatorFee = params.facilitatorFee || "0";
+  let feeQuoteId: string | undefined;
   if (!params.facilitatorFee) {
-    const facilitatorUrl = params.facilitatorUrl || DEFAULT_FACILITATOR_URL;
+    const facilitator = params.facilitators || params.facilitatorUrl || DEFAULT_FACILITATOR_URL;
     try {
       const feeEstimate = await queryFacilitatorFee(
-        facilitatorUrl,
+        facilitator,
         params.network,
         params.hook,
         params.hookData, // Pass hookData for accurate fee calculation
@@ -149,6 +157,7 @@ export async function prepareSettlement(params: PrepareParams): Promise<Settleme
       }
 
       facilitatorFee = feeEstimate.facilitatorFee;
+      feeQuoteId = feeEstimate.feeQuoteId;
     } catch (error) {
       // If fee query fails, log warning and use 0
       console.warn(
@@ -196,6 +205,7 @@ export async function prepareSettlement(params: PrepareParams): Promise<Settleme
     salt,
     payTo: params.payTo,
     facilitatorFee,
+    ...(feeQuoteId && { feeQuoteId }),
     hook: params.hook,
     hookData: params.hookData,
     commitment: commitment as Hex,
@@ -6,7 +6,7 @@
  */
 
 import type { Address, Hex } from "viem";
-import { settle as coreSettle } from "@x402x/core";
+import { settle as coreSettle, type FacilitatorPool } from "@x402x/core";
 import type {
   SignedAuthorization,
   SettleResult,
@@ -24,7 +24,7 @@ import { FacilitatorError } from "../errors.js";
  * 3. Calls core's settle() method to POST to facilitator's /settle endpoint
  * 4. Parses and returns the settlement result
  *
- * @param facilitatorUrl - Facilitator URL
+ * @param facilitator - Facilitator URL, or a facilitator pool to fail over between
  * @param signed - Signed authorization from signAuthorization
  * @param timeout - Optional timeout in milliseconds (default: 30000)
  * @returns Settlement result with transaction hash
@@ -43,7 +43,7 @@ import { FacilitatorError } from "../errors.js";
  * ```
  */
 export async function settle(
-  facilitatorUrl: string,
+  facilitator: string | FacilitatorPool,
   signed: SignedAuthorization,
   timeout: number = 30000,
 ): Promise<SettleResult> {
@@ -87,6 +87,7 @@ export async function settle(
         salt: signed.settlement.salt,
         payTo: signed.settlement.payTo,
         facilitatorFee: signed.settlement.facilitatorFee,
+        ...(signed.settlement.feeQuoteId && { feeQuoteId: signed.settlement.feeQuoteId }),
         hook: signed.settlement.hook,
         hookData: signed.settlement.hookData,
       },
@@ -95,8 +96,11 @@ export async function settle(
     // Include payment requirements in payload (for stateless facilitator processing)
     paymentPayload.paymentRequirements = paymentRequirements;
 
-    // Call core's settle method
-    const result = await coreSettle(facilitatorUrl, paymentPayload, paymentRequirements, timeout);
+    // Call core's settle method (the pool applies its own settle timeout)
+    const result =
+      typeof facilitator === "string"
+        ? await coreSettle(facilitator, paymentPayload, paymentRequirements, timeout)
+        : await facilitator.settle(paymentPayload, paymentRequirements);
 
     return {
       success: result.success,
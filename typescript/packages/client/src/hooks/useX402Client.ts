@@ -125,6 +125,7 @@ export function useX402Client(config?: UseX402ClientConfig): X402Client | null {
         wallet: extendedWallet,
         network,
         facilitatorUrl: config?.facilitatorUrl,
+        facilitators: config?.facilitators,
         networkConfig: config?.networkConfig,
         timeout: config?.timeout,
         confirmationTimeout: config?.confirmationTimeout,
@@ -139,6 +140,7 @@ export function useX402Client(config?: UseX402ClientConfig): X402Client | null {
     chainId,
     config?.network,
     config?.facilitatorUrl,
+    config?.facilitators,
     config?.networkConfig,
     config?.timeout,
     config?.confirmationTimeout,
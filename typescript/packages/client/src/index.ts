@@ -73,8 +73,15 @@ export { parseDefaultAssetAmount, formatDefaultAssetAmount, AmountError } from "
 export { useX402Client } from "./hooks/useX402Client.js";
 export { useExecute } from "./hooks/useExecute.js";
 
+// Re-export multi-facilitator support from @x402x/core
+export { FacilitatorPool } from "@x402x/core";
+
 // Re-export core types for convenience
-export type { FeeCalculationResult } from "@x402x/core";
+export type {
+  FeeCalculationResult,
+  MultiFacilitatorConfig,
+  FacilitatorSelectionStrategy,
+} from "@x402x/core";
 
 // Export types
 export type {
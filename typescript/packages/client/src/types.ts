@@ -3,7 +3,7 @@
  */
 
 import type { Address, Hex, WalletClient, TransactionReceipt } from "viem";
-import type { NetworkConfig } from "@x402x/core";
+import type { FacilitatorPool, MultiFacilitatorConfig, NetworkConfig } from "@x402x/core";
 import type { PaymentRequirements, PaymentPayload } from "x402/types";
 
 /**
@@ -28,6 +28,11 @@ export interface X402ClientConfig {
   network: string;
   /** Optional: Facilitator URL (default: https://facilitator.x402x.dev/) */
   facilitatorUrl?: string;
+  /**
+   * Optional: Several facilitators to fail over between (takes precedence over facilitatorUrl).
+   * Pass a FacilitatorPool to share health checks between clients.
+   */
+  facilitators?: MultiFacilitatorConfig | FacilitatorPool;
   /** Optional: Custom network configuration (overrides built-in) */
   networkConfig?: NetworkConfig;
   /** Optional: Timeout for facilitator requests in milliseconds (default: 30000) */
@@ -120,6 +125,8 @@ export interface SettlementData {
   payTo: Address;
   /** Facilitator fee amount in atomic units */
   facilitatorFee: string;
+  /** Signed fee quote from the facilitator (present when the fee was queried) */
+  feeQuoteId?: string;
   /** Hook contract address */
   hook: Address;
   /** Encoded hook data */
@@ -171,6 +178,8 @@ export interface PrepareParams {
   networkConfig?: NetworkConfig;
   /** Optional: Facilitator URL for fee query */
   facilitatorUrl?: string;
+  /** Optional: Facilitator pool for fee query (takes precedence over facilitatorUrl) */
+  facilitators?: FacilitatorPool;
 }
 
 /**
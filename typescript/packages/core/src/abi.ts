@@ -5,7 +5,8 @@
 /**
  * Settlement Router ABI
  *
- * Contains functions used by facilitators for settlement and fee management.
+ * Contains functions used by facilitators for settlement and fee management,
+ * and the settlement events and errors of the router.
  */
 export const SETTLEMENT_ROUTER_ABI = [
   {
@@ -28,6 +29,32 @@ export const SETTLEMENT_ROUTER_ABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "settleAndExecuteBatch",
+    inputs: [
+      {
+        name: "items",
+        type: "tuple[]",
+        components: [
+          { name: "token", type: "address" },
+          { name: "from", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "validAfter", type: "uint256" },
+          { name: "validBefore", type: "uint256" },
+          { name: "nonce", type: "bytes32" },
+          { name: "signature", type: "bytes" },
+          { name: "salt", type: "bytes32" },
+          { name: "payTo", type: "address" },
+          { name: "facilitatorFee", type: "uint256" },
+          { name: "hook", type: "address" },
+          { name: "hookData", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [{ name: "results", type: "bool[]" }],
+    stateMutability: "nonpayable",
+  },
   {
     type: "function",
     name: "getPendingFees",
@@ -45,4 +72,109 @@ export const SETTLEMENT_ROUTER_ABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "isSettled",
+    inputs: [{ name: "contextKey", type: "bytes32" }],
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+  },
+  {
+    type: "event",
+    name: "Settled",
+    inputs: [
+      { name: "contextKey", type: "bytes32", indexed: true },
+      { name: "payer", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "hook", type: "address", indexed: false },
+      { name: "salt", type: "bytes32", indexed: false },
+      { name: "payTo", type: "address", indexed: false },
+      { name: "facilitatorFee", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "HookExecuted",
+    inputs: [
+      { name: "contextKey", type: "bytes32", indexed: true },
+      { name: "hook", type: "address", indexed: true },
+      { name: "returnData", type: "bytes", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "FeeAccumulated",
+    inputs: [
+      { name: "facilitator", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "SettlementFailed",
+    inputs: [
+      { name: "contextKey", type: "bytes32", indexed: true },
+      { name: "index", type: "uint256", indexed: false },
+      { name: "reason", type: "bytes", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "BatchSettled",
+    inputs: [
+      { name: "facilitator", type: "address", indexed: true },
+      { name: "total", type: "uint256", indexed: false },
+      { name: "succeeded", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "error",
+    name: "AlreadySettled",
+    inputs: [{ name: "contextKey", type: "bytes32" }],
+  },
+  {
+    type: "error",
+    name: "InvalidCommitment",
+    inputs: [
+      { name: "expected", type: "bytes32" },
+      { name: "actual", type: "bytes32" },
+    ],
+  },
+  {
+    type: "error",
+    name: "TransferFailed",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "expected", type: "uint256" },
+      { name: "actual", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "RouterShouldNotHoldFunds",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "balance", type: "uint256" },
+    ],
+  },
+  {
+    type: "error",
+    name: "HookExecutionFailed",
+    inputs: [
+      { name: "hook", type: "address" },
+      { name: "reason", type: "bytes" },
+    ],
+  },
+  {
+    type: "error",
+    name: "InsufficientBalanceForRecovery",
+    inputs: [
+      { name: "token", type: "address" },
+      { name: "required", type: "uint256" },
+      { name: "available", type: "uint256" },
+    ],
+  },
+  { type: "error", name: "Unauthorized", inputs: [] },
 ] as const;
@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { parseDefaultAssetAmount, formatDefaultAssetAmount, AmountError } from "./amount.js";
+import {
+  parseDefaultAssetAmount,
+  formatDefaultAssetAmount,
+  parseAssetAmount,
+  toAssetPrice,
+  AmountError,
+} from "./amount.js";
+import { findNetworkAsset, getNetworkConfig } from "./networks.js";
 
 describe("parseDefaultAssetAmount", () => {
   it("should parse dollar format", () => {
@@ -111,3 +118,49 @@ describe("round-trip conversion", () => {
     }
   });
 });
+
+describe("parseAssetAmount", () => {
+  it("should parse amounts denominated in the asset", () => {
+    expect(parseAssetAmount("5", "base", "EURC")).toBe("5000000");
+    expect(parseAssetAmount(0.25, "base", "EURC")).toBe("250000");
+    expect(parseAssetAmount("$ 1.2", "base", "eurc")).toBe("1200000");
+  });
+
+  it("should use the decimals of the asset", () => {
+    expect(parseAssetAmount("1", "bsc", "USDT")).toBe("1000000000000000000");
+  });
+
+  it("should throw for unsupported assets", () => {
+    expect(() => parseAssetAmount("1", "x-layer", "EURC")).toThrow(AmountError);
+  });
+});
+
+describe("toAssetPrice", () => {
+  it("should keep USD prices for the default asset", () => {
+    expect(toAssetPrice("$0.10", "base")).toBe("$0.10");
+    expect(toAssetPrice("$0.10", "base", "USDC")).toBe("$0.10");
+  });
+
+  it("should convert prices for other assets to token amounts", () => {
+    const eurc = findNetworkAsset("base", "EURC")!;
+
+    expect(toAssetPrice("2.5", "base", eurc.address)).toEqual({
+      amount: "2500000",
+      asset: { address: eurc.address, decimals: 6, eip712: eurc.eip712 },
+    });
+  });
+
+  it("should leave explicit token amounts untouched", () => {
+    const { defaultAsset } = getNetworkConfig("base");
+    const price = {
+      amount: "1",
+      asset: {
+        address: defaultAsset.address as `0x${string}`,
+        decimals: 6,
+        eip712: defaultAsset.eip712,
+      },
+    };
+
+    expect(toAssetPrice(price, "base", "EURC")).toBe(price);
+  });
+});
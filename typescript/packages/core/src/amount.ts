@@ -1,8 +1,11 @@
 /**
- * Amount parsing and formatting utilities for x402x default asset (USDC)
+ * Amount parsing and formatting utilities for x402x settlement assets
  */
 
+import { parseUnits } from "viem";
 import { processPriceToAtomicAmount, getDefaultAsset } from "x402/shared";
+import { moneySchema, type Price } from "x402/types";
+import { findNetworkAsset, getNetworkConfig } from "./networks.js";
 
 /**
  * Error class for amount-related validation errors
@@ -94,3 +97,91 @@ export function formatDefaultAssetAmount(amount: string, network: string): strin
   }
   return integerPart;
 }
+
+/**
+ * Parse amount to atomic units for a settlement asset
+ *
+ * Amounts are denominated in the asset itself, so '5' with EURC is 5 EURC
+ * ('5000000'). A leading '$' is accepted for consistency with the default asset.
+ *
+ * @param amount - Amount in the asset's unit (not atomic units)
+ * @param network - Network name
+ * @param asset - Asset contract address or symbol (e.g., 'EURC')
+ * @returns Amount in atomic units as string
+ * @throws AmountError if the asset is not supported or the amount format is invalid
+ *
+ * @example
+ * ```typescript
+ * parseAssetAmount('5', 'base', 'EURC')     // '5000000'
+ * parseAssetAmount(0.25, 'base', 'EURC')    // '250000'
+ * ```
+ */
+export function parseAssetAmount(amount: string | number, network: string, asset: string): string {
+  if (amount === null || amount === undefined || amount === "") {
+    throw new AmountError("Amount is required");
+  }
+
+  const assetConfig = findNetworkAsset(network, asset);
+  if (!assetConfig) {
+    throw new AmountError(`Asset ${asset} is not supported on ${network}`);
+  }
+
+  const parsed = moneySchema.safeParse(amount);
+  if (!parsed.success) {
+    throw new AmountError(`Invalid amount format: ${parsed.error.message}`);
+  }
+
+  // Parse the original text rather than the coerced number to avoid float rounding
+  const text = String(amount)
+    .trim()
+    .replace(/^\$\s*/, "");
+  try {
+    return parseUnits(text, assetConfig.decimals).toString();
+  } catch {
+    throw new AmountError(`Invalid amount format: ${amount}`);
+  }
+}
+
+/**
+ * Resolve a route price for a settlement asset
+ *
+ * Returns the price unchanged for the default asset (USD semantics, as in x402),
+ * and an ERC-20 token amount for other assets so that x402's
+ * processPriceToAtomicAmount uses the asset's address, decimals and EIP-712 domain.
+ *
+ * @param price - Route price (Money or token amount)
+ * @param network - Network name
+ * @param asset - Optional asset contract address or symbol; defaults to the network's default asset
+ * @returns Price to pass to processPriceToAtomicAmount
+ * @throws AmountError if the asset is not supported or the amount format is invalid
+ *
+ * @example
+ * ```typescript
+ * const result = processPriceToAtomicAmount(toAssetPrice('5', 'base', 'EURC'), 'base');
+ * // result.asset.address => EURC address, result.maxAmountRequired => '5000000'
+ * ```
+ */
+export function toAssetPrice(price: Price, network: string, asset?: string): Price {
+  if (!asset || typeof price === "object") {
+    return price;
+  }
+
+  const assetConfig = findNetworkAsset(network, asset);
+  if (!assetConfig) {
+    throw new AmountError(`Asset ${asset} is not supported on ${network}`);
+  }
+
+  const defaultAsset = getNetworkConfig(network).defaultAsset;
+  if (assetConfig.address.toLowerCase() === defaultAsset.address.toLowerCase()) {
+    return price;
+  }
+
+  return {
+    amount: parseAssetAmount(price, network, asset),
+    asset: {
+      address: assetConfig.address as `0x${string}`,
+      decimals: assetConfig.decimals,
+      eip712: assetConfig.eip712,
+    },
+  };
+}
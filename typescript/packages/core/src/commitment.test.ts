@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
-import { calculateCommitment, generateSalt, validateCommitmentParams } from "./commitment";
+import {
+  calculateCommitment,
+  calculateContextKey,
+  generateSalt,
+  validateCommitmentParams,
+} from "./commitment";
+import { encodePacked, keccak256 } from "viem";
 import type { CommitmentParams } from "./types";
 import { mockCommitmentParams, mockAddresses, invalidAddresses } from "./__tests__/fixtures";
 
@@ -87,6 +93,25 @@ describe("calculateCommitment", () => {
   });
 });
 
+describe("calculateContextKey", () => {
+  it("should hash payer, token and nonce like SettlementRouter", () => {
+    const nonce = calculateCommitment(mockCommitmentParams);
+
+    expect(calculateContextKey(mockAddresses.from, mockAddresses.asset, nonce)).toBe(
+      keccak256(
+        encodePacked(
+          ["address", "address", "bytes32"],
+          [
+            mockAddresses.from as `0x${string}`,
+            mockAddresses.asset as `0x${string}`,
+            nonce as `0x${string}`,
+          ],
+        ),
+      ),
+    );
+  });
+});
+
 describe("generateSalt", () => {
   it("should generate a valid bytes32 hex string", () => {
     const salt = generateSalt();
@@ -74,6 +74,23 @@ export function calculateCommitment(params: CommitmentParams): string {
   );
 }
 
+/**
+ * Calculate the SettlementRouter context key of a payment
+ *
+ * The router records settled payments under this key (`isSettled(contextKey)`);
+ * in SettlementRouter mode the nonce is the commitment hash.
+ *
+ * @param from - Payer address
+ * @param token - Token address
+ * @param nonce - EIP-3009 nonce (the commitment)
+ * @returns bytes32 context key, same as SettlementRouter.calculateContextKey
+ */
+export function calculateContextKey(from: string, token: string, nonce: string): Hex {
+  return keccak256(
+    encodePacked(["address", "address", "bytes32"], [from as Hex, token as Hex, nonce as Hex]),
+  );
+}
+
 /**
  * Generate a random salt for settlement uniqueness
  *
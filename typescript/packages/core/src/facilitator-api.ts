@@ -0,0 +1,304 @@
+/**
+ * Facilitator HTTP API models
+ *
+ * Request and response bodies of the facilitator's HTTP endpoints. The facilitator
+ * routes build their responses from these types and `@x402x/facilitator-client`
+ * parses them, so both sides of the wire stay in sync.
+ *
+ * Amounts are decimal strings in the token's smallest unit, timestamps are ISO 8601.
+ */
+
+import type { Hex } from "viem";
+import type { PaymentPayload, PaymentRequirements } from "./types.js";
+import type { SettleResponse } from "./facilitator.js";
+
+/**
+ * Error body returned with every non-2xx response
+ */
+export interface FacilitatorErrorResponse {
+  /** Short error title, e.g. "Duplicate payer in queue" */
+  error: string;
+  /** Human readable details */
+  message?: string;
+  /** Seconds after which the request may be retried */
+  retryAfter?: number;
+}
+
+/**
+ * GET /health
+ */
+export interface HealthResponse {
+  status: "ok";
+  timestamp: string;
+  /** Process uptime in seconds */
+  uptime: number;
+}
+
+/**
+ * Single readiness check of GET /ready; checks may carry extra details
+ */
+export interface ReadinessCheck {
+  /** "ok", "warning" or "error" */
+  status: string;
+  message?: string;
+  [detail: string]: unknown;
+}
+
+/**
+ * GET /ready
+ */
+export interface ReadinessResponse {
+  status: "ready" | "not_ready";
+  timestamp: string;
+  /** Individual readiness checks keyed by name */
+  checks: Record<string, ReadinessCheck>;
+}
+
+/**
+ * Payment kind supported by the facilitator
+ */
+export interface SupportedPaymentKind {
+  x402Version: number;
+  scheme: "exact";
+  network: string;
+}
+
+/**
+ * GET /supported
+ */
+export interface SupportedResponse {
+  kinds: SupportedPaymentKind[];
+}
+
+/**
+ * POST /verify
+ */
+export interface VerifyRequest {
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+}
+
+/**
+ * POST /settle
+ */
+export interface SettleRequest {
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  /** Respond with a settlement job once the transaction is submitted */
+  async?: boolean;
+  /** Callback URL notified when the settlement job finishes (implies async) */
+  webhookUrl?: string;
+}
+
+/**
+ * Asynchronous settlement job status
+ */
+export type SettlementJobStatus = "pending" | "confirmed" | "failed";
+
+/**
+ * Webhook delivery state of a settlement job
+ */
+export interface SettlementJobWebhook {
+  /** Callback URL */
+  url: string;
+  /** Whether the callback was acknowledged with a 2xx response */
+  delivered: boolean;
+  /** Number of delivery attempts made */
+  attempts: number;
+  /** Last delivery error, if any */
+  lastError?: string;
+}
+
+/**
+ * Asynchronous settlement job (POST /settle with `async`, GET /settle/:id)
+ */
+export interface SettlementJob {
+  /** Job identifier returned to the client */
+  id: string;
+  status: SettlementJobStatus;
+  network: string;
+  payer?: string;
+  /** Transaction hash once submitted */
+  transaction?: string;
+  /** Final settlement response (confirmed / failed) */
+  response?: SettleResponse;
+  /** Error message when the settlement raised an error */
+  error?: string;
+  webhook?: SettlementJobWebhook;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Decoded router event of a simulation
+ */
+export interface SimulatedEvent {
+  name: string;
+  /** Emitting contract */
+  address: string;
+  /** Event arguments (integers as decimal strings) */
+  args: Record<string, unknown>;
+}
+
+/**
+ * Token balance change of a settlement participant
+ */
+export interface SimulatedBalanceChange {
+  role: "payer" | "payTo" | "hook";
+  address: string;
+  /** Balances and delta in the token's smallest unit */
+  before: string;
+  after: string;
+  delta: string;
+}
+
+/**
+ * Decoded revert of the settlement call
+ */
+export interface SimulatedRevert {
+  /** Error name (e.g. "HookExecutionFailed", "Error", "Panic"), or "unknown" */
+  error: string;
+  /** Error arguments (integers as decimal strings) */
+  args?: Record<string, unknown>;
+  /** Decoded revert of the hook for HookExecutionFailed */
+  hookRevert?: SimulatedRevert;
+  /** Raw revert data */
+  data: Hex;
+}
+
+/**
+ * Result of a settlement simulation
+ */
+export interface SettlementSimulation {
+  /** Whether settleAndExecute would succeed */
+  success: boolean;
+  /** RPC method used: eth_simulateV1 returns events and balance changes, eth_call does not */
+  method: "eth_simulateV1" | "eth_call";
+  gasUsed?: string;
+  events: SimulatedEvent[];
+  balanceChanges: SimulatedBalanceChange[];
+  revert?: SimulatedRevert;
+}
+
+/**
+ * POST /simulate (request body as for POST /verify)
+ */
+export interface SimulateResponse extends SettlementSimulation {
+  network: string;
+  settlementRouter: string;
+  /** Facilitator account simulated as the transaction sender */
+  facilitator: string;
+}
+
+/**
+ * GET /stats query
+ */
+export interface StatsQuery {
+  /** Restrict to these networks (defaults to all supported networks) */
+  networks?: string[];
+  /** Number of blocks scanned back from the latest block */
+  maxBlocks?: number;
+}
+
+/**
+ * Block range scanned for one network
+ */
+export interface StatsScannedRange {
+  network: string;
+  router: string;
+  fromBlock: string;
+  toBlock: string;
+  /** Settlements found in the range */
+  count: number;
+}
+
+/**
+ * Settlement totals of one payer
+ */
+export interface StatsPayer {
+  address: string;
+  txCount: number;
+  total: string;
+}
+
+/**
+ * Settlement totals of one hook
+ */
+export interface StatsHook {
+  address: string;
+  txCount: number;
+  uniquePayers: number;
+  total: string;
+}
+
+/**
+ * GET /stats
+ */
+export interface StatsResponse {
+  networks: string[];
+  scanned: StatsScannedRange[];
+  transactionsCount: number;
+  accountsCount: number;
+  totalValueAtomic: string;
+  payers: StatsPayer[];
+  topHooks: StatsHook[];
+}
+
+/**
+ * Facilitator fee pending in a SettlementRouter
+ */
+export interface PendingFeeEntry {
+  network: string;
+  /** SettlementRouter contract address */
+  router: string;
+  token: string;
+  facilitator: string;
+  amount: string;
+  /** Pending amount in USD (if price available) */
+  amountUSD?: string;
+}
+
+/**
+ * GET /pending-fees
+ */
+export interface PendingFeesResponse {
+  facilitator: string;
+  /** Queried networks, or "all" */
+  networksQueried: string[] | "all";
+  pendingFees: PendingFeeEntry[];
+  totalPending: string;
+  timestamp: string;
+}
+
+/**
+ * POST /claim-fees
+ */
+export interface ClaimFeesRequest {
+  /** Networks to claim from (optional, claims from all if not provided) */
+  networks?: string[];
+  /** Tokens to claim (optional, claims all eligible tokens if not provided) */
+  tokens?: string[];
+}
+
+/**
+ * Result of claiming the fees of one token on one network
+ */
+export interface FeeClaimEntry {
+  network: string;
+  token: string;
+  amount: string;
+  /** Claim transaction hash */
+  transaction?: string;
+  status: "success" | "skipped" | "failed";
+  error?: string;
+}
+
+/**
+ * POST /claim-fees response
+ */
+export interface ClaimFeesResponse {
+  success: boolean;
+  claims: FeeClaimEntry[];
+  totalClaimed: string;
+  timestamp: string;
+}
@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { FacilitatorPool, FacilitatorUnavailableError } from "./facilitator-pool";
+import { mockAddresses } from "./__tests__/fixtures";
+
+const publicClient = {
+  readContract: vi.fn(),
+  getBlockNumber: vi.fn(),
+  getContractEvents: vi.fn(),
+};
+
+vi.mock("viem", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("viem")>()),
+  createPublicClient: () => publicClient,
+}));
+
+const PRIMARY = "https://primary.example.com";
+const BACKUP = "https://backup.example.com";
+
+const paymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    signature: "0x",
+    authorization: { from: mockAddresses.from, nonce: "0x" + "1".repeat(64) },
+  },
+} as any;
+
+const routerRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  asset: mockAddresses.asset,
+  payTo: mockAddresses.hub,
+  extra: {
+    settlementRouter: mockAddresses.hub,
+    salt: "0x" + "0".repeat(64),
+    payTo: mockAddresses.payTo,
+    facilitatorFee: "10000",
+    hook: mockAddresses.hook,
+    hookData: "0x",
+  },
+} as any;
+
+const standardRequirements = { ...routerRequirements, extra: undefined } as any;
+
+type Handler = (url: URL, init?: RequestInit) => Response | undefined;
+
+/**
+ * JSON response
+ *
+ * @param status - HTTP status
+ * @param body - Response body
+ * @returns Response
+ */
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Pool whose facilitators are answered by per-URL handlers
+ *
+ * GET /health and GET /supported succeed unless a handler answers them. Facilitators are
+ * ordered by priority so that measured latencies do not change the order.
+ *
+ * @param handlers - Handler per facilitator base URL
+ * @param config - Extra pool configuration
+ * @returns Pool and fetch mock
+ */
+function createPool(
+  handlers: Record<string, Handler>,
+  config: Partial<ConstructorParameters<typeof FacilitatorPool>[0]> = {},
+) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = input as URL;
+    const response = await handlers[url.origin]?.(url, init);
+    if (response) {
+      return response;
+    }
+    if (url.pathname === "/health") {
+      return json(200, { status: "healthy" });
+    }
+    if (url.pathname === "/supported") {
+      return json(200, { kinds: [{ x402Version: 1, scheme: "exact", network: "base-sepolia" }] });
+    }
+    throw new TypeError("fetch failed");
+  });
+  const pool = new FacilitatorPool({
+    facilitators: Object.keys(handlers),
+    strategy: "priority",
+    fetch: fetchMock as unknown as typeof fetch,
+    ...config,
+  });
+  return { pool, fetchMock };
+}
+
+/**
+ * Paths requested from one facilitator
+ *
+ * @param fetchMock - Fetch mock of the pool
+ * @param origin - Facilitator base URL
+ * @returns Requested paths in order
+ */
+function requests(fetchMock: ReturnType<typeof createPool>["fetchMock"], origin: string): string[] {
+  return fetchMock.mock.calls
+    .map(([url]) => url as URL)
+    .filter((url) => url.origin === origin)
+    .map((url) => url.pathname);
+}
+
+describe("FacilitatorPool", () => {
+  beforeEach(() => {
+    publicClient.readContract.mockReset();
+    publicClient.getBlockNumber.mockReset().mockResolvedValue(5000n);
+    publicClient.getContractEvents.mockReset().mockResolvedValue([]);
+  });
+
+  describe("health and selection", () => {
+    it("should skip facilitators that do not support the network", async () => {
+      const { pool } = createPool({
+        [PRIMARY]: (url) =>
+          url.pathname === "/supported"
+            ? json(200, { kinds: [{ x402Version: 1, scheme: "exact", network: "base" }] })
+            : undefined,
+        [BACKUP]: () => undefined,
+      });
+
+      await pool.checkHealth();
+
+      expect(pool.select("base-sepolia")).toEqual([BACKUP]);
+      expect(pool.select("base")).toEqual([PRIMARY]);
+    });
+
+    it("should prefer healthy facilitators", async () => {
+      const { pool } = createPool({
+        [PRIMARY]: (url) => (url.pathname === "/health" ? json(503, {}) : undefined),
+        [BACKUP]: () => undefined,
+      });
+
+      const statuses = await pool.checkHealth();
+
+      expect(statuses[0]).toMatchObject({ url: PRIMARY, healthy: false });
+      expect(pool.select("base-sepolia")).toEqual([BACKUP, PRIMARY]);
+    });
+
+    it("should use the facilitator with the lowest fee under the fee strategy", async () => {
+      const fee = (facilitatorFee: string) => (url: URL) =>
+        url.pathname === "/calculate-fee"
+          ? json(200, { network: "base-sepolia", hook: mockAddresses.hook, facilitatorFee })
+          : undefined;
+      const { pool } = createPool(
+        { [PRIMARY]: fee("20000"), [BACKUP]: fee("10000") },
+        { strategy: "fee" },
+      );
+
+      const result = await pool.calculateFee("base-sepolia", mockAddresses.hook, "0x");
+
+      expect(result).toMatchObject({ facilitatorFee: "10000", facilitatorUrl: BACKUP });
+      expect(pool.select("base-sepolia")[0]).toBe(BACKUP);
+    });
+  });
+
+  describe("verify", () => {
+    it("should fail over on transport errors", async () => {
+      const { pool } = createPool({
+        [PRIMARY]: (url) => (url.pathname === "/verify" ? json(502, {}) : undefined),
+        [BACKUP]: (url) =>
+          url.pathname === "/verify" ? json(200, { isValid: true, payer: "0x1" }) : undefined,
+      });
+
+      await expect(pool.verify(paymentPayload, routerRequirements)).resolves.toMatchObject({
+        isValid: true,
+      });
+      expect(pool.getStatus()[0].healthy).toBe(false);
+    });
+
+    it("should not fail over on rejected requests", async () => {
+      const { pool, fetchMock } = createPool({
+        [PRIMARY]: (url) =>
+          url.pathname === "/verify" ? json(400, { error: "Invalid request payload" }) : undefined,
+        [BACKUP]: () => undefined,
+      });
+
+      const error = await pool.verify(paymentPayload, routerRequirements).catch((e) => e);
+
+      expect(error).not.toBeInstanceOf(FacilitatorUnavailableError);
+      expect(requests(fetchMock, BACKUP)).not.toContain("/verify");
+    });
+  });
+
+  describe("settle", () => {
+    const settled = {
+      success: true,
+      transaction: "0xbackup",
+      network: "base-sepolia",
+      payer: mockAddresses.from,
+    };
+
+    it("should fail over when the payment was not settled", async () => {
+      publicClient.readContract.mockResolvedValue(false);
+      const { pool } = createPool({
+        [PRIMARY]: (url) => (url.pathname === "/settle" ? json(502, {}) : undefined),
+        [BACKUP]: (url) => (url.pathname === "/settle" ? json(200, settled) : undefined),
+      });
+
+      await expect(pool.settle(paymentPayload, routerRequirements)).resolves.toEqual(settled);
+      expect(publicClient.readContract).toHaveBeenCalledWith(
+        expect.objectContaining({ functionName: "isSettled" }),
+      );
+    });
+
+    it("should not settle again when the failed facilitator settled the payment", async () => {
+      publicClient.readContract.mockResolvedValue(true);
+      publicClient.getContractEvents.mockResolvedValue([{ transactionHash: "0xprimary" }]);
+      const { pool, fetchMock } = createPool({
+        [PRIMARY]: (url) => (url.pathname === "/settle" ? json(504, {}) : undefined),
+        [BACKUP]: (url) => (url.pathname === "/settle" ? json(200, settled) : undefined),
+      });
+
+      await expect(pool.settle(paymentPayload, routerRequirements)).resolves.toEqual({
+        success: true,
+        transaction: "0xprimary",
+        network: "base-sepolia",
+        payer: mockAddresses.from,
+      });
+      expect(requests(fetchMock, BACKUP)).not.toContain("/settle");
+    });
+
+    it("should report a settlement that raced the fallback facilitator", async () => {
+      publicClient.readContract.mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+      const { pool } = createPool({
+        [PRIMARY]: (url) => (url.pathname === "/settle" ? json(502, {}) : undefined),
+        [BACKUP]: (url) =>
+          url.pathname === "/settle"
+            ? json(200, { ...settled, success: false, transaction: "", errorReason: "nonce used" })
+            : undefined,
+      });
+
+      await expect(pool.settle(paymentPayload, routerRequirements)).resolves.toMatchObject({
+        success: true,
+      });
+    });
+
+    it("should not fail over standard x402 settlements", async () => {
+      const { pool, fetchMock } = createPool({
+        [PRIMARY]: (url) => (url.pathname === "/settle" ? json(502, {}) : undefined),
+        [BACKUP]: (url) => (url.pathname === "/settle" ? json(200, settled) : undefined),
+      });
+
+      await expect(pool.settle(paymentPayload, standardRequirements)).rejects.toBeInstanceOf(
+        FacilitatorUnavailableError,
+      );
+      expect(requests(fetchMock, BACKUP)).not.toContain("/settle");
+      expect(publicClient.readContract).not.toHaveBeenCalled();
+    });
+
+    it.each([429, 503])(
+      "should fail over standard x402 settlements refused with %i",
+      async (status) => {
+        const { pool } = createPool({
+          [PRIMARY]: (url) => (url.pathname === "/settle" ? json(status, {}) : undefined),
+          [BACKUP]: (url) => (url.pathname === "/settle" ? json(200, settled) : undefined),
+        });
+
+        await expect(pool.settle(paymentPayload, standardRequirements)).resolves.toEqual(settled);
+        expect(publicClient.readContract).not.toHaveBeenCalled();
+      },
+    );
+
+    it("should not check the router after a refusal", async () => {
+      const { pool } = createPool({
+        [PRIMARY]: (url) => (url.pathname === "/settle" ? json(429, {}) : undefined),
+        [BACKUP]: (url) =>
+          url.pathname === "/settle"
+            ? json(200, { ...settled, success: false, transaction: "", errorReason: "expired" })
+            : undefined,
+      });
+
+      await expect(pool.settle(paymentPayload, routerRequirements)).resolves.toMatchObject({
+        success: false,
+        errorReason: "expired",
+      });
+      expect(publicClient.readContract).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,650 @@
+/**
+ * Multi-facilitator support for x402x
+ *
+ * A FacilitatorPool spreads verify, settle and fee requests over several facilitators
+ * so that an outage of one facilitator does not stop payments:
+ * - Endpoints are health-checked via GET /health (latency) and GET /supported (networks)
+ * - Requests go to the best healthy endpoint for the network (by latency, fee or priority)
+ * - Transport errors (unreachable, timeout, 429, 5xx) fail over to the next endpoint
+ *
+ * Settlements never run twice: before a settlement is handed to another facilitator,
+ * the SettlementRouter is asked whether the payment's context key (derived from the
+ * commitment nonce) is already settled. Standard x402 payments (no SettlementRouter)
+ * cannot be checked this way and are not failed over once submitted. A 429 or 503
+ * means the facilitator refused the request before doing any work, so any payment
+ * fails over from it without a check.
+ */
+
+import { createPublicClient, http, type Hex, type PublicClient } from "viem";
+import { evm } from "x402/types";
+import { SETTLEMENT_ROUTER_ABI } from "./abi.js";
+import { calculateContextKey } from "./commitment.js";
+import {
+  facilitatorEndpoint,
+  FeeCache,
+  isSettlementMode,
+  parseSettlementExtra,
+  type FeeCalculationResult,
+  type SettleResponse,
+  type VerifyResponse,
+} from "./facilitator.js";
+import type { FacilitatorErrorResponse, SupportedResponse } from "./facilitator-api.js";
+import type { PaymentPayload, PaymentRequirements } from "./types.js";
+
+/** Blocks searched for the Settled event of a payment settled by another facilitator */
+const SETTLED_EVENT_LOOKBACK_BLOCKS = 1000n;
+
+/**
+ * Facilitator endpoint of a pool
+ */
+export interface FacilitatorEndpointConfig {
+  /** Facilitator base URL */
+  url: string;
+  /** Lower values are preferred by the "priority" strategy (default: position in the list) */
+  priority?: number;
+}
+
+/**
+ * How the pool orders healthy facilitators
+ * - latency: fastest /health response first
+ * - fee: lowest quoted facilitator fee for the network first
+ * - priority: configured priority (list order by default)
+ */
+export type FacilitatorSelectionStrategy = "latency" | "fee" | "priority";
+
+/**
+ * Multi-facilitator configuration
+ */
+export interface MultiFacilitatorConfig {
+  /** Facilitator URLs or endpoint configurations */
+  facilitators: Array<string | FacilitatorEndpointConfig>;
+  /** Selection strategy (default: "latency") */
+  strategy?: FacilitatorSelectionStrategy;
+  /** Health results older than this are refreshed on the next request (default: 30000) */
+  healthCheckIntervalMs?: number;
+  /** Timeout for health checks, fee queries and verify requests (default: 10000) */
+  timeoutMs?: number;
+  /** Timeout for settle requests (default: 30000) */
+  settleTimeoutMs?: number;
+  /** RPC URL per network for settlement checks (default: the chain's public RPC) */
+  rpcUrls?: Record<string, string>;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Health of a pooled facilitator
+ */
+export interface FacilitatorStatus {
+  url: string;
+  healthy: boolean;
+  /** Round trip of the last GET /health in milliseconds */
+  latencyMs?: number;
+  /** Networks from GET /supported (empty until the first successful check) */
+  networks: string[];
+  /** ISO 8601 timestamp of the last health check */
+  lastCheckedAt?: string;
+  lastError?: string;
+}
+
+/**
+ * A facilitator could not serve the request (unreachable, timed out, 429 or 5xx)
+ *
+ * The request may be repeated against another facilitator.
+ */
+export class FacilitatorUnavailableError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "FacilitatorUnavailableError";
+    Object.setPrototypeOf(this, FacilitatorUnavailableError.prototype);
+  }
+}
+
+/**
+ * Check whether a facilitator refused a request before doing any work
+ *
+ * @param error - Facilitator error
+ * @returns True for rate limited (429) and unavailable (503) responses
+ */
+function isRefusal(error: FacilitatorUnavailableError): boolean {
+  return error.status === 429 || error.status === 503;
+}
+
+/**
+ * Pooled facilitator with its health and fee state
+ */
+interface PoolEndpoint {
+  url: string;
+  priority: number;
+  status: FacilitatorStatus;
+  /** Last quoted facilitator fee per network */
+  fees: Map<string, bigint>;
+}
+
+/**
+ * Facilitator pool with health checks, selection and failover
+ *
+ * @example
+ * ```typescript
+ * import { FacilitatorPool } from '@x402x/core';
+ *
+ * const pool = new FacilitatorPool({
+ *   facilitators: ['https://facilitator.x402x.dev', 'https://backup.example.com'],
+ *   strategy: 'latency',
+ * });
+ *
+ * const fee = await pool.calculateFee('base-sepolia', hook, hookData);
+ * const verification = await pool.verify(paymentPayload, paymentRequirements);
+ * const settlement = await pool.settle(paymentPayload, paymentRequirements);
+ * ```
+ */
+export class FacilitatorPool {
+  private readonly endpoints: PoolEndpoint[];
+  private readonly strategy: FacilitatorSelectionStrategy;
+  private readonly fetchImpl: typeof fetch;
+  /** Facilitator that quoted the fee last used for a network; it settles that network first */
+  private readonly quotedBy = new Map<string, string>();
+  private readonly publicClients = new Map<string, PublicClient>();
+  private readonly feeCache = new FeeCache(60);
+  private healthCheck?: Promise<FacilitatorStatus[]>;
+  private lastHealthCheck = 0;
+
+  /**
+   * Create a facilitator pool
+   *
+   * @param config - Multi-facilitator configuration
+   * @throws Error if no facilitator is configured
+   */
+  constructor(private readonly config: MultiFacilitatorConfig) {
+    if (config.facilitators.length === 0) {
+      throw new Error("At least one facilitator is required");
+    }
+
+    this.endpoints = config.facilitators.map((facilitator, index) => {
+      const { url, priority } =
+        typeof facilitator === "string" ? { url: facilitator, priority: undefined } : facilitator;
+      return {
+        url,
+        priority: priority ?? index,
+        status: { url, healthy: true, networks: [] },
+        fees: new Map(),
+      };
+    });
+    this.strategy = config.strategy ?? "latency";
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Facilitator URLs in configuration order
+   */
+  get urls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Current health of every facilitator
+   *
+   * @returns Facilitator statuses in configuration order
+   */
+  getStatus(): FacilitatorStatus[] {
+    return this.endpoints.map((endpoint) => ({ ...endpoint.status }));
+  }
+
+  /**
+   * Check every facilitator via GET /health and GET /supported
+   *
+   * Concurrent calls share one round of checks.
+   *
+   * @returns Facilitator statuses in configuration order
+   */
+  checkHealth(): Promise<FacilitatorStatus[]> {
+    this.healthCheck ??= Promise.all(
+      this.endpoints.map((endpoint) => this.checkEndpoint(endpoint)),
+    ).finally(() => {
+      this.lastHealthCheck = Date.now();
+      this.healthCheck = undefined;
+    });
+    return this.healthCheck;
+  }
+
+  /**
+   * Facilitators to try for a network, best first
+   *
+   * Healthy facilitators that support the network come first, ordered by the strategy.
+   * Unhealthy ones follow as a last resort.
+   *
+   * @param network - Payment network
+   * @returns Facilitator URLs in the order they are tried
+   */
+  select(network?: string): string[] {
+    const supports = (endpoint: PoolEndpoint) =>
+      !network ||
+      endpoint.status.networks.length === 0 ||
+      endpoint.status.networks.includes(network);
+    const quotedBy = network ? this.quotedBy.get(network) : undefined;
+
+    return this.endpoints
+      .filter(supports)
+      .sort(
+        (a, b) =>
+          Number(b.status.healthy) - Number(a.status.healthy) ||
+          Number(b.url === quotedBy) - Number(a.url === quotedBy) ||
+          this.compare(a, b, network),
+      )
+      .map((endpoint) => endpoint.url);
+  }
+
+  /**
+   * Query the facilitator fee
+   *
+   * With the "fee" strategy all healthy facilitators are asked and the lowest fee wins;
+   * otherwise the best facilitator answers, failing over on errors. The facilitator
+   * whose fee is used settles the network's payments first, so its fee quote is honoured.
+   *
+   * @param network - Network name
+   * @param hook - Hook contract address
+   * @param hookData - Optional encoded hook parameters
+   * @param asset - Optional settlement asset (address or symbol)
+   * @param useCache - Whether to use caching (default: true)
+   * @returns Fee calculation result and the facilitator that quoted it
+   * @throws Error from the last facilitator if none could answer
+   */
+  async calculateFee(
+    network: string,
+    hook: string,
+    hookData?: string,
+    asset?: string,
+    useCache: boolean = true,
+  ): Promise<FeeCalculationResult & { facilitatorUrl: string }> {
+    if (useCache) {
+      const cached = this.feeCache.get(network, hook, hookData, asset);
+      if (cached) {
+        return cached as FeeCalculationResult & { facilitatorUrl: string };
+      }
+    }
+
+    const candidates = await this.getCandidates(network);
+    const quote = async (url: string) => {
+      const result = await this.get<FeeCalculationResult>(
+        url,
+        "calculate-fee",
+        this.config.timeoutMs ?? 10000,
+        { network, hook, hookData, asset },
+      );
+      this.getEndpoint(url).fees.set(network, BigInt(result.facilitatorFee));
+      return { ...result, facilitatorUrl: url };
+    };
+
+    let result: (FeeCalculationResult & { facilitatorUrl: string }) | undefined;
+    let lastError: unknown;
+
+    if (this.strategy === "fee") {
+      const healthy = candidates.filter((url) => this.getEndpoint(url).status.healthy);
+      const quotes = await Promise.allSettled(
+        (healthy.length > 0 ? healthy : candidates).map(quote),
+      );
+      for (const settled of quotes) {
+        if (settled.status === "rejected") {
+          lastError = settled.reason;
+        } else if (
+          !result ||
+          BigInt(settled.value.facilitatorFee) < BigInt(result.facilitatorFee)
+        ) {
+          result = settled.value;
+        }
+      }
+    } else {
+      for (const url of candidates) {
+        try {
+          result = await quote(url);
+          break;
+        } catch (error) {
+          lastError = error;
+          this.markUnhealthy(url, error);
+        }
+      }
+    }
+
+    if (!result) {
+      throw lastError;
+    }
+    this.quotedBy.set(network, result.facilitatorUrl);
+    if (useCache) {
+      this.feeCache.set(result, asset);
+    }
+    return result;
+  }
+
+  /**
+   * Verify a payment, failing over on transport errors
+   *
+   * @param paymentPayload - Payment payload from client
+   * @param paymentRequirements - Payment requirements
+   * @returns Verification response of the first facilitator that answered
+   * @throws FacilitatorUnavailableError if no facilitator could answer
+   */
+  async verify(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<VerifyResponse> {
+    let lastError: unknown;
+
+    for (const url of await this.getCandidates(paymentRequirements.network)) {
+      try {
+        return await this.post<VerifyResponse>(
+          url,
+          "verify",
+          { paymentPayload, paymentRequirements },
+          this.config.timeoutMs ?? 10000,
+        );
+      } catch (error) {
+        if (!(error instanceof FacilitatorUnavailableError)) {
+          throw error;
+        }
+        lastError = error;
+        this.markUnhealthy(url, error);
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Settle a payment, failing over on transport errors without settling twice
+   *
+   * A facilitator that failed may still have submitted the settlement. Before another
+   * facilitator is tried, and when it reports a failure, the SettlementRouter is checked
+   * via `isSettled(contextKey)`; a settled payment is reported as successful. Refusals
+   * (429, 503) don't count as attempts.
+   *
+   * @param paymentPayload - Payment payload from client
+   * @param paymentRequirements - Payment requirements
+   * @returns Settlement response
+   * @throws FacilitatorUnavailableError if no facilitator could settle the payment
+   */
+  async settle(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<SettleResponse> {
+    const canFailOver = isSettlementMode(paymentRequirements);
+    let lastError: unknown;
+    let attempted = false;
+
+    for (const url of await this.getCandidates(paymentRequirements.network)) {
+      if (attempted) {
+        if (!canFailOver) {
+          break;
+        }
+        const settled = await this.findSettlement(paymentPayload, paymentRequirements);
+        if (settled) {
+          return settled;
+        }
+      }
+
+      try {
+        const response = await this.post<SettleResponse>(
+          url,
+          "settle",
+          { paymentPayload, paymentRequirements },
+          this.config.settleTimeoutMs ?? 30000,
+        );
+        if (!response.success && attempted && canFailOver) {
+          // The failed facilitator may have settled it after all
+          return (await this.findSettlement(paymentPayload, paymentRequirements)) ?? response;
+        }
+        return response;
+      } catch (error) {
+        if (!(error instanceof FacilitatorUnavailableError)) {
+          throw error;
+        }
+        lastError = error;
+        if (!isRefusal(error)) {
+          attempted = true;
+        }
+        this.markUnhealthy(url, error);
+      }
+    }
+
+    if (attempted && canFailOver) {
+      const settled = await this.findSettlement(paymentPayload, paymentRequirements);
+      if (settled) {
+        return settled;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Check a SettlementRouter payment on-chain
+   *
+   * @param paymentPayload - Payment payload from client
+   * @param paymentRequirements - Payment requirements with settlement extra
+   * @returns Settlement response if the payment is settled, undefined otherwise
+   */
+  async findSettlement(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+  ): Promise<SettleResponse | undefined> {
+    const { settlementRouter } = parseSettlementExtra(paymentRequirements.extra);
+    const { from, nonce } = (
+      paymentPayload.payload as { authorization: { from: string; nonce: string } }
+    ).authorization;
+    const contextKey = calculateContextKey(from, paymentRequirements.asset, nonce);
+    const client = this.getPublicClient(paymentRequirements.network);
+
+    const settled = await client.readContract({
+      address: settlementRouter as Hex,
+      abi: SETTLEMENT_ROUTER_ABI,
+      functionName: "isSettled",
+      args: [contextKey],
+    });
+    if (!settled) {
+      return undefined;
+    }
+
+    let transaction = "";
+    try {
+      const latest = await client.getBlockNumber();
+      const [event] = await client.getContractEvents({
+        address: settlementRouter as Hex,
+        abi: SETTLEMENT_ROUTER_ABI,
+        eventName: "Settled",
+        args: { contextKey },
+        fromBlock:
+          latest > SETTLED_EVENT_LOOKBACK_BLOCKS ? latest - SETTLED_EVENT_LOOKBACK_BLOCKS : 0n,
+      });
+      transaction = event?.transactionHash ?? "";
+    } catch {
+      // The transaction hash is informational; the router state is authoritative
+    }
+
+    return { success: true, transaction, network: paymentRequirements.network, payer: from };
+  }
+
+  /**
+   * Facilitators for a request, refreshing stale health results
+   *
+   * The first request waits for the initial health check; later ones use the current
+   * results and refresh them in the background.
+   *
+   * @param network - Payment network
+   * @returns Facilitator URLs in the order they are tried
+   */
+  private async getCandidates(network: string): Promise<string[]> {
+    const stale = Date.now() - this.lastHealthCheck > (this.config.healthCheckIntervalMs ?? 30000);
+    if (this.lastHealthCheck === 0) {
+      await this.checkHealth();
+    } else if (stale) {
+      void this.checkHealth();
+    }
+
+    const candidates = this.select(network);
+    if (candidates.length === 0) {
+      throw new Error(`No facilitator supports network: ${network}`);
+    }
+    return candidates;
+  }
+
+  /**
+   * Check one facilitator
+   *
+   * @param endpoint - Pooled facilitator
+   * @returns Updated status
+   */
+  private async checkEndpoint(endpoint: PoolEndpoint): Promise<FacilitatorStatus> {
+    const timeoutMs = this.config.timeoutMs ?? 10000;
+    const started = Date.now();
+
+    try {
+      await this.get(endpoint.url, "health", timeoutMs);
+      const latencyMs = Date.now() - started;
+      const supported = await this.get<SupportedResponse>(endpoint.url, "supported", timeoutMs);
+
+      endpoint.status = {
+        url: endpoint.url,
+        healthy: true,
+        latencyMs,
+        networks: supported.kinds.map((kind) => kind.network),
+        lastCheckedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      endpoint.status = {
+        ...endpoint.status,
+        healthy: false,
+        lastCheckedAt: new Date().toISOString(),
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+    }
+    return endpoint.status;
+  }
+
+  /**
+   * Order two healthy-equal facilitators by the strategy
+   *
+   * @param a - First facilitator
+   * @param b - Second facilitator
+   * @param network - Payment network
+   * @returns Negative if a comes first
+   */
+  private compare(a: PoolEndpoint, b: PoolEndpoint, network?: string): number {
+    if (this.strategy === "fee" && network) {
+      const feeA = a.fees.get(network);
+      const feeB = b.fees.get(network);
+      if (feeA !== undefined && feeB !== undefined && feeA !== feeB) {
+        return feeA < feeB ? -1 : 1;
+      }
+    }
+    if (this.strategy !== "priority") {
+      const latency =
+        (a.status.latencyMs ?? Number.MAX_SAFE_INTEGER) -
+        (b.status.latencyMs ?? Number.MAX_SAFE_INTEGER);
+      if (latency !== 0) {
+        return latency;
+      }
+    }
+    return a.priority - b.priority;
+  }
+
+  private markUnhealthy(url: string, error: unknown): void {
+    const endpoint = this.getEndpoint(url);
+    endpoint.status = {
+      ...endpoint.status,
+      healthy: false,
+      lastError: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  private getEndpoint(url: string): PoolEndpoint {
+    return this.endpoints.find((endpoint) => endpoint.url === url)!;
+  }
+
+  private getPublicClient(network: string): PublicClient {
+    let client = this.publicClients.get(network);
+    if (!client) {
+      const chain = evm.getChainFromNetwork(network);
+      client = createPublicClient({
+        chain,
+        transport: http(this.config.rpcUrls?.[network]),
+      }) as PublicClient;
+      this.publicClients.set(network, client);
+    }
+    return client;
+  }
+
+  private get<T>(
+    url: string,
+    endpoint: string,
+    timeoutMs: number,
+    query: Record<string, string | undefined> = {},
+  ): Promise<T> {
+    const target = facilitatorEndpoint(url, endpoint);
+    for (const [key, value] of Object.entries(query)) {
+      if (value) {
+        target.searchParams.set(key, value);
+      }
+    }
+    return this.send<T>(url, target, { method: "GET" }, timeoutMs);
+  }
+
+  private post<T>(url: string, endpoint: string, body: unknown, timeoutMs: number): Promise<T> {
+    return this.send<T>(
+      url,
+      facilitatorEndpoint(url, endpoint),
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+      timeoutMs,
+    );
+  }
+
+  /**
+   * Send a request to one facilitator
+   *
+   * @param url - Facilitator base URL
+   * @param target - Endpoint URL
+   * @param init - Request options
+   * @param timeoutMs - Timeout in milliseconds
+   * @returns Parsed response body
+   * @throws FacilitatorUnavailableError for transport errors, 429 and 5xx
+   * @throws Error for other non-2xx responses
+   */
+  private async send<T>(
+    url: string,
+    target: URL,
+    init: RequestInit,
+    timeoutMs: number,
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(target, {
+        ...init,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new FacilitatorUnavailableError(`Facilitator ${url} unreachable: ${message}`, url);
+    }
+
+    if (!response.ok) {
+      const body = (await response.json().catch(() => undefined)) as
+        | FacilitatorErrorResponse
+        | undefined;
+      const message = `Facilitator request ${target.origin}${target.pathname} failed: ${response.status} ${body?.error ?? response.statusText}`;
+      if (response.status === 429 || response.status >= 500) {
+        throw new FacilitatorUnavailableError(message, url, response.status);
+      }
+      throw new Error(body?.message ? `${message} - ${body.message}` : message);
+    }
+
+    try {
+      return (await response.json()) as T;
+    } catch {
+      throw new FacilitatorUnavailableError(`Facilitator ${url} returned invalid JSON`, url);
+    }
+  }
+}
@@ -87,9 +87,24 @@ export function parseSettlementExtra(extra: unknown): SettlementExtraCore {
     facilitatorFee: e.facilitatorFee,
     hook: e.hook,
     hookData: e.hookData,
+    ...(typeof e.feeQuoteId === "string" && { feeQuoteId: e.feeQuoteId }),
   };
 }
 
+/**
+ * Resolve a facilitator endpoint against the facilitator base URL
+ *
+ * Keeps any path prefix of the base URL (e.g. a facilitator behind `/x402/`).
+ *
+ * @param facilitatorUrl - Facilitator service base URL
+ * @param endpoint - Endpoint path without leading slash (e.g. "settle")
+ * @returns Endpoint URL
+ */
+export function facilitatorEndpoint(facilitatorUrl: string, endpoint: string): URL {
+  const baseUrl = facilitatorUrl.endsWith("/") ? facilitatorUrl : `${facilitatorUrl}/`;
+  return new URL(endpoint, baseUrl);
+}
+
 /**
  * Result of facilitator fee calculation
  *
@@ -101,6 +116,8 @@ export interface FeeCalculationResult {
   hook: string;
   hookData?: string;
   hookAllowed: boolean;
+  /** Why the hook passed the whitelist: "whitelist_disabled", "address" or "code_hash" */
+  hookAllowedReason?: "whitelist_disabled" | "address" | "code_hash";
 
   // Main result - recommended facilitator fee
   facilitatorFee: string; // Atomic units (e.g., USDC with 6 decimals)
@@ -109,6 +126,9 @@ export interface FeeCalculationResult {
   // Metadata
   calculatedAt: string; // ISO 8601 timestamp
   validitySeconds: number; // How long this fee is valid (typically 60 seconds)
+  /** Signed quote to pass as `feeQuoteId` in settlement extra; the fee is honoured until expiresAt */
+  feeQuoteId?: string;
+  expiresAt?: string; // ISO 8601 timestamp
 
   token: {
     address: string;
@@ -120,7 +140,7 @@ export interface FeeCalculationResult {
 /**
  * Simple in-memory cache for fee calculations
  */
-class FeeCache {
+export class FeeCache {
   private cache: Map<string, { result: FeeCalculationResult; expiresAt: number }> = new Map();
   private ttlMs: number;
 
@@ -128,12 +148,17 @@ class FeeCache {
     this.ttlMs = ttlSeconds * 1000;
   }
 
-  private getCacheKey(network: string, hook: string, hookData?: string): string {
-    return `${network}:${hook}:${hookData || ""}`;
+  private getCacheKey(network: string, hook: string, hookData?: string, asset?: string): string {
+    return `${network}:${hook}:${hookData || ""}:${asset?.toLowerCase() || ""}`;
   }
 
-  get(network: string, hook: string, hookData?: string): FeeCalculationResult | null {
-    const key = this.getCacheKey(network, hook, hookData);
+  get(
+    network: string,
+    hook: string,
+    hookData?: string,
+    asset?: string,
+  ): FeeCalculationResult | null {
+    const key = this.getCacheKey(network, hook, hookData, asset);
     const cached = this.cache.get(key);
 
     if (!cached) {
@@ -148,8 +173,8 @@ class FeeCache {
     return cached.result;
   }
 
-  set(result: FeeCalculationResult): void {
-    const key = this.getCacheKey(result.network, result.hook, result.hookData);
+  set(result: FeeCalculationResult, asset?: string): void {
+    const key = this.getCacheKey(result.network, result.hook, result.hookData, asset);
     this.cache.set(key, {
       result,
       expiresAt: Date.now() + this.ttlMs,
@@ -172,6 +197,7 @@ const feeCache = new FeeCache(60);
  * @param hook - Hook contract address
  * @param hookData - Optional encoded hook parameters
  * @param useCache - Whether to use caching (default: true)
+ * @param asset - Optional settlement asset (address or symbol); defaults to the network's default asset
  * @returns Fee calculation result with sufficient safety margin
  *
  * @example
@@ -191,30 +217,28 @@ export async function calculateFacilitatorFee(
   hook: string,
   hookData?: string,
   useCache: boolean = true,
+  asset?: string,
 ): Promise<FeeCalculationResult> {
   // Check cache first
   if (useCache) {
-    const cached = feeCache.get(network, hook, hookData);
+    const cached = feeCache.get(network, hook, hookData, asset);
     if (cached) {
       return cached;
     }
   }
 
-  // Remove trailing slash from URL
-  const baseUrl = facilitatorUrl.endsWith("/") ? facilitatorUrl.slice(0, -1) : facilitatorUrl;
-
   // Build query parameters
-  const params = new URLSearchParams({
-    network,
-    hook,
-  });
+  const url = facilitatorEndpoint(facilitatorUrl, "calculate-fee");
+  url.searchParams.set("network", network);
+  url.searchParams.set("hook", hook);
 
   if (hookData) {
-    params.append("hookData", hookData);
+    url.searchParams.set("hookData", hookData);
   }
 
-  // Query facilitator service
-  const url = `${baseUrl}/calculate-fee?${params.toString()}`;
+  if (asset) {
+    url.searchParams.set("asset", asset);
+  }
 
   try {
     const response = await fetch(url, {
@@ -242,7 +266,7 @@ export async function calculateFacilitatorFee(
 
     // Cache the result
     if (useCache) {
-      feeCache.set(result);
+      feeCache.set(result, asset);
     }
 
     return result;
@@ -330,9 +354,7 @@ export async function verify(
   paymentPayload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
 ): Promise<VerifyResponse> {
-  // Remove trailing slash from URL
-  const baseUrl = facilitatorUrl.endsWith("/") ? facilitatorUrl.slice(0, -1) : facilitatorUrl;
-  const url = `${baseUrl}/verify`;
+  const url = facilitatorEndpoint(facilitatorUrl, "verify");
 
   try {
     const response = await fetch(url, {
@@ -415,9 +437,7 @@ export async function settle(
   paymentRequirements: PaymentRequirements,
   timeout: number = 30000,
 ): Promise<SettleResponse> {
-  // Remove trailing slash from URL
-  const baseUrl = facilitatorUrl.endsWith("/") ? facilitatorUrl.slice(0, -1) : facilitatorUrl;
-  const url = `${baseUrl}/settle`;
+  const url = facilitatorEndpoint(facilitatorUrl, "settle");
 
   // Create abort controller for timeout
   const controller = new AbortController();
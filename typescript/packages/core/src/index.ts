@@ -28,6 +28,8 @@
 export type {
   CommitmentParams,
   NetworkConfig,
+  AssetConfig,
+  AssetPriceSource,
   SettlementExtra,
   SettlementExtraCore,
   PaymentRequirements,
@@ -39,7 +41,12 @@ export type {
 export { SettlementExtraError } from "./types.js";
 
 // Export commitment utilities
-export { calculateCommitment, generateSalt, validateCommitmentParams } from "./commitment.js";
+export {
+  calculateCommitment,
+  calculateContextKey,
+  generateSalt,
+  validateCommitmentParams,
+} from "./commitment.js";
 
 // Export network utilities
 export {
@@ -47,6 +54,9 @@ export {
   getNetworkConfig,
   isNetworkSupported,
   getSupportedNetworks,
+  getNetworkAssets,
+  findNetworkAsset,
+  isAssetSupported,
 } from "./networks.js";
 
 // Export builtin hooks
@@ -59,12 +69,19 @@ export type { MintConfig, RewardConfig } from "./hooks/demo.js";
 export { addSettlementExtra } from "./utils.js";
 
 // Export amount utilities
-export { parseDefaultAssetAmount, formatDefaultAssetAmount, AmountError } from "./amount.js";
+export {
+  parseDefaultAssetAmount,
+  formatDefaultAssetAmount,
+  parseAssetAmount,
+  toAssetPrice,
+  AmountError,
+} from "./amount.js";
 
 // Export facilitator API client utilities
 export {
   calculateFacilitatorFee,
   clearFeeCache,
+  facilitatorEndpoint,
   isSettlementMode,
   parseSettlementExtra,
   verify,
@@ -73,5 +90,45 @@ export {
 
 export type { FeeCalculationResult, VerifyResponse, SettleResponse } from "./facilitator.js";
 
+// Export multi-facilitator pool
+export { FacilitatorPool, FacilitatorUnavailableError } from "./facilitator-pool.js";
+
+export type {
+  FacilitatorEndpointConfig,
+  FacilitatorSelectionStrategy,
+  MultiFacilitatorConfig,
+  FacilitatorStatus,
+} from "./facilitator-pool.js";
+
+// Export facilitator HTTP API models
+export type {
+  FacilitatorErrorResponse,
+  HealthResponse,
+  ReadinessCheck,
+  ReadinessResponse,
+  SupportedPaymentKind,
+  SupportedResponse,
+  VerifyRequest,
+  SettleRequest,
+  SettlementJobStatus,
+  SettlementJobWebhook,
+  SettlementJob,
+  SimulatedEvent,
+  SimulatedBalanceChange,
+  SimulatedRevert,
+  SettlementSimulation,
+  SimulateResponse,
+  StatsQuery,
+  StatsScannedRange,
+  StatsPayer,
+  StatsHook,
+  StatsResponse,
+  PendingFeeEntry,
+  PendingFeesResponse,
+  ClaimFeesRequest,
+  FeeClaimEntry,
+  ClaimFeesResponse,
+} from "./facilitator-api.js";
+
 // Export ABI
 export { SETTLEMENT_ROUTER_ABI } from "./abi.js";
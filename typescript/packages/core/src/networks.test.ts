@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { networks, getNetworkConfig, isNetworkSupported, getSupportedNetworks } from "./networks";
+import {
+  networks,
+  getNetworkConfig,
+  isNetworkSupported,
+  getSupportedNetworks,
+  getNetworkAssets,
+  findNetworkAsset,
+  isAssetSupported,
+} from "./networks";
 
 /**
  * Network-specific expected values for testing
@@ -94,9 +102,10 @@ describe("networks", () => {
         /^0x[0-9a-fA-F]{40}$/,
       );
       expect(config.defaultAsset, `${networkName} should have defaultAsset`).toBeDefined();
-      expect(config.defaultAsset.address, `${networkName} should have defaultAsset.address`).toMatch(
-        /^0x[0-9a-fA-F]{40}$/,
-      );
+      expect(
+        config.defaultAsset.address,
+        `${networkName} should have defaultAsset.address`,
+      ).toMatch(/^0x[0-9a-fA-F]{40}$/);
       expect(
         config.defaultAsset.decimals,
         `${networkName} should have defaultAsset.decimals`,
@@ -301,3 +310,29 @@ describe("getSupportedNetworks", () => {
     expect(networkList.length).toBeGreaterThanOrEqual(6);
   });
 });
+
+describe("asset registry", () => {
+  it("should list the default asset first on every network", () => {
+    for (const network of getSupportedNetworks()) {
+      const [first] = getNetworkAssets(network);
+      expect(first).toEqual(getNetworkConfig(network).defaultAsset);
+      expect(first.priceSource).toEqual({ type: "usd" });
+    }
+  });
+
+  it("should find assets by address or symbol", () => {
+    const eurc = findNetworkAsset("base-sepolia", "eurc");
+    expect(eurc).toMatchObject({ symbol: "EURC", decimals: 6, eip712: { version: "2" } });
+    expect(findNetworkAsset("base-sepolia", eurc!.address.toLowerCase())).toBe(eurc);
+    expect(findNetworkAsset("x-layer", "EURC")).toBeUndefined();
+  });
+
+  it("should only accept registered token addresses", () => {
+    const eurc = findNetworkAsset("base", "EURC")!;
+
+    expect(isAssetSupported("base", eurc.address)).toBe(true);
+    expect(isAssetSupported("base", "EURC")).toBe(false);
+    expect(isAssetSupported("base", "0x0000000000000000000000000000000000000001")).toBe(false);
+    expect(isAssetSupported("unknown-network", eurc.address)).toBe(false);
+  });
+});
@@ -7,23 +7,71 @@
 
 import { getDefaultAsset, getNetworkId } from "x402/shared";
 import type { Network } from "x402/types";
-import type { NetworkConfig } from "./types.js";
+import type { AssetConfig, NetworkConfig } from "./types.js";
 
 /**
  * Helper to get default asset config from x402
+ *
+ * The default asset is a USD stablecoin on every supported network.
  */
-function getDefaultAssetConfig(network: Network) {
+function getDefaultAssetConfig(network: Network, symbol = "USDC"): AssetConfig {
   const defaultAsset = getDefaultAsset(network);
   return {
+    symbol,
     address: defaultAsset.address as string,
     decimals: defaultAsset.decimals,
     eip712: {
       name: defaultAsset.eip712.name,
       version: defaultAsset.eip712.version,
     },
+    priceSource: { type: "usd" },
   };
 }
 
+/**
+ * Circle EURC (EIP-3009) price source
+ */
+const EURC_PRICE_SOURCE: AssetConfig["priceSource"] = {
+  type: "coingecko",
+  coinId: "euro-coin",
+  fallbackUsdPrice: 1.08,
+};
+
+/**
+ * Additional settlement assets per network (the default asset is always accepted)
+ */
+const additionalAssets: Record<string, AssetConfig[]> = {
+  "base-sepolia": [
+    {
+      symbol: "EURC",
+      address: "0x808456652fdb597867f38412077A9182bf77359F",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+      priceSource: EURC_PRICE_SOURCE,
+    },
+  ],
+  base: [
+    {
+      symbol: "EURC",
+      address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+      priceSource: EURC_PRICE_SOURCE,
+    },
+  ],
+};
+
+/**
+ * Build the asset registry for a network: default asset first, then additional assets
+ *
+ * @param network - Network name
+ * @param defaultSymbol - Symbol of the network's default asset
+ * @returns Assets accepted for settlement on the network
+ */
+function getAssets(network: Network, defaultSymbol?: string): AssetConfig[] {
+  return [getDefaultAssetConfig(network, defaultSymbol), ...(additionalAssets[network] ?? [])];
+}
+
 /**
  * Network configurations for all supported networks
  *
@@ -39,6 +87,7 @@ export const networks: Record<string, NetworkConfig> = {
     txExplorerBaseUrl: "https://sepolia.basescan.org/tx/",
     settlementRouter: "0x817e4f0ee2fbdaac426f1178e149f7dc98873ecb",
     defaultAsset: getDefaultAssetConfig("base-sepolia"),
+    assets: getAssets("base-sepolia"),
     hooks: {
       transfer: "0x4DE234059C6CcC94B8fE1eb1BD24804794083569",
     },
@@ -61,6 +110,7 @@ export const networks: Record<string, NetworkConfig> = {
     txExplorerBaseUrl: "https://www.oklink.com/xlayer-test/tx/",
     settlementRouter: "0xba9980fb08771e2fd10c17450f52d39bcb9ed576",
     defaultAsset: getDefaultAssetConfig("x-layer-testnet"),
+    assets: getAssets("x-layer-testnet"),
     hooks: {
       transfer: "0xD4b98dd614c1Ea472fC4547a5d2B93f3D3637BEE",
     },
@@ -83,6 +133,7 @@ export const networks: Record<string, NetworkConfig> = {
     txExplorerBaseUrl: "https://base-sepolia-testnet-explorer.skalenodes.com/tx/",
     settlementRouter: "0x1Ae0E196dC18355aF3a19985faf67354213F833D",
     defaultAsset: getDefaultAssetConfig("skale-base-sepolia"),
+    assets: getAssets("skale-base-sepolia"),
     hooks: {
       transfer: "0x2f05fe5674aE756E25C26855258B4877E9e021Fd",
     },
@@ -106,6 +157,7 @@ export const networks: Record<string, NetworkConfig> = {
     txExplorerBaseUrl: "https://basescan.org/tx/",
     settlementRouter: "0x73fc659Cd5494E69852bE8D9D23FE05Aab14b29B",
     defaultAsset: getDefaultAssetConfig("base"),
+    assets: getAssets("base"),
     hooks: {
       transfer: "0x081258287F692D61575387ee2a4075f34dd7Aef7",
     },
@@ -128,6 +180,7 @@ export const networks: Record<string, NetworkConfig> = {
     txExplorerBaseUrl: "https://www.oklink.com/xlayer/tx/",
     settlementRouter: "0x73fc659Cd5494E69852bE8D9D23FE05Aab14b29B",
     defaultAsset: getDefaultAssetConfig("x-layer"),
+    assets: getAssets("x-layer"),
     hooks: {
       transfer: "0x081258287F692D61575387ee2a4075f34dd7Aef7",
     },
@@ -149,7 +202,8 @@ export const networks: Record<string, NetworkConfig> = {
     addressExplorerBaseUrl: "https://testnet.bscscan.com/address/",
     txExplorerBaseUrl: "https://testnet.bscscan.com/tx/",
     settlementRouter: "0x1Ae0E196dC18355aF3a19985faf67354213F833D",
-    defaultAsset: getDefaultAssetConfig("bsc-testnet"),
+    defaultAsset: getDefaultAssetConfig("bsc-testnet", "USDT"),
+    assets: getAssets("bsc-testnet", "USDT"),
     hooks: {
       transfer: "0x2f05fe5674aE756E25C26855258B4877E9e021Fd",
     },
@@ -171,7 +225,8 @@ export const networks: Record<string, NetworkConfig> = {
     addressExplorerBaseUrl: "https://bscscan.com/address/",
     txExplorerBaseUrl: "https://bscscan.com/tx/",
     settlementRouter: "0x1Ae0E196dC18355aF3a19985faf67354213F833D",
-    defaultAsset: getDefaultAssetConfig("bsc"),
+    defaultAsset: getDefaultAssetConfig("bsc", "USDT"),
+    assets: getAssets("bsc", "USDT"),
     hooks: {
       transfer: "0x2f05fe5674aE756E25C26855258B4877E9e021Fd",
     },
@@ -212,6 +267,62 @@ export function getNetworkConfig(network: string): NetworkConfig {
   return config;
 }
 
+/**
+ * Get the assets accepted for settlement on a network
+ *
+ * @param network - Network name
+ * @returns Asset configurations, default asset first
+ * @throws Error if network is not supported
+ *
+ * @example
+ * ```typescript
+ * getNetworkAssets('base-sepolia').map((asset) => asset.symbol);
+ * // => ['USDC', 'EURC']
+ * ```
+ */
+export function getNetworkAssets(network: string): AssetConfig[] {
+  return getNetworkConfig(network).assets;
+}
+
+/**
+ * Find a settlement asset by contract address or symbol (case-insensitive)
+ *
+ * @param network - Network name
+ * @param asset - Asset contract address or symbol (e.g., 'EURC')
+ * @returns Asset configuration, or undefined if the asset is not accepted on the network
+ * @throws Error if network is not supported
+ *
+ * @example
+ * ```typescript
+ * const eurc = findNetworkAsset('base', 'EURC');
+ * console.log(eurc?.address, eurc?.decimals);
+ * ```
+ */
+export function findNetworkAsset(network: string, asset: string): AssetConfig | undefined {
+  const needle = asset.toLowerCase();
+  return getNetworkAssets(network).find(
+    (candidate) =>
+      candidate.address.toLowerCase() === needle || candidate.symbol.toLowerCase() === needle,
+  );
+}
+
+/**
+ * Check if a token address is accepted for settlement on a network
+ *
+ * Only contract addresses match; symbols are not accepted here.
+ *
+ * @param network - Network name
+ * @param address - Token contract address
+ * @returns True if the token is in the network's asset registry
+ */
+export function isAssetSupported(network: string, address: string): boolean {
+  if (!isNetworkSupported(network)) {
+    return false;
+  }
+  const needle = address.toLowerCase();
+  return getNetworkAssets(network).some((asset) => asset.address.toLowerCase() === needle);
+}
+
 /**
  * Check if a network is supported
  *
@@ -67,6 +67,38 @@ export interface DemoHooks {
   rewardToken?: string;
 }
 
+/**
+ * Source of an asset's USD price, used to convert USD-denominated fees into the asset
+ * - usd: pegged 1:1 to USD (e.g. USDC)
+ * - fixed: static USD price
+ * - coingecko: CoinGecko coin ID, with a static USD price used when the API is unavailable
+ */
+export type AssetPriceSource =
+  | { type: "usd" }
+  | { type: "fixed"; usdPrice: number }
+  | { type: "coingecko"; coinId: string; fallbackUsdPrice: number };
+
+/**
+ * Settlement asset configuration (EIP-3009 token)
+ */
+export interface AssetConfig {
+  /** Token symbol (e.g., "USDC", "EURC") */
+  symbol: string;
+  /** Asset contract address */
+  address: string;
+  /** Asset decimals */
+  decimals: number;
+  /** EIP-712 domain info for signing */
+  eip712: {
+    /** Asset contract name (for EIP-712) */
+    name: string;
+    /** Asset contract version (for EIP-712) */
+    version: string;
+  };
+  /** Where the asset's USD price comes from */
+  priceSource: AssetPriceSource;
+}
+
 /**
  * Network configuration for x402x
  */
@@ -84,19 +116,9 @@ export interface NetworkConfig {
   /** SettlementRouter contract address */
   settlementRouter: string;
   /** Default asset configuration (ERC-3009 token, typically USDC) */
-  defaultAsset: {
-    /** Asset contract address */
-    address: string;
-    /** Asset decimals */
-    decimals: number;
-    /** EIP-712 domain info for signing */
-    eip712: {
-      /** Asset contract name (for EIP-712) */
-      name: string;
-      /** Asset contract version (for EIP-712) */
-      version: string;
-    };
-  };
+  defaultAsset: AssetConfig;
+  /** Assets accepted for settlement, including the default asset */
+  assets: AssetConfig[];
   /** Builtin hook addresses */
   hooks: {
     /** TransferHook address */
@@ -124,6 +146,8 @@ export interface SettlementExtraCore {
   hook: string;
   /** Encoded hook parameters */
   hookData: string;
+  /** Facilitator-signed fee quote from /calculate-fee (honoured until it expires) */
+  feeQuoteId?: string;
 }
 
 /**
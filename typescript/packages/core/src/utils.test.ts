@@ -96,6 +96,21 @@ describe("addSettlementExtra", () => {
     expect(result.extra.salt).toBe(customSalt);
   });
 
+  it("should include feeQuoteId only when provided", () => {
+    const withQuote = addSettlementExtra(baseRequirements, {
+      hook: mockAddresses.hook,
+      hookData: "0x",
+      feeQuoteId: "quote.signature",
+    });
+    const withoutQuote = addSettlementExtra(baseRequirements, {
+      hook: mockAddresses.hook,
+      hookData: "0x",
+    });
+
+    expect(withQuote.extra?.feeQuoteId).toBe("quote.signature");
+    expect(withoutQuote.extra).not.toHaveProperty("feeQuoteId");
+  });
+
   it("should use requirements.payTo when payTo not provided in params", () => {
     const result = addSettlementExtra(baseRequirements, {
       hook: mockAddresses.hook,
@@ -45,6 +45,7 @@ export function addSettlementExtra(
     facilitatorFee?: string;
     payTo?: string;
     salt?: string;
+    feeQuoteId?: string;
   },
 ): PaymentRequirements {
   const config = getNetworkConfig(requirements.network);
@@ -66,6 +67,7 @@ export function addSettlementExtra(
     facilitatorFee: params.facilitatorFee || "0",
     hook: params.hook,
     hookData: params.hookData,
+    ...(params.feeQuoteId && { feeQuoteId: params.feeQuoteId }),
   };
 
   return {
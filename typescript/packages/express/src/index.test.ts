@@ -79,6 +79,14 @@ vi.mock("@x402x/core", () => ({
     getAddress: vi.fn(() => "0x6b486aF5A08D27153d0374BE56A1cB1676c460a8"),
     encode: vi.fn(() => "0x"),
   },
+  toAssetPrice: vi.fn((price) => ({
+    amount: String(Number(price) * 1e6),
+    asset: {
+      address: "0x808456652fdb597867f38412077A9182bf77359F",
+      decimals: 6,
+      eip712: { name: "EURC", version: "2" },
+    },
+  })),
   calculateFacilitatorFee: vi.fn(() =>
     Promise.resolve({
       network: "base-sepolia",
@@ -96,6 +104,11 @@ vi.mock("@x402x/core", () => ({
       },
     }),
   ),
+  FacilitatorPool: class {
+    verify = vi.fn();
+    settle = vi.fn();
+    calculateFee = vi.fn();
+  },
 }));
 
 import { useFacilitator } from "x402/verify";
@@ -106,6 +119,12 @@ import {
   findMatchingPaymentRequirements,
 } from "x402/shared";
 import { settleResponseHeader } from "x402/types";
+import {
+  addSettlementExtra,
+  calculateFacilitatorFee,
+  FacilitatorPool,
+  toAssetPrice,
+} from "@x402x/core";
 
 describe("paymentMiddleware", () => {
   let mockReq: Partial<X402Request>;
@@ -269,6 +288,34 @@ describe("paymentMiddleware", () => {
       });
     });
 
+    it("should pass the facilitator fee quote into settlement extra", async () => {
+      vi.mocked(findMatchingRoute).mockReturnValue({
+        verb: "POST",
+        pattern: /^\/api\/test$/,
+        config: { price: "$0.01", network: "base-sepolia" },
+      });
+      vi.mocked(calculateFacilitatorFee).mockResolvedValueOnce({
+        ...(await calculateFacilitatorFee(mockConfig.url, "base-sepolia", "0x")),
+        feeQuoteId: "quote.signature",
+      });
+
+      const middleware = paymentMiddleware(
+        payTo,
+        {
+          price: "$0.01",
+          network: "base-sepolia",
+        },
+        mockConfig,
+      );
+
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(addSettlementExtra).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ facilitatorFee: "10000", feeQuoteId: "quote.signature" }),
+      );
+    });
+
     it("should handle multi-network configuration", async () => {
       vi.mocked(findMatchingRoute).mockReturnValue({
         verb: "POST",
@@ -295,6 +342,42 @@ describe("paymentMiddleware", () => {
     });
   });
 
+  describe("settlement asset", () => {
+    it("should price routes in the configured asset", async () => {
+      vi.mocked(findMatchingRoute).mockReturnValue({
+        verb: "POST",
+        pattern: /^\/api\/test$/,
+        config: { price: "2", network: "base-sepolia" },
+      });
+
+      const middleware = paymentMiddleware(
+        payTo,
+        {
+          price: "2",
+          network: "base-sepolia",
+          asset: "EURC",
+        },
+        mockConfig,
+      );
+
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(toAssetPrice).toHaveBeenCalledWith("2", "base-sepolia", "EURC");
+      expect(processPriceToAtomicAmount).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: "2000000" }),
+        "base-sepolia",
+      );
+      expect(calculateFacilitatorFee).toHaveBeenCalledWith(
+        mockConfig.url,
+        "base-sepolia",
+        expect.any(String),
+        expect.any(String),
+        true,
+        "EURC",
+      );
+    });
+  });
+
   describe("payment verification", () => {
     const mockPaymentPayload = {
       scheme: "exact" as const,
@@ -660,6 +743,43 @@ describe("paymentMiddleware", () => {
 
       expect(mockSettle).not.toHaveBeenCalled();
     });
+
+    it("should verify and settle through a facilitator pool", async () => {
+      const pool = new FacilitatorPool({ facilitators: [mockConfig.url] });
+      vi.mocked(pool.calculateFee).mockResolvedValue({
+        ...(await calculateFacilitatorFee(mockConfig.url, "base-sepolia", "0x")),
+        facilitatorUrl: mockConfig.url,
+      });
+      vi.mocked(pool.verify).mockResolvedValue({
+        isValid: true,
+        payer: "0x3234567890123456789012345678901234567890",
+      });
+      vi.mocked(pool.settle).mockResolvedValue({
+        success: true,
+        transaction: "0xabcd",
+        network: "base-sepolia",
+        payer: "0x3234567890123456789012345678901234567890",
+      });
+
+      const middleware = paymentMiddleware(
+        payTo,
+        {
+          price: "$0.01",
+          network: "base-sepolia",
+        },
+        pool,
+      );
+
+      await middleware(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(pool.calculateFee).toHaveBeenCalled();
+      expect(pool.settle).toHaveBeenCalledWith(
+        mockPaymentPayload,
+        expect.objectContaining({ network: "base-sepolia" }),
+      );
+      expect(mockVerify).not.toHaveBeenCalled();
+      expect(mockRes.setHeader).toHaveBeenCalledWith("X-PAYMENT-RESPONSE", expect.any(String));
+    });
   });
 
   describe("error handling", () => {
@@ -20,7 +20,9 @@ import {
   PaymentRequirements,
   Resource,
   settleResponseHeader,
+  SettleResponse,
   SupportedEVMNetworks,
+  VerifyResponse,
   type Money,
   type Network,
 } from "x402/types";
@@ -30,7 +32,10 @@ import {
   getNetworkConfig,
   TransferHook,
   calculateFacilitatorFee,
+  toAssetPrice,
+  FacilitatorPool,
   type FeeCalculationResult,
+  type MultiFacilitatorConfig,
 } from "@x402x/core";
 import type { Address } from "viem";
 import type { Address as SolanaAddress } from "@solana/kit";
@@ -99,6 +104,13 @@ export interface X402xRouteConfig {
   /** Encoded hook data - defaults to empty data */
   hookData?: string | ((network: Network) => string);
 
+  /**
+   * Settlement asset (token address or symbol, e.g. "EURC") - defaults to the network's
+   * default asset (USDC). For other assets, price and static facilitatorFee are
+   * denominated in the asset itself (e.g. "5" = 5 EURC).
+   */
+  asset?: string | ((network: Network) => string);
+
   // facilitatorFee supports two modes:
   // 1. Not configured or "auto" (default) -> query from facilitator automatically
   // 2. Configured with specific value -> use static fee (backward compatible)
@@ -137,7 +149,8 @@ export type X402xRoutesConfig = X402xRouteConfig | Record<string, X402xRouteConf
  *
  * @param payTo - Final recipient address for payments
  * @param routes - Route configuration(s) for payment requirements
- * @param facilitator - Optional facilitator configuration
+ * @param facilitator - Optional facilitator configuration, or several facilitators
+ *   (`MultiFacilitatorConfig` or a shared `FacilitatorPool`) to fail over between
  * @returns Express middleware function
  *
  * @example
@@ -185,14 +198,35 @@ export type X402xRoutesConfig = X402xRouteConfig | Record<string, X402xRouteConf
  *   },
  *   facilitatorConfig
  * ));
+ *
+ * // Several facilitators with failover
+ * app.use(paymentMiddleware(
+ *   "0xYourAddress",
+ *   { price: "$0.01", network: "base-sepolia" },
+ *   { facilitators: ["https://facilitator.x402x.dev", "https://backup.example.com"] }
+ * ));
  * ```
  */
 export function paymentMiddleware(
   payTo: string,
   routes: X402xRoutesConfig,
-  facilitator?: FacilitatorConfig,
+  facilitator?: FacilitatorConfig | MultiFacilitatorConfig | FacilitatorPool,
 ) {
-  const { verify, settle } = useFacilitator(facilitator);
+  const pool =
+    facilitator instanceof FacilitatorPool
+      ? facilitator
+      : facilitator && "facilitators" in facilitator
+        ? new FacilitatorPool(facilitator)
+        : undefined;
+  const facilitatorConfig = pool ? undefined : (facilitator as FacilitatorConfig | undefined);
+  const { verify, settle } = pool
+    ? {
+        verify: (payment: PaymentPayload, requirements: PaymentRequirements) =>
+          pool.verify(payment, requirements) as Promise<VerifyResponse>,
+        settle: (payment: PaymentPayload, requirements: PaymentRequirements) =>
+          pool.settle(payment, requirements) as Promise<SettleResponse>,
+      }
+    : useFacilitator(facilitatorConfig);
   const x402Version = 1;
 
   // Normalize routes to per-route config
@@ -247,6 +281,7 @@ export function paymentMiddleware(
       network: networkConfig,
       hook,
       hookData,
+      asset: assetConfig,
       facilitatorFee,
       config = {},
     } = routeConfig;
@@ -293,7 +328,14 @@ export function paymentMiddleware(
           continue;
         }
 
-        const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
+        // Resolve settlement asset (defaults to the network's default asset)
+        const resolvedAsset =
+          typeof assetConfig === "function" ? assetConfig(network) : assetConfig;
+
+        const atomicAmountForAsset = processPriceToAtomicAmount(
+          resolvedAsset ? toAssetPrice(price, network, resolvedAsset) : price,
+          network,
+        );
         if ("error" in atomicAmountForAsset) {
           throw new Error(atomicAmountForAsset.error);
         }
@@ -317,11 +359,12 @@ export function paymentMiddleware(
         let resolvedFacilitatorFee: string;
         let businessAmount: string;
         let maxAmountRequired: string;
+        let feeQuoteId: string | undefined;
 
         // Check if we should dynamically query fee
         if (resolvedFacilitatorFeeRaw === undefined || resolvedFacilitatorFeeRaw === "auto") {
           // Dynamic fee calculation
-          if (!facilitator?.url) {
+          if (!pool && !facilitatorConfig?.url) {
             throw new Error(
               `Facilitator URL required for dynamic fee calculation. ` +
                 `Please provide facilitator config in paymentMiddleware() or set static facilitatorFee.`,
@@ -329,13 +372,18 @@ export function paymentMiddleware(
           }
 
           try {
-            const feeResult = await calculateFacilitatorFee(
-              facilitator.url,
-              network,
-              resolvedHook,
-              resolvedHookData,
-            );
+            const feeResult = pool
+              ? await pool.calculateFee(network, resolvedHook, resolvedHookData, resolvedAsset)
+              : await calculateFacilitatorFee(
+                  facilitatorConfig!.url,
+                  network,
+                  resolvedHook,
+                  resolvedHookData,
+                  true,
+                  resolvedAsset,
+                );
             resolvedFacilitatorFee = feeResult.facilitatorFee;
+            feeQuoteId = feeResult.feeQuoteId;
 
             // When using dynamic fee, price is business price only
             // Total = business price + facilitator fee
@@ -365,7 +413,12 @@ export function paymentMiddleware(
           maxAmountRequired = baseAmount;
         } else {
           // Static fee configuration
-          const feeResult = processPriceToAtomicAmount(resolvedFacilitatorFeeRaw, network);
+          const feeResult = processPriceToAtomicAmount(
+            resolvedAsset
+              ? toAssetPrice(resolvedFacilitatorFeeRaw, network, resolvedAsset)
+              : resolvedFacilitatorFeeRaw,
+            network,
+          );
           if ("error" in feeResult) {
             throw new Error(`Invalid facilitatorFee: ${feeResult.error}`);
           }
@@ -402,6 +455,7 @@ export function paymentMiddleware(
           hookData: resolvedHookData,
           facilitatorFee: resolvedFacilitatorFee,
           payTo,
+          feeQuoteId,
         });
 
         // Add extra field to track business amount separately (optional, for transparency)
@@ -559,5 +613,9 @@ export function paymentMiddleware(
 // Re-export types from x402 for compatibility
 export type { Money, Network, FacilitatorConfig, PaymentRequirements, Resource } from "x402/types";
 
+// Re-export multi-facilitator support
+export { FacilitatorPool } from "@x402x/core";
+export type { MultiFacilitatorConfig, FacilitatorSelectionStrategy } from "@x402x/core";
+
 export type { Address } from "viem";
 export type { Address as SolanaAddress } from "@solana/kit";
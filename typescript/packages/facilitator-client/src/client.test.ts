@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "crypto";
+import { FacilitatorClient, signAdminRequest } from "./client.js";
+import {
+  AuthenticationError,
+  DuplicatePayerError,
+  NetworkError,
+  SettlementConflictError,
+  TimeoutError,
+  ValidationError,
+  createFacilitatorError,
+} from "./errors.js";
+
+const paymentPayload = { x402Version: 1, scheme: "exact", network: "base-sepolia" } as any;
+const paymentRequirements = { scheme: "exact", network: "base-sepolia" } as any;
+
+/**
+ * JSON response
+ *
+ * @param status - HTTP status
+ * @param body - Response body
+ * @returns Response
+ */
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Client with a mocked fetch answering the given responses in order
+ *
+ * @param responses - Responses (or errors to throw)
+ * @param config - Extra client configuration
+ * @returns Client and fetch mock
+ */
+function createClient(
+  responses: Array<Response | Error>,
+  config: Partial<ConstructorParameters<typeof FacilitatorClient>[0]> = {},
+) {
+  const fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+    const next = responses.shift();
+    if (!next || next instanceof Error) {
+      throw next ?? new Error("No response");
+    }
+    return next;
+  });
+  const client = new FacilitatorClient({
+    url: "https://facilitator.example.com/x402",
+    retryDelayMs: 1,
+    fetch: fetchMock as unknown as typeof fetch,
+    ...config,
+  });
+  return { client, fetchMock };
+}
+
+describe("FacilitatorClient", () => {
+  describe("requests", () => {
+    it("should build query strings and keep the base path", async () => {
+      const { client, fetchMock } = createClient([json(200, { facilitatorFee: "10000" })]);
+
+      await client.calculateFee({ network: "base-sepolia", hook: "0xhook", hookData: "0x&=" });
+
+      const url = fetchMock.mock.calls[0][0] as URL;
+      expect(url.pathname).toBe("/x402/calculate-fee");
+      expect(url.searchParams.get("hookData")).toBe("0x&=");
+      expect(url.searchParams.has("asset")).toBe(false);
+    });
+
+    it("should post settle requests as JSON", async () => {
+      const settled = { success: true, transaction: "0xtx", network: "base-sepolia", payer: "0x1" };
+      const { client, fetchMock } = createClient([json(200, settled)]);
+
+      await expect(client.settle(paymentPayload, paymentRequirements)).resolves.toEqual(settled);
+
+      const init = fetchMock.mock.calls[0][1]!;
+      expect(init.method).toBe("POST");
+      expect(JSON.parse(init.body as string)).toEqual({ paymentPayload, paymentRequirements });
+    });
+
+    it("should return the checks of a facilitator that is not ready", async () => {
+      const { client } = createClient([json(503, { status: "not_ready", checks: {} })]);
+
+      await expect(client.ready()).resolves.toMatchObject({ status: "not_ready" });
+    });
+  });
+
+  describe("errors and retries", () => {
+    it("should retry recoverable errors", async () => {
+      const { client, fetchMock } = createClient([
+        json(503, { error: "Service temporarily overloaded", message: "Queue full" }),
+        json(200, { isValid: true, payer: "0x1" }),
+      ]);
+
+      await expect(client.verify(paymentPayload, paymentRequirements)).resolves.toMatchObject({
+        isValid: true,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry errors that are not recoverable", async () => {
+      const { client, fetchMock } = createClient([
+        json(400, { error: "Invalid request payload", message: "Request validation failed." }),
+      ]);
+
+      await expect(client.verify(paymentPayload, paymentRequirements)).rejects.toBeInstanceOf(
+        ValidationError,
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry a settlement that may have been sent", async () => {
+      const { client, fetchMock } = createClient([new TypeError("fetch failed")]);
+
+      await expect(client.settle(paymentPayload, paymentRequirements)).rejects.toBeInstanceOf(
+        NetworkError,
+      );
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up when retryAfter exceeds the longest retry delay", async () => {
+      const { client, fetchMock } = createClient([
+        json(429, { error: "Duplicate payer in queue", message: "Busy", retryAfter: 60 }),
+      ]);
+
+      const error = await client.settle(paymentPayload, paymentRequirements).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DuplicatePayerError);
+      expect(error.retryAfter).toBe(60);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should time out slow requests", async () => {
+      const fetchMock = vi.fn(
+        (_input: RequestInfo | URL, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init!.signal!.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError")),
+            );
+          }),
+      );
+      const client = new FacilitatorClient({
+        url: "https://facilitator.example.com",
+        timeoutMs: 10,
+        retries: 0,
+        fetch: fetchMock as unknown as typeof fetch,
+      });
+
+      await expect(client.health()).rejects.toBeInstanceOf(TimeoutError);
+    });
+
+    it("should map facilitator error responses", () => {
+      expect(createFacilitatorError(401, { error: "Unauthorized" })).toBeInstanceOf(
+        AuthenticationError,
+      );
+      expect(createFacilitatorError(409, { error: "Settlement in progress" })).toBeInstanceOf(
+        SettlementConflictError,
+      );
+      expect(
+        createFacilitatorError(503, { error: "Service temporarily overloaded", retryAfter: 60 }),
+      ).toMatchObject({ code: "QUEUE_OVERLOAD", recoverable: true, retryAfter: 60 });
+      expect(createFacilitatorError(503, undefined, 5)).toMatchObject({
+        code: "SERVICE_UNAVAILABLE",
+        retryAfter: 5,
+      });
+    });
+  });
+
+  describe("admin authentication", () => {
+    it("should send the secret as Bearer token without a key id", async () => {
+      const { client, fetchMock } = createClient([json(200, { pendingFees: [] })], {
+        admin: { secret: "s3cret" },
+      });
+
+      await client.pendingFees("base-sepolia");
+
+      const headers = fetchMock.mock.calls[0][1]!.headers as Record<string, string>;
+      expect(headers.Authorization).toBe("Bearer s3cret");
+    });
+
+    it("should sign requests like the facilitator", async () => {
+      const { client, fetchMock } = createClient([json(200, { claims: [] })], {
+        admin: { keyId: "ops-bot", secret: "s3cret" },
+      });
+
+      await client.claimFees({ networks: ["base-sepolia"] });
+
+      const headers = fetchMock.mock.calls[0][1]!.headers as Record<string, string>;
+      const expected = createHmac("sha256", "s3cret")
+        .update(
+          `${headers["X-Admin-Timestamp"]}\n${headers["X-Admin-Nonce"]}\nPOST\n/x402/claim-fees\n{"networks":["base-sepolia"]}`,
+        )
+        .digest("hex");
+      expect(headers["X-Admin-Key-Id"]).toBe("ops-bot");
+      expect(headers["X-Admin-Nonce"]).toMatch(/^[A-Za-z0-9_-]{16,128}$/);
+      expect(headers["X-Admin-Signature"]).toBe(expected);
+      expect(headers.Authorization).toBeUndefined();
+    });
+
+    it("should compute hex HMAC-SHA256 signatures", async () => {
+      await expect(
+        signAdminRequest("key", "1", "nonce-0123456789", "get", "/pending-fees", ""),
+      ).resolves.toBe(
+        createHmac("sha256", "key")
+          .update("1\nnonce-0123456789\nGET\n/pending-fees\n")
+          .digest("hex"),
+      );
+    });
+  });
+});
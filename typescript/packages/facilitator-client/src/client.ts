@@ -0,0 +1,602 @@
+/**
+ * FacilitatorClient - typed client for the x402x facilitator HTTP API
+ *
+ * Wraps every public facilitator endpoint with:
+ * - Request and response models shared with the facilitator (`@x402x/core`)
+ * - A timeout per attempt
+ * - Retries with exponential backoff for recoverable errors, honouring `retryAfter`
+ * - Admin authentication (Bearer or HMAC-signed requests)
+ * - Error classes mapped from the facilitator's error responses
+ */
+
+import { facilitatorEndpoint } from "@x402x/core";
+import type {
+  ClaimFeesRequest,
+  ClaimFeesResponse,
+  FacilitatorErrorResponse,
+  FeeCalculationResult,
+  HealthResponse,
+  PaymentPayload,
+  PaymentRequirements,
+  PendingFeesResponse,
+  ReadinessResponse,
+  SettleRequest,
+  SettleResponse,
+  SettlementJob,
+  SimulateResponse,
+  StatsQuery,
+  StatsResponse,
+  SupportedResponse,
+  VerifyRequest,
+  VerifyResponse,
+} from "@x402x/core";
+import {
+  FacilitatorClientError,
+  NetworkError,
+  TimeoutError,
+  createFacilitatorError,
+} from "./errors.js";
+import type {
+  AdminCredentials,
+  CalculateFeeParams,
+  FacilitatorClientConfig,
+  RequestOptions,
+  SettleAsyncOptions,
+} from "./types.js";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_SETTLE_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 15000;
+
+/**
+ * A single HTTP call to the facilitator
+ */
+interface FacilitatorRequest {
+  method: "GET" | "POST";
+  endpoint: string;
+  query?: Record<string, string | undefined>;
+  body?: unknown;
+  /** Send admin credentials */
+  admin?: boolean;
+  /**
+   * Whether repeating the request is harmless. Requests with side effects are only
+   * retried when the facilitator rejected them before doing anything (429 / 503).
+   */
+  idempotent: boolean;
+  /** Non-2xx statuses whose body is a regular response (e.g. 503 from /ready) */
+  acceptStatus?: number[];
+  timeoutMs?: number;
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature of a signed admin request
+ *
+ * Same scheme as the facilitator's `signAdminRequest`, using Web Crypto so it runs
+ * in browsers, Node.js and edge runtimes.
+ *
+ * @param secret - API key secret
+ * @param timestamp - Unix timestamp in seconds
+ * @param nonce - Unique request nonce (16 to 128 URL-safe characters)
+ * @param method - HTTP method
+ * @param path - Request path including query string
+ * @param body - Raw request body (empty string if none)
+ * @returns Hex-encoded signature
+ */
+export async function signAdminRequest(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  method: string,
+  path: string,
+  body: string,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(`${timestamp}\n${nonce}\n${method.toUpperCase()}\n${path}\n${body}`),
+  );
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+/**
+ * Client for the x402x facilitator HTTP API
+ *
+ * @example
+ * ```typescript
+ * import { FacilitatorClient, DuplicatePayerError } from '@x402x/facilitator-client';
+ *
+ * const facilitator = new FacilitatorClient({
+ *   url: 'https://facilitator.x402x.dev',
+ *   admin: { keyId: 'ops-bot', secret: process.env.ADMIN_SECRET! },
+ * });
+ *
+ * const { isValid } = await facilitator.verify(paymentPayload, paymentRequirements);
+ * const result = await facilitator.settle(paymentPayload, paymentRequirements);
+ * const { pendingFees } = await facilitator.pendingFees('base-sepolia');
+ * ```
+ */
+export class FacilitatorClient {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly config: FacilitatorClientConfig) {
+    if (!config.url) {
+      throw new Error("Facilitator URL is required");
+    }
+    this.fetchImpl = config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * GET /health - liveness
+   *
+   * @param options - Request options
+   * @returns Health status
+   */
+  health(options?: RequestOptions): Promise<HealthResponse> {
+    return this.request({ method: "GET", endpoint: "health", idempotent: true }, options);
+  }
+
+  /**
+   * GET /ready - readiness with individual checks
+   *
+   * A facilitator that is not ready answers 503; its checks are returned, not thrown.
+   *
+   * @param options - Request options
+   * @returns Readiness status
+   */
+  ready(options?: RequestOptions): Promise<ReadinessResponse> {
+    return this.request(
+      { method: "GET", endpoint: "ready", idempotent: true, acceptStatus: [503] },
+      options,
+    );
+  }
+
+  /**
+   * GET /supported - supported payment kinds
+   *
+   * @param options - Request options
+   * @returns Supported payment kinds
+   */
+  supported(options?: RequestOptions): Promise<SupportedResponse> {
+    return this.request({ method: "GET", endpoint: "supported", idempotent: true }, options);
+  }
+
+  /**
+   * POST /verify - validate a payment without settling it
+   *
+   * @param paymentPayload - Signed payment payload
+   * @param paymentRequirements - Payment requirements
+   * @param options - Request options
+   * @returns Verification result
+   */
+  verify(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    options?: RequestOptions,
+  ): Promise<VerifyResponse> {
+    const body: VerifyRequest = { paymentPayload, paymentRequirements };
+    return this.request({ method: "POST", endpoint: "verify", body, idempotent: true }, options);
+  }
+
+  /**
+   * POST /settle - settle a payment and wait for the receipt
+   *
+   * @param paymentPayload - Signed payment payload
+   * @param paymentRequirements - Payment requirements
+   * @param options - Request options
+   * @returns Settlement result (`success: false` with `errorReason` for rejected payments)
+   */
+  settle(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    options?: RequestOptions,
+  ): Promise<SettleResponse> {
+    const body: SettleRequest = { paymentPayload, paymentRequirements };
+    return this.request(
+      {
+        method: "POST",
+        endpoint: "settle",
+        body,
+        idempotent: false,
+        timeoutMs: this.config.settleTimeoutMs ?? DEFAULT_SETTLE_TIMEOUT_MS,
+      },
+      options,
+    );
+  }
+
+  /**
+   * POST /settle with `async: true` - return once the transaction is submitted
+   *
+   * Follow the job with getSettlementJob() or a webhook.
+   *
+   * @param paymentPayload - Signed payment payload
+   * @param paymentRequirements - Payment requirements
+   * @param options - Webhook URL and request options
+   * @returns Settlement job
+   */
+  settleAsync(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    options?: SettleAsyncOptions,
+  ): Promise<SettlementJob> {
+    const body: SettleRequest = {
+      paymentPayload,
+      paymentRequirements,
+      async: true,
+      ...(options?.webhookUrl && { webhookUrl: options.webhookUrl }),
+    };
+    return this.request(
+      {
+        method: "POST",
+        endpoint: "settle",
+        body,
+        idempotent: false,
+        timeoutMs: this.config.settleTimeoutMs ?? DEFAULT_SETTLE_TIMEOUT_MS,
+      },
+      options,
+    );
+  }
+
+  /**
+   * GET /settle/:id - asynchronous settlement job
+   *
+   * @param id - Job id returned by settleAsync()
+   * @param options - Request options
+   * @returns Settlement job
+   */
+  getSettlementJob(id: string, options?: RequestOptions): Promise<SettlementJob> {
+    return this.request(
+      { method: "GET", endpoint: `settle/${encodeURIComponent(id)}`, idempotent: true },
+      options,
+    );
+  }
+
+  /**
+   * POST /simulate - dry-run a SettlementRouter settlement
+   *
+   * @param paymentPayload - Signed payment payload
+   * @param paymentRequirements - Payment requirements with settlement extra
+   * @param options - Request options
+   * @returns Simulation with decoded events, balance changes and revert reason
+   */
+  simulate(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    options?: RequestOptions,
+  ): Promise<SimulateResponse> {
+    const body: VerifyRequest = { paymentPayload, paymentRequirements };
+    return this.request({ method: "POST", endpoint: "simulate", body, idempotent: true }, options);
+  }
+
+  /**
+   * GET /calculate-fee - recommended facilitator fee (with a signed quote when enabled)
+   *
+   * @param params - Network, hook, hook data and asset
+   * @param options - Request options
+   * @returns Fee calculation result
+   */
+  calculateFee(
+    params: CalculateFeeParams,
+    options?: RequestOptions,
+  ): Promise<FeeCalculationResult> {
+    return this.request(
+      {
+        method: "GET",
+        endpoint: "calculate-fee",
+        query: {
+          network: params.network,
+          hook: params.hook,
+          hookData: params.hookData,
+          asset: params.asset,
+        },
+        idempotent: true,
+      },
+      options,
+    );
+  }
+
+  /**
+   * GET /stats - settlement statistics from on-chain Settled events
+   *
+   * @param query - Networks and block window
+   * @param options - Request options
+   * @returns Settlement statistics
+   */
+  stats(query: StatsQuery = {}, options?: RequestOptions): Promise<StatsResponse> {
+    return this.request(
+      {
+        method: "GET",
+        endpoint: "stats",
+        query: {
+          networks: query.networks?.join(","),
+          maxBlocks: query.maxBlocks?.toString(),
+        },
+        idempotent: true,
+      },
+      options,
+    );
+  }
+
+  /**
+   * GET /pending-fees - facilitator fees waiting to be claimed (admin: viewer)
+   *
+   * @param network - Restrict to one network (default: all networks)
+   * @param options - Request options
+   * @returns Pending fees
+   */
+  pendingFees(network?: string, options?: RequestOptions): Promise<PendingFeesResponse> {
+    return this.request(
+      {
+        method: "GET",
+        endpoint: "pending-fees",
+        query: { network },
+        admin: true,
+        idempotent: true,
+      },
+      options,
+    );
+  }
+
+  /**
+   * POST /claim-fees - claim accumulated facilitator fees (admin: operator)
+   *
+   * @param request - Networks and tokens to claim (default: everything eligible)
+   * @param options - Request options
+   * @returns Claim results per network and token
+   */
+  claimFees(request: ClaimFeesRequest = {}, options?: RequestOptions): Promise<ClaimFeesResponse> {
+    return this.request(
+      { method: "POST", endpoint: "claim-fees", body: request, admin: true, idempotent: false },
+      options,
+    );
+  }
+
+  /**
+   * Send a request, retrying recoverable failures
+   *
+   * @param req - Request description
+   * @param options - Request options
+   * @returns Parsed response body
+   */
+  private async request<T>(req: FacilitatorRequest, options: RequestOptions = {}): Promise<T> {
+    const retries = options.retries ?? this.config.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(req, options);
+      } catch (error) {
+        const delay = this.getRetryDelay(error, req, attempt);
+        if (attempt >= retries || delay === undefined || options.signal?.aborted) {
+          throw error;
+        }
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Send a single attempt
+   *
+   * @param req - Request description
+   * @param options - Request options
+   * @returns Parsed response body
+   */
+  private async send<T>(req: FacilitatorRequest, options: RequestOptions): Promise<T> {
+    const url = facilitatorEndpoint(this.config.url, req.endpoint);
+    for (const [name, value] of Object.entries(req.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(name, value);
+      }
+    }
+    const body = req.body === undefined ? undefined : JSON.stringify(req.body);
+
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      ...this.config.headers,
+      ...(body !== undefined && { "Content-Type": "application/json" }),
+    };
+    if (req.admin) {
+      Object.assign(
+        headers,
+        await this.getAdminHeaders(req.method, `${url.pathname}${url.search}`, body ?? ""),
+      );
+    }
+
+    const timeoutMs =
+      options.timeoutMs ?? req.timeoutMs ?? this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      let response: Response;
+      try {
+        response = await this.fetchImpl(url, {
+          method: req.method,
+          headers,
+          body,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw this.toRequestError(error, req, timeoutMs, options.signal);
+      }
+
+      let parsed: unknown;
+      try {
+        const text = await response.text();
+        parsed = text ? JSON.parse(text) : undefined;
+      } catch (error) {
+        if (response.ok) {
+          throw this.toRequestError(error, req, timeoutMs, options.signal);
+        }
+      }
+
+      if (!response.ok && !req.acceptStatus?.includes(response.status)) {
+        throw createFacilitatorError(
+          response.status,
+          isErrorResponse(parsed) ? parsed : undefined,
+          parseRetryAfter(response.headers.get("Retry-After")),
+        );
+      }
+      return parsed as T;
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Admin authentication headers
+   *
+   * @param method - HTTP method
+   * @param path - Request path including query string
+   * @param body - Raw request body
+   * @returns Headers
+   */
+  private async getAdminHeaders(
+    method: string,
+    path: string,
+    body: string,
+  ): Promise<Record<string, string>> {
+    const admin: AdminCredentials | undefined = this.config.admin;
+    if (!admin) {
+      return {};
+    }
+    if (!admin.keyId) {
+      return { Authorization: `Bearer ${admin.secret}` };
+    }
+
+    // Fresh per attempt: the facilitator accepts each nonce once
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const nonce = crypto.randomUUID();
+    return {
+      "X-Admin-Key-Id": admin.keyId,
+      "X-Admin-Timestamp": timestamp,
+      "X-Admin-Nonce": nonce,
+      "X-Admin-Signature": await signAdminRequest(
+        admin.secret,
+        timestamp,
+        nonce,
+        method,
+        path,
+        body,
+      ),
+    };
+  }
+
+  /**
+   * Convert a fetch or body read failure to a client error
+   *
+   * @param error - Raised error
+   * @param req - Request description
+   * @param timeoutMs - Timeout of the attempt
+   * @param signal - Caller's abort signal
+   * @returns Client error (the caller's abort reason is passed through)
+   */
+  private toRequestError(
+    error: unknown,
+    req: FacilitatorRequest,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): unknown {
+    if (signal?.aborted) {
+      return signal.reason ?? error;
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      return new TimeoutError(`${req.method} /${req.endpoint} timed out after ${timeoutMs}ms`);
+    }
+    if (error instanceof SyntaxError) {
+      return new NetworkError(`Invalid JSON response from ${req.method} /${req.endpoint}`, error);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new NetworkError(`${req.method} /${req.endpoint} failed: ${message}`, error);
+  }
+
+  /**
+   * Delay before retrying a failed attempt
+   *
+   * @param error - Error of the attempt
+   * @param req - Request description
+   * @param attempt - Zero-based attempt number
+   * @returns Delay in milliseconds, or undefined if the error must not be retried
+   */
+  private getRetryDelay(
+    error: unknown,
+    req: FacilitatorRequest,
+    attempt: number,
+  ): number | undefined {
+    if (!(error instanceof FacilitatorClientError) || !error.recoverable) {
+      return undefined;
+    }
+    // A timed out or dropped settlement may still have been executed
+    if (!req.idempotent && error.status !== 429 && error.status !== 503) {
+      return undefined;
+    }
+
+    const delay =
+      error.retryAfter !== undefined
+        ? error.retryAfter * 1000
+        : (this.config.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** attempt;
+    return delay <= (this.config.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS) ? delay : undefined;
+  }
+}
+
+/**
+ * Check whether a parsed body is a facilitator error response
+ *
+ * @param body - Parsed response body
+ * @returns True for `{ error: string, ... }`
+ */
+function isErrorResponse(body: unknown): body is FacilitatorErrorResponse {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    typeof (body as FacilitatorErrorResponse).error === "string"
+  );
+}
+
+/**
+ * Parse a Retry-After header given in seconds
+ *
+ * @param value - Header value
+ * @returns Seconds, or undefined if absent or not a number
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  const seconds = value === null ? NaN : Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/**
+ * Wait before a retry; resolves early if the request is aborted
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Caller's abort signal
+ * @returns Promise resolved after the delay
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    /**
+     * Stop waiting
+     */
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
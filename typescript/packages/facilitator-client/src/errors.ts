@@ -0,0 +1,249 @@
+/**
+ * Error classes for the facilitator client
+ *
+ * Mirrors the facilitator's error hierarchy (facilitator/src/errors.ts): every error
+ * carries the facilitator error `code` and whether it is `recoverable`, i.e. whether
+ * the same request may succeed when retried.
+ */
+
+import type { FacilitatorErrorResponse } from "@x402x/core";
+
+/**
+ * Base error class for all facilitator client errors
+ */
+export class FacilitatorClientError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly recoverable: boolean,
+    public readonly status?: number,
+    public readonly response?: FacilitatorErrorResponse,
+    public readonly retryAfter?: number,
+  ) {
+    super(message);
+    this.name = "FacilitatorClientError";
+    Object.setPrototypeOf(this, FacilitatorClientError.prototype);
+  }
+}
+
+/**
+ * Request rejected as invalid (400), e.g. a malformed payload or unsupported network
+ */
+export class ValidationError extends FacilitatorClientError {
+  constructor(message: string, status?: number, response?: FacilitatorErrorResponse) {
+    super(message, "VALIDATION_ERROR", false, status, response);
+    this.name = "ValidationError";
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+/**
+ * Missing or invalid admin credentials (401)
+ */
+export class AuthenticationError extends FacilitatorClientError {
+  constructor(message: string, status?: number, response?: FacilitatorErrorResponse) {
+    super(message, "AUTHENTICATION_ERROR", false, status, response);
+    this.name = "AuthenticationError";
+    Object.setPrototypeOf(this, AuthenticationError.prototype);
+  }
+}
+
+/**
+ * Admin key lacks the required role or the admin API is disabled (403)
+ */
+export class AuthorizationError extends FacilitatorClientError {
+  constructor(message: string, status?: number, response?: FacilitatorErrorResponse) {
+    super(message, "AUTHORIZATION_ERROR", false, status, response);
+    this.name = "AuthorizationError";
+    Object.setPrototypeOf(this, AuthorizationError.prototype);
+  }
+}
+
+/**
+ * Requested resource does not exist (404), e.g. an expired settlement job
+ */
+export class NotFoundError extends FacilitatorClientError {
+  constructor(message: string, status?: number, response?: FacilitatorErrorResponse) {
+    super(message, "NOT_FOUND", false, status, response);
+    this.name = "NotFoundError";
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+  }
+}
+
+/**
+ * The same payment is already being settled (409)
+ *
+ * Not retried automatically: poll the settlement or wait for its webhook instead.
+ */
+export class SettlementConflictError extends FacilitatorClientError {
+  constructor(message: string, status?: number, response?: FacilitatorErrorResponse) {
+    super(message, "SETTLEMENT_CONFLICT", false, status, response);
+    this.name = "SettlementConflictError";
+    Object.setPrototypeOf(this, SettlementConflictError.prototype);
+  }
+}
+
+/**
+ * The payer already has a settlement in the facilitator queue (429)
+ */
+export class DuplicatePayerError extends FacilitatorClientError {
+  constructor(
+    message: string,
+    status?: number,
+    response?: FacilitatorErrorResponse,
+    retryAfter?: number,
+  ) {
+    super(message, "DUPLICATE_PAYER", true, status, response, retryAfter);
+    this.name = "DuplicatePayerError";
+    Object.setPrototypeOf(this, DuplicatePayerError.prototype);
+  }
+}
+
+/**
+ * Request rate limit exceeded (429)
+ */
+export class RateLimitError extends FacilitatorClientError {
+  constructor(
+    message: string,
+    status?: number,
+    response?: FacilitatorErrorResponse,
+    retryAfter?: number,
+  ) {
+    super(message, "RATE_LIMITED", true, status, response, retryAfter);
+    this.name = "RateLimitError";
+    Object.setPrototypeOf(this, RateLimitError.prototype);
+  }
+}
+
+/**
+ * Settlement queues are full (503)
+ */
+export class QueueOverloadError extends FacilitatorClientError {
+  constructor(
+    message: string,
+    status?: number,
+    response?: FacilitatorErrorResponse,
+    retryAfter?: number,
+  ) {
+    super(message, "QUEUE_OVERLOAD", true, status, response, retryAfter);
+    this.name = "QueueOverloadError";
+    Object.setPrototypeOf(this, QueueOverloadError.prototype);
+  }
+}
+
+/**
+ * Settlement coordination (distributed lock store) is unreachable (503)
+ */
+export class LockUnavailableError extends FacilitatorClientError {
+  constructor(
+    message: string,
+    status?: number,
+    response?: FacilitatorErrorResponse,
+    retryAfter?: number,
+  ) {
+    super(message, "LOCK_UNAVAILABLE", true, status, response, retryAfter);
+    this.name = "LockUnavailableError";
+    Object.setPrototypeOf(this, LockUnavailableError.prototype);
+  }
+}
+
+/**
+ * Facilitator is temporarily unavailable (502, 503, 504), e.g. shutting down
+ */
+export class ServiceUnavailableError extends FacilitatorClientError {
+  constructor(
+    message: string,
+    status?: number,
+    response?: FacilitatorErrorResponse,
+    retryAfter?: number,
+  ) {
+    super(message, "SERVICE_UNAVAILABLE", true, status, response, retryAfter);
+    this.name = "ServiceUnavailableError";
+    Object.setPrototypeOf(this, ServiceUnavailableError.prototype);
+  }
+}
+
+/**
+ * Settlement or another facilitator operation failed (500)
+ */
+export class SettlementError extends FacilitatorClientError {
+  constructor(message: string, status?: number, response?: FacilitatorErrorResponse) {
+    super(message, "SETTLEMENT_ERROR", false, status, response);
+    this.name = "SettlementError";
+    Object.setPrototypeOf(this, SettlementError.prototype);
+  }
+}
+
+/**
+ * No response within the configured timeout
+ */
+export class TimeoutError extends FacilitatorClientError {
+  constructor(message: string) {
+    super(message, "TIMEOUT", true);
+    this.name = "TimeoutError";
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+/**
+ * The facilitator could not be reached or returned an unreadable response
+ */
+export class NetworkError extends FacilitatorClientError {
+  constructor(
+    message: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message, "NETWORK_ERROR", true);
+    this.name = "NetworkError";
+    Object.setPrototypeOf(this, NetworkError.prototype);
+  }
+}
+
+/**
+ * Map a non-2xx facilitator response to an error class
+ *
+ * @param status - HTTP status code
+ * @param body - Parsed error body (`{ error, message, retryAfter }`)
+ * @param retryAfterHeader - Seconds from the Retry-After header, used when the body has none
+ * @returns Error matching the facilitator error
+ */
+export function createFacilitatorError(
+  status: number,
+  body: FacilitatorErrorResponse | undefined,
+  retryAfterHeader?: number,
+): FacilitatorClientError {
+  const title = body?.error ?? `HTTP ${status}`;
+  const message = body?.message ? `${title}: ${body.message}` : title;
+  const retryAfter = body?.retryAfter ?? retryAfterHeader;
+
+  switch (status) {
+    case 400:
+      return new ValidationError(message, status, body);
+    case 401:
+      return new AuthenticationError(message, status, body);
+    case 403:
+      return new AuthorizationError(message, status, body);
+    case 404:
+      return new NotFoundError(message, status, body);
+    case 409:
+      return new SettlementConflictError(message, status, body);
+    case 429:
+      return title === "Duplicate payer in queue"
+        ? new DuplicatePayerError(message, status, body, retryAfter)
+        : new RateLimitError(message, status, body, retryAfter);
+    case 502:
+    case 503:
+    case 504:
+      if (title === "Service temporarily overloaded") {
+        return new QueueOverloadError(message, status, body, retryAfter);
+      }
+      if (title === "Service temporarily unavailable") {
+        return new LockUnavailableError(message, status, body, retryAfter);
+      }
+      return new ServiceUnavailableError(message, status, body, retryAfter);
+    default:
+      return status >= 500
+        ? new SettlementError(message, status, body)
+        : new FacilitatorClientError(message, "HTTP_ERROR", false, status, body);
+  }
+}
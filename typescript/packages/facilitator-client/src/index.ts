@@ -0,0 +1,70 @@
+/**
+ * @x402x/facilitator-client - Typed client for the x402x facilitator HTTP API
+ *
+ * @example
+ * ```typescript
+ * import { FacilitatorClient, QueueOverloadError } from '@x402x/facilitator-client';
+ *
+ * const facilitator = new FacilitatorClient({
+ *   url: 'https://facilitator.x402x.dev',
+ *   timeoutMs: 5000,
+ *   retries: 3,
+ * });
+ *
+ * const fee = await facilitator.calculateFee({ network: 'base-sepolia', hook });
+ * const result = await facilitator.settle(paymentPayload, paymentRequirements);
+ * ```
+ *
+ * @module @x402x/facilitator-client
+ */
+
+export { FacilitatorClient, signAdminRequest } from "./client.js";
+
+export {
+  FacilitatorClientError,
+  ValidationError,
+  AuthenticationError,
+  AuthorizationError,
+  NotFoundError,
+  SettlementConflictError,
+  DuplicatePayerError,
+  RateLimitError,
+  QueueOverloadError,
+  LockUnavailableError,
+  ServiceUnavailableError,
+  SettlementError,
+  TimeoutError,
+  NetworkError,
+  createFacilitatorError,
+} from "./errors.js";
+
+export type {
+  AdminCredentials,
+  FacilitatorClientConfig,
+  RequestOptions,
+  CalculateFeeParams,
+  SettleAsyncOptions,
+} from "./types.js";
+
+// Re-export the shared facilitator API models for convenience
+export type {
+  FacilitatorErrorResponse,
+  FeeCalculationResult,
+  HealthResponse,
+  ReadinessCheck,
+  ReadinessResponse,
+  SupportedPaymentKind,
+  SupportedResponse,
+  VerifyRequest,
+  VerifyResponse,
+  SettleRequest,
+  SettleResponse,
+  SettlementJob,
+  SettlementJobStatus,
+  SimulateResponse,
+  StatsQuery,
+  StatsResponse,
+  PendingFeesResponse,
+  ClaimFeesRequest,
+  ClaimFeesResponse,
+} from "@x402x/core";
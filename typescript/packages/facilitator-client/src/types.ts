@@ -0,0 +1,74 @@
+/**
+ * Type definitions for the facilitator client
+ */
+
+/**
+ * Admin API credentials (see the facilitator's ADMIN_API_KEYS)
+ *
+ * With `keyId` every admin request is signed (X-Admin-Key-Id, X-Admin-Timestamp,
+ * X-Admin-Nonce, X-Admin-Signature) and the secret never leaves the client. Without it the secret
+ * is sent as a Bearer token.
+ */
+export interface AdminCredentials {
+  /** API key secret */
+  secret: string;
+  /** API key id; enables signed requests */
+  keyId?: string;
+}
+
+/**
+ * Facilitator client configuration
+ */
+export interface FacilitatorClientConfig {
+  /** Facilitator base URL (a path prefix such as `https://example.com/x402/` is kept) */
+  url: string;
+  /** Timeout per attempt in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Timeout per attempt for POST /settle in milliseconds (default: 30000) */
+  settleTimeoutMs?: number;
+  /** Retries after the first attempt for recoverable errors (default: 2) */
+  retries?: number;
+  /** Base delay of the exponential retry backoff in milliseconds (default: 500) */
+  retryDelayMs?: number;
+  /** Longest delay the client waits before a retry; a longer retryAfter fails instead (default: 15000) */
+  maxRetryDelayMs?: number;
+  /** Credentials for /pending-fees and /claim-fees */
+  admin?: AdminCredentials;
+  /** Extra headers sent with every request (e.g. for an API gateway) */
+  headers?: Record<string, string>;
+  /** Fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions {
+  /** Aborts the request, including pending retries */
+  signal?: AbortSignal;
+  /** Overrides the configured timeout per attempt */
+  timeoutMs?: number;
+  /** Overrides the configured number of retries */
+  retries?: number;
+}
+
+/**
+ * GET /calculate-fee parameters
+ */
+export interface CalculateFeeParams {
+  network: string;
+  /** Hook contract address */
+  hook: string;
+  /** Encoded hook parameters */
+  hookData?: string;
+  /** Settlement asset (address or symbol); defaults to the network's default asset */
+  asset?: string;
+}
+
+/**
+ * Asynchronous settlement options
+ */
+export interface SettleAsyncOptions extends RequestOptions {
+  /** Callback URL notified when the settlement finishes */
+  webhookUrl?: string;
+}
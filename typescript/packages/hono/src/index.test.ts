@@ -78,6 +78,11 @@ vi.mock("@x402x/core", () => ({
       },
     }),
   ),
+  FacilitatorPool: class {
+    verify = vi.fn();
+    settle = vi.fn();
+    calculateFee = vi.fn();
+  },
 }));
 
 import { useFacilitator } from "x402/verify";
@@ -88,6 +93,7 @@ import {
   findMatchingPaymentRequirements,
 } from "x402/shared";
 import { settleResponseHeader } from "x402/types";
+import { addSettlementExtra, calculateFacilitatorFee, FacilitatorPool } from "@x402x/core";
 
 // Mock Hono Context
 function createMockContext(path: string, method: string, headers: Record<string, string> = {}) {
@@ -234,6 +240,34 @@ describe("paymentMiddleware", () => {
         hookData: expect.any(String),
       });
     });
+
+    it("should pass the facilitator fee quote into settlement extra", async () => {
+      vi.mocked(findMatchingRoute).mockReturnValue({
+        verb: "POST",
+        pattern: /^\/api\/test$/,
+        config: { price: "$0.01", network: "base-sepolia" },
+      });
+      vi.mocked(calculateFacilitatorFee).mockResolvedValueOnce({
+        ...(await calculateFacilitatorFee(mockConfig.url, "base-sepolia", "0x")),
+        feeQuoteId: "quote.signature",
+      });
+
+      const middleware = paymentMiddleware(
+        payTo,
+        {
+          price: "$0.01",
+          network: "base-sepolia",
+        },
+        mockConfig,
+      );
+
+      await middleware(createMockContext("/api/test", "POST"), vi.fn());
+
+      expect(addSettlementExtra).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ feeQuoteId: "quote.signature" }),
+      );
+    });
   });
 
   describe("payment verification", () => {
@@ -515,5 +549,51 @@ describe("paymentMiddleware", () => {
 
       expect(mockSettle).not.toHaveBeenCalled();
     });
+
+    it("should verify and settle through a facilitator pool", async () => {
+      const pool = new FacilitatorPool({ facilitators: [mockConfig.url] });
+      vi.mocked(pool.calculateFee).mockResolvedValue({
+        ...(await calculateFacilitatorFee(mockConfig.url, "base-sepolia", "0x")),
+        facilitatorUrl: mockConfig.url,
+      });
+      vi.mocked(pool.verify).mockResolvedValue({
+        isValid: true,
+        payer: "0x3234567890123456789012345678901234567890",
+      });
+      vi.mocked(pool.settle).mockResolvedValue({
+        success: true,
+        transaction: "0xabcd",
+        network: "base-sepolia",
+        payer: "0x3234567890123456789012345678901234567890",
+      });
+
+      const middleware = paymentMiddleware(
+        payTo,
+        {
+          price: "$0.01",
+          network: "base-sepolia",
+        },
+        pool,
+      );
+
+      const responseHeaders = new Map();
+      const mockCtx = createMockContext("/api/test", "POST", { "x-payment": "encoded-payment" });
+      mockCtx.res = {
+        status: 200,
+        headers: {
+          set: (key: string, value: string) => responseHeaders.set(key, value),
+        },
+      };
+      const mockNext = vi.fn();
+
+      await middleware(mockCtx, mockNext);
+
+      expect(pool.calculateFee).toHaveBeenCalled();
+      expect(pool.settle).toHaveBeenCalledWith(
+        mockPaymentPayload,
+        expect.objectContaining({ network: "base-sepolia" }),
+      );
+      expect(responseHeaders.get("X-PAYMENT-RESPONSE")).toBeDefined();
+    });
   });
 });
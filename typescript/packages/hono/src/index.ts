@@ -21,7 +21,9 @@ import {
   PaymentRequirements,
   Resource,
   settleResponseHeader,
+  SettleResponse,
   SupportedEVMNetworks,
+  VerifyResponse,
   type Money,
   type Network,
 } from "x402/types";
@@ -31,7 +33,10 @@ import {
   getNetworkConfig,
   TransferHook,
   calculateFacilitatorFee,
+  toAssetPrice,
+  FacilitatorPool,
   type FeeCalculationResult,
+  type MultiFacilitatorConfig,
 } from "@x402x/core";
 import type { Address } from "viem";
 import type { Address as SolanaAddress } from "@solana/kit";
@@ -93,6 +98,13 @@ export interface X402xRouteConfig {
   /** Encoded hook data - defaults to empty data */
   hookData?: string | ((network: Network) => string);
 
+  /**
+   * Settlement asset (token address or symbol, e.g. "EURC") - defaults to the network's
+   * default asset (USDC). For other assets, price and static facilitatorFee are
+   * denominated in the asset itself (e.g. "5" = 5 EURC).
+   */
+  asset?: string | ((network: Network) => string);
+
   // facilitatorFee supports two modes:
   // 1. Not configured or "auto" (default) -> query from facilitator automatically
   // 2. Configured with specific value -> use static fee (backward compatible)
@@ -129,7 +141,8 @@ export type X402xRoutesConfig = X402xRouteConfig | Record<string, X402xRouteConf
  *
  * @param payTo - The final recipient address (used in hook, not as SettlementRouter)
  * @param routes - Configuration for protected routes and their payment requirements
- * @param facilitator - Configuration for the payment facilitator service
+ * @param facilitator - Configuration for the payment facilitator service, or several facilitators
+ *   (`MultiFacilitatorConfig` or a shared `FacilitatorPool`) to fail over between
  * @returns A Hono middleware handler
  *
  * @example
@@ -200,13 +213,37 @@ export type X402xRoutesConfig = X402xRouteConfig | Record<string, X402xRouteConf
  *   facilitator
  * ));
  * ```
+ *
+ * @example
+ * Several facilitators with failover:
+ * ```typescript
+ * app.use('/api/*', paymentMiddleware(
+ *   '0xRecipient...',
+ *   { price: '$0.01', network: 'base-sepolia' },
+ *   { facilitators: ['https://facilitator.x402x.dev', 'https://backup.example.com'] }
+ * ));
+ * ```
  */
 export function paymentMiddleware(
   payTo: string,
   routes: X402xRoutesConfig,
-  facilitator?: FacilitatorConfig,
+  facilitator?: FacilitatorConfig | MultiFacilitatorConfig | FacilitatorPool,
 ) {
-  const { verify, settle } = useFacilitator(facilitator);
+  const pool =
+    facilitator instanceof FacilitatorPool
+      ? facilitator
+      : facilitator && "facilitators" in facilitator
+        ? new FacilitatorPool(facilitator)
+        : undefined;
+  const facilitatorConfig = pool ? undefined : (facilitator as FacilitatorConfig | undefined);
+  const { verify, settle } = pool
+    ? {
+        verify: (payment: PaymentPayload, requirements: PaymentRequirements) =>
+          pool.verify(payment, requirements) as Promise<VerifyResponse>,
+        settle: (payment: PaymentPayload, requirements: PaymentRequirements) =>
+          pool.settle(payment, requirements) as Promise<SettleResponse>,
+      }
+    : useFacilitator(facilitatorConfig);
   const x402Version = 1;
 
   // Normalize routes to per-route config
@@ -261,6 +298,7 @@ export function paymentMiddleware(
       network: networkConfig,
       hook,
       hookData,
+      asset: assetConfig,
       facilitatorFee,
       config = {},
     } = routeConfig;
@@ -312,7 +350,14 @@ export function paymentMiddleware(
           continue;
         }
 
-        const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
+        // Resolve settlement asset (defaults to the network's default asset)
+        const resolvedAsset =
+          typeof assetConfig === "function" ? assetConfig(network) : assetConfig;
+
+        const atomicAmountForAsset = processPriceToAtomicAmount(
+          resolvedAsset ? toAssetPrice(price, network, resolvedAsset) : price,
+          network,
+        );
         if ("error" in atomicAmountForAsset) {
           throw new Error(atomicAmountForAsset.error);
         }
@@ -336,11 +381,12 @@ export function paymentMiddleware(
         let resolvedFacilitatorFee: string;
         let businessAmount: string;
         let maxAmountRequired: string;
+        let feeQuoteId: string | undefined;
 
         // Check if we should dynamically query fee
         if (resolvedFacilitatorFeeRaw === undefined || resolvedFacilitatorFeeRaw === "auto") {
           // Dynamic fee calculation
-          if (!facilitator?.url) {
+          if (!pool && !facilitatorConfig?.url) {
             throw new Error(
               `Facilitator URL required for dynamic fee calculation. ` +
                 `Please provide facilitator config in paymentMiddleware() or set static facilitatorFee.`,
@@ -348,13 +394,18 @@ export function paymentMiddleware(
           }
 
           try {
-            const feeResult = await calculateFacilitatorFee(
-              facilitator.url,
-              network,
-              resolvedHook,
-              resolvedHookData,
-            );
+            const feeResult = pool
+              ? await pool.calculateFee(network, resolvedHook, resolvedHookData, resolvedAsset)
+              : await calculateFacilitatorFee(
+                  facilitatorConfig!.url,
+                  network,
+                  resolvedHook,
+                  resolvedHookData,
+                  true,
+                  resolvedAsset,
+                );
             resolvedFacilitatorFee = feeResult.facilitatorFee;
+            feeQuoteId = feeResult.feeQuoteId;
 
             // When using dynamic fee, price is business price only
             // Total = business price + facilitator fee
@@ -384,7 +435,12 @@ export function paymentMiddleware(
           maxAmountRequired = baseAmount;
         } else {
           // Static fee configuration
-          const feeResult = processPriceToAtomicAmount(resolvedFacilitatorFeeRaw, network);
+          const feeResult = processPriceToAtomicAmount(
+            resolvedAsset
+              ? toAssetPrice(resolvedFacilitatorFeeRaw, network, resolvedAsset)
+              : resolvedFacilitatorFeeRaw,
+            network,
+          );
           if ("error" in feeResult) {
             throw new Error(`Invalid facilitatorFee: ${feeResult.error}`);
           }
@@ -421,6 +477,7 @@ export function paymentMiddleware(
           hookData: resolvedHookData,
           facilitatorFee: resolvedFacilitatorFee,
           payTo, // Final recipient
+          feeQuoteId,
         });
 
         // Add extra field to track business amount separately (optional, for transparency)
@@ -551,5 +608,7 @@ export type {
   PaymentPayload,
   PaymentRequirements,
 } from "x402/types";
+export { FacilitatorPool } from "@x402x/core";
+export type { MultiFacilitatorConfig, FacilitatorSelectionStrategy } from "@x402x/core";
 export type { Address } from "viem";
 export type { Address as SolanaAddress } from "@solana/kit";
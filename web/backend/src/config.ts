@@ -0,0 +1,104 @@
+/**
+ * Application configuration
+ */
+
+import dotenv from 'dotenv';
+import type { NetworkName } from './types.js';
+dotenv.config();
+
+/**
+ * Where the indexer reads SettlementRouter logs from
+ * - rpc: JSON-RPC eth_getLogs
+ * - explorer: the network's block explorer API (etherscan / oklink)
+ */
+export type IndexerSource = 'rpc' | 'explorer';
+
+/**
+ * Per-network indexer settings
+ */
+export interface NetworkIndexerConfig {
+  /** JSON-RPC endpoint (default: the chain's public RPC) */
+  rpcUrl?: string;
+  /** First block to index when the network has no checkpoint (default: current safe head) */
+  startBlock?: number;
+  /** Blocks a log must be buried under before it is indexed (overrides INDEXER_CONFIRMATIONS) */
+  confirmations?: number;
+}
+
+/**
+ * Environment variable prefix per network (e.g. BASE_SEPOLIA_RPC_URL)
+ */
+const NETWORK_ENV_PREFIXES: Record<NetworkName, string> = {
+  'base-sepolia': 'BASE_SEPOLIA',
+  base: 'BASE',
+  'x-layer-testnet': 'XLAYER_TESTNET',
+  'x-layer': 'XLAYER',
+  'bsc-testnet': 'BSC_TESTNET',
+  bsc: 'BSC',
+};
+
+/**
+ * Supported networks
+ */
+export const NETWORK_NAMES = Object.keys(NETWORK_ENV_PREFIXES) as NetworkName[];
+
+function optionalInt(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function loadNetworkConfigs(): Record<NetworkName, NetworkIndexerConfig> {
+  return Object.fromEntries(
+    Object.entries(NETWORK_ENV_PREFIXES).map(([name, prefix]) => [
+      name,
+      {
+        rpcUrl: process.env[`${prefix}_RPC_URL`] || undefined,
+        startBlock: optionalInt(process.env[`${prefix}_START_BLOCK`]),
+        confirmations: optionalInt(process.env[`${prefix}_CONFIRMATIONS`]),
+      },
+    ])
+  ) as Record<NetworkName, NetworkIndexerConfig>;
+}
+
+export const config = {
+  indexer: {
+    enabled: process.env.INDEXER_ENABLED === 'true',
+    source: (process.env.INDEXER_SOURCE === 'explorer' ? 'explorer' : 'rpc') as IndexerSource,
+    pollInterval: optionalInt(process.env.INDEXER_POLL_INTERVAL) ?? 30000,
+    /** Blocks requested per eth_getLogs / explorer call */
+    blockRange: optionalInt(process.env.INDEXER_BLOCK_RANGE) ?? 2000,
+    confirmations: optionalInt(process.env.INDEXER_CONFIRMATIONS) ?? 12,
+    networks: loadNetworkConfigs(),
+  },
+  sync: {
+    /** Lag (seconds) behind chain head above which a network is reported as delayed */
+    delayedThreshold: optionalInt(process.env.SYNC_DELAYED_THRESHOLD) ?? 300,
+    /** Lag (seconds) behind chain head above which a network is reported as critical */
+    criticalThreshold: optionalInt(process.env.SYNC_CRITICAL_THRESHOLD) ?? 3600,
+    /** How long a fetched chain head is reused (milliseconds) */
+    headCacheTtl: optionalInt(process.env.SYNC_HEAD_CACHE_TTL) ?? 15000,
+  },
+  auth: {
+    /** How long a signed request stays valid (seconds) */
+    signatureTtl: optionalInt(process.env.AUTH_SIGNATURE_TTL) ?? 300,
+  },
+  hookRegistry: {
+    /** Addresses allowed to verify hooks */
+    verifiers: (process.env.HOOK_VERIFIERS || '')
+      .split(',')
+      .map((address) => address.trim().toLowerCase())
+      .filter(Boolean),
+  },
+  prices: {
+    coingeckoApiKey: process.env.COINGECKO_API_KEY || '',
+    /** How long a fetched token price is reused (milliseconds) */
+    cacheTtl: optionalInt(process.env.PRICE_CACHE_TTL) ?? 600000,
+  },
+  explorer: {
+    etherscanApiKey: process.env.ETHERSCAN_API_KEY || '',
+    oklinkApiKey: process.env.OKLINK_API_KEY || '',
+  },
+};
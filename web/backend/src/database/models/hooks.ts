@@ -0,0 +1,222 @@
+import { getDatabase, handleDatabaseError } from '../db.js';
+import type { Hook, HookQueryParams, HookSubmission, NetworkName } from '../../types.js';
+import { ConflictError, NotFoundError } from '../../utils/errors.js';
+
+/**
+ * Hook stats row of the hook_stats view
+ */
+interface HookStatsRow {
+  address: string;
+  transaction_count: number | null;
+  total_volume: string | number | null;
+  unique_users: number | null;
+}
+
+/**
+ * Query registered hooks, most used first
+ */
+export async function getHooks(params: HookQueryParams): Promise<{ hooks: Hook[]; total: number }> {
+  try {
+    const db = getDatabase();
+    let query = db.from('hooks').select('*', { count: 'exact' });
+
+    if (params.network) {
+      query = query.eq('network', params.network);
+    }
+    if (params.category) {
+      query = query.eq('category', params.category);
+    }
+    if (params.verified !== undefined) {
+      query = query.eq('is_verified', params.verified);
+    }
+
+    const offset = (params.page - 1) * params.limit;
+    const { data, count, error } = await query
+      .order('total_transactions', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + params.limit - 1);
+
+    if (error) {
+      throw error;
+    }
+    return { hooks: (data || []) as Hook[], total: count ?? 0 };
+  } catch (error) {
+    handleDatabaseError(error, 'getHooks');
+  }
+}
+
+/**
+ * Get a registered hook
+ */
+export async function getHook(network: NetworkName, address: string): Promise<Hook | null> {
+  try {
+    const db = getDatabase();
+    const { data, error } = await db
+      .from('hooks')
+      .select('*')
+      .eq('network', network)
+      .eq('address', address.toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data as Hook | null;
+  } catch (error) {
+    handleDatabaseError(error, 'getHook');
+  }
+}
+
+/**
+ * Register a hook, or update a pending submission
+ *
+ * Only the original submitter may update a submission, and only until it is verified.
+ *
+ * @param submitter - Address that signed the submission
+ * @throws ConflictError if the hook is verified or was submitted by someone else
+ */
+export async function submitHook(submission: HookSubmission, submitter: string): Promise<Hook> {
+  const address = submission.address.toLowerCase();
+  const existing = await getHook(submission.network, address);
+  if (existing && (existing.is_verified || existing.submitted_by !== submitter)) {
+    throw new ConflictError(`Hook ${address} is already registered on ${submission.network}`);
+  }
+
+  try {
+    const db = getDatabase();
+    const { data, error } = await db
+      .from('hooks')
+      .upsert(
+        {
+          network: submission.network,
+          address,
+          name: submission.name,
+          description: submission.description ?? null,
+          category: submission.category ?? null,
+          version: submission.version ?? null,
+          author: submission.author ?? null,
+          website: submission.website ?? null,
+          github: submission.github ?? null,
+          submitted_by: submitter,
+        } as never,
+        { onConflict: 'address,network' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return data as Hook;
+  } catch (error) {
+    handleDatabaseError(error, 'submitHook');
+  }
+}
+
+/**
+ * Mark a hook as verified
+ *
+ * @param verifier - Address that signed the verification
+ * @throws NotFoundError if the hook is not registered
+ */
+export async function verifyHook(
+  network: NetworkName,
+  address: string,
+  verifier: string
+): Promise<Hook> {
+  let data: unknown;
+  try {
+    const db = getDatabase();
+    const result = await db
+      .from('hooks')
+      .update({
+        is_verified: true,
+        verified_at: new Date().toISOString(),
+        verified_by: verifier,
+      } as never)
+      .eq('network', network)
+      .eq('address', address.toLowerCase())
+      .select()
+      .maybeSingle();
+
+    if (result.error) {
+      throw result.error;
+    }
+    data = result.data;
+  } catch (error) {
+    handleDatabaseError(error, 'verifyHook');
+  }
+
+  if (!data) {
+    throw new NotFoundError(`Hook ${address} is not registered on ${network}`);
+  }
+  return data as Hook;
+}
+
+/**
+ * Refresh the cached stats of registered hooks from indexed transactions
+ *
+ * Unregistered addresses are ignored.
+ */
+export async function refreshHookStats(network: NetworkName, addresses: string[]): Promise<void> {
+  if (addresses.length === 0) {
+    return;
+  }
+
+  try {
+    const db = getDatabase();
+    const { data, error } = await db
+      .from('hook_stats')
+      .select('address, transaction_count, total_volume, unique_users')
+      .eq('network', network)
+      .in('address', addresses.map((address) => address.toLowerCase()));
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of (data || []) as HookStatsRow[]) {
+      const { error: updateError } = await db
+        .from('hooks')
+        .update({
+          total_transactions: row.transaction_count ?? 0,
+          total_volume: String(row.total_volume ?? 0),
+          unique_users: row.unique_users ?? 0,
+        } as never)
+        .eq('network', network)
+        .eq('address', row.address);
+
+      if (updateError) {
+        throw updateError;
+      }
+    }
+  } catch (error) {
+    handleDatabaseError(error, 'refreshHookStats');
+  }
+}
+
+/**
+ * Get registered names of hook addresses (on any network)
+ */
+export async function getHookNames(addresses: string[]): Promise<Map<string, string>> {
+  if (addresses.length === 0) {
+    return new Map();
+  }
+
+  try {
+    const db = getDatabase();
+    const { data, error } = await db
+      .from('hooks')
+      .select('address, name')
+      .in('address', addresses.map((address) => address.toLowerCase()));
+
+    if (error) {
+      throw error;
+    }
+    return new Map(
+      ((data || []) as Array<Pick<Hook, 'address' | 'name'>>).map((hook) => [hook.address, hook.name])
+    );
+  } catch (error) {
+    handleDatabaseError(error, 'getHookNames');
+  }
+}
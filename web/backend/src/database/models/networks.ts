@@ -0,0 +1,83 @@
+import { getDatabase, handleDatabaseError } from '../db.js';
+import type { Network, NetworkName } from '../../types.js';
+
+/**
+ * Get all networks
+ */
+export async function getNetworks(): Promise<Network[]> {
+  try {
+    const db = getDatabase();
+    const { data, error } = await db.from('networks').select('*').order('id', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []) as Network[];
+  } catch (error) {
+    handleDatabaseError(error, 'getNetworks');
+  }
+}
+
+/**
+ * Get networks enabled for indexing
+ */
+export async function getActiveNetworks(): Promise<Network[]> {
+  try {
+    const db = getDatabase();
+    const { data, error } = await db.from('networks').select('*').eq('is_active', true);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []) as Network[];
+  } catch (error) {
+    handleDatabaseError(error, 'getActiveNetworks');
+  }
+}
+
+/**
+ * Get a network by name
+ */
+export async function getNetwork(name: NetworkName): Promise<Network | null> {
+  try {
+    const db = getDatabase();
+    const { data, error } = await db.from('networks').select('*').eq('name', name).maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data as Network | null;
+  } catch (error) {
+    handleDatabaseError(error, 'getNetwork');
+  }
+}
+
+/**
+ * Record indexing progress of a network
+ *
+ * @param name - Network name
+ * @param blockHeight - Last indexed block
+ * @param timestamp - Unix timestamp (seconds) of that block
+ */
+export async function updateNetworkCheckpoint(
+  name: NetworkName,
+  blockHeight: number,
+  timestamp: number
+): Promise<void> {
+  try {
+    const db = getDatabase();
+    const { error } = await db
+      .from('networks')
+      .update({
+        last_indexed_block_height: String(blockHeight),
+        last_indexed_timestamp: timestamp,
+      } as never)
+      .eq('name', name);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    handleDatabaseError(error, 'updateNetworkCheckpoint');
+  }
+}
@@ -1,13 +1,5 @@
 import { getDatabase, handleDatabaseError } from '../db.js';
-
-/**
- * Hook stats data structure from database
- */
-interface HookStats {
-  total_volume: string | number | null;
-  unique_users: number | null;
-  total_transactions: number | null;
-}
+import type { NetworkName, Statistics } from '../../types.js';
 
 export async function getTempOverallStats() {
   try {
@@ -23,82 +15,121 @@ export async function getTempOverallStats() {
 }
 
 /**
- * Get aggregated statistics across all hooks
- * Sums total_volume, unique_users, and total_transactions from all hooks
+ * Daily rollup row, without generated columns
+ */
+export type DailyStatistics = Omit<Statistics, 'id' | 'updated_at'> & { date: string };
+
+/**
+ * Distinct counts over a time range (see get_unique_counts)
+ */
+export interface UniqueCounts {
+  level: 'all' | 'network' | 'hook';
+  network: NetworkName | null;
+  hook: string | null;
+  unique_payers: number;
+  unique_facilitators: number;
+}
+
+/**
+ * Get aggregated statistics across all indexed transactions
+ *
+ * Totals come from the daily network rollups; unique users are counted over the
+ * transactions themselves, since per-hook or per-day counts overlap.
  */
 export async function getAggregatedStats() {
-  try {
-    const db = getDatabase();
-    const { data, error } = await db
-      .from('x402_hooks')
-      .select('total_volume, unique_users, total_transactions');
-    
-    if (error) {
-      throw error;
-    }
+  const [rows, uniqueCounts] = await Promise.all([getDailyStatistics(null), getUniqueCounts(null)]);
 
-    // Aggregate the statistics
-    const aggregated = {
-      total_volume: '0',
-      unique_users: 0,
-      total_transactions: 0,
-    };
+  let totalVolume = 0n;
+  let totalTransactions = 0;
+  for (const row of rows) {
+    if (row.hook === null && row.facilitator === null) {
+      totalVolume += BigInt(row.total_volume ?? 0);
+      totalTransactions += row.transaction_count ?? 0;
+    }
+  }
 
-    if (data && data.length > 0) {
-      // Sum total_volume (handling BigInt/Numeric as string)
-      const totalVolumeSum = (data as HookStats[]).reduce((sum: string, hook: HookStats) => {
-        const volume = hook.total_volume ? String(hook.total_volume) : '0';
-        return (BigInt(sum) + BigInt(volume)).toString();
-      }, '0');
+  return {
+    total_volume: totalVolume.toString(),
+    unique_users: uniqueCounts.find((count) => count.level === 'all')?.unique_payers ?? 0,
+    total_transactions: totalTransactions,
+  };
+}
 
-      // Sum unique_users (using Set to count unique users across all hooks)
-      // Since we're summing unique_users per hook, we need to be careful
-      // For now, we'll sum the counts (assuming they represent unique users per hook)
-      const uniqueUsersSum = (data as HookStats[]).reduce((sum: number, hook: HookStats) => {
-        return sum + (hook.unique_users || 0);
-      }, 0);
+/**
+ * Get daily rollups since a date
+ *
+ * @param fromDate - First date (YYYY-MM-DD), or null for all days
+ */
+export async function getDailyStatistics(fromDate: string | null): Promise<Statistics[]> {
+  const pageSize = 1000;
+  const rows: Statistics[] = [];
 
-      // Sum total_transactions
-      const totalTransactionsSum = (data as HookStats[]).reduce((sum: number, hook: HookStats) => {
-        return sum + (hook.total_transactions || 0);
-      }, 0);
+  try {
+    const db = getDatabase();
+    for (let offset = 0; ; offset += pageSize) {
+      let query = db.from('statistics').select('*').not('date', 'is', null);
+      if (fromDate) {
+        query = query.gte('date', fromDate);
+      }
+      const { data, error } = await query
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + pageSize - 1);
 
-      aggregated.total_volume = totalVolumeSum;
-      aggregated.unique_users = uniqueUsersSum;
-      aggregated.total_transactions = totalTransactionsSum;
+      if (error) {
+        throw error;
+      }
+      rows.push(...((data || []) as Statistics[]));
+      if (!data || data.length < pageSize) {
+        return rows;
+      }
     }
-
-    return aggregated;
   } catch (error) {
-    handleDatabaseError(error, 'getAggregatedStats');
+    handleDatabaseError(error, 'getDailyStatistics');
   }
 }
 
-export async function getTempTransactions(page: number, limit: number) {
+/**
+ * Replace the rollups of a day
+ */
+export async function replaceDailyStatistics(date: string, rows: DailyStatistics[]): Promise<void> {
   try {
     const db = getDatabase();
-    const { data, error } = await db.from('x402_transactions').select('*').order('block_timestamp', { ascending: false }).range((page - 1) * limit, page * limit - 1);
+    const { error: deleteError } = await db.from('statistics').delete().eq('date', date);
+    if (deleteError) {
+      throw deleteError;
+    }
 
-    if (error) {
-      throw error;
+    if (rows.length > 0) {
+      const { error } = await db.from('statistics').insert(rows as never);
+      if (error) {
+        throw error;
+      }
     }
-    return data;
   } catch (error) {
-    handleDatabaseError(error, 'getTempTransactions');
+    handleDatabaseError(error, 'replaceDailyStatistics');
   }
 }
 
-export async function getTempTransactionsCount() {
+/**
+ * Count distinct payers and facilitators overall, per network and per hook
+ *
+ * @param from - Start (unix seconds, inclusive), or null for all time
+ */
+export async function getUniqueCounts(from: number | null): Promise<UniqueCounts[]> {
   try {
     const db = getDatabase();
-    const { count, error } = await db.from('x402_transactions').select('*', { count: 'exact', head: true });
+    const { data, error } = await db.rpc('get_unique_counts', { p_from: from } as never);
 
     if (error) {
       throw error;
     }
-    return count || 0;
+    return ((data || []) as UniqueCounts[]).map((row) => ({
+      ...row,
+      unique_payers: Number(row.unique_payers),
+      unique_facilitators: Number(row.unique_facilitators),
+    }));
   } catch (error) {
-    handleDatabaseError(error, 'getTempTransactionsCount');
+    handleDatabaseError(error, 'getUniqueCounts');
   }
 }
-
@@ -0,0 +1,214 @@
+import { getDatabase, handleDatabaseError } from '../db.js';
+import type { ParsedTransaction, Transaction, TransactionQueryParams } from '../../types.js';
+import { ValidationError } from '../../utils/errors.js';
+
+/**
+ * Insert or update indexed settlements
+ *
+ * Settlements are keyed by (network, context_key): the SettlementRouter settles each
+ * context key once, so re-indexing a range (backfills, restarts) updates rows in place.
+ */
+export async function upsertTransactions(transactions: ParsedTransaction[]): Promise<void> {
+  if (transactions.length === 0) {
+    return;
+  }
+
+  try {
+    const db = getDatabase();
+    const rows = transactions.map((tx) => ({
+      tx_hash: tx.txHash,
+      network: tx.network,
+      block_number: tx.blockNumber,
+      block_timestamp: tx.blockTimestamp,
+      context_key: tx.contextKey,
+      payer: tx.payer,
+      token: tx.token,
+      amount: tx.amount,
+      hook: tx.hook,
+      salt: tx.salt,
+      pay_to: tx.payTo,
+      facilitator_fee: tx.facilitatorFee,
+      facilitator: tx.facilitator,
+      gas_used: tx.gasUsed,
+      gas_price: tx.gasPrice,
+      status: tx.status,
+      from: tx.from,
+      to: tx.to,
+    }));
+
+    const { error } = await db
+      .from('transactions')
+      .upsert(rows as never, { onConflict: 'network,context_key' });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    handleDatabaseError(error, 'upsertTransactions');
+  }
+}
+
+/**
+ * Transaction record with its registered hook name
+ */
+export type TransactionWithHook = Transaction & { hook_name: string | null };
+
+/**
+ * A page of transactions
+ */
+export interface TransactionPage {
+  transactions: TransactionWithHook[];
+  /** Total matching rows, only counted for offset pagination */
+  total: number | null;
+  nextCursor: string | null;
+}
+
+const SORT_COLUMNS = {
+  timestamp: 'block_timestamp',
+  amount: 'amount',
+} as const;
+
+/**
+ * Query indexed transactions
+ *
+ * Results are ordered by the sort column with the row id as tie-breaker, which keeps
+ * cursors stable. With a cursor, rows after it are returned and no total is counted.
+ *
+ * @throws ValidationError if the cursor is malformed
+ */
+export async function getTransactions(params: TransactionQueryParams): Promise<TransactionPage> {
+  const column = SORT_COLUMNS[params.sortBy ?? 'timestamp'];
+  const ascending = params.sortOrder === 'asc';
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null;
+
+  try {
+    const db = getDatabase();
+    let query = db
+      .from('transactions_with_hooks')
+      .select('*', cursor ? undefined : { count: 'exact' });
+
+    if (params.network) {
+      query = query.eq('network', params.network);
+    }
+    if (params.hook) {
+      query = query.eq('hook', params.hook.toLowerCase());
+    }
+    if (params.payer) {
+      query = query.eq('payer', params.payer.toLowerCase());
+    }
+    if (params.facilitator) {
+      query = query.eq('facilitator', params.facilitator.toLowerCase());
+    }
+    if (params.startDate) {
+      query = query.gte('block_timestamp', toUnixSeconds(params.startDate));
+    }
+    if (params.endDate) {
+      query = query.lte('block_timestamp', toUnixSeconds(params.endDate));
+    }
+    if (cursor) {
+      const op = ascending ? 'gt' : 'lt';
+      query = query.or(
+        `${column}.${op}.${cursor.value},and(${column}.eq.${cursor.value},id.${op}.${cursor.id})`
+      );
+    }
+
+    query = query.order(column, { ascending }).order('id', { ascending });
+
+    // Fetch one extra row to know whether there is a next page
+    const offset = cursor ? 0 : (params.page - 1) * params.limit;
+    const { data, count, error } = await query.range(offset, offset + params.limit);
+
+    if (error) {
+      throw error;
+    }
+
+    const rows = (data || []) as TransactionWithHook[];
+    const transactions = rows.slice(0, params.limit);
+    const last = transactions[transactions.length - 1];
+
+    return {
+      transactions,
+      total: cursor ? null : (count ?? 0),
+      nextCursor: rows.length > params.limit && last ? encodeCursor(String(last[column]), last.id) : null,
+    };
+  } catch (error) {
+    handleDatabaseError(error, 'getTransactions');
+  }
+}
+
+/**
+ * Get the settlements of a transaction
+ *
+ * @returns Settlements in log order; batch settlements have several
+ */
+export async function getTransactionsByHash(txHash: string): Promise<TransactionWithHook[]> {
+  try {
+    const db = getDatabase();
+    const { data, error } = await db
+      .from('transactions_with_hooks')
+      .select('*')
+      .eq('tx_hash', txHash.toLowerCase())
+      .order('id', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []) as TransactionWithHook[];
+  } catch (error) {
+    handleDatabaseError(error, 'getTransactionsByHash');
+  }
+}
+
+function toUnixSeconds(date: string): number {
+  return Math.floor(new Date(date).getTime() / 1000);
+}
+
+function encodeCursor(value: string, id: number): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { value: string; id: number } {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString()) as unknown[];
+    if (/^\d+$/.test(String(value)) && Number.isInteger(id)) {
+      return { value: String(value), id: id as number };
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new ValidationError('Invalid cursor');
+}
+
+/**
+ * Get all transactions in a time range
+ *
+ * @param from - Start (unix seconds, inclusive)
+ * @param to - End (unix seconds, exclusive)
+ */
+export async function getTransactionsBetween(from: number, to: number): Promise<Transaction[]> {
+  const pageSize = 1000;
+  const transactions: Transaction[] = [];
+
+  try {
+    const db = getDatabase();
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await db
+        .from('transactions')
+        .select('*')
+        .gte('block_timestamp', from)
+        .lt('block_timestamp', to)
+        .order('id', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        throw error;
+      }
+      transactions.push(...((data || []) as Transaction[]));
+      if (!data || data.length < pageSize) {
+        return transactions;
+      }
+    }
+  } catch (error) {
+    handleDatabaseError(error, 'getTransactionsBetween');
+  }
+}
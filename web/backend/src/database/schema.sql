@@ -7,28 +7,29 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 -- ==============================================
 -- Networks Table (网络配置)
 -- ==============================================
--- CREATE TABLE IF NOT EXISTS networks (
---   id SERIAL PRIMARY KEY,
---   name VARCHAR(50) UNIQUE NOT NULL,
---   chain_id INTEGER UNIQUE NOT NULL,
---   settlement_router VARCHAR(42) NOT NULL,
---   explorer_api_url VARCHAR(255) NOT NULL,
---   explorer_api_type VARCHAR(20) NOT NULL CHECK (explorer_api_type IN ('basescan', 'oklink')),
---   usdc_address VARCHAR(42) NOT NULL,
---   type VARCHAR(20) NOT NULL CHECK (type IN ('mainnet', 'testnet')),
---   is_active BOOLEAN DEFAULT true,
---   last_indexed_timestamp BIGINT DEFAULT 0,
---   last_indexed_block_height VARCHAR(255) NOT NULL,
---   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
--- );
+CREATE TABLE IF NOT EXISTS networks (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(50) UNIQUE NOT NULL,
+  chain_id INTEGER UNIQUE NOT NULL,
+  settlement_router VARCHAR(42) NOT NULL,
+  explorer_api_url VARCHAR(255) NOT NULL,
+  explorer_api_type VARCHAR(20) NOT NULL CHECK (explorer_api_type IN ('etherscan', 'oklink')),
+  usdc_address VARCHAR(42) NOT NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('mainnet', 'testnet')),
+  is_active BOOLEAN DEFAULT true,
+  last_indexed_timestamp BIGINT DEFAULT 0,
+  last_indexed_block_height VARCHAR(255) NOT NULL DEFAULT '0',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
 
 -- Indexes for networks
--- CREATE INDEX IF NOT EXISTS idx_networks_name ON networks(name);
--- CREATE INDEX IF NOT EXISTS idx_networks_is_active ON networks(is_active);
+CREATE INDEX IF NOT EXISTS idx_networks_name ON networks(name);
+CREATE INDEX IF NOT EXISTS idx_networks_is_active ON networks(is_active);
 
 -- Comments for networks
--- COMMENT ON TABLE networks IS 'Blockchain network configurations';
--- COMMENT ON COLUMN networks.last_indexed_timestamp IS 'Unix timestamp of last indexed block';
+COMMENT ON TABLE networks IS 'Blockchain network configurations';
+COMMENT ON COLUMN networks.last_indexed_timestamp IS 'Unix timestamp of last indexed block';
+COMMENT ON COLUMN networks.last_indexed_block_height IS 'Indexer checkpoint: last indexed block number';
 
 -- ==============================================
 -- Transactions Table (交易记录)
@@ -52,7 +53,39 @@ CREATE TABLE IF NOT EXISTS x402_transactions (
   CONSTRAINT unique_x402_transactions_tx_hash UNIQUE (tx_hash)
 );
 
+-- Settlements indexed from SettlementRouter events (one row per Settled event)
+CREATE TABLE IF NOT EXISTS transactions (
+  id SERIAL PRIMARY KEY,
+  tx_hash VARCHAR(66) NOT NULL,
+  network VARCHAR(50) NOT NULL REFERENCES networks(name) ON DELETE CASCADE,
+  block_number BIGINT NOT NULL,
+  block_timestamp BIGINT NOT NULL,
+
+  -- Settled event data
+  context_key VARCHAR(66) NOT NULL,
+  payer VARCHAR(42) NOT NULL,
+  token VARCHAR(42) NOT NULL,
+  amount NUMERIC(78, 0) NOT NULL,
+  hook VARCHAR(42),
+  salt VARCHAR(66) NOT NULL,
+  pay_to VARCHAR(42) NOT NULL,
+  facilitator_fee NUMERIC(78, 0) NOT NULL DEFAULT 0,
+
+  -- Transaction metadata
+  facilitator VARCHAR(42) NOT NULL,
+  gas_used BIGINT,
+  gas_price NUMERIC(78, 0),
+  status VARCHAR(20) DEFAULT 'success' CHECK (status IN ('success', 'failed', 'pending')),
+  "from" VARCHAR(42) NOT NULL,
+  "to" VARCHAR(42) NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_transactions_network_context_key UNIQUE (network, context_key)
+);
+
 -- Indexes for transactions
+CREATE INDEX IF NOT EXISTS idx_network_block ON transactions(network, block_number);
 CREATE INDEX IF NOT EXISTS idx_tx_hash ON transactions(tx_hash);
 CREATE INDEX IF NOT EXISTS idx_hook ON transactions(hook) WHERE hook IS NOT NULL;
 
@@ -85,6 +118,7 @@ CREATE TABLE IF NOT EXISTS hooks (
   is_verified BOOLEAN DEFAULT false,
   verified_at TIMESTAMP WITH TIME ZONE,
   verified_by VARCHAR(42),
+  submitted_by VARCHAR(42),
 
   -- 统计信息 (缓存)
   total_transactions INTEGER DEFAULT 0,
@@ -130,6 +164,7 @@ CREATE TABLE IF NOT EXISTS statistics (
   unique_facilitators INTEGER DEFAULT 0,
   avg_transaction_size NUMERIC(20, 2) DEFAULT 0,
   avg_facilitator_fee NUMERIC(20, 2) DEFAULT 0,
+  total_facilitator_fee_usd NUMERIC(20, 2) DEFAULT 0,
 
   -- 时间戳
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -147,6 +182,7 @@ CREATE INDEX IF NOT EXISTS idx_stats_date ON statistics(date) WHERE date IS NOT
 -- Comments for statistics
 COMMENT ON TABLE statistics IS 'Pre-computed statistics for performance';
 COMMENT ON COLUMN statistics.date IS 'NULL for overall statistics, date for daily statistics';
+COMMENT ON COLUMN statistics.unique_payers IS 'Exact distinct payers of the row; not additive across rows';
 
 -- ==============================================
 -- Functions and Triggers
@@ -175,6 +211,33 @@ CREATE TRIGGER update_statistics_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Function: exact distinct payers / facilitators over a time range
+-- Daily rollups can't be summed for distinct counts, so periods are counted here.
+-- level: 'all' (overall), 'network' (per network) or 'hook' (per hook address)
+CREATE OR REPLACE FUNCTION get_unique_counts(p_from BIGINT DEFAULT NULL, p_to BIGINT DEFAULT NULL)
+RETURNS TABLE (
+  level TEXT,
+  network VARCHAR,
+  hook VARCHAR,
+  unique_payers BIGINT,
+  unique_facilitators BIGINT
+) AS $$
+  SELECT
+    CASE
+      WHEN GROUPING(t.network) = 0 THEN 'network'
+      WHEN GROUPING(t.hook) = 0 THEN 'hook'
+      ELSE 'all'
+    END,
+    t.network,
+    t.hook,
+    COUNT(DISTINCT t.payer),
+    COUNT(DISTINCT t.facilitator)
+  FROM transactions t
+  WHERE (p_from IS NULL OR t.block_timestamp >= p_from)
+    AND (p_to IS NULL OR t.block_timestamp < p_to)
+  GROUP BY GROUPING SETS ((), (t.network), (t.hook));
+$$ LANGUAGE sql STABLE;
+
 -- ==============================================
 -- Views (Optional - for easier querying)
 -- ==============================================
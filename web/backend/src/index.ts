@@ -9,8 +9,12 @@ import cors from 'cors';
 import { logger } from './utils/logger.js';
 import { initDatabase, testConnection } from './database/db.js';
 import { apiRouter } from './routes/index.js';
+import { config } from './config.js';
+import { Indexer } from './indexer/indexer.js';
+import { captureRawBody } from './middleware/auth.js';
 
 const app = express();
+let indexer: Indexer | null = null;
 
 /**
  * Initialize application
@@ -33,9 +37,19 @@ async function initialize() {
     logger.info('✅ Database connected');
     logger.info('');
 
+    // Start indexer
+    if (config.indexer.enabled) {
+      indexer = new Indexer();
+      indexer.start();
+      logger.info(`✅ Indexer started (source: ${config.indexer.source})`);
+    } else {
+      logger.info('Indexer disabled (set INDEXER_ENABLED=true to enable)');
+    }
+    logger.info('');
+
     // Setup Express middleware
     app.use(cors());
-    app.use(express.json());
+    app.use(express.json({ verify: captureRawBody }));
     app.use(express.urlencoded({ extended: true }));
 
     // Request logging middleware
@@ -62,6 +76,9 @@ async function initialize() {
         version: '1.0.0',
         endpoints: {
           stats: '/api/stats',
+          networks: '/api/networks',
+          transactions: '/api/transactions',
+          hooks: '/api/hooks',
         },
       });
     });
@@ -133,7 +150,10 @@ async function shutdown() {
 
   try {
     // Stop indexer
-    logger.info('✅ Indexer stopped');
+    if (indexer) {
+      await indexer.stop();
+      logger.info('✅ Indexer stopped');
+    }
 
     logger.info('✅ Shutdown complete');
     process.exit(0);
@@ -0,0 +1,31 @@
+/**
+ * Backfill CLI
+ *
+ * Usage: pnpm backfill <network> <fromBlock> [toBlock]
+ */
+
+import { initDatabase } from '../database/db.js';
+import type { NetworkName } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { Indexer } from './indexer.js';
+
+async function main() {
+  const [network, fromBlock, toBlock] = process.argv.slice(2);
+  if (!network || !fromBlock) {
+    logger.error('Usage: pnpm backfill <network> <fromBlock> [toBlock]');
+    process.exit(1);
+  }
+
+  initDatabase();
+  await new Indexer().backfill(
+    network as NetworkName,
+    Number(fromBlock),
+    toBlock ? Number(toBlock) : undefined
+  );
+  logger.info(`✅ Backfill of ${network} complete`);
+}
+
+main().catch((error) => {
+  logger.error(error);
+  process.exit(1);
+});
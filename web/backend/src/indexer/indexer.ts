@@ -0,0 +1,175 @@
+/**
+ * SettlementRouter indexer
+ *
+ * Polls each active network for SettlementRouter events and stores one transaction row
+ * per settlement. Only blocks `confirmations` deep are indexed so reorged blocks are not
+ * picked up; rows are upserted by context key so re-indexing a range is idempotent.
+ */
+
+import { config } from '../config.js';
+import { getActiveNetworks, getNetwork, updateNetworkCheckpoint } from '../database/models/networks.js';
+import { upsertTransactions } from '../database/models/transactions.js';
+import { refreshHookStats } from '../database/models/hooks.js';
+import { rollupDays, toDate } from '../stats/engine.js';
+import type { Network, NetworkName } from '../types.js';
+import { NotFoundError } from '../utils/errors.js';
+import { createLogger, logError, logIndexerProgress } from '../utils/logger.js';
+import { parseTransaction } from './parser.js';
+import { createLogSource, type LogSource } from './sources/index.js';
+
+const log = createLogger('Indexer');
+
+/**
+ * Polling indexer for all active networks
+ */
+export class Indexer {
+  private readonly sources = new Map<NetworkName, LogSource>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  /**
+   * Start polling
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    log.info({ pollInterval: config.indexer.pollInterval }, 'Starting indexer');
+    this.timer = setInterval(() => void this.poll(), config.indexer.pollInterval);
+    void this.poll();
+  }
+
+  /**
+   * Stop polling and wait for the current run to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /**
+   * Index all active networks up to their safe head
+   */
+  async indexAll(): Promise<void> {
+    const networks = await getActiveNetworks();
+    for (const network of networks) {
+      try {
+        await this.indexNetwork(network);
+      } catch (error) {
+        logError(error, `Indexer:${network.name}`);
+      }
+    }
+  }
+
+  /**
+   * Index a network from its checkpoint up to the safe head
+   *
+   * Networks without a checkpoint start at the configured start block, or at the
+   * current safe head when none is configured.
+   */
+  async indexNetwork(network: Network): Promise<void> {
+    const source = this.getSource(network);
+    const safeHead = await this.getSafeHead(network, source);
+
+    const checkpoint = Number(network.last_indexed_block_height || 0);
+    const fromBlock =
+      checkpoint > 0
+        ? checkpoint + 1
+        : (config.indexer.networks[network.name]?.startBlock ?? safeHead);
+
+    if (fromBlock > safeHead) {
+      return;
+    }
+    await this.indexRange(network, source, fromBlock, safeHead, true);
+  }
+
+  /**
+   * Re-index a block range of a network
+   *
+   * The checkpoint only moves forward, so backfilling history does not cause the
+   * poller to re-scan blocks it has already indexed.
+   *
+   * @param toBlock - Last block to index, defaults to the safe head
+   */
+  async backfill(networkName: NetworkName, fromBlock: number, toBlock?: number): Promise<void> {
+    const network = await getNetwork(networkName);
+    if (!network) {
+      throw new NotFoundError(`Network ${networkName} not found`);
+    }
+
+    const source = this.getSource(network);
+    const endBlock = toBlock ?? (await this.getSafeHead(network, source));
+    const checkpoint = Number(network.last_indexed_block_height || 0);
+
+    await this.indexRange(network, source, fromBlock, endBlock, endBlock > checkpoint);
+  }
+
+  private async poll(): Promise<void> {
+    // Skip a tick while the previous run is still going
+    if (this.running) {
+      return;
+    }
+    this.running = this.indexAll()
+      .catch((error) => logError(error, 'Indexer'))
+      .finally(() => {
+        this.running = null;
+      });
+    await this.running;
+  }
+
+  private async indexRange(
+    network: Network,
+    source: LogSource,
+    fromBlock: number,
+    toBlock: number,
+    updateCheckpoint: boolean
+  ): Promise<void> {
+    const total = toBlock - fromBlock + 1;
+    const start = Date.now();
+    let indexed = 0;
+
+    for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += config.indexer.blockRange) {
+      const chunkEnd = Math.min(chunkStart + config.indexer.blockRange - 1, toBlock);
+
+      const raw = await source.getTransactions(network.settlement_router, chunkStart, chunkEnd);
+      const transactions = raw.flatMap((tx) =>
+        parseTransaction(tx, network.name, network.settlement_router)
+      );
+      await upsertTransactions(transactions);
+      await refreshHookStats(network.name, [
+        ...new Set(transactions.flatMap((tx) => (tx.hook ? [tx.hook] : []))),
+      ]);
+      await rollupDays(transactions.map((tx) => toDate(tx.blockTimestamp)));
+      indexed += transactions.length;
+
+      // Persist progress per chunk so a restart resumes where it stopped
+      if (updateCheckpoint) {
+        const timestamp = await source.getBlockTimestamp(chunkEnd);
+        await updateNetworkCheckpoint(network.name, chunkEnd, timestamp);
+      }
+
+      logIndexerProgress(network.name, chunkEnd - fromBlock + 1, total, Date.now() - start);
+    }
+
+    log.info({ network: network.name, fromBlock, toBlock, settlements: indexed }, 'Indexed blocks');
+  }
+
+  private async getSafeHead(network: Network, source: LogSource): Promise<number> {
+    const head = await source.getLatestBlockNumber();
+    const confirmations =
+      config.indexer.networks[network.name]?.confirmations ?? config.indexer.confirmations;
+    return head - confirmations;
+  }
+
+  private getSource(network: Network): LogSource {
+    let source = this.sources.get(network.name);
+    if (!source) {
+      source = createLogSource(network);
+      this.sources.set(network.name, source);
+    }
+    return source;
+  }
+}
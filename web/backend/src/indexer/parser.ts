@@ -0,0 +1,177 @@
+/**
+ * SettlementRouter event parser
+ *
+ * Decodes Settled, HookExecuted and FeeAccumulated logs and turns a transaction's
+ * logs into one ParsedTransaction per settlement (batch settlements emit several).
+ */
+
+import { decodeEventLog, parseAbi, zeroAddress, type Hex } from 'viem';
+import type {
+  NetworkName,
+  ParsedTransaction,
+  RawTransactionLog,
+  SettledEvent,
+} from '../types.js';
+
+export const SETTLEMENT_ROUTER_EVENTS_ABI = parseAbi([
+  'event Settled(bytes32 indexed contextKey, address indexed payer, address indexed token, uint256 amount, address hook, bytes32 salt, address payTo, uint256 facilitatorFee)',
+  'event HookExecuted(bytes32 indexed contextKey, address indexed hook, bytes returnData)',
+  'event FeeAccumulated(address indexed facilitator, address indexed token, uint256 amount)',
+]);
+
+/**
+ * Decoded SettlementRouter event
+ */
+export type RouterEvent =
+  | { eventName: 'Settled'; args: SettledEvent }
+  | { eventName: 'HookExecuted'; args: { contextKey: string; hook: string; returnData: string } }
+  | { eventName: 'FeeAccumulated'; args: { facilitator: string; token: string; amount: bigint } };
+
+/**
+ * Decode a SettlementRouter log
+ *
+ * @returns Decoded event, or null for logs of other events
+ */
+export function decodeRouterLog(log: { topics: string[]; data: string }): RouterEvent | null {
+  if (log.topics.length === 0) {
+    return null;
+  }
+
+  try {
+    const decoded = decodeEventLog({
+      abi: SETTLEMENT_ROUTER_EVENTS_ABI,
+      topics: log.topics as [Hex, ...Hex[]],
+      data: log.data as Hex,
+    });
+
+    switch (decoded.eventName) {
+      case 'Settled':
+        return {
+          eventName: 'Settled',
+          args: {
+            contextKey: decoded.args.contextKey,
+            payer: decoded.args.payer.toLowerCase(),
+            token: decoded.args.token.toLowerCase(),
+            amount: decoded.args.amount,
+            hook: decoded.args.hook.toLowerCase(),
+            salt: decoded.args.salt,
+            payTo: decoded.args.payTo.toLowerCase(),
+            facilitatorFee: decoded.args.facilitatorFee,
+          },
+        };
+      case 'HookExecuted':
+        return {
+          eventName: 'HookExecuted',
+          args: {
+            contextKey: decoded.args.contextKey,
+            hook: decoded.args.hook.toLowerCase(),
+            returnData: decoded.args.returnData,
+          },
+        };
+      case 'FeeAccumulated':
+        return {
+          eventName: 'FeeAccumulated',
+          args: {
+            facilitator: decoded.args.facilitator.toLowerCase(),
+            token: decoded.args.token.toLowerCase(),
+            amount: decoded.args.amount,
+          },
+        };
+    }
+  } catch {
+    // Not an event of the SettlementRouter ABI
+  }
+  return null;
+}
+
+/**
+ * Parse the settlements of a transaction
+ *
+ * Only logs emitted by the SettlementRouter are considered. The facilitator is the
+ * FeeAccumulated recipient, falling back to the transaction sender for fee-less settlements.
+ *
+ * @returns One parsed transaction per Settled event
+ */
+export function parseTransaction(
+  raw: RawTransactionLog,
+  network: NetworkName,
+  settlementRouter: string
+): ParsedTransaction[] {
+  const router = settlementRouter.toLowerCase();
+  const events = raw.logs
+    .filter((log) => log.address.toLowerCase() === router)
+    .map(decodeRouterLog)
+    .filter((event): event is RouterEvent => event !== null);
+
+  const feeRecipient = events.find((event) => event.eventName === 'FeeAccumulated');
+  const facilitator =
+    feeRecipient?.eventName === 'FeeAccumulated' ? feeRecipient.args.facilitator : raw.from;
+
+  const settlements = events.flatMap((event) =>
+    event.eventName === 'Settled' ? [event.args] : []
+  );
+  // A batch transaction's gas is shared by its settlements, so the rows add up to the transaction
+  const gasShares = splitGas(raw.gasUsed, settlements.length);
+
+  return settlements.map((settled, index) => ({
+    txHash: raw.transactionHash.toLowerCase(),
+    network,
+    blockNumber: raw.blockNumber,
+    blockTimestamp: raw.blockTimestamp,
+    contextKey: settled.contextKey,
+    payer: settled.payer,
+    token: settled.token,
+    amount: settled.amount.toString(),
+    hook: settled.hook === zeroAddress ? null : settled.hook,
+    salt: settled.salt,
+    payTo: settled.payTo,
+    facilitatorFee: settled.facilitatorFee.toString(),
+    facilitator: facilitator.toLowerCase(),
+    gasUsed: gasShares[index] ?? null,
+    gasPrice: raw.gasPrice ?? null,
+    status: raw.status,
+    from: raw.from.toLowerCase(),
+    to: raw.to.toLowerCase(),
+  }));
+}
+
+/**
+ * Split a transaction's gas between its settlements
+ *
+ * The remainder of the integer division goes to the first settlement.
+ *
+ * @returns Gas per settlement (empty when the gas is unknown)
+ */
+function splitGas(gasUsed: number | undefined, count: number): number[] {
+  if (gasUsed === undefined || count === 0) {
+    return [];
+  }
+  const share = Math.floor(gasUsed / count);
+  return Array.from({ length: count }, (_, index) =>
+    index === 0 ? gasUsed - share * (count - 1) : share
+  );
+}
+
+/**
+ * Group logs by transaction, keeping log order
+ *
+ * @param logs - Logs with their transaction and block data
+ * @param toTransaction - Builds the transaction record from its first log
+ * @returns Transactions in block order
+ */
+export function groupLogsByTransaction<T extends { transactionHash: string; address: string; topics: string[]; data: string }>(
+  logs: T[],
+  toTransaction: (log: T) => Omit<RawTransactionLog, 'logs'>
+): RawTransactionLog[] {
+  const transactions = new Map<string, RawTransactionLog>();
+  for (const log of logs) {
+    const hash = log.transactionHash.toLowerCase();
+    let transaction = transactions.get(hash);
+    if (!transaction) {
+      transaction = { ...toTransaction(log), logs: [] };
+      transactions.set(hash, transaction);
+    }
+    transaction.logs.push({ address: log.address, topics: log.topics, data: log.data });
+  }
+  return [...transactions.values()].sort((a, b) => a.blockNumber - b.blockNumber);
+}
@@ -0,0 +1,140 @@
+/**
+ * Etherscan V2 log source (Base chains)
+ *
+ * Uses the logs module for discovery and the proxy module for block and transaction data.
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import type { Network, RawTransactionLog } from '../../types.js';
+import { ExternalApiError } from '../../utils/errors.js';
+import { groupLogsByTransaction } from '../parser.js';
+import type { LogSource } from './index.js';
+
+/** Largest page the logs module returns */
+const PAGE_SIZE = 1000;
+
+interface EtherscanResponse<T> {
+  status?: string;
+  message?: string;
+  result: T;
+}
+
+interface EtherscanLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  timeStamp: string;
+  gasPrice: string;
+  gasUsed: string;
+  logIndex: string;
+  transactionHash: string;
+}
+
+/**
+ * Reads SettlementRouter logs from the Etherscan V2 API
+ */
+export class EtherscanLogSource implements LogSource {
+  private readonly http: AxiosInstance;
+
+  constructor(
+    private readonly network: Network,
+    private readonly apiKey: string
+  ) {
+    this.http = axios.create({ baseURL: network.explorer_api_url, timeout: 30000 });
+  }
+
+  async getLatestBlockNumber(): Promise<number> {
+    const result = await this.request<string>({ module: 'proxy', action: 'eth_blockNumber' });
+    return Number(result);
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const block = await this.request<{ timestamp: string } | null>({
+      module: 'proxy',
+      action: 'eth_getBlockByNumber',
+      tag: `0x${blockNumber.toString(16)}`,
+      boolean: 'false',
+    });
+    if (!block) {
+      throw new ExternalApiError(`Block ${blockNumber} not found on ${this.network.name}`);
+    }
+    return Number(block.timestamp);
+  }
+
+  async getTransactions(
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<RawTransactionLog[]> {
+    const logs: EtherscanLog[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.request<EtherscanLog[]>({
+        module: 'logs',
+        action: 'getLogs',
+        address,
+        fromBlock,
+        toBlock,
+        page,
+        offset: PAGE_SIZE,
+      });
+      logs.push(...batch);
+      if (batch.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const transactions = groupLogsByTransaction(logs, (log) => ({
+      transactionHash: log.transactionHash,
+      blockNumber: Number(log.blockNumber),
+      blockTimestamp: Number(log.timeStamp),
+      from: '',
+      to: '',
+      gasUsed: Number(log.gasUsed),
+      gasPrice: BigInt(log.gasPrice).toString(),
+      // Logs are only emitted by successful transactions
+      status: 'success',
+    }));
+
+    for (const transaction of transactions) {
+      const tx = await this.request<{ from: string; to: string | null } | null>({
+        module: 'proxy',
+        action: 'eth_getTransactionByHash',
+        txhash: transaction.transactionHash,
+      });
+      transaction.from = tx?.from ?? '';
+      transaction.to = tx?.to ?? address;
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Call the API
+   *
+   * @throws ExternalApiError if the request fails or the API reports an error
+   */
+  private async request<T>(params: Record<string, string | number>): Promise<T> {
+    let data: EtherscanResponse<T> & { error?: { message: string } };
+    try {
+      const response = await this.http.get('', {
+        params: { chainid: this.network.chain_id, ...params, apikey: this.apiKey },
+      });
+      data = response.data;
+    } catch (error) {
+      throw new ExternalApiError(`Etherscan request ${params.module}.${params.action} failed`, error);
+    }
+
+    if (data.error) {
+      throw new ExternalApiError(`Etherscan ${params.action} error: ${data.error.message}`);
+    }
+    // The logs module reports an empty result as status 0
+    if (data.status === '0') {
+      if (data.message === 'No records found') {
+        return [] as T;
+      }
+      throw new ExternalApiError(`Etherscan ${params.action} error: ${String(data.result)}`);
+    }
+    return data.result;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Log sources for the indexer
+ */
+
+import { config } from '../../config.js';
+import type { Network, RawTransactionLog } from '../../types.js';
+import { EtherscanLogSource } from './etherscan.js';
+import { OklinkLogSource } from './oklink.js';
+import { RpcLogSource } from './rpc.js';
+
+/**
+ * Source of SettlementRouter logs for one network
+ */
+export interface LogSource {
+  /** Current chain head */
+  getLatestBlockNumber(): Promise<number>;
+  /** Unix timestamp (seconds) of a block */
+  getBlockTimestamp(blockNumber: number): Promise<number>;
+  /** Transactions in [fromBlock, toBlock] that emitted logs from `address`, in block order */
+  getTransactions(address: string, fromBlock: number, toBlock: number): Promise<RawTransactionLog[]>;
+}
+
+/**
+ * Create the configured log source for a network
+ *
+ * With INDEXER_SOURCE=explorer the network's `explorer_api_type` picks the explorer API;
+ * otherwise logs are read via JSON-RPC.
+ */
+export function createLogSource(network: Network): LogSource {
+  if (config.indexer.source === 'explorer') {
+    switch (network.explorer_api_type) {
+      case 'etherscan':
+        return new EtherscanLogSource(network, config.explorer.etherscanApiKey);
+      case 'oklink':
+        return new OklinkLogSource(network, config.explorer.oklinkApiKey);
+    }
+  }
+  return new RpcLogSource(network.name, config.indexer.networks[network.name]?.rpcUrl);
+}
@@ -0,0 +1,152 @@
+/**
+ * OKLink explorer log source (X-Layer chains)
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import { parseEther } from 'viem';
+import type { Network, NetworkName, RawTransactionLog } from '../../types.js';
+import { ExternalApiError } from '../../utils/errors.js';
+import { groupLogsByTransaction } from '../parser.js';
+import type { LogSource } from './index.js';
+
+const PAGE_SIZE = 100;
+
+const CHAIN_SHORT_NAMES: Partial<Record<NetworkName, string>> = {
+  'x-layer': 'XLAYER',
+  'x-layer-testnet': 'XLAYER_TESTNET',
+};
+
+interface OklinkResponse<T> {
+  code: string;
+  msg: string;
+  data: T[];
+}
+
+interface OklinkLog {
+  height: string;
+  address: string;
+  topics: string[];
+  data: string;
+  transactionTime: string;
+  logIndex: string;
+  txId: string;
+}
+
+interface OklinkTransaction {
+  inputDetails: Array<{ inputHash: string }>;
+  outputDetails: Array<{ outputHash: string }>;
+  state: string;
+  gasUsed: string;
+  gasPrice: string;
+}
+
+/**
+ * Reads SettlementRouter logs from the OKLink explorer API
+ */
+export class OklinkLogSource implements LogSource {
+  private readonly http: AxiosInstance;
+  private readonly chainShortName: string;
+
+  constructor(network: Network, apiKey: string) {
+    const chainShortName = CHAIN_SHORT_NAMES[network.name];
+    if (!chainShortName) {
+      throw new ExternalApiError(`OKLink does not support network ${network.name}`);
+    }
+    this.chainShortName = chainShortName;
+    this.http = axios.create({
+      baseURL: network.explorer_api_url,
+      timeout: 30000,
+      headers: { 'Ok-Access-Key': apiKey },
+    });
+  }
+
+  async getLatestBlockNumber(): Promise<number> {
+    const [info] = await this.request<{ lastHeight: string }>('/blockchain/info', {});
+    if (!info) {
+      throw new ExternalApiError(`OKLink returned no chain info for ${this.chainShortName}`);
+    }
+    return Number(info.lastHeight);
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const [block] = await this.request<{ blockTime: string }>('/block/block-fills', {
+      height: blockNumber,
+    });
+    if (!block) {
+      throw new ExternalApiError(`Block ${blockNumber} not found on ${this.chainShortName}`);
+    }
+    // OKLink timestamps are in milliseconds
+    return Math.floor(Number(block.blockTime) / 1000);
+  }
+
+  async getTransactions(
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<RawTransactionLog[]> {
+    const logs: OklinkLog[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.request<OklinkLog>('/log/by-block-and-address', {
+        address,
+        startBlockHeight: fromBlock,
+        endBlockHeight: toBlock,
+        limit: PAGE_SIZE,
+        page,
+      });
+      logs.push(...batch);
+      if (batch.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const transactions = groupLogsByTransaction(
+      logs.map((log) => ({ ...log, transactionHash: log.txId })),
+      (log) => ({
+        transactionHash: log.txId,
+        blockNumber: Number(log.height),
+        blockTimestamp: Math.floor(Number(log.transactionTime) / 1000),
+        from: '',
+        to: '',
+        status: 'success',
+      })
+    );
+
+    for (const transaction of transactions) {
+      const [tx] = await this.request<OklinkTransaction>('/transaction/transaction-fills', {
+        txid: transaction.transactionHash,
+      });
+      if (tx) {
+        transaction.from = tx.inputDetails[0]?.inputHash ?? '';
+        transaction.to = tx.outputDetails[0]?.outputHash ?? address;
+        transaction.gasUsed = Number(tx.gasUsed);
+        // Gas price is reported in the native token; convert to wei
+        transaction.gasPrice = tx.gasPrice ? parseEther(tx.gasPrice).toString() : undefined;
+        transaction.status = tx.state === 'success' ? 'success' : 'failed';
+      }
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Call the API
+   *
+   * @throws ExternalApiError if the request fails or the API reports an error
+   */
+  private async request<T>(path: string, params: Record<string, string | number>): Promise<T[]> {
+    let data: OklinkResponse<T>;
+    try {
+      const response = await this.http.get(path, {
+        params: { chainShortName: this.chainShortName, ...params },
+      });
+      data = response.data;
+    } catch (error) {
+      throw new ExternalApiError(`OKLink request ${path} failed`, error);
+    }
+
+    if (data.code !== '0') {
+      throw new ExternalApiError(`OKLink ${path} error: ${data.code} ${data.msg}`);
+    }
+    return data.data;
+  }
+}
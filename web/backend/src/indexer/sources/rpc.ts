@@ -0,0 +1,126 @@
+/**
+ * JSON-RPC log source (eth_getLogs)
+ */
+
+import { createPublicClient, http, type PublicClient } from 'viem';
+import { base, baseSepolia, bsc, bscTestnet, xLayer, xLayerTestnet } from 'viem/chains';
+import type { NetworkName, RawTransactionLog } from '../../types.js';
+import { ExternalApiError } from '../../utils/errors.js';
+import { groupLogsByTransaction } from '../parser.js';
+import type { LogSource } from './index.js';
+
+const CHAINS = {
+  base,
+  'base-sepolia': baseSepolia,
+  'x-layer': xLayer,
+  'x-layer-testnet': xLayerTestnet,
+  bsc,
+  'bsc-testnet': bscTestnet,
+} as const satisfies Record<NetworkName, unknown>;
+
+const MAX_CACHED_BLOCKS = 1000;
+
+/**
+ * Reads SettlementRouter logs via eth_getLogs and fills in transaction data from receipts
+ */
+export class RpcLogSource implements LogSource {
+  private readonly client: PublicClient;
+  private readonly blockTimestamps = new Map<number, number>();
+
+  constructor(network: NetworkName, rpcUrl?: string) {
+    this.client = createPublicClient({
+      chain: CHAINS[network],
+      transport: http(rpcUrl),
+    }) as PublicClient;
+  }
+
+  async getLatestBlockNumber(): Promise<number> {
+    try {
+      return Number(await this.client.getBlockNumber());
+    } catch (error) {
+      throw new ExternalApiError('Failed to fetch latest block number', error);
+    }
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) {
+      return cached;
+    }
+    try {
+      const block = await this.client.getBlock({ blockNumber: BigInt(blockNumber) });
+      const timestamp = Number(block.timestamp);
+      if (this.blockTimestamps.size >= MAX_CACHED_BLOCKS) {
+        this.blockTimestamps.clear();
+      }
+      this.blockTimestamps.set(blockNumber, timestamp);
+      return timestamp;
+    } catch (error) {
+      throw new ExternalApiError(`Failed to fetch block ${blockNumber}`, error);
+    }
+  }
+
+  async getTransactions(
+    address: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<RawTransactionLog[]> {
+    let logs;
+    try {
+      logs = await this.client.getLogs({
+        address: address as `0x${string}`,
+        fromBlock: BigInt(fromBlock),
+        toBlock: BigInt(toBlock),
+      });
+    } catch (error) {
+      throw new ExternalApiError(`eth_getLogs failed for blocks ${fromBlock}-${toBlock}`, error);
+    }
+
+    const transactions = groupLogsByTransaction(
+      logs.flatMap((log) =>
+        // Removed logs belong to blocks that were reorged out
+        log.removed || !log.transactionHash || log.blockNumber === null
+          ? []
+          : [
+              {
+                transactionHash: log.transactionHash,
+                blockNumber: Number(log.blockNumber),
+                address: log.address,
+                topics: log.topics as string[],
+                data: log.data,
+              },
+            ]
+      ),
+      (log) => ({
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockTimestamp: 0,
+        from: '',
+        to: '',
+        status: 'success',
+      })
+    );
+
+    // Receipts carry sender, gas and status; blocks carry the timestamp
+    for (const transaction of transactions) {
+      try {
+        const receipt = await this.client.getTransactionReceipt({
+          hash: transaction.transactionHash as `0x${string}`,
+        });
+        transaction.from = receipt.from;
+        transaction.to = receipt.to ?? address;
+        transaction.gasUsed = Number(receipt.gasUsed);
+        transaction.gasPrice = receipt.effectiveGasPrice.toString();
+        transaction.status = receipt.status === 'success' ? 'success' : 'failed';
+      } catch (error) {
+        throw new ExternalApiError(
+          `Failed to fetch receipt of ${transaction.transactionHash}`,
+          error
+        );
+      }
+      transaction.blockTimestamp = await this.getBlockTimestamp(transaction.blockNumber);
+    }
+
+    return transactions;
+  }
+}
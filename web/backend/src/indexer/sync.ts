@@ -0,0 +1,98 @@
+/**
+ * Network sync status
+ *
+ * Compares each network's indexer checkpoint with the timestamp of the chain head.
+ */
+
+import { config } from '../config.js';
+import { getNetworks } from '../database/models/networks.js';
+import type { Network, NetworkName, NetworkSyncStatus, SyncStatus } from '../types.js';
+import { createLogger } from '../utils/logger.js';
+import { createLogSource, type LogSource } from './sources/index.js';
+
+const log = createLogger('Sync');
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  not_started: 'Not started',
+  synced: 'Synced',
+  delayed: 'Delayed',
+  critical: 'Critical',
+};
+
+const sources = new Map<NetworkName, LogSource>();
+const heads = new Map<NetworkName, { timestamp: number; fetchedAt: number }>();
+
+/**
+ * Classify indexer lag against the configured thresholds
+ */
+export function getSyncStatus(lastIndexedTimestamp: number, lagSeconds: number): SyncStatus {
+  if (!lastIndexedTimestamp) {
+    return 'not_started';
+  }
+  if (lagSeconds >= config.sync.criticalThreshold) {
+    return 'critical';
+  }
+  if (lagSeconds >= config.sync.delayedThreshold) {
+    return 'delayed';
+  }
+  return 'synced';
+}
+
+/**
+ * Get the sync status of a network
+ */
+export async function getNetworkSyncStatus(network: Network): Promise<NetworkSyncStatus> {
+  const lastIndexedTimestamp = Number(network.last_indexed_timestamp || 0);
+  const headTimestamp = await getHeadTimestamp(network);
+  const lagSeconds = lastIndexedTimestamp ? Math.max(0, headTimestamp - lastIndexedTimestamp) : 0;
+  const syncStatus = getSyncStatus(lastIndexedTimestamp, lagSeconds);
+
+  return {
+    name: network.name,
+    chainId: network.chain_id,
+    isActive: network.is_active,
+    lastIndexedTimestamp,
+    lastIndexedAt: lastIndexedTimestamp ? new Date(lastIndexedTimestamp * 1000).toISOString() : null,
+    lagSeconds,
+    lagMinutes: Math.floor(lagSeconds / 60),
+    syncStatus,
+    syncStatusLabel: SYNC_STATUS_LABELS[syncStatus],
+  };
+}
+
+/**
+ * Get the sync status of all networks
+ */
+export async function getAllNetworkSyncStatus(): Promise<NetworkSyncStatus[]> {
+  const networks = await getNetworks();
+  return Promise.all(networks.map(getNetworkSyncStatus));
+}
+
+/**
+ * Timestamp of the chain head, cached for `config.sync.headCacheTtl`
+ *
+ * Falls back to the wall clock when the chain can't be reached, so an unreachable
+ * RPC still reports lag instead of failing the request.
+ */
+async function getHeadTimestamp(network: Network): Promise<number> {
+  const cached = heads.get(network.name);
+  if (cached && Date.now() - cached.fetchedAt < config.sync.headCacheTtl) {
+    return cached.timestamp;
+  }
+
+  let source = sources.get(network.name);
+  if (!source) {
+    source = createLogSource(network);
+    sources.set(network.name, source);
+  }
+
+  try {
+    const head = await source.getLatestBlockNumber();
+    const timestamp = await source.getBlockTimestamp(head);
+    heads.set(network.name, { timestamp, fetchedAt: Date.now() });
+    return timestamp;
+  } catch (error) {
+    log.warn({ network: network.name, error }, 'Failed to fetch chain head, using current time');
+    return Math.floor(Date.now() / 1000);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Wallet signature authentication
+ *
+ * Clients sign a message binding the request method, path, timestamp and body with
+ * their wallet (EIP-191 personal_sign) and send it in the headers:
+ *   X-Signer-Address: 0x...
+ *   X-Signature:      0x...
+ *   X-Timestamp:      unix seconds
+ *
+ * A signed request is accepted once: it is remembered until its timestamp leaves the
+ * validity window, so a captured request can't be replayed (per process).
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { isAddress, isHex, keccak256, toBytes, verifyMessage } from 'viem';
+import { config } from '../config.js';
+import {
+  ForbiddenError,
+  UnauthorizedError,
+  formatErrorResponse,
+  isAppError,
+} from '../utils/errors.js';
+
+type RawBodyRequest = IncomingMessage & { rawBody?: Buffer };
+
+/** Accepted signed requests (signer and message hash) and when they expire (ms) */
+const usedSignatures = new Map<string, number>();
+
+/**
+ * Record a signed request as used
+ *
+ * Keyed by signer and message rather than the signature bytes, which have more than one
+ * valid encoding.
+ *
+ * @returns False if it was already used
+ */
+function recordSignature(signer: string, message: string, timestamp: number): boolean {
+  const now = Date.now();
+  for (const [used, expiresAt] of usedSignatures) {
+    if (expiresAt <= now) {
+      usedSignatures.delete(used);
+    }
+  }
+
+  const key = keccak256(toBytes(`${signer}\n${message}`));
+  if (usedSignatures.has(key)) {
+    return false;
+  }
+  usedSignatures.set(key, (timestamp + config.auth.signatureTtl) * 1000);
+  return true;
+}
+
+/**
+ * express.json `verify` hook keeping the raw body for signature checks
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * Build the message a client signs for a request
+ *
+ * @param path - Request path including the /api prefix, without query string
+ * @param body - Raw request body (empty for requests without one)
+ */
+export function buildAuthMessage(
+  method: string,
+  path: string,
+  timestamp: number,
+  body: Uint8Array | string
+): string {
+  const bodyHash = keccak256(typeof body === 'string' ? toBytes(body) : body);
+  return [
+    'x402x Scanner request',
+    `${method.toUpperCase()} ${path}`,
+    `Timestamp: ${timestamp}`,
+    `Body: ${bodyHash}`,
+  ].join('\n');
+}
+
+/**
+ * Require a signed request
+ *
+ * The lowercase signer address is stored in `res.locals.signer`.
+ *
+ * @param isAllowed - Restricts which signers may call the route
+ */
+export function requireSignature(isAllowed?: (signer: string) => boolean): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const signer = req.header('x-signer-address');
+      const signature = req.header('x-signature');
+      const timestamp = Number(req.header('x-timestamp'));
+
+      if (!signer || !isAddress(signer, { strict: false }) || !signature || !isHex(signature)) {
+        throw new UnauthorizedError('Missing or malformed signature headers');
+      }
+      if (
+        !Number.isInteger(timestamp) ||
+        Math.abs(Date.now() / 1000 - timestamp) > config.auth.signatureTtl
+      ) {
+        throw new UnauthorizedError('Signature timestamp is missing or expired');
+      }
+
+      const message = buildAuthMessage(
+        req.method,
+        req.baseUrl + req.path,
+        timestamp,
+        (req as RawBodyRequest).rawBody ?? ''
+      );
+      const valid = await verifyMessage({ address: signer, message, signature }).catch(() => false);
+      if (!valid) {
+        throw new UnauthorizedError('Invalid signature');
+      }
+
+      const address = signer.toLowerCase();
+      if (isAllowed && !isAllowed(address)) {
+        throw new ForbiddenError(`${address} is not allowed to perform this action`);
+      }
+      // Checked and recorded without awaiting in between, so concurrent replays are caught too
+      if (!recordSignature(address, message, timestamp)) {
+        throw new UnauthorizedError('Signature has already been used');
+      }
+
+      res.locals.signer = address;
+      next();
+    } catch (error) {
+      res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+    }
+  };
+}
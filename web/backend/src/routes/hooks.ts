@@ -0,0 +1,209 @@
+/**
+ * Hook registry routes
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { isAddress } from 'viem';
+import { config, NETWORK_NAMES } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+import { formatErrorResponse, isAppError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { toHookResponse } from '../utils/formatter.js';
+import { requireSignature } from '../middleware/auth.js';
+import {
+  getHook,
+  getHooks,
+  refreshHookStats,
+  submitHook,
+  verifyHook,
+} from '../database/models/hooks.js';
+import type { HookQueryParams, HookSubmission, NetworkName } from '../types.js';
+
+const hooksRouter: Router = Router();
+const log = createLogger('Routes:Hooks');
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function parseNetwork(value: unknown): NetworkName {
+  if (!NETWORK_NAMES.includes(value as NetworkName)) {
+    throw new ValidationError(`Unknown network: ${String(value)}`, { networks: NETWORK_NAMES });
+  }
+  return value as NetworkName;
+}
+
+function parseAddress(value: unknown, field = 'address'): string {
+  if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+    throw new ValidationError(`${field} must be an address`);
+  }
+  return value.toLowerCase();
+}
+
+/**
+ * Parse and validate hook list query parameters
+ */
+function parseHookQuery(query: Request['query']): HookQueryParams {
+  const page = query.page ? Number(query.page) : 1;
+  const limit = query.limit ? Number(query.limit) : DEFAULT_LIMIT;
+  if (!Number.isInteger(page) || page < 1) {
+    throw new ValidationError('page must be a positive integer');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  if (query.verified !== undefined && query.verified !== 'true' && query.verified !== 'false') {
+    throw new ValidationError('verified must be true or false');
+  }
+
+  return {
+    page,
+    limit,
+    network: query.network ? parseNetwork(query.network) : undefined,
+    category: typeof query.category === 'string' && query.category ? query.category : undefined,
+    verified: query.verified === undefined ? undefined : query.verified === 'true',
+  };
+}
+
+/**
+ * Parse and validate a hook submission body
+ */
+function parseSubmission(body: Record<string, unknown>): HookSubmission {
+  const optional = (field: string, maxLength: number) => {
+    const value = body[field];
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    if (typeof value !== 'string' || value.length > maxLength) {
+      throw new ValidationError(`${field} must be a string of at most ${maxLength} characters`);
+    }
+    return value;
+  };
+
+  const name = optional('name', 100);
+  if (!name) {
+    throw new ValidationError('name is required');
+  }
+
+  const website = optional('website', 255);
+  if (website && !/^https?:\/\//.test(website)) {
+    throw new ValidationError('website must be an http(s) URL');
+  }
+  const github = optional('github', 255);
+  if (github && !/^https:\/\/github\.com\/[\w.-]+(\/[\w.-]+)*\/?$/.test(github)) {
+    throw new ValidationError('github must be a https://github.com/ URL');
+  }
+
+  return {
+    network: parseNetwork(body.network),
+    address: parseAddress(body.address),
+    name,
+    description: optional('description', 2000),
+    category: optional('category', 50),
+    version: optional('version', 20),
+    author: optional('author', 100),
+    website,
+    github,
+  };
+}
+
+/**
+ * GET /api/hooks
+ * List registered hooks with their cached stats
+ */
+hooksRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const params = parseHookQuery(req.query);
+    const { hooks, total } = await getHooks(params);
+
+    res.json({
+      success: true,
+      data: {
+        items: hooks.map(toHookResponse),
+        page: params.page,
+        limit: params.limit,
+        total,
+        totalPages: Math.ceil(total / params.limit),
+      },
+    });
+  } catch (error) {
+    log.error('Failed to get hooks:', error);
+    res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+  }
+});
+
+/**
+ * GET /api/hooks/:network/:address
+ * Get a registered hook with its cached stats
+ */
+hooksRouter.get('/:network/:address', async (req: Request, res: Response) => {
+  try {
+    const network = parseNetwork(req.params.network);
+    const address = parseAddress(req.params.address);
+
+    const hook = await getHook(network, address);
+    if (!hook) {
+      throw new NotFoundError(`Hook ${address} is not registered on ${network}`);
+    }
+
+    res.json({
+      success: true,
+      data: toHookResponse(hook),
+    });
+  } catch (error) {
+    log.error('Failed to get hook:', error);
+    res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+  }
+});
+
+/**
+ * POST /api/hooks
+ * Submit a hook for registration (signed by the submitter's wallet)
+ */
+hooksRouter.post('/', requireSignature(), async (req: Request, res: Response) => {
+  try {
+    const submission = parseSubmission(req.body ?? {});
+    const submitter = res.locals.signer as string;
+
+    await submitHook(submission, submitter);
+    // Pick up stats of transactions indexed before registration
+    await refreshHookStats(submission.network, [submission.address]);
+    const hook = await getHook(submission.network, submission.address);
+
+    log.info({ network: submission.network, address: submission.address, submitter }, 'Hook submitted');
+    res.status(201).json({
+      success: true,
+      data: hook && toHookResponse(hook),
+    });
+  } catch (error) {
+    log.error('Failed to submit hook:', error);
+    res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+  }
+});
+
+/**
+ * POST /api/hooks/:network/:address/verify
+ * Verify a submitted hook (signed by a configured verifier)
+ */
+hooksRouter.post(
+  '/:network/:address/verify',
+  requireSignature((signer) => config.hookRegistry.verifiers.includes(signer)),
+  async (req: Request, res: Response) => {
+    try {
+      const network = parseNetwork(req.params.network);
+      const address = parseAddress(req.params.address);
+      const verifier = res.locals.signer as string;
+
+      const hook = await verifyHook(network, address, verifier);
+
+      log.info({ network, address, verifier }, 'Hook verified');
+      res.json({
+        success: true,
+        data: toHookResponse(hook),
+      });
+    } catch (error) {
+      log.error('Failed to verify hook:', error);
+      res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+    }
+  }
+);
+
+export default hooksRouter;
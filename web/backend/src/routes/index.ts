@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import transactionsRouter from './transaction.js';
 import statsRouter from './stats.js';
+import networksRouter from './networks.js';
+import hooksRouter from './hooks.js';
 
 const apiRouter: Router = Router();
 apiRouter.use('/transactions', transactionsRouter);
 apiRouter.use('/stats', statsRouter);
+apiRouter.use('/networks', networksRouter);
+apiRouter.use('/hooks', hooksRouter);
 
 export { apiRouter };
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * Network routes
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { createLogger } from '../utils/logger.js';
+import { formatErrorResponse, isAppError, NotFoundError } from '../utils/errors.js';
+import { getNetwork } from '../database/models/networks.js';
+import { getAllNetworkSyncStatus, getNetworkSyncStatus } from '../indexer/sync.js';
+import type { NetworkName } from '../types.js';
+
+const networksRouter: Router = Router();
+const log = createLogger('Routes:Networks');
+
+/**
+ * GET /api/networks
+ * List networks with their sync status
+ */
+networksRouter.get('/', async (_: Request, res: Response) => {
+  try {
+    const networks = await getAllNetworkSyncStatus();
+
+    res.json({
+      success: true,
+      data: networks,
+    });
+  } catch (error) {
+    log.error('Failed to get networks:', error);
+    res.status(500).json(formatErrorResponse(error));
+  }
+});
+
+/**
+ * GET /api/networks/:name/sync
+ * Get the sync status of a network
+ */
+networksRouter.get('/:name/sync', async (req: Request, res: Response) => {
+  try {
+    const network = await getNetwork(req.params.name as NetworkName);
+    if (!network) {
+      throw new NotFoundError(`Network ${req.params.name} not found`);
+    }
+
+    res.json({
+      success: true,
+      data: await getNetworkSyncStatus(network),
+    });
+  } catch (error) {
+    log.error('Failed to get network sync status:', error);
+    res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+  }
+});
+
+export default networksRouter;
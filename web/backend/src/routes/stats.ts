@@ -4,18 +4,48 @@
 
 import { Router, type Request, type Response } from 'express';
 import { createLogger } from '../utils/logger.js';
-import { formatErrorResponse } from '../utils/errors.js';
+import { formatErrorResponse, isAppError, ValidationError } from '../utils/errors.js';
 import {
   getTempOverallStats,
   getAggregatedStats
 } from '../database/models/stats.js';
+import { getStats } from '../stats/engine.js';
+import type { StatsPeriod } from '../types.js';
 
 const statsRouter: Router = Router();
 const log = createLogger('Routes:Stats');
 
+const PERIODS: StatsPeriod[] = ['day', 'week', 'month', 'all'];
+
+/**
+ * GET /api/stats?period=day|week|month|all
+ * Get statistics for a period (default: all)
+ */
+statsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const period = (req.query.period ?? 'all') as StatsPeriod;
+    if (!PERIODS.includes(period)) {
+      throw new ValidationError(`period must be one of ${PERIODS.join(', ')}`);
+    }
+
+    const stats = await getStats(period);
+
+    res.json({
+      success: true,
+      data: {
+        period,
+        ...stats,
+      },
+    });
+  } catch (error) {
+    log.error('Failed to get statistics:', error);
+    res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+  }
+});
+
 /**
- * GET /api/stats
- * Get aggregated statistics
+ * GET /api/stats/hooks
+ * Get per-hook statistics
  */
 statsRouter.get('/hooks', async (_: Request, res: Response) => {
   try {
@@ -33,6 +63,10 @@ statsRouter.get('/hooks', async (_: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/stats/overview
+ * Get totals across all indexed transactions
+ */
 statsRouter.get('/overview', async (_: Request, res: Response) => {
   try {
     const overview = await getAggregatedStats();
@@ -1,39 +1,147 @@
 /**
- * Statistics routes
+ * Transaction routes
  */
 
 import { Router, type Request, type Response } from 'express';
-import { formatErrorResponse } from '../utils/errors.js';
-import {
-  getTempTransactions,
-  getTempTransactionsCount
-} from '../database/models/stats.js';
+import { isAddress, isHash } from 'viem';
+import { NETWORK_NAMES } from '../config.js';
+import { createLogger } from '../utils/logger.js';
+import { formatErrorResponse, isAppError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { toTransactionResponse } from '../utils/formatter.js';
+import { getTransactions, getTransactionsByHash } from '../database/models/transactions.js';
+import type {
+  NetworkName,
+  TransactionListResponse,
+  TransactionQueryParams,
+} from '../types.js';
 
 const transactionsRouter: Router = Router();
+const log = createLogger('Routes:Transactions');
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Parse and validate transaction list query parameters
+ *
+ * @throws ValidationError on unknown values
+ */
+function parseTransactionQuery(query: Request['query']): TransactionQueryParams {
+  const str = (key: string) => {
+    const value = query[key];
+    return typeof value === 'string' && value ? value : undefined;
+  };
+  const int = (key: string, fallback: number) => {
+    const value = str(key);
+    return value === undefined ? fallback : Number(value);
+  };
+
+  const page = int('page', 1);
+  const limit = int('limit', DEFAULT_LIMIT);
+  if (!Number.isInteger(page) || page < 1) {
+    throw new ValidationError('page must be a positive integer');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const network = str('network');
+  if (network && !NETWORK_NAMES.includes(network as NetworkName)) {
+    throw new ValidationError(`Unknown network: ${network}`, { networks: NETWORK_NAMES });
+  }
+
+  for (const key of ['hook', 'payer', 'facilitator']) {
+    const address = str(key);
+    if (address && !isAddress(address, { strict: false })) {
+      throw new ValidationError(`${key} must be an address`);
+    }
+  }
+
+  const sortBy = str('sortBy') ?? 'timestamp';
+  if (sortBy !== 'timestamp' && sortBy !== 'amount') {
+    throw new ValidationError('sortBy must be timestamp or amount');
+  }
+  const sortOrder = str('sortOrder') ?? 'desc';
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+    throw new ValidationError('sortOrder must be asc or desc');
+  }
+
+  for (const key of ['startDate', 'endDate']) {
+    const date = str(key);
+    if (date && Number.isNaN(Date.parse(date))) {
+      throw new ValidationError(`${key} must be an ISO 8601 date`);
+    }
+  }
+
+  return {
+    page,
+    limit,
+    network: network as NetworkName | undefined,
+    hook: str('hook'),
+    payer: str('payer'),
+    facilitator: str('facilitator'),
+    sortBy,
+    sortOrder,
+    startDate: str('startDate'),
+    endDate: str('endDate'),
+    cursor: str('cursor'),
+  };
+}
 
 /**
- * GET /api/stats
- * Get aggregated statistics
+ * GET /api/transactions
+ * List transactions with filters, sorting and offset or cursor pagination
  */
 transactionsRouter.get('/', async (req: Request, res: Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const transactions = await getTempTransactions(page, limit);
-    const totalItems = await getTempTransactionsCount();
+    const params = parseTransactionQuery(req.query);
+    const { transactions, total, nextCursor } = await getTransactions(params);
+
+    const data: TransactionListResponse = {
+      items: transactions.map((tx) => toTransactionResponse(tx, tx.hook_name)),
+      limit: params.limit,
+      nextCursor,
+    };
+    if (total !== null) {
+      data.page = params.page;
+      data.total = total;
+      data.totalPages = Math.ceil(total / params.limit);
+    }
+
     res.json({
       success: true,
-      data: {
-        items:transactions,
-        page,
-        limit,
-        totalPages: Math.ceil(totalItems / limit),
-      },
+      data,
     });
   } catch (error) {
-    res.status(500).json(formatErrorResponse(error));
+    log.error('Failed to get transactions:', error);
+    res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
   }
 });
 
-export default transactionsRouter;
+/**
+ * GET /api/transactions/:txHash
+ * Get the settlements of a transaction (batch settlements have several)
+ */
+transactionsRouter.get('/:txHash', async (req: Request, res: Response) => {
+  try {
+    const txHash = req.params.txHash ?? '';
+    if (!isHash(txHash)) {
+      throw new ValidationError('txHash must be a 32-byte hex string');
+    }
+
+    const transactions = await getTransactionsByHash(txHash);
+    if (transactions.length === 0) {
+      throw new NotFoundError(`Transaction ${txHash} not found`);
+    }
 
+    res.json({
+      success: true,
+      data: transactions.map((tx) => toTransactionResponse(tx, tx.hook_name)),
+    });
+  } catch (error) {
+    log.error('Failed to get transaction:', error);
+    res.status(isAppError(error) ? error.statusCode : 500).json(formatErrorResponse(error));
+  }
+});
+
+export default transactionsRouter;
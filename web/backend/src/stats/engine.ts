@@ -0,0 +1,270 @@
+/**
+ * Statistics engine
+ *
+ * Maintains daily rollups per network, network+hook and network+facilitator in the
+ * statistics table, and assembles period statistics from them. Distinct payer and
+ * facilitator counts are not additive across days or dimensions, so period counts
+ * are computed exactly over the transactions (get_unique_counts).
+ */
+
+import { formatUnits } from 'viem';
+import { NETWORK_NAMES } from '../config.js';
+import { getHookNames } from '../database/models/hooks.js';
+import { getNetworks } from '../database/models/networks.js';
+import {
+  getDailyStatistics,
+  getUniqueCounts,
+  replaceDailyStatistics,
+  type DailyStatistics,
+} from '../database/models/stats.js';
+import { getTransactionsBetween } from '../database/models/transactions.js';
+import type { NetworkName, StatsPeriod, StatsResponse } from '../types.js';
+import { createLogger } from '../utils/logger.js';
+import { getTokenPrice } from './prices.js';
+
+const log = createLogger('Stats');
+
+const DAY_SECONDS = 86400;
+
+const PERIOD_DAYS: Record<Exclude<StatsPeriod, 'all'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+};
+
+interface Bucket {
+  network: NetworkName;
+  hook: string | null;
+  facilitator: string | null;
+  transactions: number;
+  volume: bigint;
+  volumeUsd: number;
+  feesUsd: number;
+  payers: Set<string>;
+  facilitators: Set<string>;
+}
+
+/**
+ * UTC date (YYYY-MM-DD) of a unix timestamp
+ */
+export function toDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 10);
+}
+
+function toTimestamp(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 1000;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Rebuild the rollups of a day from its indexed transactions
+ *
+ * @param date - UTC date (YYYY-MM-DD)
+ */
+export async function rollupDay(date: string): Promise<void> {
+  const from = toTimestamp(date);
+  const [transactions, networks] = await Promise.all([
+    getTransactionsBetween(from, from + DAY_SECONDS),
+    getNetworks(),
+  ]);
+  const networksByName = new Map(networks.map((network) => [network.name, network]));
+
+  const buckets = new Map<string, Bucket>();
+  const bucket = (network: NetworkName, hook: string | null, facilitator: string | null) => {
+    const key = `${network}:${hook ?? ''}:${facilitator ?? ''}`;
+    let entry = buckets.get(key);
+    if (!entry) {
+      entry = {
+        network,
+        hook,
+        facilitator,
+        transactions: 0,
+        volume: 0n,
+        volumeUsd: 0,
+        feesUsd: 0,
+        payers: new Set(),
+        facilitators: new Set(),
+      };
+      buckets.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const tx of transactions) {
+    const network = networksByName.get(tx.network);
+    const price = network ? await getTokenPrice(network, tx.token) : null;
+    const toUsd = (amount: string) =>
+      price ? Number(formatUnits(BigInt(amount), price.decimals)) * price.priceUsd : 0;
+    const amountUsd = toUsd(String(tx.amount));
+    const feeUsd = toUsd(String(tx.facilitator_fee));
+
+    const targets = [bucket(tx.network, null, null), bucket(tx.network, null, tx.facilitator)];
+    if (tx.hook) {
+      targets.push(bucket(tx.network, tx.hook, null));
+    }
+    for (const target of targets) {
+      target.transactions += 1;
+      target.volume += BigInt(tx.amount);
+      target.volumeUsd += amountUsd;
+      target.feesUsd += feeUsd;
+      target.payers.add(tx.payer);
+      target.facilitators.add(tx.facilitator);
+    }
+  }
+
+  const rows: DailyStatistics[] = [...buckets.values()].map((entry) => ({
+    network: entry.network,
+    hook: entry.hook,
+    facilitator: entry.facilitator,
+    date,
+    transaction_count: entry.transactions,
+    total_volume: entry.volume.toString(),
+    total_volume_usd: round2(entry.volumeUsd),
+    unique_payers: entry.payers.size,
+    unique_facilitators: entry.facilitators.size,
+    avg_transaction_size: round2(entry.volumeUsd / entry.transactions),
+    avg_facilitator_fee: round2(entry.feesUsd / entry.transactions),
+    total_facilitator_fee_usd: round2(entry.feesUsd),
+  }));
+
+  await replaceDailyStatistics(date, rows);
+  log.debug({ date, transactions: transactions.length, rows: rows.length }, 'Rolled up day');
+}
+
+/**
+ * Rebuild the rollups of several days
+ */
+export async function rollupDays(dates: Iterable<string>): Promise<void> {
+  for (const date of [...new Set(dates)].sort()) {
+    await rollupDay(date);
+  }
+}
+
+/**
+ * Assemble statistics for a period from the daily rollups
+ *
+ * Periods are whole UTC days ending today: day = today, week = last 7 days,
+ * month = last 30 days.
+ */
+export async function getStats(period: StatsPeriod): Promise<StatsResponse> {
+  const today = toDate(Math.floor(Date.now() / 1000));
+  const fromDate =
+    period === 'all' ? null : toDate(toTimestamp(today) - (PERIOD_DAYS[period] - 1) * DAY_SECONDS);
+
+  const [rows, uniqueCounts] = await Promise.all([
+    getDailyStatistics(fromDate),
+    getUniqueCounts(fromDate ? toTimestamp(fromDate) : null),
+  ]);
+
+  const byNetwork = Object.fromEntries(
+    NETWORK_NAMES.map((name) => [name, { transactions: 0, volumeUsd: 0, uniquePayers: 0 }])
+  ) as Record<NetworkName, { transactions: number; volumeUsd: number; uniquePayers: number }>;
+  const byHook = new Map<string, { transactions: number; volumeUsd: number }>();
+  const byFacilitator = new Map<string, { transactions: number; volumeUsd: number; feesUsd: number }>();
+  const byDate = new Map<string, { transactions: number; volumeUsd: number }>();
+  let totalTransactions = 0;
+  let totalVolumeUsd = 0;
+  let totalFeesUsd = 0;
+
+  for (const row of rows) {
+    const volumeUsd = Number(row.total_volume_usd);
+    if (row.hook) {
+      const hook = byHook.get(row.hook) ?? { transactions: 0, volumeUsd: 0 };
+      hook.transactions += row.transaction_count;
+      hook.volumeUsd += volumeUsd;
+      byHook.set(row.hook, hook);
+    } else if (row.facilitator) {
+      const facilitator = byFacilitator.get(row.facilitator) ?? {
+        transactions: 0,
+        volumeUsd: 0,
+        feesUsd: 0,
+      };
+      facilitator.transactions += row.transaction_count;
+      facilitator.volumeUsd += volumeUsd;
+      facilitator.feesUsd += Number(row.total_facilitator_fee_usd);
+      byFacilitator.set(row.facilitator, facilitator);
+    } else if (row.network && row.date) {
+      const network = byNetwork[row.network];
+      if (network) {
+        network.transactions += row.transaction_count;
+        network.volumeUsd += volumeUsd;
+      }
+      const day = byDate.get(row.date) ?? { transactions: 0, volumeUsd: 0 };
+      day.transactions += row.transaction_count;
+      day.volumeUsd += volumeUsd;
+      byDate.set(row.date, day);
+
+      totalTransactions += row.transaction_count;
+      totalVolumeUsd += volumeUsd;
+      totalFeesUsd += Number(row.total_facilitator_fee_usd);
+    }
+  }
+
+  const overall = uniqueCounts.find((count) => count.level === 'all');
+  const hookPayers = new Map<string, number>();
+  for (const count of uniqueCounts) {
+    if (count.level === 'network' && count.network && byNetwork[count.network]) {
+      byNetwork[count.network].uniquePayers = count.unique_payers;
+    } else if (count.level === 'hook' && count.hook) {
+      hookPayers.set(count.hook, count.unique_payers);
+    }
+  }
+  const hookNames = await getHookNames([...byHook.keys()]);
+
+  // Fill days without transactions so the series is continuous
+  const timeSeries: NonNullable<StatsResponse['timeSeries']> = [];
+  const firstDate = fromDate ?? [...byDate.keys()].sort()[0];
+  if (firstDate) {
+    for (let ts = toTimestamp(firstDate); ts <= toTimestamp(today); ts += DAY_SECONDS) {
+      const date = toDate(ts);
+      const day = byDate.get(date);
+      timeSeries.push({
+        date,
+        transactions: day?.transactions ?? 0,
+        volumeUSD: (day?.volumeUsd ?? 0).toFixed(2),
+      });
+    }
+  }
+
+  return {
+    overview: {
+      totalTransactions,
+      totalVolumeUSD: totalVolumeUsd.toFixed(2),
+      uniquePayers: overall?.unique_payers ?? 0,
+      uniqueFacilitators: overall?.unique_facilitators ?? 0,
+      averageTransactionSize: (totalTransactions ? totalVolumeUsd / totalTransactions : 0).toFixed(2),
+      averageFacilitatorFee: (totalTransactions ? totalFeesUsd / totalTransactions : 0).toFixed(2),
+    },
+    byNetwork: Object.fromEntries(
+      Object.entries(byNetwork).map(([name, network]) => [
+        name,
+        {
+          transactions: network.transactions,
+          volumeUSD: network.volumeUsd.toFixed(2),
+          uniquePayers: network.uniquePayers,
+        },
+      ])
+    ) as StatsResponse['byNetwork'],
+    byHook: [...byHook.entries()]
+      .sort(([, a], [, b]) => b.volumeUsd - a.volumeUsd)
+      .map(([hook, stats]) => ({
+        hook,
+        hookName: hookNames.get(hook),
+        transactions: stats.transactions,
+        volumeUSD: stats.volumeUsd.toFixed(2),
+        uniqueUsers: hookPayers.get(hook) ?? 0,
+      })),
+    byFacilitator: [...byFacilitator.entries()]
+      .sort(([, a], [, b]) => b.volumeUsd - a.volumeUsd)
+      .map(([facilitator, stats]) => ({
+        facilitator,
+        transactions: stats.transactions,
+        volumeUSD: stats.volumeUsd.toFixed(2),
+        totalFeesEarned: stats.feesUsd.toFixed(2),
+      })),
+    timeSeries,
+  };
+}
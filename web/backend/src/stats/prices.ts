@@ -0,0 +1,87 @@
+/**
+ * Token USD prices
+ *
+ * Each network's USDC is valued at $1 (including testnet USDC, which has no market).
+ * Other tokens are priced through CoinGecko by contract address.
+ */
+
+import axios from 'axios';
+import { config } from '../config.js';
+import type { Network, NetworkName } from '../types.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('Prices');
+
+const USDC_DECIMALS = 6;
+
+/** CoinGecko asset platform ids (testnets are not listed) */
+const COINGECKO_PLATFORMS: Partial<Record<NetworkName, string>> = {
+  base: 'base',
+  'x-layer': 'x-layer',
+  bsc: 'binance-smart-chain',
+};
+
+/**
+ * USD price of a token and its decimals
+ */
+export interface TokenPrice {
+  priceUsd: number;
+  decimals: number;
+}
+
+interface CoingeckoContract {
+  market_data?: { current_price?: { usd?: number } };
+  detail_platforms?: Record<string, { decimal_place?: number | null }>;
+}
+
+const cache = new Map<string, { price: TokenPrice | null; fetchedAt: number }>();
+
+/**
+ * Get the USD price of a token
+ *
+ * @returns Price, or null when the token can't be priced
+ */
+export async function getTokenPrice(network: Network, token: string): Promise<TokenPrice | null> {
+  if (token.toLowerCase() === network.usdc_address.toLowerCase()) {
+    return { priceUsd: 1, decimals: USDC_DECIMALS };
+  }
+
+  const key = `${network.name}:${token.toLowerCase()}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < config.prices.cacheTtl) {
+    return cached.price;
+  }
+
+  const price = await fetchCoingeckoPrice(network.name, token);
+  cache.set(key, { price, fetchedAt: Date.now() });
+  return price;
+}
+
+async function fetchCoingeckoPrice(network: NetworkName, token: string): Promise<TokenPrice | null> {
+  const platform = COINGECKO_PLATFORMS[network];
+  if (!platform) {
+    log.warn({ network, token }, 'No price source for token');
+    return null;
+  }
+
+  try {
+    const { data } = await axios.get<CoingeckoContract>(
+      `https://api.coingecko.com/api/v3/coins/${platform}/contract/${token.toLowerCase()}`,
+      {
+        timeout: 10000,
+        headers: config.prices.coingeckoApiKey
+          ? { 'x-cg-demo-api-key': config.prices.coingeckoApiKey }
+          : undefined,
+      }
+    );
+    const priceUsd = data.market_data?.current_price?.usd;
+    const decimals = data.detail_platforms?.[platform]?.decimal_place;
+    if (priceUsd === undefined || decimals === undefined || decimals === null) {
+      return null;
+    }
+    return { priceUsd, decimals };
+  } catch (error) {
+    log.warn({ network, token, error }, 'Failed to fetch token price');
+    return null;
+  }
+}
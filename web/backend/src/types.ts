@@ -10,7 +10,13 @@ export type NetworkType = 'mainnet' | 'testnet';
 /**
  * Network name
  */
-export type NetworkName = 'base' | 'base-sepolia' | 'x-layer' | 'x-layer-testnet';
+export type NetworkName =
+  | 'base'
+  | 'base-sepolia'
+  | 'x-layer'
+  | 'x-layer-testnet'
+  | 'bsc'
+  | 'bsc-testnet';
 
 /**
  * Transaction status
@@ -127,6 +133,7 @@ export interface Hook {
   is_verified: boolean;
   verified_at: string | null;
   verified_by: string | null;
+  submitted_by: string | null;
   
   // Cached stats
   total_transactions: number;
@@ -151,6 +158,8 @@ export interface HookResponse {
   website?: string;
   github?: string;
   isVerified: boolean;
+  verifiedAt?: string;
+  verifiedBy?: string;
   
   stats: {
     totalTransactions: number;
@@ -175,6 +184,10 @@ export interface Statistics {
   total_volume: string;
   total_volume_usd: number;
   unique_payers: number;
+  unique_facilitators: number;
+  avg_transaction_size: number;
+  avg_facilitator_fee: number;
+  total_facilitator_fee_usd: number;
   
   updated_at: string;
 }
@@ -263,6 +276,19 @@ export interface TransactionQueryParams extends PaginationParams {
   sortOrder?: 'asc' | 'desc';
   startDate?: string;
   endDate?: string;
+  /** Opaque cursor from a previous page's `nextCursor`; takes precedence over `page` */
+  cursor?: string;
+}
+
+/**
+ * Transaction list API response
+ *
+ * `page`, `total` and `totalPages` are only set for offset pagination.
+ */
+export interface TransactionListResponse extends Partial<PaginationResponse> {
+  items: TransactionResponse[];
+  limit: number;
+  nextCursor: string | null;
 }
 
 /**
@@ -274,6 +300,26 @@ export interface HookQueryParams extends PaginationParams {
   verified?: boolean;
 }
 
+/**
+ * Hook registry submission
+ */
+export interface HookSubmission {
+  network: NetworkName;
+  address: string;
+  name: string;
+  description?: string;
+  category?: string;
+  version?: string;
+  author?: string;
+  website?: string;
+  github?: string;
+}
+
+/**
+ * Stats period
+ */
+export type StatsPeriod = 'day' | 'week' | 'month' | 'all';
+
 /**
  * Stats query parameters
  */
@@ -281,7 +327,7 @@ export interface StatsQueryParams {
   network?: NetworkName;
   hook?: string;
   facilitator?: string;
-  period?: 'day' | 'week' | 'month' | 'all';
+  period?: StatsPeriod;
 }
 
 /**
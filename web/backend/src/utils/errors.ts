@@ -38,6 +38,36 @@ export class NotFoundError extends AppError {
   }
 }
 
+/**
+ * Unauthorized error (401)
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required', details?: unknown) {
+    super(message, 'UNAUTHORIZED', 401, details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * Forbidden error (403)
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'FORBIDDEN', 403, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * Conflict error (409)
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'CONFLICT', 409, details);
+    this.name = 'ConflictError';
+  }
+}
+
 /**
  * Database error (500)
  */
@@ -0,0 +1,103 @@
+/**
+ * Data formatting utilities
+ */
+
+import { formatUnits } from 'viem';
+import type { Hook, HookResponse, NetworkName, Transaction, TransactionResponse } from '../types.js';
+
+/** Settlements are made in USDC */
+const TOKEN_DECIMALS = 6;
+
+const EXPLORER_URLS: Record<NetworkName, string> = {
+  base: 'https://basescan.org',
+  'base-sepolia': 'https://sepolia.basescan.org',
+  'x-layer': 'https://www.oklink.com/xlayer',
+  'x-layer-testnet': 'https://www.oklink.com/xlayer-test',
+  bsc: 'https://bscscan.com',
+  'bsc-testnet': 'https://testnet.bscscan.com',
+};
+
+/**
+ * Format a token amount in atomic units for display
+ */
+export function formatTokenAmount(amount: string | number | null, decimals = TOKEN_DECIMALS): string {
+  return formatUnits(BigInt(amount ?? 0), decimals);
+}
+
+/**
+ * Explorer URL of a transaction
+ */
+export function getExplorerTxUrl(network: NetworkName, txHash: string): string {
+  return `${EXPLORER_URLS[network]}/tx/${txHash}`;
+}
+
+/**
+ * Explorer URL of an address
+ */
+export function getExplorerAddressUrl(network: NetworkName, address: string): string {
+  return `${EXPLORER_URLS[network]}/address/${address}`;
+}
+
+/**
+ * Shape a transaction record for the API
+ *
+ * @param hookName - Registered name of the transaction's hook, if any
+ */
+export function toTransactionResponse(tx: Transaction, hookName?: string | null): TransactionResponse {
+  const gasCost =
+    tx.gas_used !== null && tx.gas_price !== null
+      ? (BigInt(tx.gas_used) * BigInt(tx.gas_price)).toString()
+      : null;
+
+  return {
+    txHash: tx.tx_hash,
+    network: tx.network,
+    blockNumber: Number(tx.block_number),
+    timestamp: new Date(Number(tx.block_timestamp) * 1000).toISOString(),
+    contextKey: tx.context_key,
+    payer: tx.payer,
+    token: tx.token,
+    amount: String(tx.amount),
+    amountFormatted: formatTokenAmount(tx.amount),
+    hook: tx.hook,
+    hookName: hookName ?? undefined,
+    salt: tx.salt,
+    payTo: tx.pay_to,
+    facilitatorFee: String(tx.facilitator_fee),
+    facilitatorFeeFormatted: formatTokenAmount(tx.facilitator_fee),
+    from: tx.from,
+    to: tx.to,
+    facilitator: tx.facilitator,
+    gasUsed: tx.gas_used !== null ? String(tx.gas_used) : null,
+    gasPrice: tx.gas_price !== null ? String(tx.gas_price) : null,
+    gasCost,
+    status: tx.status,
+    explorerUrl: getExplorerTxUrl(tx.network, tx.tx_hash),
+  };
+}
+
+/**
+ * Shape a hook record for the API
+ */
+export function toHookResponse(hook: Hook): HookResponse {
+  return {
+    address: hook.address,
+    network: hook.network,
+    name: hook.name,
+    description: hook.description ?? undefined,
+    category: hook.category ?? undefined,
+    version: hook.version ?? undefined,
+    author: hook.author ?? undefined,
+    website: hook.website ?? undefined,
+    github: hook.github ?? undefined,
+    isVerified: hook.is_verified,
+    verifiedAt: hook.verified_at ?? undefined,
+    verifiedBy: hook.verified_by ?? undefined,
+    stats: {
+      totalTransactions: hook.total_transactions ?? 0,
+      totalVolume: String(hook.total_volume ?? 0),
+      uniqueUsers: hook.unique_users ?? 0,
+    },
+    createdAt: hook.created_at,
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import express, { Router } from 'express';
+import request from 'supertest';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { buildAuthMessage, captureRawBody, requireSignature } from '../../src/middleware/auth.js';
+import { config } from '../../src/config.js';
+
+const account = privateKeyToAccount(generatePrivateKey());
+const other = privateKeyToAccount(generatePrivateKey());
+
+function createApp() {
+  const app = express();
+  app.use(express.json({ verify: captureRawBody }));
+  const router = Router();
+  router.post('/', requireSignature(), (_req, res) => {
+    res.json({ signer: res.locals.signer });
+  });
+  router.post(
+    '/verify',
+    requireSignature((signer) => signer === other.address.toLowerCase()),
+    (_req, res) => {
+      res.json({ ok: true });
+    }
+  );
+  app.use('/api/hooks', router);
+  return app;
+}
+
+async function signedHeaders(
+  path: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000),
+  signer = account
+) {
+  const signature = await signer.signMessage({
+    message: buildAuthMessage('POST', path, timestamp, body),
+  });
+  return {
+    'content-type': 'application/json',
+    'x-signer-address': signer.address,
+    'x-signature': signature,
+    'x-timestamp': String(timestamp),
+  };
+}
+
+describe('requireSignature', () => {
+  const app = createApp();
+  let nonce = 0;
+  // Distinct bodies so each test signs a request of its own
+  const body = () => JSON.stringify({ name: 'hook', nonce: nonce++ });
+
+  it('accepts a signed request and exposes the signer', async () => {
+    const payload = body();
+
+    const res = await request(app)
+      .post('/api/hooks')
+      .set(await signedHeaders('/api/hooks/', payload))
+      .send(payload);
+
+    expect(res.status).toBe(200);
+    expect(res.body.signer).toBe(account.address.toLowerCase());
+  });
+
+  it('rejects a replayed request within the TTL', async () => {
+    const payload = body();
+    const headers = await signedHeaders('/api/hooks/', payload);
+
+    const first = await request(app).post('/api/hooks').set(headers).send(payload);
+    const replay = await request(app).post('/api/hooks').set(headers).send(payload);
+
+    expect(first.status).toBe(200);
+    expect(replay.status).toBe(401);
+    expect(replay.body.error.message).toContain('already been used');
+  });
+
+  it('rejects concurrent copies of one request but one', async () => {
+    const payload = body();
+    const headers = await signedHeaders('/api/hooks/', payload);
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => request(app).post('/api/hooks').set(headers).send(payload))
+    );
+
+    expect(responses.map((res) => res.status).sort()).toEqual([200, 401, 401]);
+  });
+
+  it.each([
+    ['expired', -1],
+    ['too far in the future', 1],
+  ])('rejects a timestamp %s', async (_case, direction) => {
+    const payload = body();
+    const timestamp = Math.floor(Date.now() / 1000) + direction * (config.auth.signatureTtl + 5);
+
+    const res = await request(app)
+      .post('/api/hooks')
+      .set(await signedHeaders('/api/hooks/', payload, timestamp))
+      .send(payload);
+
+    expect(res.status).toBe(401);
+    expect(res.body.error.message).toContain('expired');
+  });
+
+  it('accepts a timestamp at the edge of the TTL', async () => {
+    const payload = body();
+    const timestamp = Math.floor(Date.now() / 1000) - config.auth.signatureTtl + 5;
+
+    const res = await request(app)
+      .post('/api/hooks')
+      .set(await signedHeaders('/api/hooks/', payload, timestamp))
+      .send(payload);
+
+    expect(res.status).toBe(200);
+  });
+
+  it('rejects a signature over a different body or path', async () => {
+    const payload = body();
+    const headers = await signedHeaders('/api/hooks/', payload);
+
+    const tampered = await request(app).post('/api/hooks').set(headers).send(body());
+    const otherPath = await request(app).post('/api/hooks/verify').set(headers).send(payload);
+
+    expect(tampered.status).toBe(401);
+    expect(otherPath.status).toBe(401);
+  });
+
+  it('rejects signers that are not allowed', async () => {
+    const payload = body();
+
+    const denied = await request(app)
+      .post('/api/hooks/verify')
+      .set(await signedHeaders('/api/hooks/verify', payload))
+      .send(payload);
+    const allowed = await request(app)
+      .post('/api/hooks/verify')
+      .set(await signedHeaders('/api/hooks/verify', payload, undefined, other))
+      .send(payload);
+
+    expect(denied.status).toBe(403);
+    expect(allowed.status).toBe(200);
+  });
+});
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getStats, rollupDay } from '../../src/stats/engine.js';
+import type { DailyStatistics, UniqueCounts } from '../../src/database/models/stats.js';
+
+const USDC = '0xusdc';
+const WETH = '0xweth';
+const UNPRICED = '0xunpriced';
+
+const db = {
+  transactions: [] as Array<Record<string, unknown>>,
+  statistics: [] as DailyStatistics[],
+  uniqueCounts: [] as UniqueCounts[],
+  replaced: [] as Array<{ date: string; rows: DailyStatistics[] }>,
+};
+
+vi.mock('../../src/database/models/transactions.js', () => ({
+  getTransactionsBetween: async () => db.transactions,
+}));
+
+vi.mock('../../src/database/models/networks.js', () => ({
+  getNetworks: async () => [{ name: 'base', usdc_address: USDC }],
+}));
+
+vi.mock('../../src/database/models/hooks.js', () => ({
+  getHookNames: async (addresses: string[]) =>
+    new Map(addresses.map((address) => [address, `Hook ${address}`])),
+}));
+
+vi.mock('../../src/database/models/stats.js', () => ({
+  getDailyStatistics: async () => db.statistics,
+  getUniqueCounts: async () => db.uniqueCounts,
+  replaceDailyStatistics: async (date: string, rows: DailyStatistics[]) => {
+    db.replaced.push({ date, rows });
+  },
+}));
+
+vi.mock('../../src/stats/prices.js', () => ({
+  getTokenPrice: async (_network: unknown, token: string) => {
+    if (token === USDC) return { priceUsd: 1, decimals: 6 };
+    if (token === WETH) return { priceUsd: 2000, decimals: 18 };
+    return null;
+  },
+}));
+
+function tx(overrides: Record<string, unknown>): Record<string, unknown> {
+  return {
+    network: 'base',
+    token: USDC,
+    amount: '1000000',
+    facilitator_fee: '10000',
+    payer: '0xpayer1',
+    facilitator: '0xfacilitator1',
+    hook: null,
+    ...overrides,
+  };
+}
+
+function row(overrides: Partial<DailyStatistics>): DailyStatistics {
+  return {
+    network: 'base',
+    hook: null,
+    facilitator: null,
+    date: '2026-10-18',
+    transaction_count: 0,
+    total_volume: '0',
+    total_volume_usd: 0,
+    unique_payers: 0,
+    unique_facilitators: 0,
+    avg_transaction_size: 0,
+    avg_facilitator_fee: 0,
+    total_facilitator_fee_usd: 0,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  db.transactions = [];
+  db.statistics = [];
+  db.uniqueCounts = [];
+  db.replaced = [];
+});
+
+describe('rollupDay', () => {
+  const rollup = async () => {
+    await rollupDay('2026-10-18');
+    const [replaced] = db.replaced;
+    const find = (hook: string | null, facilitator: string | null) =>
+      replaced.rows.find((entry) => entry.hook === hook && entry.facilitator === facilitator);
+    return { replaced, find };
+  };
+
+  it('builds network, hook and facilitator rollups for the day', async () => {
+    db.transactions = [
+      tx({ hook: '0xhook', payer: '0xpayer1' }),
+      tx({ hook: '0xhook', payer: '0xpayer1', amount: '3000000', facilitator_fee: '30000' }),
+      tx({ payer: '0xpayer2', facilitator: '0xfacilitator2' }),
+    ];
+
+    const { replaced, find } = await rollup();
+
+    expect(replaced.date).toBe('2026-10-18');
+    expect(replaced.rows).toHaveLength(4);
+    expect(find(null, null)).toMatchObject({
+      transaction_count: 3,
+      total_volume: '5000000',
+      total_volume_usd: 5,
+      unique_payers: 2,
+      unique_facilitators: 2,
+      avg_transaction_size: 1.67,
+      total_facilitator_fee_usd: 0.05,
+    });
+    expect(find('0xhook', null)).toMatchObject({
+      transaction_count: 2,
+      total_volume_usd: 4,
+      unique_payers: 1,
+      avg_transaction_size: 2,
+      avg_facilitator_fee: 0.02,
+    });
+    expect(find(null, '0xfacilitator1')).toMatchObject({
+      transaction_count: 2,
+      unique_facilitators: 1,
+    });
+    expect(find(null, '0xfacilitator2')).toMatchObject({ transaction_count: 1, unique_payers: 1 });
+  });
+
+  it('converts token amounts to USD with their decimals and price', async () => {
+    db.transactions = [
+      tx({ token: WETH, amount: '500000000000000000', facilitator_fee: '1000000000000000' }),
+      tx({ token: UNPRICED, amount: '7000000' }),
+    ];
+
+    const { find } = await rollup();
+
+    // The unpriced token counts towards transactions and raw volume, but not USD
+    expect(find(null, null)).toMatchObject({
+      transaction_count: 2,
+      total_volume: '500000000007000000',
+      total_volume_usd: 1000,
+      total_facilitator_fee_usd: 2,
+    });
+  });
+
+  it('replaces the day with no rows when it has no transactions', async () => {
+    const { replaced } = await rollup();
+
+    expect(replaced.rows).toEqual([]);
+  });
+});
+
+describe('getStats', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sums network rollups once and keeps hook and facilitator rows separate', async () => {
+    db.statistics = [
+      row({
+        date: '2026-10-16',
+        transaction_count: 2,
+        total_volume_usd: 10,
+        total_facilitator_fee_usd: 0.2,
+      }),
+      row({
+        date: '2026-10-18',
+        transaction_count: 3,
+        total_volume_usd: 20,
+        total_facilitator_fee_usd: 0.4,
+      }),
+      row({ date: '2026-10-18', hook: '0xhook', transaction_count: 3, total_volume_usd: 20 }),
+      row({
+        date: '2026-10-18',
+        facilitator: '0xfacilitator1',
+        transaction_count: 3,
+        total_volume_usd: 20,
+        total_facilitator_fee_usd: 0.4,
+      }),
+    ];
+
+    const stats = await getStats('week');
+
+    expect(stats.overview).toMatchObject({
+      totalTransactions: 5,
+      totalVolumeUSD: '30.00',
+      averageTransactionSize: '6.00',
+      averageFacilitatorFee: '0.12',
+    });
+    expect(stats.byNetwork.base).toEqual({ transactions: 5, volumeUSD: '30.00', uniquePayers: 0 });
+    expect(stats.byHook).toEqual([
+      {
+        hook: '0xhook',
+        hookName: 'Hook 0xhook',
+        transactions: 3,
+        volumeUSD: '20.00',
+        uniqueUsers: 0,
+      },
+    ]);
+    expect(stats.byFacilitator).toEqual([
+      {
+        facilitator: '0xfacilitator1',
+        transactions: 3,
+        volumeUSD: '20.00',
+        totalFeesEarned: '0.40',
+      },
+    ]);
+  });
+
+  it('takes unique payers from the exact counts rather than summing rollups', async () => {
+    db.statistics = [
+      row({ date: '2026-10-17', transaction_count: 1, unique_payers: 1 }),
+      row({ date: '2026-10-18', transaction_count: 1, unique_payers: 1 }),
+      row({ date: '2026-10-18', hook: '0xhook', transaction_count: 2, unique_payers: 1 }),
+    ];
+    db.uniqueCounts = [
+      { level: 'all', network: null, hook: null, unique_payers: 1, unique_facilitators: 1 },
+      { level: 'network', network: 'base', hook: null, unique_payers: 1, unique_facilitators: 1 },
+      { level: 'hook', network: null, hook: '0xhook', unique_payers: 1, unique_facilitators: 1 },
+    ];
+
+    const stats = await getStats('all');
+
+    expect(stats.overview.uniquePayers).toBe(1);
+    expect(stats.overview.uniqueFacilitators).toBe(1);
+    expect(stats.byNetwork.base.uniquePayers).toBe(1);
+    expect(stats.byHook[0].uniqueUsers).toBe(1);
+  });
+
+  it('fills days without transactions in the time series', async () => {
+    db.statistics = [row({ date: '2026-10-16', transaction_count: 2, total_volume_usd: 10 })];
+
+    const week = await getStats('week');
+    const all = await getStats('all');
+
+    expect(week.timeSeries?.map((day) => day.date)).toEqual([
+      '2026-10-12',
+      '2026-10-13',
+      '2026-10-14',
+      '2026-10-15',
+      '2026-10-16',
+      '2026-10-17',
+      '2026-10-18',
+    ]);
+    expect(week.timeSeries?.[4]).toEqual({
+      date: '2026-10-16',
+      transactions: 2,
+      volumeUSD: '10.00',
+    });
+    expect(week.timeSeries?.[5]).toEqual({
+      date: '2026-10-17',
+      transactions: 0,
+      volumeUSD: '0.00',
+    });
+    // Without a period start the series begins at the first day with data
+    expect(all.timeSeries?.map((day) => day.date)).toEqual([
+      '2026-10-16',
+      '2026-10-17',
+      '2026-10-18',
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, pad, zeroAddress, type Hex } from 'viem';
+import {
+  SETTLEMENT_ROUTER_EVENTS_ABI,
+  decodeRouterLog,
+  groupLogsByTransaction,
+  parseTransaction,
+} from '../../src/indexer/parser.js';
+import type { RawTransactionLog } from '../../src/types.js';
+
+const ROUTER = '0x817e4f0ee2fbdaac426f1178e149f7dc98873ecb';
+const TOKEN = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const HOOK = '0x6b486aF5A08D27153d0374BE56A1cB1676c460a8';
+const FACILITATOR = '0x1111111111111111111111111111111111111111';
+const SENDER = '0x2222222222222222222222222222222222222222';
+
+function settledLog(index: number, hook: string = HOOK) {
+  const contextKey = pad(`0x${index.toString(16)}`, { size: 32 });
+  return {
+    address: ROUTER,
+    topics: encodeEventTopics({
+      abi: SETTLEMENT_ROUTER_EVENTS_ABI,
+      eventName: 'Settled',
+      args: {
+        contextKey,
+        payer: `0x${String(index).repeat(40).slice(0, 40)}` as Hex,
+        token: TOKEN,
+      },
+    }) as string[],
+    data: encodeAbiParameters(
+      [
+        { type: 'uint256' },
+        { type: 'address' },
+        { type: 'bytes32' },
+        { type: 'address' },
+        { type: 'uint256' },
+      ],
+      [1_000_000n * BigInt(index), hook as Hex, pad('0x01', { size: 32 }), SENDER, 10_000n]
+    ),
+  };
+}
+
+function feeLog() {
+  return {
+    address: ROUTER,
+    topics: encodeEventTopics({
+      abi: SETTLEMENT_ROUTER_EVENTS_ABI,
+      eventName: 'FeeAccumulated',
+      args: { facilitator: FACILITATOR, token: TOKEN },
+    }) as string[],
+    data: encodeAbiParameters([{ type: 'uint256' }], [10_000n]),
+  };
+}
+
+function transaction(logs: RawTransactionLog['logs'], gasUsed?: number): RawTransactionLog {
+  return {
+    transactionHash: '0xABC',
+    blockNumber: 100,
+    blockTimestamp: 1_700_000_000,
+    from: SENDER,
+    to: ROUTER,
+    status: 'success',
+    gasUsed,
+    gasPrice: '1000',
+    logs,
+  };
+}
+
+describe('decodeRouterLog', () => {
+  it('decodes Settled logs with lowercased addresses', () => {
+    const event = decodeRouterLog(settledLog(1));
+
+    expect(event?.eventName).toBe('Settled');
+    expect(event?.eventName === 'Settled' && event.args).toMatchObject({
+      token: TOKEN.toLowerCase(),
+      hook: HOOK.toLowerCase(),
+      payTo: SENDER,
+      amount: 1_000_000n,
+      facilitatorFee: 10_000n,
+    });
+  });
+
+  it('decodes FeeAccumulated logs', () => {
+    expect(decodeRouterLog(feeLog())).toEqual({
+      eventName: 'FeeAccumulated',
+      args: { facilitator: FACILITATOR, token: TOKEN.toLowerCase(), amount: 10_000n },
+    });
+  });
+
+  it('returns null for logs of other events', () => {
+    expect(decodeRouterLog({ topics: [], data: '0x' })).toBeNull();
+    expect(decodeRouterLog({ topics: [pad('0x1234', { size: 32 })], data: '0x' })).toBeNull();
+  });
+});
+
+describe('parseTransaction', () => {
+  it('returns one row per settlement with the fee recipient as facilitator', () => {
+    const rows = parseTransaction(
+      transaction([settledLog(1), settledLog(2, zeroAddress), feeLog()], 300_001),
+      'base-sepolia',
+      ROUTER.toUpperCase().replace('0X', '0x')
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows.map((row) => row.amount)).toEqual(['1000000', '2000000']);
+    expect(rows[0]).toMatchObject({ txHash: '0xabc', facilitator: FACILITATOR, hook: HOOK.toLowerCase() });
+    expect(rows[1]?.hook).toBeNull();
+  });
+
+  it('splits the gas of a batch across its settlements', () => {
+    const rows = parseTransaction(
+      transaction([settledLog(1), settledLog(2), settledLog(3)], 300_001),
+      'base',
+      ROUTER
+    );
+
+    expect(rows.map((row) => row.gasUsed)).toEqual([100_001, 100_000, 100_000]);
+    expect(rows.reduce((sum, row) => sum + (row.gasUsed ?? 0), 0)).toBe(300_001);
+  });
+
+  it('falls back to the sender for fee-less settlements and keeps unknown gas unknown', () => {
+    const [row] = parseTransaction(transaction([settledLog(1)]), 'base', ROUTER);
+
+    expect(row?.facilitator).toBe(SENDER);
+    expect(row?.gasUsed).toBeNull();
+  });
+
+  it('ignores logs emitted by other contracts', () => {
+    const foreign = { ...settledLog(1), address: FACILITATOR };
+
+    expect(parseTransaction(transaction([foreign]), 'base', ROUTER)).toEqual([]);
+  });
+});
+
+describe('groupLogsByTransaction', () => {
+  it('groups logs per transaction in block order', () => {
+    const logs = [
+      { transactionHash: '0xB', blockNumber: 2, address: ROUTER, topics: ['0x1'], data: '0x' },
+      { transactionHash: '0xa', blockNumber: 1, address: ROUTER, topics: ['0x2'], data: '0x' },
+      { transactionHash: '0xb', blockNumber: 2, address: ROUTER, topics: ['0x3'], data: '0x' },
+    ];
+
+    const transactions = groupLogsByTransaction(logs, (log) => ({
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      blockTimestamp: 0,
+      from: '',
+      to: '',
+      status: 'success',
+    }));
+
+    expect(transactions.map((tx) => tx.blockNumber)).toEqual([1, 2]);
+    expect(transactions[1]?.logs.map((log) => log.topics[0])).toEqual(['0x1', '0x3']);
+  });
+});
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getTransactions } from '../../src/database/models/transactions.js';
+import { ValidationError } from '../../src/utils/errors.js';
+
+/**
+ * Chainable stand-in for the Supabase query builder that records filters
+ */
+const query = {
+  calls: [] as Array<[string, unknown[]]>,
+  rows: [] as Array<Record<string, unknown>>,
+};
+
+function builder(): Record<string, unknown> {
+  const chain: Record<string, unknown> = {};
+  for (const method of ['from', 'select', 'eq', 'gte', 'lte', 'or', 'order']) {
+    chain[method] = (...args: unknown[]) => {
+      query.calls.push([method, args]);
+      return chain;
+    };
+  }
+  chain.range = async (from: number, to: number) => {
+    query.calls.push(['range', [from, to]]);
+    return { data: query.rows.slice(0, to - from + 1), count: query.rows.length, error: null };
+  };
+  return chain;
+}
+
+vi.mock('../../src/database/db.js', () => ({
+  getDatabase: () => builder(),
+  handleDatabaseError: (error: unknown) => {
+    throw error;
+  },
+}));
+
+function rows(count: number): Array<Record<string, unknown>> {
+  return Array.from({ length: count }, (_, index) => ({
+    id: 100 - index,
+    block_timestamp: 1_700_000_000 - index,
+    amount: String(1000 + index),
+  }));
+}
+
+const filter = () => query.calls.find(([method]) => method === 'or')?.[1][0];
+
+describe('getTransactions cursor pagination', () => {
+  beforeEach(() => {
+    query.calls = [];
+    query.rows = [];
+  });
+
+  it('returns a cursor that resumes after the last row', async () => {
+    query.rows = rows(3);
+    const first = await getTransactions({ page: 1, limit: 2 });
+
+    expect(first.transactions).toHaveLength(2);
+    expect(first.total).toBe(3);
+    expect(first.nextCursor).not.toBeNull();
+
+    query.calls = [];
+    query.rows = rows(3).slice(2);
+    const second = await getTransactions({ page: 1, limit: 2, cursor: first.nextCursor! });
+
+    expect(filter()).toBe(
+      'block_timestamp.lt.1699999999,and(block_timestamp.eq.1699999999,id.lt.99)'
+    );
+    expect(second.total).toBeNull();
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('pages ascending by amount with the id as tie-breaker', async () => {
+    query.rows = rows(2);
+    const first = await getTransactions({ page: 1, limit: 1, sortBy: 'amount', sortOrder: 'asc' });
+
+    query.calls = [];
+    await getTransactions({
+      page: 1,
+      limit: 1,
+      sortBy: 'amount',
+      sortOrder: 'asc',
+      cursor: first.nextCursor!,
+    });
+
+    expect(filter()).toBe('amount.gt.1000,and(amount.eq.1000,id.gt.100)');
+  });
+
+  it('has no next cursor when the page is exactly full', async () => {
+    query.rows = rows(2);
+
+    const page = await getTransactions({ page: 1, limit: 2 });
+
+    expect(page.transactions).toHaveLength(2);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('ignores the page number when a cursor is given', async () => {
+    query.rows = rows(2);
+    const { nextCursor } = await getTransactions({ page: 1, limit: 1 });
+
+    query.calls = [];
+    await getTransactions({ page: 5, limit: 1, cursor: nextCursor! });
+
+    expect(query.calls.find(([method]) => method === 'range')?.[1]).toEqual([0, 1]);
+  });
+
+  it.each([
+    ['not base64 json', 'not-a-cursor'],
+    ['a non-numeric value', Buffer.from(JSON.stringify(['1),id.gt.(0', 1])).toString('base64url')],
+    ['a non-integer id', Buffer.from(JSON.stringify(['1', 1.5])).toString('base64url')],
+  ])('rejects a cursor with %s', async (_case, cursor) => {
+    await expect(getTransactions({ page: 1, limit: 1, cursor })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(query.calls).toEqual([]);
+  });
+});
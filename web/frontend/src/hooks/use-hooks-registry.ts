@@ -1,8 +1,59 @@
-import type { HookInfo } from "@/types/scan";
-import { MOCK_HOOKS } from "@/hooks/use-transactions";
+import type { HooksRegistryQuery, RegisteredHook } from "@/types/scan";
+import { useQuery } from "@tanstack/react-query";
 
-// Simple mocked hook registry reader. In the future, swap with /hook API.
-export function useHooksRegistry(): HookInfo[] {
-  // No async for mock; keep a stable shape to ease replacement later
-  return Object.values(MOCK_HOOKS);
+type ApiHooksRegistryResponse = {
+  success: boolean;
+  data: {
+    items: RegisteredHook[];
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+};
+
+async function fetchHooksRegistry(query: HooksRegistryQuery): Promise<RegisteredHook[]> {
+  const params = new URLSearchParams({ limit: "100" });
+  if (query.network) params.set("network", query.network);
+  if (query.category) params.set("category", query.category);
+  if (query.verified !== undefined) params.set("verified", String(query.verified));
+
+  const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3003";
+  const url = `${apiUrl}/api/hooks?${params.toString()}`;
+
+  const resp = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+
+  if (!resp.ok) {
+    throw new Error(`HTTP ${resp.status}`);
+  }
+
+  const json = (await resp.json()) as ApiHooksRegistryResponse;
+
+  if (!json.success || !json.data?.items) {
+    throw new Error("Invalid API response");
+  }
+
+  return json.data.items;
+}
+
+// Reads registered hooks from the scanner's hook registry
+export function useHooksRegistry(query: HooksRegistryQuery = {}): {
+  hooks: RegisteredHook[];
+  loading: boolean;
+  error: string | null;
+} {
+  const queryResult = useQuery<RegisteredHook[], Error>({
+    queryKey: ["hooksRegistry", query.network ?? "", query.category ?? "", query.verified ?? null],
+    queryFn: () => fetchHooksRegistry(query),
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    hooks: queryResult.data ?? [],
+    loading: queryResult.isLoading,
+    error: queryResult.error ? queryResult.error.message : null,
+  };
 }
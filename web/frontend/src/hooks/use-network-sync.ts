@@ -0,0 +1,48 @@
+import type { NetworkSyncStatus } from "@/types/scan";
+import { useQuery } from "@tanstack/react-query";
+
+type ApiNetworksResponse = {
+  success: boolean;
+  data: NetworkSyncStatus[];
+};
+
+async function fetchNetworkSync(): Promise<NetworkSyncStatus[]> {
+  const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3003";
+  const url = `${apiUrl}/api/networks`;
+
+  const resp = await fetch(url, {
+    headers: { Accept: "application/json" },
+  });
+
+  if (!resp.ok) {
+    throw new Error(`HTTP ${resp.status}`);
+  }
+
+  const json = (await resp.json()) as ApiNetworksResponse;
+
+  if (!json.success || !Array.isArray(json.data)) {
+    throw new Error("Invalid API response");
+  }
+
+  return json.data;
+}
+
+export function useNetworkSync(): {
+  networks: NetworkSyncStatus[];
+  loading: boolean;
+  error: string | null;
+} {
+  const queryResult = useQuery<NetworkSyncStatus[], Error>({
+    queryKey: ["networkSync"],
+    queryFn: fetchNetworkSync,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    networks: (queryResult.data ?? []).filter((n) => n.isActive),
+    loading: queryResult.isLoading,
+    error: queryResult.error ? queryResult.error.message : null,
+  };
+}
@@ -7,33 +7,31 @@ import type {
   TransactionsResult,
 } from "@/types/scan";
 
-// API response type
+// API response type (mirrors the backend TransactionResponse)
 type ApiTransactionResponse = {
   success: boolean;
   data: {
     items: Array<{
-      id: number;
-      tx_hash: string;
+      txHash: string;
       network: string;
-      time: number; // milliseconds
-      from_addr: string;
-      to_addr: string;
-      hook: string;
-      hook_name: string;
-      amount: number | string; // wei amount
-      block_timestamp: number;
-      created_at: string;
+      blockNumber: number;
+      timestamp: string; // ISO 8601
+      payer: string;
+      payTo: string;
+      amount: string; // atomic units
+      amountFormatted: string;
+      hook: string | null;
+      hookName?: string;
+      explorerUrl: string;
     }>;
-    page: number;
+    page?: number;
     limit: number;
-    totalPages: number;
+    total?: number;
+    totalPages?: number;
+    nextCursor: string | null;
   };
 };
 
-// Backwards-compatible mock registry (kept for use-hooks-registry).
-// In production this is unused; callers should rely on real scan APIs instead.
-export const MOCK_HOOKS: Record<string, HookInfo> = {};
-
 const DEFAULT_RESULT: TransactionsResult = {
   items: [],
   page: 1,
@@ -46,21 +44,20 @@ function transformApiTransaction(apiTx: ApiTransactionResponse["data"]["items"][
   const hook: HookInfo | undefined = apiTx.hook
     ? {
         address: apiTx.hook,
-        name: apiTx.hook_name || undefined,
+        name: apiTx.hookName || undefined,
       }
     : undefined;
 
-  // const timestamp = Math.floor(apiTx.block_timestamp);
-
   // Ensure network matches NetworkId type
   const network = (apiTx.network || "base") as NetworkId;
 
   return {
-    hash: apiTx.tx_hash || "",
-    from: apiTx.from_addr || "",
-    to: apiTx.to_addr || "",
-    valueWei: String(apiTx.amount || "0"), // Convert to string for wei value
-    timestamp: apiTx.block_timestamp,
+    hash: apiTx.txHash || "",
+    from: apiTx.payer || "",
+    to: apiTx.payTo || "",
+    valueWei: apiTx.amount || "0",
+    blockNumber: apiTx.blockNumber,
+    timestamp: Math.floor(Date.parse(apiTx.timestamp) / 1000),
     network,
     hook,
   };
@@ -87,9 +84,9 @@ async function fetchTransactions(query: TransactionsQuery): Promise<Transactions
   params.set("page", String(page));
   params.set("limit", String(pageSize));
 
-  // Add network filter if provided
-  if (query.networks && query.networks.length > 0) {
-    params.set("networks", query.networks.join(","));
+  // Add network filter if provided (the API filters on a single network)
+  if (query.networks && query.networks.length === 1) {
+    params.set("network", query.networks[0]);
   }
 
   // Add hook address filter if provided
@@ -99,10 +96,10 @@ async function fetchTransactions(query: TransactionsQuery): Promise<Transactions
 
   // Add time range filters if provided
   if (query.fromTime) {
-    params.set("fromTime", String(query.fromTime));
+    params.set("startDate", new Date(query.fromTime * 1000).toISOString());
   }
   if (query.toTime) {
-    params.set("toTime", String(query.toTime));
+    params.set("endDate", new Date(query.toTime * 1000).toISOString());
   }
 
   // Use relative path - adjust if backend is on different port
@@ -124,18 +121,12 @@ async function fetchTransactions(query: TransactionsQuery): Promise<Transactions
   }
 
   const transformedItems = json.data.items.map(transformApiTransaction);
-  // Calculate total: if we're on the last page, use items count + (page-1) * limit
-  // Otherwise, use totalPages * limit as upper bound
-  const isLastPage = json.data.page >= json.data.totalPages;
-  const total = isLastPage
-    ? (json.data.page - 1) * json.data.limit + transformedItems.length
-    : json.data.totalPages * json.data.limit;
 
   return {
     items: transformedItems,
-    page: json.data.page,
+    page: json.data.page ?? page,
     pageSize: json.data.limit,
-    total,
+    total: json.data.total ?? transformedItems.length,
   };
 }
 
@@ -14,9 +14,10 @@ import { Spinner } from "@/components/ui/spinner";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { SUPPORTED_NETWORKS } from "@/constants/facilitator";
 import { formatUsdcAtomicToDisplay } from "@/hooks/use-facilitator-stats";
+import { useNetworkSync } from "@/hooks/use-network-sync";
 import { type HookStatsRow, useScanHooks, useScanStats } from "@/hooks/use-scan-stats";
 import { formatNetwork, useTransactions } from "@/hooks/use-transactions";
-import type { HookInfo, NetworkId, Transaction } from "@/types/scan";
+import type { HookInfo, NetworkId, NetworkSyncStatus, SyncStatus, Transaction } from "@/types/scan";
 
 function formatTime(ts: number): string {
   const d = new Date(ts * 1000);
@@ -92,6 +93,48 @@ function getAddressUrl(network: NetworkId, address: string): string {
   }
 }
 
+const SYNC_STATUS_DOT: Record<SyncStatus, string> = {
+  synced: "bg-emerald-500",
+  delayed: "bg-amber-500",
+  critical: "bg-red-500",
+  not_started: "bg-muted-foreground/50",
+};
+
+function formatLag(seconds: number): string {
+  if (seconds < 60) return `${seconds}s behind`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m behind`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h behind`;
+  return `${Math.floor(seconds / 86400)}d behind`;
+}
+
+function SyncStatusBar({ networks }: { networks: NetworkSyncStatus[] }) {
+  if (!networks.length) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {networks.map((n) => (
+        <Badge
+          key={n.name}
+          variant="outline"
+          className="gap-1.5"
+          title={
+            n.lastIndexedAt
+              ? `Last indexed ${new Date(n.lastIndexedAt).toLocaleString()}`
+              : "Not indexed yet"
+          }
+        >
+          <span className={`size-2 rounded-full ${SYNC_STATUS_DOT[n.syncStatus]}`} />
+          {formatNetwork(n.name)}
+          <span className="text-muted-foreground">
+            {n.syncStatus === "synced" || n.syncStatus === "not_started"
+              ? n.syncStatusLabel
+              : `${n.syncStatusLabel} · ${formatLag(n.lagSeconds)}`}
+          </span>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
 function HookBadge({ hook, network }: { hook?: HookInfo; network: NetworkId }) {
   if (!hook) return <span className="text-muted-foreground">—</span>;
   return (
@@ -376,6 +419,7 @@ export default function ActivitiesPage() {
     hooks,
     loading: hooksLoading,
   } = useScanHooks({});
+  const { networks: syncStatus } = useNetworkSync();
 
   return (
     <div className="mx-auto max-w-6xl px-4 py-8 space-y-8">
@@ -383,6 +427,7 @@ export default function ActivitiesPage() {
         <div className="space-y-2">
           <h1 className="text-3xl font-bold tracking-tight">Activities</h1>
           <p className="text-muted-foreground">Overview of facilitator activities across all networks.</p>
+          <SyncStatusBar networks={syncStatus} />
         </div>
         <div>
           <DropdownMenu>
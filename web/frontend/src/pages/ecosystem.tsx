@@ -11,11 +11,14 @@ import {
   SUPPORTED_NETWORKS,
   SUPPORTED_PAYMENT_TOKENS,
 } from "@/constants/facilitator";
+import { formatUsdcAtomicToDisplay } from "@/hooks/use-facilitator-stats";
+import { useHooksRegistry } from "@/hooks/use-hooks-registry";
 import type {
   EcosystemProject,
   EcosystemProjectMetadata,
 } from "@/types/ecosystem";
-import { ArrowUpRight } from "lucide-react";
+import type { RegisteredHook } from "@/types/scan";
+import { ArrowUpRight, BadgeCheck } from "lucide-react";
 import { AnimatePresence, domAnimation, LazyMotion, m } from "motion/react";
 import * as React from "react";
 
@@ -89,10 +92,86 @@ export default function EcosystemPage() {
           </AnimatePresence>
         </m.div>
       </LazyMotion>
+
+      <VerifiedHooksSection />
     </div>
   );
 }
 
+function VerifiedHooksSection() {
+  const { hooks, loading } = useHooksRegistry({ verified: true });
+
+  if (loading || !hooks.length) return null;
+
+  return (
+    <section className="mt-12 space-y-4">
+      <div className="space-y-1">
+        <h2 className="text-2xl font-semibold tracking-tight">Verified Hooks</h2>
+        <p className="text-muted-foreground">
+          Settlement hooks reviewed and verified in the x402x hook registry
+        </p>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {hooks.map((hook) => (
+          <HookCard key={`${hook.network}-${hook.address}`} hook={hook} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function HookCard({ hook }: { hook: RegisteredHook }) {
+  const network = NETWORK_MAP[hook.network];
+  const link = hook.github ?? hook.website;
+
+  return (
+    <Card className="flex h-full flex-col">
+      <CardHeader className="space-y-2">
+        <div className="flex items-center gap-2">
+          <CardTitle className="truncate text-base font-semibold">
+            {hook.name}
+          </CardTitle>
+          <BadgeCheck
+            className="size-4 shrink-0 text-primary"
+            aria-label="Verified"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          <Badge variant="secondary">{network?.name ?? hook.network}</Badge>
+          {hook.category && <Badge variant="outline">{hook.category}</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-1 flex-col gap-3">
+        {hook.description && (
+          <p className="line-clamp-2 text-sm text-muted-foreground">
+            {hook.description}
+          </p>
+        )}
+        <p className="font-mono text-xs text-muted-foreground break-all">
+          {hook.address}
+        </p>
+        <div className="mt-auto flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {hook.stats.totalTransactions.toLocaleString()} txs · $
+            {formatUsdcAtomicToDisplay(hook.stats.totalVolume, 2)}
+          </span>
+          {link && (
+            <a
+              href={link}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-0.5 underline-offset-2 hover:underline"
+            >
+              {hook.github ? "GitHub" : "Website"}
+              <ArrowUpRight className="h-3 w-3" />
+            </a>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 type ProjectCardProps = {
   project: EcosystemProject;
 };
@@ -57,3 +57,45 @@ export type TransactionsResult = {
   total: number;
 };
 
+
+// Indexer sync state of a network, as served by GET /api/networks
+export type SyncStatus = "not_started" | "synced" | "delayed" | "critical";
+
+export type NetworkSyncStatus = {
+  name: NetworkId;
+  chainId: number;
+  isActive: boolean;
+  lastIndexedTimestamp: number; // unix seconds, 0 if never indexed
+  lastIndexedAt: string | null;
+  lagSeconds: number;
+  lagMinutes: number;
+  syncStatus: SyncStatus;
+  syncStatusLabel: string;
+};
+
+// Hook registered in the scanner's hook registry (GET /api/hooks)
+export type RegisteredHook = HookInfo & {
+  name: string;
+  network: NetworkId;
+  description?: string;
+  category?: string;
+  version?: string;
+  author?: string;
+  website?: string;
+  github?: string;
+  isVerified: boolean;
+  verifiedAt?: string;
+  verifiedBy?: string;
+  stats: {
+    totalTransactions: number;
+    totalVolume: string; // USDC atomic units
+    uniqueUsers: number;
+  };
+  createdAt: string;
+};
+
+export type HooksRegistryQuery = {
+  network?: NetworkId;
+  category?: string;
+  verified?: boolean;
+};